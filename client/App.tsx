@@ -30,6 +30,7 @@ import CreateAgentPage from "./pages/dashboard/CreateAgent";
 import AgentDetail from "./pages/dashboard/AgentDetail";
 import TestAgent from "./pages/dashboard/TestAgent";
 import ConversationsPage from "./pages/dashboard/Conversations";
+import ApprovalsPage from "./pages/dashboard/Approvals";
 import KnowledgeBasePage from "./pages/dashboard/KnowledgeBase";
 import APIReference from "./pages/dashboard/APIReference";
 import IntegrationConfig from "./pages/dashboard/IntegrationConfig";
@@ -243,6 +244,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/approvals"
+              element={
+                <ProtectedRoute>
+                  <DashboardLayout>
+                    <ApprovalsPage />
+                  </DashboardLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/dashboard/integrations"
               element={
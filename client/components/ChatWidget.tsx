@@ -16,8 +16,10 @@ import {
   Volume2,
   VolumeX,
   Mic,
+  FileText,
 } from "lucide-react";
 import { streamingChatService } from "@/lib/streaming-chat";
+import { splitCitationMarkers, type Citation } from "@/lib/citations";
 
 interface Message {
   id: string;
@@ -25,6 +27,7 @@ interface Message {
   content: string;
   timestamp: Date;
   streaming?: boolean;
+  citations?: Citation[];
 }
 
 interface ChatWidgetProps {
@@ -63,6 +66,7 @@ export default function ChatWidget({
   const [voiceEnabled, setVoiceEnabled] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
+  const [activeCitation, setActiveCitation] = useState<string | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -132,10 +136,10 @@ export default function ChatWidget({
     return message.id;
   };
 
-  const updateMessage = (messageId: string, content: string, streaming = false) => {
+  const updateMessage = (messageId: string, content: string, streaming = false, citations?: Citation[]) => {
     setMessages(prev => prev.map(msg => 
       msg.id === messageId 
-        ? { ...msg, content, streaming }
+        ? { ...msg, content, streaming, citations: citations ?? msg.citations }
         : msg
     ));
   };
@@ -159,8 +163,8 @@ export default function ChatWidget({
       const agentMessageId = addMessage('agent', '', true);
 
       // Set up streaming callbacks
-      streamingInterface.onMessage((chunk: string, isComplete: boolean) => {
-        updateMessage(agentMessageId, chunk, !isComplete);
+      streamingInterface.onMessage((chunk: string, isComplete: boolean, citations?: Citation[]) => {
+        updateMessage(agentMessageId, chunk, !isComplete, citations);
         
         if (isComplete) {
           setTypingIndicator(false);
@@ -254,8 +258,8 @@ export default function ChatWidget({
       const streamingInterface = streamingChatService.createStreamingInterface(conversationId);
       const agentMessageId = addMessage('agent', '', true);
 
-      streamingInterface.onMessage((chunk: string, isComplete: boolean) => {
-        updateMessage(agentMessageId, chunk, !isComplete);
+      streamingInterface.onMessage((chunk: string, isComplete: boolean, citations?: Citation[]) => {
+        updateMessage(agentMessageId, chunk, !isComplete, citations);
         
         if (isComplete) {
           setTypingIndicator(false);
@@ -332,6 +336,67 @@ export default function ChatWidget({
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const toggleCitation = (messageId: string, marker: number) => {
+    const key = `${messageId}-${marker}`;
+    setActiveCitation(prev => (prev === key ? null : key));
+  };
+
+  // Render [n] markers as footnote links to the sources listed under the answer
+  const renderMessageContent = (message: Message) => {
+    if (!message.citations || message.citations.length === 0) {
+      return message.content;
+    }
+
+    return splitCitationMarkers(message.content, message.citations).map((part, index) =>
+      part.type === 'text' ? (
+        <span key={index}>{part.text}</span>
+      ) : (
+        <button
+          key={index}
+          type="button"
+          onClick={() => toggleCitation(message.id, part.marker)}
+          title={part.citation?.documentName}
+          className="align-super text-[10px] font-medium text-primary hover:underline ml-0.5"
+        >
+          [{part.marker}]
+        </button>
+      )
+    );
+  };
+
+  const renderCitations = (message: Message) => {
+    if (!message.citations || message.citations.length === 0 || message.streaming) {
+      return null;
+    }
+
+    return (
+      <ol className="mt-2 pt-2 border-t border-border/50 space-y-1 text-xs">
+        {message.citations.map((citation) => {
+          const isActive = activeCitation === `${message.id}-${citation.marker}`;
+          return (
+            <li key={citation.marker}>
+              <button
+                type="button"
+                onClick={() => toggleCitation(message.id, citation.marker)}
+                className={`flex items-start space-x-1 text-left hover:underline ${isActive ? 'font-medium' : ''}`}
+              >
+                <span>[{citation.marker}]</span>
+                <FileText className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                <span>
+                  {citation.documentName}
+                  {citation.page ? `, page ${citation.page}` : ''}
+                </span>
+              </button>
+              {isActive && (
+                <p className="mt-1 ml-4 opacity-80 whitespace-pre-wrap">{citation.snippet}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
   // Floating button when widget is closed
   if (!embedded && !isOpen) {
     return (
@@ -437,11 +502,12 @@ export default function ChatWidget({
                           )}
                           <div className="flex-1">
                             <p className="text-sm whitespace-pre-wrap">
-                              {message.content}
+                              {renderMessageContent(message)}
                               {message.streaming && (
                                 <span className="inline-block w-2 h-4 bg-current opacity-75 animate-pulse ml-1" />
                               )}
                             </p>
+                            {renderCitations(message)}
                             <p className="text-xs opacity-70 mt-1">
                               {formatTime(message.timestamp)}
                             </p>
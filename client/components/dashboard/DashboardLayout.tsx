@@ -28,6 +28,7 @@ import {
   HelpCircle,
   Database,
   Code,
+  CheckSquare,
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/lib/auth-context";
@@ -63,6 +64,12 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       icon: MessageSquare,
       current: location.pathname.startsWith("/dashboard/conversations"),
     },
+    {
+      name: "Approvals",
+      href: "/dashboard/approvals",
+      icon: CheckSquare,
+      current: location.pathname.startsWith("/dashboard/approvals"),
+    },
     {
       name: "Knowledge Base",
       href: "/dashboard/knowledge",
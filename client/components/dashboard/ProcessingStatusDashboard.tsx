@@ -29,6 +29,7 @@ import {
   Eye
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { DocumentProcessingQueue, DocumentProcessingJob } from '@/lib/document-processing-queue';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
@@ -36,7 +37,7 @@ interface ProcessingJob {
   id: string;
   type: 'document_upload' | 'knowledge_base_sync' | 'agent_training' | 'workflow_execution' | 'integration_sync';
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'paused';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'paused' | 'retrying' | 'dead_letter';
   progress: number;
   startedAt: Date;
   completedAt?: Date;
@@ -53,6 +54,9 @@ interface ProcessingJob {
     outputSize?: number;
     tokensProcessed?: number;
     chunksCreated?: number;
+    attempts?: number;
+    maxAttempts?: number;
+    nextAttemptAt?: Date;
   };
   resourceUsage?: {
     cpu: number;
@@ -78,6 +82,42 @@ interface SystemStatus {
   };
 }
 
+const processingQueue = new DocumentProcessingQueue(supabase);
+
+const QUEUE_STATUS_MAP: Record<DocumentProcessingJob['status'], ProcessingJob['status']> = {
+  queued: 'pending',
+  leased: 'pending',
+  running: 'running',
+  succeeded: 'completed',
+  failed: 'retrying',
+  dead_letter: 'dead_letter',
+  cancelled: 'cancelled'
+};
+
+function toProcessingJob(job: DocumentProcessingJob, progress?: any): ProcessingJob {
+  const status = QUEUE_STATUS_MAP[job.status];
+
+  return {
+    id: job.id,
+    type: 'document_upload',
+    name: `Processing ${job.fileName}`,
+    status,
+    progress: status === 'completed' ? 100 : progress?.progress || 0,
+    startedAt: new Date(job.startedAt || job.createdAt),
+    completedAt: job.status === 'succeeded' && job.finishedAt ? new Date(job.finishedAt) : undefined,
+    currentStep: status === 'pending' ? 'Waiting for a worker' : progress?.current_step || undefined,
+    totalSteps: progress?.total_steps || undefined,
+    metadata: {
+      fileName: job.fileName,
+      errorMessage: job.lastError?.message,
+      chunksCreated: progress?.processed_chunks || undefined,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      nextAttemptAt: job.status === 'failed' ? new Date(job.availableAt) : undefined
+    }
+  };
+}
+
 export default function ProcessingStatusDashboard() {
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
   const [autoRefresh, setAutoRefresh] = useState(true);
@@ -89,75 +129,23 @@ export default function ProcessingStatusDashboard() {
   const { data: processingJobs, isLoading } = useQuery({
     queryKey: ['processing-jobs', selectedFilter],
     queryFn: async () => {
-      // This would typically fetch from your processing status API
-      // For now, we'll simulate with static data
-      const mockJobs: ProcessingJob[] = [
-        {
-          id: '1',
-          type: 'document_upload',
-          name: 'Processing product-manual.pdf',
-          status: 'running',
-          progress: 65,
-          startedAt: new Date(Date.now() - 2 * 60 * 1000),
-          currentStep: 'Generating embeddings',
-          totalSteps: 5,
-          currentStepIndex: 3,
-          metadata: {
-            fileName: 'product-manual.pdf',
-            fileSize: 2.5 * 1024 * 1024,
-            tokensProcessed: 15420,
-            chunksCreated: 23
-          },
-          resourceUsage: {
-            cpu: 45,
-            memory: 67,
-            storage: 12
-          }
-        },
-        {
-          id: '2',
-          type: 'knowledge_base_sync',
-          name: 'Syncing Customer Support KB',
-          status: 'completed',
-          progress: 100,
-          startedAt: new Date(Date.now() - 10 * 60 * 1000),
-          completedAt: new Date(Date.now() - 5 * 60 * 1000),
-          metadata: {
-            tokensProcessed: 45600,
-            chunksCreated: 89,
-            outputSize: 1.2 * 1024 * 1024
-          }
-        },
-        {
-          id: '3',
-          type: 'agent_training',
-          name: 'Training Sales Assistant Agent',
-          status: 'failed',
-          progress: 30,
-          startedAt: new Date(Date.now() - 15 * 60 * 1000),
-          metadata: {
-            errorMessage: 'Insufficient training data provided',
-            warnings: ['Low confidence scores detected', 'Missing persona configuration']
-          }
-        },
-        {
-          id: '4',
-          type: 'workflow_execution',
-          name: 'Customer Onboarding Workflow',
-          status: 'pending',
-          progress: 0,
-          startedAt: new Date(),
-          currentStep: 'Waiting for resources',
-          metadata: {}
-        }
-      ];
+      const jobs = await processingQueue.getJobs({ limit: 50 });
+
+      // Step and progress of the current attempt
+      const documentIds = jobs.map(job => job.documentId);
+      const { data: statuses } = documentIds.length > 0
+        ? await supabase.from('processing_status').select('*').in('document_id', documentIds)
+        : { data: [] };
+      const progressByDocument = new Map((statuses || []).map((status: any) => [status.document_id, status]));
+
+      const processingJobs = jobs.map(job => toProcessingJob(job, progressByDocument.get(job.documentId)));
 
       // Apply filter
       if (selectedFilter !== 'all') {
-        return mockJobs.filter(job => job.status === selectedFilter);
+        return processingJobs.filter(job => job.status === selectedFilter);
       }
-      
-      return mockJobs;
+
+      return processingJobs;
     },
     refetchInterval: autoRefresh ? refreshInterval : false
   });
@@ -177,7 +165,7 @@ export default function ProcessingStatusDashboard() {
         },
         metrics: {
           activeJobs: processingJobs?.filter(j => j.status === 'running').length || 0,
-          queueLength: processingJobs?.filter(j => j.status === 'pending').length || 0,
+          queueLength: processingJobs?.filter(j => j.status === 'pending' || j.status === 'retrying').length || 0,
           averageProcessingTime: 4.2,
           successRate: 94.5,
           errorRate: 5.5
@@ -187,6 +175,26 @@ export default function ProcessingStatusDashboard() {
     refetchInterval: autoRefresh ? refreshInterval : false
   });
 
+  const handleRetry = async (job: ProcessingJob) => {
+    try {
+      await processingQueue.retry(job.id);
+      toast.success(`${job.metadata?.fileName || job.name} was queued again`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry job');
+    }
+    queryClient.invalidateQueries({ queryKey: ['processing-jobs'] });
+  };
+
+  const handleCancel = async (job: ProcessingJob) => {
+    try {
+      await processingQueue.cancel(job.id);
+      toast.success(`${job.metadata?.fileName || job.name} was cancelled`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel job');
+    }
+    queryClient.invalidateQueries({ queryKey: ['processing-jobs'] });
+  };
+
   const getStatusIcon = (status: ProcessingJob['status']) => {
     switch (status) {
       case 'running': return <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />;
@@ -195,6 +203,8 @@ export default function ProcessingStatusDashboard() {
       case 'pending': return <Clock className="w-4 h-4 text-yellow-500" />;
       case 'cancelled': return <Square className="w-4 h-4 text-gray-500" />;
       case 'paused': return <Pause className="w-4 h-4 text-orange-500" />;
+      case 'retrying': return <RefreshCw className="w-4 h-4 text-orange-500" />;
+      case 'dead_letter': return <AlertCircle className="w-4 h-4 text-red-500" />;
     }
   };
 
@@ -205,13 +215,15 @@ export default function ProcessingStatusDashboard() {
       failed: 'destructive',
       pending: 'secondary',
       cancelled: 'outline',
-      paused: 'secondary'
+      paused: 'secondary',
+      retrying: 'secondary',
+      dead_letter: 'destructive'
     } as const;
 
     return (
       <Badge variant={variants[status]}>
         {getStatusIcon(status)}
-        <span className="ml-1 capitalize">{status}</span>
+        <span className="ml-1 capitalize">{status.replace('_', ' ')}</span>
       </Badge>
     );
   };
@@ -378,8 +390,9 @@ export default function ProcessingStatusDashboard() {
                 <SelectItem value="running">Running</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="failed">Failed</SelectItem>
-                <SelectItem value="paused">Paused</SelectItem>
+                <SelectItem value="retrying">Retrying</SelectItem>
+                <SelectItem value="dead_letter">Dead Letter</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -409,6 +422,8 @@ export default function ProcessingStatusDashboard() {
                           <p className="text-sm text-muted-foreground">
                             Started {formatDuration(job.startedAt)} ago
                             {job.completedAt && ` • Completed in ${formatDuration(job.startedAt, job.completedAt)}`}
+                            {job.metadata?.maxAttempts && job.metadata.attempts > 0 &&
+                              ` • Attempt ${job.metadata.attempts} of ${job.metadata.maxAttempts}`}
                           </p>
                         </div>
                       </div>
@@ -438,7 +453,7 @@ export default function ProcessingStatusDashboard() {
                     )}
 
                     {/* Error Messages */}
-                    {job.status === 'failed' && job.metadata?.errorMessage && (
+                    {(job.status === 'failed' || job.status === 'dead_letter') && job.metadata?.errorMessage && (
                       <Alert variant="destructive" className="mb-3">
                         <AlertCircle className="h-4 w-4" />
                         <AlertDescription>
@@ -447,6 +462,16 @@ export default function ProcessingStatusDashboard() {
                       </Alert>
                     )}
 
+                    {job.status === 'retrying' && (
+                      <Alert className="mb-3">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                          {job.metadata?.errorMessage || 'The last attempt failed'}
+                          {job.metadata?.nextAttemptAt && ` • Retrying at ${job.metadata.nextAttemptAt.toLocaleTimeString()}`}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                     {/* Warnings */}
                     {job.metadata?.warnings && job.metadata.warnings.length > 0 && (
                       <Alert className="mb-3">
@@ -538,8 +563,8 @@ export default function ProcessingStatusDashboard() {
                         </Button>
                       )}
                       
-                      {(job.status === 'pending' || job.status === 'running' || job.status === 'paused') && (
-                        <Button size="sm" variant="outline">
+                      {(job.status === 'pending' || job.status === 'running' || job.status === 'retrying') && (
+                        <Button size="sm" variant="outline" onClick={() => handleCancel(job)}>
                           <Square className="w-3 h-3 mr-1" />
                           Cancel
                         </Button>
@@ -558,8 +583,8 @@ export default function ProcessingStatusDashboard() {
                         </>
                       )}
                       
-                      {job.status === 'failed' && (
-                        <Button size="sm" variant="outline">
+                      {(job.status === 'failed' || job.status === 'retrying' || job.status === 'dead_letter' || job.status === 'cancelled') && (
+                        <Button size="sm" variant="outline" onClick={() => handleRetry(job)}>
                           <RefreshCw className="w-3 h-3 mr-1" />
                           Retry
                         </Button>
@@ -29,6 +29,7 @@ import {
   Settings
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import WebsiteSourcePanel from './WebsiteSourcePanel';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
@@ -69,7 +70,14 @@ const SUPPORTED_FILE_TYPES = {
   'application/vnd.ms-excel': { name: 'Excel File', icon: FileSpreadsheet, color: 'text-green-500' },
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { name: 'Excel File', icon: FileSpreadsheet, color: 'text-green-500' },
   'text/csv': { name: 'CSV File', icon: FileSpreadsheet, color: 'text-green-500' },
+  'text/tab-separated-values': { name: 'TSV File', icon: FileSpreadsheet, color: 'text-green-500' },
   'application/json': { name: 'JSON File', icon: FileCode, color: 'text-yellow-500' },
+  'text/markdown': { name: 'Markdown File', icon: FileText, color: 'text-gray-500' },
+  'text/html': { name: 'HTML Page', icon: FileCode, color: 'text-orange-500' },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': { name: 'PowerPoint Deck', icon: FileText, color: 'text-orange-500' },
+  'application/epub+zip': { name: 'EPUB Book', icon: FileText, color: 'text-blue-500' },
+  'message/rfc822': { name: 'Email Message', icon: FileText, color: 'text-sky-500' },
+  'application/mbox': { name: 'Mailbox Export', icon: FileText, color: 'text-sky-500' },
   'image/jpeg': { name: 'JPEG Image', icon: Image, color: 'text-purple-500' },
   'image/png': { name: 'PNG Image', icon: Image, color: 'text-purple-500' },
 };
@@ -421,7 +429,7 @@ export default function DocumentUploadInterface({
                   <div className="space-y-2">
                     <p className="text-lg">Drag & drop files here, or click to select</p>
                     <p className="text-sm text-muted-foreground">
-                      Supports: PDF, DOCX, TXT, CSV, JSON, Images (max 50MB each, {MAX_BATCH_SIZE} files max)
+                      Supports: PDF, DOCX, PPTX, EPUB, HTML, Markdown, TXT, CSV, JSON, email, images (max 50MB each, {MAX_BATCH_SIZE} files max)
                     </p>
                     {!selectedKnowledgeBase && (
                       <p className="text-sm text-red-500">Please select a knowledge base first</p>
@@ -431,6 +439,9 @@ export default function DocumentUploadInterface({
               </div>
             </CardContent>
           </Card>
+
+          {/* Website Sources */}
+          {selectedKnowledgeBase && <WebsiteSourcePanel knowledgeBaseId={selectedKnowledgeBase} />}
         </div>
 
         {/* Processing Options */}
@@ -31,9 +31,13 @@ import {
   ChevronRight,
   ZoomIn,
   ZoomOut,
-  RotateCw
+  RotateCw,
+  History,
+  RotateCcw
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { searchKnowledgeBase, type RetrievalMode, type RetrievalResult } from '@/lib/knowledge-base-service';
+import { DocumentVersionService } from '@/lib/document-versions';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
@@ -61,6 +65,7 @@ interface KnowledgeDocument {
   created_at: string;
   processed_at?: string;
   file_url?: string;
+  current_version?: number;
 }
 
 interface DocumentChunk {
@@ -86,6 +91,8 @@ interface DocumentViewerProps {
   onDocumentSelect?: (document: KnowledgeDocument) => void;
 }
 
+const documentVersionService = new DocumentVersionService(supabase);
+
 const FILE_TYPE_ICONS = {
   'application/pdf': { icon: FileText, color: 'text-red-500', name: 'PDF' },
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { icon: FileText, color: 'text-blue-500', name: 'DOCX' },
@@ -108,6 +115,10 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(20);
+  const [retrievalQuery, setRetrievalQuery] = useState('');
+  const [retrievalMode, setRetrievalMode] = useState<RetrievalMode>('hybrid');
+  const [retrievalResult, setRetrievalResult] = useState<RetrievalResult | null>(null);
+  const [isSearchingChunks, setIsSearchingChunks] = useState(false);
 
   const queryClient = useQueryClient();
 
@@ -147,6 +158,9 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
         query = query.or(`name.ilike.%${searchQuery}%,content.ilike.%${searchQuery}%`);
       }
 
+      // Count only the chunks of the current version
+      query = query.is('document_chunks.retired_at', null);
+
       // Apply sorting
       query = query.order(sortBy, { ascending: sortOrder === 'asc' });
 
@@ -203,6 +217,7 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
         .from('document_chunks')
         .select('*')
         .eq('document_id', selectedDocument.id)
+        .is('retired_at', null)
         .order('start_index');
 
       if (error) throw error;
@@ -224,12 +239,80 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
     enabled: !!selectedDocument?.id
   });
 
+  // Version history of the selected document
+  const { data: documentVersions } = useQuery({
+    queryKey: ['document-versions', selectedDocument?.id],
+    queryFn: () => documentVersionService.getVersions(selectedDocument!.id),
+    enabled: !!selectedDocument?.id,
+    // Follow a version while it is processed
+    refetchInterval: query =>
+      query.state.data?.some(version => version.status === 'pending') ? 5000 : false,
+  });
+
+  const restoreVersionMutation = useMutation({
+    mutationFn: async ({ documentId, versionNumber }: { documentId: string; versionNumber: number }) => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch('/.netlify/functions/restore-document-version', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token || ''}`,
+        },
+        body: JSON.stringify({ documentId, versionNumber }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to restore the version (${response.status})`);
+      }
+    },
+    onSuccess: (_, { versionNumber }) => {
+      toast.success(`Restoring version ${versionNumber}. Unchanged chunks keep their embeddings.`);
+      queryClient.invalidateQueries({ queryKey: ['document-versions'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    },
+    onError: (error) => {
+      toast.error('Failed to restore version: ' + error.message);
+    }
+  });
+
+  const handleRestoreVersion = (documentId: string, versionNumber: number) => {
+    if (confirm(`Restore version ${versionNumber}? It becomes the current version once it is processed.`)) {
+      restoreVersionMutation.mutate({ documentId, versionNumber });
+    }
+  };
+
   const handleDocumentPreview = (document: KnowledgeDocument) => {
     setSelectedDocument(document);
+    setRetrievalResult(null);
     setPreviewOpen(true);
     onDocumentSelect?.(document);
   };
 
+  // Run a retrieval query scoped to the selected document to inspect per-signal scores
+  const handleRetrievalTest = async () => {
+    if (!selectedDocument || !retrievalQuery.trim()) return;
+
+    setIsSearchingChunks(true);
+    try {
+      const result = await searchKnowledgeBase(
+        [selectedDocument.knowledge_base_id],
+        retrievalQuery,
+        10,
+        { documentIds: [selectedDocument.id] },
+        { mode: retrievalMode }
+      );
+      setRetrievalResult(result);
+    } catch (error) {
+      toast.error('Retrieval test failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsSearchingChunks(false);
+    }
+  };
+
+  const formatScore = (score?: number) => score === undefined ? '—' : score.toFixed(4);
+
   const handleDeleteDocument = (documentId: string) => {
     if (confirm('Are you sure you want to delete this document? This action cannot be undone.')) {
       deleteDocumentMutation.mutate(documentId);
@@ -628,10 +711,12 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
           
           {selectedDocument && (
             <Tabs defaultValue="content" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="content">Content</TabsTrigger>
                 <TabsTrigger value="chunks">Chunks ({documentChunks?.length || 0})</TabsTrigger>
+                <TabsTrigger value="retrieval">Retrieval</TabsTrigger>
                 <TabsTrigger value="metadata">Metadata</TabsTrigger>
+                <TabsTrigger value="versions">Versions ({documentVersions?.length || 0})</TabsTrigger>
               </TabsList>
               
               <TabsContent value="content" className="mt-4">
@@ -683,6 +768,89 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
                 </ScrollArea>
               </TabsContent>
               
+              <TabsContent value="retrieval" className="mt-4 space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Test a query against this document..."
+                    value={retrievalQuery}
+                    onChange={(e) => setRetrievalQuery(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRetrievalTest()}
+                  />
+                  <Select value={retrievalMode} onValueChange={(value) => setRetrievalMode(value as RetrievalMode)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hybrid">Hybrid</SelectItem>
+                      <SelectItem value="vector">Vector</SelectItem>
+                      <SelectItem value="keyword">Keyword</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleRetrievalTest} disabled={isSearchingChunks || !retrievalQuery.trim()}>
+                    {isSearchingChunks ? (
+                      <RefreshCw className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Search className="w-4 h-4" />
+                    )}
+                  </Button>
+                </div>
+
+                <ScrollArea className="h-80 w-full">
+                  {retrievalResult ? (
+                    retrievalResult.chunks.length > 0 ? (
+                      <div className="space-y-3">
+                        <p className="text-xs text-muted-foreground">
+                          {retrievalResult.chunks.length} results in {retrievalResult.tookMs}ms
+                          {` • ${retrievalResult.provider} embeddings`}
+                          {retrievalResult.reranker && ` • reranked by ${retrievalResult.reranker}`}
+                        </p>
+                        {retrievalResult.chunks.map((chunk, index) => (
+                          <Card key={chunk.chunkId}>
+                            <CardHeader className="pb-2">
+                              <div className="flex items-center justify-between">
+                                <CardTitle className="text-sm">
+                                  #{index + 1}
+                                  {chunk.metadata?.page && ` • Page ${chunk.metadata.page}`}
+                                </CardTitle>
+                                <Badge variant="outline">score {formatScore(chunk.score)}</Badge>
+                              </div>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                              <div className="flex flex-wrap gap-2 text-xs">
+                                <Badge variant="secondary">
+                                  vector {formatScore(chunk.scores.vector)}
+                                  {chunk.scores.vectorRank && ` (#${chunk.scores.vectorRank})`}
+                                </Badge>
+                                <Badge variant="secondary">
+                                  keyword {formatScore(chunk.scores.keyword)}
+                                  {chunk.scores.keywordRank && ` (#${chunk.scores.keywordRank})`}
+                                </Badge>
+                                <Badge variant="secondary">fused {formatScore(chunk.scores.fused)}</Badge>
+                                {chunk.scores.rerank !== undefined && (
+                                  <Badge variant="secondary">rerank {formatScore(chunk.scores.rerank)}</Badge>
+                                )}
+                              </div>
+                              <div className="text-sm bg-gray-50 p-3 rounded line-clamp-4">
+                                {chunk.content}
+                              </div>
+                            </CardContent>
+                          </Card>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-center text-muted-foreground py-8">
+                        <p>No chunks matched this query</p>
+                      </div>
+                    )
+                  ) : (
+                    <div className="text-center text-muted-foreground py-8">
+                      <Search className="w-16 h-16 mx-auto mb-4 opacity-50" />
+                      <p>Run a query to see how each chunk scores per retrieval signal</p>
+                    </div>
+                  )}
+                </ScrollArea>
+              </TabsContent>
+
               <TabsContent value="metadata" className="mt-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-3">
@@ -749,6 +917,68 @@ export default function DocumentViewer({ knowledgeBaseId, onDocumentSelect }: Do
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="versions" className="mt-4">
+                <ScrollArea className="h-96 w-full">
+                  {documentVersions && documentVersions.length > 0 ? (
+                    <div className="space-y-3">
+                      {documentVersions.map(version => (
+                        <Card key={version.id}>
+                          <CardContent className="flex items-start justify-between gap-4 pt-4">
+                            <div className="space-y-1 min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">Version {version.versionNumber}</span>
+                                <Badge
+                                  variant={
+                                    version.status === 'active' ? 'default'
+                                      : version.status === 'failed' ? 'destructive'
+                                      : 'outline'
+                                  }
+                                >
+                                  {version.status === 'active' ? 'current' : version.status}
+                                </Badge>
+                                {version.restoredFrom && (
+                                  <Badge variant="secondary">restored from v{version.restoredFrom}</Badge>
+                                )}
+                              </div>
+                              <p className="text-sm text-muted-foreground truncate">
+                                {version.fileName}
+                                {version.sizeBytes !== undefined && ` • ${formatFileSize(version.sizeBytes)}`}
+                                {` • ${formatDate(version.createdAt)}`}
+                              </p>
+                              {version.stats?.added !== undefined && (
+                                <p className="text-xs text-muted-foreground">
+                                  {version.stats.added} chunks added ({version.stats.reusedEmbeddings || 0} reused embeddings),{' '}
+                                  {version.stats.kept || 0} unchanged, {version.stats.retired || 0} retired
+                                </p>
+                              )}
+                              {version.error && (
+                                <p className="text-xs text-red-500">{version.error}</p>
+                              )}
+                            </div>
+                            {version.status !== 'active' && version.status !== 'pending' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={restoreVersionMutation.isPending}
+                                onClick={() => handleRestoreVersion(version.documentId, version.versionNumber)}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Restore
+                              </Button>
+                            )}
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center text-muted-foreground py-8">
+                      <History className="w-16 h-16 mx-auto mb-4 opacity-50" />
+                      <p>No version history yet. Re-uploading a file with the same name adds a version.</p>
+                    </div>
+                  )}
+                </ScrollArea>
+              </TabsContent>
             </Tabs>
           )}
         </DialogContent>
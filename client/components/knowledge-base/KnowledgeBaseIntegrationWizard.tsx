@@ -84,7 +84,14 @@ const SUPPORTED_FILE_TYPES = {
   'application/vnd.ms-excel': 'Excel File',
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'Excel File',
   'text/csv': 'CSV File',
+  'text/tab-separated-values': 'TSV File',
   'application/json': 'JSON File',
+  'text/markdown': 'Markdown File',
+  'text/html': 'HTML Page',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'PowerPoint Deck',
+  'application/epub+zip': 'EPUB Book',
+  'message/rfc822': 'Email Message',
+  'application/mbox': 'Mailbox Export',
 };
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
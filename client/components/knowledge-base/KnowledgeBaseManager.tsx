@@ -32,6 +32,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/lib/auth-context";
+import { CHUNKING_STRATEGIES, DEFAULT_CHUNKING_OPTIONS, type ChunkingOptions } from "@/lib/chunking-engine";
 
 interface KnowledgeBase {
   id: string;
@@ -44,6 +45,7 @@ interface KnowledgeBase {
   chunk_count: number;
   tags: string[];
   is_public: boolean;
+  chunking_config?: ChunkingOptions;
   created_at: string;
   updated_at: string;
 }
@@ -87,7 +89,8 @@ export default function KnowledgeBaseManager() {
     description: '',
     type: 'document' as const,
     tags: [] as string[],
-    is_public: false
+    is_public: false,
+    chunking_config: { ...DEFAULT_CHUNKING_OPTIONS } as ChunkingOptions
   });
 
   useEffect(() => {
@@ -217,7 +220,8 @@ export default function KnowledgeBaseManager() {
         description: '',
         type: 'document',
         tags: [],
-        is_public: false
+        is_public: false,
+        chunking_config: { ...DEFAULT_CHUNKING_OPTIONS }
       });
     } catch (error) {
       console.error('Error creating knowledge base:', error);
@@ -348,6 +352,53 @@ export default function KnowledgeBaseManager() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <label className="text-sm font-medium">Chunking Strategy</label>
+                <Select
+                  value={newKB.chunking_config.strategy}
+                  onValueChange={(value: any) => setNewKB(prev => ({
+                    ...prev,
+                    chunking_config: { ...prev.chunking_config, strategy: value }
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CHUNKING_STRATEGIES.map(strategy => (
+                      <SelectItem key={strategy.value} value={strategy.value}>
+                        {strategy.label} - {strategy.description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Chunk Size (tokens)</label>
+                  <Input
+                    type="number"
+                    min={100}
+                    value={newKB.chunking_config.chunkSize}
+                    onChange={(e) => setNewKB(prev => ({
+                      ...prev,
+                      chunking_config: { ...prev.chunking_config, chunkSize: Number(e.target.value) }
+                    }))}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Overlap (tokens)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={newKB.chunking_config.chunkOverlap}
+                    onChange={(e) => setNewKB(prev => ({
+                      ...prev,
+                      chunking_config: { ...prev.chunking_config, chunkOverlap: Number(e.target.value) }
+                    }))}
+                  />
+                </div>
+              </div>
               <div className="flex justify-end space-x-2">
                 <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
                   Cancel
@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Globe, RefreshCw, Trash2, Plus, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import {
+  WebsiteSourceService,
+  validateWebsiteSource,
+  type WebsiteSource,
+} from '@/lib/website-source-service';
+import { toast } from 'sonner';
+
+interface WebsiteSourcePanelProps {
+  knowledgeBaseId: string;
+}
+
+const RECRAWL_SCHEDULES = [
+  { value: 'none', label: 'Only when requested', cron: undefined },
+  { value: 'daily', label: 'Daily', cron: '0 3 * * *' },
+  { value: 'weekly', label: 'Weekly', cron: '0 3 * * 1' },
+  { value: 'monthly', label: 'Monthly', cron: '0 3 1 * *' },
+];
+
+const websiteSources = new WebsiteSourceService(supabase);
+
+const splitPatterns = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+
+const scheduleLabel = (cron?: string) =>
+  RECRAWL_SCHEDULES.find(schedule => schedule.cron === cron)?.label || cron || 'Only when requested';
+
+/**
+ * Website sources of a knowledge base: add a site or sitemap to crawl, start a
+ * crawl and see what the last one found
+ */
+export default function WebsiteSourcePanel({ knowledgeBaseId }: WebsiteSourcePanelProps) {
+  const [form, setForm] = useState({
+    rootUrl: '',
+    sitemapUrl: '',
+    maxDepth: 2,
+    maxPages: 200,
+    includePatterns: '',
+    excludePatterns: '',
+    respectRobotsTxt: true,
+    schedule: 'weekly',
+  });
+
+  const queryClient = useQueryClient();
+
+  const { data: sources } = useQuery({
+    queryKey: ['website-sources', knowledgeBaseId],
+    queryFn: () => websiteSources.getSources(knowledgeBaseId),
+    enabled: !!knowledgeBaseId,
+    // Follow crawls in progress
+    refetchInterval: query =>
+      (query.state.data as WebsiteSource[] | undefined)?.some(source => source.status === 'crawling') ? 5000 : false,
+  });
+
+  const startCrawl = async (sourceId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch('/.netlify/functions/crawl-websites-background', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session?.access_token || ''}`,
+      },
+      body: JSON.stringify({ sourceId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to start the crawl (${response.status})`);
+    }
+  };
+
+  const createSourceMutation = useMutation({
+    mutationFn: async () => {
+      const { data: user } = await supabase.auth.getUser();
+      if (!user.user) throw new Error('Not authenticated');
+
+      const source = await websiteSources.createSource({
+        knowledgeBaseId,
+        userId: user.user.id,
+        rootUrl: form.rootUrl.trim() || undefined,
+        sitemapUrl: form.sitemapUrl.trim() || undefined,
+        maxDepth: form.maxDepth,
+        maxPages: form.maxPages,
+        includePatterns: splitPatterns(form.includePatterns),
+        excludePatterns: splitPatterns(form.excludePatterns),
+        respectRobotsTxt: form.respectRobotsTxt,
+        recrawlCron: RECRAWL_SCHEDULES.find(schedule => schedule.value === form.schedule)?.cron,
+      });
+
+      await startCrawl(source.id);
+      return source;
+    },
+    onSuccess: (source) => {
+      toast.success(`Crawling ${source.name}`);
+      setForm(prev => ({ ...prev, rootUrl: '', sitemapUrl: '', includePatterns: '', excludePatterns: '' }));
+      queryClient.invalidateQueries({ queryKey: ['website-sources', knowledgeBaseId] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to add the website');
+    },
+  });
+
+  const crawlMutation = useMutation({
+    mutationFn: startCrawl,
+    onSuccess: () => {
+      toast.success('Crawl started. Only pages that changed are processed again.');
+      queryClient.invalidateQueries({ queryKey: ['website-sources', knowledgeBaseId] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to start the crawl');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (sourceId: string) => websiteSources.deleteSource(sourceId),
+    onSuccess: () => {
+      toast.success('Website source removed');
+      queryClient.invalidateQueries({ queryKey: ['website-sources', knowledgeBaseId] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove the website source');
+    },
+  });
+
+  const errors = form.rootUrl || form.sitemapUrl
+    ? validateWebsiteSource({
+        rootUrl: form.rootUrl.trim() || undefined,
+        sitemapUrl: form.sitemapUrl.trim() || undefined,
+        maxDepth: form.maxDepth,
+        maxPages: form.maxPages,
+      })
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="w-5 h-5" />
+          Website Sources
+        </CardTitle>
+        <CardDescription>
+          Crawl a website or sitemap into this knowledge base. Pages go through the same processing as uploads.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sources && sources.length > 0 && (
+          <div className="space-y-3">
+            {sources.map(source => (
+              <div key={source.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{source.name}</span>
+                    <Badge variant={source.status === 'error' ? 'destructive' : source.status === 'crawling' ? 'default' : 'outline'}>
+                      {source.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{source.rootUrl || source.sitemapUrl}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Depth {source.maxDepth} · up to {source.maxPages} pages · {scheduleLabel(source.recrawlCron)}
+                    {source.lastCrawledAt && ` · last crawled ${new Date(source.lastCrawledAt).toLocaleString()}`}
+                  </p>
+                  {source.lastCrawlStats?.pages !== undefined && (
+                    <p className="text-xs text-muted-foreground">
+                      {source.lastCrawlStats.pages} pages: {source.lastCrawlStats.added || 0} new, {source.lastCrawlStats.changed || 0} changed,{' '}
+                      {source.lastCrawlStats.unchanged || 0} unchanged, {source.lastCrawlStats.duplicates || 0} duplicates,{' '}
+                      {source.lastCrawlStats.removed || 0} removed
+                      {source.lastCrawlStats.truncated && ' (page limit reached)'}
+                    </p>
+                  )}
+                  {source.lastError && (
+                    <p className="flex items-center gap-1 text-xs text-red-500">
+                      <AlertCircle className="w-3 h-3" />
+                      {source.lastError}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={source.status === 'crawling' || crawlMutation.isPending}
+                    onClick={() => crawlMutation.mutate(source.id)}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-1" />
+                    Crawl now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(source.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="website-root-url">Root URL</Label>
+            <Input
+              id="website-root-url"
+              placeholder="https://help.example.com"
+              value={form.rootUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, rootUrl: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="website-sitemap-url">Sitemap URL (optional)</Label>
+            <Input
+              id="website-sitemap-url"
+              placeholder="https://help.example.com/sitemap.xml"
+              value={form.sitemapUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, sitemapUrl: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="website-max-depth">Max link depth</Label>
+            <Input
+              id="website-max-depth"
+              type="number"
+              min="0"
+              max="10"
+              value={form.maxDepth}
+              onChange={(e) => setForm(prev => ({ ...prev, maxDepth: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="website-max-pages">Max pages</Label>
+            <Input
+              id="website-max-pages"
+              type="number"
+              min="1"
+              value={form.maxPages}
+              onChange={(e) => setForm(prev => ({ ...prev, maxPages: parseInt(e.target.value) || 1 }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="website-include">Include patterns (one per line)</Label>
+            <Textarea
+              id="website-include"
+              placeholder="/docs/*"
+              value={form.includePatterns}
+              onChange={(e) => setForm(prev => ({ ...prev, includePatterns: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="website-exclude">Exclude patterns (one per line)</Label>
+            <Textarea
+              id="website-exclude"
+              placeholder="/blog/*"
+              value={form.excludePatterns}
+              onChange={(e) => setForm(prev => ({ ...prev, excludePatterns: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Re-crawl</Label>
+            <Select value={form.schedule} onValueChange={(value) => setForm(prev => ({ ...prev, schedule: value }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECRAWL_SCHEDULES.map(schedule => (
+                  <SelectItem key={schedule.value} value={schedule.value}>{schedule.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pt-8">
+            <Checkbox
+              id="website-robots"
+              checked={form.respectRobotsTxt}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, respectRobotsTxt: !!checked }))}
+            />
+            <Label htmlFor="website-robots">Respect robots.txt</Label>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map(error => (
+              <p key={error} className="text-sm text-red-500">{error}</p>
+            ))}
+          </div>
+        )}
+
+        <Button
+          disabled={!knowledgeBaseId || (!form.rootUrl && !form.sitemapUrl) || errors.length > 0 || createSourceMutation.isPending}
+          onClick={() => createSourceMutation.mutate()}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add website and crawl
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
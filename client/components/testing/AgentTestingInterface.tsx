@@ -137,12 +137,16 @@ export default function AgentTestingInterface({
       channel: string;
       metadata?: any;
     }) => {
+      const { data: { session } } = await supabase.auth.getSession();
       const response = await fetch('/.netlify/functions/ai-chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token || ''}`,
+        },
         body: JSON.stringify({
           message: messageData.content,
-          agentId: agentId || 'test-agent',
+          agentId,
           isVoice: messageData.type === 'audio',
           channel: messageData.channel,
           metadata: messageData.metadata
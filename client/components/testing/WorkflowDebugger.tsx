@@ -3,7 +3,7 @@
  * Visual debugging interface for workflow execution
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -13,6 +13,7 @@ import {
   Pause, 
   Square, 
   StepForward, 
+  ArrowDownToLine,
   RotateCcw, 
   Bug,
   CheckCircle,
@@ -20,16 +21,22 @@ import {
   Clock,
   AlertTriangle,
   Eye,
-  Settings,
-  Zap
 } from 'lucide-react';
-import { AgentWorkflow, WorkflowNode } from '../../lib/workflow-types';
+import { AgentWorkflow } from '../../lib/workflow-types';
+import { workflowExecutor } from '../../lib/workflow-executor';
+import {
+  WorkflowDebugSession,
+  type DebugEvent,
+  type DebugPauseState,
+  type WorkflowBreakpoint
+} from '../../lib/workflow-debugger';
 
 interface ExecutionStep {
   id: string;
   nodeId: string;
   nodeName: string;
   nodeType: string;
+  depth: number;
   status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
   startTime?: string;
   endTime?: string;
@@ -49,18 +56,7 @@ interface LogEntry {
   data?: any;
 }
 
-interface DebugSession {
-  id: string;
-  workflowId: string;
-  workflowName: string;
-  status: 'idle' | 'running' | 'paused' | 'completed' | 'failed';
-  startedAt?: string;
-  completedAt?: string;
-  currentStepIndex: number;
-  steps: ExecutionStep[];
-  variables: Record<string, any>;
-  breakpoints: Set<string>;
-}
+type DebugStatus = 'idle' | 'running' | 'paused' | 'completed' | 'failed' | 'stopped';
 
 interface WorkflowDebuggerProps {
   workflow: AgentWorkflow;
@@ -68,286 +64,281 @@ interface WorkflowDebuggerProps {
   className?: string;
 }
 
+const createSteps = (workflow: AgentWorkflow): ExecutionStep[] =>
+  workflow.nodes.map(node => ({
+    id: crypto.randomUUID(),
+    nodeId: node.id,
+    nodeName: node.name || `${node.type} Node`,
+    nodeType: node.type,
+    depth: 1,
+    status: 'pending',
+    logs: []
+  }));
+
+const formatJson = (value: any) => JSON.stringify(value ?? {}, null, 2);
+
 export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
   workflow,
   onClose,
   className = ''
 }) => {
-  const [session, setSession] = useState<DebugSession | null>(null);
-  const [selectedStep, setSelectedStep] = useState<ExecutionStep | null>(null);
+  const [status, setStatus] = useState<DebugStatus>('idle');
+  const [steps, setSteps] = useState<ExecutionStep[]>(() => createSteps(workflow));
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(workflow.nodes[0]?.id || null);
+  const [breakpoints, setBreakpoints] = useState<Record<string, WorkflowBreakpoint>>({});
+  const [paused, setPaused] = useState<DebugPauseState | null>(null);
+  const [variables, setVariables] = useState<Record<string, any>>({});
+  const [variablesDraft, setVariablesDraft] = useState('{}');
+  const [inputDraft, setInputDraft] = useState('{}');
+  const [editError, setEditError] = useState<string | null>(null);
   const [debugInput, setDebugInput] = useState('{}');
-  const [autoStep, setAutoStep] = useState(false);
+  const [stopOnEntry, setStopOnEntry] = useState(true);
+  const sessionRef = useRef<WorkflowDebugSession | null>(null);
+  // Event handlers outlive renders, so the node that receives untagged logs is tracked in a ref
+  const currentNodeRef = useRef<string | null>(null);
 
   useEffect(() => {
     initializeSession();
+    return () => sessionRef.current?.stop();
   }, [workflow]);
 
   const initializeSession = () => {
-    const steps: ExecutionStep[] = workflow.nodes.map(node => ({
-      id: crypto.randomUUID(),
-      nodeId: node.id,
-      nodeName: node.name || `${node.type} Node`,
-      nodeType: node.type,
-      status: 'pending',
-      logs: []
-    }));
-
-    const newSession: DebugSession = {
-      id: crypto.randomUUID(),
-      workflowId: workflow.id,
-      workflowName: workflow.name,
-      status: 'idle',
-      currentStepIndex: -1,
-      steps,
-      variables: {},
-      breakpoints: new Set()
-    };
+    sessionRef.current?.stop();
+    sessionRef.current = null;
+    setSteps(createSteps(workflow));
+    setSelectedNodeId(workflow.nodes[0]?.id || null);
+    setStatus('idle');
+    setPaused(null);
+    setVariables({});
+    setEditError(null);
+  };
 
-    setSession(newSession);
-    setSelectedStep(steps[0] || null);
+  const updateStep = (nodeId: string, update: (step: ExecutionStep) => ExecutionStep) => {
+    setSteps(prev => prev.map(step => step.nodeId === nodeId ? update(step) : step));
   };
 
-  const startExecution = async () => {
-    if (!session) return;
+  const addLog = (level: LogEntry['level'], message: string, nodeId?: string, data?: any) => {
+    const logEntry: LogEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      nodeId,
+      data
+    };
 
-    try {
-      const input = JSON.parse(debugInput);
-      
-      setSession(prev => prev ? {
-        ...prev,
-        status: 'running',
-        startedAt: new Date().toISOString(),
-        variables: { ...prev.variables, input }
-      } : null);
-
-      addLog('info', 'Workflow execution started', undefined, { input });
-
-      if (autoStep) {
-        await executeAllSteps();
-      } else {
-        await executeNextStep();
-      }
-    } catch (error) {
-      addLog('error', `Failed to start execution: ${error.message}`);
+    const targetNodeId = nodeId || currentNodeRef.current;
+    if (targetNodeId) {
+      updateStep(targetNodeId, step => ({ ...step, logs: [...step.logs, logEntry] }));
     }
   };
 
-  const executeAllSteps = async () => {
-    if (!session) return;
-
-    for (let i = 0; i < session.steps.length; i++) {
-      if (session.status === 'paused') break;
-      
-      await executeStepAtIndex(i);
-      
-      // Check for breakpoints
-      const step = session.steps[i];
-      if (session.breakpoints.has(step.nodeId)) {
-        pauseExecution();
+  const handleDebugEvent = (event: DebugEvent) => {
+    switch (event.type) {
+      case 'paused':
+        currentNodeRef.current = event.state.nodeId;
+        setPaused(event.state);
+        setStatus('paused');
+        setSelectedNodeId(event.state.nodeId);
+        setVariables(event.state.variables);
+        setVariablesDraft(formatJson(event.state.variables));
+        setInputDraft(formatJson(event.state.input));
+        setEditError(null);
+        addLog(
+          event.state.conditionError ? 'warn' : 'debug',
+          event.state.conditionError || `Paused before ${event.state.nodeName} (${event.state.reason})`,
+          event.state.nodeId
+        );
         break;
-      }
-      
-      // Small delay for visualization
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
 
-    if (session.status === 'running') {
-      completeExecution();
-    }
-  };
+      case 'resumed':
+        setPaused(null);
+        setStatus('running');
+        break;
 
-  const executeNextStep = async () => {
-    if (!session) return;
+      case 'node-started':
+        currentNodeRef.current = event.nodeId;
+        setSteps(prev => {
+          const known = prev.some(step => step.nodeId === event.nodeId);
+          const started = {
+            status: 'running' as const,
+            startTime: new Date().toISOString(),
+            input: event.input,
+            depth: event.depth
+          };
+
+          // Nodes of a stepped-into subworkflow are appended to the timeline
+          return known
+            ? prev.map(step => step.nodeId === event.nodeId ? { ...step, ...started } : step)
+            : [...prev, {
+                id: crypto.randomUUID(),
+                nodeId: event.nodeId,
+                nodeName: event.nodeName,
+                nodeType: event.nodeType,
+                logs: [],
+                ...started
+              }];
+        });
+        break;
 
-    const nextIndex = session.currentStepIndex + 1;
-    if (nextIndex >= session.steps.length) {
-      completeExecution();
-      return;
-    }
+      case 'node-completed':
+        updateStep(event.nodeId, step => ({
+          ...step,
+          status: 'completed',
+          endTime: new Date().toISOString(),
+          duration: event.duration,
+          output: event.output
+        }));
+        break;
 
-    await executeStepAtIndex(nextIndex);
-  };
+      case 'node-failed':
+        updateStep(event.nodeId, step => ({
+          ...step,
+          status: 'failed',
+          endTime: new Date().toISOString(),
+          error: event.error
+        }));
+        break;
 
-  const executeStepAtIndex = async (index: number) => {
-    if (!session) return;
+      case 'node-skipped':
+        setSteps(prev => prev.some(step => step.nodeId === event.nodeId)
+          ? prev.map(step => step.nodeId === event.nodeId ? { ...step, status: 'skipped' as const, depth: event.depth } : step)
+          : [...prev, {
+              id: crypto.randomUUID(),
+              nodeId: event.nodeId,
+              nodeName: event.nodeName,
+              nodeType: event.nodeType,
+              depth: event.depth,
+              status: 'skipped' as const,
+              logs: []
+            }]);
+        break;
 
-    const step = session.steps[index];
-    
-    setSession(prev => prev ? {
-      ...prev,
-      currentStepIndex: index,
-      steps: prev.steps.map((s, i) => 
-        i === index 
-          ? { ...s, status: 'running', startTime: new Date().toISOString() }
-          : s
-      )
-    } : null);
+      case 'workflow-entered':
+        if (event.depth > 1) {
+          addLog('debug', `Entered subworkflow ${event.workflowId}`);
+        }
+        break;
 
-    setSelectedStep(step);
-    addLog('info', `Executing step: ${step.nodeName}`, step.nodeId);
+      case 'workflow-exited':
+        if (event.depth > 1) {
+          addLog('debug', `Left subworkflow ${event.workflowId} (${event.status})`);
+        }
+        break;
 
+      case 'log':
+        addLog(event.level, event.message, undefined, event.data);
+        break;
+    }
+  };
+
+  const startExecution = async () => {
+    let input: any;
     try {
-      // Simulate step execution
-      const result = await simulateStepExecution(step);
-      
-      setSession(prev => prev ? {
-        ...prev,
-        steps: prev.steps.map((s, i) => 
-          i === index 
-            ? { 
-                ...s, 
-                status: 'completed', 
-                endTime: new Date().toISOString(),
-                duration: Date.now() - new Date(s.startTime!).getTime(),
-                output: result.output
-              }
-            : s
-        ),
-        variables: { ...prev.variables, ...result.variables }
-      } : null);
-
-      addLog('info', `Step completed successfully`, step.nodeId, result.output);
+      input = JSON.parse(debugInput);
     } catch (error) {
-      setSession(prev => prev ? {
-        ...prev,
-        steps: prev.steps.map((s, i) => 
-          i === index 
-            ? { 
-                ...s, 
-                status: 'failed', 
-                endTime: new Date().toISOString(),
-                duration: Date.now() - new Date(s.startTime!).getTime(),
-                error: error.message
-              }
-            : s
-        )
-      } : null);
-
-      addLog('error', `Step failed: ${error.message}`, step.nodeId);
-      
-      setSession(prev => prev ? { ...prev, status: 'failed' } : null);
+      setEditError(`Test input: ${error.message}`);
+      return;
     }
-  };
 
-  const simulateStepExecution = async (step: ExecutionStep) => {
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-
-    // Mock execution based on node type
-    switch (step.nodeType) {
-      case 'trigger':
-        return {
-          output: { triggered: true, timestamp: new Date().toISOString() },
-          variables: { triggerData: 'sample trigger data' }
-        };
-      
-      case 'condition':
-        const conditionResult = Math.random() > 0.5;
-        return {
-          output: { condition: conditionResult, path: conditionResult ? 'true' : 'false' },
-          variables: { conditionResult }
-        };
-      
-      case 'action':
-        return {
-          output: { actionCompleted: true, result: 'Action executed successfully' },
-          variables: { actionResult: 'success' }
-        };
-      
-      case 'integration':
-        return {
-          output: { 
-            integrationResponse: { status: 'success', data: 'Integration data' },
-            statusCode: 200
-          },
-          variables: { integrationData: 'sample data' }
-        };
-      
-      case 'response':
-        return {
-          output: { 
-            response: 'This is the final response from the workflow',
-            formatted: true
-          },
-          variables: { finalResponse: 'workflow complete' }
-        };
-      
-      default:
-        return {
-          output: { processed: true },
-          variables: {}
-        };
+    setSteps(createSteps(workflow));
+    setStatus('running');
+    setEditError(null);
+    currentNodeRef.current = workflow.nodes[0]?.id || null;
+
+    const session = new WorkflowDebugSession({
+      breakpoints: Object.values(breakpoints),
+      stopOnEntry
+    });
+    session.subscribe(handleDebugEvent);
+    sessionRef.current = session;
+
+    const execution = await workflowExecutor.executeWorkflow(workflow, input, {
+      debugMode: true,
+      debugSession: session
+    });
+
+    // A newer session replaced this one (reset or restart)
+    if (sessionRef.current !== session) return;
+
+    setPaused(null);
+    setVariables(execution.variables);
+    setStatus(
+      execution.status === 'completed' ? 'completed' :
+      execution.status === 'cancelled' ? 'stopped' :
+      'failed'
+    );
+
+    if (execution.error) {
+      addLog('error', execution.error);
     }
   };
 
   const pauseExecution = () => {
-    setSession(prev => prev ? { ...prev, status: 'paused' } : null);
-    addLog('info', 'Execution paused');
+    sessionRef.current?.pause();
   };
 
-  const resumeExecution = async () => {
-    if (!session) return;
-    
-    setSession(prev => prev ? { ...prev, status: 'running' } : null);
-    addLog('info', 'Execution resumed');
-    
-    if (autoStep) {
-      await executeAllSteps();
-    }
+  const continueExecution = () => {
+    sessionRef.current?.continue();
+  };
+
+  const stepOver = () => {
+    sessionRef.current?.stepOver();
+  };
+
+  const stepInto = () => {
+    sessionRef.current?.stepInto();
   };
 
   const stopExecution = () => {
-    setSession(prev => prev ? { 
-      ...prev, 
-      status: 'idle',
-      currentStepIndex: -1,
-      steps: prev.steps.map(s => ({ ...s, status: 'pending' }))
-    } : null);
-    addLog('info', 'Execution stopped');
+    sessionRef.current?.stop();
   };
 
-  const completeExecution = () => {
-    setSession(prev => prev ? {
-      ...prev,
-      status: 'completed',
-      completedAt: new Date().toISOString()
-    } : null);
-    addLog('info', 'Workflow execution completed');
+  const applyVariables = () => {
+    try {
+      const parsed = JSON.parse(variablesDraft);
+      sessionRef.current?.updateVariables(parsed);
+      setVariables(parsed);
+      setEditError(null);
+    } catch (error) {
+      setEditError(`Variables: ${error.message}`);
+    }
+  };
+
+  const applyInput = () => {
+    try {
+      sessionRef.current?.updatePendingInput(JSON.parse(inputDraft));
+      setEditError(null);
+    } catch (error) {
+      setEditError(`Input: ${error.message}`);
+    }
   };
 
   const toggleBreakpoint = (nodeId: string) => {
-    setSession(prev => {
-      if (!prev) return null;
-      
-      const newBreakpoints = new Set(prev.breakpoints);
-      if (newBreakpoints.has(nodeId)) {
-        newBreakpoints.delete(nodeId);
+    setBreakpoints(prev => {
+      const next = { ...prev };
+      if (next[nodeId]) {
+        delete next[nodeId];
+        sessionRef.current?.removeBreakpoint(nodeId);
       } else {
-        newBreakpoints.add(nodeId);
+        next[nodeId] = { nodeId, enabled: true };
+        sessionRef.current?.setBreakpoint(next[nodeId]);
       }
-      
-      return { ...prev, breakpoints: newBreakpoints };
+      return next;
     });
   };
 
-  const addLog = (level: LogEntry['level'], message: string, nodeId?: string, data?: any) => {
-    const logEntry: LogEntry = {
-      id: crypto.randomUUID(),
-      timestamp: new Date().toISOString(),
-      level,
-      message,
-      nodeId,
-      data
-    };
-
-    if (selectedStep && nodeId === selectedStep.nodeId) {
-      setSelectedStep(prev => prev ? {
-        ...prev,
-        logs: [...prev.logs, logEntry]
-      } : null);
-    }
+  const updateBreakpointCondition = (nodeId: string, condition: string) => {
+    setBreakpoints(prev => {
+      const breakpoint = { ...prev[nodeId], condition };
+      sessionRef.current?.setBreakpoint(breakpoint);
+      return { ...prev, [nodeId]: breakpoint };
+    });
   };
 
+  const selectedStep = steps.find(step => step.nodeId === selectedNodeId) || null;
+  const isActive = status === 'running' || status === 'paused';
+
   const getStatusIcon = (status: ExecutionStep['status']) => {
     switch (status) {
       case 'completed':
@@ -383,10 +374,6 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
     return `${(ms / 1000).toFixed(1)}s`;
   };
 
-  if (!session) {
-    return <div>Loading debugger...</div>;
-  }
-
   return (
     <div className={`h-full flex flex-col ${className}`}>
       {/* Header */}
@@ -399,40 +386,44 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
             <h3 className="font-semibold">Workflow Debugger</h3>
             <p className="text-sm text-gray-600">{workflow.name}</p>
           </div>
-          <Badge className={getStatusColor(session.status as any)}>
-            {session.status}
+          <Badge className={getStatusColor(status as any)}>
+            {status}
           </Badge>
         </div>
         
         <div className="flex items-center space-x-2">
-          {session.status === 'idle' && (
+          {!isActive && (
             <Button size="sm" onClick={startExecution}>
               <Play className="h-4 w-4 mr-1" />
               Start
             </Button>
           )}
           
-          {session.status === 'running' && (
+          {status === 'running' && (
+            <Button variant="outline" size="sm" onClick={pauseExecution}>
+              <Pause className="h-4 w-4 mr-1" />
+              Pause
+            </Button>
+          )}
+          
+          {status === 'paused' && (
             <>
-              <Button variant="outline" size="sm" onClick={pauseExecution}>
-                <Pause className="h-4 w-4 mr-1" />
-                Pause
+              <Button size="sm" onClick={continueExecution}>
+                <Play className="h-4 w-4 mr-1" />
+                Continue
               </Button>
-              <Button variant="outline" size="sm" onClick={executeNextStep} disabled={autoStep}>
+              <Button variant="outline" size="sm" onClick={stepOver}>
                 <StepForward className="h-4 w-4 mr-1" />
-                Step
+                Step Over
+              </Button>
+              <Button variant="outline" size="sm" onClick={stepInto}>
+                <ArrowDownToLine className="h-4 w-4 mr-1" />
+                Step Into
               </Button>
             </>
           )}
           
-          {session.status === 'paused' && (
-            <Button size="sm" onClick={resumeExecution}>
-              <Play className="h-4 w-4 mr-1" />
-              Resume
-            </Button>
-          )}
-          
-          <Button variant="outline" size="sm" onClick={stopExecution}>
+          <Button variant="outline" size="sm" onClick={stopExecution} disabled={!isActive}>
             <Square className="h-4 w-4 mr-1" />
             Stop
           </Button>
@@ -457,7 +448,7 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
             <h4 className="font-medium mb-4">Execution Steps</h4>
             
             <div className="space-y-2">
-              {session.steps.map((step, index) => (
+              {steps.map((step) => (
                 <div
                   key={step.id}
                   className={`p-3 rounded-lg border cursor-pointer transition-colors ${
@@ -465,9 +456,10 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
                       ? 'bg-blue-50 border-blue-200'
                       : 'bg-white border-gray-200 hover:bg-gray-50'
                   } ${
-                    index === session.currentStepIndex ? 'ring-2 ring-blue-500' : ''
+                    paused?.nodeId === step.nodeId ? 'ring-2 ring-blue-500' : ''
                   }`}
-                  onClick={() => setSelectedStep(step)}
+                  style={{ marginLeft: `${(step.depth - 1) * 12}px` }}
+                  onClick={() => setSelectedNodeId(step.nodeId)}
                 >
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center space-x-2">
@@ -475,24 +467,20 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
                       <span className="font-medium text-sm">{step.nodeName}</span>
                     </div>
                     
-                    <div className="flex items-center space-x-1">
-                      {session.breakpoints.has(step.nodeId) && (
-                        <div className="w-2 h-2 bg-red-500 rounded-full" />
-                      )}
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          toggleBreakpoint(step.nodeId);
-                        }}
-                        className="p-1 hover:bg-gray-200 rounded"
-                      >
-                        <div className={`w-2 h-2 rounded-full border ${
-                          session.breakpoints.has(step.nodeId) 
-                            ? 'bg-red-500 border-red-500' 
-                            : 'border-gray-400'
-                        }`} />
-                      </button>
-                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleBreakpoint(step.nodeId);
+                      }}
+                      className="p-1 hover:bg-gray-200 rounded"
+                      title={breakpoints[step.nodeId] ? 'Remove breakpoint' : 'Add breakpoint'}
+                    >
+                      <div className={`w-2 h-2 rounded-full border ${
+                        breakpoints[step.nodeId] 
+                          ? 'bg-red-500 border-red-500' 
+                          : 'border-gray-400'
+                      }`} />
+                    </button>
                   </div>
                   
                   <div className="text-xs text-gray-600 capitalize mb-1">
@@ -503,11 +491,21 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
                     {step.status}
                   </Badge>
                   
-                  {step.duration && (
+                  {step.duration !== undefined && (
                     <div className="text-xs text-gray-500 mt-1">
                       {formatDuration(step.duration)}
                     </div>
                   )}
+
+                  {breakpoints[step.nodeId] && (
+                    <input
+                      value={breakpoints[step.nodeId].condition || ''}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => updateBreakpointCondition(step.nodeId, e.target.value)}
+                      placeholder="Condition, e.g. data.amount > 100"
+                      className="mt-2 w-full px-2 py-1 border rounded text-xs font-mono"
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -581,11 +579,25 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
                 <Card>
                   <CardHeader>
                     <CardTitle>Input Data</CardTitle>
+                    {paused?.nodeId === selectedStep.nodeId && (
+                      <CardDescription>Pending input; edits apply when execution resumes</CardDescription>
+                    )}
                   </CardHeader>
                   <CardContent>
-                    <pre className="bg-gray-900 text-gray-100 p-4 rounded-lg text-sm overflow-auto">
-                      {JSON.stringify(selectedStep.input || {}, null, 2)}
-                    </pre>
+                    {paused?.nodeId === selectedStep.nodeId ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={inputDraft}
+                          onChange={(e) => setInputDraft(e.target.value)}
+                          className="w-full h-64 p-2 border rounded text-sm font-mono"
+                        />
+                        <Button size="sm" onClick={applyInput}>Apply Input</Button>
+                      </div>
+                    ) : (
+                      <pre className="bg-gray-900 text-gray-100 p-4 rounded-lg text-sm overflow-auto">
+                        {JSON.stringify(selectedStep.input || {}, null, 2)}
+                      </pre>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -675,9 +687,23 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
                     <CardTitle className="text-sm">Workflow Variables</CardTitle>
                   </CardHeader>
                   <CardContent className="p-4">
-                    <pre className="bg-gray-900 text-gray-100 p-3 rounded text-xs overflow-auto max-h-64">
-                      {JSON.stringify(session.variables, null, 2)}
-                    </pre>
+                    {paused ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={variablesDraft}
+                          onChange={(e) => setVariablesDraft(e.target.value)}
+                          className="w-full h-64 p-2 border rounded text-xs font-mono"
+                        />
+                        <Button size="sm" onClick={applyVariables}>Apply Variables</Button>
+                      </div>
+                    ) : (
+                      <pre className="bg-gray-900 text-gray-100 p-3 rounded text-xs overflow-auto max-h-64">
+                        {JSON.stringify(variables, null, 2)}
+                      </pre>
+                    )}
+                    {editError && (
+                      <p className="mt-2 text-xs text-red-600">{editError}</p>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -691,11 +717,11 @@ export const WorkflowDebugger: React.FC<WorkflowDebuggerProps> = ({
                     <label className="flex items-center space-x-2">
                       <input
                         type="checkbox"
-                        checked={autoStep}
-                        onChange={(e) => setAutoStep(e.target.checked)}
+                        checked={stopOnEntry}
+                        onChange={(e) => setStopOnEntry(e.target.checked)}
                         className="rounded"
                       />
-                      <span className="text-sm">Auto-step execution</span>
+                      <span className="text-sm">Pause before the first node</span>
                     </label>
                   </CardContent>
                 </Card>
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import type { WorkflowExecution as ExecutionRecord } from '@/lib/workflow-executor';
+import {
+  buildExecutionTimeline,
+  diffExecutionSteps,
+  formatDuration
+} from '@/lib/workflow-execution-metrics';
+import { FieldChangeList } from '@/components/workflow-builder/WorkflowRevisionPanel';
+
+interface ExecutionTimelineProps {
+  execution: ExecutionRecord;
+  // Run the inputs and outputs are compared against
+  previous: ExecutionRecord | null;
+}
+
+const BAR_COLORS: Record<string, string> = {
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  running: 'bg-blue-500',
+  skipped: 'bg-gray-300',
+  pending: 'bg-yellow-400'
+};
+
+/**
+ * Waterfall of the steps of one execution. Expanding a step shows how its
+ * input and output differ from the previous run.
+ */
+export default function ExecutionTimeline({ execution, previous }: ExecutionTimelineProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const timeline = useMemo(() => buildExecutionTimeline(execution), [execution]);
+  const diffs = useMemo(() => diffExecutionSteps(execution, previous), [execution, previous]);
+
+  if (timeline.entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">This execution has no recorded steps</p>;
+  }
+
+  const total = Math.max(timeline.totalDuration, 1);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground pl-44">
+        <span>0ms</span>
+        <span>{formatDuration(total / 2)}</span>
+        <span>{formatDuration(total)}</span>
+      </div>
+
+      {timeline.entries.map((entry, index) => {
+        const diff = diffs.get(entry.nodeId);
+        const isExpanded = expandedIndex === index;
+        const changeCount = diff ? diff.input.length + diff.output.length : 0;
+
+        return (
+          <div key={`${entry.nodeId}-${index}`} className="text-sm">
+            <div
+              className="flex items-center cursor-pointer hover:bg-gray-50 rounded"
+              onClick={() => setExpandedIndex(isExpanded ? null : index)}
+            >
+              <div className="w-44 flex items-center space-x-1 pr-2 min-w-0">
+                {isExpanded ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+                <span className="truncate" title={entry.nodeName}>{entry.nodeName}</span>
+                {entry.attempts > 1 && (
+                  <span title={`${entry.attempts} attempts`}>
+                    <RotateCcw className="h-3 w-3 text-yellow-600 flex-shrink-0" />
+                  </span>
+                )}
+              </div>
+
+              <div className="flex-1 relative h-5 bg-gray-100 rounded">
+                <div
+                  className={`absolute top-1 bottom-1 rounded ${BAR_COLORS[entry.status] || 'bg-gray-400'}`}
+                  style={{
+                    left: `${(entry.offset / total) * 100}%`,
+                    width: `${Math.max((entry.duration / total) * 100, 0.5)}%`
+                  }}
+                  title={`${entry.nodeName}: ${formatDuration(entry.duration)}`}
+                />
+              </div>
+
+              <div className="w-20 text-right text-xs text-muted-foreground">
+                {formatDuration(entry.duration)}
+              </div>
+            </div>
+
+            {isExpanded && (
+              <div className="ml-4 mt-1 mb-2 p-3 border rounded bg-white space-y-3 text-xs">
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{entry.nodeType}</Badge>
+                  <Badge variant="outline">{entry.status}</Badge>
+                  <span className="text-muted-foreground">
+                    starts at {formatDuration(entry.offset)}
+                  </span>
+                  {changeCount > 0 && <Badge variant="secondary">{changeCount} changes</Badge>}
+                </div>
+
+                {entry.error && <p className="text-red-600">{entry.error}</p>}
+
+                {!previous ? (
+                  <p className="text-muted-foreground">No previous run to compare with</p>
+                ) : !diff?.inPrevious ? (
+                  <p className="text-muted-foreground">This node did not run in the previous execution</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <p className="font-medium mb-1">Input vs previous run</p>
+                      {diff.input.length > 0 ? <FieldChangeList changes={diff.input} /> : <p className="text-muted-foreground">Unchanged</p>}
+                    </div>
+                    <div>
+                      <p className="font-medium mb-1">Output vs previous run</p>
+                      {diff.output.length > 0 ? <FieldChangeList changes={diff.output} /> : <p className="text-muted-foreground">Unchanged</p>}
+                    </div>
+                  </div>
+                )}
+
+                {(entry.input !== undefined || entry.output !== undefined) && (
+                  <details>
+                    <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+                      View input and output
+                    </summary>
+                    <pre className="mt-1 p-2 bg-gray-50 rounded font-mono overflow-x-auto">
+                      {JSON.stringify({ input: entry.input, output: entry.output }, null, 2)}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
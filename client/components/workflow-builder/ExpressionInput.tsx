@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  ExpressionCatalog,
+  ExpressionSuggestion,
+  getExpressionSuggestions,
+  hasExpression
+} from '@/lib/workflow-expressions';
+
+interface ExpressionInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  catalog: ExpressionCatalog;
+  multiline?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+const KIND_LABELS: Record<ExpressionSuggestion['kind'], string> = {
+  root: 'scope',
+  node: 'node',
+  variable: 'variable',
+  function: 'function',
+  property: 'property'
+};
+
+/**
+ * Text field that suggests nodes, variables and functions while the cursor is
+ * inside a `{{ ... }}` expression
+ */
+export default function ExpressionInput({
+  id,
+  value,
+  onChange,
+  catalog,
+  multiline = false,
+  placeholder,
+  className = ''
+}: ExpressionInputProps) {
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [suggestions, setSuggestions] = useState<ExpressionSuggestion[]>([]);
+  const [replaceFrom, setReplaceFrom] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const refreshSuggestions = (text: string, cursor: number) => {
+    const result = getExpressionSuggestions(text, cursor, catalog);
+    setSuggestions(result.suggestions.slice(0, 8));
+    setReplaceFrom(result.replaceFrom);
+    setActiveIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    refreshSuggestions(e.target.value, e.target.selectionStart ?? e.target.value.length);
+  };
+
+  const applySuggestion = (suggestion: ExpressionSuggestion) => {
+    const cursor = fieldRef.current?.selectionStart ?? value.length;
+    const nextValue = value.slice(0, replaceFrom) + suggestion.insertText + value.slice(cursor);
+    const nextCursor = replaceFrom + suggestion.insertText.length;
+
+    onChange(nextValue);
+    setSuggestions([]);
+
+    requestAnimationFrame(() => {
+      fieldRef.current?.focus();
+      fieldRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  const fieldProps = {
+    id,
+    ref: fieldRef,
+    value,
+    placeholder,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    onBlur: () => setSuggestions([]),
+    onClick: (e: React.MouseEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      refreshSuggestions(value, e.currentTarget.selectionStart ?? value.length),
+    className: `${hasExpression(value) ? 'font-mono text-xs' : ''} ${className}`
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <Textarea {...fieldProps} rows={3} /> : <Input {...fieldProps} />}
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-20 bg-white border rounded-md shadow-md max-h-48 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <div
+              key={`${suggestion.kind}-${suggestion.label}`}
+              className={`flex items-center justify-between px-2 py-1 text-xs cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+              // Keep focus in the field so the blur handler does not close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+            >
+              <div className="min-w-0">
+                <div className="font-mono truncate">{suggestion.label}</div>
+                {suggestion.detail && (
+                  <div className="text-muted-foreground truncate">{suggestion.detail}</div>
+                )}
+              </div>
+              <Badge variant="outline" className="text-[10px] ml-2">
+                {KIND_LABELS[suggestion.kind]}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
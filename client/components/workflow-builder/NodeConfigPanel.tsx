@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -27,28 +27,53 @@ import {
 } from 'lucide-react';
 import { 
   WorkflowNode,
+  WorkflowVariable,
   ConfigField,
   NODE_TEMPLATES
 } from '@/lib/workflow-types';
+import { executionContextManager } from '@/lib/execution-context-manager';
+import type { ExpressionCatalog } from '@/lib/workflow-expressions';
+import ExpressionInput from '@/components/workflow-builder/ExpressionInput';
+import NodeErrorPolicyPanel from '@/components/workflow-builder/NodeErrorPolicyPanel';
+import { nodeRegistry } from '@/lib/workflow-nodes/node-registry';
 
 interface NodeConfigPanelProps {
   node: WorkflowNode;
+  workflowNodes?: WorkflowNode[];
+  workflowVariables?: WorkflowVariable[];
   onChange: (updates: Partial<WorkflowNode>) => void;
 }
 
-export default function NodeConfigPanel({ node, onChange }: NodeConfigPanelProps) {
+export default function NodeConfigPanel({ node, workflowNodes, workflowVariables, onChange }: NodeConfigPanelProps) {
   const [config, setConfig] = useState(node.data.config);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showPasswords, setShowPasswords] = useState<Record<string, boolean>>({});
 
-  // Get the node template for configuration schema
-  const template = NODE_TEMPLATES.find(t => 
-    t.type === node.type && (
-      t.id === node.data.config.templateId || 
-      t.id.startsWith(node.type)
-    )
-  );
+  // Get the node template for configuration schema; registered nodes describe their own
+  const template = nodeRegistry.getNodeTemplate(node.data.config.templateId || node.type) ||
+    NODE_TEMPLATES.find(t => 
+      t.type === node.type && (
+        t.id === node.data.config.templateId || 
+        t.id.startsWith(node.type)
+      )
+    );
+
+  // What `{{ ... }}` expressions in text fields can refer to
+  const expressionCatalog = useMemo<ExpressionCatalog>(() => ({
+    nodeNames: (workflowNodes || [])
+      .filter(workflowNode => workflowNode.id !== node.id)
+      .map(workflowNode => workflowNode.data.label),
+    variables: {
+      vars: (workflowVariables || []).map(variable => ({
+        name: variable.name,
+        type: variable.type,
+        readonly: variable.readonly,
+        encrypted: variable.encrypted
+      })),
+      global: executionContextManager.describeVariables('global')
+    }
+  }), [workflowNodes, workflowVariables, node.id]);
 
   useEffect(() => {
     setConfig(node.data.config);
@@ -200,10 +225,11 @@ export default function NodeConfigPanel({ node, onChange }: NodeConfigPanelProps
         </div>
 
         {field.type === 'text' && (
-          <Input
+          <ExpressionInput
             id={field.name}
             value={value || ''}
-            onChange={(e) => handleConfigChange(field.name, e.target.value)}
+            onChange={(newValue) => handleConfigChange(field.name, newValue)}
+            catalog={expressionCatalog}
             placeholder={field.default?.toString()}
             className={hasError ? 'border-red-500' : ''}
           />
@@ -239,12 +265,13 @@ export default function NodeConfigPanel({ node, onChange }: NodeConfigPanelProps
         )}
 
         {field.type === 'textarea' && (
-          <Textarea
+          <ExpressionInput
             id={field.name}
             value={value || ''}
-            onChange={(e) => handleConfigChange(field.name, e.target.value)}
+            onChange={(newValue) => handleConfigChange(field.name, newValue)}
+            catalog={expressionCatalog}
+            multiline
             placeholder={field.default?.toString()}
-            rows={3}
             className={hasError ? 'border-red-500' : ''}
           />
         )}
@@ -480,6 +507,11 @@ export default function NodeConfigPanel({ node, onChange }: NodeConfigPanelProps
         </Alert>
       )}
 
+      {/* Error Handling */}
+      {node.type !== 'trigger' && (
+        <NodeErrorPolicyPanel node={node} workflowNodes={workflowNodes} onChange={onChange} />
+      )}
+
       {/* Node Details */}
       <Card>
         <CardHeader className="pb-3">
@@ -0,0 +1,168 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ShieldAlert } from 'lucide-react';
+import { WorkflowNode } from '@/lib/workflow-types';
+import { DEFAULT_ERROR_PORT, NodeErrorAction } from '@/lib/workflow-error-handler';
+
+interface NodeErrorPolicyPanelProps {
+  node: WorkflowNode;
+  // Other nodes of the workflow, offered as fallback nodes
+  workflowNodes?: WorkflowNode[];
+  onChange: (updates: Partial<WorkflowNode>) => void;
+}
+
+const ERROR_ACTIONS: Array<{ value: NodeErrorAction; label: string }> = [
+  { value: 'fail', label: 'Fail the workflow' },
+  { value: 'continue', label: 'Continue without output' },
+  { value: 'fallback', label: 'Use a fallback' },
+  { value: 'route', label: 'Route to error output' }
+];
+
+export default function NodeErrorPolicyPanel({ node, workflowNodes = [], onChange }: NodeErrorPolicyPanelProps) {
+  const policy = node.data.config.errorPolicy || {};
+  const action: NodeErrorAction = policy.action || 'fail';
+  const errorPort = policy.errorPort || DEFAULT_ERROR_PORT;
+
+  const updatePolicy = (updates: Record<string, any>) => {
+    const errorPolicy = { ...policy, ...updates };
+    const routesErrors = errorPolicy.action === 'route';
+    const port = errorPolicy.errorPort || DEFAULT_ERROR_PORT;
+    // Routed errors need an output port to connect the error branch to
+    const outputs = node.outputs.filter(output => output.id !== errorPort || routesErrors);
+    if (routesErrors && !outputs.some(output => output.id === port)) {
+      outputs.push({ id: port, type: 'output', dataType: 'object', label: 'Error', required: false });
+    }
+
+    onChange({
+      data: { ...node.data, config: { ...node.data.config, errorPolicy } },
+      outputs
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center">
+          <ShieldAlert className="h-4 w-4 mr-2" />
+          Error Handling
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Retries run first; the action applies once they are used up
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="error-retries" className="text-xs">Retries</Label>
+            <Input
+              id="error-retries"
+              type="number"
+              min={0}
+              value={policy.maxRetries ?? 0}
+              onChange={(e) => updatePolicy({ maxRetries: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="error-delay" className="text-xs">Delay (ms)</Label>
+            <Input
+              id="error-delay"
+              type="number"
+              min={0}
+              value={policy.retryDelay ?? 1000}
+              onChange={(e) => updatePolicy({ retryDelay: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="error-backoff" className="text-xs">Backoff ×</Label>
+            <Input
+              id="error-backoff"
+              type="number"
+              min={1}
+              step={0.5}
+              value={policy.backoffMultiplier ?? 2}
+              onChange={(e) => updatePolicy({ backoffMultiplier: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">On error</Label>
+          <Select value={action} onValueChange={(value) => updatePolicy({ action: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ERROR_ACTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {action === 'fallback' && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Fallback node</Label>
+              <Select
+                value={policy.fallbackNodeId || 'none'}
+                onValueChange={(value) => updatePolicy({ fallbackNodeId: value === 'none' ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (use fallback value)</SelectItem>
+                  {workflowNodes
+                    .filter(candidate => candidate.id !== node.id)
+                    .map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.data.label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!policy.fallbackNodeId && (
+              <div className="space-y-1">
+                <Label htmlFor="error-fallback-value" className="text-xs">Fallback value (JSON)</Label>
+                <Textarea
+                  id="error-fallback-value"
+                  value={policy.fallbackValue === undefined ? '' : JSON.stringify(policy.fallbackValue, null, 2)}
+                  onChange={(e) => {
+                    try {
+                      updatePolicy({ fallbackValue: e.target.value ? JSON.parse(e.target.value) : undefined });
+                    } catch {
+                      updatePolicy({ fallbackValue: e.target.value });
+                    }
+                  }}
+                  rows={3}
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        {action === 'route' && (
+          <p className="text-xs text-muted-foreground">
+            Connect the <code className="bg-gray-100 px-1 rounded">{errorPort}</code> output to the nodes that
+            handle the error. It only fires when this node fails.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { formatDuration, type NodeMetrics } from '@/lib/workflow-execution-metrics';
+
+interface NodeMetricsTableProps {
+  metrics: NodeMetrics[];
+  executionCount: number;
+}
+
+// Failure rate above which a node is flagged as flaky
+const FLAKY_FAILURE_RATE = 0.1;
+
+/**
+ * Latency percentiles and failure rates per node across recent executions
+ */
+export default function NodeMetricsTable({ metrics, executionCount }: NodeMetricsTableProps) {
+  if (metrics.length === 0) {
+    return <p className="text-sm text-muted-foreground">No node runs recorded yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <p className="text-xs text-muted-foreground mb-2">
+        Across the last {executionCount} executions, slowest nodes first
+      </p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground border-b">
+            <th className="py-1 pr-2 font-medium">Node</th>
+            <th className="py-1 px-2 font-medium text-right">Runs</th>
+            <th className="py-1 px-2 font-medium text-right">p50</th>
+            <th className="py-1 px-2 font-medium text-right">p95</th>
+            <th className="py-1 px-2 font-medium text-right">Failure rate</th>
+            <th className="py-1 pl-2 font-medium">Most common error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map(metric => (
+            <tr key={metric.nodeId} className="border-b last:border-0 align-top">
+              <td className="py-1 pr-2">
+                <div className="font-medium">{metric.nodeName}</div>
+                <div className="text-muted-foreground">{metric.nodeType}</div>
+              </td>
+              <td className="py-1 px-2 text-right">
+                {metric.runs}
+                {metric.retries > 0 && <div className="text-muted-foreground">{metric.retries} retries</div>}
+              </td>
+              <td className="py-1 px-2 text-right">{formatDuration(metric.p50)}</td>
+              <td className="py-1 px-2 text-right">{formatDuration(metric.p95)}</td>
+              <td className="py-1 px-2 text-right">
+                {metric.failureRate > FLAKY_FAILURE_RATE ? (
+                  <Badge className="bg-red-100 text-red-800">{(metric.failureRate * 100).toFixed(0)}%</Badge>
+                ) : (
+                  `${(metric.failureRate * 100).toFixed(0)}%`
+                )}
+              </td>
+              <td className="py-1 pl-2">
+                {metric.mostCommonError ? (
+                  <span className="text-red-600" title={metric.mostCommonError.message}>
+                    {metric.mostCommonError.message.length > 60
+                      ? `${metric.mostCommonError.message.slice(0, 57)}...`
+                      : metric.mostCommonError.message}
+                    {' '}
+                    <span className="text-muted-foreground">×{metric.mostCommonError.count}</span>
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
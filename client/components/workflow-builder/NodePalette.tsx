@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -12,9 +12,9 @@ import {
 } from 'lucide-react';
 import { 
   NodeTemplate, 
-  WORKFLOW_CATEGORIES,
-  NODE_TEMPLATES
+  WORKFLOW_CATEGORIES
 } from '@/lib/workflow-types';
+import { nodeRegistry } from '@/lib/workflow-nodes/node-registry';
 
 interface NodePaletteProps {
   onNodeSelect: (template: NodeTemplate, position: { x: number; y: number }) => void;
@@ -27,9 +27,13 @@ export default function NodePalette({ onNodeSelect }: NodePaletteProps) {
   );
   const [selectedTemplate, setSelectedTemplate] = useState<NodeTemplate | null>(null);
   const [draggedTemplate, setDraggedTemplate] = useState<NodeTemplate | null>(null);
+  const [templates, setTemplates] = useState<NodeTemplate[]>(() => nodeRegistry.getNodeTemplates());
+
+  // Node packages can be registered while the builder is open
+  useEffect(() => nodeRegistry.subscribe(() => setTemplates(nodeRegistry.getNodeTemplates())), []);
 
   // Filter templates based on search query
-  const filteredTemplates = NODE_TEMPLATES.filter(template => {
+  const filteredTemplates = templates.filter(template => {
     if (!searchQuery.trim()) return true;
     
     const query = searchQuery.toLowerCase();
@@ -216,7 +220,7 @@ export default function NodePalette({ onNodeSelect }: NodePaletteProps) {
             size="sm"
             className="h-8 text-xs"
             onClick={() => {
-              const triggerTemplate = NODE_TEMPLATES.find(t => t.id === 'user_message_trigger');
+              const triggerTemplate = templates.find(t => t.id === 'message_trigger');
               if (triggerTemplate) handleTemplateClick(triggerTemplate);
             }}
           >
@@ -227,7 +231,7 @@ export default function NodePalette({ onNodeSelect }: NodePaletteProps) {
             size="sm"
             className="h-8 text-xs"
             onClick={() => {
-              const aiTemplate = NODE_TEMPLATES.find(t => t.id === 'ai_response');
+              const aiTemplate = templates.find(t => t.id === 'ai_response');
               if (aiTemplate) handleTemplateClick(aiTemplate);
             }}
           >
@@ -28,12 +28,14 @@ import {
   ArrowDown,
   MousePointer,
   Move,
-  RotateCcw
+  RotateCcw,
+  GitBranch
 } from 'lucide-react';
 import { 
   Workflow,
   WorkflowNode,
   WorkflowEdge,
+  WorkflowSettings,
   NodeTemplate,
   WORKFLOW_CATEGORIES,
   WorkflowExecution
@@ -43,6 +45,7 @@ import WorkflowCanvas from '@/components/workflow-builder/WorkflowCanvas';
 import NodePalette from '@/components/workflow-builder/NodePalette';
 import NodeConfigPanel from '@/components/workflow-builder/NodeConfigPanel';
 import WorkflowExecutionPanel from '@/components/workflow-builder/WorkflowExecutionPanel';
+import WorkflowRevisionPanel from '@/components/workflow-builder/WorkflowRevisionPanel';
 
 interface WorkflowBuilderProps {
   workflowId?: string;
@@ -59,7 +62,7 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
   
   // UI state
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'design' | 'test' | 'history'>('design');
+  const [activeTab, setActiveTab] = useState<'design' | 'test' | 'history' | 'versions'>('design');
   const [dragMode, setDragMode] = useState<'select' | 'pan'>('select');
   const [showGrid, setShowGrid] = useState(true);
   const [zoom, setZoom] = useState(1);
@@ -293,6 +296,17 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
     setIsDirty(true);
   }, [workflow]);
 
+  const handleUpdateSettings = useCallback((updates: Partial<WorkflowSettings>) => {
+    if (!workflow) return;
+
+    setWorkflow(prev => prev ? {
+      ...prev,
+      settings: { ...prev.settings, ...updates }
+    } : null);
+    
+    setIsDirty(true);
+  }, [workflow]);
+
   const selectedNode = workflow?.nodes.find(node => node.id === selectedNodeId) || null;
 
   if (loading) {
@@ -434,7 +448,7 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
         <div className="flex-1 flex flex-col">
           <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as any)} className="flex-1 flex flex-col">
             <div className="bg-white border-b px-4">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="design" className="flex items-center">
                   <Layers className="h-4 w-4 mr-2" />
                   Design
@@ -447,6 +461,10 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
                   <Clock className="h-4 w-4 mr-2" />
                   History
                 </TabsTrigger>
+                <TabsTrigger value="versions" className="flex items-center">
+                  <GitBranch className="h-4 w-4 mr-2" />
+                  Versions
+                </TabsTrigger>
               </TabsList>
             </div>
 
@@ -533,6 +551,27 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="versions" className="flex-1 m-0 p-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Version History</CardTitle>
+                  <CardDescription>
+                    Every save is kept as a revision. Deployments run the published revision.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {workflow.id ? (
+                    <WorkflowRevisionPanel
+                      workflowId={workflow.id}
+                      onRestored={() => loadWorkflow(workflow.id)}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Save the workflow to start its version history</p>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -545,6 +584,8 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
             {selectedNode ? (
               <NodeConfigPanel
                 node={selectedNode}
+                workflowNodes={workflow.nodes}
+                workflowVariables={workflow.variables}
                 onChange={(updates) => handleUpdateNode(selectedNode.id, updates)}
               />
             ) : (
@@ -554,6 +595,19 @@ export default function WorkflowBuilder({ workflowId, onSave, onClose }: Workflo
                   <p>No node selected</p>
                   <p className="text-sm">Select a node to edit its properties</p>
                 </div>
+                <Separator className="mb-4" />
+                <div className="space-y-2">
+                  <Label htmlFor="error-workflow">Error workflow</Label>
+                  <Input
+                    id="error-workflow"
+                    placeholder="Workflow ID"
+                    value={workflow.settings?.errorWorkflowId || ''}
+                    onChange={(e) => handleUpdateSettings({ errorWorkflowId: e.target.value || undefined })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Runs with the error and the failed execution whenever this workflow fails
+                  </p>
+                </div>
               </div>
             )}
           </div>
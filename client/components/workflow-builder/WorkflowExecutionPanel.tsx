@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,13 +20,22 @@ import {
   Zap,
   Eye,
   Terminal,
-  Activity
+  Activity,
+  BarChart3,
+  RefreshCw
 } from 'lucide-react';
 import { 
   Workflow,
   WorkflowExecution,
   WorkflowExecutionLog
 } from '@/lib/workflow-types';
+import { workflowExecutor, type WorkflowExecution as ExecutionRecord } from '@/lib/workflow-executor';
+import { computeNodeMetrics } from '@/lib/workflow-execution-metrics';
+import ExecutionTimeline from '@/components/workflow-builder/ExecutionTimeline';
+import NodeMetricsTable from '@/components/workflow-builder/NodeMetricsTable';
+
+// Recorded executions the timeline and node metrics are computed from
+const HISTORY_LIMIT = 100;
 
 interface WorkflowExecutionPanelProps {
   workflow: Workflow;
@@ -49,6 +58,29 @@ export default function WorkflowExecutionPanel({
   const [showLogs, setShowLogs] = useState(true);
   const [logFilter, setLogFilter] = useState<'all' | 'info' | 'warn' | 'error'>('all');
   const [executionProgress, setExecutionProgress] = useState(0);
+  const [runHistory, setRunHistory] = useState<ExecutionRecord[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  const loadRunHistory = async () => {
+    setLoadingHistory(true);
+    try {
+      setRunHistory(await workflowExecutor.getExecutionHistory(workflow.id, HISTORY_LIMIT));
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  // Reload recorded runs for this workflow and after every test run
+  useEffect(() => {
+    loadRunHistory();
+  }, [workflow.id, execution?.id]);
+
+  const selectedRunIndex = Math.max(0, runHistory.findIndex(run => run.id === selectedRunId));
+  const selectedRun = runHistory[selectedRunIndex] || null;
+  // History is newest first, so the previous run is the next entry
+  const previousRun = runHistory[selectedRunIndex + 1] || null;
+  const nodeMetrics = useMemo(() => computeNodeMetrics(runHistory), [runHistory]);
 
   // Simulate execution progress
   useEffect(() => {
@@ -420,6 +452,65 @@ export default function WorkflowExecutionPanel({
         </div>
       )}
 
+      {/* Timeline and node metrics of recorded runs */}
+      {runHistory.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center">
+                  <Clock className="h-4 w-4 mr-2" />
+                  Execution Timeline
+                </CardTitle>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={selectedRun?.id || ''}
+                    onChange={(e) => setSelectedRunId(e.target.value)}
+                    className="text-xs border rounded px-2 py-1"
+                  >
+                    {runHistory.map(run => (
+                      <option key={run.id} value={run.id}>
+                        {new Date(run.startTime).toLocaleString()} · {run.status}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={loadRunHistory}
+                    disabled={loadingHistory}
+                    className="h-6 text-xs"
+                  >
+                    <RefreshCw className={`h-3 w-3 ${loadingHistory ? 'animate-spin' : ''}`} />
+                  </Button>
+                </div>
+              </div>
+              <CardDescription>
+                Click a node to compare its input and output with the previous run
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {selectedRun && <ExecutionTimeline execution={selectedRun} previous={previousRun} />}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center">
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Node Metrics
+              </CardTitle>
+              <CardDescription>
+                Find slow or flaky nodes
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <NodeMetricsTable metrics={nodeMetrics} executionCount={runHistory.length} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Empty State */}
       {!execution && !isExecuting && (
         <Card className="flex-1 flex items-center justify-center">
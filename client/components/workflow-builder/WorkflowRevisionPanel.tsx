@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  GitCompare,
+  Clock,
+  Minus,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Rocket,
+  Pencil
+} from 'lucide-react';
+import {
+  workflowRevisionService,
+  diffWorkflows,
+  isEmptyDiff,
+  FieldChange,
+  WorkflowDiff,
+  WorkflowRevision
+} from '@/lib/workflow-revisions';
+import { workflowBuilderService } from '@/lib/workflow-builder-service';
+
+interface WorkflowRevisionPanelProps {
+  workflowId: string;
+  onRestored?: () => void;
+}
+
+const formatValue = (value: any) => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+export function FieldChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1 font-mono text-xs">
+      {changes.map(change => (
+        <li key={`${change.kind}-${change.path}`}>
+          <span className="text-muted-foreground">{change.path || 'value'}: </span>
+          {change.kind !== 'added' && <span className="text-red-600 line-through">{formatValue(change.before)}</span>}
+          {change.kind === 'changed' && ' → '}
+          {change.kind !== 'removed' && <span className="text-green-700">{formatValue(change.after)}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function WorkflowDiffView({ diff, nodeNames }: { diff: WorkflowDiff; nodeNames: Record<string, string> }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-muted-foreground">No structural changes</p>;
+  }
+
+  const describeConnection = (connection: WorkflowDiff['connectionsAdded'][number]) =>
+    `${nodeNames[connection.sourceNodeId] || connection.sourceNodeId} → ${nodeNames[connection.targetNodeId] || connection.targetNodeId}`;
+
+  return (
+    <div className="space-y-3">
+      {diff.nodesAdded.map(node => (
+        <div key={`added-${node.id}`} className="flex items-center text-green-700">
+          <Plus className="h-3 w-3 mr-2" />
+          {node.name} <span className="ml-1 text-xs text-muted-foreground">({node.type})</span>
+        </div>
+      ))}
+      {diff.nodesRemoved.map(node => (
+        <div key={`removed-${node.id}`} className="flex items-center text-red-600">
+          <Minus className="h-3 w-3 mr-2" />
+          {node.name} <span className="ml-1 text-xs text-muted-foreground">({node.type})</span>
+        </div>
+      ))}
+      {diff.nodesChanged.map(node => (
+        <div key={`changed-${node.id}`}>
+          <div className="flex items-center text-yellow-700">
+            <Pencil className="h-3 w-3 mr-2" />
+            {node.name}
+          </div>
+          <div className="ml-5 mt-1">
+            <FieldChangeList changes={node.changes} />
+          </div>
+        </div>
+      ))}
+      {diff.connectionsAdded.map(connection => (
+        <div key={`conn-added-${describeConnection(connection)}`} className="text-xs text-green-700">
+          + {describeConnection(connection)}
+        </div>
+      ))}
+      {diff.connectionsRemoved.map(connection => (
+        <div key={`conn-removed-${describeConnection(connection)}`} className="text-xs text-red-600">
+          − {describeConnection(connection)}
+        </div>
+      ))}
+      {diff.settingsChanged.length > 0 && <FieldChangeList changes={diff.settingsChanged} />}
+    </div>
+  );
+}
+
+export default function WorkflowRevisionPanel({ workflowId, onRestored }: WorkflowRevisionPanelProps) {
+  const [revisions, setRevisions] = useState<WorkflowRevision[]>([]);
+  const [publishedRevision, setPublishedRevision] = useState<number | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [workflowId]);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [history, published] = await Promise.all([
+        workflowRevisionService.listRevisions(workflowId),
+        workflowRevisionService.getPublishedRevisionNumber(workflowId)
+      ]);
+      setRevisions(history);
+      setPublishedRevision(published);
+      setSelectedRevision(current => current ?? history[0]?.revisionNumber ?? null);
+    } catch (loadError) {
+      console.error('Failed to load workflow revisions:', loadError);
+      setError(loadError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<any>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadRevisions();
+    } catch (actionError) {
+      console.error('Workflow revision action failed:', actionError);
+      setError(actionError.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = (revisionNumber: number) =>
+    runAction(async () => {
+      await workflowBuilderService.rollbackWorkflow(workflowId, revisionNumber);
+      onRestored?.();
+    });
+
+  const handlePublish = (revisionNumber: number) =>
+    runAction(() => workflowRevisionService.publishRevision(workflowId, revisionNumber));
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <Clock className="h-4 w-4 animate-spin" />
+        <span>Loading versions...</span>
+      </div>
+    );
+  }
+
+  const selectedIndex = revisions.findIndex(revision => revision.revisionNumber === selectedRevision);
+  const selected = revisions[selectedIndex];
+  // Revisions are newest first, so the one before the selection is the next entry
+  const previous = revisions[selectedIndex + 1];
+  const nodeNames = Object.fromEntries(
+    [...(previous?.nodes || []), ...(selected?.nodes || [])].map(node => [node.id, node.name ?? node.data?.label ?? node.id])
+  );
+  const latestRevision = revisions[0]?.revisionNumber;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium flex items-center">
+          <Clock className="h-4 w-4 mr-2" />
+          Versions
+        </span>
+        <Button variant="ghost" size="sm" onClick={loadRevisions} disabled={busy}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {revisions.length === 0 ? (
+        <p className="text-muted-foreground">No saved versions yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {revisions.map(revision => (
+            <li
+              key={revision.id}
+              className={`p-2 border rounded-lg cursor-pointer ${
+                revision.revisionNumber === selectedRevision ? 'border-blue-400 bg-blue-50' : ''
+              }`}
+              onClick={() => setSelectedRevision(revision.revisionNumber)}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Revision {revision.revisionNumber}</span>
+                <div className="flex items-center space-x-1">
+                  {revision.revisionNumber === latestRevision && <Badge variant="outline">Draft</Badge>}
+                  {revision.revisionNumber === publishedRevision && (
+                    <Badge className="bg-green-100 text-green-800">Published</Badge>
+                  )}
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(revision.createdAt).toLocaleString()}
+                {revision.message && ` · ${revision.message}`}
+              </div>
+              {revision.revisionNumber === selectedRevision && (
+                <div className="flex items-center space-x-2 mt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy || revision.revisionNumber === latestRevision}
+                    onClick={event => {
+                      event.stopPropagation();
+                      handleRestore(revision.revisionNumber);
+                    }}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy || revision.revisionNumber === publishedRevision}
+                    onClick={event => {
+                      event.stopPropagation();
+                      handlePublish(revision.revisionNumber);
+                    }}
+                  >
+                    <Rocket className="h-3 w-3 mr-1" />
+                    Publish
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <>
+          <Separator />
+          <span className="font-medium flex items-center">
+            <GitCompare className="h-4 w-4 mr-2" />
+            {previous
+              ? `Changes from revision ${previous.revisionNumber} to ${selected.revisionNumber}`
+              : `Revision ${selected.revisionNumber}`}
+          </span>
+          {previous ? (
+            <WorkflowDiffView diff={diffWorkflows(previous, selected)} nodeNames={nodeNames} />
+          ) : (
+            <p className="text-muted-foreground">First saved version</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  Calendar,
+  CheckCircle,
+  AlertTriangle,
+  Clock,
+  RefreshCw,
+  SkipForward
+} from 'lucide-react';
+import {
+  workflowScheduler,
+  ScheduleRun,
+  UpcomingRun
+} from '@/lib/workflow-scheduler';
+
+interface WorkflowSchedulePanelProps {
+  workflowId: string;
+}
+
+export default function WorkflowSchedulePanel({ workflowId }: WorkflowSchedulePanelProps) {
+  const [upcomingRuns, setUpcomingRuns] = useState<UpcomingRun[]>([]);
+  const [runHistory, setRunHistory] = useState<ScheduleRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [workflowId]);
+
+  const loadSchedule = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [upcoming, history] = await Promise.all([
+        workflowScheduler.getUpcomingRuns(workflowId),
+        workflowScheduler.getRunHistory(workflowId, 10)
+      ]);
+      setUpcomingRuns(upcoming);
+      setRunHistory(history);
+    } catch (loadError) {
+      console.error('Failed to load workflow schedule:', loadError);
+      setError(loadError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRunStatusColor = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return 'bg-green-100 text-green-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      case 'running':
+        return 'bg-blue-100 text-blue-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getRunStatusIcon = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircle className="h-3 w-3" />;
+      case 'failed':
+        return <AlertTriangle className="h-3 w-3" />;
+      case 'skipped':
+        return <SkipForward className="h-3 w-3" />;
+      default:
+        return <Clock className="h-3 w-3" />;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <Clock className="h-4 w-4 animate-spin" />
+        <span>Loading schedule...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load schedule: {error}</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium flex items-center">
+          <Calendar className="h-4 w-4 mr-2" />
+          Upcoming runs
+        </span>
+        <Button variant="ghost" size="sm" onClick={loadSchedule}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {upcomingRuns.length === 0 ? (
+        <p className="text-muted-foreground">No scheduled runs</p>
+      ) : (
+        <ul className="space-y-1">
+          {upcomingRuns.map(run => (
+            <li key={`${run.scheduleId}-${run.runAt}`} className="text-muted-foreground">
+              {new Date(run.runAt).toLocaleString()}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Separator />
+
+      <span className="font-medium flex items-center">
+        <Clock className="h-4 w-4 mr-2" />
+        Run history
+      </span>
+
+      {runHistory.length === 0 ? (
+        <p className="text-muted-foreground">No runs yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {runHistory.map(run => (
+            <li key={run.id} className="flex items-start justify-between">
+              <div>
+                <div>{new Date(run.scheduledFor).toLocaleString()}</div>
+                {(run.reason || run.error) && (
+                  <div className="text-xs text-muted-foreground">{run.error || run.reason}</div>
+                )}
+              </div>
+              <Badge className={getRunStatusColor(run.status)}>
+                {getRunStatusIcon(run.status)}
+                <span className="ml-1">{run.status}</span>
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Copy,
+  RefreshCw,
+  RotateCcw,
+  ShieldAlert,
+  Webhook
+} from 'lucide-react';
+import {
+  workflowWebhookService,
+  getWebhookUrl,
+  WebhookDelivery,
+  WorkflowWebhook
+} from '@/lib/workflow-webhooks';
+
+interface WorkflowWebhookPanelProps {
+  workflowId: string;
+}
+
+/**
+ * URLs of a workflow's webhook triggers and their recent deliveries, which can
+ * be replayed into the workflow
+ */
+export default function WorkflowWebhookPanel({ workflowId }: WorkflowWebhookPanelProps) {
+  const [webhooks, setWebhooks] = useState<WorkflowWebhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [workflowId]);
+
+  const loadWebhooks = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [registered, recent] = await Promise.all([
+        workflowWebhookService.getWebhooks(workflowId),
+        workflowWebhookService.getDeliveries(workflowId)
+      ]);
+      setWebhooks(registered);
+      setDeliveries(recent);
+    } catch (loadError) {
+      console.error('Failed to load workflow webhooks:', loadError);
+      setError(loadError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery.id);
+    setError(null);
+    try {
+      const replayed = await workflowWebhookService.replayDelivery(delivery.id);
+      setDeliveries(prev => [replayed, ...prev]);
+    } catch (replayError) {
+      setError(replayError.message);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const getDeliveryStatusColor = (status: string) => {
+    switch (status) {
+      case 'processed':
+        return 'bg-green-100 text-green-800';
+      case 'failed':
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      case 'processing':
+        return 'bg-blue-100 text-blue-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getDeliveryStatusIcon = (status: string) => {
+    switch (status) {
+      case 'processed':
+        return <CheckCircle className="h-3 w-3" />;
+      case 'failed':
+        return <AlertTriangle className="h-3 w-3" />;
+      case 'rejected':
+        return <ShieldAlert className="h-3 w-3" />;
+      default:
+        return <Clock className="h-3 w-3" />;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <Clock className="h-4 w-4 animate-spin" />
+        <span>Loading webhooks...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium flex items-center">
+          <Webhook className="h-4 w-4 mr-2" />
+          Webhook URLs
+        </span>
+        <Button variant="ghost" size="sm" onClick={loadWebhooks}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {webhooks.length === 0 ? (
+        <p className="text-muted-foreground">Add a webhook trigger and save the workflow to get a URL</p>
+      ) : (
+        <ul className="space-y-2">
+          {webhooks.map(webhook => {
+            const url = getWebhookUrl(webhook.id!);
+            return (
+              <li key={webhook.id} className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{webhook.method}</Badge>
+                  <code className="flex-1 truncate text-xs" title={url}>{url}</code>
+                  <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(url)} title="Copy URL">
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {webhook.authType === 'none' ? 'No authentication' : `${webhook.authType} authentication`}
+                  {' · '}
+                  {webhook.responseMode === 'sync' ? 'responds with the workflow result' : 'responds 202 right away'}
+                  {!webhook.enabled && ' · disabled'}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Separator />
+
+      <span className="font-medium flex items-center">
+        <Clock className="h-4 w-4 mr-2" />
+        Recent deliveries
+      </span>
+
+      {deliveries.length === 0 ? (
+        <p className="text-muted-foreground">No deliveries yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {deliveries.map(delivery => (
+            <li key={delivery.id}>
+              <div className="flex items-start justify-between">
+                <button
+                  className="text-left"
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                >
+                  <div>
+                    {delivery.method} · {new Date(delivery.receivedAt).toLocaleString()}
+                    {delivery.replayOf && <span className="text-muted-foreground"> · replay</span>}
+                  </div>
+                  {(delivery.error || delivery.responseStatus) && (
+                    <div className="text-xs text-muted-foreground">
+                      {delivery.error || `Responded ${delivery.responseStatus}`}
+                    </div>
+                  )}
+                </button>
+                <div className="flex items-center space-x-1">
+                  <Badge className={getDeliveryStatusColor(delivery.status)}>
+                    {getDeliveryStatusIcon(delivery.status)}
+                    <span className="ml-1">{delivery.status}</span>
+                  </Badge>
+                  {delivery.status !== 'rejected' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReplay(delivery)}
+                      disabled={replayingId === delivery.id}
+                      title="Replay into the workflow"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === delivery.id && (
+                <pre className="mt-1 p-2 bg-gray-50 rounded text-xs font-mono overflow-x-auto">
+                  {JSON.stringify({
+                    headers: delivery.headers,
+                    query: delivery.query,
+                    payload: delivery.payload,
+                    response: delivery.responseBody
+                  }, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
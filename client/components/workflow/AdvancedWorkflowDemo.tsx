@@ -40,7 +40,14 @@ export const AdvancedWorkflowDemo: React.FC = () => {
     loop: new LoopNode('demo-loop', { x: 100, y: 200 }),
     dataTransform: new DataTransformNode('demo-transform', { x: 100, y: 300 }),
     javascript: new JSNode('demo-js', { x: 100, y: 400 }),
-    subworkflow: new SubworkflowNode('demo-subworkflow', { x: 100, y: 500 })
+    subworkflow: {
+      config: new SubworkflowNode({
+        id: 'demo-subworkflow',
+        type: 'subworkflow',
+        position: { x: 100, y: 500 },
+        configuration: {}
+      } as any).getDefaultConfiguration()
+    }
   };
 
   const nodeDescriptions = {
@@ -296,17 +303,17 @@ export const AdvancedWorkflowDemo: React.FC = () => {
                         
                         <div className="flex items-center justify-between">
                           <div>
-                            <label className="text-sm font-medium">Sandboxed Execution</label>
-                            <p className="text-xs text-gray-500">Run code in isolated environment</p>
+                            <label className="text-sm font-medium">Network Access</label>
+                            <p className="text-xs text-gray-500">Use fetch() when the sandbox policy allows it</p>
                           </div>
                           <Button
-                            variant={demoNodes.javascript.config.sandboxed ? 'default' : 'outline'}
+                            variant={demoNodes.javascript.config.permissions.network ? 'default' : 'outline'}
                             size="sm"
                             onClick={() => {
-                              demoNodes.javascript.config.sandboxed = !demoNodes.javascript.config.sandboxed;
+                              demoNodes.javascript.config.permissions.network = !demoNodes.javascript.config.permissions.network;
                             }}
                           >
-                            {demoNodes.javascript.config.sandboxed ? 'Enabled' : 'Disabled'}
+                            {demoNodes.javascript.config.permissions.network ? 'Requested' : 'Off'}
                           </Button>
                         </div>
                       </CardContent>
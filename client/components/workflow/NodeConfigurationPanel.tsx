@@ -34,6 +34,7 @@ import { ConditionalLogicNode } from '../../lib/workflow-nodes/conditional-logic
 import { LoopNode } from '../../lib/workflow-nodes/loop-node';
 import { DataTransformNode } from '../../lib/workflow-nodes/data-transform-node';
 import { JSNode } from '../../lib/workflow-nodes/js-node';
+import { getSandboxPolicy } from '../../lib/code-sandbox';
 import { SubworkflowNode } from '../../lib/workflow-nodes/subworkflow-node';
 
 interface NodeConfigurationPanelProps {
@@ -65,7 +66,7 @@ export const NodeConfigurationPanel: React.FC<NodeConfigurationPanelProps> = ({
     // Validate configuration
     if (node.validate) {
       const validation = node.validate();
-      setValidationErrors(validation.errors || []);
+      setValidationErrors((validation.errors || []).map((error: any) => error.message ?? error));
     }
   };
 
@@ -142,6 +143,46 @@ export const NodeConfigurationPanel: React.FC<NodeConfigurationPanelProps> = ({
           </div>
         );
 
+      case 'join':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium">Join Policy</Label>
+              <p className="text-xs text-gray-500">When to continue once parallel branches arrive</p>
+              <div className="flex gap-2 mt-2">
+                {[
+                  { value: 'wait_all', label: 'Wait for all' },
+                  { value: 'wait_any', label: 'First branch' },
+                  { value: 'first_n', label: 'First N' }
+                ].map(option => (
+                  <Button
+                    key={option.value}
+                    variant={(node.config?.policy || 'wait_all') === option.value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => handleConfigChange({ ...node.config, policy: option.value })}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {node.config?.policy === 'first_n' && (
+              <div>
+                <Label htmlFor="joinCount">Branches to wait for</Label>
+                <Input
+                  id="joinCount"
+                  type="number"
+                  min={1}
+                  value={node.config?.count ?? 2}
+                  onChange={(e) => handleConfigChange({ ...node.config, count: parseInt(e.target.value) || 1 })}
+                  className="mt-1"
+                />
+              </div>
+            )}
+          </div>
+        );
+
       default:
         return null;
     }
@@ -197,20 +238,53 @@ export const NodeConfigurationPanel: React.FC<NodeConfigurationPanelProps> = ({
               />
             </div>
 
+            <div>
+              <Label htmlFor="memoryLimitMb">Memory Limit (MB)</Label>
+              <Input
+                id="memoryLimitMb"
+                type="number"
+                value={node.config?.memoryLimitMb || 64}
+                onChange={(e) => handleConfigChange({ 
+                  ...node.config, 
+                  memoryLimitMb: parseInt(e.target.value) || 64 
+                })}
+                min={8}
+                max={getSandboxPolicy().maxMemoryLimitMb}
+                className="mt-1"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm font-medium">Network Access</Label>
+                <p className="text-xs text-gray-500">Use fetch() when the sandbox policy allows it</p>
+              </div>
+              <Button
+                variant={node.config?.permissions?.network ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleConfigChange({ 
+                  ...node.config, 
+                  permissions: { ...node.config?.permissions, network: !node.config?.permissions?.network }
+                })}
+              >
+                {node.config?.permissions?.network ? 'Requested' : 'Off'}
+              </Button>
+            </div>
+
             <div className="flex items-center justify-between">
               <div>
-                <Label className="text-sm font-medium">Sandboxed Execution</Label>
-                <p className="text-xs text-gray-500">Run code in isolated environment</p>
+                <Label className="text-sm font-medium">Filesystem Access</Label>
+                <p className="text-xs text-gray-500">Server-side runs with a policy root only</p>
               </div>
               <Button
-                variant={node.config?.sandboxed ? 'default' : 'outline'}
+                variant={node.config?.permissions?.fs ? 'default' : 'outline'}
                 size="sm"
                 onClick={() => handleConfigChange({ 
                   ...node.config, 
-                  sandboxed: !node.config?.sandboxed 
+                  permissions: { ...node.config?.permissions, fs: !node.config?.permissions?.fs }
                 })}
               >
-                {node.config?.sandboxed ? 'Enabled' : 'Disabled'}
+                {node.config?.permissions?.fs ? 'Requested' : 'Off'}
               </Button>
             </div>
 
@@ -7,12 +7,15 @@ import { supabase } from './supabase';
 import { AgentPersona } from './persona-types';
 import { AgentWorkflow } from './workflow-types';
 import { workflowExecutor } from './workflow-executor';
+import { workflowRevisionService } from './workflow-revisions';
 
 export interface AgentDeployment {
   id: string;
   userId: string;
   agentId: string;
   workflowId?: string;
+  // Published workflow revision the deployment runs; later edits to the workflow do not affect it
+  workflowRevision?: number;
   personaId?: string;
   name: string;
   description: string;
@@ -201,7 +204,7 @@ export interface DeploymentLog {
 export interface DeploymentEvent {
   id: string;
   deploymentId: string;
-  type: 'deployment_started' | 'deployment_completed' | 'deployment_failed' | 'scaling_event' | 'health_check' | 'error_occurred';
+  type: 'deployment_started' | 'deployment_completed' | 'deployment_failed' | 'scaling_event' | 'health_check' | 'error_occurred' | 'revision_pinned';
   timestamp: string;
   data: Record<string, any>;
 }
@@ -228,6 +231,8 @@ export class AgentDeploymentService {
       name: string;
       description?: string;
       workflowId?: string;
+      // Defaults to the workflow's published revision
+      workflowRevision?: number;
       personaId?: string;
       configuration: DeploymentConfiguration;
       channels: ChannelConfiguration[];
@@ -236,7 +241,12 @@ export class AgentDeploymentService {
   ): Promise<AgentDeployment | null> {
     try {
       const deploymentId = crypto.randomUUID();
-      
+
+      const workflowRevision = await this.resolveWorkflowRevision(
+        deploymentConfig.workflowId,
+        deploymentConfig.workflowRevision
+      );
+
       // Generate endpoints
       const endpoints = this.generateEndpoints(deploymentId, deploymentConfig.configuration.environment);
       
@@ -246,6 +256,7 @@ export class AgentDeploymentService {
         userId,
         agentId,
         workflowId: deploymentConfig.workflowId,
+        workflowRevision,
         personaId: deploymentConfig.personaId,
         name: deploymentConfig.name,
         description: deploymentConfig.description || '',
@@ -268,6 +279,7 @@ export class AgentDeploymentService {
           user_id: deployment.userId,
           agent_id: deployment.agentId,
           workflow_id: deployment.workflowId,
+          workflow_revision: deployment.workflowRevision,
           persona_id: deployment.personaId,
           deployment_config: deployment.deploymentConfig,
           channel_configs: deployment.channelConfigs,
@@ -363,6 +375,7 @@ export class AgentDeploymentService {
       const { error } = await supabase
         .from('agent_deployments')
         .update({
+          workflow_revision: updatedDeployment.workflowRevision,
           deployment_config: updatedDeployment.deploymentConfig,
           channel_configs: updatedDeployment.channelConfigs,
           integration_configs: updatedDeployment.integrationConfigs,
@@ -387,6 +400,25 @@ export class AgentDeploymentService {
     }
   }
 
+  /**
+   * Point a deployment at another revision of its workflow
+   */
+  async pinWorkflowRevision(deploymentId: string, revisionNumber: number): Promise<AgentDeployment | null> {
+    const deployment = await this.getDeployment(deploymentId);
+    if (!deployment?.workflowId) return null;
+
+    const revision = await workflowRevisionService.getRevision(deployment.workflowId, revisionNumber);
+    if (!revision) {
+      throw new Error(`Revision ${revisionNumber} of workflow ${deployment.workflowId} not found`);
+    }
+
+    const updated = await this.updateDeployment(deploymentId, { workflowRevision: revisionNumber });
+    if (updated) {
+      await this.logEvent(deploymentId, 'revision_pinned', { workflowRevision: revisionNumber });
+    }
+    return updated;
+  }
+
   /**
    * Pause deployment
    */
@@ -533,41 +565,18 @@ export class AgentDeploymentService {
     }
 
     try {
-      // Load workflow
-      const { data: workflowData, error } = await supabase
-        .from('agent_workflows')
-        .select('*')
-        .eq('id', deployment.workflowId)
-        .single();
-
-      if (error || !workflowData) {
-        throw new Error('Workflow not found');
-      }
-
-      const workflow: AgentWorkflow = {
-        id: workflowData.id,
-        name: workflowData.name,
-        description: workflowData.description,
-        version: workflowData.version,
-        nodes: workflowData.workflow_data?.nodes || [],
-        connections: workflowData.workflow_data?.connections || [],
-        variables: workflowData.workflow_data?.variables || [],
-        triggers: workflowData.workflow_data?.triggers || [],
-        metadata: {
-          created_at: workflowData.created_at,
-          updated_at: workflowData.updated_at,
-          created_by: workflowData.user_id,
-          is_template: workflowData.is_template,
-          tags: workflowData.tags || []
-        }
-      };
+      // Run the pinned revision; deployments created before versioning run the current workflow
+      const workflow = deployment.workflowRevision
+        ? await workflowRevisionService.loadRevisionWorkflow(deployment.workflowId, deployment.workflowRevision)
+        : await workflowExecutor.loadWorkflow(deployment.workflowId);
 
       // Execute workflow
       const execution = await workflowExecutor.executeWorkflow(workflow, inputData, {
         context: {
           ...context,
           deploymentId,
-          agentId: deployment.agentId
+          agentId: deployment.agentId,
+          workflowRevision: deployment.workflowRevision
         }
       });
 
@@ -597,6 +606,17 @@ export class AgentDeploymentService {
     }
   }
 
+  private async resolveWorkflowRevision(workflowId?: string, workflowRevision?: number): Promise<number | undefined> {
+    if (!workflowId) return undefined;
+    if (workflowRevision) return workflowRevision;
+
+    const published = await workflowRevisionService.getPublishedRevisionNumber(workflowId);
+    if (!published) {
+      throw new Error('Publish a workflow revision before deploying it');
+    }
+    return published;
+  }
+
   private async startDeploymentProcess(deployment: AgentDeployment): Promise<void> {
     try {
       // Simulate deployment process
@@ -766,6 +786,7 @@ export class AgentDeploymentService {
       userId: data.user_id,
       agentId: data.agent_id,
       workflowId: data.workflow_id,
+      workflowRevision: data.workflow_revision ?? undefined,
       personaId: data.persona_id,
       name: data.name || 'Unnamed Deployment',
       description: data.description || '',
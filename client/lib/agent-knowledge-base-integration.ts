@@ -4,7 +4,10 @@ import {
   fetchKnowledgeBases,
   KnowledgeBaseServiceError,
   createRealTimeUpdater,
-  type RealTimeUpdateConfig
+  searchKnowledgeBase,
+  type RealTimeUpdateConfig,
+  type RetrievalFilters,
+  type RetrievalResult
 } from './knowledge-base-service';
 import { fileProcessingService, type ProcessingStatus } from './file-processing-service';
 import { type UserAgent, type AgentCapabilities } from './agent-service';
@@ -335,6 +338,22 @@ export class AgentKnowledgeBaseIntegration {
     }
   }
 
+  /**
+   * Retrieve the chunks most relevant to a query from an agent's knowledge bases
+   */
+  async retrieveContext(
+    knowledgeBaseIds: string[],
+    query: string,
+    topK: number = 5,
+    filters: RetrievalFilters = {}
+  ): Promise<RetrievalResult> {
+    if (knowledgeBaseIds.length === 0) {
+      return { query, chunks: [], provider: 'none', mode: 'hybrid', tookMs: 0 };
+    }
+
+    return searchKnowledgeBase(knowledgeBaseIds, query, topK, filters);
+  }
+
   /**
    * Share knowledge base with another user
    */
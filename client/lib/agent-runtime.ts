@@ -1,7 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
+import { getEnv } from './env';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const supabaseUrl = getEnv('VITE_SUPABASE_URL');
+const supabaseAnonKey = getEnv('VITE_SUPABASE_ANON_KEY');
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
@@ -21,6 +22,8 @@ export interface Agent {
   };
   tools: string[];
   voice_settings: any;
+  knowledge_base_id?: string | null;
+  knowledge_base_ids?: string[] | null;
   deployment_urls: {
     whatsapp: string;
     slack: string;
@@ -1,3 +1,5 @@
+import { getEnv } from './env';
+
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -40,8 +42,8 @@ export class AIService {
 
   constructor() {
     // In production, these would come from environment variables
-    this.openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY || '';
-    this.claudeApiKey = import.meta.env.VITE_CLAUDE_API_KEY || '';
+    this.openaiApiKey = getEnv('VITE_OPENAI_API_KEY') || '';
+    this.claudeApiKey = getEnv('VITE_CLAUDE_API_KEY') || '';
   }
 
   /**
@@ -1,4 +1,5 @@
 import type { ToolDefinition, ToolExecutionContext, ToolExecutionResult } from './tool-system';
+import { getEnv } from './env';
 
 /**
  * Basic Tools Implementation
@@ -9,8 +10,8 @@ export class BasicTools {
   private weatherApiKey: string;
 
   constructor() {
-    this.googleApiKey = import.meta.env.VITE_GOOGLE_API_KEY || '';
-    this.weatherApiKey = import.meta.env.VITE_OPENWEATHER_API_KEY || '';
+    this.googleApiKey = getEnv('VITE_GOOGLE_API_KEY') || '';
+    this.weatherApiKey = getEnv('VITE_OPENWEATHER_API_KEY') || '';
   }
 
   /**
@@ -37,7 +38,7 @@ export class BasicTools {
    * Google Custom Search implementation
    */
   private async googleCustomSearch(query: string, numResults: number, safeSearch: string, language: string): Promise<any> {
-    const searchEngineId = import.meta.env.VITE_GOOGLE_SEARCH_ENGINE_ID || '';
+    const searchEngineId = getEnv('VITE_GOOGLE_SEARCH_ENGINE_ID') || '';
     
     if (!searchEngineId) {
       throw new Error('Google Search Engine ID not configured');
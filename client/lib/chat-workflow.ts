@@ -1,5 +1,6 @@
 import { n8nService } from "./n8n-service";
 import { supabase } from "./supabase";
+import { getEnv } from "./env";
 
 export interface ChatWorkflowRequest {
   message: string;
@@ -332,15 +333,15 @@ export const chatHelpers = {
   // Check if n8n is properly configured
   isN8nConfigured: () => {
     return !!(
-      import.meta.env.VITE_N8N_API_URL &&
-      import.meta.env.VITE_N8N_API_KEY &&
-      import.meta.env.VITE_N8N_WEBHOOK_URL
+      getEnv('VITE_N8N_API_URL') &&
+      getEnv('VITE_N8N_API_KEY') &&
+      getEnv('VITE_N8N_WEBHOOK_URL')
     );
   },
 
   // Get chat webhook URL
   getChatWebhookUrl: () => {
-    const baseUrl = import.meta.env.VITE_N8N_WEBHOOK_URL;
+    const baseUrl = getEnv('VITE_N8N_WEBHOOK_URL');
     return baseUrl ? `${baseUrl}/ai-chat` : null;
   },
 
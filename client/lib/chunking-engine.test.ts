@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { chunkContent, estimateTokens, splitSentences } from './chunking-engine';
+
+const words = (count: number, prefix = 'word') =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('chunkContent', () => {
+  describe('fixed strategy', () => {
+    it('should keep short text in a single chunk', () => {
+      const text = 'A short document that fits in one chunk.';
+      const chunks = chunkContent({ fileName: 'doc.txt', segments: [{ text }] });
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content).toBe(text);
+      expect(chunks[0].id).toBe('doc.txt-chunk-0');
+      expect(chunks[0].metadata.strategy).toBe('fixed');
+    });
+
+    it('should overlap neighbouring windows', () => {
+      const chunks = chunkContent(
+        { fileName: 'doc.txt', segments: [{ text: words(300) }] },
+        { strategy: 'fixed', chunkSize: 100, chunkOverlap: 20 }
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      const firstWords = chunks[0].content.split(' ');
+      const secondWords = chunks[1].content.split(' ');
+      const overlap = firstWords.slice(firstWords.indexOf(secondWords[0]));
+      expect(overlap.length).toBeGreaterThan(0);
+      expect(overlap.length).toBeLessThan(firstWords.length);
+      expect(secondWords.slice(0, overlap.length)).toEqual(overlap);
+      expect(chunks.every(chunk => chunk.tokens <= 100)).toBe(true);
+    });
+
+    it('should not span pages and should record the page number', () => {
+      const chunks = chunkContent({
+        fileName: 'manual.pdf',
+        segments: [
+          { text: 'Installation steps for the device.', page: 1 },
+          { text: 'Troubleshooting error E42.', page: 2 },
+        ],
+      });
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].metadata.page).toBe(1);
+      expect(chunks[1].metadata.page).toBe(2);
+      expect(chunks[1].content).toBe('Troubleshooting error E42.');
+    });
+  });
+
+  describe('sentence strategy', () => {
+    it('should never split a sentence', () => {
+      const text = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} has exactly seven words.`).join(' ');
+      const chunks = chunkContent(
+        { fileName: 'doc.txt', segments: [{ text }] },
+        { strategy: 'sentence', chunkSize: 40, chunkOverlap: 0 }
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => {
+        expect(chunk.content.startsWith('Sentence number')).toBe(true);
+        expect(chunk.content.endsWith('words.')).toBe(true);
+      });
+    });
+  });
+
+  describe('markdown strategy', () => {
+    const markdown = [
+      '# Guide',
+      'Intro paragraph.',
+      '',
+      '## Billing',
+      'How invoices work.',
+      '',
+      '### Refunds',
+      'Refunds take five days.',
+      '',
+      '| Plan | Price |',
+      '| --- | --- |',
+      '| Pro | 20 |',
+      '',
+      '## Support',
+      'Contact us any time.',
+    ].join('\n');
+
+    it('should split on headings and keep the heading path', () => {
+      const chunks = chunkContent({ fileName: 'guide.md', segments: [{ text: markdown }] }, { strategy: 'markdown' });
+
+      const refunds = chunks.find(chunk => chunk.content.includes('Refunds take five days.'));
+      expect(refunds?.metadata.headings).toEqual(['Guide', 'Billing', 'Refunds']);
+      expect(refunds?.metadata.section).toBe('Refunds');
+
+      const support = chunks.find(chunk => chunk.content.includes('Contact us'));
+      expect(support?.metadata.headings).toEqual(['Guide', 'Support']);
+      expect(support?.content).not.toContain('Refunds');
+    });
+
+    it('should keep markdown tables intact', () => {
+      const chunks = chunkContent({ fileName: 'guide.md', segments: [{ text: markdown }] }, { strategy: 'markdown' });
+      const table = chunks.find(chunk => chunk.content.includes('| Plan | Price |'));
+
+      expect(table?.content).toContain('| Pro | 20 |');
+      expect(table?.metadata.type).toBe('table');
+    });
+
+    it('should keep a table that is directly followed by a code fence', () => {
+      const text = ['| Flag | Default |', '| --- | --- |', '| --verbose | off |', '```sh', 'run --verbose', '```'].join('\n');
+      const chunks = chunkContent({ fileName: 'cli.md', segments: [{ text }] }, { strategy: 'markdown' });
+      const table = chunks.find(chunk => chunk.content.includes('| --verbose | off |'));
+
+      expect(table?.metadata.type).toBe('table');
+      expect(table?.content).toContain('| Flag | Default |');
+      expect(chunks.some(chunk => chunk.content.includes('run --verbose'))).toBe(true);
+    });
+  });
+
+  describe('table strategy', () => {
+    it('should keep rows whole and repeat the header in every chunk', () => {
+      const rows = Array.from({ length: 40 }, (_, i) => [`SKU-${i}`, `Product ${i}`, `${i * 10}`]);
+      const chunks = chunkContent(
+        {
+          fileName: 'catalog.xlsx',
+          segments: [{ text: 'ignored table text', tableId: 't1' }],
+          tables: [{ id: 't1', headers: ['SKU', 'Name', 'Price'], rows, caption: 'Sheet: Catalog' }],
+        },
+        { strategy: 'table', chunkSize: 60, chunkOverlap: 0 }
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => {
+        expect(chunk.content.startsWith('Sheet: Catalog\nSKU | Name | Price')).toBe(true);
+        expect(chunk.metadata.type).toBe('table');
+      });
+
+      const allRows = chunks.flatMap(chunk => chunk.content.split('\n').slice(2));
+      expect(allRows).toHaveLength(40);
+      expect(allRows[39]).toBe('SKU-39 | Product 39 | 390');
+    });
+
+    it('should fall back to sentences for non-table text', () => {
+      const chunks = chunkContent(
+        { fileName: 'doc.txt', segments: [{ text: 'First sentence. Second sentence.' }] },
+        { strategy: 'table' }
+      );
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content).toBe('First sentence. Second sentence.');
+    });
+  });
+});
+
+describe('splitSentences', () => {
+  it('should split on terminal punctuation and blank lines', () => {
+    expect(splitSentences('One. Two! Three?\n\nFour')).toEqual(['One.', 'Two!', 'Three?', 'Four']);
+  });
+
+  it('should not split decimals or lower-case continuations', () => {
+    expect(splitSentences('Version 2.5 is out. see notes.')).toEqual(['Version 2.5 is out. see notes.']);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should estimate roughly four tokens per three words', () => {
+    expect(estimateTokens('one two three')).toBe(4);
+    expect(estimateTokens('')).toBe(0);
+  });
+});
@@ -0,0 +1,460 @@
+import type { ContentChunk, ChunkMetadata, ExtractedTable } from './file-processing-service';
+
+/**
+ * Shared chunking engine used by every file processor.
+ *
+ * Each strategy turns the extracted text into units (words, sentences, blocks or
+ * table rows) and a single packer groups the units into chunks of at most
+ * `chunkSize` tokens, carrying `chunkOverlap` tokens over between neighbours.
+ * Units never cross a group boundary (page, section or table), so headings and
+ * tables are not split across unrelated chunks.
+ */
+
+export type ChunkingStrategy = 'fixed' | 'sentence' | 'markdown' | 'table';
+
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  chunkSize?: number; // tokens
+  chunkOverlap?: number; // tokens
+}
+
+export interface ChunkSegment {
+  text: string;
+  page?: number;
+  // Set when the segment is the text rendering of an extracted table
+  tableId?: string;
+}
+
+export interface ChunkSource {
+  fileName: string;
+  segments: ChunkSegment[];
+  tables?: ExtractedTable[];
+  chunkType?: ChunkMetadata['type'];
+  confidence?: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: Required<ChunkingOptions> = {
+  strategy: 'fixed',
+  chunkSize: 1000,
+  chunkOverlap: 200,
+};
+
+export const CHUNKING_STRATEGIES: { value: ChunkingStrategy; label: string; description: string }[] = [
+  { value: 'fixed', label: 'Fixed size', description: 'Token windows with overlap' },
+  { value: 'sentence', label: 'Sentence', description: 'Packs whole sentences up to the chunk size' },
+  { value: 'markdown', label: 'Headings', description: 'Splits on markdown headings and keeps the heading path' },
+  { value: 'table', label: 'Table rows', description: 'Keeps table rows intact and repeats the header row' },
+];
+
+interface ChunkUnit {
+  text: string;
+  tokens: number;
+  start: number;
+  end: number;
+  group: string;
+  page?: number;
+  headings?: string[];
+  type: ChunkMetadata['type'];
+  // Prepended to every chunk built from this unit's group (e.g. a table header row)
+  prefix?: string;
+  separator: string;
+}
+
+/**
+ * Rough token estimate: ~0.75 words per token
+ */
+export function estimateTokens(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.ceil(words / 0.75);
+}
+
+/**
+ * Split text into sentences, treating blank lines as hard breaks
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Offset of each segment in the combined text that chunk start/end indexes
+ * refer to, followed by the total length. Segments are joined by a blank line.
+ */
+export function getSegmentOffsets(segments: ChunkSegment[]): number[] {
+  const offsets = [0];
+  segments.forEach(segment => offsets.push(offsets[offsets.length - 1] + segment.text.length + 2));
+  return offsets;
+}
+
+/**
+ * Chunk extracted content with the selected strategy
+ */
+export function chunkContent(source: ChunkSource, options: ChunkingOptions = {}): ContentChunk[] {
+  const settings = { ...DEFAULT_CHUNKING_OPTIONS, ...stripUndefined(options) };
+  const chunkSize = Math.max(1, settings.chunkSize);
+  const chunkOverlap = Math.min(Math.max(0, settings.chunkOverlap), Math.floor(chunkSize / 2));
+
+  const units = buildUnits(source, settings.strategy, chunkSize);
+  return packUnits(units, source, settings.strategy, chunkSize, chunkOverlap);
+}
+
+function buildUnits(source: ChunkSource, strategy: ChunkingStrategy, chunkSize: number): ChunkUnit[] {
+  const type = source.chunkType || 'text';
+  const tablesById = new Map((source.tables || []).map(table => [table.id, table]));
+  const units: ChunkUnit[] = [];
+  const offsets = getSegmentOffsets(source.segments);
+  const offset = offsets[source.segments.length];
+
+  source.segments.forEach((segment, segmentIndex) => {
+    const base = offsets[segmentIndex];
+    const group = segment.page !== undefined ? `page-${segment.page}` : `segment-${segmentIndex}`;
+
+    const table = segment.tableId ? tablesById.get(segment.tableId) : undefined;
+    if (strategy === 'table' && table) {
+      units.push(...tableUnits(table, base, segment.page));
+      return;
+    }
+
+    switch (strategy) {
+      case 'fixed':
+        units.push(...wordUnits(segment.text, base, group, segment.page, type));
+        break;
+      case 'markdown':
+        units.push(...markdownUnits(segment.text, base, group, segment.page, type, chunkSize));
+        break;
+      case 'sentence':
+      case 'table':
+        units.push(...sentenceUnits(segment.text, base, group, segment.page, type, undefined, chunkSize));
+        break;
+    }
+  });
+
+  // Tables without a text segment are still chunked when rows must be preserved
+  if (strategy === 'table') {
+    const segmentTableIds = new Set(source.segments.map(segment => segment.tableId).filter(Boolean));
+    (source.tables || [])
+      .filter(table => !segmentTableIds.has(table.id))
+      .forEach(table => units.push(...tableUnits(table, offset, table.page)));
+  }
+
+  return units;
+}
+
+function wordUnits(
+  text: string,
+  base: number,
+  group: string,
+  page: number | undefined,
+  type: ChunkMetadata['type'],
+  headings?: string[]
+): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    units.push({
+      text: match[0],
+      tokens: 1 / 0.75,
+      start: base + match.index,
+      end: base + match.index + match[0].length,
+      group,
+      page,
+      headings,
+      type,
+      separator: ' ',
+    });
+  }
+
+  return units;
+}
+
+function sentenceUnits(
+  text: string,
+  base: number,
+  group: string,
+  page: number | undefined,
+  type: ChunkMetadata['type'],
+  headings: string[] | undefined,
+  chunkSize: number
+): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  let cursor = 0;
+
+  splitSentences(text).forEach(sentence => {
+    const firstWord = sentence.split(' ')[0];
+    const found = text.indexOf(firstWord, cursor);
+    const start = found > -1 ? found : cursor;
+    cursor = start + firstWord.length;
+
+    const tokens = estimateTokens(sentence);
+    if (tokens > chunkSize) {
+      // A single sentence longer than a chunk falls back to word windows
+      units.push(...wordUnits(sentence, base + start, group, page, type, headings));
+      return;
+    }
+
+    units.push({
+      text: sentence,
+      tokens,
+      start: base + start,
+      end: base + start + sentence.length,
+      group,
+      page,
+      headings,
+      type,
+      separator: ' ',
+    });
+  });
+
+  return units;
+}
+
+function markdownUnits(
+  text: string,
+  base: number,
+  group: string,
+  page: number | undefined,
+  type: ChunkMetadata['type'],
+  chunkSize: number
+): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  const headingPath: string[] = [];
+  const lines = text.split('\n');
+  let sectionIndex = 0;
+  let offset = 0;
+  let paragraph: string[] = [];
+  let paragraphStart = 0;
+  let block: string[] | null = null;
+  let blockStart = 0;
+  let inFence = false;
+
+  const sectionGroup = () => `${group}-section-${sectionIndex}`;
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    units.push(...sentenceUnits(
+      paragraph.join('\n'),
+      base + paragraphStart,
+      sectionGroup(),
+      page,
+      type,
+      [...headingPath],
+      chunkSize
+    ));
+    paragraph = [];
+  };
+
+  const flushBlock = (blockType: ChunkMetadata['type']) => {
+    if (!block || block.length === 0) return;
+    const blockText = block.join('\n');
+    units.push({
+      text: blockText,
+      tokens: estimateTokens(blockText),
+      start: base + blockStart,
+      end: base + blockStart + blockText.length,
+      group: sectionGroup(),
+      page,
+      headings: [...headingPath],
+      type: blockType,
+      separator: '\n\n',
+    });
+    block = null;
+  };
+
+  lines.forEach(line => {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (inFence) {
+        block!.push(line);
+        flushBlock(type);
+        inFence = false;
+      } else {
+        flushParagraph();
+        flushBlock('table');
+        inFence = true;
+        block = [line];
+        blockStart = lineStart;
+      }
+      return;
+    }
+
+    if (inFence) {
+      block!.push(line);
+      return;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      flushBlock('table');
+      const level = heading[1].length;
+      // Skipped levels leave holes in the path, which are filtered out below
+      headingPath.splice(level - 1);
+      headingPath[level - 1] = heading[2];
+      sectionIndex++;
+      units.push({
+        text: line.trim(),
+        tokens: estimateTokens(line),
+        start: base + lineStart,
+        end: base + lineStart + line.length,
+        group: sectionGroup(),
+        page,
+        headings: headingPath.filter(Boolean),
+        type: 'header',
+        separator: '\n\n',
+      });
+      return;
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flushParagraph();
+      if (!block) {
+        block = [];
+        blockStart = lineStart;
+      }
+      block.push(line);
+      return;
+    }
+
+    flushBlock('table');
+
+    if (!line.trim()) {
+      flushParagraph();
+      return;
+    }
+
+    if (paragraph.length === 0) {
+      paragraphStart = lineStart;
+    }
+    paragraph.push(line);
+  });
+
+  flushParagraph();
+  flushBlock(inFence ? type : 'table');
+
+  return units.map(unit => ({ ...unit, headings: unit.headings?.filter(Boolean) }));
+}
+
+function tableUnits(table: ExtractedTable, base: number, page?: number): ChunkUnit[] {
+  const header = table.headers.map(cell => String(cell ?? '')).join(' | ');
+  const prefix = [table.caption, header].filter(Boolean).join('\n');
+
+  return table.rows
+    .map(row => row.map(cell => String(cell ?? '')).join(' | '))
+    .filter(row => row.replace(/\|/g, '').trim())
+    .map((row, index) => ({
+      text: row,
+      tokens: estimateTokens(row),
+      start: base + index,
+      end: base + index + 1,
+      group: `table-${table.id}`,
+      page,
+      headings: table.caption ? [table.caption] : undefined,
+      type: 'table' as const,
+      prefix,
+      separator: '\n',
+    }));
+}
+
+function packUnits(
+  units: ChunkUnit[],
+  source: ChunkSource,
+  strategy: ChunkingStrategy,
+  chunkSize: number,
+  chunkOverlap: number
+): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  let current: ChunkUnit[] = [];
+  let currentTokens = 0;
+
+  const emit = () => {
+    if (current.length === 0) return;
+    chunks.push(buildChunk(current, source, strategy, chunks.length));
+  };
+
+  const overlapTail = (): ChunkUnit[] => {
+    if (chunkOverlap === 0) return [];
+    const tail: ChunkUnit[] = [];
+    let tokens = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      if (tokens + current[i].tokens > chunkOverlap) break;
+      tokens += current[i].tokens;
+      tail.unshift(current[i]);
+    }
+    return tail;
+  };
+
+  units.forEach(unit => {
+    const prefixTokens = unit.prefix ? estimateTokens(unit.prefix) : 0;
+    const groupChanged = current.length > 0 && current[0].group !== unit.group;
+    const overflow = current.length > 0 && currentTokens + unit.tokens + prefixTokens > chunkSize;
+
+    if (groupChanged) {
+      emit();
+      current = [];
+      currentTokens = 0;
+    } else if (overflow) {
+      emit();
+      current = overlapTail();
+      currentTokens = current.reduce((sum, u) => sum + u.tokens, 0);
+    }
+
+    current.push(unit);
+    currentTokens += unit.tokens;
+  });
+
+  emit();
+  return chunks;
+}
+
+function buildChunk(
+  units: ChunkUnit[],
+  source: ChunkSource,
+  strategy: ChunkingStrategy,
+  index: number
+): ContentChunk {
+  const first = units[0];
+  const last = units[units.length - 1];
+  const body = units.map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text)).join('');
+  const content = first.prefix ? `${first.prefix}\n${body}` : body;
+
+  const pages = units.map(unit => unit.page).filter((page): page is number => page !== undefined);
+  const headings = last.headings && last.headings.length > 0 ? last.headings : first.headings;
+  const types = new Set(units.map(unit => unit.type));
+
+  const metadata: ChunkMetadata = {
+    type: types.has('table') ? 'table' : types.size === 1 ? first.type : (source.chunkType || 'text'),
+    confidence: source.confidence ?? 1.0,
+    strategy,
+  };
+
+  if (pages.length > 0) {
+    metadata.page = Math.min(...pages);
+    const pageEnd = Math.max(...pages);
+    if (pageEnd !== metadata.page) metadata.pageEnd = pageEnd;
+  }
+
+  if (headings && headings.length > 0) {
+    metadata.headings = headings;
+    metadata.section = headings[headings.length - 1];
+  }
+
+  return {
+    id: `${source.fileName}-chunk-${index}`,
+    content,
+    startIndex: first.start,
+    endIndex: last.end,
+    tokens: estimateTokens(content),
+    metadata,
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGroundedContext,
+  createSnippet,
+  extractCitationMarkers,
+  getAgentKnowledgeBaseIds,
+  resolveCitations,
+  splitCitationMarkers,
+} from './citations';
+import type { RetrievedChunk } from './knowledge-base-retrieval';
+
+const chunk = (id: string, content: string, metadata: Record<string, any> = {}): RetrievedChunk => ({
+  chunkId: id,
+  documentId: `doc-${id}`,
+  documentName: `${id}.pdf`,
+  knowledgeBaseId: 'kb-1',
+  content,
+  metadata,
+  score: 1,
+  scores: {},
+});
+
+describe('buildGroundedContext', () => {
+  it('should number sources and carry document, chunk and page', () => {
+    const { prompt, citations } = buildGroundedContext([
+      chunk('refunds', 'Refunds take five days.', { page: 3 }),
+      chunk('shipping', 'Shipping is free over $50.'),
+    ]);
+
+    expect(prompt).toContain('[1] (refunds.pdf, page 3)\nRefunds take five days.');
+    expect(prompt).toContain('[2] (shipping.pdf)\nShipping is free over $50.');
+    expect(citations).toEqual([
+      { marker: 1, documentId: 'doc-refunds', documentName: 'refunds.pdf', chunkId: 'refunds', page: 3, snippet: 'Refunds take five days.' },
+      { marker: 2, documentId: 'doc-shipping', documentName: 'shipping.pdf', chunkId: 'shipping', page: undefined, snippet: 'Shipping is free over $50.' },
+    ]);
+  });
+
+  it('should return an empty prompt without chunks', () => {
+    expect(buildGroundedContext([])).toEqual({ prompt: '', citations: [] });
+  });
+});
+
+describe('resolveCitations', () => {
+  const { citations } = buildGroundedContext([chunk('a', 'A'), chunk('b', 'B'), chunk('c', 'C')]);
+
+  it('should keep only cited sources in order of first use', () => {
+    const resolved = resolveCitations('Use C [3]. Also A [1][3].', citations);
+
+    expect(resolved.map(citation => citation.marker)).toEqual([3, 1]);
+  });
+
+  it('should ignore markers that were never provided', () => {
+    expect(resolveCitations('See [7].', citations)).toEqual([]);
+    expect(extractCitationMarkers('See [7] and [7].')).toEqual([7]);
+  });
+});
+
+describe('splitCitationMarkers', () => {
+  it('should split text around known markers', () => {
+    const { citations } = buildGroundedContext([chunk('a', 'A')]);
+    const parts = splitCitationMarkers('Refunds take five days [1]. Array[0] stays text [9].', citations);
+
+    expect(parts).toEqual([
+      { type: 'text', text: 'Refunds take five days ' },
+      { type: 'citation', marker: 1, citation: citations[0] },
+      { type: 'text', text: '. Array[0] stays text [9].' },
+    ]);
+  });
+});
+
+describe('createSnippet', () => {
+  it('should collapse whitespace and truncate on a word boundary', () => {
+    expect(createSnippet('one\n\n two   three')).toBe('one two three');
+    expect(createSnippet('alpha beta gamma delta', 12)).toBe('alpha beta…');
+  });
+});
+
+describe('getAgentKnowledgeBaseIds', () => {
+  it('should merge the legacy column with the id array', () => {
+    expect(getAgentKnowledgeBaseIds({ knowledge_base_id: 'kb-1', knowledge_base_ids: ['kb-2', 'kb-1'] })).toEqual(['kb-2', 'kb-1']);
+    expect(getAgentKnowledgeBaseIds(null)).toEqual([]);
+  });
+});
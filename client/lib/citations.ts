@@ -0,0 +1,155 @@
+import type { RetrievedChunk } from './knowledge-base-retrieval';
+
+/**
+ * Grounded answers with source citations.
+ *
+ * Retrieved chunks are numbered [1]..[n] in the prompt; the model cites them
+ * inline and only the sources it actually cited are returned to the client.
+ * Shared by the browser chat and the Netlify functions, so it must not depend
+ * on the browser Supabase client.
+ */
+
+export interface Citation {
+  marker: number;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  page?: number;
+  snippet: string;
+}
+
+export interface GroundedContext {
+  prompt: string;
+  citations: Citation[];
+}
+
+export type CitationTextPart =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; marker: number; citation?: Citation };
+
+const SNIPPET_LENGTH = 240;
+const MARKER_PATTERN = /\[(\d{1,3})\]/g;
+
+/**
+ * Knowledge bases attached to an agent, from either the legacy single column
+ * or the knowledge_base_ids array
+ */
+export function getAgentKnowledgeBaseIds(agent: {
+  knowledge_base_id?: string | null;
+  knowledge_base_ids?: string[] | null;
+} | null | undefined): string[] {
+  if (!agent) {
+    return [];
+  }
+
+  const ids = [...(agent.knowledge_base_ids || [])];
+  if (agent.knowledge_base_id) {
+    ids.push(agent.knowledge_base_id);
+  }
+
+  return Array.from(new Set(ids.filter(Boolean)));
+}
+
+export function createSnippet(content: string, length: number = SNIPPET_LENGTH): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= length) {
+    return text;
+  }
+
+  const cut = text.lastIndexOf(' ', length);
+  return `${text.slice(0, cut > length / 2 ? cut : length)}…`;
+}
+
+/**
+ * Number the retrieved chunks and build the system prompt section that
+ * tells the model how to cite them
+ */
+export function buildGroundedContext(chunks: RetrievedChunk[]): GroundedContext {
+  if (chunks.length === 0) {
+    return { prompt: '', citations: [] };
+  }
+
+  const citations: Citation[] = chunks.map((chunk, index) => ({
+    marker: index + 1,
+    documentId: chunk.documentId,
+    documentName: chunk.documentName,
+    chunkId: chunk.chunkId,
+    page: typeof chunk.metadata?.page === 'number' ? chunk.metadata.page : undefined,
+    snippet: createSnippet(chunk.content),
+  }));
+
+  const sources = chunks.map((chunk, index) => {
+    const citation = citations[index];
+    const location = citation.page ? `${citation.documentName}, page ${citation.page}` : citation.documentName;
+    return `[${citation.marker}] (${location})\n${chunk.content.trim()}`;
+  });
+
+  const prompt = [
+    'Answer using the knowledge base sources below when they are relevant.',
+    'Cite every statement taken from a source with its marker, e.g. [1] or [2][3].',
+    'Only use the markers listed here. If the sources do not contain the answer, say so instead of guessing.',
+    '',
+    'Sources:',
+    sources.join('\n\n'),
+  ].join('\n');
+
+  return { prompt, citations };
+}
+
+/**
+ * Markers that appear in the response text, in order of first use
+ */
+export function extractCitationMarkers(text: string): number[] {
+  const markers: number[] = [];
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const marker = Number(match[1]);
+    if (!markers.includes(marker)) {
+      markers.push(marker);
+    }
+  }
+
+  return markers;
+}
+
+/**
+ * Keep only the citations the response refers to; unknown markers are ignored
+ */
+export function resolveCitations(text: string, citations: Citation[]): Citation[] {
+  const byMarker = new Map(citations.map(citation => [citation.marker, citation]));
+
+  return extractCitationMarkers(text)
+    .map(marker => byMarker.get(marker))
+    .filter((citation): citation is Citation => Boolean(citation));
+}
+
+/**
+ * Split response text into plain text and citation markers for rendering
+ * footnotes. Markers without a matching citation are left as text.
+ */
+export function splitCitationMarkers(text: string, citations: Citation[] = []): CitationTextPart[] {
+  const byMarker = new Map(citations.map(citation => [citation.marker, citation]));
+  const parts: CitationTextPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const marker = Number(match[1]);
+    const citation = byMarker.get(marker);
+    if (!citation) {
+      continue;
+    }
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    parts.push({ type: 'citation', marker, citation });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return parts;
+}
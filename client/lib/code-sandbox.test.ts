@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_SANDBOX_POLICY,
+  NodeWorkerSandbox,
+  applySandboxPolicy,
+  createCodeSandbox,
+  findDynamicImport,
+  setSandboxPolicy,
+} from './code-sandbox';
+
+afterEach(() => {
+  setSandboxPolicy(DEFAULT_SANDBOX_POLICY);
+});
+
+describe('NodeWorkerSandbox', () => {
+  const sandbox = new NodeWorkerSandbox();
+
+  it('should return the value of the code and capture console output', async () => {
+    const result = await sandbox.run(
+      'console.log("total", data.items.length); console.warn({ low: true }); return data.items.map(i => i * variables.factor);',
+      { data: { items: [1, 2, 3] }, variables: { factor: 10 } }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual([10, 20, 30]);
+    expect(result.logs.map(entry => [entry.level, entry.message])).toEqual([
+      ['log', 'total 3'],
+      ['warn', '{"low":true}'],
+    ]);
+  });
+
+  it('should await async code', async () => {
+    const result = await sandbox.run('const value = await Promise.resolve(data); return value + 1;', { data: 1 });
+
+    expect(result.value).toBe(2);
+  });
+
+  it('should stop a synchronous infinite loop at the time limit', async () => {
+    const result = await sandbox.run('while (true) {}', {}, { timeoutMs: 200 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('timeout');
+    expect(result.durationMs).toBeLessThan(2000);
+  });
+
+  it('should stop an infinite loop that starts after an await', async () => {
+    const result = await sandbox.run('await null; while (true) {}', {}, { timeoutMs: 200 });
+
+    expect(result.error?.type).toBe('timeout');
+  });
+
+  it('should enforce the memory limit', async () => {
+    const result = await sandbox.run(
+      'const hoard = []; while (true) hoard.push(new Array(100000).fill(Math.random()));',
+      {},
+      { memoryLimitMb: 16, timeoutMs: 10000 }
+    );
+
+    expect(result.error?.type).toBe('memory');
+  });
+
+  it('should not expose host globals or network access by default', async () => {
+    const result = await sandbox.run(
+      'return [typeof process, typeof require, typeof fetch, typeof setTimeout, typeof Math.max];',
+      {}
+    );
+
+    expect(result.value).toEqual(['undefined', 'undefined', 'undefined', 'undefined', 'function']);
+  });
+
+  it('should block code generation from strings', async () => {
+    const result = await sandbox.run('return console.log.constructor("return process")();', {});
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('EvalError');
+  });
+
+  it('should expose fetch only when the node asks and the policy grants network access', async () => {
+    const denied = await sandbox.run('return typeof fetch;', {}, { permissions: { network: true } });
+    setSandboxPolicy({ allowNetwork: true });
+    const granted = await sandbox.run('return typeof fetch;', {}, { permissions: { network: true } });
+
+    expect(denied.value).toBe('undefined');
+    expect(granted.value).toBe('function');
+  });
+
+  it('should not reach the filesystem without a policy root', async () => {
+    setSandboxPolicy({ allowFs: true });
+
+    const result = await sandbox.run('return typeof fs;', {}, { permissions: { fs: true, fsRoot: '/' } });
+
+    expect(result.value).toBe('undefined');
+  });
+
+  it('should not load modules with import()', async () => {
+    const result = await sandbox.run('const fs = await import("node:fs"); return typeof fs.readFileSync;', {});
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should report structured runtime errors with the user code line', async () => {
+    const result = await sandbox.run('const a = 1;\nreturn data.missing.field;', { data: {} });
+
+    expect(result.error).toMatchObject({ type: 'runtime', name: 'TypeError', line: 2 });
+    expect(result.error?.stack).not.toContain('worker eval');
+  });
+
+  it('should report syntax errors', async () => {
+    const result = await sandbox.run('return (', {});
+
+    expect(result.error).toMatchObject({ type: 'syntax', name: 'SyntaxError' });
+  });
+
+  it('should reject input that cannot be serialised', async () => {
+    const circular: any = {};
+    circular.self = circular;
+
+    const result = await sandbox.run('return data;', { data: circular });
+
+    expect(result.error?.type).toBe('serialization');
+  });
+});
+
+describe('applySandboxPolicy', () => {
+  it('should narrow node requests to the policy and cap the memory limit', () => {
+    const policy = { ...DEFAULT_SANDBOX_POLICY, allowFs: true, fsRoot: '/srv/workflows', maxMemoryLimitMb: 128 };
+
+    expect(applySandboxPolicy({ memoryLimitMb: 1e6, permissions: { network: true, fs: true, fsRoot: '/' } }, policy)).toEqual({
+      permissions: { network: false, fs: true, fsRoot: '/srv/workflows' },
+      memoryLimitMb: 128,
+    });
+    expect(applySandboxPolicy({ memoryLimitMb: 1 }, policy).memoryLimitMb).toBe(8);
+  });
+});
+
+describe('findDynamicImport', () => {
+  it('should find import() calls but not property names', () => {
+    expect(findDynamicImport('const m = await import("https://example.com/x.js");')).toBe(16);
+    expect(findDynamicImport('await import /* hidden */ ("x")')).toBe(6);
+    expect(findDynamicImport('return data.import(1) + important(2);')).toBe(-1);
+  });
+});
+
+describe('createCodeSandbox', () => {
+  it('should use worker threads outside the browser', () => {
+    expect(createCodeSandbox()).toBeInstanceOf(NodeWorkerSandbox);
+  });
+});
@@ -0,0 +1,627 @@
+/**
+ * Code Sandbox
+ * Isolated execution of user-authored JavaScript for workflow code nodes.
+ *
+ * Code never runs in the host realm. In the browser it runs in a disposable
+ * Web Worker; under Node it runs in a worker thread with V8 heap limits. Either
+ * way the worker is terminated when the time limit expires, so synchronous
+ * infinite loops cannot hang the workflow. Network and filesystem access are
+ * only exposed when both the node asks for them and the sandbox policy, set by
+ * the host rather than the node author, grants them.
+ */
+
+export type SandboxErrorType =
+  | 'syntax'
+  | 'runtime'
+  | 'timeout'
+  | 'memory'
+  | 'serialization'
+  | 'unavailable';
+
+export interface SandboxError {
+  type: SandboxErrorType;
+  name: string;
+  message: string;
+  stack?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface SandboxLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  timestamp: string;
+}
+
+export interface SandboxPermissions {
+  // Exposes fetch()
+  network?: boolean;
+  // Exposes fs.readFile / fs.writeFile / fs.readdir below fsRoot (Node only)
+  fs?: boolean;
+  fsRoot?: string;
+}
+
+/**
+ * Capabilities the host grants to code nodes. Node configuration can only ask
+ * for a subset; filesystem access also needs an explicit root.
+ */
+export interface SandboxPolicy {
+  allowNetwork: boolean;
+  allowFs: boolean;
+  fsRoot?: string;
+  maxMemoryLimitMb: number;
+}
+
+export interface SandboxOptions {
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  permissions?: SandboxPermissions;
+}
+
+export interface SandboxInput {
+  data?: any;
+  variables?: Record<string, any>;
+}
+
+export interface SandboxResult {
+  success: boolean;
+  value?: any;
+  error?: SandboxError;
+  logs: SandboxLogEntry[];
+  durationMs: number;
+}
+
+export interface CodeSandbox {
+  run(code: string, input: SandboxInput, options?: SandboxOptions): Promise<SandboxResult>;
+}
+
+export const DEFAULT_SANDBOX_OPTIONS: Required<Omit<SandboxOptions, 'permissions'>> = {
+  timeoutMs: 5000,
+  memoryLimitMb: 64,
+};
+
+export const DEFAULT_SANDBOX_POLICY: SandboxPolicy = {
+  allowNetwork: false,
+  allowFs: false,
+  maxMemoryLimitMb: 256,
+};
+
+const MIN_MEMORY_LIMIT_MB = 8;
+const MAX_LOG_ENTRIES = 200;
+const MAX_LOG_MESSAGE_LENGTH = 2000;
+const MAX_RESULT_BYTES = 1024 * 1024;
+const SANDBOX_FILENAME = 'code-node.js';
+
+/**
+ * Console capture, defined inside the sandbox so no host function is reachable
+ * from user code through it
+ */
+const CONSOLE_SOURCE = `
+function createSandboxConsole(logs, maxEntries, maxLength) {
+  var format = function (value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+  var write = function (level) {
+    return function () {
+      if (logs.length >= maxEntries) return;
+      var message = Array.prototype.map.call(arguments, format).join(' ');
+      logs.push({ level: level, message: message.slice(0, maxLength), timestamp: new Date().toISOString() });
+    };
+  };
+  return { log: write('log'), info: write('info'), warn: write('warn'), error: write('error'), debug: write('debug') };
+}
+`;
+
+/**
+ * Error serialisation, shared by both worker sources
+ */
+const SERIALIZE_ERROR_SOURCE = `
+function serializeError(error, type) {
+  if (!error || typeof error !== 'object') {
+    return { type: type || 'runtime', name: 'Error', message: String(error) };
+  }
+  var name = error.name || 'Error';
+  // Drop host frames so only the message and user code locations are reported
+  var stack = typeof error.stack === 'string'
+    ? error.stack.split('\\n').filter(function (line) {
+        return line.indexOf('    at ') !== 0 || line.indexOf('${SANDBOX_FILENAME}') !== -1;
+      }).join('\\n')
+    : undefined;
+  var location = stack && stack.match(/code-node\\.js:(\\d+):(\\d+)/);
+  return {
+    type: type || (name === 'SyntaxError' ? 'syntax' : 'runtime'),
+    name: name,
+    message: String(error.message || name),
+    stack: stack,
+    line: location ? Number(location[1]) : undefined,
+    column: location ? Number(location[2]) : undefined
+  };
+}
+`;
+
+/**
+ * Worker thread entry point for Node. User code is compiled into a vm context
+ * with string code generation disabled; host functions handed to the context
+ * have their Function constructor path removed.
+ */
+const NODE_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const fsPromises = require('fs').promises;
+const path = require('path');
+${CONSOLE_SOURCE}
+${SERIALIZE_ERROR_SOURCE}
+
+const { code, inputJson, timeoutMs, permissions, limits } = workerData;
+
+function lockHostRealm() {
+  const prototypes = [
+    Function.prototype,
+    Object.getPrototypeOf(async function () {}),
+    Object.getPrototypeOf(function* () {}),
+    Object.getPrototypeOf(async function* () {})
+  ];
+  prototypes.forEach(function (proto) {
+    Object.defineProperty(proto, 'constructor', { value: undefined, writable: false, configurable: false });
+  });
+}
+
+function resolveSandboxPath(target) {
+  if (!permissions.fsRoot) {
+    throw new Error('Filesystem access needs an explicit sandbox root');
+  }
+  const root = path.resolve(permissions.fsRoot);
+  const resolved = path.resolve(root, String(target));
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error('Path is outside the sandbox root: ' + target);
+  }
+  return resolved;
+}
+
+function setupSandbox(host, inputJson, limits) {
+  const logs = [];
+  const input = JSON.parse(inputJson);
+  const sandboxConsole = createSandboxConsole(logs, limits.maxLogEntries, limits.maxLogLength);
+  const api = {};
+  if (host.fetch) {
+    api.fetch = async function (url, init) {
+      const response = JSON.parse(await host.fetch(url, init));
+      return {
+        ok: response.ok,
+        status: response.status,
+        headers: response.headers,
+        text: async function () { return response.body; },
+        json: async function () { return JSON.parse(response.body); }
+      };
+    };
+  }
+  if (host.readFile) {
+    api.fs = {
+      readFile: async function (target) { return String(await host.readFile(String(target))); },
+      writeFile: async function (target, content) { await host.writeFile(String(target), String(content)); },
+      readdir: async function (target) { return JSON.parse(await host.readdir(target === undefined ? '.' : String(target))); }
+    };
+  }
+  return { logs: logs, input: input, console: sandboxConsole, api: api };
+}
+
+async function run() {
+  const context = vm.createContext(Object.create(null), {
+    name: 'workflow-code-node',
+    codeGeneration: { strings: false, wasm: false }
+  });
+
+  const host = {};
+  if (permissions.network) {
+    host.fetch = async function (url, init) {
+      const response = await fetch(String(url), init ? JSON.parse(JSON.stringify(init)) : undefined);
+      const headers = {};
+      response.headers.forEach(function (value, key) { headers[key] = value; });
+      return JSON.stringify({ ok: response.ok, status: response.status, headers: headers, body: await response.text() });
+    };
+  }
+  if (permissions.fs && permissions.fsRoot) {
+    host.readFile = async function (target) { return fsPromises.readFile(resolveSandboxPath(target), 'utf8'); };
+    host.writeFile = async function (target, content) { await fsPromises.writeFile(resolveSandboxPath(target), String(content), 'utf8'); };
+    host.readdir = async function (target) { return JSON.stringify(await fsPromises.readdir(resolveSandboxPath(target || '.'))); };
+  }
+
+  // Builds the whitelisted globals inside the context from plain data and the host bridge
+  const setupSource = createSandboxConsole.toString() + '\\n(' + setupSandbox.toString() + ')';
+  const setup = vm.runInContext(setupSource, context)(host, inputJson, limits);
+
+  Object.keys(setup.api).forEach(function (name) {
+    context[name] = setup.api[name];
+  });
+  context.console = setup.console;
+
+  lockHostRealm();
+
+  let script;
+  try {
+    script = new vm.Script(
+      '(async function (data, variables, console) {"use strict";\\n' + code + '\\n})',
+      { filename: '${SANDBOX_FILENAME}', lineOffset: -1 }
+    );
+  } catch (error) {
+    return { error: serializeError(error, 'syntax'), logs: setup.logs };
+  }
+
+  try {
+    context.__codeNode = { fn: script.runInContext(context), input: setup.input, console: setup.console };
+    // The synchronous part runs under the vm timeout; the worker is terminated for anything after
+    const pending = vm.runInContext(
+      '(function (job) { delete globalThis.__codeNode; return job.fn(job.input.data, job.input.variables, job.console); })(globalThis.__codeNode)',
+      context,
+      { timeout: timeoutMs }
+    );
+    const value = await pending;
+    const valueJson = JSON.stringify(value === undefined ? null : value);
+    if (valueJson.length > limits.maxResultBytes) {
+      return { error: { type: 'serialization', name: 'RangeError', message: 'Result exceeds ' + limits.maxResultBytes + ' bytes' }, logs: setup.logs };
+    }
+    return { valueJson: valueJson, logs: setup.logs };
+  } catch (error) {
+    const type = error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? 'timeout' : undefined;
+    return { error: serializeError(error, type), logs: setup.logs };
+  }
+}
+
+run().then(
+  function (message) { parentPort.postMessage(JSON.parse(JSON.stringify(message))); },
+  function (error) { parentPort.postMessage({ error: serializeError(error), logs: [] }); }
+);
+`;
+
+/**
+ * Dedicated Web Worker source for the browser. Network, storage and worker
+ * globals are removed from the whole prototype chain before user code runs.
+ */
+const BROWSER_WORKER_SOURCE = `
+${CONSOLE_SOURCE}
+${SERIALIZE_ERROR_SOURCE}
+
+var send = self.postMessage.bind(self);
+var BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts',
+  'indexedDB', 'caches', 'Worker', 'SharedWorker', 'BroadcastChannel', 'postMessage', 'close'
+];
+
+// Without eval, Function constructors and string timers, import() can only appear
+// in the submitted source, which is checked before the worker starts
+function blockCodeGeneration() {
+  [
+    Function.prototype,
+    Object.getPrototypeOf(async function () {}),
+    Object.getPrototypeOf(function* () {}),
+    Object.getPrototypeOf(async function* () {})
+  ].forEach(function (proto) {
+    Object.defineProperty(proto, 'constructor', { value: undefined, writable: false, configurable: false });
+  });
+  blockGlobal('eval');
+  blockGlobal('Function');
+  ['setTimeout', 'setInterval'].forEach(function (name) {
+    var timer = self[name].bind(self);
+    var guarded = function (callback, delay) {
+      if (typeof callback !== 'function') throw new TypeError(name + ' needs a function');
+      return timer(callback, delay);
+    };
+    try {
+      Object.defineProperty(self, name, { value: guarded, writable: false, configurable: false });
+    } catch (error) {
+      self[name] = guarded;
+    }
+  });
+}
+
+function blockGlobal(name) {
+  var target = self;
+  while (target) {
+    if (Object.prototype.hasOwnProperty.call(target, name)) {
+      try {
+        Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false });
+      } catch (error) {
+        try { delete target[name]; } catch (ignored) {}
+      }
+    }
+    target = Object.getPrototypeOf(target);
+  }
+}
+
+// new Function adds two header lines and the async wrapper two more
+var USER_CODE_LINE_OFFSET = 4;
+
+function reportError(error, logs, type) {
+  var details = serializeError(error, type);
+  if (details.line) details.line -= USER_CODE_LINE_OFFSET;
+  send({ error: details, logs: logs });
+}
+
+self.onmessage = function (event) {
+  self.onmessage = null;
+  var request = event.data;
+  var logs = [];
+  var sandboxConsole = createSandboxConsole(logs, request.limits.maxLogEntries, request.limits.maxLogLength);
+
+  var fn;
+  try {
+    fn = new Function('data', 'variables', 'console', '"use strict";\\nreturn (async function () {\\n' + request.code + '\\n})();\\n//# sourceURL=${SANDBOX_FILENAME}');
+  } catch (error) {
+    reportError(error, logs, 'syntax');
+    return;
+  }
+
+  BLOCKED_GLOBALS.forEach(function (name) {
+    if (name === 'fetch' && request.permissions.network) return;
+    blockGlobal(name);
+  });
+  blockCodeGeneration();
+  if (request.permissions.fs) {
+    sandboxConsole.warn('Filesystem access is not available in the browser sandbox');
+  }
+
+  var input = JSON.parse(request.inputJson);
+  Promise.resolve()
+    .then(function () { return fn(input.data, input.variables, sandboxConsole); })
+    .then(function (value) {
+      var valueJson = JSON.stringify(value === undefined ? null : value);
+      if (valueJson.length > request.limits.maxResultBytes) {
+        send({ error: { type: 'serialization', name: 'RangeError', message: 'Result exceeds ' + request.limits.maxResultBytes + ' bytes' }, logs: logs });
+        return;
+      }
+      send({ valueJson: valueJson, logs: logs });
+    }, function (error) {
+      reportError(error, logs);
+    });
+};
+`;
+
+interface WorkerMessage {
+  valueJson?: string;
+  error?: SandboxError;
+  logs: SandboxLogEntry[];
+}
+
+const limits = {
+  maxLogEntries: MAX_LOG_ENTRIES,
+  maxLogLength: MAX_LOG_MESSAGE_LENGTH,
+  maxResultBytes: MAX_RESULT_BYTES,
+};
+
+function serializeInput(input: SandboxInput): { inputJson?: string; error?: SandboxError } {
+  try {
+    return { inputJson: JSON.stringify({ data: input.data ?? null, variables: input.variables || {} }) };
+  } catch (error) {
+    return {
+      error: {
+        type: 'serialization',
+        name: error instanceof Error ? error.name : 'Error',
+        message: `Input is not JSON serialisable: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    };
+  }
+}
+
+function timeoutError(timeoutMs: number): SandboxError {
+  return { type: 'timeout', name: 'TimeoutError', message: `Code execution timed out after ${timeoutMs}ms` };
+}
+
+function toResult(message: WorkerMessage, startedAt: number): SandboxResult {
+  const durationMs = Date.now() - startedAt;
+
+  if (message.error) {
+    return { success: false, error: message.error, logs: message.logs || [], durationMs };
+  }
+
+  return {
+    success: true,
+    value: JSON.parse(message.valueJson ?? 'null'),
+    logs: message.logs || [],
+    durationMs,
+  };
+}
+
+let sandboxPolicy: SandboxPolicy = DEFAULT_SANDBOX_POLICY;
+
+/**
+ * Set the capabilities code nodes may use. Called by the host (server start-up
+ * or workspace settings), never from node configuration.
+ */
+export function setSandboxPolicy(policy: Partial<SandboxPolicy>): void {
+  sandboxPolicy = { ...DEFAULT_SANDBOX_POLICY, ...policy };
+}
+
+export function getSandboxPolicy(): SandboxPolicy {
+  return sandboxPolicy;
+}
+
+/**
+ * Narrow the requested permissions and memory limit to what the policy grants
+ */
+export function applySandboxPolicy(
+  options: SandboxOptions,
+  policy: SandboxPolicy = sandboxPolicy
+): { permissions: SandboxPermissions; memoryLimitMb: number } {
+  const requested = options.permissions || {};
+  const memoryLimitMb = Number.isFinite(options.memoryLimitMb)
+    ? options.memoryLimitMb!
+    : DEFAULT_SANDBOX_OPTIONS.memoryLimitMb;
+
+  return {
+    permissions: {
+      network: Boolean(requested.network && policy.allowNetwork),
+      fs: Boolean(requested.fs && policy.allowFs && policy.fsRoot),
+      fsRoot: policy.fsRoot,
+    },
+    memoryLimitMb: Math.min(Math.max(memoryLimitMb, MIN_MEMORY_LIMIT_MB), policy.maxMemoryLimitMb),
+  };
+}
+
+/**
+ * Position of a dynamic import() in the code, or -1. Keywords cannot contain
+ * escapes, so a lexical check suffices once code generation is blocked; a match
+ * inside a string or comment is rejected too.
+ */
+export function findDynamicImport(code: string): number {
+  const match = /(^|[^.\w$])import\s*(\(|\/[*/])/.exec(code);
+  return match ? match.index + match[1].length : -1;
+}
+
+/**
+ * Runs code in a Node worker thread. The V8 heap limit enforces the memory cap
+ * and worker termination enforces the time limit.
+ */
+export class NodeWorkerSandbox implements CodeSandbox {
+  async run(code: string, input: SandboxInput, options: SandboxOptions = {}): Promise<SandboxResult> {
+    const startedAt = Date.now();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_SANDBOX_OPTIONS.timeoutMs;
+    const { permissions, memoryLimitMb } = applySandboxPolicy(options);
+
+    const { inputJson, error } = serializeInput(input);
+    if (error) {
+      return { success: false, error, logs: [], durationMs: 0 };
+    }
+
+    const { Worker } = await import(/* @vite-ignore */ 'node:worker_threads');
+
+    return new Promise<SandboxResult>(resolve => {
+      let settled = false;
+      const worker = new Worker(NODE_WORKER_SOURCE, {
+        eval: true,
+        env: {},
+        workerData: {
+          code,
+          inputJson,
+          timeoutMs,
+          permissions,
+          limits,
+        },
+        resourceLimits: {
+          maxOldGenerationSizeMb: memoryLimitMb,
+          maxYoungGenerationSizeMb: Math.max(4, Math.min(16, Math.floor(memoryLimitMb / 4))),
+        },
+      });
+
+      const finish = (result: SandboxResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate();
+        resolve(result);
+      };
+
+      // Hard limit: covers async work the vm timeout cannot interrupt
+      const timer = setTimeout(() => {
+        finish({ success: false, error: timeoutError(timeoutMs), logs: [], durationMs: Date.now() - startedAt });
+      }, timeoutMs);
+
+      worker.on('message', (message: WorkerMessage) => finish(toResult(message, startedAt)));
+      worker.on('error', (workerError: Error & { code?: string }) => {
+        const outOfMemory = workerError.code === 'ERR_WORKER_OUT_OF_MEMORY';
+        finish({
+          success: false,
+          error: {
+            type: outOfMemory ? 'memory' : 'runtime',
+            name: workerError.name,
+            message: outOfMemory ? `Code exceeded the ${memoryLimitMb}MB memory limit` : workerError.message,
+          },
+          logs: [],
+          durationMs: Date.now() - startedAt,
+        });
+      });
+      worker.on('exit', exitCode => {
+        finish({
+          success: false,
+          error: { type: 'runtime', name: 'Error', message: `Sandbox exited unexpectedly with code ${exitCode}` },
+          logs: [],
+          durationMs: Date.now() - startedAt,
+        });
+      });
+    });
+  }
+}
+
+/**
+ * Runs code in a dedicated Web Worker. Browsers expose no per-worker heap
+ * limit, so the memory cap is only enforced through the result and log size
+ * limits here.
+ */
+export class BrowserWorkerSandbox implements CodeSandbox {
+  async run(code: string, input: SandboxInput, options: SandboxOptions = {}): Promise<SandboxResult> {
+    const startedAt = Date.now();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_SANDBOX_OPTIONS.timeoutMs;
+    const { permissions } = applySandboxPolicy(options);
+
+    // Workers can load modules from any origin with import()
+    if (findDynamicImport(code) !== -1) {
+      return {
+        success: false,
+        error: { type: 'syntax', name: 'SyntaxError', message: 'import() is not allowed in code nodes' },
+        logs: [],
+        durationMs: 0,
+      };
+    }
+
+    const { inputJson, error } = serializeInput(input);
+    if (error) {
+      return { success: false, error, logs: [], durationMs: 0 };
+    }
+
+    const url = URL.createObjectURL(new Blob([BROWSER_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+
+    return new Promise<SandboxResult>(resolve => {
+      let settled = false;
+
+      const finish = (result: SandboxResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate();
+        URL.revokeObjectURL(url);
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        finish({ success: false, error: timeoutError(timeoutMs), logs: [], durationMs: Date.now() - startedAt });
+      }, timeoutMs);
+
+      worker.onmessage = (event: MessageEvent<WorkerMessage>) => finish(toResult(event.data, startedAt));
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        finish({
+          success: false,
+          error: { type: 'runtime', name: 'Error', message: event.message || 'Sandbox worker failed' },
+          logs: [],
+          durationMs: Date.now() - startedAt,
+        });
+      };
+
+      worker.postMessage({ code, inputJson, permissions, limits });
+    });
+  }
+}
+
+/**
+ * Pick the sandbox for the current runtime
+ */
+export function createCodeSandbox(): CodeSandbox {
+  if (typeof window !== 'undefined' && typeof Worker !== 'undefined' && typeof Blob !== 'undefined') {
+    return new BrowserWorkerSandbox();
+  }
+
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    return new NodeWorkerSandbox();
+  }
+
+  return {
+    run: async () => ({
+      success: false,
+      error: { type: 'unavailable', name: 'Error', message: 'No isolated code runtime is available in this environment' },
+      logs: [],
+      durationMs: 0,
+    }),
+  };
+}
@@ -6,6 +6,7 @@
 import { enhancedWhatsAppService, type WhatsAppMessage } from './whatsapp-enhanced';
 import { slackService, type SlackMessage } from './slack-service';
 import { teamsService, type TeamsMessage } from './teams-service';
+import { getEnv } from './env';
 
 type ChannelType = 'whatsapp' | 'slack' | 'teams' | 'discord';
 
@@ -110,8 +111,8 @@ class CommunicationChannelsManager {
       type: 'whatsapp',
       enabled: enhancedWhatsAppService.isAvailable(),
       credentials: {
-        accessToken: import.meta.env.WHATSAPP_ACCESS_TOKEN || '',
-        phoneNumberId: import.meta.env.WHATSAPP_PHONE_NUMBER_ID || ''
+        accessToken: getEnv('WHATSAPP_ACCESS_TOKEN') || '',
+        phoneNumberId: getEnv('WHATSAPP_PHONE_NUMBER_ID') || ''
       },
       features: {
         multimedia: true,
@@ -134,8 +135,8 @@ class CommunicationChannelsManager {
       type: 'slack',
       enabled: slackService.isAvailable(),
       credentials: {
-        botToken: import.meta.env.VITE_SLACK_BOT_TOKEN || '',
-        appToken: import.meta.env.VITE_SLACK_APP_TOKEN || ''
+        botToken: getEnv('VITE_SLACK_BOT_TOKEN') || '',
+        appToken: getEnv('VITE_SLACK_APP_TOKEN') || ''
       },
       features: {
         multimedia: true,
@@ -158,8 +159,8 @@ class CommunicationChannelsManager {
       type: 'teams',
       enabled: teamsService.isAvailable(),
       credentials: {
-        botId: import.meta.env.VITE_TEAMS_BOT_ID || '',
-        clientId: import.meta.env.VITE_TEAMS_CLIENT_ID || ''
+        botId: getEnv('VITE_TEAMS_BOT_ID') || '',
+        clientId: getEnv('VITE_TEAMS_CLIENT_ID') || ''
       },
       features: {
         multimedia: true,
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNextCronTime,
+  getUpcomingCronTimes,
+  isValidTimeZone,
+  parseCronExpression,
+  validateCronExpression,
+} from './cron';
+
+const at = (iso: string) => new Date(iso);
+const next = (expression: string, after: string, timeZone?: string) =>
+  getNextCronTime(expression, at(after), timeZone)?.toISOString();
+
+describe('parseCronExpression', () => {
+  it('should expand lists, ranges and steps', () => {
+    const schedule = parseCronExpression('0,30 9-17/4 * * mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.daysOfMonthRestricted).toBe(false);
+  });
+
+  it('should treat 7 as Sunday and accept macros', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCronExpression('@hourly').minutes]).toEqual([0]);
+    expect([...parseCronExpression('0 0 1 jan,JUL *').months]).toEqual([1, 7]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(validateCronExpression('* * * *').error).toContain('5 fields');
+    expect(validateCronExpression('60 * * * *').error).toContain('out of range');
+    expect(validateCronExpression('*/0 * * * *').isValid).toBe(false);
+    expect(validateCronExpression('5-1 * * * *').isValid).toBe(false);
+    expect(validateCronExpression('*/15 * * * *').isValid).toBe(true);
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('should find the next matching minute after the given time', () => {
+    expect(next('*/15 * * * *', '2024-03-01T10:07:30Z')).toBe('2024-03-01T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2024-03-01T10:15:00Z')).toBe('2024-03-01T10:30:00.000Z');
+    expect(next('0 9 * * *', '2024-12-31T10:00:00Z')).toBe('2025-01-01T09:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2024-03-04 is a Monday, before the 15th
+    expect(next('0 0 15 * mon', '2024-03-01T00:00:00Z')).toBe('2024-03-04T00:00:00.000Z');
+    expect(next('0 0 15 * *', '2024-03-01T00:00:00Z')).toBe('2024-03-15T00:00:00.000Z');
+  });
+
+  it('should evaluate the expression in the given time zone', () => {
+    // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+    expect(next('0 9 * * *', '2024-01-10T00:00:00Z', 'America/New_York')).toBe('2024-01-10T14:00:00.000Z');
+    expect(next('0 9 * * *', '2024-07-10T00:00:00Z', 'America/New_York')).toBe('2024-07-10T13:00:00.000Z');
+  });
+
+  it('should skip wall-clock times lost to daylight saving', () => {
+    // Clocks in New York jump from 02:00 to 03:00 on 2024-03-10
+    expect(next('30 2 * * *', '2024-03-09T12:00:00Z', 'America/New_York')).toBe('2024-03-11T06:30:00.000Z');
+  });
+
+  it('should give up on expressions that never fire', () => {
+    expect(getNextCronTime('0 0 30 2 *', at('2024-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('should list upcoming times in order', () => {
+    expect(getUpcomingCronTimes('@daily', at('2024-03-01T12:00:00Z'), 2).map(date => date.toISOString())).toEqual([
+      '2024-03-02T00:00:00.000Z',
+      '2024-03-03T00:00:00.000Z',
+    ]);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('should accept IANA zones only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Cron Expressions
+ * Parses five-field cron expressions and computes run times in a time zone
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStartAt?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesStartAt: 1 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesStartAt: 0 }
+];
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (index >= 0) {
+    return index + (spec.namesStartAt || 0);
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value: ${value}`);
+  }
+
+  const number = parseInt(value, 10);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} value ${number} is out of range ${spec.min}-${spec.max}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid ${spec.name} step: ${stepText}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range: ${range}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports lists, ranges, steps, month and weekday names and the @hourly style macros.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = (expression || '').trim();
+  const source = MACROS[normalized.toLowerCase()] || normalized;
+  const fields = source.split(/\s+/).filter(Boolean);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index])
+  );
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2].startsWith('*'),
+    daysOfWeekRestricted: !fields[4].startsWith('*')
+  };
+}
+
+export function validateCronExpression(expression: string): { isValid: boolean; error?: string } {
+  try {
+    parseCronExpression(expression);
+    return { isValid: true };
+  } catch (error) {
+    return { isValid: false, error: error.message };
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time of an instant in a time zone, encoded as a UTC timestamp
+ * so calendar arithmetic can use the Date UTC methods
+ */
+function toWallTime(instant: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+}
+
+/**
+ * Instant at which a time zone shows the given wall-clock time, or null when
+ * that time does not exist there (skipped by a daylight saving change)
+ */
+function fromWallTime(wallTime: number, timeZone: string): number | null {
+  const firstGuess = wallTime - (toWallTime(wallTime, timeZone) - wallTime);
+  const instant = wallTime - (toWallTime(firstGuess, timeZone) - firstGuess);
+
+  return toWallTime(instant, timeZone) === wallTime ? instant : null;
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(wall.getUTCDay());
+
+  return schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted
+    ? dayOfMonth || dayOfWeek
+    : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Next time strictly after `after` that the expression fires in the given
+ * time zone. Returns null when the expression never fires.
+ */
+export function getNextCronTime(
+  expression: string | CronSchedule,
+  after: Date,
+  timeZone: string = 'UTC'
+): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const afterMs = after.getTime();
+
+  const wall = new Date(toWallTime(afterMs, timeZone) + MINUTE_MS);
+  const lastYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (wall.getUTCFullYear() <= lastYear) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+      continue;
+    }
+
+    const instant = fromWallTime(wall.getTime(), timeZone);
+    if (instant !== null && instant > afterMs) {
+      return new Date(instant);
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` run times after `after`
+ */
+export function getUpcomingCronTimes(
+  expression: string,
+  after: Date,
+  count: number,
+  timeZone: string = 'UTC'
+): Date[] {
+  const schedule = parseCronExpression(expression);
+  const times: Date[] = [];
+  let cursor: Date | null = after;
+
+  while (times.length < count && (cursor = getNextCronTime(schedule, cursor, timeZone))) {
+    times.push(cursor);
+  }
+
+  return times;
+}
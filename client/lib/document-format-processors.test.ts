@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  CSVProcessor,
+  EmailProcessor,
+  EPUBProcessor,
+  HTMLProcessor,
+  JSONProcessor,
+  MarkdownProcessor,
+  PPTXProcessor,
+  decodeHeaderValue,
+  htmlToMarkdown,
+  parseCsv,
+} from './document-format-processors';
+
+const zip = async (files: Record<string, string>) => {
+  const archive = new JSZip();
+  Object.entries(files).forEach(([path, content]) => archive.file(path, content));
+  return archive.generateAsync({ type: 'nodebuffer' });
+};
+
+const shape = (text: string[], placeholder?: string) =>
+  `<p:sp>${placeholder ? `<p:nvSpPr><p:nvPr><p:ph type="${placeholder}"/></p:nvPr></p:nvSpPr>` : ''}<p:txBody>${
+    text.map(line => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`).join('')
+  }</p:txBody></p:sp>`;
+
+describe('htmlToMarkdown', () => {
+  it('should keep headings, lists and tables and drop page chrome', () => {
+    const markdown = htmlToMarkdown(`
+      <html><body>
+        <nav><a href="/">Home</a></nav>
+        <h1>Billing</h1>
+        <p>Invoices are sent &amp; paid monthly.</p>
+        <h2>Plans</h2>
+        <ul><li>Basic</li><li>Pro</li></ul>
+        <table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>$20</td></tr></table>
+        <script>track()</script>
+      </body></html>
+    `);
+
+    expect(markdown).toBe([
+      '# Billing',
+      'Invoices are sent & paid monthly.',
+      '## Plans',
+      '- Basic\n- Pro',
+      '| Plan | Price |\n| --- | --- |\n| Pro | $20 |',
+    ].join('\n\n'));
+  });
+});
+
+describe('HTMLProcessor and MarkdownProcessor', () => {
+  it('should chunk HTML pages along their heading path', async () => {
+    const html = '<html lang="de"><head><title>Help Center</title></head><body><h1>Billing</h1><h2>Refunds</h2><p>Refunds take five days.</p></body></html>';
+
+    const result = await new HTMLProcessor().processor(Buffer.from(html), 'help.html');
+
+    expect(result.metadata).toMatchObject({ title: 'Help Center', language: 'de' });
+    expect(result.chunks[result.chunks.length - 1].metadata.headings).toEqual(['Billing', 'Refunds']);
+  });
+
+  it('should read markdown front matter and extract pipe tables', async () => {
+    const markdown = '---\ntitle: Limits\ntags: [api, quotas]\n---\n# Rate limits\n\n| Plan | Requests |\n| --- | --- |\n| Free | 60 |\n';
+
+    const result = await new MarkdownProcessor().processor(Buffer.from(markdown), 'limits.md');
+
+    expect(result.metadata).toMatchObject({ title: 'Limits', keywords: ['api', 'quotas'] });
+    expect(result.tables).toEqual([
+      { id: 'limits.md-table-0', headers: ['Plan', 'Requests'], rows: [['Free', '60']], caption: 'Rate limits' },
+    ]);
+    expect(result.text.startsWith('# Rate limits')).toBe(true);
+  });
+});
+
+describe('PPTXProcessor', () => {
+  it('should emit each slide with its title and speaker notes in presentation order', async () => {
+    const file = await zip({
+      'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/><Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>',
+      'ppt/slides/slide1.xml': `<p:sld>${shape(['Pricing'], 'title')}${shape(['Pro costs $20'])}</p:sld>`,
+      'ppt/slides/slide2.xml': `<p:sld>${shape(['Agenda'], 'title')}${shape(['Intro', 'Pricing'])}</p:sld>`,
+      'ppt/slides/_rels/slide1.xml.rels': '<Relationships><Relationship Id="rId1" Target="../notesSlides/notesSlide1.xml"/></Relationships>',
+      'ppt/notesSlides/notesSlide1.xml': `<p:notes>${shape([''], 'sldImg')}${shape(['Mention the annual discount'], 'body')}</p:notes>`,
+      'docProps/core.xml': '<cp:coreProperties><dc:title>Sales deck</dc:title><dc:creator>Dana</dc:creator></cp:coreProperties>',
+    });
+
+    const result = await new PPTXProcessor().processor(file, 'deck.pptx');
+
+    expect(result.metadata).toMatchObject({ title: 'Sales deck', author: 'Dana', pages: 2 });
+    expect(result.chunks.map(chunk => chunk.metadata.page)).toEqual([1, 2, 2]);
+    expect(result.chunks[0].content).toContain('- Intro');
+    expect(result.chunks[1].content).toContain('Pro costs $20');
+    expect(result.chunks[2].metadata.headings).toEqual(['Pricing', 'Speaker notes']);
+    expect(result.chunks[2].content).toContain('Mention the annual discount');
+  });
+});
+
+describe('EPUBProcessor', () => {
+  it('should read chapters in spine order', async () => {
+    const file = await zip({
+      'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      'OEBPS/content.opf': `<package><metadata><dc:title>Field Guide</dc:title><dc:language>en</dc:language></metadata>
+        <manifest><item id="c1" href="text/one.xhtml"/><item id="c2" href="text/two.xhtml"/></manifest>
+        <spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>`,
+      'OEBPS/text/one.xhtml': '<html><body><h1>Setup</h1><p>Plug it in.</p></body></html>',
+      'OEBPS/text/two.xhtml': '<html><body><h1>Preface</h1><p>Read me first.</p></body></html>',
+    });
+
+    const result = await new EPUBProcessor().processor(file, 'guide.epub');
+
+    expect(result.metadata).toMatchObject({ title: 'Field Guide', language: 'en', pages: 2 });
+    expect(result.chunks.map(chunk => chunk.metadata.headings?.[0])).toEqual(['Preface', 'Setup']);
+  });
+});
+
+describe('CSVProcessor and JSONProcessor', () => {
+  it('should parse quoted fields and detect the delimiter', () => {
+    expect(parseCsv('name;note\n"Doe; J.";"said ""hi"""\n')).toEqual([['name', 'note'], ['Doe; J.', 'said "hi"']]);
+  });
+
+  it('should put each FAQ pair in its own chunk', async () => {
+    const csv = 'Question,Answer,Category\nHow do I reset my password?,Use the reset link.,Account\nCan I pay yearly?,"Yes, with a discount.",Billing\n';
+
+    const result = await new CSVProcessor().processor(Buffer.from(csv), 'faq.csv');
+
+    expect(result.chunks).toHaveLength(2);
+    expect(result.chunks[1].content).toContain('Yes, with a discount.');
+    expect(result.chunks[1].content).not.toContain('reset link');
+    expect(result.chunks[1].metadata.headings).toEqual(['Billing', 'Can I pay yearly?']);
+    expect(result.tables?.[0].headers).toEqual(['Question', 'Answer', 'Category']);
+  });
+
+  it('should chunk other CSVs by rows with the header repeated', async () => {
+    const csv = 'sku,stock\nA-1,4\nB-2,0\n';
+
+    const result = await new CSVProcessor().processor(Buffer.from(csv), 'stock.csv');
+
+    expect(result.tables?.[0]).toMatchObject({ headers: ['sku', 'stock'], rows: [['A-1', '4'], ['B-2', '0']] });
+    expect(result.chunks.every(chunk => chunk.metadata.type === 'table')).toBe(true);
+    expect(result.chunks[0].content).toContain('sku | stock');
+  });
+
+  it('should treat nested FAQ lists in JSON like FAQ CSVs', async () => {
+    const json = JSON.stringify({ faqs: [{ q: 'Is there an API?', a: 'Yes.' }, { q: 'Is it free?', a: 'Up to 60 requests.' }] });
+
+    const result = await new JSONProcessor().processor(Buffer.from(json), 'faq.json');
+
+    expect(result.chunks.map(chunk => chunk.metadata.headings)).toEqual([['Is there an API?'], ['Is it free?']]);
+  });
+
+  it('should flatten other JSON documents under their top-level keys', async () => {
+    const json = JSON.stringify({ shipping: { regions: ['EU', 'US'], days: 3 }, returns: { days: 30 } });
+
+    const result = await new JSONProcessor().processor(Buffer.from(json), 'policy.json');
+
+    expect(result.text).toBe('# shipping\n\nregions[0]: EU\nregions[1]: US\ndays: 3\n\n# returns\n\ndays: 30');
+  });
+});
+
+describe('EmailProcessor', () => {
+  const mbox = [
+    'From alice@example.com Mon Mar  4 10:00:00 2024',
+    'Message-ID: <1@example.com>',
+    'From: Alice <alice@example.com>',
+    'To: support@example.com',
+    'Subject: =?UTF-8?B?TG9naW4gZmFpbHM=?=',
+    'Date: Mon, 4 Mar 2024 10:00:00 +0000',
+    '',
+    'I cannot log in.',
+    '',
+    'From support@example.com Mon Mar  4 11:00:00 2024',
+    'Message-ID: <2@example.com>',
+    'In-Reply-To: <1@example.com>',
+    'References: <1@example.com>',
+    'From: Support <support@example.com>',
+    'To: alice@example.com',
+    'Subject: Re: Login fails',
+    'Date: Mon, 4 Mar 2024 11:00:00 +0000',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Please clear your cookies =E2=80=93 that fixes it.',
+    '',
+    'On Mon, 4 Mar 2024 Alice wrote:',
+    '> I cannot log in.',
+    '',
+  ].join('\n');
+
+  it('should decode encoded header words', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?Caf=C3=A9_hours?=')).toBe('Café hours');
+  });
+
+  it('should emit one chunk per message under its thread subject', async () => {
+    const result = await new EmailProcessor().processor(Buffer.from(mbox), 'support.mbox');
+
+    expect(result.chunks).toHaveLength(2);
+    expect(result.chunks[1].metadata.headings).toEqual(['Login fails', 'Support <support@example.com> (Mon, 4 Mar 2024 11:00:00 +0000)']);
+    expect(result.chunks[1].content).toContain('Please clear your cookies – that fixes it.');
+    expect(result.chunks[1].content).not.toContain('> I cannot log in.');
+    expect(result.tables?.[0].rows.map(row => row[1])).toEqual(['<1@example.com>', '<1@example.com>']);
+    expect(result.metadata.title).toBe('2 messages in 1 threads');
+  });
+});
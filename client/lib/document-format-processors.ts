@@ -0,0 +1,983 @@
+import { chunkContent, getSegmentOffsets, type ChunkingStrategy, type ChunkSegment, type ChunkSource } from './chunking-engine';
+import type {
+  ContentChunk,
+  ExtractedTable,
+  FileMetadata,
+  FileProcessor,
+  ProcessedContent,
+  ProcessorOptions,
+} from './file-processing-service';
+
+/**
+ * Processors for structured formats: web pages, markdown, slide decks, e-books,
+ * support mail and FAQ exports.
+ *
+ * Each one turns its format into markdown segments so the heading path survives
+ * chunking, and returns tabular data as ExtractedTable. One segment is emitted
+ * per unit that must not be mixed with its neighbours (a slide, a chapter, an
+ * email, a Q/A pair), since chunks never cross segments.
+ */
+
+export interface CsvOptions {
+  delimiter?: string;
+}
+
+export interface FaqPair {
+  question: string;
+  answer: string;
+  category?: string;
+}
+
+export interface EmailMessage {
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+  threadId: string;
+  subject: string;
+  from: string;
+  to: string;
+  cc?: string;
+  date?: string;
+  body: string;
+}
+
+const QUESTION_KEYS = ['question', 'q', 'questions', 'query', 'title', 'frage'];
+const ANSWER_KEYS = ['answer', 'a', 'answers', 'response', 'reply', 'body', 'antwort'];
+const CATEGORY_KEYS = ['category', 'topic', 'section', 'group', 'tags'];
+
+// Elements whose content is never part of the document's text
+const HTML_NOISE = /<(script|style|noscript|template|svg|nav|footer|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+async function readText(file: File | Buffer): Promise<string> {
+  return file instanceof File ? await file.text() : file.toString('utf-8');
+}
+
+function fileSize(file: File | Buffer): number {
+  return file instanceof File ? file.size : file.length;
+}
+
+async function loadZip(file: File | Buffer) {
+  const JSZip = (await import('jszip')).default;
+  return JSZip.loadAsync(file instanceof File ? await file.arrayBuffer() : file);
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&(#39|apos);/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function findKey(keys: string[], candidates: string[]): string | undefined {
+  return keys.find(key => candidates.includes(normalizeKey(key)));
+}
+
+// The question is the heading, so every chunk of a long answer carries it
+function faqSegment(pair: FaqPair): ChunkSegment {
+  return { text: `# ${pair.question}\n\n${pair.answer}` };
+}
+
+/**
+ * Put a parent heading (an FAQ category, an email thread) above the heading
+ * path of every chunk built from a segment. Writing it into the segment as a
+ * second heading would give the parent heading a chunk of its own.
+ */
+function prependHeadings(chunks: ContentChunk[], segments: ChunkSegment[], parents: Array<string | undefined>): void {
+  const offsets = getSegmentOffsets(segments);
+
+  chunks.forEach(chunk => {
+    const index = offsets.findIndex((offset, i) => chunk.startIndex >= offset && chunk.startIndex < offsets[i + 1]);
+    const parent = parents[index];
+    if (parent) {
+      chunk.metadata.headings = [parent, ...(chunk.metadata.headings || [])];
+    }
+  });
+}
+
+function chunkFaq(fileName: string, pairs: FaqPair[], options: ProcessorOptions): ContentChunk[] {
+  const segments = pairs.map(faqSegment);
+  const chunks = chunkSegments({ fileName, segments }, options, 'markdown');
+  prependHeadings(chunks, segments, pairs.map(pair => pair.category));
+  return chunks;
+}
+
+function chunkSegments(
+  source: ChunkSource,
+  options: ProcessorOptions,
+  fallback: ChunkingStrategy
+) {
+  const { ocr: _ocr, ...chunking } = options;
+  return chunkContent(source, { ...chunking, strategy: chunking.strategy || fallback });
+}
+
+// ---------------------------------------------------------------------------
+// HTML and markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert HTML to markdown: headings, lists, code blocks and tables keep their
+ * structure, everything else becomes plain paragraphs
+ */
+export function htmlToMarkdown(html: string): string {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+
+  return decodeEntities(
+    body
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(HTML_NOISE, '')
+      .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, table) => `\n\n${htmlTableToMarkdown(table)}\n\n`)
+      .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code) => `\n\n\`\`\`\n${code.replace(/<[^>]+>/g, '').trim()}\n\`\`\`\n\n`)
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${stripTags(text)}\n\n`)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|section|article|ul|ol|blockquote|header|main)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => (line.startsWith('|') || line.startsWith('```') ? line : line.replace(/[ \t]+/g, ' ').trim()))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function htmlTableToMarkdown(table: string): string {
+  const rows = [...table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map(([, row]) =>
+    [...row.matchAll(/<t([dh])\b[^>]*>([\s\S]*?)<\/t\1>/gi)].map(([, , cell]) => stripTags(cell).replace(/\|/g, '\\|'))
+  ).filter(cells => cells.length > 0);
+
+  if (rows.length === 0) return '';
+
+  const toRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [toRow(rows[0]), toRow(rows[0].map(() => '---')), ...rows.slice(1).map(toRow)].join('\n');
+}
+
+/**
+ * Pipe tables in markdown, with the first row as header
+ */
+export function extractMarkdownTables(markdown: string, idPrefix: string): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  let block: string[] = [];
+  let caption: string | undefined;
+
+  const flush = () => {
+    const rows = block
+      .filter(line => !/^\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?$/.test(line.trim()))
+      .map(line => line.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|')));
+    if (rows.length > 0) {
+      tables.push({ id: `${idPrefix}-table-${tables.length}`, headers: rows[0], rows: rows.slice(1), caption });
+    }
+    block = [];
+  };
+
+  markdown.split('\n').forEach(line => {
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      block.push(line);
+      return;
+    }
+    if (block.length > 0) flush();
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) caption = heading[1].trim();
+  });
+  if (block.length > 0) flush();
+
+  return tables;
+}
+
+function parseFrontMatter(markdown: string): { attributes: Record<string, string>; content: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { attributes: {}, content: markdown };
+
+  const attributes: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const entry = line.match(/^([\w-]+):\s*(.*)$/);
+    if (entry) attributes[entry[1].toLowerCase()] = entry[2].replace(/^["']|["']$/g, '').trim();
+  });
+
+  return { attributes, content: markdown.slice(match[0].length) };
+}
+
+/**
+ * Exported help-center pages and other HTML documents
+ */
+export class HTMLProcessor implements FileProcessor {
+  type = 'html';
+  extensions = ['.html', '.htm', '.xhtml'];
+  mimeTypes = ['text/html', 'application/xhtml+xml'];
+  icon = '🌐';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const html = await readText(file);
+      const markdown = htmlToMarkdown(html);
+      const tables = extractMarkdownTables(markdown, fileName);
+
+      const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+      const firstHeading = markdown.match(/^#\s+(.+)$/m)?.[1];
+
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: 'text/html',
+        title: title ? stripTags(title) : firstHeading,
+        language: html.match(/<html\b[^>]*\blang=["']([^"']+)["']/i)?.[1],
+        author: html.match(/<meta\s+name=["']author["']\s+content=["']([^"']*)["']/i)?.[1],
+      };
+
+      return {
+        text: markdown,
+        chunks: chunkSegments({ fileName, segments: [{ text: markdown }], tables }, options, this.defaultChunkingStrategy),
+        metadata,
+        tables,
+      };
+    } catch (error) {
+      throw new Error(`HTML processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * Markdown files, with optional YAML front matter
+ */
+export class MarkdownProcessor implements FileProcessor {
+  type = 'markdown';
+  extensions = ['.md', '.markdown', '.mdx'];
+  mimeTypes = ['text/markdown', 'text/x-markdown'];
+  icon = '📑';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const { attributes, content } = parseFrontMatter(await readText(file));
+      const tables = extractMarkdownTables(content, fileName);
+      const tags = attributes.tags || attributes.keywords;
+
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: 'text/markdown',
+        title: attributes.title || content.match(/^#\s+(.+)$/m)?.[1]?.trim(),
+        author: attributes.author,
+        createdAt: attributes.date,
+        language: attributes.lang || attributes.language,
+        keywords: tags ? tags.replace(/^\[|\]$/g, '').split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      };
+
+      return {
+        text: content,
+        chunks: chunkSegments({ fileName, segments: [{ text: content }], tables }, options, this.defaultChunkingStrategy),
+        metadata,
+        tables,
+      };
+    } catch (error) {
+      throw new Error(`Markdown processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Slide decks and e-books
+// ---------------------------------------------------------------------------
+
+function xmlText(xml: string): string {
+  return decodeEntities([...xml.matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)].map(([, text]) => text).join(''));
+}
+
+function xmlParagraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)].map(([, paragraph]) => xmlText(paragraph).trim()).filter(Boolean);
+}
+
+function shapes(xml: string): Array<{ placeholder?: string; paragraphs: string[] }> {
+  return [...xml.matchAll(/<p:sp>([\s\S]*?)<\/p:sp>/g)].map(([, shape]) => ({
+    placeholder: shape.match(/<p:ph\b[^>]*\btype="(\w+)"/)?.[1],
+    paragraphs: xmlParagraphs(shape),
+  }));
+}
+
+function resolvePath(base: string, target: string): string {
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function relationships(xml: string | undefined): Map<string, string> {
+  return new Map([...(xml || '').matchAll(/<Relationship\b([^>]*)\/?>/g)].map(([, attrs]) => [
+    attrs.match(/\bId="([^"]+)"/)?.[1] || '',
+    attrs.match(/\bTarget="([^"]+)"/)?.[1] || '',
+  ]));
+}
+
+/**
+ * PowerPoint decks: one segment per slide with its title, body text, tables
+ * and speaker notes. The slide number is recorded as the chunk's page.
+ */
+export class PPTXProcessor implements FileProcessor {
+  type = 'pptx';
+  extensions = ['.pptx'];
+  mimeTypes = ['application/vnd.openxmlformats-officedocument.presentationml.presentation'];
+  icon = '📽️';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const zip = await loadZip(file);
+      const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(undefined);
+
+      const slidePaths = await this.getSlidePaths(zip, read);
+      const segments: ChunkSegment[] = [];
+      const tables: ExtractedTable[] = [];
+      let fullText = '';
+
+      for (const [index, slidePath] of slidePaths.entries()) {
+        const slideNumber = index + 1;
+        const xml = (await read(slidePath)) || '';
+        const slideShapes = shapes(xml);
+
+        const titleShape = slideShapes.find(shape => shape.placeholder === 'title' || shape.placeholder === 'ctrTitle');
+        const title = titleShape?.paragraphs.join(' ') || `Slide ${slideNumber}`;
+        const body = slideShapes
+          .filter(shape => shape !== titleShape)
+          .flatMap(shape => shape.paragraphs)
+          .map(paragraph => `- ${paragraph}`);
+
+        const slideTables = this.extractTables(xml, `${fileName}-slide-${slideNumber}`, slideNumber, title);
+        tables.push(...slideTables);
+
+        const notes = await this.getNotes(slidePath, read);
+
+        const text = [
+          `# ${title}`,
+          body.join('\n'),
+          ...slideTables.map(table => [table.headers, ...table.rows].map(row => `| ${row.join(' | ')} |`).join('\n')),
+          notes.length > 0 ? `## Speaker notes\n\n${notes.join('\n\n')}` : '',
+        ].filter(Boolean).join('\n\n');
+
+        fullText += `\n--- Slide ${slideNumber} ---\n${text}\n`;
+        segments.push({ text, page: slideNumber });
+      }
+
+      const core = (await read('docProps/core.xml')) || '';
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: this.mimeTypes[0],
+        pages: slidePaths.length,
+        title: core.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1],
+        author: core.match(/<dc:creator>([\s\S]*?)<\/dc:creator>/)?.[1],
+      };
+
+      return {
+        text: fullText,
+        chunks: chunkSegments({ fileName, segments, tables }, options, this.defaultChunkingStrategy),
+        metadata,
+        tables,
+      };
+    } catch (error) {
+      throw new Error(`PPTX processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Slides in presentation order, which need not match their file names
+  private async getSlidePaths(zip: any, read: (path: string) => Promise<string | undefined>): Promise<string[]> {
+    const presentation = (await read('ppt/presentation.xml')) || '';
+    const rels = relationships(await read('ppt/_rels/presentation.xml.rels'));
+
+    const ordered = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)]
+      .map(([, id]) => rels.get(id))
+      .filter((target): target is string => !!target)
+      .map(target => resolvePath('ppt/presentation.xml', target));
+
+    if (ordered.length > 0) return ordered;
+
+    return Object.keys(zip.files)
+      .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+      .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+  }
+
+  private async getNotes(slidePath: string, read: (path: string) => Promise<string | undefined>): Promise<string[]> {
+    const relsPath = slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels');
+    const notesTarget = [...relationships(await read(relsPath)).values()].find(target => target.includes('notesSlide'));
+    if (!notesTarget) return [];
+
+    const notes = (await read(resolvePath(slidePath, notesTarget))) || '';
+    // Notes pages repeat the slide image and number as placeholders
+    return shapes(notes)
+      .filter(shape => shape.placeholder !== 'sldImg' && shape.placeholder !== 'sldNum')
+      .flatMap(shape => shape.paragraphs);
+  }
+
+  private extractTables(xml: string, idPrefix: string, slideNumber: number, caption: string): ExtractedTable[] {
+    return [...xml.matchAll(/<a:tbl>([\s\S]*?)<\/a:tbl>/g)].map(([, table], index) => {
+      const rows = [...table.matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)].map(([, row]) =>
+        [...row.matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)].map(([, cell]) => xmlParagraphs(cell).join(' '))
+      );
+      return { id: `${idPrefix}-table-${index}`, headers: rows[0] || [], rows: rows.slice(1), page: slideNumber, caption };
+    });
+  }
+}
+
+/**
+ * EPUB e-books: chapters in reading order, one segment per chapter
+ */
+export class EPUBProcessor implements FileProcessor {
+  type = 'epub';
+  extensions = ['.epub'];
+  mimeTypes = ['application/epub+zip'];
+  icon = '📚';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const zip = await loadZip(file);
+      const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(undefined);
+
+      const container = (await read('META-INF/container.xml')) || '';
+      const opfPath = container.match(/<rootfile\b[^>]*\bfull-path="([^"]+)"/)?.[1];
+      if (!opfPath) {
+        throw new Error('No package document found in META-INF/container.xml');
+      }
+
+      const opf = (await read(opfPath)) || '';
+      const manifest = new Map([...opf.matchAll(/<item\b([^>]*)\/?>/g)].map(([, attrs]) => [
+        attrs.match(/\bid="([^"]+)"/)?.[1] || '',
+        attrs.match(/\bhref="([^"]+)"/)?.[1] || '',
+      ]));
+      const spine = [...opf.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"/g)].map(([, id]) => manifest.get(id)).filter(Boolean) as string[];
+
+      const segments: ChunkSegment[] = [];
+      const tables: ExtractedTable[] = [];
+      let fullText = '';
+
+      for (const [index, href] of spine.entries()) {
+        const html = await read(resolvePath(opfPath, decodeURIComponent(href)));
+        if (!html) continue;
+
+        const markdown = htmlToMarkdown(html);
+        if (!markdown) continue;
+
+        tables.push(...extractMarkdownTables(markdown, `${fileName}-chapter-${index}`));
+        fullText += `${markdown}\n\n`;
+        segments.push({ text: markdown });
+      }
+
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: 'application/epub+zip',
+        pages: segments.length,
+        title: opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1]?.trim(),
+        author: opf.match(/<dc:creator\b[^>]*>([\s\S]*?)<\/dc:creator>/)?.[1]?.trim(),
+        language: opf.match(/<dc:language\b[^>]*>([\s\S]*?)<\/dc:language>/)?.[1]?.trim(),
+      };
+
+      return {
+        text: fullText.trim(),
+        chunks: chunkSegments({ fileName, segments, tables }, options, this.defaultChunkingStrategy),
+        metadata,
+        tables,
+      };
+    } catch (error) {
+      throw new Error(`EPUB processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CSV and JSON
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse CSV with quoted fields. The delimiter is detected from the first line
+ * (comma, semicolon or tab) unless given.
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+  const input = text.replace(/^﻿/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] || '';
+  const delimiter = options.delimiter || [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Q/A pairs from records that have a question and an answer column
+ */
+export function findFaqPairs(records: Array<Record<string, any>>): FaqPair[] | null {
+  if (records.length === 0) return null;
+
+  const keys = Object.keys(records[0]);
+  const questionKey = findKey(keys, QUESTION_KEYS);
+  const answerKey = findKey(keys, ANSWER_KEYS.filter(key => key !== questionKey));
+  if (!questionKey || !answerKey || questionKey === answerKey) return null;
+
+  const categoryKey = findKey(keys, CATEGORY_KEYS);
+
+  return records
+    .map(record => ({
+      question: String(record[questionKey] ?? '').trim(),
+      answer: String(record[answerKey] ?? '').trim(),
+      category: categoryKey && record[categoryKey] ? String(record[categoryKey]).trim() : undefined,
+    }))
+    .filter(pair => pair.question && pair.answer);
+}
+
+/**
+ * CSV files. FAQ exports with a question and an answer column become one chunk
+ * per Q/A pair; any other CSV is chunked by table rows like a spreadsheet.
+ */
+export class CSVProcessor implements FileProcessor {
+  type = 'csv';
+  extensions = ['.csv', '.tsv'];
+  mimeTypes = ['text/csv', 'text/tab-separated-values'];
+  icon = '📊';
+  defaultChunkingStrategy: ChunkingStrategy = 'table';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const text = await readText(file);
+      const [headers = [], ...rows] = parseCsv(text, fileName.toLowerCase().endsWith('.tsv') ? { delimiter: '\t' } : {});
+      const table: ExtractedTable = { id: `${fileName}-table-0`, headers, rows, caption: fileName };
+
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: this.mimeTypes[0],
+      };
+
+      const records = rows.map(row => Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ''])));
+      const pairs = findFaqPairs(records);
+
+      if (pairs && pairs.length > 0) {
+        return {
+          text: pairs.map(pair => `Q: ${pair.question}\nA: ${pair.answer}`).join('\n\n'),
+          chunks: chunkFaq(fileName, pairs, options),
+          metadata,
+          tables: [table],
+        };
+      }
+
+      const tableText = [headers, ...rows].map(row => row.join('\t')).join('\n');
+
+      return {
+        text: tableText,
+        chunks: chunkSegments(
+          { fileName, segments: [{ text: tableText, tableId: table.id }], tables: [table], chunkType: 'table' },
+          options,
+          this.defaultChunkingStrategy
+        ),
+        metadata,
+        tables: [table],
+      };
+    } catch (error) {
+      throw new Error(`CSV processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+function flattenJson(value: any, path: string, lines: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flattenJson(item, `${path}[${i}]`, lines));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => flattenJson(item, path ? `${path}.${key}` : key, lines));
+  } else if (value !== null && value !== undefined && value !== '') {
+    lines.push(`${path}: ${value}`);
+  }
+}
+
+function isFlatRecord(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => item === null || typeof item !== 'object');
+}
+
+/**
+ * JSON files. FAQ lists (objects with a question and an answer, at the top
+ * level or under a single key) become one chunk per pair, arrays of flat
+ * records become a table, anything else is flattened to `path: value` lines
+ * grouped by top-level key.
+ */
+export class JSONProcessor implements FileProcessor {
+  type = 'json';
+  extensions = ['.json'];
+  mimeTypes = ['application/json'];
+  icon = '🧾';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const data = JSON.parse(await readText(file));
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: 'application/json',
+      };
+
+      const records = this.findRecords(data);
+      const pairs = records ? findFaqPairs(records) : null;
+
+      if (pairs && pairs.length > 0) {
+        const table: ExtractedTable = {
+          id: `${fileName}-table-0`,
+          headers: ['category', 'question', 'answer'],
+          rows: pairs.map(pair => [pair.category || '', pair.question, pair.answer]),
+          caption: fileName,
+        };
+
+        return {
+          text: pairs.map(pair => `Q: ${pair.question}\nA: ${pair.answer}`).join('\n\n'),
+          chunks: chunkFaq(fileName, pairs, options),
+          metadata,
+          tables: [table],
+        };
+      }
+
+      if (records && records.every(isFlatRecord)) {
+        const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+        const table: ExtractedTable = {
+          id: `${fileName}-table-0`,
+          headers,
+          rows: records.map(record => headers.map(header => (record[header] ?? '').toString())),
+          caption: fileName,
+        };
+        const tableText = [table.headers, ...table.rows].map(row => row.join('\t')).join('\n');
+
+        return {
+          text: tableText,
+          chunks: chunkSegments(
+            { fileName, segments: [{ text: tableText, tableId: table.id }], tables: [table], chunkType: 'table' },
+            options,
+            'table'
+          ),
+          metadata,
+          tables: [table],
+        };
+      }
+
+      const entries: Array<[string, any]> = data && typeof data === 'object' && !Array.isArray(data)
+        ? Object.entries(data)
+        : [[fileName, data]];
+      const segments = entries.map(([key, value]) => {
+        const lines: string[] = [];
+        flattenJson(value, '', lines);
+        return { text: `# ${key}\n\n${lines.join('\n')}` };
+      });
+
+      return {
+        text: segments.map(segment => segment.text).join('\n\n'),
+        chunks: chunkSegments({ fileName, segments }, options, this.defaultChunkingStrategy),
+        metadata,
+      };
+    } catch (error) {
+      throw new Error(`JSON processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private findRecords(data: any): Array<Record<string, any>> | null {
+    if (Array.isArray(data)) {
+      return data.every(item => item && typeof item === 'object' && !Array.isArray(item)) ? data : null;
+    }
+    if (data && typeof data === 'object') {
+      const arrays = Object.values(data).filter(Array.isArray);
+      if (arrays.length === 1) return this.findRecords(arrays[0]);
+    }
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Email
+// ---------------------------------------------------------------------------
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes = text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return decodeBytes(bytes);
+}
+
+// Interpret a binary string (one char per byte) as UTF-8
+function decodeBytes(binary: string): string {
+  try {
+    return new TextDecoder('utf-8').decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    return binary;
+  }
+}
+
+function decodeBase64(text: string): string {
+  return decodeBytes(atob(text.replace(/\s+/g, '')));
+}
+
+/**
+ * Decode RFC 2047 encoded words such as =?UTF-8?B?...?= in headers
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?[^?]+\?([bq])\?([^?]*)\?=/gi, (_, encoding, encoded) =>
+      encoding.toLowerCase() === 'b'
+        ? decodeBase64(encoded)
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' ')));
+}
+
+function parseHeaders(head: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace
+  head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  });
+  return headers;
+}
+
+function splitHead(raw: string): { head: string; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  return match
+    ? { head: raw.slice(0, match.index), body: raw.slice(match.index! + match[0].length) }
+    : { head: raw, body: '' };
+}
+
+/**
+ * Plain text of a MIME body: the text/plain part of a multipart message, or
+ * its text/html part converted to markdown
+ */
+function extractBody(headers: Record<string, string>, body: string): string {
+  const contentType = headers['content-type'] || 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body.split(`--${boundary}`).slice(1).filter(part => !part.startsWith('--'));
+    const decoded = parts.map(part => {
+      const { head, body: partBody } = splitHead(part.replace(/^\r?\n/, ''));
+      const partHeaders = parseHeaders(head);
+      return { type: partHeaders['content-type'] || 'text/plain', disposition: partHeaders['content-disposition'] || '', headers: partHeaders, body: partBody };
+    }).filter(part => !/attachment/i.test(part.disposition));
+
+    const preferred = decoded.find(part => /^text\/plain/i.test(part.type))
+      || decoded.find(part => /^multipart\//i.test(part.type))
+      || decoded.find(part => /^text\/html/i.test(part.type));
+    return preferred ? extractBody(preferred.headers, preferred.body) : '';
+  }
+
+  const encoding = (headers['content-transfer-encoding'] || '').toLowerCase();
+  const text = encoding === 'base64'
+    ? decodeBase64(body)
+    : encoding === 'quoted-printable'
+      ? decodeQuotedPrintable(body)
+      : body;
+
+  return /^text\/html/i.test(contentType) ? htmlToMarkdown(text) : text;
+}
+
+// Quoted replies repeat earlier messages of the thread, which are indexed already
+function stripQuotedReply(body: string): string {
+  const lines = body.split(/\r?\n/);
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    if (/^On .+ wrote:\s*$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line)) break;
+    if (!line.startsWith('>')) kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+function normalizeSubject(subject: string): string {
+  return subject.replace(/^((re|fw|fwd|aw|wg)(\[\d+\])?:\s*)+/i, '').trim().toLowerCase();
+}
+
+function messageIds(value: string | undefined): string[] {
+  return (value || '').match(/<[^>]+>/g) || [];
+}
+
+/**
+ * Split an mbox file into raw messages. Lines starting with "From " separate
+ * messages; ">From " inside bodies is unescaped.
+ */
+export function splitMbox(text: string): string[] {
+  return text
+    .split(/^From .*\r?\n/m)
+    .map(message => message.replace(/^>(>*From )/gm, '$1').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse raw RFC 822 messages and group them into threads by References,
+ * In-Reply-To, and failing both, by subject
+ */
+export function parseEmailMessages(rawMessages: string[]): EmailMessage[] {
+  const messages = rawMessages.map((raw, index) => {
+    const { head, body } = splitHead(raw);
+    const headers = parseHeaders(head);
+
+    return {
+      messageId: messageIds(headers['message-id'])[0] || `<message-${index}>`,
+      inReplyTo: messageIds(headers['in-reply-to'])[0],
+      references: messageIds(headers['references']),
+      threadId: '',
+      subject: decodeHeaderValue(headers['subject'] || '(no subject)'),
+      from: decodeHeaderValue(headers['from'] || ''),
+      to: decodeHeaderValue(headers['to'] || ''),
+      cc: headers['cc'] ? decodeHeaderValue(headers['cc']) : undefined,
+      date: headers['date'],
+      body: stripQuotedReply(extractBody(headers, body)),
+    };
+  });
+
+  const byTime = [...messages].sort((a, b) => (Date.parse(a.date || '') || 0) - (Date.parse(b.date || '') || 0));
+  const threadOf = new Map<string, string>();
+  const threadBySubject = new Map<string, string>();
+
+  byTime.forEach(message => {
+    const parent = message.references[0] || message.inReplyTo;
+    const subject = normalizeSubject(message.subject);
+
+    message.threadId = (parent && (threadOf.get(parent) || parent))
+      || threadBySubject.get(subject)
+      || message.messageId;
+
+    threadOf.set(message.messageId, message.threadId);
+    if (!threadBySubject.has(subject)) threadBySubject.set(subject, message.threadId);
+  });
+
+  return byTime;
+}
+
+/**
+ * Single messages (.eml) and mailbox exports (.mbox). Each message is one
+ * segment headed by its sender, below its thread's subject in the heading path;
+ * the headers are returned as a table.
+ */
+export class EmailProcessor implements FileProcessor {
+  type = 'email';
+  extensions = ['.eml', '.mbox'];
+  mimeTypes = ['message/rfc822', 'application/mbox'];
+  icon = '✉️';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    try {
+      const text = await readText(file);
+      const isMbox = fileName.toLowerCase().endsWith('.mbox') || /^From .*\r?\n/.test(text);
+      const messages = parseEmailMessages(isMbox ? splitMbox(text) : [text]);
+
+      const threadSubjects = new Map<string, string>();
+      messages.forEach(message => {
+        if (!threadSubjects.has(message.threadId)) {
+          threadSubjects.set(message.threadId, message.subject.replace(/^((re|fw|fwd|aw|wg):\s*)+/i, ''));
+        }
+      });
+
+      const segments: ChunkSegment[] = messages.map(message => ({
+        text: [
+          `# ${message.from}${message.date ? ` (${message.date})` : ''}`,
+          [
+            `From: ${message.from}`,
+            `To: ${message.to}`,
+            message.cc ? `Cc: ${message.cc}` : '',
+            message.date ? `Date: ${message.date}` : '',
+            `Subject: ${message.subject}`,
+          ].filter(Boolean).join('\n'),
+          message.body,
+        ].filter(Boolean).join('\n\n'),
+      }));
+
+      const table: ExtractedTable = {
+        id: `${fileName}-table-0`,
+        headers: ['message_id', 'thread_id', 'in_reply_to', 'from', 'to', 'date', 'subject'],
+        rows: messages.map(message => [
+          message.messageId,
+          message.threadId,
+          message.inReplyTo || '',
+          message.from,
+          message.to,
+          message.date || '',
+          message.subject,
+        ]),
+        caption: 'Email headers',
+      };
+
+      const first = messages[0];
+      const metadata: FileMetadata = {
+        fileName,
+        fileSize: fileSize(file),
+        mimeType: isMbox ? 'application/mbox' : 'message/rfc822',
+        title: messages.length === 1 ? first?.subject : `${messages.length} messages in ${threadSubjects.size} threads`,
+        author: messages.length === 1 ? first?.from : undefined,
+        createdAt: first?.date,
+      };
+
+      const chunks = chunkSegments({ fileName, segments }, options, this.defaultChunkingStrategy);
+      prependHeadings(chunks, segments, messages.map(message => threadSubjects.get(message.threadId)));
+
+      return {
+        text: segments.map(segment => segment.text).join('\n\n'),
+        chunks,
+        metadata,
+        tables: [table],
+      };
+    } catch (error) {
+      throw new Error(`Email processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DocumentProcessingError,
+  DocumentProcessingQueue,
+  DocumentProcessingQueueError,
+  JobLeaseLostError,
+  getRetryDelay,
+  selectFairJobs,
+  type DocumentProcessingJob,
+} from './document-processing-queue';
+import { FakeDatabaseError, SupabaseFake } from './testing/supabase-fake';
+
+const db = new SupabaseFake();
+const client = db as any;
+
+const NOW = new Date('2024-05-01T10:00:00.000Z');
+
+const row = (overrides: Record<string, any> = {}) => ({
+  id: 'job-1',
+  document_id: 'doc-1',
+  knowledge_base_id: 'kb-1',
+  user_id: 'tenant-a',
+  file_name: 'manual.pdf',
+  storage_path: 'knowledge-bases/kb-1/manual.pdf',
+  status: 'queued',
+  attempts: 0,
+  max_attempts: 3,
+  available_at: '2024-05-01T09:00:00.000Z',
+  created_at: '2024-05-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const job = (id: string, userId: string, overrides: Partial<DocumentProcessingJob> = {}): DocumentProcessingJob => ({
+  id,
+  documentId: `doc-${id}`,
+  knowledgeBaseId: 'kb-1',
+  userId,
+  fileName: `${id}.pdf`,
+  storagePath: `${id}.pdf`,
+  status: 'queued',
+  attempts: 0,
+  maxAttempts: 3,
+  availableAt: '2024-05-01T09:00:00.000Z',
+  createdAt: '2024-05-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const stored = (id: string) => db.table('document_processing_jobs').find(row => row.id === id);
+
+// The database functions, reduced to the checks these tests exercise
+beforeEach(() => {
+  db.reset();
+  db.functions.enqueue_document_processing_job = args => {
+    const document = db.table('documents').find(d => d.id === args.job_document_id);
+    if (!document || document.knowledge_base_id !== args.job_knowledge_base_id || document.storage_path !== args.job_storage_path) {
+      throw new FakeDatabaseError('PJ002', `Document ${args.job_document_id} has no file at ${args.job_storage_path}`);
+    }
+    return [db.insertRow('document_processing_jobs', {
+      document_id: args.job_document_id,
+      knowledge_base_id: args.job_knowledge_base_id,
+      user_id: args.job_user_id,
+      file_name: args.job_file_name,
+      storage_path: args.job_storage_path,
+      max_attempts: args.job_max_attempts,
+      status: 'queued',
+      attempts: 0,
+    })];
+  };
+  db.functions.retry_document_processing_job = ({ job_id }) => {
+    const retried = db.table('document_processing_jobs')
+      .filter(row => row.id === job_id && ['failed', 'dead_letter', 'cancelled'].includes(row.status));
+    retried.forEach(row => Object.assign(row, { status: 'queued', attempts: 0, finished_at: null }));
+    return retried;
+  };
+  db.functions.cancel_document_processing_job = ({ job_id }) => {
+    const cancelled = db.table('document_processing_jobs')
+      .filter(row => row.id === job_id && ['queued', 'leased', 'running', 'failed'].includes(row.status));
+    cancelled.forEach(row => Object.assign(row, { status: 'cancelled', leased_by: null }));
+    return cancelled;
+  };
+});
+
+describe('getRetryDelay', () => {
+  it('should double the delay per attempt up to the maximum', () => {
+    const options = { retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map(attempts => getRetryDelay(attempts, options))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('selectFairJobs', () => {
+  it('should take turns between tenants instead of draining the oldest backlog first', () => {
+    const candidates = [job('a1', 'a'), job('a2', 'a'), job('a3', 'a'), job('b1', 'b'), job('c1', 'c')];
+
+    expect(selectFairJobs(candidates, {}, 4, 10).map(j => j.id)).toEqual(['a1', 'b1', 'c1', 'a2']);
+  });
+
+  it('should skip tenants that reached their concurrency limit', () => {
+    const candidates = [job('a1', 'a'), job('a2', 'a'), job('b1', 'b')];
+
+    expect(selectFairJobs(candidates, { a: 1 }, 3, 2).map(j => j.id)).toEqual(['a1', 'b1']);
+  });
+});
+
+describe('DocumentProcessingQueue.claim', () => {
+  it('should lease claimable jobs within the free slots and count the attempt', async () => {
+    const queue = new DocumentProcessingQueue(client, { maxConcurrency: 2, leaseDurationMs: 60_000 });
+    db.seed('document_processing_jobs', [
+      row({ id: 'busy', user_id: 'tenant-b', status: 'running', leased_by: 'worker-0', lease_expires_at: '2024-05-01T10:05:00.000Z' }),
+      row(),
+      row({ id: 'job-2', available_at: '2024-05-01T09:30:00.000Z' }),
+    ]);
+
+    const claimed = await queue.claim('worker-1', 4, NOW);
+
+    expect(claimed.map(j => j.id)).toEqual(['job-1']);
+    expect(stored('job-1')).toMatchObject({
+      status: 'leased',
+      attempts: 1,
+      leased_by: 'worker-1',
+      lease_expires_at: '2024-05-01T10:01:00.000Z',
+    });
+    expect(stored('job-2')).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+
+  it('should not lease a job another worker claimed first', async () => {
+    const queue = new DocumentProcessingQueue(client);
+    db.seed('document_processing_jobs', [row()]);
+    db.beforeNext('document_processing_jobs', 'update', () => {
+      Object.assign(stored('job-1'), { status: 'leased', attempts: 1, leased_by: 'worker-2' });
+    });
+
+    expect(await queue.claim('worker-1', 4, NOW)).toEqual([]);
+    expect(stored('job-1')).toMatchObject({ leased_by: 'worker-2', attempts: 1 });
+  });
+
+  it('should not claim anything when every slot is taken', async () => {
+    const queue = new DocumentProcessingQueue(client, { maxConcurrency: 1 });
+    db.seed('document_processing_jobs', [
+      row({ id: 'busy', user_id: 'tenant-b', status: 'running', leased_by: 'worker-0', lease_expires_at: '2024-05-01T10:05:00.000Z' }),
+      row(),
+    ]);
+
+    expect(await queue.claim('worker-1', 4, NOW)).toEqual([]);
+    expect(stored('job-1').status).toBe('queued');
+  });
+
+  it('should count an expired lease as a failed attempt', async () => {
+    const queue = new DocumentProcessingQueue(client, { retryBaseDelayMs: 1000 });
+    db.seed('document_processing_jobs', [
+      row({ status: 'running', attempts: 1, leased_by: 'worker-0', lease_expires_at: '2024-05-01T09:59:00.000Z' }),
+    ]);
+
+    await queue.claim('worker-1', 4, NOW);
+
+    expect(stored('job-1')).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      leased_by: null,
+      last_error: { code: 'LEASE_EXPIRED', retryable: true },
+      available_at: '2024-05-01T10:00:01.000Z',
+    });
+  });
+});
+
+describe('DocumentProcessingQueue.fail', () => {
+  const queue = new DocumentProcessingQueue(client, { retryBaseDelayMs: 1000, retryMaxDelayMs: 60_000 });
+  const running = (attempts: number) => {
+    db.seed('document_processing_jobs', [row({ status: 'running', attempts, leased_by: 'worker-1' })]);
+    return job('job-1', 'a', { status: 'running', attempts, leasedBy: 'worker-1' });
+  };
+
+  it('should schedule the next attempt with backoff', async () => {
+    await queue.fail(running(2), new Error('timeout'), NOW);
+
+    expect(stored('job-1')).toMatchObject({
+      status: 'failed',
+      last_error: { code: 'PROCESSING_FAILED', message: 'timeout', retryable: true },
+      available_at: '2024-05-01T10:00:02.000Z',
+    });
+  });
+
+  it('should dead-letter the job once the attempts are used up', async () => {
+    await queue.fail(running(3), new Error('timeout'), NOW);
+
+    expect(stored('job-1')).toMatchObject({ status: 'dead_letter', finished_at: NOW.toISOString() });
+  });
+
+  it('should dead-letter the job right away for errors that are not retryable', async () => {
+    await queue.fail(running(1), new DocumentProcessingError('Unsupported file type: exe', 'UNSUPPORTED_FILE_TYPE', false), NOW);
+
+    expect(stored('job-1')).toMatchObject({
+      status: 'dead_letter',
+      last_error: { code: 'UNSUPPORTED_FILE_TYPE', retryable: false },
+    });
+  });
+
+  it('should leave a job alone once the worker lost its lease', async () => {
+    const lost = running(1);
+    stored('job-1').leased_by = 'worker-2';
+
+    expect(await queue.fail(lost, new Error('timeout'), NOW)).toBeNull();
+    expect(stored('job-1')).toMatchObject({ status: 'running', leased_by: 'worker-2' });
+  });
+});
+
+describe('DocumentProcessingQueue.enqueue', () => {
+  const queue = new DocumentProcessingQueue(client);
+  const params = {
+    documentId: 'doc-1',
+    knowledgeBaseId: 'kb-1',
+    userId: 'tenant-a',
+    fileName: 'manual.pdf',
+    storagePath: 'knowledge-bases/kb-1/manual.pdf',
+  };
+
+  beforeEach(() => {
+    db.seed('documents', [{ id: 'doc-1', knowledge_base_id: 'kb-1', storage_path: 'knowledge-bases/kb-1/manual.pdf' }]);
+  });
+
+  it('should queue the job through the database, which checks the file', async () => {
+    const job = await queue.enqueue(params);
+
+    expect(job).toMatchObject({ status: 'queued', storagePath: 'knowledge-bases/kb-1/manual.pdf' });
+    expect(db.table('document_processing_jobs')).toEqual([
+      expect.objectContaining({ id: job.id, document_id: 'doc-1', status: 'queued' }),
+    ]);
+  });
+
+  it('should refuse a file that is not the document\'s', async () => {
+    await expect(queue.enqueue({ ...params, storagePath: 'knowledge-bases/kb-2/other.pdf' }))
+      .rejects.toThrow(/has no file at/);
+    expect(db.table('document_processing_jobs')).toEqual([]);
+  });
+});
+
+describe('DocumentProcessingQueue.retry and cancel', () => {
+  const queue = new DocumentProcessingQueue(client);
+
+  it('should queue a dead-lettered job again through the database', async () => {
+    db.seed('document_processing_jobs', [row({ status: 'dead_letter', attempts: 3, finished_at: NOW.toISOString() })]);
+
+    const retried = await queue.retry('job-1');
+
+    expect(retried).toMatchObject({ id: 'job-1', status: 'queued', attempts: 0 });
+    expect(stored('job-1')).toMatchObject({ status: 'queued', attempts: 0, finished_at: null });
+  });
+
+  it('should refuse to retry a job that is still in progress', async () => {
+    db.seed('document_processing_jobs', [row({ status: 'running', attempts: 1 })]);
+
+    await expect(queue.retry('job-1')).rejects.toThrow(DocumentProcessingQueueError);
+    expect(stored('job-1').status).toBe('running');
+  });
+
+  it('should refuse to cancel a finished job', async () => {
+    db.seed('document_processing_jobs', [row({ status: 'succeeded' })]);
+
+    await expect(queue.cancel('job-1')).rejects.toThrow('has already finished');
+    expect(stored('job-1').status).toBe('succeeded');
+  });
+});
+
+describe('DocumentProcessingQueue.drain', () => {
+  const createQueue = (jobs: DocumentProcessingJob[][]) => {
+    const queue = new DocumentProcessingQueue(client, { maxConcurrency: 2 });
+    vi.spyOn(queue, 'claim').mockImplementation(async () => jobs.shift() || []);
+    vi.spyOn(queue, 'markRunning').mockImplementation(async j => ({ ...j, status: 'running' }));
+    vi.spyOn(queue, 'complete').mockImplementation(async j => ({ ...j, status: 'succeeded' }));
+    vi.spyOn(queue, 'fail').mockImplementation(async (j, error) =>
+      ({ ...j, status: error instanceof DocumentProcessingError && !error.retryable ? 'dead_letter' : 'failed' }));
+    return queue;
+  };
+
+  it('should run claimed jobs and settle each one', async () => {
+    const queue = createQueue([[job('ok', 'a'), job('broken', 'b')], [job('lost', 'a')]]);
+    const handler = vi.fn(async (j: DocumentProcessingJob) => {
+      if (j.id === 'broken') throw new DocumentProcessingError('bad file', 'BAD_FILE', false);
+      if (j.id === 'lost') throw new JobLeaseLostError(j.id);
+    });
+
+    const summary = await queue.drain('worker-1', handler);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(summary).toEqual({ claimed: 3, succeeded: 1, failed: 0, deadLettered: 1, lost: 1 });
+    expect(queue.fail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not claim new jobs after the deadline', async () => {
+    const queue = createQueue([[job('late', 'a')]]);
+    const handler = vi.fn();
+
+    const summary = await queue.drain('worker-1', handler, { deadline: Date.now() - 1 });
+
+    expect(queue.claim).not.toHaveBeenCalled();
+    expect(summary.claimed).toBe(0);
+  });
+});
@@ -0,0 +1,611 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Durable queue for document processing jobs, stored in document_processing_jobs.
+ *
+ * Takes the Supabase client as a dependency so the Netlify workers (service
+ * role) and the processing dashboard (user session, RLS applies) share it.
+ * Users can only read jobs: enqueue, retry and cancel go through database
+ * functions that check the caller owns the document and its file, since the
+ * worker downloads whatever storage path a job names.
+ *
+ * A job moves queued -> leased -> running -> succeeded. A failed attempt goes
+ * to failed and is picked up again after an exponential backoff, until
+ * max_attempts is used up and the job is dead-lettered. A worker that stops
+ * heart-beating loses its lease, which counts as a failed attempt.
+ */
+
+export type ProcessingJobStatus =
+  | 'queued'
+  | 'leased'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'dead_letter'
+  | 'cancelled';
+
+export interface ProcessingJobError {
+  code: string;
+  message: string;
+  retryable: boolean;
+}
+
+export interface DocumentProcessingJob {
+  id: string;
+  documentId: string;
+  knowledgeBaseId: string;
+  userId: string;
+  fileName: string;
+  storagePath: string;
+  // Document version the job makes current; unversioned jobs update the chunks in place
+  versionNumber?: number;
+  status: ProcessingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  availableAt: string;
+  leasedBy?: string;
+  leaseExpiresAt?: string;
+  lastError?: ProcessingJobError;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface EnqueueJobParams {
+  documentId: string;
+  knowledgeBaseId: string;
+  userId: string;
+  fileName: string;
+  storagePath: string;
+  versionNumber?: number;
+  maxAttempts?: number;
+}
+
+export interface ProcessingJobFilters {
+  statuses?: ProcessingJobStatus[];
+  knowledgeBaseId?: string;
+  documentId?: string;
+  limit?: number;
+}
+
+export interface ProcessingQueueOptions {
+  // How long a worker owns a job without heart-beating
+  leaseDurationMs: number;
+  // Jobs leased or running at once, across all workers
+  maxConcurrency: number;
+  // Jobs one tenant can have leased or running at once
+  perTenantConcurrency: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  maxAttempts: number;
+}
+
+export interface JobLease {
+  job: DocumentProcessingJob;
+  // Extends the lease; throws JobLeaseLostError once the job was cancelled or taken over
+  heartbeat(): Promise<void>;
+}
+
+export type ProcessingJobHandler = (job: DocumentProcessingJob, lease: JobLease) => Promise<void>;
+
+export interface DrainOptions {
+  // Stop claiming new jobs after this time (ms since epoch); running jobs still finish
+  deadline?: number;
+}
+
+export interface DrainSummary {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  deadLettered: number;
+  lost: number;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: ProcessingQueueOptions = {
+  leaseDurationMs: 10 * 60 * 1000,
+  maxConcurrency: 4,
+  perTenantConcurrency: 2,
+  retryBaseDelayMs: 30 * 1000,
+  retryMaxDelayMs: 30 * 60 * 1000,
+  maxAttempts: 5,
+};
+
+// Candidates read per free slot, so fairness can skip over a busy tenant's backlog
+const CANDIDATE_WINDOW = 5;
+
+const ACTIVE_STATUSES: ProcessingJobStatus[] = ['leased', 'running'];
+const CLAIMABLE_STATUSES: ProcessingJobStatus[] = ['queued', 'failed'];
+
+export class DocumentProcessingQueueError extends Error {
+  constructor(message: string, public readonly jobId?: string) {
+    super(message);
+    this.name = 'DocumentProcessingQueueError';
+  }
+}
+
+/**
+ * Thrown by a processing step to control how the failed attempt is recorded.
+ * Non-retryable errors dead-letter the job right away.
+ */
+export class DocumentProcessingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = 'PROCESSING_FAILED',
+    public readonly retryable: boolean = true
+  ) {
+    super(message);
+    this.name = 'DocumentProcessingError';
+  }
+}
+
+/**
+ * The worker no longer owns the job: it was cancelled, or its lease expired and
+ * another worker claimed it. The worker should stop without recording anything.
+ */
+export class JobLeaseLostError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Lost the lease on processing job ${jobId}`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: doubles from the
+ * base delay up to the maximum
+ */
+export function getRetryDelay(
+  attempts: number,
+  options: Pick<ProcessingQueueOptions, 'retryBaseDelayMs' | 'retryMaxDelayMs'> = DEFAULT_QUEUE_OPTIONS
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(options.retryBaseDelayMs * Math.pow(2, exponent), options.retryMaxDelayMs);
+}
+
+/**
+ * Pick up to `slots` jobs round-robin across tenants, so one tenant's large
+ * upload does not starve everyone else. Candidates are expected oldest first;
+ * tenants take turns in the order of their oldest candidate and are skipped
+ * once they reach the per-tenant limit.
+ */
+export function selectFairJobs(
+  candidates: DocumentProcessingJob[],
+  activeByTenant: Record<string, number>,
+  slots: number,
+  perTenantLimit: number
+): DocumentProcessingJob[] {
+  const byTenant = new Map<string, DocumentProcessingJob[]>();
+  for (const job of candidates) {
+    const jobs = byTenant.get(job.userId) || [];
+    jobs.push(job);
+    byTenant.set(job.userId, jobs);
+  }
+
+  const active = { ...activeByTenant };
+  const selected: DocumentProcessingJob[] = [];
+
+  while (selected.length < slots) {
+    let picked = false;
+
+    for (const [tenant, jobs] of byTenant) {
+      if (selected.length >= slots) break;
+      if (jobs.length === 0 || (active[tenant] || 0) >= perTenantLimit) continue;
+
+      selected.push(jobs.shift()!);
+      active[tenant] = (active[tenant] || 0) + 1;
+      picked = true;
+    }
+
+    if (!picked) break;
+  }
+
+  return selected;
+}
+
+export function toProcessingJobError(error: unknown): ProcessingJobError {
+  if (error instanceof DocumentProcessingError) {
+    return { code: error.code, message: error.message, retryable: error.retryable };
+  }
+  return {
+    code: 'PROCESSING_FAILED',
+    message: error instanceof Error ? error.message : String(error),
+    retryable: true,
+  };
+}
+
+export class DocumentProcessingQueue {
+  private client: SupabaseClient<any, any, any>;
+  private options: ProcessingQueueOptions;
+
+  constructor(client: SupabaseClient<any, any, any>, options: Partial<ProcessingQueueOptions> = {}) {
+    this.client = client;
+    this.options = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  }
+
+  /**
+   * Queue a document's file. Refused unless the document belongs to the user
+   * and the knowledge base, and the storage path is the document's file.
+   */
+  async enqueue(params: EnqueueJobParams): Promise<DocumentProcessingJob> {
+    const { data, error } = await this.client.rpc('enqueue_document_processing_job', {
+      job_document_id: params.documentId,
+      job_knowledge_base_id: params.knowledgeBaseId,
+      job_user_id: params.userId,
+      job_file_name: params.fileName,
+      job_storage_path: params.storagePath,
+      job_version_number: params.versionNumber ?? null,
+      job_max_attempts: params.maxAttempts ?? this.options.maxAttempts,
+    });
+
+    const rows = (data || []) as any[];
+    if (error || rows.length === 0) {
+      throw new DocumentProcessingQueueError(
+        `Failed to enqueue processing of document ${params.documentId}: ${error?.message || 'no row returned'}`
+      );
+    }
+
+    return this.jobFromRow(rows[0]);
+  }
+
+  async getJob(jobId: string): Promise<DocumentProcessingJob | null> {
+    const { data, error } = await this.client
+      .from('document_processing_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DocumentProcessingQueueError(`Failed to load processing job ${jobId}: ${error.message}`, jobId);
+    }
+
+    return data ? this.jobFromRow(data) : null;
+  }
+
+  /**
+   * Jobs newest first
+   */
+  async getJobs(filters: ProcessingJobFilters = {}): Promise<DocumentProcessingJob[]> {
+    let query = this.client.from('document_processing_jobs').select('*');
+
+    if (filters.statuses && filters.statuses.length > 0) {
+      query = query.in('status', filters.statuses);
+    }
+    if (filters.knowledgeBaseId) {
+      query = query.eq('knowledge_base_id', filters.knowledgeBaseId);
+    }
+    if (filters.documentId) {
+      query = query.eq('document_id', filters.documentId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50);
+
+    if (error) {
+      throw new DocumentProcessingQueueError(`Failed to load processing jobs: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.jobFromRow(row));
+  }
+
+  /**
+   * Lease up to `limit` jobs for a worker, within the global and per-tenant
+   * concurrency limits. Expired leases are recovered first. The limits are
+   * checked before claiming, so workers claiming at the same moment can briefly
+   * exceed them.
+   */
+  async claim(
+    workerId: string,
+    limit: number = this.options.maxConcurrency,
+    now: Date = new Date()
+  ): Promise<DocumentProcessingJob[]> {
+    await this.recoverExpiredLeases(now);
+
+    const { data: active, error: activeError } = await this.client
+      .from('document_processing_jobs')
+      .select('id, user_id')
+      .in('status', ACTIVE_STATUSES);
+
+    if (activeError) {
+      throw new DocumentProcessingQueueError(`Failed to count active processing jobs: ${activeError.message}`);
+    }
+
+    const slots = Math.min(limit, this.options.maxConcurrency - (active || []).length);
+    if (slots <= 0) return [];
+
+    const { data: candidates, error } = await this.client
+      .from('document_processing_jobs')
+      .select('*')
+      .in('status', CLAIMABLE_STATUSES)
+      .lte('available_at', now.toISOString())
+      .order('available_at', { ascending: true })
+      .limit(slots * CANDIDATE_WINDOW);
+
+    if (error) {
+      throw new DocumentProcessingQueueError(`Failed to load queued processing jobs: ${error.message}`);
+    }
+
+    const activeByTenant: Record<string, number> = {};
+    for (const row of active || []) {
+      activeByTenant[row.user_id] = (activeByTenant[row.user_id] || 0) + 1;
+    }
+
+    const selected = selectFairJobs(
+      (candidates || []).map(row => this.jobFromRow(row)),
+      activeByTenant,
+      slots,
+      this.options.perTenantConcurrency
+    );
+
+    const claimed: DocumentProcessingJob[] = [];
+    for (const job of selected) {
+      // Only the worker whose update still sees the job unclaimed gets it
+      const leased = await this.updateJob(
+        job.id,
+        {
+          status: 'leased',
+          attempts: job.attempts + 1,
+          leased_by: workerId,
+          lease_expires_at: this.leaseExpiry(now),
+        },
+        { statuses: [job.status], attempts: job.attempts }
+      );
+      if (leased) claimed.push(leased);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Mark a leased job as running. Returns null when the worker lost the lease.
+   */
+  async markRunning(job: DocumentProcessingJob, now: Date = new Date()): Promise<DocumentProcessingJob | null> {
+    return this.updateJob(
+      job.id,
+      { status: 'running', started_at: now.toISOString(), lease_expires_at: this.leaseExpiry(now) },
+      { statuses: ['leased'], leasedBy: job.leasedBy }
+    );
+  }
+
+  async heartbeat(job: DocumentProcessingJob, now: Date = new Date()): Promise<void> {
+    const renewed = await this.updateJob(
+      job.id,
+      { lease_expires_at: this.leaseExpiry(now) },
+      { statuses: ACTIVE_STATUSES, leasedBy: job.leasedBy }
+    );
+
+    if (!renewed) {
+      throw new JobLeaseLostError(job.id);
+    }
+  }
+
+  async complete(job: DocumentProcessingJob, now: Date = new Date()): Promise<DocumentProcessingJob | null> {
+    return this.updateJob(
+      job.id,
+      { status: 'succeeded', finished_at: now.toISOString(), leased_by: null, lease_expires_at: null },
+      { statuses: ACTIVE_STATUSES, leasedBy: job.leasedBy }
+    );
+  }
+
+  /**
+   * Record a failed attempt: schedule the next one with backoff, or dead-letter
+   * the job when the error is not retryable or no attempts are left
+   */
+  async fail(job: DocumentProcessingJob, error: unknown, now: Date = new Date()): Promise<DocumentProcessingJob | null> {
+    const jobError = toProcessingJobError(error);
+    const exhausted = !jobError.retryable || job.attempts >= job.maxAttempts;
+
+    return this.updateJob(
+      job.id,
+      exhausted
+        ? {
+            status: 'dead_letter',
+            last_error: jobError,
+            finished_at: now.toISOString(),
+            leased_by: null,
+            lease_expires_at: null,
+          }
+        : {
+            status: 'failed',
+            last_error: jobError,
+            available_at: new Date(now.getTime() + getRetryDelay(job.attempts, this.options)).toISOString(),
+            leased_by: null,
+            lease_expires_at: null,
+          },
+      { statuses: ACTIVE_STATUSES, leasedBy: job.leasedBy }
+    );
+  }
+
+  /**
+   * Queue a failed, dead-lettered or cancelled job of the caller again with a
+   * fresh set of attempts
+   */
+  async retry(jobId: string): Promise<DocumentProcessingJob> {
+    const retried = await this.callJobFunction('retry_document_processing_job', jobId);
+
+    if (!retried) {
+      throw new DocumentProcessingQueueError(`Processing job ${jobId} can only be retried once it failed or was cancelled`, jobId);
+    }
+    return retried;
+  }
+
+  /**
+   * Cancel a job of the caller that has not finished. A running job stops at
+   * its next heartbeat.
+   */
+  async cancel(jobId: string): Promise<DocumentProcessingJob> {
+    const cancelled = await this.callJobFunction('cancel_document_processing_job', jobId);
+
+    if (!cancelled) {
+      throw new DocumentProcessingQueueError(`Processing job ${jobId} has already finished`, jobId);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Treat leased or running jobs whose lease expired as failed attempts
+   */
+  async recoverExpiredLeases(now: Date = new Date()): Promise<DocumentProcessingJob[]> {
+    const { data, error } = await this.client
+      .from('document_processing_jobs')
+      .select('*')
+      .in('status', ACTIVE_STATUSES)
+      .lt('lease_expires_at', now.toISOString());
+
+    if (error) {
+      throw new DocumentProcessingQueueError(`Failed to load expired processing leases: ${error.message}`);
+    }
+
+    const recovered: DocumentProcessingJob[] = [];
+    for (const row of data || []) {
+      const job = await this.fail(
+        this.jobFromRow(row),
+        new DocumentProcessingError('The worker stopped before finishing the job', 'LEASE_EXPIRED'),
+        now
+      );
+      if (job) recovered.push(job);
+    }
+    return recovered;
+  }
+
+  /**
+   * Claim and run jobs with at most maxConcurrency of them in flight, until
+   * nothing is claimable or the deadline passes
+   */
+  async drain(workerId: string, handler: ProcessingJobHandler, options: DrainOptions = {}): Promise<DrainSummary> {
+    const summary: DrainSummary = { claimed: 0, succeeded: 0, failed: 0, deadLettered: 0, lost: 0 };
+    const inFlight = new Set<Promise<void>>();
+    let claiming = true;
+
+    while (true) {
+      const free = this.options.maxConcurrency - inFlight.size;
+
+      if (claiming && free > 0 && (options.deadline === undefined || Date.now() < options.deadline)) {
+        try {
+          const jobs = await this.claim(workerId, free);
+          summary.claimed += jobs.length;
+
+          for (const job of jobs) {
+            const task: Promise<void> = this.runJob(job, handler, summary)
+              .catch(error => console.error(`Processing job ${job.id} could not be settled:`, error))
+              .finally(() => inFlight.delete(task));
+            inFlight.add(task);
+          }
+
+          if (jobs.length === 0 && inFlight.size === 0) break;
+        } catch (error) {
+          console.error('Failed to claim processing jobs:', error);
+          claiming = false;
+        }
+      }
+
+      if (inFlight.size === 0) break;
+      await Promise.race(inFlight);
+    }
+
+    return summary;
+  }
+
+  private async runJob(job: DocumentProcessingJob, handler: ProcessingJobHandler, summary: DrainSummary): Promise<void> {
+    const running = await this.markRunning(job);
+    if (!running) {
+      summary.lost++;
+      return;
+    }
+
+    const lease: JobLease = { job: running, heartbeat: () => this.heartbeat(running) };
+
+    try {
+      await handler(running, lease);
+    } catch (error) {
+      if (error instanceof JobLeaseLostError) {
+        summary.lost++;
+        return;
+      }
+
+      const failed = await this.fail(running, error);
+      if (!failed) {
+        summary.lost++;
+      } else if (failed.status === 'dead_letter') {
+        summary.deadLettered++;
+      } else {
+        summary.failed++;
+      }
+      return;
+    }
+
+    const completed = await this.complete(running);
+    if (completed) {
+      summary.succeeded++;
+    } else {
+      summary.lost++;
+    }
+  }
+
+  // Applies the changes only while the job is still in one of the expected states
+  private async updateJob(
+    jobId: string,
+    changes: Record<string, any>,
+    expected: { statuses: ProcessingJobStatus[]; leasedBy?: string; attempts?: number }
+  ): Promise<DocumentProcessingJob | null> {
+    let query = this.client
+      .from('document_processing_jobs')
+      .update(changes)
+      .eq('id', jobId)
+      .in('status', expected.statuses);
+
+    if (expected.leasedBy !== undefined) {
+      query = query.eq('leased_by', expected.leasedBy);
+    }
+    if (expected.attempts !== undefined) {
+      query = query.eq('attempts', expected.attempts);
+    }
+
+    const { data, error } = await query.select('*');
+
+    if (error) {
+      throw new DocumentProcessingQueueError(`Failed to update processing job ${jobId}: ${error.message}`, jobId);
+    }
+
+    return data && data.length > 0 ? this.jobFromRow(data[0]) : null;
+  }
+
+  // Runs a database function that changes one job; null when it changed none
+  private async callJobFunction(name: string, jobId: string): Promise<DocumentProcessingJob | null> {
+    const { data, error } = await this.client.rpc(name, { job_id: jobId });
+
+    if (error) {
+      throw new DocumentProcessingQueueError(`Failed to update processing job ${jobId}: ${error.message}`, jobId);
+    }
+
+    const rows = (data || []) as any[];
+    return rows.length > 0 ? this.jobFromRow(rows[0]) : null;
+  }
+
+  private leaseExpiry(now: Date): string {
+    return new Date(now.getTime() + this.options.leaseDurationMs).toISOString();
+  }
+
+  private jobFromRow(row: any): DocumentProcessingJob {
+    return {
+      id: row.id,
+      documentId: row.document_id,
+      knowledgeBaseId: row.knowledge_base_id,
+      userId: row.user_id,
+      fileName: row.file_name,
+      storagePath: row.storage_path,
+      versionNumber: row.version_number ?? undefined,
+      status: row.status,
+      attempts: row.attempts ?? 0,
+      maxAttempts: row.max_attempts ?? DEFAULT_QUEUE_OPTIONS.maxAttempts,
+      availableAt: row.available_at,
+      leasedBy: row.leased_by ?? undefined,
+      leaseExpiresAt: row.lease_expires_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      finishedAt: row.finished_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at ?? undefined,
+    };
+  }
+}
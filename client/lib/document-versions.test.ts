@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DocumentVersionError,
+  DocumentVersionService,
+  hashChunkContent,
+  planChunkChanges,
+  type StoredChunk,
+} from './document-versions';
+import { SupabaseFake } from './testing/supabase-fake';
+
+const db = new SupabaseFake({ unique: { document_versions: [['document_id', 'version_number']] } });
+const client = db as any;
+const queue: any = { enqueue: vi.fn(async () => ({})) };
+
+const MODEL = 'text-embedding-3-small';
+
+const stored = (id: string, contentHash: string, overrides: Partial<StoredChunk> = {}): StoredChunk => ({
+  id,
+  contentHash,
+  embeddingModel: MODEL,
+  retired: false,
+  ...overrides,
+});
+
+const versionRow = (versionNumber: number, overrides: Record<string, any> = {}) => ({
+  id: `version-${versionNumber}`,
+  document_id: 'doc-1',
+  version_number: versionNumber,
+  file_name: 'handbook.md',
+  storage_path: `knowledge-bases/kb-1/session-${versionNumber}-handbook.md`,
+  size_bytes: 1200,
+  content_hash: `file-${versionNumber}`,
+  status: 'superseded',
+  stats: {},
+  created_at: '2024-05-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const versionNumbers = () => db.table('document_versions').map(row => row.version_number);
+
+beforeEach(() => {
+  db.reset();
+  queue.enqueue.mockClear();
+});
+
+describe('hashChunkContent', () => {
+  it('should ignore whitespace-only edits', async () => {
+    expect(await hashChunkContent('Reset the  router\nand wait.')).toBe(await hashChunkContent(' Reset the router and wait. '));
+    expect(await hashChunkContent('Reset the router.')).not.toBe(await hashChunkContent('Reset the modem.'));
+  });
+});
+
+describe('planChunkChanges', () => {
+  it('should keep unchanged chunks, add new ones and retire the rest', () => {
+    const plan = planChunkChanges(
+      [stored('c1', 'intro'), stored('c2', 'setup'), stored('c3', 'pricing')],
+      [{ contentHash: 'intro' }, { contentHash: 'setup-v2' }, { contentHash: 'pricing' }],
+      MODEL
+    );
+
+    expect(plan.kept.map(({ id }) => id)).toEqual(['c1', 'c3']);
+    expect(plan.added.map(({ chunk }) => chunk.contentHash)).toEqual(['setup-v2']);
+    expect(plan.retired).toEqual(['c2']);
+    expect(plan.stats).toEqual({ added: 1, kept: 2, retired: 1, reusedEmbeddings: 0 });
+  });
+
+  it('should match repeated content one to one', () => {
+    const plan = planChunkChanges(
+      [stored('c1', 'faq'), stored('c2', 'faq')],
+      [{ contentHash: 'faq' }],
+      MODEL
+    );
+
+    expect(plan.kept.map(({ id }) => id)).toEqual(['c1']);
+    expect(plan.retired).toEqual(['c2']);
+  });
+
+  it('should reuse the embedding of a retired chunk with the same content', () => {
+    const plan = planChunkChanges(
+      [stored('c1', 'intro'), stored('old', 'setup', { retired: true })],
+      [{ contentHash: 'intro' }, { contentHash: 'setup' }],
+      MODEL
+    );
+
+    expect(plan.added).toEqual([{ chunk: { contentHash: 'setup' }, reuseEmbeddingFrom: 'old' }]);
+    expect(plan.retired).toEqual([]);
+    expect(plan.stats.reusedEmbeddings).toBe(1);
+  });
+
+  it('should re-embed chunks embedded with another model', () => {
+    const plan = planChunkChanges(
+      [stored('c1', 'intro', { embeddingModel: 'hash-embedding' })],
+      [{ contentHash: 'intro' }],
+      MODEL
+    );
+
+    expect(plan.kept).toEqual([]);
+    expect(plan.added).toEqual([{ chunk: { contentHash: 'intro' }, reuseEmbeddingFrom: undefined }]);
+    expect(plan.retired).toEqual(['c1']);
+  });
+});
+
+describe('DocumentVersionService', () => {
+  const document = (overrides: Record<string, any> = {}) => ({
+    id: 'doc-1',
+    knowledge_base_id: 'kb-1',
+    user_id: 'user-1',
+    current_version: 3,
+    storage_path: versionRow(3).storage_path,
+    status: 'ready',
+    ...overrides,
+  });
+
+  it('should number versions after the latest one and retry when another upload took the number', async () => {
+    const service = new DocumentVersionService(client, queue);
+    db.seed('document_versions', [versionRow(2)]);
+    // Another upload adds version 3 between our read and our insert
+    db.beforeNext('document_versions', 'insert', () => db.seed('document_versions', [versionRow(3, { status: 'pending' })]));
+
+    const version = await service.createVersion({
+      documentId: 'doc-1',
+      fileName: 'handbook.md',
+      storagePath: 'knowledge-bases/kb-1/session-4-handbook.md',
+      contentHash: 'file-4',
+    });
+
+    expect(version).toMatchObject({ versionNumber: 4, status: 'pending', contentHash: 'file-4' });
+    expect(versionNumbers()).toEqual([2, 3, 4]);
+  });
+
+  it('should restore a version as a new version and queue it for processing', async () => {
+    const service = new DocumentVersionService(client, queue);
+    db.seed('documents', [document()]);
+    db.seed('document_versions', [versionRow(1), versionRow(3, { status: 'active' })]);
+
+    const version = await service.restoreVersion('doc-1', 1, 'user-1');
+
+    expect(version).toMatchObject({ versionNumber: 4, restoredFrom: 1 });
+    expect(db.table('document_versions').find(row => row.version_number === 4)).toMatchObject({
+      status: 'pending',
+      restored_from: 1,
+      content_hash: 'file-1',
+      storage_path: versionRow(1).storage_path,
+      created_by: 'user-1',
+    });
+    expect(db.table('documents')[0]).toMatchObject({ storage_path: versionRow(1).storage_path, status: 'processing' });
+    expect(queue.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+      documentId: 'doc-1',
+      storagePath: versionRow(1).storage_path,
+      versionNumber: 4,
+    }));
+  });
+
+  it('should not restore the current version', async () => {
+    const service = new DocumentVersionService(client, queue);
+    db.seed('documents', [document({ current_version: 1 })]);
+    db.seed('document_versions', [versionRow(1, { status: 'active' })]);
+
+    await expect(service.restoreVersion('doc-1', 1)).rejects.toThrow(DocumentVersionError);
+    expect(versionNumbers()).toEqual([1]);
+    expect(db.table('documents')[0].status).toBe('ready');
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should hash chunks stored before content hashes were recorded', async () => {
+    const service = new DocumentVersionService(client, queue);
+    db.seed('document_chunks', [
+      { id: 'c2', document_id: 'doc-1', start_index: 40, content: 'Old text', content_hash: 'abc', metadata: {}, retired_at: '2024-05-01T10:00:00.000Z' },
+      { id: 'c1', document_id: 'doc-1', start_index: 0, content: 'Reset the router.', content_hash: null, metadata: { embeddingModel: MODEL }, retired_at: null },
+      { id: 'other', document_id: 'doc-2', start_index: 0, content: 'Elsewhere', content_hash: 'def', metadata: {}, retired_at: null },
+    ]);
+
+    expect(await service.getChunks('doc-1')).toEqual([
+      { id: 'c1', contentHash: await hashChunkContent('Reset the router.'), embeddingModel: MODEL, retired: false },
+      { id: 'c2', contentHash: 'abc', embeddingModel: undefined, retired: true },
+    ]);
+  });
+
+  it('should report when a newer version went live before the chunk swap', async () => {
+    const service = new DocumentVersionService(client, queue);
+    db.seed('documents', [document()]);
+    // Like the database function: a version older than the current one is superseded, not applied
+    db.functions.apply_document_chunk_changes = args =>
+      args.version >= db.table('documents').find(row => row.id === args.doc_id).current_version;
+
+    const applied = await service.applyChunkChanges('doc-1', 2, {
+      newChunks: [],
+      keptChunks: [{ id: 'c1' }],
+      retiredChunkIds: ['c2'],
+      stats: { added: 0, kept: 1, retired: 1, reusedEmbeddings: 0 },
+    });
+
+    expect(applied).toBe(false);
+    expect(await service.applyChunkChanges('doc-1', 3, {
+      newChunks: [],
+      keptChunks: [],
+      retiredChunkIds: [],
+      stats: { added: 0, kept: 0, retired: 0, reusedEmbeddings: 0 },
+    })).toBe(true);
+  });
+});
@@ -0,0 +1,413 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentProcessingQueue } from './document-processing-queue';
+
+/**
+ * Document versions, stored in document_versions.
+ *
+ * A re-upload adds a version to the existing document. When the version is
+ * processed its chunks are matched to the live chunks by content hash: matching
+ * chunks are kept with their embeddings, new ones are embedded (or take the
+ * embedding of a retired chunk with the same content) and the rest are retired.
+ * apply_document_chunk_changes swaps the chunk set in one transaction, so
+ * search never sees a mix of two versions.
+ *
+ * Restoring a version adds a new version with the earlier file, so history is
+ * never rewritten.
+ */
+
+export type DocumentVersionStatus = 'pending' | 'active' | 'superseded' | 'failed';
+
+export interface ChunkChangeStats {
+  added: number;
+  kept: number;
+  retired: number;
+  // Added chunks that took the embedding of a stored chunk with the same content
+  reusedEmbeddings: number;
+}
+
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  versionNumber: number;
+  fileName: string;
+  storagePath: string;
+  sizeBytes?: number;
+  contentHash?: string;
+  status: DocumentVersionStatus;
+  restoredFrom?: number;
+  stats?: Partial<ChunkChangeStats>;
+  error?: string;
+  createdBy?: string;
+  createdAt: string;
+  activatedAt?: string;
+}
+
+export interface CreateDocumentVersionParams {
+  documentId: string;
+  fileName: string;
+  storagePath: string;
+  sizeBytes?: number;
+  contentHash?: string;
+  userId?: string;
+  restoredFrom?: number;
+}
+
+/**
+ * A chunk already stored for the document, live or retired
+ */
+export interface StoredChunk {
+  id: string;
+  contentHash: string;
+  embeddingModel?: string;
+  retired: boolean;
+}
+
+export interface ChunkChangePlan<T> {
+  // Chunks to insert; reuseEmbeddingFrom names a stored chunk whose embedding can be copied
+  added: Array<{ chunk: T; reuseEmbeddingFrom?: string }>;
+  // Live chunks that stay, with their position in the new version
+  kept: Array<{ chunk: T; id: string }>;
+  retired: string[];
+  stats: ChunkChangeStats;
+}
+
+export interface ChunkChanges {
+  newChunks: Record<string, any>[];
+  keptChunks: Record<string, any>[];
+  retiredChunkIds: string[];
+  stats: ChunkChangeStats;
+}
+
+// Postgres unique_violation: another upload took the same version number first
+const UNIQUE_VIOLATION = '23505';
+const MAX_VERSION_ATTEMPTS = 3;
+
+export class DocumentVersionError extends Error {
+  constructor(message: string, public readonly documentId?: string) {
+    super(message);
+    this.name = 'DocumentVersionError';
+  }
+}
+
+async function sha256(bytes: BufferSource): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash identifying a chunk's content; whitespace-only edits keep the hash
+ */
+export function hashChunkContent(content: string): Promise<string> {
+  return sha256(new TextEncoder().encode(content.replace(/\s+/g, ' ').trim()));
+}
+
+export function hashFileContent(content: BufferSource): Promise<string> {
+  return sha256(content);
+}
+
+/**
+ * Match the chunks of a new version to the stored chunks by content hash.
+ * Live chunks embedded with another model are not kept, so a model change
+ * re-embeds the document.
+ */
+export function planChunkChanges<T extends { contentHash: string }>(
+  stored: StoredChunk[],
+  next: T[],
+  embeddingModel: string
+): ChunkChangePlan<T> {
+  const sameModel = stored.filter(chunk => chunk.embeddingModel === embeddingModel);
+
+  // Live chunks per hash, in stored order, so repeated content is matched one to one
+  const live = new Map<string, string[]>();
+  for (const chunk of sameModel) {
+    if (chunk.retired) continue;
+    live.set(chunk.contentHash, [...(live.get(chunk.contentHash) || []), chunk.id]);
+  }
+
+  const reusable = new Map<string, string>();
+  for (const chunk of sameModel) {
+    if (!reusable.has(chunk.contentHash)) {
+      reusable.set(chunk.contentHash, chunk.id);
+    }
+  }
+
+  const plan: ChunkChangePlan<T> = {
+    added: [],
+    kept: [],
+    retired: [],
+    stats: { added: 0, kept: 0, retired: 0, reusedEmbeddings: 0 },
+  };
+  const keptIds = new Set<string>();
+
+  for (const chunk of next) {
+    const id = live.get(chunk.contentHash)?.shift();
+    if (id) {
+      keptIds.add(id);
+      plan.kept.push({ chunk, id });
+      continue;
+    }
+
+    const reuseEmbeddingFrom = reusable.get(chunk.contentHash);
+    plan.added.push({ chunk, reuseEmbeddingFrom });
+    if (reuseEmbeddingFrom) {
+      plan.stats.reusedEmbeddings++;
+    }
+  }
+
+  plan.retired = stored.filter(chunk => !chunk.retired && !keptIds.has(chunk.id)).map(chunk => chunk.id);
+  plan.stats.added = plan.added.length;
+  plan.stats.kept = plan.kept.length;
+  plan.stats.retired = plan.retired.length;
+
+  return plan;
+}
+
+export class DocumentVersionService {
+  constructor(
+    private client: SupabaseClient<any, any, any>,
+    private queue: DocumentProcessingQueue = new DocumentProcessingQueue(client)
+  ) {}
+
+  /**
+   * Versions of a document, newest first
+   */
+  async getVersions(documentId: string, limit: number = 50): Promise<DocumentVersion[]> {
+    const { data, error } = await this.client
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to load versions of document ${documentId}: ${error.message}`, documentId);
+    }
+
+    return (data || []).map(row => this.versionFromRow(row));
+  }
+
+  async getVersion(documentId: string, versionNumber: number): Promise<DocumentVersion | null> {
+    const { data, error } = await this.client
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('version_number', versionNumber)
+      .maybeSingle();
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to load version ${versionNumber} of document ${documentId}: ${error.message}`, documentId);
+    }
+
+    return data ? this.versionFromRow(data) : null;
+  }
+
+  async getLatestVersion(documentId: string): Promise<DocumentVersion | null> {
+    const [latest] = await this.getVersions(documentId, 1);
+    return latest || null;
+  }
+
+  /**
+   * The document a re-upload of a file with this name adds a version to
+   */
+  async findDocumentByName(knowledgeBaseId: string, name: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('documents')
+      .select('id')
+      .eq('knowledge_base_id', knowledgeBaseId)
+      .eq('name', name)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to look up document ${name}: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? data[0].id : null;
+  }
+
+  async createVersion(params: CreateDocumentVersionParams): Promise<DocumentVersion> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.getLatestVersion(params.documentId);
+
+      const { data, error } = await this.client
+        .from('document_versions')
+        .insert({
+          document_id: params.documentId,
+          version_number: (latest?.versionNumber || 0) + 1,
+          file_name: params.fileName,
+          storage_path: params.storagePath,
+          size_bytes: params.sizeBytes ?? null,
+          content_hash: params.contentHash ?? null,
+          status: 'pending',
+          restored_from: params.restoredFrom ?? null,
+          created_by: params.userId ?? null,
+        })
+        .select('*')
+        .single();
+
+      if (!error && data) {
+        return this.versionFromRow(data);
+      }
+      if (error?.code !== UNIQUE_VIOLATION || attempt >= MAX_VERSION_ATTEMPTS) {
+        throw new DocumentVersionError(
+          `Failed to create a version of document ${params.documentId}: ${error?.message || 'no row returned'}`,
+          params.documentId
+        );
+      }
+    }
+  }
+
+  /**
+   * Make an earlier version current again by adding a version with its file.
+   * Chunks it shares with retired chunks take their embeddings.
+   */
+  async restoreVersion(documentId: string, versionNumber: number, userId?: string): Promise<DocumentVersion> {
+    const { data: document, error } = await this.client
+      .from('documents')
+      .select('id, knowledge_base_id, user_id, current_version')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (error || !document) {
+      throw new DocumentVersionError(`Document ${documentId} not found${error ? `: ${error.message}` : ''}`, documentId);
+    }
+
+    const target = await this.getVersion(documentId, versionNumber);
+    if (!target) {
+      throw new DocumentVersionError(`Version ${versionNumber} of document ${documentId} not found`, documentId);
+    }
+    if (document.current_version === versionNumber) {
+      throw new DocumentVersionError(`Version ${versionNumber} is already the current version`, documentId);
+    }
+
+    const version = await this.createVersion({
+      documentId,
+      fileName: target.fileName,
+      storagePath: target.storagePath,
+      sizeBytes: target.sizeBytes,
+      contentHash: target.contentHash,
+      userId,
+      restoredFrom: versionNumber,
+    });
+
+    const { error: updateError } = await this.client
+      .from('documents')
+      .update({
+        storage_path: target.storagePath,
+        size_bytes: target.sizeBytes ?? null,
+        status: 'processing',
+      })
+      .eq('id', documentId);
+
+    if (updateError) {
+      throw new DocumentVersionError(`Failed to update document ${documentId}: ${updateError.message}`, documentId);
+    }
+
+    await this.queue.enqueue({
+      documentId,
+      knowledgeBaseId: document.knowledge_base_id,
+      userId: document.user_id,
+      fileName: target.fileName,
+      storagePath: target.storagePath,
+      versionNumber: version.versionNumber,
+    });
+
+    return version;
+  }
+
+  /**
+   * Live and retired chunks of a document. Chunks stored before content hashes
+   * were recorded are hashed from their content.
+   */
+  async getChunks(documentId: string): Promise<StoredChunk[]> {
+    const { data, error } = await this.client
+      .from('document_chunks')
+      .select('id, content, content_hash, metadata, retired_at')
+      .eq('document_id', documentId)
+      .order('start_index', { ascending: true });
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to load chunks of document ${documentId}: ${error.message}`, documentId);
+    }
+
+    return Promise.all((data || []).map(async row => ({
+      id: row.id,
+      contentHash: row.content_hash || await hashChunkContent(row.content || ''),
+      embeddingModel: row.metadata?.embeddingModel,
+      retired: !!row.retired_at,
+    })));
+  }
+
+  /**
+   * Stored embeddings by chunk id, in the vector literal form they are written back in
+   */
+  async getEmbeddings(chunkIds: string[]): Promise<Map<string, string>> {
+    if (chunkIds.length === 0) return new Map();
+
+    const { data, error } = await this.client
+      .from('document_chunks')
+      .select('id, embedding')
+      .in('id', chunkIds);
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to load chunk embeddings: ${error.message}`);
+    }
+
+    return new Map((data || [])
+      .filter(row => row.embedding)
+      .map(row => [row.id, typeof row.embedding === 'string' ? row.embedding : JSON.stringify(row.embedding)]));
+  }
+
+  /**
+   * Swap the live chunks of a document in one transaction. Returns false when a
+   * newer version went live first and this one was superseded instead.
+   */
+  async applyChunkChanges(documentId: string, versionNumber: number | undefined, changes: ChunkChanges): Promise<boolean> {
+    const { data, error } = await this.client.rpc('apply_document_chunk_changes', {
+      doc_id: documentId,
+      version: versionNumber ?? null,
+      new_chunks: changes.newChunks,
+      kept_chunks: changes.keptChunks,
+      retired_chunk_ids: changes.retiredChunkIds,
+      change_stats: changes.stats,
+    });
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to update the chunks of document ${documentId}: ${error.message}`, documentId);
+    }
+
+    return data !== false;
+  }
+
+  async markVersionFailed(documentId: string, versionNumber: number, message: string): Promise<void> {
+    const { error } = await this.client
+      .from('document_versions')
+      .update({ status: 'failed', error: message })
+      .eq('document_id', documentId)
+      .eq('version_number', versionNumber)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new DocumentVersionError(`Failed to update version ${versionNumber} of document ${documentId}: ${error.message}`, documentId);
+    }
+  }
+
+  private versionFromRow(row: any): DocumentVersion {
+    return {
+      id: row.id,
+      documentId: row.document_id,
+      versionNumber: row.version_number,
+      fileName: row.file_name,
+      storagePath: row.storage_path,
+      sizeBytes: row.size_bytes ?? undefined,
+      contentHash: row.content_hash || undefined,
+      status: row.status,
+      restoredFrom: row.restored_from ?? undefined,
+      stats: row.stats || undefined,
+      error: row.error || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+      activatedAt: row.activated_at || undefined,
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import { getEnv } from './env';
+
 /**
  * ElevenLabs Voice Service
  * Basic implementation for voice synthesis
@@ -21,7 +23,7 @@ class ElevenLabsService {
   private baseURL = 'https://api.elevenlabs.io/v1';
 
   constructor() {
-    this.apiKey = import.meta.env.VITE_ELEVENLABS_API_KEY || '';
+    this.apiKey = getEnv('VITE_ELEVENLABS_API_KEY') || '';
     if (!this.apiKey) {
       console.warn('ElevenLabs API key not found. Voice features will not work.');
     }
@@ -1,6 +1,8 @@
+import { getEnv } from "./env";
+
 // ElevenLabs API Integration
 const ELEVENLABS_API_KEY =
-  import.meta.env.VITE_ELEVENLABS_API_KEY || "your-api-key";
+  getEnv('VITE_ELEVENLABS_API_KEY') || "your-api-key";
 const ELEVENLABS_BASE_URL = "https://api.elevenlabs.io/v1";
 
 export interface Voice {
@@ -0,0 +1,183 @@
+/**
+ * Embedding providers used to vectorise document chunks and search queries.
+ *
+ * The module deliberately has no Supabase or `import.meta.env` dependency so it
+ * can be shared between the browser bundle and the Netlify functions.
+ */
+
+// Matches the VECTOR(1536) column on document_chunks
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: 'openai' | 'local';
+  openaiApiKey?: string;
+  model?: string;
+  batchSize?: number;
+}
+
+/**
+ * OpenAI embeddings API provider
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = 'openai';
+  model: string;
+  dimensions = EMBEDDING_DIMENSIONS;
+  private apiKey: string;
+  private batchSize: number;
+
+  constructor(apiKey: string, model: string = 'text-embedding-3-small', batchSize: number = 96) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.batchSize = batchSize;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: batch,
+          dimensions: this.dimensions,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding request failed (${response.status}): ${errorText}`);
+      }
+
+      const result = await response.json();
+      const ordered = [...result.data].sort((a: any, b: any) => a.index - b.index);
+      ordered.forEach((item: any) => embeddings.push(item.embedding));
+    }
+
+    return embeddings;
+  }
+}
+
+/**
+ * Deterministic local provider based on feature hashing.
+ * Needs no network access, which makes it suitable for tests and offline development.
+ * Texts sharing words and word pairs end up close in cosine space.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  name = 'local';
+  model = 'local-hash-v1';
+  dimensions: number;
+
+  constructor(dimensions: number = EMBEDDING_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[index] += sign * weight;
+    };
+
+    tokens.forEach((token, i) => {
+      addFeature(token, 1);
+      if (i > 0) {
+        addFeature(`${tokens[i - 1]} ${token}`, 0.5);
+      }
+    });
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Create an embedding provider. Without an API key the local provider has to be
+ * chosen explicitly: chunks and queries embedded by different models are not
+ * comparable, so a missing key must not quietly switch models.
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = {}): EmbeddingProvider {
+  const provider = config.provider || (config.openaiApiKey ? 'openai' : undefined);
+
+  if (provider === 'openai') {
+    if (!config.openaiApiKey) {
+      throw new Error('OpenAI API key is required for the openai embedding provider');
+    }
+    return new OpenAIEmbeddingProvider(config.openaiApiKey, config.model, config.batchSize);
+  }
+
+  if (provider === 'local') {
+    return new LocalEmbeddingProvider();
+  }
+
+  throw new Error('No embedding provider configured: set an OpenAI API key or select the local provider');
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Serialize a vector into the pgvector text format
+ */
+export function toPgVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
@@ -0,0 +1,11 @@
+/**
+ * Environment variables for modules shared by the app and the Netlify
+ * functions. Vite defines import.meta.env; the functions that run the workflow
+ * engine are bundled without it and read process.env instead.
+ */
+
+export const viteEnv: Record<string, any> | undefined = import.meta.env;
+
+export function getEnv(name: string): string | undefined {
+  return viteEnv ? viteEnv[name] : process.env[name];
+}
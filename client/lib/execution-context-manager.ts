@@ -44,6 +44,18 @@ export interface VariableAccessLog {
   newValue?: any;
 }
 
+// What can be shown about a variable without reading it; encrypted values are left out
+export interface ScopeVariableInfo {
+  name: string;
+  type: ContextVariable['type'];
+  scope: string;
+  scopeType: ContextScope['type'];
+  readonly: boolean;
+  encrypted: boolean;
+  description?: string;
+  value?: any;
+}
+
 export interface ContextSnapshot {
   id: string;
   executionId: string;
@@ -124,6 +136,8 @@ export class ExecutionContextManager {
         'global',
         { workflowId, executionId }
       );
+      // Re-key the scope under its stable id
+      this.scopes.delete(scope.id);
       scope.id = scopeId;
       this.scopes.set(scopeId, scope);
     }
@@ -145,6 +159,8 @@ export class ExecutionContextManager {
         workflowScopeId || 'global',
         { conversationId }
       );
+      // Re-key the scope under its stable id
+      this.scopes.delete(scope.id);
       scope.id = scopeId;
       this.scopes.set(scopeId, scope);
     }
@@ -152,6 +168,38 @@ export class ExecutionContextManager {
     return scope;
   }
 
+  /**
+   * Get or create session scope
+   */
+  getSessionScope(sessionId: string, parentScopeId?: string): ContextScope {
+    const scopeId = `session_${sessionId}`;
+    let scope = this.scopes.get(scopeId);
+
+    if (!scope) {
+      scope = this.createScope(
+        `Session ${sessionId}`,
+        'session',
+        parentScopeId || 'global',
+        { sessionId }
+      );
+      // Re-key the scope under its stable id
+      this.scopes.delete(scope.id);
+      scope.id = scopeId;
+      this.scopes.set(scopeId, scope);
+    }
+
+    return scope;
+  }
+
+  /**
+   * Remove a scope and its child scopes, e.g. once an execution has finished
+   */
+  releaseScope(scopeId: string): void {
+    if (scopeId !== 'global') {
+      this.destroyScope(scopeId);
+    }
+  }
+
   /**
    * Set variable in scope
    */
@@ -282,6 +330,36 @@ export class ExecutionContextManager {
     return true;
   }
 
+  /**
+   * Get a variable's flags without reading its value (with inheritance)
+   */
+  getVariableInfo(scopeId: string, name: string): ScopeVariableInfo | null {
+    const variable = this.findVariable(scopeId, name);
+    return variable ? this.describeVariable(variable, false) : null;
+  }
+
+  /**
+   * Describe the variables visible from a scope (with inheritance). Values are
+   * included except for encrypted variables; reads are not access-logged.
+   */
+  describeVariables(scopeId: string): ScopeVariableInfo[] {
+    const described: Map<string, ScopeVariableInfo> = new Map();
+    const chain: ContextScope[] = [];
+
+    for (let scope = this.scopes.get(scopeId); scope; scope = scope.parent) {
+      chain.unshift(scope);
+    }
+
+    // Parents first so child variables override
+    chain.forEach(scope => {
+      scope.variables.forEach((variable, name) => {
+        described.set(name, this.describeVariable(variable, true));
+      });
+    });
+
+    return Array.from(described.values());
+  }
+
   /**
    * Get all variables in scope (with inheritance)
    */
@@ -459,6 +537,19 @@ export class ExecutionContextManager {
     return null;
   }
 
+  private describeVariable(variable: ContextVariable, withValue: boolean): ScopeVariableInfo {
+    return {
+      name: variable.name,
+      type: variable.type,
+      scope: variable.scope,
+      scopeType: this.scopes.get(variable.scope)?.type || 'local',
+      readonly: variable.readonly,
+      encrypted: variable.encrypted,
+      description: variable.metadata.description,
+      ...(withValue && !variable.encrypted ? { value: variable.value } : {})
+    };
+  }
+
   private inferType(value: any): ContextVariable['type'] {
     if (typeof value === 'string') return 'string';
     if (typeof value === 'number') return 'number';
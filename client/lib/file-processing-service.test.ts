@@ -1,5 +1,27 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { fileProcessingService, FileProcessingService } from './file-processing-service';
+import { setOcrEngine, type OcrResult } from './ocr-service';
+import { setEmbeddingProvider } from './knowledge-base-service';
+import { LocalEmbeddingProvider } from './embedding-service';
+
+// Pages of the mocked PDF: text layer per page
+const pdfPages = vi.hoisted(() => ({ texts: [] as string[] }));
+
+vi.mock('pdfjs-dist', () => ({
+  GlobalWorkerOptions: {},
+  getDocument: () => ({
+    promise: Promise.resolve({
+      numPages: pdfPages.texts.length,
+      getPage: async (pageNumber: number) => ({
+        pageNumber,
+        getTextContent: async () => ({ items: [{ str: pdfPages.texts[pageNumber - 1] }] }),
+        getOperatorList: async () => ({}),
+        getViewport: () => ({ width: 100, height: 100 }),
+        render: () => ({ promise: Promise.resolve() }),
+      }),
+    }),
+  }),
+}));
 
 // Mock Supabase
 vi.mock('./supabase', () => ({
@@ -15,14 +37,17 @@ vi.mock('./supabase', () => ({
 describe('FileProcessingService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    setEmbeddingProvider(new LocalEmbeddingProvider());
   });
 
   describe('getSupportedFileTypes', () => {
     it('should return all supported file types', () => {
       const supportedTypes = fileProcessingService.getSupportedFileTypes();
       
-      expect(supportedTypes).toHaveLength(5);
-      expect(supportedTypes.map(t => t.type)).toEqual(['pdf', 'docx', 'xlsx', 'image', 'text']);
+      expect(supportedTypes).toHaveLength(12);
+      expect(supportedTypes.map(t => t.type)).toEqual([
+        'pdf', 'docx', 'xlsx', 'image', 'pptx', 'html', 'markdown', 'epub', 'csv', 'json', 'email', 'text',
+      ]);
     });
   });
 
@@ -240,6 +265,57 @@ describe('FileProcessingService', () => {
   });
 });
 
+describe('OCR', () => {
+  const recognized = (text: string, confidence: number): OcrResult => ({
+    engine: 'fake',
+    languages: ['deu'],
+    confidence,
+    blocks: [{ text, confidence, words: text.split(' ').map(word => ({ text: word, confidence })) }],
+  });
+
+  it('should extract the text of an image with the configured languages', async () => {
+    const recognize = vi.fn(async () => recognized('Garantie zwei Jahre', 0.9));
+    setOcrEngine({ name: 'fake', recognize });
+
+    const processor = fileProcessingService.getProcessorForFile('receipt.png')!;
+    const result = await processor.processor(Buffer.from('png'), 'receipt.png', { ocr: { languages: ['de'] } });
+
+    expect(recognize).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ languages: ['deu'] }));
+    expect(result.text).toBe('Garantie zwei Jahre');
+    expect(result.chunks[0].metadata).toMatchObject({
+      type: 'image',
+      confidence: 0.9,
+      ocr: { engine: 'fake', wordConfidence: 0.9, blockConfidence: 0.9, words: 3 },
+    });
+  });
+
+  it('should OCR the pages of a PDF that have no text layer', async () => {
+    class FakeCanvas {
+      constructor(public width: number, public height: number) {}
+      getContext() { return {}; }
+    }
+    vi.stubGlobal('OffscreenCanvas', FakeCanvas);
+    const recognize = vi.fn(async (_image: unknown) => recognized('Scanned installation manual', 0.7));
+    setOcrEngine({ name: 'fake', recognize });
+    pdfPages.texts = ['This page has a proper text layer with plenty of characters in it.', ''];
+
+    try {
+      const processor = fileProcessingService.getProcessorForFile('manual.pdf')!;
+      const result = await processor.processor(Buffer.from('%PDF'), 'manual.pdf');
+
+      expect(recognize).toHaveBeenCalledTimes(1);
+      expect(recognize.mock.calls[0][0]).toBeInstanceOf(FakeCanvas);
+
+      const [textChunk, scannedChunk] = result.chunks;
+      expect(textChunk.metadata.ocr).toBeUndefined();
+      expect(scannedChunk.content).toBe('Scanned installation manual');
+      expect(scannedChunk.metadata).toMatchObject({ page: 2, confidence: 0.7, ocr: { wordConfidence: 0.7 } });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
 describe('Utility functions', () => {
   describe('formatProcessingTime', () => {
     it('should format processing time correctly', async () => {
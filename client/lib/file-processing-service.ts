@@ -1,11 +1,40 @@
 import { supabase } from './supabase';
+import { getEmbeddingProvider } from './knowledge-base-service';
+import { toPgVector } from './embedding-service';
+import { chunkContent, getSegmentOffsets, type ChunkingOptions, type ChunkingStrategy, type ChunkSegment } from './chunking-engine';
+import {
+  applyOcrConfidence,
+  getOcrEngine,
+  layoutOcrText,
+  resolveOcrSettings,
+  type OcrChunkConfidence,
+  type OcrLayout,
+  type OcrOptions,
+  type OcrResult,
+  type OcrSettings,
+} from './ocr-service';
+import {
+  CSVProcessor,
+  EmailProcessor,
+  EPUBProcessor,
+  HTMLProcessor,
+  JSONProcessor,
+  MarkdownProcessor,
+  PPTXProcessor,
+} from './document-format-processors';
 
 export interface FileProcessor {
   type: string;
   extensions: string[];
   mimeTypes: string[];
   icon: string;
-  processor: (file: File | Buffer, fileName: string) => Promise<ProcessedContent>;
+  // Strategy used when neither the caller nor the knowledge base picks one
+  defaultChunkingStrategy?: ChunkingStrategy;
+  processor: (file: File | Buffer, fileName: string, options?: ProcessorOptions) => Promise<ProcessedContent>;
+}
+
+export interface ProcessorOptions extends ChunkingOptions {
+  ocr?: OcrOptions;
 }
 
 export interface ProcessedContent {
@@ -28,10 +57,16 @@ export interface ContentChunk {
 
 export interface ChunkMetadata {
   page?: number;
+  pageEnd?: number;
   section?: string;
+  headings?: string[];
+  strategy?: ChunkingStrategy;
   type: 'text' | 'table' | 'image' | 'header';
   confidence: number;
   language?: string;
+  embeddingModel?: string;
+  // Set on chunks built from OCR'd text
+  ocr?: OcrChunkConfidence;
 }
 
 export interface FileMetadata {
@@ -90,26 +125,34 @@ export interface ProcessingError {
 }
 
 export interface ProcessingOptions {
+  chunkingStrategy?: ChunkingStrategy; // Defaults to the processor's preferred strategy
   chunkSize?: number; // Default 1000 tokens
   chunkOverlap?: number; // Default 200 tokens
   enableImageExtraction?: boolean;
   enableTableExtraction?: boolean;
   language?: string;
+  // OCR for images and scanned PDF pages; languages default to `language`
+  ocr?: OcrOptions;
   onProgress?: (status: ProcessingStatus) => void;
   onComplete?: (result: ProcessedContent) => void;
   onError?: (error: ProcessingError) => void;
 }
 
 /**
- * PDF processor using PDF.js
+ * PDF processor using PDF.js. Pages with (almost) no text layer, such as
+ * scanned pages, are rendered and OCR'd instead.
  */
 class PDFProcessor implements FileProcessor {
   type = 'pdf';
   extensions = ['.pdf'];
   mimeTypes = ['application/pdf'];
   icon = '📄';
+  defaultChunkingStrategy: ChunkingStrategy = 'sentence';
+
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    const { ocr, ...chunking } = options;
+    const ocrSettings = resolveOcrSettings(ocr);
 
-  async processor(file: File | Buffer, fileName: string): Promise<ProcessedContent> {
     try {
       // Import PDF.js dynamically
       const pdfjsLib = await import('pdfjs-dist');
@@ -121,6 +164,8 @@ class PDFProcessor implements FileProcessor {
       const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
       
       let fullText = '';
+      const segments: ChunkSegment[] = [];
+      const ocrPages: Array<{ segmentIndex: number; layout: OcrLayout; result: OcrResult }> = [];
       const images: ExtractedImage[] = [];
       const tables: ExtractedTable[] = [];
       const metadata: FileMetadata = {
@@ -142,7 +187,16 @@ class PDFProcessor implements FileProcessor {
           }
         });
 
+        if (pageText.replace(/\s/g, '').length < ocrSettings.pdfFallbackMinChars) {
+          const recognized = await this.recognizePage(page, ocrSettings);
+          if (recognized && recognized.layout.text) {
+            pageText = recognized.layout.text;
+            ocrPages.push({ segmentIndex: segments.length, ...recognized });
+          }
+        }
+
         fullText += `\n--- Page ${pageNum} ---\n${pageText}\n`;
+        segments.push({ text: pageText, page: pageNum });
 
         // Extract images if enabled
         const operatorList = await page.getOperatorList();
@@ -150,8 +204,21 @@ class PDFProcessor implements FileProcessor {
         // In a real implementation, you'd extract actual images
       }
 
-      // Create chunks
-      const chunks = this.createChunks(fullText, fileName);
+      // Chunks never span pages, so each one keeps its page number
+      const chunks = chunkContent(
+        { fileName, segments, tables },
+        { ...chunking, strategy: chunking.strategy || this.defaultChunkingStrategy }
+      );
+
+      if (ocrPages.length > 0) {
+        const offsets = getSegmentOffsets(segments);
+        applyOcrConfidence(chunks, ocrPages.map(({ segmentIndex, layout, result }) => ({
+          offset: offsets[segmentIndex],
+          layout,
+          result,
+        })));
+        metadata.language = ocrSettings.languages.join('+');
+      }
 
       return {
         text: fullText,
@@ -165,35 +232,28 @@ class PDFProcessor implements FileProcessor {
     }
   }
 
-  private createChunks(text: string, fileName: string): ContentChunk[] {
-    const chunkSize = 1000; // tokens
-    const overlap = 200;
-    const chunks: ContentChunk[] = [];
-    
-    // Simple text splitting (in production, use proper tokenization)
-    const words = text.split(/\s+/);
-    const wordsPerChunk = Math.floor(chunkSize * 0.75); // Rough token estimation
-    
-    for (let i = 0; i < words.length; i += wordsPerChunk - overlap) {
-      const chunkWords = words.slice(i, i + wordsPerChunk);
-      const chunkText = chunkWords.join(' ');
-      
-      if (chunkText.trim()) {
-        chunks.push({
-          id: `${fileName}-chunk-${chunks.length}`,
-          content: chunkText,
-          startIndex: i,
-          endIndex: i + chunkWords.length,
-          tokens: chunkWords.length,
-          metadata: {
-            type: 'text',
-            confidence: 1.0,
-          },
-        });
-      }
+  /**
+   * Render a page and OCR it. Returns null where pages cannot be rendered
+   * (no canvas available) or OCR fails, so the page keeps its extracted text.
+   */
+  private async recognizePage(page: any, settings: OcrSettings): Promise<{ layout: OcrLayout; result: OcrResult } | null> {
+    try {
+      const viewport = page.getViewport({ scale: settings.pdfRenderScale });
+      const canvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(viewport.width, viewport.height)
+        : typeof document !== 'undefined'
+          ? Object.assign(document.createElement('canvas'), { width: viewport.width, height: viewport.height })
+          : null;
+      if (!canvas) return null;
+
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+      const result = await getOcrEngine().recognize(canvas, settings);
+      return { layout: layoutOcrText(result), result };
+    } catch (error) {
+      console.error(`OCR of PDF page ${page.pageNumber} failed:`, error);
+      return null;
     }
-
-    return chunks;
   }
 }
 
@@ -205,14 +265,18 @@ class DOCXProcessor implements FileProcessor {
   extensions = ['.docx'];
   mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
   icon = '📝';
+  defaultChunkingStrategy: ChunkingStrategy = 'markdown';
 
-  async processor(file: File | Buffer, fileName: string): Promise<ProcessedContent> {
+  async processor(file: File | Buffer, fileName: string, options: ChunkingOptions = {}): Promise<ProcessedContent> {
     try {
       // Import mammoth dynamically
       const mammoth = await import('mammoth');
       
       const arrayBuffer = file instanceof File ? await file.arrayBuffer() : file.buffer;
       const result = await mammoth.extractRawText({ arrayBuffer });
+      // Headings from the HTML conversion drive structure-aware chunking
+      const html = await mammoth.convertToHtml({ arrayBuffer: arrayBuffer as ArrayBuffer });
+      const markdown = this.htmlToMarkdown(html.value);
       
       const metadata: FileMetadata = {
         fileName,
@@ -220,7 +284,10 @@ class DOCXProcessor implements FileProcessor {
         mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       };
 
-      const chunks = this.createChunks(result.value, fileName);
+      const chunks = chunkContent(
+        { fileName, segments: [{ text: markdown }] },
+        { ...options, strategy: options.strategy || this.defaultChunkingStrategy }
+      );
 
       return {
         text: result.value,
@@ -232,34 +299,23 @@ class DOCXProcessor implements FileProcessor {
     }
   }
 
-  private createChunks(text: string, fileName: string): ContentChunk[] {
-    const chunkSize = 1000;
-    const overlap = 200;
-    const chunks: ContentChunk[] = [];
-    
-    const words = text.split(/\s+/);
-    const wordsPerChunk = Math.floor(chunkSize * 0.75);
-    
-    for (let i = 0; i < words.length; i += wordsPerChunk - overlap) {
-      const chunkWords = words.slice(i, i + wordsPerChunk);
-      const chunkText = chunkWords.join(' ');
-      
-      if (chunkText.trim()) {
-        chunks.push({
-          id: `${fileName}-chunk-${chunks.length}`,
-          content: chunkText,
-          startIndex: i,
-          endIndex: i + chunkWords.length,
-          tokens: chunkWords.length,
-          metadata: {
-            type: 'text',
-            confidence: 1.0,
-          },
-        });
-      }
-    }
-
-    return chunks;
+  private htmlToMarkdown(html: string): string {
+    return html
+      .replace(/<h([1-6])[^>]*>(.*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+      // Table rows become markdown rows so the chunker keeps them together
+      .replace(/<\/p>(?=\s*<\/t[dh]>)/gi, '')
+      .replace(/<tr[^>]*>/gi, '| ')
+      .replace(/<\/t[dh]>/gi, ' |')
+      .replace(/<\/tr>/gi, '\n')
+      .replace(/<\/(p|li|table)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
   }
 }
 
@@ -271,8 +327,9 @@ class XLSXProcessor implements FileProcessor {
   extensions = ['.xlsx', '.xls'];
   mimeTypes = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel'];
   icon = '📊';
+  defaultChunkingStrategy: ChunkingStrategy = 'table';
 
-  async processor(file: File | Buffer, fileName: string): Promise<ProcessedContent> {
+  async processor(file: File | Buffer, fileName: string, options: ChunkingOptions = {}): Promise<ProcessedContent> {
     try {
       // Import xlsx dynamically
       const XLSX = await import('xlsx');
@@ -281,6 +338,7 @@ class XLSXProcessor implements FileProcessor {
       const workbook = XLSX.read(arrayBuffer, { type: 'array' });
       
       let fullText = '';
+      const segments: ChunkSegment[] = [];
       const tables: ExtractedTable[] = [];
       
       workbook.SheetNames.forEach((sheetName, index) => {
@@ -291,20 +349,23 @@ class XLSXProcessor implements FileProcessor {
           const headers = jsonData[0] || [];
           const rows = jsonData.slice(1);
           
+          const tableId = `${fileName}-table-${index}`;
+
           // Add to tables
           tables.push({
-            id: `${fileName}-table-${index}`,
+            id: tableId,
             headers,
             rows,
             caption: `Sheet: ${sheetName}`,
           });
           
           // Convert to text
-          fullText += `\n--- Sheet: ${sheetName} ---\n`;
-          fullText += headers.join('\t') + '\n';
+          let sheetText = headers.join('\t') + '\n';
           rows.forEach(row => {
-            fullText += row.join('\t') + '\n';
+            sheetText += row.join('\t') + '\n';
           });
+          fullText += `\n--- Sheet: ${sheetName} ---\n${sheetText}`;
+          segments.push({ text: sheetText, tableId });
         }
       });
 
@@ -314,7 +375,10 @@ class XLSXProcessor implements FileProcessor {
         mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       };
 
-      const chunks = this.createChunks(fullText, fileName);
+      const chunks = chunkContent(
+        { fileName, segments, tables, chunkType: 'table' },
+        { ...options, strategy: options.strategy || this.defaultChunkingStrategy }
+      );
 
       return {
         text: fullText,
@@ -326,34 +390,6 @@ class XLSXProcessor implements FileProcessor {
       throw new Error(`XLSX processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-
-  private createChunks(text: string, fileName: string): ContentChunk[] {
-    const chunks: ContentChunk[] = [];
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    // Group lines into chunks of reasonable size
-    const linesPerChunk = 50;
-    for (let i = 0; i < lines.length; i += linesPerChunk) {
-      const chunkLines = lines.slice(i, i + linesPerChunk);
-      const chunkText = chunkLines.join('\n');
-      
-      if (chunkText.trim()) {
-        chunks.push({
-          id: `${fileName}-chunk-${chunks.length}`,
-          content: chunkText,
-          startIndex: i,
-          endIndex: i + chunkLines.length,
-          tokens: chunkText.split(/\s+/).length,
-          metadata: {
-            type: 'table',
-            confidence: 1.0,
-          },
-        });
-      }
-    }
-
-    return chunks;
-  }
 }
 
 /**
@@ -365,31 +401,39 @@ class ImageProcessor implements FileProcessor {
   mimeTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/webp'];
   icon = '🖼️';
 
-  async processor(file: File | Buffer, fileName: string): Promise<ProcessedContent> {
+  async processor(file: File | Buffer, fileName: string, options: ProcessorOptions = {}): Promise<ProcessedContent> {
+    const { ocr, ...chunking } = options;
+
     try {
-      // For now, we'll use a simple image description
-      // In production, you'd use OCR (Tesseract.js) or vision APIs
-      
       const arrayBuffer = file instanceof File ? await file.arrayBuffer() : file.buffer;
       const base64 = Buffer.from(arrayBuffer).toString('base64');
-      
-      // Placeholder for OCR text extraction
-      const extractedText = `Image: ${fileName}\nThis image contains visual content that may include text, diagrams, or other visual elements.`;
+      const ocrSettings = resolveOcrSettings(ocr);
+
+      const result = await getOcrEngine().recognize(file instanceof File ? file : Buffer.from(arrayBuffer), ocrSettings);
+      const layout = layoutOcrText(result);
+
+      // Images without text stay findable by name
+      const extractedText = layout.text || `Image: ${fileName}`;
       
       const metadata: FileMetadata = {
         fileName,
         fileSize: arrayBuffer.byteLength,
         mimeType: file instanceof File ? file.type : 'image/jpeg',
+        language: ocrSettings.languages.join('+'),
       };
 
       const images: ExtractedImage[] = [{
         id: `${fileName}-image-0`,
-        description: 'Main image content',
+        description: layout.text ? `Image text recognised by ${result.engine}` : 'No text recognised in the image',
         base64,
         mimeType: metadata.mimeType,
       }];
 
-      const chunks = this.createChunks(extractedText, fileName);
+      const chunks = chunkContent(
+        { fileName, segments: [{ text: extractedText }], chunkType: 'image', confidence: layout.text ? result.confidence : 0 },
+        { ...chunking, strategy: chunking.strategy || 'sentence' }
+      );
+      applyOcrConfidence(chunks, [{ offset: 0, layout, result }]);
 
       return {
         text: extractedText,
@@ -401,20 +445,6 @@ class ImageProcessor implements FileProcessor {
       throw new Error(`Image processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-
-  private createChunks(text: string, fileName: string): ContentChunk[] {
-    return [{
-      id: `${fileName}-chunk-0`,
-      content: text,
-      startIndex: 0,
-      endIndex: text.length,
-      tokens: text.split(/\s+/).length,
-      metadata: {
-        type: 'image',
-        confidence: 0.8,
-      },
-    }];
-  }
 }
 
 /**
@@ -422,11 +452,12 @@ class ImageProcessor implements FileProcessor {
  */
 class TextProcessor implements FileProcessor {
   type = 'text';
-  extensions = ['.txt', '.md', '.csv'];
-  mimeTypes = ['text/plain', 'text/markdown', 'text/csv'];
+  extensions = ['.txt', '.text', '.log'];
+  mimeTypes = ['text/plain'];
   icon = '📄';
+  defaultChunkingStrategy: ChunkingStrategy = 'fixed';
 
-  async processor(file: File | Buffer, fileName: string): Promise<ProcessedContent> {
+  async processor(file: File | Buffer, fileName: string, options: ChunkingOptions = {}): Promise<ProcessedContent> {
     try {
       const text = file instanceof File 
         ? await file.text() 
@@ -438,7 +469,10 @@ class TextProcessor implements FileProcessor {
         mimeType: file instanceof File ? file.type : 'text/plain',
       };
 
-      const chunks = this.createChunks(text, fileName);
+      const chunks = chunkContent(
+        { fileName, segments: [{ text }] },
+        { ...options, strategy: options.strategy || this.defaultChunkingStrategy }
+      );
 
       return {
         text,
@@ -449,36 +483,6 @@ class TextProcessor implements FileProcessor {
       throw new Error(`Text processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-
-  private createChunks(text: string, fileName: string): ContentChunk[] {
-    const chunkSize = 1000;
-    const overlap = 200;
-    const chunks: ContentChunk[] = [];
-    
-    const words = text.split(/\s+/);
-    const wordsPerChunk = Math.floor(chunkSize * 0.75);
-    
-    for (let i = 0; i < words.length; i += wordsPerChunk - overlap) {
-      const chunkWords = words.slice(i, i + wordsPerChunk);
-      const chunkText = chunkWords.join(' ');
-      
-      if (chunkText.trim()) {
-        chunks.push({
-          id: `${fileName}-chunk-${chunks.length}`,
-          content: chunkText,
-          startIndex: i,
-          endIndex: i + chunkWords.length,
-          tokens: chunkWords.length,
-          metadata: {
-            type: 'text',
-            confidence: 1.0,
-          },
-        });
-      }
-    }
-
-    return chunks;
-  }
 }
 
 /**
@@ -507,6 +511,13 @@ export class FileProcessingService {
       new DOCXProcessor(),
       new XLSXProcessor(),
       new ImageProcessor(),
+      new PPTXProcessor(),
+      new HTMLProcessor(),
+      new MarkdownProcessor(),
+      new EPUBProcessor(),
+      new CSVProcessor(),
+      new JSONProcessor(),
+      new EmailProcessor(),
       new TextProcessor(),
     ];
 
@@ -592,7 +603,15 @@ export class FileProcessingService {
         currentStep: 'Extracting content',
       });
 
-      const result = await processor.processor(file, fileName);
+      const result = await processor.processor(file, fileName, {
+        strategy: options.chunkingStrategy,
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+        ocr: {
+          ...options.ocr,
+          languages: options.ocr?.languages || (options.language ? [options.language] : undefined),
+        },
+      });
 
       // Step 2: Create chunks
       this.updateStatus(documentId, {
@@ -695,15 +714,16 @@ export class FileProcessingService {
   }
 
   private async generateEmbeddings(chunks: ContentChunk[]): Promise<void> {
-    // Placeholder for embedding generation
-    // In production, you'd call OpenAI embeddings API or similar
-    for (let i = 0; i < chunks.length; i++) {
-      // Simulate embedding generation
-      chunks[i].embedding = new Array(1536).fill(0).map(() => Math.random());
-      
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+    if (chunks.length === 0) return;
+
+    // Queries are embedded with the same provider, so stored vectors stay comparable
+    const provider = getEmbeddingProvider();
+    const embeddings = await provider.embed(chunks.map(chunk => chunk.content));
+
+    chunks.forEach((chunk, i) => {
+      chunk.embedding = embeddings[i];
+      chunk.metadata.embeddingModel = provider.model;
+    });
   }
 
   private async indexContent(documentId: string, content: ProcessedContent): Promise<void> {
@@ -718,7 +738,7 @@ export class FileProcessingService {
           start_index: chunk.startIndex,
           end_index: chunk.endIndex,
           tokens: chunk.tokens,
-          embedding: chunk.embedding,
+          embedding: chunk.embedding ? toPgVector(chunk.embedding) : null,
           metadata: chunk.metadata,
           created_at: new Date().toISOString(),
         }))
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LocalEmbeddingProvider,
+  createEmbeddingProvider,
+  cosineSimilarity,
+  toPgVector,
+  EMBEDDING_DIMENSIONS,
+} from './embedding-service';
+import {
+  EmbeddingModelMismatchError,
+  KnowledgeBaseRetriever,
+  reciprocalRankFusion,
+  type RetrievedChunk,
+} from './knowledge-base-retrieval';
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('should produce deterministic vectors of the configured dimension', async () => {
+    const [a] = await provider.embed(['Reset your password from the settings page']);
+    const [b] = await provider.embed(['Reset your password from the settings page']);
+
+    expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(a).toEqual(b);
+  });
+
+  it('should rank related text above unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'how do I reset my password',
+      'To reset your password open the account settings page',
+      'Our office is closed on public holidays',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should return unit-length vectors', async () => {
+    const [vector] = await provider.embed(['normalised output']);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+
+    expect(norm).toBeCloseTo(1, 6);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('should refuse to pick a provider without an API key', () => {
+    expect(() => createEmbeddingProvider()).toThrow('No embedding provider configured');
+    expect(createEmbeddingProvider({ provider: 'local' }).name).toBe('local');
+  });
+
+  it('should use OpenAI when an API key is configured', () => {
+    expect(createEmbeddingProvider({ openaiApiKey: 'sk-test' }).name).toBe('openai');
+  });
+
+  it('should require an API key when OpenAI is requested explicitly', () => {
+    expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow('OpenAI API key is required');
+  });
+});
+
+describe('KnowledgeBaseRetriever', () => {
+  const createClient = (result: { data: any; error: any }, keywordResult = result) => ({
+    rpc: vi.fn((fn: string) => Promise.resolve(fn === 'keyword_search_document_chunks' ? keywordResult : result)),
+  });
+
+  const row = (id: string, extra: Record<string, any> = {}) => ({
+    chunk_id: id,
+    document_id: 'doc-1',
+    document_name: 'faq.pdf',
+    knowledge_base_id: 'kb-1',
+    content: `content of ${id}`,
+    metadata: {},
+    ...extra,
+  });
+
+  it('should call match_document_chunks with the query embedding and filters', async () => {
+    const client = createClient({ data: [], error: null });
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider());
+
+    await retriever.search(['kb-1', 'kb-2'], 'refund policy', 3, {
+      minSimilarity: 0.2,
+      metadata: { type: 'text' },
+      documentIds: ['doc-1'],
+    }, { mode: 'vector' });
+
+    expect(client.rpc).toHaveBeenCalledWith('match_document_chunks', expect.objectContaining({
+      knowledge_base_ids: ['kb-1', 'kb-2'],
+      match_count: 3,
+      min_similarity: 0.2,
+      metadata_filter: { type: 'text' },
+      document_ids: ['doc-1'],
+      query_model: 'local-hash-v1',
+    }));
+
+    const params = (client.rpc.mock.calls[0] as any[])[1];
+    expect(params.query_embedding.startsWith('[')).toBe(true);
+  });
+
+  it('should map rows to retrieved chunks', async () => {
+    const client = createClient({
+      data: [{
+        chunk_id: 'chunk-1',
+        document_id: 'doc-1',
+        document_name: 'faq.pdf',
+        knowledge_base_id: 'kb-1',
+        content: 'Refunds are processed within 5 days.',
+        metadata: { page: 2 },
+        similarity: 0.82,
+      }],
+      error: null,
+    });
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider());
+
+    const result = await retriever.search(['kb-1'], 'refund', 5, {}, { mode: 'vector' });
+
+    expect(result.provider).toBe('local');
+    expect(result.chunks).toEqual([{
+      chunkId: 'chunk-1',
+      documentId: 'doc-1',
+      documentName: 'faq.pdf',
+      knowledgeBaseId: 'kb-1',
+      content: 'Refunds are processed within 5 days.',
+      metadata: { page: 2 },
+      score: 0.82,
+      scores: { vector: 0.82, vectorRank: 1 },
+    }]);
+  });
+
+  it('should fuse keyword and vector results in hybrid mode', async () => {
+    const client = createClient(
+      { data: [row('a', { similarity: 0.9 }), row('b', { similarity: 0.8 })], error: null },
+      { data: [row('b', { rank: 0.5 }), row('c', { rank: 0.4 })], error: null }
+    );
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider());
+
+    const result = await retriever.search(['kb-1'], 'ERR-4012', 3);
+
+    expect(client.rpc).toHaveBeenCalledTimes(2);
+    expect(result.mode).toBe('hybrid');
+    expect(result.chunks.map(chunk => chunk.chunkId)).toEqual(['b', 'a', 'c']);
+    expect(result.chunks[0].scores).toMatchObject({
+      vector: 0.8,
+      vectorRank: 2,
+      keyword: 0.5,
+      keywordRank: 1,
+    });
+  });
+
+  it('should reorder candidates with a reranker', async () => {
+    const client = createClient({ data: [row('a', { similarity: 0.9 }), row('b', { similarity: 0.8 })], error: null });
+    const reranker = {
+      name: 'test',
+      rerank: vi.fn(async (_query: string, chunks: RetrievedChunk[]) => chunks.map(chunk => chunk.chunkId === 'b' ? 1 : 0)),
+    };
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider(), reranker);
+
+    const result = await retriever.search(['kb-1'], 'refund', 1, {}, { mode: 'vector' });
+
+    expect(result.reranker).toBe('test');
+    expect(result.chunks).toHaveLength(1);
+    expect(result.chunks[0].chunkId).toBe('b');
+    expect(result.chunks[0].scores.rerank).toBe(1);
+    expect((client.rpc.mock.calls[0] as any[])[1].match_count).toBe(4);
+  });
+
+  it('should skip the database for empty queries', async () => {
+    const client = createClient({ data: [], error: null });
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider());
+
+    const result = await retriever.search(['kb-1'], '   ');
+
+    expect(result.chunks).toEqual([]);
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should propagate database errors', async () => {
+    const client = createClient({ data: null, error: { message: 'function does not exist', code: '42883' } });
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider());
+
+    await expect(retriever.search(['kb-1'], 'refund')).rejects.toMatchObject({ code: '42883' });
+  });
+
+  it('should refuse to compare vectors of different embedding models', async () => {
+    const client = createClient(
+      { data: null, error: { message: 'Chunks were embedded with text-embedding-3-small', code: 'EM001' } },
+      { data: [row('a', { rank: 0.5 })], error: null }
+    );
+    const retriever = new KnowledgeBaseRetriever(client as any, new LocalEmbeddingProvider());
+
+    await expect(retriever.search(['kb-1'], 'refund')).rejects.toBeInstanceOf(EmbeddingModelMismatchError);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  const chunk = (id: string): RetrievedChunk => ({
+    chunkId: id,
+    documentId: 'doc-1',
+    documentName: 'doc',
+    knowledgeBaseId: 'kb-1',
+    content: id,
+    metadata: {},
+    score: 0,
+    scores: {},
+  });
+
+  it('should score chunks by the sum of reciprocal ranks', () => {
+    const fused = reciprocalRankFusion([[chunk('a'), chunk('b')], [chunk('b')]], 60);
+
+    expect(fused[0].chunkId).toBe('b');
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61, 10);
+    expect(fused[1].score).toBeCloseTo(1 / 61, 10);
+  });
+});
+
+describe('toPgVector', () => {
+  it('should format vectors for pgvector', () => {
+    expect(toPgVector([0.1, -0.2, 0])).toBe('[0.1,-0.2,0]');
+  });
+});
@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { type EmbeddingProvider, toPgVector } from './embedding-service';
+
+/**
+ * Knowledge base retrieval over document_chunks.
+ *
+ * Takes the Supabase client as a dependency so the same retriever runs in the
+ * browser (user session, RLS applies) and in Netlify functions (service role).
+ */
+
+export type RetrievalMode = 'hybrid' | 'vector' | 'keyword';
+
+export interface RetrievalFilters {
+  documentIds?: string[];
+  // Applies to the vector signal only; keyword hits carry no similarity
+  minSimilarity?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface ChunkScores {
+  vector?: number;
+  vectorRank?: number;
+  keyword?: number;
+  keywordRank?: number;
+  fused?: number;
+  rerank?: number;
+}
+
+export interface RetrievedChunk {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  knowledgeBaseId: string;
+  content: string;
+  metadata: Record<string, any>;
+  score: number;
+  scores: ChunkScores;
+}
+
+export interface RetrievalResult {
+  query: string;
+  chunks: RetrievedChunk[];
+  provider: string;
+  mode: RetrievalMode;
+  reranker?: string;
+  tookMs: number;
+}
+
+/**
+ * Optional second-stage scorer, e.g. a cross-encoder or an LLM judge.
+ * Returns one score per chunk, in the order the chunks were given.
+ */
+export interface Reranker {
+  name: string;
+  rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]>;
+}
+
+export interface RetrievalOptions {
+  mode?: RetrievalMode;
+  reranker?: Reranker | null;
+  // How many candidates each signal contributes, as a multiple of topK
+  candidateMultiplier?: number;
+  rrfK?: number;
+}
+
+const DEFAULT_RRF_K = 60;
+
+// SQLSTATE raised by match_document_chunks when the searched chunks were embedded with another model
+const EMBEDDING_MODEL_MISMATCH = 'EM001';
+
+/**
+ * Thrown instead of comparing a query vector with chunk vectors from another
+ * embedding model, which would return meaningless matches
+ */
+export class EmbeddingModelMismatchError extends Error {
+  constructor(message: string, public readonly queryModel: string) {
+    super(message);
+    this.name = 'EmbeddingModelMismatchError';
+  }
+}
+
+/**
+ * Merge ranked lists with reciprocal-rank fusion: score = sum(1 / (k + rank)).
+ * Signal scores and ranks from every list are kept on the merged chunk.
+ */
+export function reciprocalRankFusion(lists: RetrievedChunk[][], k: number = DEFAULT_RRF_K): RetrievedChunk[] {
+  const merged = new Map<string, RetrievedChunk>();
+
+  lists.forEach(list => {
+    list.forEach((chunk, index) => {
+      const contribution = 1 / (k + index + 1);
+      const existing = merged.get(chunk.chunkId);
+
+      if (existing) {
+        existing.scores = { ...existing.scores, ...chunk.scores };
+        existing.scores.fused = (existing.scores.fused || 0) + contribution;
+      } else {
+        merged.set(chunk.chunkId, {
+          ...chunk,
+          scores: { ...chunk.scores, fused: contribution },
+        });
+      }
+    });
+  });
+
+  return Array.from(merged.values())
+    .map(chunk => ({ ...chunk, score: chunk.scores.fused! }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export class KnowledgeBaseRetriever {
+  private client: SupabaseClient<any, any, any>;
+  private embeddingProvider: EmbeddingProvider;
+  private reranker: Reranker | null;
+
+  constructor(
+    client: SupabaseClient<any, any, any>,
+    embeddingProvider: EmbeddingProvider,
+    reranker: Reranker | null = null
+  ) {
+    this.client = client;
+    this.embeddingProvider = embeddingProvider;
+    this.reranker = reranker;
+  }
+
+  /**
+   * Return the topK chunks most relevant to the query across the given knowledge bases
+   */
+  async search(
+    knowledgeBaseIds: string[],
+    query: string,
+    topK: number = 5,
+    filters: RetrievalFilters = {},
+    options: RetrievalOptions = {}
+  ): Promise<RetrievalResult> {
+    const startedAt = Date.now();
+    const mode = options.mode || 'hybrid';
+    const reranker = options.reranker === undefined ? this.reranker : options.reranker;
+
+    const emptyResult: RetrievalResult = {
+      query,
+      chunks: [],
+      provider: this.embeddingProvider.name,
+      mode,
+      reranker: reranker?.name,
+      tookMs: 0,
+    };
+
+    if (knowledgeBaseIds.length === 0 || !query.trim()) {
+      return emptyResult;
+    }
+
+    // Fusion and reranking both need a wider candidate pool than the final topK
+    const widen = mode === 'hybrid' || reranker;
+    const candidateCount = widen ? topK * (options.candidateMultiplier || 4) : topK;
+
+    const [vectorHits, keywordHits] = await Promise.all([
+      mode === 'keyword' ? Promise.resolve([]) : this.vectorSearch(knowledgeBaseIds, query, candidateCount, filters),
+      mode === 'vector' ? Promise.resolve([]) : this.keywordSearch(knowledgeBaseIds, query, candidateCount, filters),
+    ]);
+
+    let chunks: RetrievedChunk[];
+    if (mode === 'hybrid') {
+      chunks = reciprocalRankFusion([vectorHits, keywordHits], options.rrfK);
+    } else {
+      chunks = mode === 'vector' ? vectorHits : keywordHits;
+    }
+
+    if (reranker && chunks.length > 0) {
+      chunks = await this.rerank(reranker, query, chunks);
+    }
+
+    return {
+      ...emptyResult,
+      chunks: chunks.slice(0, topK),
+      tookMs: Date.now() - startedAt,
+    };
+  }
+
+  private async vectorSearch(
+    knowledgeBaseIds: string[],
+    query: string,
+    count: number,
+    filters: RetrievalFilters
+  ): Promise<RetrievedChunk[]> {
+    const [queryEmbedding] = await this.embeddingProvider.embed([query]);
+
+    const { data, error } = await this.client.rpc('match_document_chunks', {
+      query_embedding: toPgVector(queryEmbedding),
+      knowledge_base_ids: knowledgeBaseIds,
+      match_count: count,
+      min_similarity: filters.minSimilarity ?? 0,
+      metadata_filter: filters.metadata || {},
+      document_ids: this.documentIdsParam(filters),
+      query_model: this.embeddingProvider.model,
+    });
+
+    if (error?.code === EMBEDDING_MODEL_MISMATCH) {
+      throw new EmbeddingModelMismatchError(error.message, this.embeddingProvider.model);
+    }
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((row: any, index: number) =>
+      this.mapRow(row, row.similarity, { vector: row.similarity, vectorRank: index + 1 })
+    );
+  }
+
+  private async keywordSearch(
+    knowledgeBaseIds: string[],
+    query: string,
+    count: number,
+    filters: RetrievalFilters
+  ): Promise<RetrievedChunk[]> {
+    const { data, error } = await this.client.rpc('keyword_search_document_chunks', {
+      query_text: query,
+      knowledge_base_ids: knowledgeBaseIds,
+      match_count: count,
+      metadata_filter: filters.metadata || {},
+      document_ids: this.documentIdsParam(filters),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((row: any, index: number) =>
+      this.mapRow(row, row.rank, { keyword: row.rank, keywordRank: index + 1 })
+    );
+  }
+
+  private async rerank(reranker: Reranker, query: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+    const scores = await reranker.rerank(query, chunks);
+
+    if (scores.length !== chunks.length) {
+      throw new Error(`Reranker ${reranker.name} returned ${scores.length} scores for ${chunks.length} chunks`);
+    }
+
+    return chunks
+      .map((chunk, index) => ({
+        ...chunk,
+        score: scores[index],
+        scores: { ...chunk.scores, rerank: scores[index] },
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private documentIdsParam(filters: RetrievalFilters): string[] | null {
+    return filters.documentIds && filters.documentIds.length > 0 ? filters.documentIds : null;
+  }
+
+  private mapRow(row: any, score: number, scores: ChunkScores): RetrievedChunk {
+    return {
+      chunkId: row.chunk_id,
+      documentId: row.document_id,
+      documentName: row.document_name,
+      knowledgeBaseId: row.knowledge_base_id,
+      content: row.content,
+      metadata: row.metadata || {},
+      score,
+      scores,
+    };
+  }
+}
@@ -1,4 +1,24 @@
 import { supabase } from './supabase';
+import { createEmbeddingProvider, type EmbeddingProvider, type EmbeddingProviderConfig } from './embedding-service';
+import { DEFAULT_CHUNKING_OPTIONS, type ChunkingOptions } from './chunking-engine';
+import {
+  KnowledgeBaseRetriever,
+  type Reranker,
+  type RetrievalFilters,
+  type RetrievalOptions,
+  type RetrievalResult,
+} from './knowledge-base-retrieval';
+import { getEnv } from './env';
+
+export type {
+  ChunkScores,
+  Reranker,
+  RetrievalFilters,
+  RetrievalMode,
+  RetrievalOptions,
+  RetrievalResult,
+  RetrievedChunk,
+} from './knowledge-base-retrieval';
 
 export interface KnowledgeBase {
   id: string;
@@ -329,6 +349,129 @@ export async function fetchKnowledgeBaseData(userId: string): Promise<KnowledgeB
   }
 }
 
+/**
+ * Fetch the chunking settings configured for a knowledge base
+ */
+export async function fetchChunkingConfig(knowledgeBaseId: string): Promise<Required<ChunkingOptions>> {
+  try {
+    const { data, error } = await supabase
+      .from('knowledge_bases')
+      .select('chunking_config')
+      .eq('id', knowledgeBaseId)
+      .single();
+
+    if (error) {
+      throw handleSupabaseError(error, 'fetchChunkingConfig');
+    }
+
+    return { ...DEFAULT_CHUNKING_OPTIONS, ...((data?.chunking_config as ChunkingOptions) || {}) };
+  } catch (error) {
+    if (error instanceof KnowledgeBaseServiceError) {
+      throw error;
+    }
+    throw handleSupabaseError(error, 'fetchChunkingConfig');
+  }
+}
+
+/**
+ * Update the chunking settings used for future uploads to a knowledge base
+ */
+export async function updateChunkingConfig(knowledgeBaseId: string, config: ChunkingOptions): Promise<void> {
+  if (config.chunkSize !== undefined && config.chunkSize <= 0) {
+    throw new KnowledgeBaseServiceError({
+      type: 'unknown',
+      message: 'Chunk size must be greater than zero.',
+      retryable: false,
+    });
+  }
+
+  if (config.chunkOverlap !== undefined && config.chunkSize !== undefined && config.chunkOverlap >= config.chunkSize) {
+    throw new KnowledgeBaseServiceError({
+      type: 'unknown',
+      message: 'Chunk overlap must be smaller than the chunk size.',
+      retryable: false,
+    });
+  }
+
+  try {
+    const { error } = await supabase
+      .from('knowledge_bases')
+      .update({
+        chunking_config: config as any,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', knowledgeBaseId);
+
+    if (error) {
+      throw handleSupabaseError(error, 'updateChunkingConfig');
+    }
+  } catch (error) {
+    if (error instanceof KnowledgeBaseServiceError) {
+      throw error;
+    }
+    throw handleSupabaseError(error, 'updateChunkingConfig');
+  }
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+let reranker: Reranker | null = null;
+
+/**
+ * Get the embedding provider used for knowledge base search
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider({
+      provider: getEnv('VITE_EMBEDDING_PROVIDER') as EmbeddingProviderConfig['provider'],
+      openaiApiKey: getEnv('VITE_OPENAI_API_KEY'),
+    });
+  }
+  return embeddingProvider;
+}
+
+/**
+ * Override the embedding provider (e.g. with the local provider in tests)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProvider = provider;
+}
+
+/**
+ * Register a second-stage reranker applied to every knowledge base search
+ */
+export function setReranker(nextReranker: Reranker | null): void {
+  reranker = nextReranker;
+}
+
+/**
+ * Hybrid (keyword + vector) search across one or more knowledge bases
+ */
+export async function searchKnowledgeBase(
+  knowledgeBaseIds: string[],
+  query: string,
+  topK: number = 5,
+  filters: RetrievalFilters = {},
+  options: RetrievalOptions = {}
+): Promise<RetrievalResult> {
+  if (!knowledgeBaseIds || knowledgeBaseIds.length === 0) {
+    throw new KnowledgeBaseServiceError({
+      type: 'unknown',
+      message: 'At least one knowledge base is required to search.',
+      retryable: false,
+    });
+  }
+
+  try {
+    const retriever = new KnowledgeBaseRetriever(supabase, getEmbeddingProvider(), reranker);
+    return await retriever.search(knowledgeBaseIds, query, topK, filters, options);
+  } catch (error) {
+    if (error instanceof KnowledgeBaseServiceError) {
+      throw error;
+    }
+    throw handleSupabaseError(error, 'searchKnowledgeBase');
+  }
+}
+
 /**
  * Retry function with exponential backoff
  */
@@ -17,6 +17,7 @@ import {
   DataPacket_Kind,
   Participant
 } from 'livekit-client';
+import { getEnv } from './env';
 
 interface LiveKitConfig {
   serverUrl: string;
@@ -73,9 +74,9 @@ class LiveKitService {
 
   constructor() {
     this.config = {
-      serverUrl: import.meta.env.VITE_LIVEKIT_SERVER_URL || 'wss://your-livekit-server.com',
-      apiKey: import.meta.env.VITE_LIVEKIT_API_KEY || '',
-      apiSecret: import.meta.env.VITE_LIVEKIT_API_SECRET || ''
+      serverUrl: getEnv('VITE_LIVEKIT_SERVER_URL') || 'wss://your-livekit-server.com',
+      apiKey: getEnv('VITE_LIVEKIT_API_KEY') || '',
+      apiSecret: getEnv('VITE_LIVEKIT_API_SECRET') || ''
     };
 
     if (!this.config.apiKey || !this.config.apiSecret) {
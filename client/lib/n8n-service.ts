@@ -1,3 +1,5 @@
+import { getEnv } from './env';
+
 /**
  * N8N Workflow Service
  * Integrates with N8N for workflow automation and orchestration
@@ -74,9 +76,9 @@ class N8NService {
 
   constructor() {
     this.config = {
-      apiUrl: import.meta.env.VITE_N8N_API_URL || 'http://localhost:5678/api/v1',
-      apiKey: import.meta.env.VITE_N8N_API_KEY || '',
-      webhookUrl: import.meta.env.VITE_N8N_WEBHOOK_URL || 'http://localhost:5678/webhook'
+      apiUrl: getEnv('VITE_N8N_API_URL') || 'http://localhost:5678/api/v1',
+      apiKey: getEnv('VITE_N8N_API_KEY') || '',
+      webhookUrl: getEnv('VITE_N8N_WEBHOOK_URL') || 'http://localhost:5678/webhook'
     };
 
     if (!this.config.apiKey) {
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { fromN8NWorkflow, isN8NWorkflow, toN8NWorkflow } from './n8n-workflow-converter';
+
+const n8nWorkflow: any = {
+  name: 'Lead intake',
+  tags: [{ id: '1', name: 'sales' }],
+  nodes: [
+    {
+      id: 'a',
+      name: 'Webhook',
+      type: 'n8n-nodes-base.webhook',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: { httpMethod: 'POST', path: 'leads', responseMode: 'lastNode' },
+    },
+    {
+      id: 'b',
+      name: 'Is qualified',
+      type: 'n8n-nodes-base.if',
+      typeVersion: 1,
+      position: [200, 0],
+      parameters: { conditions: { string: [{ value1: '={{$json.tier}}', operation: 'equal', value2: 'gold' }] } },
+    },
+    {
+      id: 'c',
+      name: 'Post to Slack',
+      type: 'n8n-nodes-base.slack',
+      typeVersion: 2,
+      position: [400, -100],
+      parameters: { channel: '#sales' },
+      credentials: { slackApi: 'cred-9' },
+    },
+    {
+      id: 'd',
+      name: 'Discard',
+      type: 'n8n-nodes-base.code',
+      typeVersion: 1,
+      position: [400, 100],
+      parameters: { jsCode: 'return [];' },
+    },
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'Is qualified', type: 'main', index: 0 }]] },
+    'Is qualified': {
+      main: [[{ node: 'Post to Slack', type: 'main', index: 0 }], [{ node: 'Discard', type: 'main', index: 0 }]],
+    },
+  },
+};
+
+describe('fromN8NWorkflow', () => {
+  const { workflow, warnings } = fromN8NWorkflow(n8nWorkflow);
+
+  it('should map known nodes and keep unknown ones', () => {
+    expect(workflow.nodes.map(node => node.type)).toEqual([
+      'webhook_trigger',
+      'condition',
+      'n8n-nodes-base.slack',
+      'javascript',
+    ]);
+    expect(workflow.nodes[0].configuration).toEqual({ method: 'POST', path: 'leads' });
+    expect(workflow.nodes[1].configuration).toMatchObject({ operator: 'equals', compare_value: 'gold' });
+    expect(workflow.nodes[2].configuration).toEqual({ channel: '#sales', credentials: { slackApi: 'cred-9' } });
+    expect(workflow.tags).toEqual(['sales']);
+    expect(warnings).toEqual(['n8n node "Post to Slack" (n8n-nodes-base.slack) has no equivalent and will not run until replaced']);
+  });
+
+  it('should connect if outputs to the true and false ports', () => {
+    expect(workflow.connections.map(connection => [connection.sourceNodeId, connection.sourcePortId, connection.targetNodeId]))
+      .toEqual([
+        ['a', undefined, 'b'],
+        ['b', 'output_true', 'c'],
+        ['b', 'output_false', 'd'],
+      ]);
+  });
+});
+
+describe('toN8NWorkflow', () => {
+  it('should round-trip an n8n workflow', () => {
+    const imported = fromN8NWorkflow(n8nWorkflow).workflow;
+    const { workflow, warnings } = toN8NWorkflow({ ...imported, id: 'wf-1', metadata: { tags: imported.tags } } as any);
+
+    expect(isN8NWorkflow(workflow)).toBe(true);
+    expect(warnings).toEqual([]);
+    expect(workflow.nodes.map(node => [node.name, node.type, node.typeVersion])).toEqual(
+      n8nWorkflow.nodes.map((node: any) => [node.name, node.type, node.typeVersion])
+    );
+    expect(workflow.nodes.map(node => node.parameters)).toEqual(n8nWorkflow.nodes.map((node: any) => node.parameters));
+    expect(workflow.nodes[2].credentials).toEqual({ slackApi: 'cred-9' });
+    expect(workflow.connections).toEqual(n8nWorkflow.connections);
+  });
+
+  it('should export nodes without an n8n equivalent as no-ops with unique names', () => {
+    const { workflow, warnings } = toN8NWorkflow({
+      id: 'wf-2',
+      name: 'Agent',
+      nodes: [
+        { id: 'x', type: 'llm', name: 'Step', position: { x: 0, y: 0 }, outputs: [], configuration: {} },
+        { id: 'y', type: 'javascript', name: 'Step', position: { x: 0, y: 0 }, outputs: [], configuration: { code: '1' } },
+      ],
+      connections: [{ id: 'c', sourceNodeId: 'x', targetNodeId: 'y' }],
+      metadata: {},
+    } as any);
+
+    expect(workflow.nodes.map(node => [node.name, node.type])).toEqual([
+      ['Step', 'n8n-nodes-base.noOp'],
+      ['Step 1', 'n8n-nodes-base.code'],
+    ]);
+    expect(workflow.connections).toEqual({ Step: { main: [[{ node: 'Step 1', type: 'main', index: 0 }]] } });
+    expect(warnings).toHaveLength(1);
+  });
+});
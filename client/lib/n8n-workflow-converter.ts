@@ -0,0 +1,327 @@
+/**
+ * N8N Workflow Converter
+ * Converts between agent workflows and n8n workflow JSON
+ */
+
+import type { N8NNode, N8NWorkflow } from './n8n-service';
+import type { WorkflowExportDocument } from './workflow-export';
+import { AgentWorkflow } from './workflow-types';
+import { resolvePortName } from './workflow-graph';
+
+type ExportedWorkflow = WorkflowExportDocument['workflow'];
+
+export interface N8NConversionResult<T> {
+  workflow: T;
+  // Nodes or settings that could not be carried over exactly
+  warnings: string[];
+}
+
+interface NodeMapping {
+  type: string;
+  n8nType: string;
+  category: string;
+  // Output port names in n8n output order, for nodes with more than one output
+  outputs?: string[];
+  // `parameters` are the original n8n parameters when the node was imported from n8n
+  toN8N: (configuration: Record<string, any>, parameters?: Record<string, any>) => Record<string, any>;
+  fromN8N: (parameters: Record<string, any>) => Record<string, any>;
+}
+
+const CONDITION_OPERATORS: Record<string, string> = {
+  equals: 'equal',
+  not_equals: 'notEqual',
+  contains: 'contains',
+  not_contains: 'notContains',
+  starts_with: 'startsWith',
+  ends_with: 'endsWith',
+  greater_than: 'larger',
+  less_than: 'smaller',
+  regex: 'regex'
+};
+
+const NODE_MAPPINGS: NodeMapping[] = [
+  {
+    type: 'webhook_trigger',
+    n8nType: 'n8n-nodes-base.webhook',
+    category: 'triggers',
+    toN8N: config => ({ httpMethod: config.method || 'POST', path: config.path || '' }),
+    fromN8N: params => ({ method: params.httpMethod || 'GET', path: params.path || '' })
+  },
+  {
+    type: 'schedule_trigger',
+    n8nType: 'n8n-nodes-base.scheduleTrigger',
+    category: 'triggers',
+    toN8N: config => ({
+      rule: {
+        interval: [
+          config.scheduleType === 'cron'
+            ? { field: 'cronExpression', expression: config.cronExpression }
+            : { field: 'minutes', minutesInterval: config.intervalMinutes || 60 }
+        ]
+      }
+    }),
+    fromN8N: params => {
+      const interval = params.rule?.interval?.[0] || {};
+      return interval.field === 'cronExpression'
+        ? { scheduleType: 'cron', cronExpression: interval.expression, timezone: 'UTC' }
+        : { scheduleType: 'recurring', intervalMinutes: interval.minutesInterval || 60, timezone: 'UTC' };
+    }
+  },
+  {
+    // n8n has no chat message trigger; a manual trigger is the closest start node
+    type: 'message_trigger',
+    n8nType: 'n8n-nodes-base.manualTrigger',
+    category: 'triggers',
+    toN8N: () => ({}),
+    fromN8N: () => ({ channels: [], messageTypes: ['text'], filters: {} })
+  },
+  {
+    type: 'condition',
+    n8nType: 'n8n-nodes-base.if',
+    category: 'conditions',
+    outputs: ['true', 'false'],
+    toN8N: (config, params) => ({
+      conditions: {
+        string: [{
+          value1: params?.conditions?.string?.[0]?.value1 ?? '={{$json.value}}',
+          operation: CONDITION_OPERATORS[config.operator] || 'equal',
+          value2: config.compare_value ?? ''
+        }]
+      }
+    }),
+    fromN8N: params => {
+      const groups = params.conditions || {};
+      const condition = Object.values<any>(groups).find(list => Array.isArray(list) && list.length > 0)?.[0] || {};
+      const operator = Object.keys(CONDITION_OPERATORS).find(key => CONDITION_OPERATORS[key] === condition.operation);
+      return { operator: operator || 'equals', compare_value: condition.value2, case_sensitive: false };
+    }
+  },
+  {
+    type: 'javascript',
+    n8nType: 'n8n-nodes-base.code',
+    category: 'utilities',
+    toN8N: config => ({ jsCode: config.code || '' }),
+    fromN8N: params => ({ code: params.jsCode ?? params.functionCode ?? '' })
+  },
+  {
+    type: 'join',
+    n8nType: 'n8n-nodes-base.merge',
+    category: 'utilities',
+    toN8N: () => ({}),
+    fromN8N: () => ({ policy: 'wait_all' })
+  },
+  {
+    type: 'subworkflow',
+    n8nType: 'n8n-nodes-base.executeWorkflow',
+    category: 'utilities',
+    toN8N: config => ({ workflowId: config.subworkflowId || '' }),
+    fromN8N: params => ({ subworkflowId: params.workflowId || '', isolateVariables: true })
+  },
+  {
+    type: 'response',
+    n8nType: 'n8n-nodes-base.respondToWebhook',
+    category: 'utilities',
+    toN8N: () => ({ respondWith: 'json' }),
+    fromN8N: () => ({ response_type: 'text', channel: 'auto' })
+  }
+];
+
+// Older n8n node types that convert like a current one
+const N8N_TYPE_ALIASES: Record<string, string> = {
+  'n8n-nodes-base.function': 'n8n-nodes-base.code',
+  'n8n-nodes-base.cron': 'n8n-nodes-base.scheduleTrigger'
+};
+
+const NO_OP_TYPE = 'n8n-nodes-base.noOp';
+
+function isN8NType(type: string): boolean {
+  return type.includes('.');
+}
+
+/**
+ * True for JSON that looks like an n8n workflow rather than one of our exports
+ */
+export function isN8NWorkflow(data: any): data is N8NWorkflow {
+  return !!data &&
+    Array.isArray(data.nodes) &&
+    !!data.connections && !Array.isArray(data.connections) &&
+    data.nodes.every((node: any) => typeof node?.type === 'string' && Array.isArray(node.position));
+}
+
+/**
+ * Convert an n8n workflow. n8n nodes without an equivalent keep their n8n type
+ * and parameters so they survive a round trip, but will not run until replaced.
+ */
+export function fromN8NWorkflow(n8nWorkflow: Partial<N8NWorkflow>): N8NConversionResult<ExportedWorkflow> {
+  const warnings: string[] = [];
+  const n8nNodes = n8nWorkflow.nodes || [];
+  const idByName: Record<string, string> = {};
+
+  const nodes = n8nNodes.map((n8nNode, index) => {
+    const id = n8nNode.id || `n8n_${index}`;
+    idByName[n8nNode.name] = id;
+    idByName[id] = id;
+
+    const n8nType = N8N_TYPE_ALIASES[n8nNode.type] || n8nNode.type;
+    const mapping = NODE_MAPPINGS.find(candidate => candidate.n8nType === n8nType);
+    if (!mapping) {
+      warnings.push(`n8n node "${n8nNode.name}" (${n8nNode.type}) has no equivalent and will not run until replaced`);
+    }
+
+    return {
+      id,
+      type: mapping ? mapping.type : n8nNode.type,
+      name: n8nNode.name,
+      category: mapping ? mapping.category : n8nNode.type.toLowerCase().includes('trigger') ? 'triggers' : 'utilities',
+      position: { x: n8nNode.position?.[0] ?? 0, y: n8nNode.position?.[1] ?? 0 },
+      inputs: [],
+      outputs: (mapping?.outputs || []).map(name => ({ id: `output_${name}`, name })),
+      configuration: {
+        ...(mapping ? mapping.fromN8N(n8nNode.parameters || {}) : n8nNode.parameters || {}),
+        ...(n8nNode.credentials && { credentials: n8nNode.credentials })
+      },
+      // Parameters we do not translate are kept so exporting back to n8n loses nothing
+      metadata: {
+        n8n: {
+          type: n8nNode.type,
+          typeVersion: n8nNode.typeVersion,
+          ...(mapping && { parameters: n8nNode.parameters || {} })
+        }
+      }
+    };
+  });
+
+  const connections: ExportedWorkflow['connections'] = [];
+  for (const [sourceName, outputsByType] of Object.entries<any>(n8nWorkflow.connections || {})) {
+    const sourceNodeId = idByName[sourceName];
+    const source = nodes.find(node => node.id === sourceNodeId);
+    if (!source) {
+      warnings.push(`Dropped connections from unknown n8n node "${sourceName}"`);
+      continue;
+    }
+
+    (outputsByType?.main || []).forEach((targets: any[], outputIndex: number) => {
+      for (const target of targets || []) {
+        const targetNodeId = idByName[target.node];
+        if (!targetNodeId) {
+          warnings.push(`Dropped connection to unknown n8n node "${target.node}"`);
+          continue;
+        }
+
+        connections.push({
+          id: `conn_${sourceNodeId}_${outputIndex}_${targetNodeId}_${target.index ?? 0}`,
+          sourceNodeId,
+          sourcePortId: source.outputs[outputIndex]?.id,
+          targetNodeId
+        });
+      }
+    });
+  }
+
+  return {
+    workflow: {
+      name: n8nWorkflow.name || 'Imported n8n workflow',
+      description: '',
+      tags: (n8nWorkflow.tags || []).map((tag: any) => (typeof tag === 'string' ? tag : tag.name)),
+      nodes,
+      connections,
+      variables: [],
+      triggers: [],
+      settings: {}
+    },
+    warnings
+  };
+}
+
+/**
+ * Convert a workflow to n8n JSON. Nodes without an n8n equivalent become
+ * no-op nodes so the graph stays intact.
+ */
+export function toN8NWorkflow(workflow: AgentWorkflow): N8NConversionResult<N8NWorkflow> {
+  const warnings: string[] = [];
+  const nameById: Record<string, string> = {};
+  const usedNames = new Set<string>();
+
+  const nodes: N8NNode[] = workflow.nodes.map(node => {
+    // n8n addresses nodes by name, so names must be unique
+    let name = node.name || node.id;
+    for (let suffix = 1; usedNames.has(name); suffix++) {
+      name = `${node.name || node.id} ${suffix}`;
+    }
+    usedNames.add(name);
+    nameById[node.id] = name;
+
+    const mapping = NODE_MAPPINGS.find(candidate => candidate.type === node.type);
+    const original = node.metadata?.n8n;
+    let type: string;
+    let parameters: Record<string, any>;
+
+    if (mapping) {
+      type = original?.type && (N8N_TYPE_ALIASES[original.type] || original.type) === mapping.n8nType
+        ? original.type
+        : mapping.n8nType;
+      parameters = { ...original?.parameters, ...mapping.toN8N(node.configuration || {}, original?.parameters) };
+    } else if (isN8NType(node.type)) {
+      type = node.type;
+      const { credentials, ...rest } = node.configuration || {};
+      parameters = rest;
+    } else {
+      warnings.push(`Node "${name}" (${node.type}) has no n8n equivalent and was exported as a no-op`);
+      type = NO_OP_TYPE;
+      parameters = {};
+    }
+
+    return {
+      id: node.id,
+      name,
+      type,
+      typeVersion: original?.typeVersion || 1,
+      position: [node.position?.x ?? 0, node.position?.y ?? 0],
+      parameters,
+      ...(node.configuration?.credentials && typeof node.configuration.credentials === 'object' && {
+        credentials: node.configuration.credentials
+      })
+    };
+  });
+
+  const n8nConnections: Record<string, { main: Array<Array<{ node: string; type: 'main'; index: number }>> }> = {};
+  for (const connection of workflow.connections) {
+    const source = workflow.nodes.find(node => node.id === connection.sourceNodeId);
+    const sourceName = nameById[connection.sourceNodeId];
+    const targetName = nameById[connection.targetNodeId];
+    if (!source || !targetName) continue;
+
+    const outputNames = NODE_MAPPINGS.find(candidate => candidate.type === source.type)?.outputs;
+    const portName = resolvePortName(source.outputs, connection.sourcePortId);
+    let outputIndex = 0;
+    if (outputNames && portName) {
+      outputIndex = outputNames.indexOf(portName);
+      if (outputIndex < 0) {
+        warnings.push(`Connection from "${sourceName}" port "${portName}" was attached to its first n8n output`);
+        outputIndex = 0;
+      }
+    }
+
+    const main = (n8nConnections[sourceName] ||= { main: [] }).main;
+    while (main.length <= outputIndex) {
+      main.push([]);
+    }
+    main[outputIndex].push({ node: targetName, type: 'main', index: 0 });
+  }
+
+  return {
+    workflow: {
+      id: workflow.id,
+      name: workflow.name,
+      active: false,
+      tags: workflow.metadata?.tags || [],
+      nodes,
+      connections: n8nConnections,
+      settings: {},
+      staticData: {},
+      createdAt: workflow.metadata?.created_at || new Date().toISOString(),
+      updatedAt: workflow.metadata?.updated_at || new Date().toISOString()
+    },
+    warnings
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { chunkContent } from './chunking-engine';
+import {
+  DEFAULT_OCR_SETTINGS,
+  applyOcrConfidence,
+  layoutOcrText,
+  resolveOcrSettings,
+  toOcrLanguage,
+  type OcrResult,
+} from './ocr-service';
+
+const result: OcrResult = {
+  engine: 'fake',
+  languages: ['eng'],
+  confidence: 0.8,
+  blocks: [
+    {
+      text: 'Reset the router',
+      confidence: 0.9,
+      words: [
+        { text: 'Reset', confidence: 0.95 },
+        { text: 'the', confidence: 0.9 },
+        { text: 'router', confidence: 0.85 },
+      ],
+    },
+    {
+      text: 'Hold the button',
+      confidence: 0.5,
+      words: [
+        { text: 'Hold', confidence: 0.6 },
+        { text: 'the', confidence: 0.4 },
+        { text: 'button', confidence: 0.5 },
+      ],
+    },
+  ],
+};
+
+describe('resolveOcrSettings', () => {
+  it('should map ISO language codes to the codes the engine knows', () => {
+    expect(toOcrLanguage('de')).toBe('deu');
+    expect(toOcrLanguage('pt-BR')).toBe('por');
+    expect(toOcrLanguage('chi_tra')).toBe('chi_tra');
+    expect(resolveOcrSettings().languages).toEqual(DEFAULT_OCR_SETTINGS.languages);
+  });
+
+  it('should apply the settings of the primary language under explicit options', () => {
+    const settings = resolveOcrSettings({
+      languages: ['ja', 'en'],
+      languageSettings: { ja: { pageSegmentationMode: '6', minWordConfidence: 0.5 } },
+      minWordConfidence: 0.2,
+    });
+
+    expect(settings).toMatchObject({
+      languages: ['jpn', 'eng'],
+      pageSegmentationMode: '6',
+      preserveInterwordSpaces: true,
+      minWordConfidence: 0.2,
+    });
+  });
+});
+
+describe('applyOcrConfidence', () => {
+  it('should record the word and block confidence of the text each chunk covers', () => {
+    const layout = layoutOcrText(result);
+    const chunks = chunkContent({ fileName: 'scan.png', segments: [{ text: layout.text }] }, { strategy: 'fixed', chunkSize: 4, chunkOverlap: 0 });
+
+    applyOcrConfidence(chunks, [{ offset: 0, layout, result }]);
+
+    expect(layout.text).toBe('Reset the router\n\nHold the button');
+    expect(chunks[0].metadata.ocr).toEqual({
+      engine: 'fake',
+      languages: ['eng'],
+      wordConfidence: 0.9,
+      minWordConfidence: 0.85,
+      blockConfidence: 0.9,
+      words: 3,
+    });
+    expect(chunks[chunks.length - 1].metadata).toMatchObject({
+      confidence: 0.5,
+      ocr: { minWordConfidence: 0.4, blockConfidence: 0.5 },
+    });
+  });
+});
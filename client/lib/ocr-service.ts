@@ -0,0 +1,287 @@
+import type { ContentChunk } from './file-processing-service';
+
+/**
+ * OCR engines used to turn images and scanned PDF pages into searchable text.
+ *
+ * Engines are pluggable: Tesseract runs locally by default and any other engine
+ * (a vision API, a hosted OCR service) can be swapped in with setOcrEngine.
+ * Like the embedding providers, the module has no Supabase or `import.meta.env`
+ * dependency so the Netlify functions can use it as well.
+ */
+
+// Confidences are normalised to 0-1 whatever scale the engine reports
+export interface OcrWord {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrBlock {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  engine: string;
+  languages: string[];
+  confidence: number;
+  blocks: OcrBlock[];
+}
+
+export interface OcrLanguageSettings {
+  // Tesseract page segmentation mode, e.g. '3' (automatic) or '6' (single block)
+  pageSegmentationMode?: string;
+  // Keep spaces between words, needed for scripts that do not separate words
+  preserveInterwordSpaces?: boolean;
+  minWordConfidence?: number;
+}
+
+export interface OcrOptions extends OcrLanguageSettings {
+  // ISO 639-1 codes ('en') or Tesseract codes ('eng'); the first one is the primary language
+  languages?: string[];
+  // Per-language overrides, keyed by either code form
+  languageSettings?: Record<string, OcrLanguageSettings>;
+  // Pages of a PDF with fewer extracted characters than this are OCR'd
+  pdfFallbackMinChars?: number;
+  // Render scale for PDF pages sent to OCR; higher reads small print better
+  pdfRenderScale?: number;
+}
+
+export interface OcrSettings extends Required<OcrLanguageSettings> {
+  languages: string[];
+  pdfFallbackMinChars: number;
+  pdfRenderScale: number;
+}
+
+export type OcrImage = Blob | Buffer | HTMLCanvasElement | OffscreenCanvas | string;
+
+export interface OcrEngine {
+  name: string;
+  recognize(image: OcrImage, settings: OcrSettings): Promise<OcrResult>;
+}
+
+/**
+ * Confidence of the OCR'd text a chunk was built from
+ */
+export interface OcrChunkConfidence {
+  engine: string;
+  languages: string[];
+  // Mean confidence of the words in the chunk
+  wordConfidence: number;
+  minWordConfidence: number;
+  // Mean confidence of the blocks the chunk overlaps
+  blockConfidence: number;
+  words: number;
+}
+
+/**
+ * OCR text laid out the way it is chunked: words joined by spaces, blocks by a
+ * blank line, with the character range of every word and block
+ */
+export interface OcrLayout {
+  text: string;
+  words: Array<{ start: number; end: number; confidence: number }>;
+  blocks: Array<{ start: number; end: number; confidence: number }>;
+}
+
+export const OCR_LANGUAGE_CODES: Record<string, string> = {
+  en: 'eng',
+  de: 'deu',
+  fr: 'fra',
+  es: 'spa',
+  it: 'ita',
+  pt: 'por',
+  nl: 'nld',
+  pl: 'pol',
+  ru: 'rus',
+  tr: 'tur',
+  ar: 'ara',
+  hi: 'hin',
+  zh: 'chi_sim',
+  ja: 'jpn',
+  ko: 'kor',
+};
+
+// Scripts written without spaces between words lose their layout otherwise
+export const DEFAULT_OCR_LANGUAGE_SETTINGS: Record<string, OcrLanguageSettings> = {
+  chi_sim: { preserveInterwordSpaces: true },
+  jpn: { preserveInterwordSpaces: true },
+};
+
+export const DEFAULT_OCR_SETTINGS: OcrSettings = {
+  languages: ['eng'],
+  pageSegmentationMode: '3',
+  preserveInterwordSpaces: false,
+  minWordConfidence: 0.3,
+  pdfFallbackMinChars: 32,
+  pdfRenderScale: 2,
+};
+
+export function toOcrLanguage(language: string): string {
+  const code = language.trim().toLowerCase();
+  return OCR_LANGUAGE_CODES[code] || OCR_LANGUAGE_CODES[code.split(/[-_]/)[0]] || code;
+}
+
+/**
+ * Combine the defaults, the primary language's settings and the caller's options
+ */
+export function resolveOcrSettings(options: OcrOptions = {}): OcrSettings {
+  const languages = options.languages && options.languages.length > 0
+    ? options.languages.map(toOcrLanguage)
+    : DEFAULT_OCR_SETTINGS.languages;
+  const primary = languages[0];
+
+  const overrides = Object.fromEntries(
+    Object.entries(options.languageSettings || {}).map(([language, settings]) => [toOcrLanguage(language), settings])
+  );
+  const { languages: _languages, languageSettings: _languageSettings, ...explicit } = options;
+
+  return {
+    ...DEFAULT_OCR_SETTINGS,
+    ...DEFAULT_OCR_LANGUAGE_SETTINGS[primary],
+    ...stripUndefined(overrides[primary] || {}),
+    ...stripUndefined(explicit),
+    languages,
+  };
+}
+
+export function layoutOcrText(result: OcrResult): OcrLayout {
+  const layout: OcrLayout = { text: '', words: [], blocks: [] };
+
+  result.blocks.forEach(block => {
+    if (block.words.length === 0) return;
+    if (layout.text) layout.text += '\n\n';
+
+    const blockStart = layout.text.length;
+    block.words.forEach((word, i) => {
+      if (i > 0) layout.text += ' ';
+      layout.words.push({ start: layout.text.length, end: layout.text.length + word.text.length, confidence: word.confidence });
+      layout.text += word.text;
+    });
+    layout.blocks.push({ start: blockStart, end: layout.text.length, confidence: block.confidence });
+  });
+
+  return layout;
+}
+
+/**
+ * Record the word and block confidence of OCR'd text on the chunks built from
+ * it. `sources` gives the offset of each OCR'd segment in the chunked text
+ * (see getSegmentOffsets); the chunk's confidence becomes its block confidence.
+ */
+export function applyOcrConfidence(
+  chunks: ContentChunk[],
+  sources: Array<{ offset: number; layout: OcrLayout; result: OcrResult }>
+): void {
+  chunks.forEach(chunk => {
+    const source = sources.find(({ offset, layout }) =>
+      chunk.startIndex >= offset && chunk.startIndex <= offset + layout.text.length);
+    if (!source) return;
+
+    const start = chunk.startIndex - source.offset;
+    const end = chunk.endIndex - source.offset;
+    const overlaps = (span: { start: number; end: number }) => span.start < end && span.end > start;
+
+    const words = source.layout.words.filter(overlaps);
+    const blocks = source.layout.blocks.filter(overlaps);
+    if (words.length === 0) return;
+
+    const blockConfidence = round(mean(blocks.map(block => block.confidence)));
+
+    chunk.metadata.confidence = blockConfidence;
+    chunk.metadata.ocr = {
+      engine: source.result.engine,
+      languages: source.result.languages,
+      wordConfidence: round(mean(words.map(word => word.confidence))),
+      minWordConfidence: round(Math.min(...words.map(word => word.confidence))),
+      blockConfidence,
+      words: words.length,
+    };
+  });
+}
+
+/**
+ * Local OCR with Tesseract (WebAssembly). Workers are loaded once per language
+ * combination and reused, since loading the trained data dominates small jobs.
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  name = 'tesseract';
+  private workers = new Map<string, Promise<any>>();
+
+  async recognize(image: OcrImage, settings: OcrSettings): Promise<OcrResult> {
+    const worker = await this.getWorker(settings.languages);
+
+    await worker.setParameters({
+      tessedit_pageseg_mode: settings.pageSegmentationMode,
+      preserve_interword_spaces: settings.preserveInterwordSpaces ? '1' : '0',
+    });
+
+    const { data } = await worker.recognize(image, {}, { blocks: true });
+
+    const blocks: OcrBlock[] = (data.blocks || []).map((block: any) => {
+      const words: OcrWord[] = block.paragraphs
+        .flatMap((paragraph: any) => paragraph.lines)
+        .flatMap((line: any) => line.words)
+        .map((word: any) => ({ text: word.text, confidence: word.confidence / 100 }))
+        .filter((word: OcrWord) => word.text.trim() && word.confidence >= settings.minWordConfidence);
+
+      return {
+        text: words.map(word => word.text).join(' '),
+        confidence: block.confidence / 100,
+        words,
+      };
+    });
+
+    return {
+      engine: this.name,
+      languages: settings.languages,
+      confidence: (data.confidence || 0) / 100,
+      blocks: blocks.filter(block => block.words.length > 0),
+    };
+  }
+
+  async terminate(): Promise<void> {
+    const workers = await Promise.all(this.workers.values());
+    this.workers.clear();
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private getWorker(languages: string[]): Promise<any> {
+    const key = languages.join('+');
+    if (!this.workers.has(key)) {
+      this.workers.set(key, import('tesseract.js').then(({ createWorker }) => createWorker(languages)));
+    }
+    return this.workers.get(key)!;
+  }
+}
+
+let ocrEngine: OcrEngine | null = null;
+
+/**
+ * Get the OCR engine used for images and scanned PDF pages
+ */
+export function getOcrEngine(): OcrEngine {
+  if (!ocrEngine) {
+    ocrEngine = new TesseractOcrEngine();
+  }
+  return ocrEngine;
+}
+
+/**
+ * Plug in another OCR engine (e.g. a fake one in tests)
+ */
+export function setOcrEngine(engine: OcrEngine): void {
+  ocrEngine = engine;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
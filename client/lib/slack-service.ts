@@ -1,3 +1,5 @@
+import { getEnv } from './env';
+
 /**
  * Slack Integration Service
  * Comprehensive Slack app integration with bot functionality and workflow automation
@@ -153,11 +155,11 @@ class SlackService {
 
   constructor() {
     this.config = {
-      botToken: import.meta.env.VITE_SLACK_BOT_TOKEN || '',
-      appToken: import.meta.env.VITE_SLACK_APP_TOKEN || '',
-      signingSecret: import.meta.env.VITE_SLACK_SIGNING_SECRET || '',
-      clientId: import.meta.env.VITE_SLACK_CLIENT_ID || '',
-      clientSecret: import.meta.env.VITE_SLACK_CLIENT_SECRET || ''
+      botToken: getEnv('VITE_SLACK_BOT_TOKEN') || '',
+      appToken: getEnv('VITE_SLACK_APP_TOKEN') || '',
+      signingSecret: getEnv('VITE_SLACK_SIGNING_SECRET') || '',
+      clientId: getEnv('VITE_SLACK_CLIENT_ID') || '',
+      clientSecret: getEnv('VITE_SLACK_CLIENT_SECRET') || ''
     };
 
     if (!this.config.botToken) {
@@ -1,11 +1,13 @@
 import { aiService, type ChatMessage, type StreamingResponse } from './ai-service';
 import { conversationContextManager } from './conversation-context';
-import { supabase } from './agent-runtime';
+import { supabase, type Agent } from './agent-runtime';
+import { searchKnowledgeBase } from './knowledge-base-service';
+import { buildGroundedContext, getAgentKnowledgeBaseIds, resolveCitations, type Citation } from './citations';
 
 export interface StreamingChatConfig {
   conversationId: string;
   onChunk: (chunk: string) => void;
-  onComplete: (fullResponse: string) => void;
+  onComplete: (fullResponse: string, citations: Citation[]) => void;
   onError: (error: Error) => void;
 }
 
@@ -65,10 +67,14 @@ export class StreamingChatService {
               content: userMessage,
             });
 
+            // Ground the answer in the agent's knowledge bases
+            const grounding = await this.retrieveGroundedContext(context.agent, userMessage);
+
             // Add system message
             const systemMessage: ChatMessage = {
               role: 'system',
-              content: `${context.agent.personality}\n\nInstructions: ${context.agent.instructions}`,
+              content: `${context.agent.personality}\n\nInstructions: ${context.agent.instructions}` +
+                (grounding.prompt ? `\n\n${grounding.prompt}` : ''),
             };
 
             const messages = [systemMessage, ...conversationHistory];
@@ -90,10 +96,11 @@ export class StreamingChatService {
                 if (chunk.done) {
                   isStreaming = false;
                   this.activeStreams.delete(conversationId);
-                  config.onComplete(fullResponse);
+                  const citations = resolveCitations(fullResponse, grounding.citations);
+                  config.onComplete(fullResponse, citations);
                   
                   // Save the complete response to database
-                  this.saveStreamedResponse(conversationId, fullResponse);
+                  this.saveStreamedResponse(conversationId, fullResponse, citations);
                 } else {
                   fullResponse += chunk.content;
                   config.onChunk(chunk.content);
@@ -160,10 +167,32 @@ export class StreamingChatService {
     this.activeStreams.clear();
   }
 
+  /**
+   * Retrieve knowledge base chunks for the message; chat continues ungrounded if retrieval fails
+   */
+  private async retrieveGroundedContext(agent: Agent, message: string) {
+    const knowledgeBaseIds = getAgentKnowledgeBaseIds(agent);
+    if (knowledgeBaseIds.length === 0) {
+      return buildGroundedContext([]);
+    }
+
+    try {
+      const result = await searchKnowledgeBase(knowledgeBaseIds, message, 5);
+      return buildGroundedContext(result.chunks);
+    } catch (error) {
+      console.error('Error retrieving knowledge base context:', error);
+      return buildGroundedContext([]);
+    }
+  }
+
   /**
    * Save streamed response to database
    */
-  private async saveStreamedResponse(conversationId: string, response: string): Promise<void> {
+  private async saveStreamedResponse(
+    conversationId: string,
+    response: string,
+    citations: Citation[] = []
+  ): Promise<void> {
     try {
       // Add agent message to database
       await supabase
@@ -173,7 +202,7 @@ export class StreamingChatService {
           role: 'agent',
           content: response,
           type: 'text',
-          metadata: { streamed: true },
+          metadata: { streamed: true, citations },
         });
 
       // Update conversation context
@@ -185,7 +214,7 @@ export class StreamingChatService {
           role: 'agent' as const,
           content: response,
           type: 'text' as const,
-          metadata: { streamed: true },
+          metadata: { streamed: true, citations },
           created_at: new Date().toISOString(),
         };
 
@@ -208,11 +237,11 @@ export class StreamingChatService {
    */
   createStreamingInterface(conversationId: string): {
     sendMessage: (message: string) => Promise<void>;
-    onMessage: (callback: (chunk: string, isComplete: boolean) => void) => void;
+    onMessage: (callback: (chunk: string, isComplete: boolean, citations?: Citation[]) => void) => void;
     onError: (callback: (error: Error) => void) => void;
     stop: () => void;
   } {
-    let messageCallback: ((chunk: string, isComplete: boolean) => void) | null = null;
+    let messageCallback: ((chunk: string, isComplete: boolean, citations?: Citation[]) => void) | null = null;
     let errorCallback: ((error: Error) => void) | null = null;
 
     return {
@@ -223,8 +252,8 @@ export class StreamingChatService {
             onChunk: (chunk: string) => {
               messageCallback?.(chunk, false);
             },
-            onComplete: (fullResponse: string) => {
-              messageCallback?.(fullResponse, true);
+            onComplete: (fullResponse: string, citations: Citation[]) => {
+              messageCallback?.(fullResponse, true, citations);
             },
             onError: (error: Error) => {
               errorCallback?.(error);
@@ -237,7 +266,7 @@ export class StreamingChatService {
         }
       },
 
-      onMessage: (callback: (chunk: string, isComplete: boolean) => void) => {
+      onMessage: (callback: (chunk: string, isComplete: boolean, citations?: Citation[]) => void) => {
         messageCallback = callback;
       },
 
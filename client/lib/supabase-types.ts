@@ -84,6 +84,7 @@ export type Database = {
           status: string | null
           user_id: string | null
           workflow_id: string | null
+          workflow_revision: number | null
         }
         Insert: {
           agent_id?: string | null
@@ -98,6 +99,7 @@ export type Database = {
           status?: string | null
           user_id?: string | null
           workflow_id?: string | null
+          workflow_revision?: number | null
         }
         Update: {
           agent_id?: string | null
@@ -112,6 +114,7 @@ export type Database = {
           status?: string | null
           user_id?: string | null
           workflow_id?: string | null
+          workflow_revision?: number | null
         }
         Relationships: [
           {
@@ -389,10 +392,12 @@ export type Database = {
       agent_workflows: {
         Row: {
           created_at: string | null
+          current_revision: number | null
           description: string | null
           id: string
           is_template: boolean | null
           name: string
+          published_revision: number | null
           status: string | null
           tags: string[] | null
           template_id: string | null
@@ -403,10 +408,12 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          current_revision?: number | null
           description?: string | null
           id?: string
           is_template?: boolean | null
           name: string
+          published_revision?: number | null
           status?: string | null
           tags?: string[] | null
           template_id?: string | null
@@ -417,10 +424,12 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          current_revision?: number | null
           description?: string | null
           id?: string
           is_template?: boolean | null
           name?: string
+          published_revision?: number | null
           status?: string | null
           tags?: string[] | null
           template_id?: string | null
@@ -948,29 +957,41 @@ export type Database = {
         Row: {
           chunk_index: number
           content: string
+          content_hash: string | null
           created_at: string | null
           document_id: string
           embedding_json: string | null
           id: string
           metadata: Json | null
+          retired_at: string | null
+          retired_in_version: number | null
+          version_number: number | null
         }
         Insert: {
           chunk_index: number
           content: string
+          content_hash?: string | null
           created_at?: string | null
           document_id: string
           embedding_json?: string | null
           id?: string
           metadata?: Json | null
+          retired_at?: string | null
+          retired_in_version?: number | null
+          version_number?: number | null
         }
         Update: {
           chunk_index?: number
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           document_id?: string
           embedding_json?: string | null
           id?: string
           metadata?: Json | null
+          retired_at?: string | null
+          retired_in_version?: number | null
+          version_number?: number | null
         }
         Relationships: [
           {
@@ -982,10 +1003,141 @@ export type Database = {
           },
         ]
       }
+      document_processing_jobs: {
+        Row: {
+          attempts: number
+          available_at: string
+          created_at: string | null
+          document_id: string
+          file_name: string
+          finished_at: string | null
+          id: string
+          knowledge_base_id: string
+          last_error: Json | null
+          lease_expires_at: string | null
+          leased_by: string | null
+          max_attempts: number
+          started_at: string | null
+          status: string
+          storage_path: string
+          updated_at: string | null
+          user_id: string
+          version_number: number | null
+        }
+        Insert: {
+          attempts?: number
+          available_at?: string
+          created_at?: string | null
+          document_id: string
+          file_name: string
+          finished_at?: string | null
+          id?: string
+          knowledge_base_id: string
+          last_error?: Json | null
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          max_attempts?: number
+          started_at?: string | null
+          status?: string
+          storage_path: string
+          updated_at?: string | null
+          user_id: string
+          version_number?: number | null
+        }
+        Update: {
+          attempts?: number
+          available_at?: string
+          created_at?: string | null
+          document_id?: string
+          file_name?: string
+          finished_at?: string | null
+          id?: string
+          knowledge_base_id?: string
+          last_error?: Json | null
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          max_attempts?: number
+          started_at?: string | null
+          status?: string
+          storage_path?: string
+          updated_at?: string | null
+          user_id?: string
+          version_number?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_processing_jobs_knowledge_base_id_fkey"
+            columns: ["knowledge_base_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_bases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          activated_at: string | null
+          content_hash: string | null
+          created_at: string | null
+          created_by: string | null
+          document_id: string
+          error: string | null
+          file_name: string
+          id: string
+          restored_from: number | null
+          size_bytes: number | null
+          stats: Json
+          status: string
+          storage_path: string
+          version_number: number
+        }
+        Insert: {
+          activated_at?: string | null
+          content_hash?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id: string
+          error?: string | null
+          file_name: string
+          id?: string
+          restored_from?: number | null
+          size_bytes?: number | null
+          stats?: Json
+          status?: string
+          storage_path: string
+          version_number: number
+        }
+        Update: {
+          activated_at?: string | null
+          content_hash?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id?: string
+          error?: string | null
+          file_name?: string
+          id?: string
+          restored_from?: number | null
+          size_bytes?: number | null
+          stats?: Json
+          status?: string
+          storage_path?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           content: string | null
           created_at: string
+          current_version: number | null
           file_type: string | null
           file_url: string | null
           id: string
@@ -998,6 +1150,7 @@ export type Database = {
         Insert: {
           content?: string | null
           created_at?: string
+          current_version?: number | null
           file_type?: string | null
           file_url?: string | null
           id?: string
@@ -1010,6 +1163,7 @@ export type Database = {
         Update: {
           content?: string | null
           created_at?: string
+          current_version?: number | null
           file_type?: string | null
           file_url?: string | null
           id?: string
@@ -1235,6 +1389,7 @@ export type Database = {
       }
       knowledge_bases: {
         Row: {
+          chunking_config: Json | null
           created_at: string
           description: string | null
           documents_count: number | null
@@ -1246,6 +1401,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          chunking_config?: Json | null
           created_at?: string
           description?: string | null
           documents_count?: number | null
@@ -1257,6 +1413,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          chunking_config?: Json | null
           created_at?: string
           description?: string | null
           documents_count?: number | null
@@ -1340,6 +1497,56 @@ export type Database = {
         }
         Relationships: []
       }
+      processing_status: {
+        Row: {
+          completed_at: string | null
+          current_step: string | null
+          document_id: string
+          error_details: Json | null
+          estimated_completion: string | null
+          processed_chunks: number | null
+          progress: number | null
+          started_at: string | null
+          status: string | null
+          total_chunks: number | null
+          total_steps: number | null
+        }
+        Insert: {
+          completed_at?: string | null
+          current_step?: string | null
+          document_id: string
+          error_details?: Json | null
+          estimated_completion?: string | null
+          processed_chunks?: number | null
+          progress?: number | null
+          started_at?: string | null
+          status?: string | null
+          total_chunks?: number | null
+          total_steps?: number | null
+        }
+        Update: {
+          completed_at?: string | null
+          current_step?: string | null
+          document_id?: string
+          error_details?: Json | null
+          estimated_completion?: string | null
+          processed_chunks?: number | null
+          progress?: number | null
+          started_at?: string | null
+          status?: string | null
+          total_chunks?: number | null
+          total_steps?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_status_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: true
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -1990,37 +2197,70 @@ export type Database = {
       }
       webhook_events: {
         Row: {
-          channel_id: string
+          channel_id: string | null
           channel_type: string
           created_at: string
+          delivery_signature: string | null
           event_type: string
+          execution_id: string | null
+          headers: Json
           id: string
+          method: string | null
           payload: Json
           processed: boolean
           processing_error: string | null
+          query: Json
+          replay_of: string | null
+          response_body: Json | null
+          response_status: number | null
+          status: string
           timestamp: string
+          webhook_id: string | null
+          workflow_id: string | null
         }
         Insert: {
-          channel_id: string
+          channel_id?: string | null
           channel_type: string
           created_at?: string
+          delivery_signature?: string | null
           event_type: string
+          execution_id?: string | null
+          headers?: Json
           id?: string
+          method?: string | null
           payload: Json
           processed?: boolean
           processing_error?: string | null
+          query?: Json
+          replay_of?: string | null
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
           timestamp: string
+          webhook_id?: string | null
+          workflow_id?: string | null
         }
         Update: {
-          channel_id?: string
+          channel_id?: string | null
           channel_type?: string
           created_at?: string
+          delivery_signature?: string | null
           event_type?: string
+          execution_id?: string | null
+          headers?: Json
           id?: string
+          method?: string | null
           payload?: Json
           processed?: boolean
           processing_error?: string | null
+          query?: Json
+          replay_of?: string | null
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
           timestamp?: string
+          webhook_id?: string | null
+          workflow_id?: string | null
         }
         Relationships: [
           {
@@ -2046,6 +2286,155 @@ export type Database = {
           },
         ]
       }
+      website_pages: {
+        Row: {
+          content_hash: string | null
+          created_at: string | null
+          document_id: string | null
+          duplicate_of: string | null
+          error: string | null
+          http_status: number | null
+          id: string
+          last_changed_at: string | null
+          last_crawled_at: string | null
+          simhash: string | null
+          source_id: string
+          status: string
+          title: string | null
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string | null
+          document_id?: string | null
+          duplicate_of?: string | null
+          error?: string | null
+          http_status?: number | null
+          id?: string
+          last_changed_at?: string | null
+          last_crawled_at?: string | null
+          simhash?: string | null
+          source_id: string
+          status: string
+          title?: string | null
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string | null
+          document_id?: string | null
+          duplicate_of?: string | null
+          error?: string | null
+          http_status?: number | null
+          id?: string
+          last_changed_at?: string | null
+          last_crawled_at?: string | null
+          simhash?: string | null
+          source_id?: string
+          status?: string
+          title?: string | null
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "website_pages_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "website_pages_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "website_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      website_sources: {
+        Row: {
+          created_at: string | null
+          exclude_patterns: string[]
+          id: string
+          include_patterns: string[]
+          knowledge_base_id: string
+          last_crawl_stats: Json
+          last_crawled_at: string | null
+          last_error: string | null
+          locked_until: string | null
+          max_depth: number
+          max_pages: number
+          name: string
+          next_crawl_at: string | null
+          recrawl_cron: string | null
+          respect_robots_txt: boolean
+          root_url: string | null
+          sitemap_url: string | null
+          status: string
+          timezone: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          exclude_patterns?: string[]
+          id?: string
+          include_patterns?: string[]
+          knowledge_base_id: string
+          last_crawl_stats?: Json
+          last_crawled_at?: string | null
+          last_error?: string | null
+          locked_until?: string | null
+          max_depth?: number
+          max_pages?: number
+          name: string
+          next_crawl_at?: string | null
+          recrawl_cron?: string | null
+          respect_robots_txt?: boolean
+          root_url?: string | null
+          sitemap_url?: string | null
+          status?: string
+          timezone?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          exclude_patterns?: string[]
+          id?: string
+          include_patterns?: string[]
+          knowledge_base_id?: string
+          last_crawl_stats?: Json
+          last_crawled_at?: string | null
+          last_error?: string | null
+          locked_until?: string | null
+          max_depth?: number
+          max_pages?: number
+          name?: string
+          next_crawl_at?: string | null
+          recrawl_cron?: string | null
+          respect_robots_txt?: boolean
+          root_url?: string | null
+          sitemap_url?: string | null
+          status?: string
+          timezone?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "website_sources_knowledge_base_id_fkey"
+            columns: ["knowledge_base_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_bases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       whatsapp_credentials: {
         Row: {
           access_token_encrypted: string
@@ -2261,41 +2650,112 @@ export type Database = {
           },
         ]
       }
+      workflow_execution_checkpoints: {
+        Row: {
+          completed_node_ids: Json
+          created_at: string | null
+          execution_id: string
+          id: string
+          last_result: Json | null
+          node_id: string | null
+          node_results: Json
+          sequence: number
+          skipped_node_ids: Json
+          variables: Json
+        }
+        Insert: {
+          completed_node_ids?: Json
+          created_at?: string | null
+          execution_id: string
+          id?: string
+          last_result?: Json | null
+          node_id?: string | null
+          node_results?: Json
+          sequence: number
+          skipped_node_ids?: Json
+          variables?: Json
+        }
+        Update: {
+          completed_node_ids?: Json
+          created_at?: string | null
+          execution_id?: string
+          id?: string
+          last_result?: Json | null
+          node_id?: string | null
+          node_results?: Json
+          sequence?: number
+          skipped_node_ids?: Json
+          variables?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_execution_checkpoints_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_executions: {
         Row: {
           completed_at: string | null
+          conversation_id: string | null
           debug_info: Json | null
           deployment_id: string | null
           error_message: string | null
           execution_data: Json
           execution_time_ms: number | null
           id: string
+          input_data: Json | null
+          last_checkpoint_at: string | null
+          last_completed_node_id: string | null
+          output_data: Json | null
+          parent_execution_id: string | null
+          parent_node_id: string | null
           started_at: string | null
           status: string
+          triggered_by_execution_id: string | null
           workflow_id: string | null
         }
         Insert: {
           completed_at?: string | null
+          conversation_id?: string | null
           debug_info?: Json | null
           deployment_id?: string | null
           error_message?: string | null
           execution_data?: Json
           execution_time_ms?: number | null
           id?: string
+          input_data?: Json | null
+          last_checkpoint_at?: string | null
+          last_completed_node_id?: string | null
+          output_data?: Json | null
+          parent_execution_id?: string | null
+          parent_node_id?: string | null
           started_at?: string | null
           status: string
+          triggered_by_execution_id?: string | null
           workflow_id?: string | null
         }
         Update: {
           completed_at?: string | null
+          conversation_id?: string | null
           debug_info?: Json | null
           deployment_id?: string | null
           error_message?: string | null
           execution_data?: Json
           execution_time_ms?: number | null
           id?: string
+          input_data?: Json | null
+          last_checkpoint_at?: string | null
+          last_completed_node_id?: string | null
+          output_data?: Json | null
+          parent_execution_id?: string | null
+          parent_node_id?: string | null
           started_at?: string | null
           status?: string
+          triggered_by_execution_id?: string | null
           workflow_id?: string | null
         }
         Relationships: [
@@ -2313,6 +2773,20 @@ export type Database = {
             referencedRelation: "deployment_summary"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "workflow_executions_parent_execution_id_fkey"
+            columns: ["parent_execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_executions_triggered_by_execution_id_fkey"
+            columns: ["triggered_by_execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "workflow_executions_workflow_id_fkey"
             columns: ["workflow_id"]
@@ -2370,6 +2844,181 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_revisions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          message: string | null
+          name: string
+          restored_from: number | null
+          revision_number: number
+          tags: string[] | null
+          version: string | null
+          workflow_data: Json
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          message?: string | null
+          name: string
+          restored_from?: number | null
+          revision_number: number
+          tags?: string[] | null
+          version?: string | null
+          workflow_data: Json
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          message?: string | null
+          name?: string
+          restored_from?: number | null
+          revision_number?: number
+          tags?: string[] | null
+          version?: string | null
+          workflow_data?: Json
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_revisions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "agent_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_schedule_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          error_message: string | null
+          execution_id: string | null
+          id: string
+          reason: string | null
+          schedule_id: string
+          scheduled_for: string
+          started_at: string | null
+          status: string
+          workflow_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          error_message?: string | null
+          execution_id?: string | null
+          id?: string
+          reason?: string | null
+          schedule_id: string
+          scheduled_for: string
+          started_at?: string | null
+          status?: string
+          workflow_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          error_message?: string | null
+          execution_id?: string | null
+          id?: string
+          reason?: string | null
+          schedule_id?: string
+          scheduled_for?: string
+          started_at?: string | null
+          status?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_schedule_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_schedule_runs_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "agent_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_schedules: {
+        Row: {
+          allow_overlap: boolean
+          created_at: string | null
+          cron_expression: string | null
+          enabled: boolean
+          id: string
+          interval_minutes: number | null
+          last_run_at: string | null
+          locked_until: string | null
+          misfire_policy: string
+          next_run_at: string | null
+          node_id: string
+          schedule_type: string
+          scheduled_time: string | null
+          timezone: string
+          updated_at: string | null
+          workflow_id: string
+        }
+        Insert: {
+          allow_overlap?: boolean
+          created_at?: string | null
+          cron_expression?: string | null
+          enabled?: boolean
+          id?: string
+          interval_minutes?: number | null
+          last_run_at?: string | null
+          locked_until?: string | null
+          misfire_policy?: string
+          next_run_at?: string | null
+          node_id: string
+          schedule_type: string
+          scheduled_time?: string | null
+          timezone?: string
+          updated_at?: string | null
+          workflow_id: string
+        }
+        Update: {
+          allow_overlap?: boolean
+          created_at?: string | null
+          cron_expression?: string | null
+          enabled?: boolean
+          id?: string
+          interval_minutes?: number | null
+          last_run_at?: string | null
+          locked_until?: string | null
+          misfire_policy?: string
+          next_run_at?: string | null
+          node_id?: string
+          schedule_type?: string
+          scheduled_time?: string | null
+          timezone?: string
+          updated_at?: string | null
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_schedules_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "agent_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_templates: {
         Row: {
           author_avatar: string | null
@@ -2445,6 +3094,137 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_waits: {
+        Row: {
+          assignee: string | null
+          comment: string | null
+          condition: string
+          context: Json
+          conversation_id: string | null
+          correlation_key: string | null
+          created_at: string | null
+          decided_by: string | null
+          decision: Json | null
+          execution_id: string
+          id: string
+          instructions: string | null
+          node_id: string
+          node_name: string | null
+          resolved_at: string | null
+          resumed_at: string | null
+          status: string
+          timeout_at: string | null
+          title: string
+          workflow_id: string
+        }
+        Insert: {
+          assignee?: string | null
+          comment?: string | null
+          condition: string
+          context?: Json
+          conversation_id?: string | null
+          correlation_key?: string | null
+          created_at?: string | null
+          decided_by?: string | null
+          decision?: Json | null
+          execution_id: string
+          id?: string
+          instructions?: string | null
+          node_id: string
+          node_name?: string | null
+          resolved_at?: string | null
+          resumed_at?: string | null
+          status?: string
+          timeout_at?: string | null
+          title: string
+          workflow_id: string
+        }
+        Update: {
+          assignee?: string | null
+          comment?: string | null
+          condition?: string
+          context?: Json
+          conversation_id?: string | null
+          correlation_key?: string | null
+          created_at?: string | null
+          decided_by?: string | null
+          decision?: Json | null
+          execution_id?: string
+          id?: string
+          instructions?: string | null
+          node_id?: string
+          node_name?: string | null
+          resolved_at?: string | null
+          resumed_at?: string | null
+          status?: string
+          timeout_at?: string | null
+          title?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_waits_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_waits_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "agent_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_webhooks: {
+        Row: {
+          auth_config: Json
+          auth_type: string
+          created_at: string | null
+          enabled: boolean
+          id: string
+          method: string
+          node_id: string
+          response_mode: string
+          updated_at: string | null
+          workflow_id: string
+        }
+        Insert: {
+          auth_config?: Json
+          auth_type?: string
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          method?: string
+          node_id: string
+          response_mode?: string
+          updated_at?: string | null
+          workflow_id: string
+        }
+        Update: {
+          auth_config?: Json
+          auth_type?: string
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          method?: string
+          node_id?: string
+          response_mode?: string
+          updated_at?: string | null
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_webhooks_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "agent_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       channel_activity: {
@@ -2605,6 +3385,36 @@ export type Database = {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      decide_workflow_wait: {
+        Args: {
+          decision_comment?: string
+          decision_payload?: Json
+          decision_status: string
+          wait_id: string
+        }
+        Returns: {
+          assignee: string | null
+          comment: string | null
+          condition: string
+          context: Json
+          conversation_id: string | null
+          correlation_key: string | null
+          created_at: string | null
+          decided_by: string | null
+          decision: Json | null
+          execution_id: string
+          id: string
+          instructions: string | null
+          node_id: string
+          node_name: string | null
+          resolved_at: string | null
+          resumed_at: string | null
+          status: string
+          timeout_at: string | null
+          title: string
+          workflow_id: string
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
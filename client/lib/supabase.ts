@@ -1,9 +1,15 @@
 import { createClient } from "@supabase/supabase-js";
 import { Database } from "./supabase-types";
+import { viteEnv } from "./env";
+
+// The Netlify functions that run the workflow engine use the service role,
+// like the other background workers.
 
 const supabaseUrl =
-  import.meta.env.VITE_SUPABASE_URL || "https://your-project.supabase.co";
-const supabaseAnonKey =
-  import.meta.env.VITE_SUPABASE_ANON_KEY || "your-anon-key";
+  (viteEnv ? viteEnv.VITE_SUPABASE_URL : process.env.VITE_SUPABASE_URL) ||
+  "https://your-project.supabase.co";
+const supabaseKey =
+  (viteEnv ? viteEnv.VITE_SUPABASE_ANON_KEY : process.env.SUPABASE_SERVICE_ROLE_KEY) ||
+  "your-anon-key";
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabase = createClient<Database>(supabaseUrl, supabaseKey);
@@ -1,3 +1,5 @@
+import { getEnv } from './env';
+
 /**
  * Microsoft Teams Integration Service
  * Comprehensive Teams bot integration with enterprise features
@@ -144,11 +146,11 @@ class TeamsService {
 
   constructor() {
     this.config = {
-      botId: import.meta.env.VITE_TEAMS_BOT_ID || '',
-      botPassword: import.meta.env.VITE_TEAMS_BOT_PASSWORD || '',
-      tenantId: import.meta.env.VITE_TEAMS_TENANT_ID || '',
-      clientId: import.meta.env.VITE_TEAMS_CLIENT_ID || '',
-      clientSecret: import.meta.env.VITE_TEAMS_CLIENT_SECRET || ''
+      botId: getEnv('VITE_TEAMS_BOT_ID') || '',
+      botPassword: getEnv('VITE_TEAMS_BOT_PASSWORD') || '',
+      tenantId: getEnv('VITE_TEAMS_TENANT_ID') || '',
+      clientId: getEnv('VITE_TEAMS_CLIENT_ID') || '',
+      clientSecret: getEnv('VITE_TEAMS_CLIENT_SECRET') || ''
     };
 
     if (!this.config.botId || !this.config.clientId) {
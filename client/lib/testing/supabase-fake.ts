@@ -0,0 +1,450 @@
+/**
+ * In-memory stand-in for the Supabase client in unit tests.
+ *
+ * Tables are plain arrays of rows that tests seed and inspect, so a test
+ * asserts the rows a service leaves behind rather than the queries it built.
+ * The query builder covers the PostgREST filters the services use, including
+ * the string forms of or(), not() and filter(). Database functions are
+ * registered per test as JavaScript handlers.
+ */
+
+export type Row = Record<string, any>;
+
+export interface FakeError {
+  code?: string;
+  message: string;
+}
+
+export interface FakeResult {
+  data: any;
+  error: FakeError | null;
+  count?: number | null;
+}
+
+// Throw a FakeDatabaseError from a handler to fail the call with that code
+export type RpcHandler = (args: Record<string, any>, db: SupabaseFake) => unknown;
+
+export interface SupabaseFakeOptions {
+  // Column values a table fills in when an insert leaves them out
+  defaults?: Record<string, () => Row>;
+  // Column sets besides id that must be unique per table
+  unique?: Record<string, string[][]>;
+}
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+type Predicate = (row: Row) => boolean;
+
+interface PendingHook {
+  table: string;
+  action?: Action;
+  run: () => void;
+}
+
+export class FakeDatabaseError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'FakeDatabaseError';
+  }
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+const isNull = (value: unknown) => value === null || value === undefined;
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'number' && !isNaN(Number(b))) {
+    return a - Number(b);
+  }
+  const dateA = Date.parse(a);
+  const dateB = Date.parse(b);
+  if (typeof a === 'string' && /^\d{4}-\d{2}-\d{2}/.test(a) && !isNaN(dateA) && !isNaN(dateB)) {
+    return dateA - dateB;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+const equals = (a: any, b: any) => a === b || (!isNull(a) && !isNull(b) && compare(a, b) === 0);
+
+function likePattern(pattern: string, flags: string): RegExp {
+  const source = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${source}$`, flags);
+}
+
+function matches(value: any, operator: string, operand: any): boolean {
+  switch (operator) {
+    case 'eq': return !isNull(value) && equals(value, operand);
+    case 'neq': return !isNull(value) && !equals(value, operand);
+    case 'gt': return !isNull(value) && compare(value, operand) > 0;
+    case 'gte': return !isNull(value) && compare(value, operand) >= 0;
+    case 'lt': return !isNull(value) && compare(value, operand) < 0;
+    case 'lte': return !isNull(value) && compare(value, operand) <= 0;
+    case 'in': return !isNull(value) && (operand as any[]).some(item => equals(value, item));
+    case 'is': return operand === null ? isNull(value) : value === operand;
+    case 'like': return !isNull(value) && likePattern(operand, '').test(String(value));
+    case 'ilike': return !isNull(value) && likePattern(operand, 'i').test(String(value));
+    default: throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+// Operand of a filter written as PostgREST text, such as `("a","b")` for in
+function parseOperand(operator: string, text: string): any {
+  if (operator === 'in') {
+    return text.replace(/^\(|\)$/g, '').split(',').filter(Boolean).map(item => item.trim().replace(/^"|"$/g, ''));
+  }
+  if (operator === 'is') {
+    return text === 'null' ? null : text === 'true' ? true : text === 'false' ? false : text;
+  }
+  return text;
+}
+
+// Split on the commas that are not inside parentheses
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') depth--;
+    if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// A condition of or() such as `status.eq.pending` or `and(a.is.null,b.lte.3)`
+function parseCondition(text: string): Predicate {
+  const group = text.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const conditions = splitTopLevel(group[2]).map(parseCondition);
+    return group[1] === 'and'
+      ? row => conditions.every(condition => condition(row))
+      : row => conditions.some(condition => condition(row));
+  }
+
+  const [column, ...rest] = text.split('.');
+  const negated = rest[0] === 'not';
+  const [operator, ...operand] = negated ? rest.slice(1) : rest;
+  const value = parseOperand(operator, operand.join('.'));
+  return row => matches(row[column], operator, value) !== negated;
+}
+
+function project(row: Row, columns: string): Row {
+  const names = columns.split(',').map(name => name.trim()).filter(Boolean);
+  if (names.length === 0 || names.includes('*')) {
+    return clone(row);
+  }
+  return Object.fromEntries(names.map(name => [name, clone(row[name] ?? null)]));
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private action: Action = 'select';
+  private values: Row[] = [];
+  private filters: Predicate[] = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private maxRows?: number;
+  private columns?: string;
+  private count = false;
+  private head = false;
+  private expect?: 'single' | 'maybeSingle';
+  private onConflict = 'id';
+  private ignoreDuplicates = false;
+  private result?: Promise<FakeResult>;
+
+  constructor(private db: SupabaseFake, private table: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}): this {
+    this.columns = columns;
+    this.count = !!options.count;
+    this.head = !!options.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = clone(Array.isArray(values) ? values : [values]);
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.insert(values);
+    this.action = 'upsert';
+    this.onConflict = options.onConflict || 'id';
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = [clone(values)];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(column, 'eq', value); }
+  neq(column: string, value: any): this { return this.where(column, 'neq', value); }
+  gt(column: string, value: any): this { return this.where(column, 'gt', value); }
+  gte(column: string, value: any): this { return this.where(column, 'gte', value); }
+  lt(column: string, value: any): this { return this.where(column, 'lt', value); }
+  lte(column: string, value: any): this { return this.where(column, 'lte', value); }
+  in(column: string, values: any[]): this { return this.where(column, 'in', values); }
+  is(column: string, value: any): this { return this.where(column, 'is', value); }
+  like(column: string, pattern: string): this { return this.where(column, 'like', pattern); }
+  ilike(column: string, pattern: string): this { return this.where(column, 'ilike', pattern); }
+
+  not(column: string, operator: string, value: any): this {
+    const operand = typeof value === 'string' ? parseOperand(operator, value) : value;
+    this.filters.push(row => !matches(row[column], operator, operand));
+    return this;
+  }
+
+  filter(column: string, operator: string, value: any): this {
+    return this.where(column, operator, typeof value === 'string' ? parseOperand(operator, value) : value);
+  }
+
+  or(conditions: string): this {
+    const parsed = splitTopLevel(conditions).map(parseCondition);
+    this.filters.push(row => parsed.some(condition => condition(row)));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.expect = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.expect = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = FakeResult, T2 = never>(
+    onFulfilled?: ((value: FakeResult) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): Promise<T1 | T2> {
+    this.result ??= Promise.resolve().then(() => this.run());
+    return this.result.then(onFulfilled, onRejected);
+  }
+
+  private where(column: string, operator: string, operand: any): this {
+    this.filters.push(row => matches(row[column], operator, operand));
+    return this;
+  }
+
+  private run(): FakeResult {
+    const failure = this.db.takeFailure(this.table);
+    if (failure) {
+      return { data: null, error: failure };
+    }
+    this.db.runHooks(this.table, this.action);
+
+    const table = this.db.table(this.table);
+    let rows: Row[];
+
+    try {
+      rows = this.apply(table);
+    } catch (error) {
+      if (error instanceof FakeDatabaseError) {
+        return { data: null, error: { code: error.code, message: error.message } };
+      }
+      throw error;
+    }
+
+    if (this.action !== 'select' && this.columns === undefined) {
+      return { data: null, error: null };
+    }
+    return this.shape(rows);
+  }
+
+  private apply(table: Row[]): Row[] {
+    const matching = () => table.filter(row => this.filters.every(filter => filter(row)));
+
+    switch (this.action) {
+      case 'select':
+        return this.sorted(matching());
+
+      case 'insert':
+        return this.values.map(values => this.db.insertRow(this.table, values));
+
+      case 'upsert': {
+        const keys = this.onConflict.split(',').map(key => key.trim());
+        return this.values.flatMap(values => {
+          const existing = table.find(row => keys.every(key => equals(row[key], values[key])));
+          if (!existing) return [this.db.insertRow(this.table, values)];
+          if (this.ignoreDuplicates) return [];
+          return [Object.assign(existing, clone(values))];
+        });
+      }
+
+      case 'update': {
+        const updated = matching();
+        for (const row of updated) Object.assign(row, clone(this.values[0]));
+        return this.sorted(updated);
+      }
+
+      case 'delete': {
+        const deleted = matching();
+        this.db.tables[this.table] = table.filter(row => !deleted.includes(row));
+        return deleted;
+      }
+    }
+  }
+
+  private sorted(rows: Row[]): Row[] {
+    const sorted = [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        // Postgres puts nulls last ascending and first descending
+        if (isNull(a[column]) || isNull(b[column])) {
+          if (isNull(a[column]) && isNull(b[column])) continue;
+          return isNull(a[column]) === ascending ? 1 : -1;
+        }
+        const order = compare(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+    return this.maxRows === undefined ? sorted : sorted.slice(0, this.maxRows);
+  }
+
+  private shape(rows: Row[]): FakeResult {
+    const count = this.count ? rows.length : null;
+    if (this.head) {
+      return { data: null, error: null, count };
+    }
+
+    const data = rows.map(row => project(row, this.columns || '*'));
+    if (!this.expect) {
+      return { data, error: null, count };
+    }
+    if (data.length > 1 || (data.length === 0 && this.expect === 'single')) {
+      return {
+        data: null,
+        error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' },
+        count,
+      };
+    }
+    return { data: data[0] ?? null, error: null, count };
+  }
+}
+
+export class SupabaseFake {
+  tables: Record<string, Row[]> = {};
+  // Uploaded files by bucket and path
+  files: Record<string, Record<string, unknown>> = {};
+  functions: Record<string, RpcHandler> = {};
+
+  readonly storage = {
+    from: (bucket: string) => ({
+      upload: async (path: string, body: unknown, options: { upsert?: boolean } = {}) => {
+        const files = (this.files[bucket] ??= {});
+        if (path in files && !options.upsert) {
+          return { data: null, error: { message: 'The resource already exists' } };
+        }
+        files[path] = body;
+        return { data: { path }, error: null };
+      },
+    }),
+  };
+
+  private failures: Array<{ table: string; error: FakeError }> = [];
+  private hooks: PendingHook[] = [];
+  private nextId = 0;
+
+  constructor(private options: SupabaseFakeOptions = {}) {}
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Record<string, any> = {}): Promise<FakeResult> {
+    const handler = this.functions[name];
+    if (!handler) {
+      return { data: null, error: { code: 'PGRST202', message: `Could not find the function ${name}` } };
+    }
+
+    try {
+      return { data: clone(await handler(args, this)), error: null };
+    } catch (error) {
+      if (error instanceof FakeDatabaseError) {
+        return { data: null, error: { code: error.code, message: error.message } };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rows of a table, created empty on first use. Rows are live: a service's
+   * writes show up in them.
+   */
+  table(name: string): Row[] {
+    return (this.tables[name] ??= []);
+  }
+
+  seed(table: string, rows: Row[]): void {
+    this.table(table).push(...clone(rows));
+  }
+
+  // The next query on the table fails with this error and changes nothing
+  failNext(table: string, error: FakeError): void {
+    this.failures.push({ table, error });
+  }
+
+  /**
+   * Run a callback right before the next query on the table, or its next query
+   * of one kind, such as another worker's write landing first
+   */
+  beforeNext(table: string, action: Action | undefined, run: () => void): void {
+    this.hooks.push({ table, action, run });
+  }
+
+  reset(): void {
+    this.tables = {};
+    this.files = {};
+    this.functions = {};
+    this.failures = [];
+    this.hooks = [];
+    this.nextId = 0;
+  }
+
+  insertRow(table: string, values: Row): Row {
+    const row = { id: `${table}-${++this.nextId}`, ...this.options.defaults?.[table]?.(), ...clone(values) };
+    const rows = this.table(table);
+    const keys = [['id'], ...(this.options.unique?.[table] || [])];
+
+    for (const key of keys) {
+      if (rows.some(existing => key.every(column => !isNull(row[column]) && equals(existing[column], row[column])))) {
+        throw new FakeDatabaseError('23505', `duplicate key value violates unique constraint on ${table} (${key.join(', ')})`);
+      }
+    }
+
+    rows.push(row);
+    return row;
+  }
+
+  takeFailure(table: string): FakeError | null {
+    const index = this.failures.findIndex(failure => failure.table === table);
+    return index === -1 ? null : this.failures.splice(index, 1)[0].error;
+  }
+
+  runHooks(table: string, action: Action): void {
+    const due = this.hooks.filter(hook => hook.table === table && (!hook.action || hook.action === action));
+    this.hooks = this.hooks.filter(hook => !due.includes(hook));
+    due.forEach(hook => hook.run());
+  }
+}
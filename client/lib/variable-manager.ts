@@ -5,6 +5,7 @@
 
 import { WorkflowVariable } from './workflow-types';
 import { executionContextManager, ContextVariable } from './execution-context-manager';
+import { evaluateExpression } from './workflow-expressions';
 
 export interface VariableDefinition {
   name: string;
@@ -464,9 +465,7 @@ export class VariableManager {
    */
   private computeValue(value: any, expression: string, context: Record<string, any>): any {
     try {
-      // Simple expression evaluation (in production, use a proper expression parser)
-      const func = new Function('value', 'context', `return ${expression}`);
-      return func(value, context);
+      return evaluateExpression(expression, { locals: { value, context } });
     } catch (error) {
       console.error('Failed to compute value:', error);
       return value;
@@ -478,8 +477,7 @@ export class VariableManager {
    */
   private evaluateCondition(condition: string, context: Record<string, any>): boolean {
     try {
-      const func = new Function('context', `with(context) { return ${condition}; }`);
-      return Boolean(func(context));
+      return Boolean(evaluateExpression(condition, { locals: context }));
     } catch (error) {
       console.error('Failed to evaluate condition:', error);
       return false;
@@ -1,3 +1,5 @@
+import { getEnv } from './env';
+
 export interface VoiceSettings {
   voice_id: string;
   stability: number;
@@ -47,7 +49,7 @@ export class VoiceService {
   private recordingChunks: Blob[] = [];
 
   constructor() {
-    this.elevenLabsApiKey = import.meta.env.VITE_ELEVENLABS_API_KEY || '';
+    this.elevenLabsApiKey = getEnv('VITE_ELEVENLABS_API_KEY') || '';
     this.initializeAudioContext();
   }
 
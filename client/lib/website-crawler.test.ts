@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  WebsiteCrawler,
+  extractLinks,
+  extractMainContent,
+  hammingDistance,
+  isAllowedByRobots,
+  isPublicAddress,
+  matchesPatterns,
+  normalizeUrl,
+  parseRobotsTxt,
+  parseSitemap,
+  readLimitedText,
+  simhash,
+  type CrawlSettings,
+} from './website-crawler';
+
+const page = (title: string, body: string, links: string[] = []) => `
+  <html lang="en"><head><title>${title}</title></head><body>
+    <nav>${links.map(link => `<a href="${link}">${link}</a>`).join('')}</nav>
+    <main><h1>${title}</h1><p>${body}</p></main>
+    <footer>© Example Inc</footer>
+  </body></html>`;
+
+const createFetcher = (site: Record<string, string>, redirects: Record<string, string> = {}) => vi.fn(async (url: string) => {
+  if (redirects[url]) {
+    return new Response(null, { status: 302, headers: { location: redirects[url] } });
+  }
+  const body = site[url];
+  if (body === undefined) {
+    return new Response('Not found', { status: 404 });
+  }
+  const contentType = url.endsWith('.txt') ? 'text/plain' : url.endsWith('.xml') ? 'application/xml' : 'text/html';
+  return new Response(body, { status: 200, headers: { 'content-type': contentType } });
+});
+
+// Every host in the tests resolves to a public address unless listed here
+const createResolver = (hosts: Record<string, string[]> = {}) => vi.fn(async (hostname: string) =>
+  hosts[hostname] ?? ['93.184.216.34']);
+
+const settings = (overrides: Partial<CrawlSettings> = {}): CrawlSettings => ({
+  rootUrl: 'https://example.com/',
+  maxDepth: 2,
+  maxPages: 50,
+  includePatterns: [],
+  excludePatterns: [],
+  respectRobotsTxt: true,
+  ...overrides,
+});
+
+describe('URL rules', () => {
+  it('should normalise URLs so variants are crawled once', () => {
+    expect(normalizeUrl('HTTPS://Example.com/docs/?b=2&utm_source=x&a=1#intro')).toBe('https://example.com/docs?a=1&b=2');
+    expect(normalizeUrl('mailto:help@example.com')).toBeNull();
+  });
+
+  it('should match include and exclude patterns against the URL or its path', () => {
+    expect(matchesPatterns('https://example.com/docs/setup', ['/docs/*'], [])).toBe(true);
+    expect(matchesPatterns('https://example.com/blog/news', ['/docs/*'], [])).toBe(false);
+    expect(matchesPatterns('https://example.com/docs/old/page', ['/docs/*'], ['*/old/*'])).toBe(false);
+  });
+
+  it('should apply the most specific robots.txt rule of the matching group', () => {
+    const rules = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: AgentPlatformBot',
+      'Disallow: /private',
+      'Allow: /private/faq',
+      'Crawl-delay: 2',
+      'Sitemap: https://example.com/sitemap.xml',
+    ].join('\n'), 'AgentPlatformBot/1.0');
+
+    expect(rules.crawlDelay).toBe(2);
+    expect(rules.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    expect(isAllowedByRobots(rules, 'https://example.com/docs')).toBe(true);
+    expect(isAllowedByRobots(rules, 'https://example.com/private/keys')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/private/faq')).toBe(true);
+  });
+
+  it('should read sitemaps and sitemap indexes', () => {
+    expect(parseSitemap('<urlset><url><loc>https://example.com/a?x=1&amp;y=2</loc><lastmod>2024-01-01</lastmod></url></urlset>')).toEqual({
+      urls: [{ url: 'https://example.com/a?x=1&y=2', lastModified: '2024-01-01' }],
+      sitemaps: [],
+    });
+    expect(parseSitemap('<sitemapindex><sitemap><loc>https://example.com/docs.xml</loc></sitemap></sitemapindex>').sitemaps)
+      .toEqual(['https://example.com/docs.xml']);
+  });
+});
+
+describe('content extraction', () => {
+  it('should keep the main content and drop navigation and footer', () => {
+    const content = extractMainContent(page('Setup', 'Plug in the router.', ['/pricing']), 'https://example.com/setup');
+
+    expect(content).toMatchObject({ title: 'Setup', language: 'en', text: 'Setup Plug in the router.' });
+    expect(content.html).toContain('<title>Setup</title>');
+    expect(content.html).not.toContain('pricing');
+  });
+
+  it('should resolve links and skip nofollow and non-page links', () => {
+    const html = '<a href="/docs#top">Docs</a><a href="guide">Guide</a><a rel="nofollow" href="/login">Login</a><a href="/logo.png">Logo</a>';
+
+    expect(extractLinks(html, 'https://example.com/help/')).toEqual(['https://example.com/docs', 'https://example.com/help/guide']);
+  });
+
+  it('should give near-identical texts close fingerprints', () => {
+    const base = Array.from({ length: 40 }, (_, i) => `step ${i} of the router setup guide explains option ${i * 7} in detail`).join(' ');
+
+    expect(hammingDistance(simhash(base), simhash(`${base} today`))).toBeLessThanOrEqual(3);
+    expect(hammingDistance(simhash(base), simhash('Our pricing plans start at twenty dollars per month and include unlimited agents for every team member'))).toBeGreaterThan(3);
+  });
+});
+
+describe('WebsiteCrawler', () => {
+  const site = {
+    'https://example.com/robots.txt': 'User-agent: *\nDisallow: /admin',
+    'https://example.com/': page('Home', 'Welcome to the help center for the example router product line.', ['/docs', '/admin', '/blog/news', 'https://other.com/']),
+    'https://example.com/docs': page('Docs', 'Read the setup guide and the troubleshooting guide before contacting support.', ['/docs/setup', '/docs/setup?print=1']),
+    'https://example.com/docs/setup': page('Setup', 'Plug the router into the wall socket and wait until the status light turns green.'),
+    'https://example.com/docs/setup?print=1': page('Setup', 'Plug the router into the wall socket and wait until the status light turns green.'),
+    'https://example.com/blog/news': page('News', 'We opened a new office in Berlin this spring and are hiring support engineers.'),
+  };
+
+  it('should crawl within depth, robots.txt and patterns and flag duplicates', async () => {
+    const fetcher = createFetcher(site);
+    const crawler = new WebsiteCrawler(fetcher, { requestDelayMs: 0 }, createResolver());
+
+    const result = await crawler.crawl(settings({ excludePatterns: ['/blog/*'] }));
+
+    expect(result.pages.map(p => [p.url, p.status])).toEqual([
+      ['https://example.com/', 'fetched'],
+      ['https://example.com/docs', 'fetched'],
+      ['https://example.com/docs/setup', 'fetched'],
+      ['https://example.com/docs/setup?print=1', 'duplicate'],
+    ]);
+    expect(result.pages[3].duplicateOf).toBe('https://example.com/docs/setup');
+    expect(result.skipped).toEqual({ robots: 1, patterns: 1 });
+    expect(fetcher).not.toHaveBeenCalledWith('https://other.com/', expect.anything());
+  });
+
+  it('should stop at the depth and page limits', async () => {
+    const crawler = new WebsiteCrawler(createFetcher(site), { requestDelayMs: 0 }, createResolver());
+
+    const shallow = await crawler.crawl(settings({ maxDepth: 1, excludePatterns: ['/blog/*'] }));
+    const limited = await crawler.crawl(settings({ maxPages: 2 }));
+
+    expect(shallow.pages.map(p => p.url)).toEqual(['https://example.com/', 'https://example.com/docs']);
+    expect(limited.pages).toHaveLength(2);
+    expect(limited.truncated).toBe(true);
+  });
+
+  it('should start from the sitemap and report pages that are gone', async () => {
+    const crawler = new WebsiteCrawler(createFetcher({
+      'https://example.com/sitemap.xml': '<urlset><url><loc>https://example.com/docs/setup</loc></url><url><loc>https://example.com/old</loc></url></urlset>',
+      'https://example.com/docs/setup': site['https://example.com/docs/setup'],
+    }), { requestDelayMs: 0 }, createResolver());
+
+    const result = await crawler.crawl(settings({ rootUrl: undefined, sitemapUrl: 'https://example.com/sitemap.xml', maxDepth: 0 }));
+
+    expect(result.pages.map(p => [p.url, p.status, p.httpStatus])).toEqual([
+      ['https://example.com/docs/setup', 'fetched', 200],
+      ['https://example.com/old', 'gone', 404],
+    ]);
+    expect(result.pages[0].contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should follow redirects but refuse hops to private addresses', async () => {
+    const fetcher = createFetcher({
+      'https://example.com/docs/setup': site['https://example.com/docs/setup'],
+    }, {
+      'https://example.com/': 'https://example.com/docs/setup',
+      'https://example.com/metadata': 'http://169.254.169.254/latest/meta-data/',
+      'https://example.com/intranet': 'https://intranet.example.com/',
+    });
+    const resolveHost = createResolver({
+      '169.254.169.254': ['169.254.169.254'],
+      'intranet.example.com': ['93.184.216.34', '10.0.0.12'],
+    });
+    const crawler = new WebsiteCrawler(fetcher, { requestDelayMs: 0 }, resolveHost);
+
+    const redirected = await crawler.crawl(settings({ maxDepth: 0, respectRobotsTxt: false }));
+    const metadata = await crawler.crawl(settings({ rootUrl: 'https://example.com/metadata', maxDepth: 0, respectRobotsTxt: false }));
+    const intranet = await crawler.crawl(settings({ rootUrl: 'https://example.com/intranet', maxDepth: 0, respectRobotsTxt: false }));
+
+    expect(redirected.pages[0]).toMatchObject({ url: 'https://example.com/', status: 'fetched', title: 'Setup' });
+    expect(metadata.pages[0]).toMatchObject({ status: 'error', error: '169.254.169.254 does not resolve to a public address' });
+    expect(intranet.pages[0]).toMatchObject({ status: 'error', error: 'intranet.example.com does not resolve to a public address' });
+    expect(fetcher).not.toHaveBeenCalledWith('http://169.254.169.254/latest/meta-data/', expect.anything());
+    expect(fetcher).not.toHaveBeenCalledWith('https://intranet.example.com/', expect.anything());
+  });
+
+  it('should refuse pages larger than maxPageBytes', async () => {
+    const crawler = new WebsiteCrawler(createFetcher({
+      'https://example.com/': page('Home', 'x'.repeat(2000)),
+    }), { requestDelayMs: 0, maxPageBytes: 1000 }, createResolver());
+
+    const result = await crawler.crawl(settings({ maxDepth: 0, respectRobotsTxt: false }));
+
+    expect(result.pages[0]).toMatchObject({ status: 'error', error: 'Page is too large' });
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses and refuse private and reserved ones', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', '[::1]', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::10.0.0.1', 'localhost']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('readLimitedText', () => {
+  it('should stop reading once the body exceeds the limit', async () => {
+    const chunk = new TextEncoder().encode('a'.repeat(600));
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk);
+      },
+    });
+
+    await expect(readLimitedText(new Response(body), 1000)).rejects.toThrow('Page is too large');
+    expect(pulled).toBeLessThan(4);
+    expect(await readLimitedText(new Response('héllo'), 1000)).toBe('héllo');
+  });
+});
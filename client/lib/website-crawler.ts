@@ -0,0 +1,774 @@
+/**
+ * Website crawler for the "website" knowledge base source.
+ *
+ * Starts from a root URL and/or a sitemap and follows links on the same origin
+ * breadth-first, up to a depth and page limit, honouring include/exclude
+ * patterns and robots.txt. Every page is reduced to its main content, hashed
+ * for change detection and fingerprinted (simhash) so near-identical pages,
+ * such as print views or tracking-parameter variants, are indexed only once.
+ *
+ * Fetching and host resolution are injected, and the module has no Supabase
+ * dependency, so the Netlify crawl worker and the tests share it. Sources are
+ * user-supplied URLs fetched from our network: every request, redirects
+ * included, is refused unless its host resolves only to public addresses.
+ */
+
+export interface CrawlSettings {
+  rootUrl?: string;
+  sitemapUrl?: string;
+  // Link hops from the root URL or a sitemap entry; 0 crawls only those pages
+  maxDepth: number;
+  maxPages: number;
+  // Glob patterns (`*` matches anything) tested against the full URL and its path
+  includePatterns: string[];
+  excludePatterns: string[];
+  respectRobotsTxt: boolean;
+}
+
+export interface CrawlerOptions {
+  userAgent: string;
+  // Minimum delay between requests; robots.txt Crawl-delay can raise it
+  requestDelayMs: number;
+  requestTimeoutMs: number;
+  // Pages whose simhash differs in at most this many bits are near-duplicates
+  nearDuplicateDistance: number;
+  maxPageBytes: number;
+}
+
+export type CrawledPageStatus = 'fetched' | 'duplicate' | 'gone' | 'error';
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: CrawledPageStatus;
+  httpStatus?: number;
+  title?: string;
+  language?: string;
+  // Standalone HTML document holding only the page's main content
+  html?: string;
+  text?: string;
+  contentHash?: string;
+  simhash?: string;
+  // URL of the page this one duplicates
+  duplicateOf?: string;
+  error?: string;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  // Pages that were found but not fetched because maxPages was reached
+  truncated: boolean;
+  skipped: { robots: number; patterns: number };
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+export interface SitemapEntries {
+  urls: Array<{ url: string; lastModified?: string }>;
+  // Child sitemaps of a sitemap index
+  sitemaps: string[];
+}
+
+export interface MainContent {
+  title?: string;
+  language?: string;
+  canonicalUrl?: string;
+  html: string;
+  text: string;
+}
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Addresses a host name resolves to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export const DEFAULT_CRAWLER_OPTIONS: CrawlerOptions = {
+  userAgent: 'AgentPlatformBot/1.0 (+knowledge-base crawler)',
+  requestDelayMs: 500,
+  requestTimeoutMs: 15 * 1000,
+  nearDuplicateDistance: 3,
+  maxPageBytes: 5 * 1024 * 1024,
+};
+
+// Nested sitemap indexes beyond this are ignored
+const MAX_SITEMAPS = 50;
+
+const MAX_REDIRECTS = 5;
+
+// Private, loopback, link-local (cloud metadata included), shared, documentation,
+// benchmarking, multicast and reserved IPv4 ranges
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+
+// Parameters that never change what a page shows
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid|ref|_ga)$/i;
+
+// Page chrome that is never main content
+const CHROME_ELEMENTS = /<(script|style|noscript|template|svg|iframe|nav|header|footer|aside|form|button)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+// Links to files the crawler cannot index as pages
+const NON_PAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|svg|ico|css|js|mjs|zip|gz|tar|mp3|mp4|mov|avi|woff2?|ttf|eot|exe|dmg)$/i;
+
+export class WebsiteCrawlError extends Error {
+  constructor(message: string, public readonly url?: string) {
+    super(message);
+    this.name = 'WebsiteCrawlError';
+  }
+}
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// The eight 16-bit groups of an IPv6 address, or null when it is not one
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIpv4(embedded[2]);
+    if (ipv4 === null) return null;
+    text = `${embedded[1]}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+/**
+ * Whether an IP address is routable on the public internet. Anything else,
+ * such as loopback, private networks or the 169.254.169.254 metadata service,
+ * is refused. Host names are not addresses and return false.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return !BLOCKED_IPV4_RANGES.some(([base, bits]) =>
+      Math.floor(ipv4 / 2 ** (32 - bits)) === Math.floor(parseIpv4(base)! / 2 ** (32 - bits)));
+  }
+
+  const groups = parseIpv6(address.replace(/^\[|\]$/g, ''));
+  if (!groups) return false;
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the embedded IPv4 address
+  const embedsIpv4 = groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff
+    || groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (embedsIpv4) {
+    return isPublicAddress(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+
+  const [first] = groups;
+  return !(
+    groups.slice(0, 7).every(group => group === 0) // :: and ::1
+    || (first & 0xfe00) === 0xfc00 // unique local
+    || (first & 0xffc0) === 0xfe80 // link-local
+    || (first & 0xff00) === 0xff00 // multicast
+    || (first === 0x2001 && groups[1] === 0x0db8) // documentation
+    || (first === 0x0100 && groups.slice(1, 4).every(group => group === 0)) // discard
+  );
+}
+
+/**
+ * Default resolver: accepts hosts written as IP addresses only. The crawl
+ * worker passes a DNS resolver; without one, host names are refused rather
+ * than fetched unchecked.
+ */
+export const resolveLiteralHost: HostResolver = async hostname => {
+  const address = hostname.replace(/^\[|\]$/g, '');
+  if (parseIpv4(address) !== null || parseIpv6(address)) {
+    return [address];
+  }
+  throw new WebsiteCrawlError(`Cannot resolve ${hostname}: no host resolver configured`);
+};
+
+/**
+ * Read a response body as text, stopping as soon as it exceeds maxBytes
+ */
+export async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body.cancel();
+    throw new WebsiteCrawlError('Page is too large', response.url || undefined);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new WebsiteCrawlError('Page is too large', response.url || undefined);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Canonical form of a URL used to recognise pages already seen: no fragment,
+ * no default port, no tracking parameters, sorted query, no trailing slash
+ */
+export function normalizeUrl(url: string, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase();
+  [...parsed.searchParams.keys()].forEach(key => {
+    if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+  });
+  parsed.searchParams.sort();
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.toString();
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Whether a URL passes the include and exclude patterns. Patterns match either
+ * the whole URL or its path (with query), so `/docs/*` and
+ * `https://example.com/docs/*` both work.
+ */
+export function matchesPatterns(url: string, includePatterns: string[], excludePatterns: string[]): boolean {
+  const parsed = new URL(url);
+  const candidates = [url, `${parsed.pathname}${parsed.search}`, parsed.pathname];
+  const matches = (pattern: string) => candidates.some(candidate => globToRegExp(pattern).test(candidate));
+
+  const include = includePatterns.filter(pattern => pattern.trim());
+  const exclude = excludePatterns.filter(pattern => pattern.trim());
+
+  if (include.length > 0 && !include.some(matches)) return false;
+  return !exclude.some(matches);
+}
+
+/**
+ * The rules of robots.txt that apply to the user agent: the group naming its
+ * product token, or the `*` group when none does
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split('/')[0].toLowerCase();
+  const groups: Array<{ agents: string[]; allow: string[]; disallow: string[]; crawlDelay?: number }> = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+      return;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+
+    lastWasAgent = false;
+    if (!current) return;
+
+    if (field === 'allow' && value) current.allow.push(value);
+    if (field === 'disallow' && value) current.disallow.push(value);
+    if (field === 'crawl-delay' && !isNaN(Number(value))) current.crawlDelay = Number(value);
+  });
+
+  const group = groups.find(g => g.agents.some(agent => agent !== '*' && token.includes(agent)))
+    || groups.find(g => g.agents.includes('*'));
+
+  return {
+    allow: group?.allow || [],
+    disallow: group?.disallow || [],
+    crawlDelay: group?.crawlDelay,
+    sitemaps,
+  };
+}
+
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether robots rules allow a URL. The longest matching rule wins and Allow
+ * wins ties, as in RFC 9309.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const parsed = new URL(url);
+  const path = `${parsed.pathname}${parsed.search}`;
+
+  const longest = (patterns: string[]) => Math.max(
+    -1,
+    ...patterns.filter(pattern => robotsPatternToRegExp(pattern).test(path)).map(pattern => pattern.length)
+  );
+
+  const allow = longest(rules.allow);
+  const disallow = longest(rules.disallow);
+  return disallow < 0 || allow >= disallow;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Page URLs of a sitemap, or the child sitemaps of a sitemap index
+ */
+export function parseSitemap(xml: string): SitemapEntries {
+  const entries = (tag: string) =>
+    [...xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))].map(([, entry]) => ({
+      url: decodeXml(entry.match(/<loc>([\s\S]*?)<\/loc>/i)?.[1] || ''),
+      lastModified: entry.match(/<lastmod>([\s\S]*?)<\/lastmod>/i)?.[1]?.trim(),
+    })).filter(entry => entry.url);
+
+  return {
+    urls: entries('url'),
+    sitemaps: entries('sitemap').map(entry => entry.url),
+  };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&(#39|apos);/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Links of a page as absolute, normalised URLs. Links marked nofollow are left out.
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const base = html.match(/<base\b[^>]*\bhref=["']([^"']+)["']/i)?.[1];
+  const resolveAgainst = base ? new URL(base, baseUrl).toString() : baseUrl;
+  const links = new Set<string>();
+
+  for (const [tag] of html.matchAll(/<a\b[^>]*>/gi)) {
+    if (/\brel=["'][^"']*nofollow/i.test(tag)) continue;
+    const href = tag.match(/\bhref=["']([^"']*)["']/i)?.[1];
+    if (!href || /^(mailto|tel|javascript):/i.test(href)) continue;
+
+    const url = normalizeUrl(decodeEntities(href), resolveAgainst);
+    if (url && !NON_PAGE_EXTENSIONS.test(new URL(url).pathname)) {
+      links.add(url);
+    }
+  }
+
+  return [...links];
+}
+
+/**
+ * The main content of a page: its <main>, <article> or role="main" element
+ * when there is one, otherwise the body, without navigation, headers, footers,
+ * sidebars, forms and scripts. Returned as a small standalone document so the
+ * HTML processor picks up the title and language.
+ */
+export function extractMainContent(html: string, url?: string): MainContent {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  const title = withoutComments.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const language = withoutComments.match(/<html\b[^>]*\blang=["']([^"']+)["']/i)?.[1];
+  const canonical = withoutComments.match(/<link\b[^>]*\brel=["']canonical["'][^>]*>/i)?.[0]
+    .match(/\bhref=["']([^"']+)["']/i)?.[1];
+
+  const body = withoutComments.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? withoutComments;
+  const main = body.match(/<main\b[^>]*>([\s\S]*)<\/main>/i)?.[1]
+    ?? body.match(/<([a-z]+)\b[^>]*\brole=["']main["'][^>]*>([\s\S]*)<\/\1>/i)?.[2]
+    ?? body.match(/<article\b[^>]*>([\s\S]*)<\/article>/i)?.[1]
+    ?? body;
+
+  const content = main.replace(CHROME_ELEMENTS, '').trim();
+  const text = decodeEntities(content.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+  const cleanTitle = title ? decodeEntities(title).replace(/\s+/g, ' ').trim() : undefined;
+
+  return {
+    title: cleanTitle,
+    language,
+    canonicalUrl: canonical && url ? normalizeUrl(canonical, url) || undefined : undefined,
+    html: [
+      `<html${language ? ` lang="${language}"` : ''}>`,
+      `<head>${cleanTitle ? `<title>${escapeHtml(cleanTitle)}</title>` : ''}</head>`,
+      `<body>${content}</body>`,
+      '</html>',
+    ].join('\n'),
+    text,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * SHA-256 of a page's main-content text, used to skip re-embedding pages that
+ * did not change since the last crawl
+ */
+export async function hashContent(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const FNV_OFFSET = BigInt('0xcbf29ce484222325');
+const FNV_PRIME = BigInt('0x100000001b3');
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+function fnv1a64(text: string): bigint {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash;
+}
+
+/**
+ * 64-bit simhash over word 3-grams, as 16 hex digits. Pages that differ only
+ * in a few words have fingerprints a few bits apart.
+ */
+export function simhash(text: string): string {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const shingles = words.length < 3 ? [words.join(' ')] : words.slice(0, -2).map((_, i) => words.slice(i, i + 3).join(' '));
+  const weights = new Array<number>(64).fill(0);
+
+  shingles.forEach(shingle => {
+    const hash = fnv1a64(shingle);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & BigInt(1) ? 1 : -1;
+    }
+  });
+
+  let fingerprint = BigInt(0);
+  weights.forEach((weight, bit) => {
+    if (weight > 0) fingerprint |= BigInt(1) << BigInt(bit);
+  });
+
+  return fingerprint.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return distance;
+}
+
+interface QueuedUrl {
+  url: string;
+  depth: number;
+}
+
+export class WebsiteCrawler {
+  private fetcher: Fetcher;
+  private options: CrawlerOptions;
+  private resolveHost: HostResolver;
+  private lastRequestAt = 0;
+
+  constructor(
+    fetcher: Fetcher = (url, init) => fetch(url, init),
+    options: Partial<CrawlerOptions> = {},
+    resolveHost: HostResolver = resolveLiteralHost
+  ) {
+    this.fetcher = fetcher;
+    this.options = { ...DEFAULT_CRAWLER_OPTIONS, ...options };
+    this.resolveHost = resolveHost;
+  }
+
+  /**
+   * Crawl a site breadth-first. Pages come back in crawl order; pages excluded
+   * by robots.txt or the patterns are only counted.
+   */
+  async crawl(settings: CrawlSettings): Promise<CrawlResult> {
+    const seedUrl = normalizeUrl(settings.rootUrl || settings.sitemapUrl || '');
+    if (!seedUrl) {
+      throw new WebsiteCrawlError('A valid root URL or sitemap URL is required', settings.rootUrl || settings.sitemapUrl);
+    }
+    const origin = new URL(seedUrl).origin;
+
+    const robots = settings.respectRobotsTxt ? await this.loadRobots(origin) : null;
+    const delayMs = Math.max(this.options.requestDelayMs, (robots?.crawlDelay || 0) * 1000);
+
+    const queue: QueuedUrl[] = [];
+    const seen = new Set<string>();
+    const result: CrawlResult = { pages: [], truncated: false, skipped: { robots: 0, patterns: 0 } };
+
+    const enqueue = (url: string, depth: number) => {
+      if (seen.has(url) || new URL(url).origin !== origin) return;
+      seen.add(url);
+
+      if (robots && !isAllowedByRobots(robots, url)) {
+        result.skipped.robots++;
+        return;
+      }
+      // The root URL is always crawled so links can be followed from it
+      if (depth > 0 && !matchesPatterns(url, settings.includePatterns, settings.excludePatterns)) {
+        result.skipped.patterns++;
+        return;
+      }
+      queue.push({ url, depth });
+    };
+
+    if (settings.rootUrl) {
+      enqueue(normalizeUrl(settings.rootUrl)!, 0);
+    }
+
+    // A sitemap listed in robots.txt stands in for an explicit one
+    const sitemapUrls = settings.sitemapUrl ? [settings.sitemapUrl] : robots?.sitemaps || [];
+    for (const url of await this.loadSitemapUrls(sitemapUrls, delayMs)) {
+      const normalized = normalizeUrl(url);
+      if (normalized && matchesPatterns(normalized, settings.includePatterns, settings.excludePatterns)) {
+        enqueue(normalized, 0);
+      }
+    }
+
+    const fingerprints: Array<{ url: string; contentHash: string; simhash: string }> = [];
+
+    while (queue.length > 0) {
+      if (result.pages.length >= settings.maxPages) {
+        result.truncated = true;
+        break;
+      }
+
+      const { url, depth } = queue.shift()!;
+      const { page, links } = await this.fetchPage(url, depth, delayMs);
+      result.pages.push(page);
+
+      if (page.status !== 'fetched') continue;
+
+      const duplicate = fingerprints.find(seenPage =>
+        seenPage.contentHash === page.contentHash
+        || hammingDistance(seenPage.simhash, page.simhash!) <= this.options.nearDuplicateDistance);
+
+      if (duplicate) {
+        page.status = 'duplicate';
+        page.duplicateOf = duplicate.url;
+      } else {
+        fingerprints.push({ url, contentHash: page.contentHash!, simhash: page.simhash! });
+      }
+
+      if (depth < settings.maxDepth) {
+        links.forEach(link => enqueue(link, depth + 1));
+      }
+    }
+
+    return result;
+  }
+
+  private async fetchPage(url: string, depth: number, delayMs: number): Promise<{ page: CrawledPage; links: string[] }> {
+    const failed = (status: CrawledPageStatus, httpStatus?: number, error?: string) =>
+      ({ page: { url, depth, status, httpStatus, error }, links: [] });
+
+    try {
+      const fetched = await this.request(url, delayMs, async (response, finalUrl) => {
+        if (response.status === 404 || response.status === 410) {
+          return failed('gone', response.status);
+        }
+        if (!response.ok) {
+          return failed('error', response.status, `HTTP ${response.status}`);
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType && !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+          return failed('error', response.status, `Not an HTML page (${contentType})`);
+        }
+
+        try {
+          return { html: await readLimitedText(response, this.options.maxPageBytes), finalUrl, status: response.status };
+        } catch (error) {
+          return failed('error', response.status, error instanceof Error ? error.message : String(error));
+        }
+      });
+      if ('page' in fetched) {
+        return fetched;
+      }
+      const { html, finalUrl, status } = fetched;
+
+      // Links are read from the whole page, navigation included
+      const links = extractLinks(html, finalUrl);
+      const content = extractMainContent(html, url);
+      // The canonical version is crawled too; whichever comes second is a duplicate
+      if (content.canonicalUrl && content.canonicalUrl !== url) {
+        links.push(content.canonicalUrl);
+      }
+
+      return {
+        page: {
+          url,
+          depth,
+          status: 'fetched',
+          httpStatus: status,
+          title: content.title,
+          language: content.language,
+          html: content.html,
+          text: content.text,
+          contentHash: await hashContent(content.text),
+          simhash: simhash(content.text),
+        },
+        links,
+      };
+    } catch (error) {
+      return failed('error', undefined, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async loadRobots(origin: string): Promise<RobotsRules | null> {
+    try {
+      // A missing robots.txt allows everything
+      return await this.request(`${origin}/robots.txt`, 0, async response =>
+        response.ok ? parseRobotsTxt(await readLimitedText(response, this.options.maxPageBytes), this.options.userAgent) : null);
+    } catch {
+      return null;
+    }
+  }
+
+  private async loadSitemapUrls(sitemapUrls: string[], delayMs: number): Promise<string[]> {
+    const pending = [...sitemapUrls];
+    const loaded = new Set<string>();
+    const urls: string[] = [];
+
+    while (pending.length > 0 && loaded.size < MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!;
+      if (loaded.has(sitemapUrl)) continue;
+      loaded.add(sitemapUrl);
+
+      try {
+        const entries = await this.request(sitemapUrl, delayMs, async response =>
+          response.ok ? parseSitemap(await readLimitedText(response, this.options.maxPageBytes)) : null);
+        if (!entries) continue;
+
+        urls.push(...entries.urls.map(entry => entry.url));
+        pending.push(...entries.sitemaps);
+      } catch (error) {
+        console.error(`Failed to load sitemap ${sitemapUrl}:`, error);
+      }
+    }
+
+    return urls;
+  }
+
+  /**
+   * Fetch a URL and read the response within the request timeout. Redirects are
+   * followed here rather than by fetch, so every hop is checked.
+   */
+  private async request<T>(
+    url: string,
+    delayMs: number,
+    read: (response: Response, finalUrl: string) => Promise<T>
+  ): Promise<T> {
+    const wait = this.lastRequestAt + delayMs - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
+
+    try {
+      let current = url;
+      for (let redirects = 0; ; redirects++) {
+        await this.assertPublicUrl(current);
+
+        const response = await this.fetcher(current, {
+          headers: { 'User-Agent': this.options.userAgent, Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9' },
+          redirect: 'manual',
+          signal: controller.signal,
+        });
+
+        const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+        if (!location) {
+          return await read(response, current);
+        }
+
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new WebsiteCrawlError(`More than ${MAX_REDIRECTS} redirects`, url);
+        }
+        current = new URL(location, current).toString();
+      }
+    } finally {
+      clearTimeout(timeout);
+      this.lastRequestAt = Date.now();
+    }
+  }
+
+  // Refuses URLs that are not http(s) or whose host resolves to a non-public address
+  private async assertPublicUrl(url: string): Promise<void> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new WebsiteCrawlError(`Only http and https URLs can be crawled`, url);
+    }
+
+    const addresses = await this.resolveHost(hostname);
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+      throw new WebsiteCrawlError(`${hostname} does not resolve to a public address`, url);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WebsiteSourceService, getNextCrawlTime, validateWebsiteSource, type WebsiteSource } from './website-source-service';
+import { WebsiteCrawler, type CrawledPage } from './website-crawler';
+import { SupabaseFake } from './testing/supabase-fake';
+
+const db = new SupabaseFake();
+const client = db as any;
+const queue: any = { enqueue: vi.fn(async () => ({})) };
+
+const NOW = new Date('2024-05-01T10:00:00.000Z');
+
+const sourceRow = {
+  id: 'source-1',
+  knowledge_base_id: 'kb-1',
+  user_id: 'user-1',
+  name: 'help.example.com',
+  root_url: 'https://help.example.com/',
+  max_depth: 2,
+  max_pages: 100,
+  include_patterns: [],
+  exclude_patterns: [],
+  respect_robots_txt: true,
+  recrawl_cron: '0 3 * * *',
+  timezone: 'UTC',
+  status: 'idle',
+  locked_until: null,
+  created_at: '2024-04-01T00:00:00.000Z',
+};
+
+const pageRow = (id: string, url: string, contentHash: string) => ({
+  id,
+  source_id: 'source-1',
+  url,
+  status: 'indexed',
+  content_hash: contentHash,
+  document_id: `doc-${id}`,
+});
+
+const crawled = (url: string, overrides: Partial<CrawledPage> = {}): CrawledPage => ({
+  url,
+  depth: 1,
+  status: 'fetched',
+  httpStatus: 200,
+  title: url,
+  html: '<html></html>',
+  text: url,
+  contentHash: `hash-${url}`,
+  simhash: '0000000000000000',
+  ...overrides,
+});
+
+const rows = (table: string) => db.table(table);
+const page = (url: string) => rows('website_pages').find(row => row.url === url);
+
+beforeEach(() => {
+  db.reset();
+  queue.enqueue.mockClear();
+});
+
+describe('validateWebsiteSource', () => {
+  it('should require an http(s) root URL or sitemap and sane limits', () => {
+    expect(validateWebsiteSource({ rootUrl: 'https://example.com', maxDepth: 2, maxPages: 100 })).toEqual([]);
+    expect(validateWebsiteSource({})).toHaveLength(1);
+    expect(validateWebsiteSource({ rootUrl: 'ftp://example.com' })).toHaveLength(1);
+    expect(validateWebsiteSource({ rootUrl: 'https://example.com', maxPages: 0 })).toHaveLength(1);
+  });
+});
+
+describe('getNextCrawlTime', () => {
+  it('should follow the re-crawl schedule and leave on-demand sources unscheduled', () => {
+    const source = { recrawlCron: '0 3 * * *', timezone: 'UTC' } as WebsiteSource;
+
+    expect(getNextCrawlTime(source, NOW)?.toISOString()).toBe('2024-05-02T03:00:00.000Z');
+    expect(getNextCrawlTime({ ...source, recrawlCron: undefined }, NOW)).toBeNull();
+  });
+});
+
+describe('WebsiteSourceService.syncSource', () => {
+  it('should only re-embed pages whose content hash changed', async () => {
+    const service = new WebsiteSourceService(client, queue);
+    const crawler = new WebsiteCrawler();
+    vi.spyOn(crawler, 'crawl').mockResolvedValue({
+      pages: [
+        crawled('https://help.example.com/unchanged', { contentHash: 'same' }),
+        crawled('https://help.example.com/changed', { contentHash: 'new' }),
+        crawled('https://help.example.com/added'),
+        crawled('https://help.example.com/old', { status: 'gone', httpStatus: 404, html: undefined, text: undefined, contentHash: undefined }),
+      ],
+      truncated: false,
+      skipped: { robots: 1, patterns: 0 },
+    });
+    db.seed('website_sources', [sourceRow]);
+    db.seed('website_pages', [
+      pageRow('p1', 'https://help.example.com/unchanged', 'same'),
+      pageRow('p2', 'https://help.example.com/changed', 'old'),
+      pageRow('p3', 'https://help.example.com/old', 'gone'),
+    ]);
+    db.seed('documents', ['p1', 'p2', 'p3'].map(id => ({ id: `doc-${id}`, knowledge_base_id: 'kb-1', status: 'ready' })));
+
+    const result = await service.syncSource('source-1', crawler, NOW);
+
+    const added = page('https://help.example.com/added');
+    expect(result?.stats).toMatchObject({ pages: 4, added: 1, changed: 1, unchanged: 1, removed: 1, skippedByRobots: 1 });
+    expect(result?.enqueued).toEqual(['doc-p2', added.document_id]);
+    expect(queue.enqueue).toHaveBeenCalledTimes(2);
+    expect(Object.keys(db.files.documents)).toHaveLength(2);
+
+    expect(rows('documents').map(row => [row.id, row.status])).toEqual([
+      ['doc-p1', 'ready'],
+      ['doc-p2', 'processing'],
+      [added.document_id, 'processing'],
+    ]);
+    expect(page('https://help.example.com/changed')).toMatchObject({ status: 'indexed', document_id: 'doc-p2', content_hash: 'new' });
+    expect(page('https://help.example.com/old')).toMatchObject({ status: 'removed', document_id: null });
+    expect(added).toMatchObject({ status: 'indexed', content_hash: 'hash-https://help.example.com/added' });
+    expect(rows('website_sources')[0]).toMatchObject({
+      status: 'idle',
+      locked_until: null,
+      next_crawl_at: '2024-05-02T03:00:00.000Z',
+    });
+  });
+
+  it('should not crawl a source that another worker has locked', async () => {
+    const service = new WebsiteSourceService(client, queue);
+    const crawler = new WebsiteCrawler();
+    const crawl = vi.spyOn(crawler, 'crawl');
+    db.seed('website_sources', [{ ...sourceRow, status: 'crawling', locked_until: '2024-05-01T10:10:00.000Z' }]);
+
+    expect(await service.syncSource('source-1', crawler, NOW)).toBeNull();
+    expect(crawl).not.toHaveBeenCalled();
+    expect(rows('website_sources')[0].locked_until).toBe('2024-05-01T10:10:00.000Z');
+  });
+
+  it('should record a failed crawl on the source', async () => {
+    const service = new WebsiteSourceService(client, queue);
+    const crawler = new WebsiteCrawler();
+    vi.spyOn(crawler, 'crawl').mockRejectedValue(new Error('DNS lookup failed'));
+    db.seed('website_sources', [sourceRow]);
+
+    await expect(service.syncSource('source-1', crawler, NOW)).rejects.toThrow('DNS lookup failed');
+    expect(rows('website_sources')[0]).toMatchObject({ status: 'error', last_error: 'DNS lookup failed', locked_until: null });
+  });
+});
@@ -0,0 +1,633 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getNextCronTime, isValidTimeZone, validateCronExpression } from './cron';
+import { DocumentProcessingQueue } from './document-processing-queue';
+import { WebsiteCrawler, hashContent, normalizeUrl, type CrawledPage, type CrawlSettings } from './website-crawler';
+
+/**
+ * Website sources of knowledge bases, stored in website_sources with one
+ * website_pages row per crawled URL.
+ *
+ * A sync crawls the source and compares every page's content hash with the one
+ * stored for its URL. Only new and changed pages are written to storage and
+ * queued on the document processing queue, so they go through the same
+ * extract/chunk/embed pipeline as uploads; unchanged pages keep their chunks.
+ * Pages that disappeared or became duplicates lose their document.
+ *
+ * Takes the Supabase client as a dependency, like DocumentProcessingQueue, so
+ * the Netlify crawl worker and the knowledge base UI share it.
+ */
+
+export type WebsiteSourceStatus = 'idle' | 'crawling' | 'error';
+export type WebsitePageStatus = 'indexed' | 'duplicate' | 'removed' | 'error';
+
+export interface WebsiteCrawlStats {
+  pages: number;
+  added: number;
+  changed: number;
+  unchanged: number;
+  duplicates: number;
+  removed: number;
+  errors: number;
+  skippedByRobots: number;
+  skippedByPatterns: number;
+  truncated: boolean;
+}
+
+export interface WebsiteSource extends CrawlSettings {
+  id: string;
+  knowledgeBaseId: string;
+  userId: string;
+  name: string;
+  recrawlCron?: string;
+  timezone: string;
+  status: WebsiteSourceStatus;
+  nextCrawlAt?: string;
+  lastCrawledAt?: string;
+  lockedUntil?: string;
+  lastError?: string;
+  lastCrawlStats?: Partial<WebsiteCrawlStats>;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface WebsitePage {
+  id: string;
+  sourceId: string;
+  url: string;
+  title?: string;
+  status: WebsitePageStatus;
+  contentHash?: string;
+  simhash?: string;
+  duplicateOf?: string;
+  documentId?: string;
+  httpStatus?: number;
+  error?: string;
+  lastCrawledAt?: string;
+  lastChangedAt?: string;
+}
+
+export interface CreateWebsiteSourceParams {
+  knowledgeBaseId: string;
+  userId: string;
+  name?: string;
+  rootUrl?: string;
+  sitemapUrl?: string;
+  maxDepth?: number;
+  maxPages?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  respectRobotsTxt?: boolean;
+  recrawlCron?: string;
+  timezone?: string;
+}
+
+export type UpdateWebsiteSourceParams = Partial<Omit<CreateWebsiteSourceParams, 'knowledgeBaseId' | 'userId'>>;
+
+export interface WebsiteSyncResult {
+  source: WebsiteSource;
+  stats: WebsiteCrawlStats;
+  // Documents queued for (re-)processing
+  enqueued: string[];
+}
+
+export const DEFAULT_WEBSITE_SOURCE_SETTINGS = {
+  maxDepth: 2,
+  maxPages: 200,
+  respectRobotsTxt: true,
+  timezone: 'UTC',
+};
+
+export const MAX_WEBSITE_PAGES = 5000;
+
+// A crawl that has not finished after this long no longer blocks the next one
+const CRAWL_LOCK_MS = 30 * 60 * 1000;
+
+const STORAGE_BUCKET = 'documents';
+
+export class WebsiteSourceError extends Error {
+  constructor(message: string, public readonly sourceId?: string) {
+    super(message);
+    this.name = 'WebsiteSourceError';
+  }
+}
+
+/**
+ * Configuration problems that stop a source from being crawled
+ */
+export function validateWebsiteSource(params: UpdateWebsiteSourceParams): string[] {
+  const errors: string[] = [];
+  const isHttpUrl = (url: string) => normalizeUrl(url) !== null && /^https?:\/\//i.test(url.trim());
+
+  if (!params.rootUrl && !params.sitemapUrl) {
+    errors.push('A root URL or sitemap URL is required');
+  }
+  if (params.rootUrl && !isHttpUrl(params.rootUrl)) {
+    errors.push(`Invalid root URL: ${params.rootUrl}`);
+  }
+  if (params.sitemapUrl && !isHttpUrl(params.sitemapUrl)) {
+    errors.push(`Invalid sitemap URL: ${params.sitemapUrl}`);
+  }
+  if (params.rootUrl && params.sitemapUrl && isHttpUrl(params.rootUrl) && isHttpUrl(params.sitemapUrl)
+    && new URL(params.rootUrl).origin !== new URL(params.sitemapUrl).origin) {
+    errors.push('The sitemap must be on the same site as the root URL');
+  }
+  if (params.maxDepth !== undefined && (!Number.isInteger(params.maxDepth) || params.maxDepth < 0)) {
+    errors.push('Max depth must be a whole number of 0 or more');
+  }
+  if (params.maxPages !== undefined && (!Number.isInteger(params.maxPages) || params.maxPages < 1 || params.maxPages > MAX_WEBSITE_PAGES)) {
+    errors.push(`Max pages must be between 1 and ${MAX_WEBSITE_PAGES}`);
+  }
+  if (params.recrawlCron) {
+    const { isValid, error } = validateCronExpression(params.recrawlCron);
+    if (!isValid) {
+      errors.push(`Invalid re-crawl schedule: ${error}`);
+    }
+  }
+  if (params.timezone && !isValidTimeZone(params.timezone)) {
+    errors.push(`Unknown timezone: ${params.timezone}`);
+  }
+
+  return errors;
+}
+
+/**
+ * When a source is crawled next on its schedule, or null without one
+ */
+export function getNextCrawlTime(source: Pick<WebsiteSource, 'recrawlCron' | 'timezone'>, after: Date): Date | null {
+  return source.recrawlCron ? getNextCronTime(source.recrawlCron, after, source.timezone) : null;
+}
+
+/**
+ * Stable storage path of a page's extracted content, so a re-crawl overwrites it
+ */
+export function getPageStoragePath(source: Pick<WebsiteSource, 'id' | 'knowledgeBaseId'>, pageKey: string): string {
+  return `knowledge-bases/${source.knowledgeBaseId}/websites/${source.id}/${pageKey}.html`;
+}
+
+function pageFileName(url: string): string {
+  const { hostname, pathname } = new URL(url);
+  const slug = `${hostname}${pathname}`.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').slice(0, 120);
+  return `${slug || hostname}.html`;
+}
+
+export class WebsiteSourceService {
+  private client: SupabaseClient<any, any, any>;
+  private queue: DocumentProcessingQueue;
+
+  constructor(client: SupabaseClient<any, any, any>, queue: DocumentProcessingQueue = new DocumentProcessingQueue(client)) {
+    this.client = client;
+    this.queue = queue;
+  }
+
+  async createSource(params: CreateWebsiteSourceParams, now: Date = new Date()): Promise<WebsiteSource> {
+    const errors = validateWebsiteSource(params);
+    if (errors.length > 0) {
+      throw new WebsiteSourceError(errors.join('; '));
+    }
+
+    const settings = { ...DEFAULT_WEBSITE_SOURCE_SETTINGS, ...stripUndefined(params) };
+    const url = params.rootUrl || params.sitemapUrl!;
+
+    const { data, error } = await this.client
+      .from('website_sources')
+      .insert({
+        knowledge_base_id: params.knowledgeBaseId,
+        user_id: params.userId,
+        name: params.name || new URL(url).hostname,
+        root_url: params.rootUrl || null,
+        sitemap_url: params.sitemapUrl || null,
+        max_depth: settings.maxDepth,
+        max_pages: settings.maxPages,
+        include_patterns: params.includePatterns || [],
+        exclude_patterns: params.excludePatterns || [],
+        respect_robots_txt: settings.respectRobotsTxt,
+        recrawl_cron: params.recrawlCron || null,
+        timezone: settings.timezone,
+        // New sources are crawled straight away
+        next_crawl_at: now.toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WebsiteSourceError(`Failed to create website source: ${error?.message || 'no row returned'}`);
+    }
+
+    return this.sourceFromRow(data);
+  }
+
+  async updateSource(sourceId: string, params: UpdateWebsiteSourceParams, now: Date = new Date()): Promise<WebsiteSource> {
+    const current = await this.getSource(sourceId);
+    if (!current) {
+      throw new WebsiteSourceError(`Website source ${sourceId} not found`, sourceId);
+    }
+
+    const merged = { ...current, ...stripUndefined(params) };
+    const errors = validateWebsiteSource(merged);
+    if (errors.length > 0) {
+      throw new WebsiteSourceError(errors.join('; '), sourceId);
+    }
+
+    const nextCrawlAt = getNextCrawlTime(merged, now);
+
+    const { data, error } = await this.client
+      .from('website_sources')
+      .update({
+        name: merged.name,
+        root_url: merged.rootUrl || null,
+        sitemap_url: merged.sitemapUrl || null,
+        max_depth: merged.maxDepth,
+        max_pages: merged.maxPages,
+        include_patterns: merged.includePatterns,
+        exclude_patterns: merged.excludePatterns,
+        respect_robots_txt: merged.respectRobotsTxt,
+        recrawl_cron: merged.recrawlCron || null,
+        timezone: merged.timezone,
+        next_crawl_at: nextCrawlAt ? nextCrawlAt.toISOString() : null,
+      })
+      .eq('id', sourceId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WebsiteSourceError(`Failed to update website source ${sourceId}: ${error?.message || 'no row returned'}`, sourceId);
+    }
+
+    return this.sourceFromRow(data);
+  }
+
+  /**
+   * Delete a source together with the documents of its pages
+   */
+  async deleteSource(sourceId: string): Promise<void> {
+    const pages = await this.getPages(sourceId);
+    const documentIds = pages.map(page => page.documentId).filter(Boolean) as string[];
+
+    if (documentIds.length > 0) {
+      const { error } = await this.client.from('documents').delete().in('id', documentIds);
+      if (error) {
+        throw new WebsiteSourceError(`Failed to delete documents of website source ${sourceId}: ${error.message}`, sourceId);
+      }
+    }
+
+    const { error } = await this.client.from('website_sources').delete().eq('id', sourceId);
+    if (error) {
+      throw new WebsiteSourceError(`Failed to delete website source ${sourceId}: ${error.message}`, sourceId);
+    }
+  }
+
+  async getSource(sourceId: string): Promise<WebsiteSource | null> {
+    const { data, error } = await this.client
+      .from('website_sources')
+      .select('*')
+      .eq('id', sourceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to load website source ${sourceId}: ${error.message}`, sourceId);
+    }
+
+    return data ? this.sourceFromRow(data) : null;
+  }
+
+  async getSources(knowledgeBaseId: string): Promise<WebsiteSource[]> {
+    const { data, error } = await this.client
+      .from('website_sources')
+      .select('*')
+      .eq('knowledge_base_id', knowledgeBaseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to load website sources: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.sourceFromRow(row));
+  }
+
+  async getPages(sourceId: string): Promise<WebsitePage[]> {
+    const { data, error } = await this.client
+      .from('website_pages')
+      .select('*')
+      .eq('source_id', sourceId)
+      .order('url', { ascending: true });
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to load pages of website source ${sourceId}: ${error.message}`, sourceId);
+    }
+
+    return (data || []).map(row => this.pageFromRow(row));
+  }
+
+  /**
+   * Sources whose scheduled crawl has come due and that are not being crawled
+   */
+  async getDueSources(now: Date = new Date(), limit: number = 10): Promise<WebsiteSource[]> {
+    const { data, error } = await this.client
+      .from('website_sources')
+      .select('*')
+      .lte('next_crawl_at', now.toISOString())
+      .order('next_crawl_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to load due website sources: ${error.message}`);
+    }
+
+    return (data || [])
+      .map(row => this.sourceFromRow(row))
+      .filter(source => !source.lockedUntil || new Date(source.lockedUntil) <= now);
+  }
+
+  /**
+   * Ask for a crawl as soon as a worker runs
+   */
+  async requestCrawl(sourceId: string, now: Date = new Date()): Promise<void> {
+    const { error } = await this.client
+      .from('website_sources')
+      .update({ next_crawl_at: now.toISOString() })
+      .eq('id', sourceId);
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to request a crawl of website source ${sourceId}: ${error.message}`, sourceId);
+    }
+  }
+
+  /**
+   * Crawl a source and bring its documents up to date. Returns null when
+   * another worker is already crawling it.
+   */
+  async syncSource(
+    sourceId: string,
+    crawler: WebsiteCrawler = new WebsiteCrawler(),
+    now: Date = new Date()
+  ): Promise<WebsiteSyncResult | null> {
+    const source = await this.lockSource(sourceId, now);
+    if (!source) return null;
+
+    try {
+      const crawl = await crawler.crawl(source);
+      const existing = new Map((await this.getPages(sourceId)).map(page => [page.url, page]));
+
+      const stats: WebsiteCrawlStats = {
+        pages: crawl.pages.length,
+        added: 0,
+        changed: 0,
+        unchanged: 0,
+        duplicates: 0,
+        removed: 0,
+        errors: 0,
+        skippedByRobots: crawl.skipped.robots,
+        skippedByPatterns: crawl.skipped.patterns,
+        truncated: crawl.truncated,
+      };
+      const enqueued: string[] = [];
+      const crawledAt = new Date().toISOString();
+
+      for (const page of crawl.pages) {
+        const previous = existing.get(page.url);
+
+        switch (page.status) {
+          case 'fetched': {
+            if (previous?.status === 'indexed' && previous.documentId && previous.contentHash === page.contentHash) {
+              stats.unchanged++;
+              await this.savePage(source, page, previous, { status: 'indexed', last_crawled_at: crawledAt });
+              break;
+            }
+
+            const documentId = await this.storePage(source, page, previous?.documentId);
+            enqueued.push(documentId);
+            if (previous?.documentId) {
+              stats.changed++;
+            } else {
+              stats.added++;
+            }
+
+            await this.savePage(source, page, previous, {
+              status: 'indexed',
+              document_id: documentId,
+              content_hash: page.contentHash,
+              simhash: page.simhash,
+              last_crawled_at: crawledAt,
+              last_changed_at: crawledAt,
+            });
+            break;
+          }
+
+          case 'duplicate':
+          case 'gone':
+            if (page.status === 'duplicate') {
+              stats.duplicates++;
+            } else {
+              stats.removed++;
+            }
+            if (previous?.documentId) {
+              await this.deleteDocument(previous.documentId);
+            }
+            await this.savePage(source, page, previous, {
+              status: page.status === 'duplicate' ? 'duplicate' : 'removed',
+              document_id: null,
+              duplicate_of: page.duplicateOf || null,
+              content_hash: page.contentHash || null,
+              simhash: page.simhash || null,
+              last_crawled_at: crawledAt,
+            });
+            break;
+
+          case 'error':
+            stats.errors++;
+            // A page that failed once keeps its document until it is gone for good
+            await this.savePage(source, page, previous, {
+              status: previous?.documentId ? previous.status : 'error',
+              last_crawled_at: crawledAt,
+            });
+            break;
+        }
+      }
+
+      const finished = await this.releaseSource(source, {
+        status: 'idle',
+        last_crawled_at: crawledAt,
+        last_error: null,
+        last_crawl_stats: stats,
+      }, now);
+
+      return { source: finished, stats, enqueued };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.releaseSource(source, { status: 'error', last_error: message }, now);
+      throw new WebsiteSourceError(`Crawl of website source ${sourceId} failed: ${message}`, sourceId);
+    }
+  }
+
+  /**
+   * Take the crawl lock of a source with a conditional update, so two workers
+   * never crawl the same source at once
+   */
+  private async lockSource(sourceId: string, now: Date): Promise<WebsiteSource | null> {
+    const { data, error } = await this.client
+      .from('website_sources')
+      .update({
+        status: 'crawling',
+        locked_until: new Date(now.getTime() + CRAWL_LOCK_MS).toISOString(),
+      })
+      .eq('id', sourceId)
+      .or(`locked_until.is.null,locked_until.lte.${now.toISOString()}`)
+      .select('*');
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to lock website source ${sourceId}: ${error.message}`, sourceId);
+    }
+
+    return data && data.length > 0 ? this.sourceFromRow(data[0]) : null;
+  }
+
+  private async releaseSource(source: WebsiteSource, changes: Record<string, any>, now: Date): Promise<WebsiteSource> {
+    const nextCrawlAt = getNextCrawlTime(source, now);
+
+    const { data, error } = await this.client
+      .from('website_sources')
+      .update({
+        ...changes,
+        locked_until: null,
+        next_crawl_at: nextCrawlAt ? nextCrawlAt.toISOString() : null,
+      })
+      .eq('id', source.id)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WebsiteSourceError(`Failed to update website source ${source.id}: ${error?.message || 'no row returned'}`, source.id);
+    }
+
+    return this.sourceFromRow(data);
+  }
+
+  /**
+   * Write a page's main content to storage and queue its document for
+   * processing, reusing the document of an earlier crawl
+   */
+  private async storePage(source: WebsiteSource, page: CrawledPage, documentId?: string): Promise<string> {
+    const fileName = pageFileName(page.url);
+    const content = new Blob([page.html || ''], { type: 'text/html' });
+    const storagePath = getPageStoragePath(source, (await hashContent(page.url)).slice(0, 24));
+
+    const { error: uploadError } = await this.client.storage
+      .from(STORAGE_BUCKET)
+      .upload(storagePath, content, { contentType: 'text/html', upsert: true });
+
+    if (uploadError) {
+      throw new WebsiteSourceError(`Failed to store page ${page.url}: ${uploadError.message}`, source.id);
+    }
+
+    const document = {
+      name: page.title || page.url,
+      file_type: 'text/html',
+      file_url: page.url,
+      size_bytes: content.size,
+      storage_path: storagePath,
+      status: 'processing',
+      metadata: { source: 'website', sourceId: source.id, url: page.url, language: page.language },
+    };
+
+    const { data, error } = documentId
+      ? await this.client.from('documents').update(document).eq('id', documentId).select('id').single()
+      : await this.client
+        .from('documents')
+        .insert({ ...document, knowledge_base_id: source.knowledgeBaseId, user_id: source.userId })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+      throw new WebsiteSourceError(`Failed to save the document of page ${page.url}: ${error?.message || 'no row returned'}`, source.id);
+    }
+
+    await this.queue.enqueue({
+      documentId: data.id,
+      knowledgeBaseId: source.knowledgeBaseId,
+      userId: source.userId,
+      fileName,
+      storagePath,
+    });
+
+    return data.id;
+  }
+
+  private async savePage(
+    source: WebsiteSource,
+    page: CrawledPage,
+    previous: WebsitePage | undefined,
+    changes: Record<string, any>
+  ): Promise<void> {
+    const row = {
+      source_id: source.id,
+      url: page.url,
+      title: page.title ?? previous?.title ?? null,
+      http_status: page.httpStatus ?? null,
+      error: page.error || null,
+      ...changes,
+    };
+
+    const { error } = previous
+      ? await this.client.from('website_pages').update(row).eq('id', previous.id)
+      : await this.client.from('website_pages').insert(row);
+
+    if (error) {
+      throw new WebsiteSourceError(`Failed to save page ${page.url}: ${error.message}`, source.id);
+    }
+  }
+
+  private async deleteDocument(documentId: string): Promise<void> {
+    const { error } = await this.client.from('documents').delete().eq('id', documentId);
+    if (error) {
+      throw new WebsiteSourceError(`Failed to delete document ${documentId}: ${error.message}`);
+    }
+  }
+
+  private sourceFromRow(row: any): WebsiteSource {
+    return {
+      id: row.id,
+      knowledgeBaseId: row.knowledge_base_id,
+      userId: row.user_id,
+      name: row.name,
+      rootUrl: row.root_url || undefined,
+      sitemapUrl: row.sitemap_url || undefined,
+      maxDepth: row.max_depth ?? DEFAULT_WEBSITE_SOURCE_SETTINGS.maxDepth,
+      maxPages: row.max_pages ?? DEFAULT_WEBSITE_SOURCE_SETTINGS.maxPages,
+      includePatterns: row.include_patterns || [],
+      excludePatterns: row.exclude_patterns || [],
+      respectRobotsTxt: row.respect_robots_txt ?? true,
+      recrawlCron: row.recrawl_cron || undefined,
+      timezone: row.timezone || 'UTC',
+      status: row.status || 'idle',
+      nextCrawlAt: row.next_crawl_at || undefined,
+      lastCrawledAt: row.last_crawled_at || undefined,
+      lockedUntil: row.locked_until || undefined,
+      lastError: row.last_error || undefined,
+      lastCrawlStats: row.last_crawl_stats || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || undefined,
+    };
+  }
+
+  private pageFromRow(row: any): WebsitePage {
+    return {
+      id: row.id,
+      sourceId: row.source_id,
+      url: row.url,
+      title: row.title || undefined,
+      status: row.status,
+      contentHash: row.content_hash || undefined,
+      simhash: row.simhash || undefined,
+      duplicateOf: row.duplicate_of || undefined,
+      documentId: row.document_id || undefined,
+      httpStatus: row.http_status ?? undefined,
+      error: row.error || undefined,
+      lastCrawledAt: row.last_crawled_at || undefined,
+      lastChangedAt: row.last_changed_at || undefined,
+    };
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -5,6 +5,7 @@
 
 import { enhancedWhatsAppService, type WhatsAppMessage } from './whatsapp-enhanced';
 import { workflowExecutor, type WorkflowExecution } from './workflow-executor';
+import { workflowWaitService } from './workflow-waits';
 import { supabase } from './supabase';
 import type { AgentWorkflow } from './workflow-types';
 
@@ -144,6 +145,18 @@ class WhatsAppWorkflowIntegration {
         return null;
       }
 
+      // A reply to an execution waiting on the customer resumes it instead of starting a new one
+      const waitingContext = this.activeConversations.get(`${message.from}_${config.workflowId}`);
+      if (waitingContext) {
+        const resumed = await workflowWaitService.resolveCustomerReply(waitingContext.conversationId, message);
+        if (resumed.length > 0) {
+          waitingContext.lastMessageTime = message.timestamp;
+          waitingContext.messageCount++;
+          await this.saveConversationContext(waitingContext);
+          return null;
+        }
+      }
+
       // Check trigger conditions
       if (!this.shouldTriggerWorkflow(message, config)) {
         console.log('Message does not meet trigger conditions');
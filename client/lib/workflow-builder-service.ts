@@ -16,6 +16,23 @@ import {
   ValidationError,
   ValidationWarning
 } from './workflow-types';
+import { workflowScheduler } from './workflow-scheduler';
+import { workflowWebhookService } from './workflow-webhooks';
+import {
+  WORKFLOW_EXPORT_FORMAT,
+  WORKFLOW_EXPORT_VERSION,
+  WorkflowImportError,
+  exportWorkflowDocument,
+  parseWorkflowDocument,
+  remapWorkflowIds
+} from './workflow-export';
+import { fromN8NWorkflow, isN8NWorkflow, toN8NWorkflow } from './n8n-workflow-converter';
+import {
+  CreateRevisionOptions,
+  WorkflowRevision,
+  revisionToWorkflow,
+  workflowRevisionService
+} from './workflow-revisions';
 
 export class WorkflowBuilderService {
   private static instance: WorkflowBuilderService;
@@ -147,10 +164,12 @@ export class WorkflowBuilderService {
   }
 
   /**
-   * Save workflow
+   * Save workflow. Every save is also stored as a new immutable revision.
    */
-  async saveWorkflow(workflow: AgentWorkflow): Promise<void> {
+  async saveWorkflow(workflow: AgentWorkflow, options: CreateRevisionOptions = {}): Promise<WorkflowRevision> {
     try {
+      const revision = await workflowRevisionService.createRevision(workflow, options);
+
       const { error } = await supabase
         .from('agent_workflows')
         .update({
@@ -161,22 +180,65 @@ export class WorkflowBuilderService {
             nodes: workflow.nodes,
             connections: workflow.connections,
             variables: workflow.variables,
-            triggers: workflow.triggers
+            triggers: workflow.triggers,
+            settings: workflow.settings || {}
           },
           tags: workflow.metadata.tags,
+          current_revision: revision.revisionNumber,
           updated_at: new Date().toISOString()
         })
         .eq('id', workflow.id);
 
       if (error) throw error;
 
-      console.log(`Workflow saved: ${workflow.id}`);
+      workflow.metadata.revision = revision.revisionNumber;
+
+      try {
+        await workflowScheduler.syncWorkflowSchedules(workflow);
+      } catch (scheduleError) {
+        console.error('Failed to sync workflow schedules:', scheduleError);
+      }
+
+      try {
+        await workflowWebhookService.syncWorkflowWebhooks(workflow);
+      } catch (webhookError) {
+        console.error('Failed to sync workflow webhooks:', webhookError);
+      }
+
+      console.log(`Workflow saved: ${workflow.id} (revision ${revision.revisionNumber})`);
+      return revision;
     } catch (error) {
       console.error('Failed to save workflow:', error);
       throw new Error(`Failed to save workflow: ${error.message}`);
     }
   }
 
+  /**
+   * Restore an earlier revision. History is kept: the restored content is saved
+   * as a new revision rather than discarding the ones after it.
+   */
+  async rollbackWorkflow(workflowId: string, revisionNumber: number, userId?: string): Promise<AgentWorkflow> {
+    const [workflow, revision] = await Promise.all([
+      this.loadWorkflow(workflowId),
+      workflowRevisionService.getRevision(workflowId, revisionNumber)
+    ]);
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+    if (!revision) {
+      throw new Error(`Revision ${revisionNumber} not found`);
+    }
+
+    const restored = revisionToWorkflow(revision, workflow);
+    await this.saveWorkflow(restored, {
+      message: `Rolled back to revision ${revisionNumber}`,
+      restoredFrom: revisionNumber,
+      userId
+    });
+
+    return restored;
+  }
+
   /**
    * Add node to workflow
    */
@@ -563,19 +625,22 @@ export class WorkflowBuilderService {
       connections: workflowData.connections || [],
       variables: workflowData.variables || [],
       triggers: workflowData.triggers || [],
+      settings: workflowData.settings || {},
       metadata: {
         created_at: data.created_at,
         updated_at: data.updated_at,
         created_by: data.user_id,
         template_id: data.template_id,
         is_template: data.is_template,
-        tags: data.tags || []
+        tags: data.tags || [],
+        revision: data.current_revision ?? undefined,
+        published_revision: data.published_revision ?? undefined
       }
     };
   }
 
   /**
-   * Export workflow to JSON
+   * Export workflow to the versioned export format; secrets are left out
    */
   async exportWorkflow(workflowId: string): Promise<string> {
     const workflow = await this.loadWorkflow(workflowId);
@@ -583,22 +648,60 @@ export class WorkflowBuilderService {
       throw new Error('Workflow not found');
     }
 
-    return JSON.stringify(workflow, null, 2);
+    return JSON.stringify(exportWorkflowDocument(workflow), null, 2);
+  }
+
+  /**
+   * Export workflow as n8n workflow JSON
+   */
+  async exportWorkflowToN8N(workflowId: string): Promise<{ data: string; warnings: string[] }> {
+    const workflow = await this.loadWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    const { workflow: n8nWorkflow, warnings } = toN8NWorkflow(workflow);
+    return { data: JSON.stringify(n8nWorkflow, null, 2), warnings };
   }
 
   /**
-   * Import workflow from JSON
+   * Import workflow from an export (any version) or from n8n workflow JSON.
+   * Every id is replaced so the import never collides with its source.
    */
   async importWorkflow(workflowData: string, userId: string): Promise<AgentWorkflow> {
     try {
-      const workflow = JSON.parse(workflowData) as AgentWorkflow;
-      
-      // Create new workflow with imported data
-      return await this.createWorkflow(
-        `${workflow.name} (Imported)`,
-        workflow.description,
+      let raw: any;
+      try {
+        raw = JSON.parse(workflowData);
+      } catch (error) {
+        throw new WorkflowImportError(`Invalid JSON: ${error.message}`);
+      }
+
+      const document = isN8NWorkflow(raw)
+        ? parseWorkflowDocument({
+            format: WORKFLOW_EXPORT_FORMAT,
+            version: WORKFLOW_EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            workflow: fromN8NWorkflow(raw).workflow
+          })
+        : parseWorkflowDocument(raw);
+      const imported = remapWorkflowIds(document.workflow);
+
+      const workflow = await this.createWorkflow(
+        `${imported.name} (Imported)`,
+        imported.description,
         userId
       );
+
+      workflow.nodes = imported.nodes as unknown as WorkflowNode[];
+      workflow.connections = imported.connections as unknown as WorkflowConnection[];
+      workflow.variables = imported.variables;
+      workflow.triggers = imported.triggers;
+      workflow.settings = imported.settings;
+      workflow.metadata.tags = imported.tags;
+      await this.saveWorkflow(workflow, { message: 'Imported', userId });
+
+      return workflow;
     } catch (error) {
       throw new Error(`Failed to import workflow: ${error.message}`);
     }
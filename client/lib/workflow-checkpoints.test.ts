@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkpointFromRow,
+  checkpointToRow,
+  createCheckpoint,
+  getLatestCheckpoint,
+  getReplayCheckpoint,
+  restoreCheckpoint,
+  toCheckpointValue,
+} from './workflow-checkpoints';
+
+const nodeIds = ['trigger', 'fetch', 'summarize', 'reply'];
+
+const checkpointAfter = (completedNodeIds: string[]) =>
+  createCheckpoint({
+    executionId: 'exec-1',
+    sequence: completedNodeIds.length,
+    nodeId: completedNodeIds[completedNodeIds.length - 1] ?? null,
+    completedNodeIds,
+    nodeResults: new Map(completedNodeIds.map(nodeId => [nodeId, { from: nodeId }])),
+    variables: { step: completedNodeIds.length },
+    lastResult: completedNodeIds.length ? { from: completedNodeIds[completedNodeIds.length - 1] } : null,
+  });
+
+describe('createCheckpoint', () => {
+  it('should snapshot node results and variables as plain JSON', () => {
+    const variables: Record<string, any> = { count: 1, format: () => 'dropped' };
+    const completedNodeIds = ['trigger'];
+    const checkpoint = createCheckpoint({
+      executionId: 'exec-1',
+      sequence: 1,
+      nodeId: 'trigger',
+      completedNodeIds,
+      nodeResults: new Map([['trigger', { message: 'hi', at: new Date('2024-01-01T00:00:00Z') }]]),
+      variables,
+      lastResult: undefined,
+    });
+
+    variables.count = 2;
+    completedNodeIds.push('fetch');
+
+    expect(checkpoint.nodeResults).toEqual({ trigger: { message: 'hi', at: '2024-01-01T00:00:00.000Z' } });
+    expect(checkpoint.variables).toEqual({ count: 1 });
+    expect(checkpoint.completedNodeIds).toEqual(['trigger']);
+    expect(checkpoint.lastResult).toBeNull();
+  });
+
+  it('should replace circular references', () => {
+    const result: any = { name: 'loop' };
+    result.self = result;
+
+    expect(toCheckpointValue(result)).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+});
+
+describe('restoreCheckpoint', () => {
+  it('should restore finished nodes and their results', () => {
+    const state = restoreCheckpoint(checkpointAfter(['trigger', 'fetch']), nodeIds);
+
+    expect(state.completedNodeIds).toEqual(['trigger', 'fetch']);
+    expect(state.nodeResults.get('fetch')).toEqual({ from: 'fetch' });
+    expect(state.variables).toEqual({ step: 2 });
+    expect(state.lastResult).toEqual({ from: 'fetch' });
+  });
+
+  it('should start from scratch with the initial checkpoint', () => {
+    const state = restoreCheckpoint(checkpointAfter([]), nodeIds);
+
+    expect(state.completedNodeIds).toEqual([]);
+    expect(state.nodeResults.size).toBe(0);
+  });
+
+  it('should refuse a workflow that lost a finished node', () => {
+    expect(() => restoreCheckpoint(checkpointAfter(['trigger', 'fetch']), ['trigger', 'reply'])).toThrow(
+      'Workflow has changed'
+    );
+  });
+});
+
+describe('checkpoint selection', () => {
+  const checkpoints = [
+    checkpointAfter([]),
+    checkpointAfter(['trigger', 'fetch']),
+    checkpointAfter(['trigger']),
+  ];
+
+  it('should resume from the latest checkpoint', () => {
+    expect(getLatestCheckpoint(checkpoints)?.sequence).toBe(2);
+    expect(getLatestCheckpoint([])).toBeNull();
+  });
+
+  it('should replay a node from the latest state before it finished', () => {
+    expect(getReplayCheckpoint(checkpoints, 'fetch')?.completedNodeIds).toEqual(['trigger']);
+    expect(getReplayCheckpoint(checkpoints, 'trigger')?.sequence).toBe(0);
+    expect(getReplayCheckpoint(checkpoints, 'summarize')?.sequence).toBe(2);
+  });
+});
+
+describe('checkpoint rows', () => {
+  it('should round trip through the database row shape', () => {
+    const checkpoint = checkpointAfter(['trigger', 'fetch']);
+
+    expect(checkpointFromRow(checkpointToRow(checkpoint))).toEqual(checkpoint);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Workflow Execution Checkpoints
+ * Serializable snapshots of executor state, written after every completed step
+ * so interrupted executions can resume and failed ones can be replayed
+ */
+
+export interface ExecutionCheckpoint {
+  executionId: string;
+  // Number of nodes finished when the checkpoint was taken; 0 is the initial state
+  sequence: number;
+  // Last node that finished, or null for the initial checkpoint
+  nodeId: string | null;
+  // Finished nodes in the order they finished; parallel branches interleave
+  completedNodeIds: string[];
+  // Finished nodes that were not on a selected branch
+  skippedNodeIds: string[];
+  nodeResults: Record<string, any>;
+  variables: Record<string, any>;
+  lastResult: any;
+  createdAt: string;
+}
+
+export interface CheckpointState {
+  completedNodeIds: string[];
+  skippedNodeIds: string[];
+  nodeResults: Map<string, any>;
+  variables: Record<string, any>;
+  lastResult: any;
+}
+
+/**
+ * Copy a value into plain JSON so it can be stored in a JSONB column.
+ * Functions are dropped and circular references are replaced with a marker.
+ */
+export function toCheckpointValue(value: any): any {
+  if (value === undefined) {
+    return null;
+  }
+
+  const seen = new WeakSet<object>();
+  const json = JSON.stringify(value, (_key, current) => {
+    if (typeof current === 'bigint') {
+      return current.toString();
+    }
+    if (current && typeof current === 'object') {
+      if (seen.has(current)) {
+        return '[Circular]';
+      }
+      seen.add(current);
+    }
+    return current;
+  });
+
+  return json === undefined ? null : JSON.parse(json);
+}
+
+export function createCheckpoint(params: {
+  executionId: string;
+  sequence: number;
+  nodeId: string | null;
+  completedNodeIds: string[];
+  skippedNodeIds?: string[];
+  nodeResults: Map<string, any>;
+  variables: Record<string, any>;
+  lastResult: any;
+}): ExecutionCheckpoint {
+  return {
+    executionId: params.executionId,
+    sequence: params.sequence,
+    nodeId: params.nodeId,
+    completedNodeIds: [...params.completedNodeIds],
+    skippedNodeIds: [...(params.skippedNodeIds || [])],
+    nodeResults: toCheckpointValue(Object.fromEntries(params.nodeResults)),
+    variables: toCheckpointValue(params.variables) || {},
+    lastResult: toCheckpointValue(params.lastResult),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Rebuild executor state from a checkpoint. Throws when a node that already
+ * finished has since been removed from the workflow.
+ */
+export function restoreCheckpoint(checkpoint: ExecutionCheckpoint, workflowNodeIds: string[]): CheckpointState {
+  const missing = checkpoint.completedNodeIds.filter(nodeId => !workflowNodeIds.includes(nodeId));
+  if (missing.length > 0) {
+    throw new Error(
+      `Workflow has changed since execution ${checkpoint.executionId} was checkpointed: missing nodes ${missing.join(', ')}`
+    );
+  }
+
+  return {
+    completedNodeIds: [...checkpoint.completedNodeIds],
+    skippedNodeIds: [...(checkpoint.skippedNodeIds || [])],
+    nodeResults: new Map(Object.entries(checkpoint.nodeResults || {})),
+    variables: { ...(checkpoint.variables || {}) },
+    lastResult: checkpoint.lastResult,
+  };
+}
+
+/**
+ * Most recent checkpoint, i.e. the state after the last finished node
+ */
+export function getLatestCheckpoint(checkpoints: ExecutionCheckpoint[]): ExecutionCheckpoint | null {
+  return checkpoints.reduce<ExecutionCheckpoint | null>(
+    (latest, checkpoint) => (!latest || checkpoint.sequence > latest.sequence ? checkpoint : latest),
+    null
+  );
+}
+
+/**
+ * Checkpoint to replay from so that `nodeId` runs again: the latest one taken
+ * before the node finished. Its downstream nodes cannot have finished either.
+ */
+export function getReplayCheckpoint(checkpoints: ExecutionCheckpoint[], nodeId: string): ExecutionCheckpoint | null {
+  return getLatestCheckpoint(checkpoints.filter(checkpoint => !checkpoint.completedNodeIds.includes(nodeId)));
+}
+
+export function checkpointToRow(checkpoint: ExecutionCheckpoint) {
+  return {
+    execution_id: checkpoint.executionId,
+    sequence: checkpoint.sequence,
+    node_id: checkpoint.nodeId,
+    completed_node_ids: checkpoint.completedNodeIds,
+    skipped_node_ids: checkpoint.skippedNodeIds,
+    node_results: checkpoint.nodeResults,
+    variables: checkpoint.variables,
+    last_result: checkpoint.lastResult,
+    created_at: checkpoint.createdAt,
+  };
+}
+
+export function checkpointFromRow(row: any): ExecutionCheckpoint {
+  return {
+    executionId: row.execution_id,
+    sequence: row.sequence,
+    nodeId: row.node_id,
+    completedNodeIds: row.completed_node_ids || [],
+    skippedNodeIds: row.skipped_node_ids || [],
+    nodeResults: row.node_results || {},
+    variables: row.variables || {},
+    lastResult: row.last_result,
+    createdAt: row.created_at,
+  };
+}
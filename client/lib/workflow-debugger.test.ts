@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { WorkflowDebugSession, type DebugCheckpoint, type DebugPauseState } from './workflow-debugger';
+
+const checkpoint = (nodeId: string, input: any = {}, variables: Record<string, any> = {}): DebugCheckpoint => ({
+  executionId: 'exec-1',
+  workflowId: 'wf-1',
+  nodeId,
+  nodeName: nodeId,
+  nodeType: 'action',
+  input,
+  variables,
+});
+
+const nextPause = (session: WorkflowDebugSession) =>
+  new Promise<DebugPauseState>(resolve => {
+    const unsubscribe = session.subscribe(event => {
+      if (event.type === 'paused') {
+        unsubscribe();
+        resolve(event.state);
+      }
+    });
+  });
+
+describe('WorkflowDebugSession', () => {
+  it('should run through nodes without breakpoints', async () => {
+    const session = new WorkflowDebugSession();
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    await expect(session.checkpoint(checkpoint('a'))).resolves.toMatchObject({ command: 'continue' });
+    expect(session.isPaused()).toBe(false);
+  });
+
+  it('should pause at a breakpoint until continued', async () => {
+    const session = new WorkflowDebugSession({ breakpoints: ['b'] });
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    await session.checkpoint(checkpoint('a'));
+    const paused = nextPause(session);
+    const result = session.checkpoint(checkpoint('b', { message: 'hi' }));
+
+    const state = await paused;
+    expect(state).toMatchObject({ nodeId: 'b', reason: 'breakpoint', input: { message: 'hi' }, depth: 1 });
+    expect(session.isPaused()).toBe(true);
+
+    session.continue();
+    await expect(result).resolves.toEqual({ command: 'continue', input: { message: 'hi' } });
+    await expect(session.checkpoint(checkpoint('c'))).resolves.toMatchObject({ command: 'continue' });
+  });
+
+  it('should apply variable and input edits made while paused', async () => {
+    const session = new WorkflowDebugSession({ stopOnEntry: true });
+    session.enterWorkflow('exec-1', 'wf-1');
+    const variables = { retries: 0, stale: true };
+
+    const paused = nextPause(session);
+    const result = session.checkpoint(checkpoint('a', { amount: 5 }, variables));
+    expect((await paused).reason).toBe('entry');
+
+    session.updateVariables({ retries: 3 });
+    session.updatePendingInput({ amount: 500 });
+    session.continue();
+
+    await expect(result).resolves.toEqual({ command: 'continue', input: { amount: 500 } });
+    expect(variables).toEqual({ retries: 3 });
+  });
+
+  it('should step over nested subworkflow nodes', async () => {
+    const session = new WorkflowDebugSession({ stopOnEntry: true });
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    let paused = nextPause(session);
+    const first = session.checkpoint(checkpoint('a'));
+    await paused;
+    session.stepOver();
+    await first;
+
+    // Nodes inside a subworkflow run without pausing
+    session.enterWorkflow('exec-2', 'wf-sub');
+    await expect(session.checkpoint(checkpoint('sub-1'))).resolves.toMatchObject({ command: 'continue' });
+    session.exitWorkflow('exec-2', 'wf-sub', 'completed');
+
+    paused = nextPause(session);
+    const next = session.checkpoint(checkpoint('b'));
+    expect(await paused).toMatchObject({ nodeId: 'b', reason: 'step' });
+    session.continue();
+    await next;
+  });
+
+  it('should step into nested subworkflow nodes', async () => {
+    const session = new WorkflowDebugSession({ stopOnEntry: true });
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    let paused = nextPause(session);
+    const first = session.checkpoint(checkpoint('a'));
+    await paused;
+    session.stepInto();
+    await first;
+
+    session.enterWorkflow('exec-2', 'wf-sub');
+    paused = nextPause(session);
+    const nested = session.checkpoint(checkpoint('sub-1'));
+    expect(await paused).toMatchObject({ nodeId: 'sub-1', depth: 2, reason: 'step' });
+    session.continue();
+    await nested;
+  });
+
+  it('should pause on a requested pause', async () => {
+    const session = new WorkflowDebugSession();
+    session.enterWorkflow('exec-1', 'wf-1');
+    session.pause();
+
+    const paused = nextPause(session);
+    const result = session.checkpoint(checkpoint('a'));
+    expect((await paused).reason).toBe('pause-request');
+    session.continue();
+    await result;
+  });
+
+  it('should only pause at conditional breakpoints when the condition holds', async () => {
+    const session = new WorkflowDebugSession({
+      breakpoints: [{ nodeId: 'a', condition: 'data.amount > 100 && variables.region === "eu"' }],
+    });
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    await expect(session.checkpoint(checkpoint('a', { amount: 50 }, { region: 'eu' }))).resolves.toMatchObject({
+      command: 'continue',
+    });
+
+    const paused = nextPause(session);
+    const result = session.checkpoint(checkpoint('a', { amount: 500 }, { region: 'eu' }));
+    expect((await paused).reason).toBe('breakpoint');
+    session.continue();
+    await result;
+  });
+
+  it('should pause and report a failing breakpoint condition', async () => {
+    const session = new WorkflowDebugSession({ breakpoints: [{ nodeId: 'a', condition: 'data.missing.field' }] });
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    const paused = nextPause(session);
+    const result = session.checkpoint(checkpoint('a'));
+    expect((await paused).conditionError).toContain('Breakpoint condition failed');
+    session.continue();
+    await result;
+  });
+
+  it('should stop the execution from a paused state', async () => {
+    const session = new WorkflowDebugSession({ breakpoints: ['a'] });
+    session.enterWorkflow('exec-1', 'wf-1');
+
+    const paused = nextPause(session);
+    const result = session.checkpoint(checkpoint('a'));
+    await paused;
+    session.stop();
+
+    await expect(result).resolves.toMatchObject({ command: 'stop' });
+    await expect(session.checkpoint(checkpoint('b'))).resolves.toMatchObject({ command: 'stop' });
+  });
+
+  it('should reject edits while running', () => {
+    const session = new WorkflowDebugSession();
+
+    expect(() => session.updateVariables({})).toThrow('not paused');
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Workflow Debugger
+ * Breakpoints, pause/resume and step-through control for WorkflowExecutor
+ */
+
+import { createCodeSandbox, type CodeSandbox } from './code-sandbox';
+
+export interface WorkflowBreakpoint {
+  nodeId: string;
+  // JavaScript expression over `data` (pending node input) and `variables`; pauses when truthy
+  condition?: string;
+  enabled?: boolean;
+}
+
+export type DebugPauseReason = 'breakpoint' | 'step' | 'pause-request' | 'entry';
+
+export type DebugCommand = 'continue' | 'step-over' | 'step-into' | 'stop';
+
+export interface DebugPauseState {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  depth: number;
+  reason: DebugPauseReason;
+  input: any;
+  variables: Record<string, any>;
+  conditionError?: string;
+}
+
+export interface DebugCheckpoint {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  input: any;
+  variables: Record<string, any>;
+}
+
+export interface DebugCheckpointResult {
+  command: DebugCommand;
+  input: any;
+}
+
+export type DebugEvent =
+  | { type: 'paused'; state: DebugPauseState }
+  | { type: 'resumed'; command: DebugCommand }
+  | { type: 'node-started'; executionId: string; nodeId: string; nodeName: string; nodeType: string; input: any; depth: number }
+  | { type: 'node-completed'; executionId: string; nodeId: string; output: any; duration?: number; depth: number }
+  | { type: 'node-failed'; executionId: string; nodeId: string; error: string; depth: number }
+  | { type: 'node-skipped'; executionId: string; nodeId: string; nodeName: string; nodeType: string; depth: number }
+  | { type: 'workflow-entered'; executionId: string; workflowId: string; depth: number }
+  | { type: 'workflow-exited'; executionId: string; workflowId: string; depth: number; status: string }
+  | { type: 'log'; level: 'info' | 'warn' | 'error' | 'debug'; message: string; nodeId?: string; data?: any };
+
+export type DebugEventListener = (event: DebugEvent) => void;
+
+export interface WorkflowDebugSessionOptions {
+  breakpoints?: Array<string | WorkflowBreakpoint>;
+  stopOnEntry?: boolean;
+  conditionTimeoutMs?: number;
+  sandbox?: CodeSandbox;
+}
+
+type RunMode =
+  | { type: 'run' }
+  | { type: 'step-over'; depth: number }
+  | { type: 'step-into' };
+
+/**
+ * One debugging session, shared by a workflow execution and every nested
+ * subworkflow execution it starts. The executor awaits checkpoint() before each
+ * node; the UI drives the session through the command methods.
+ */
+export class WorkflowDebugSession {
+  private breakpoints: Map<string, WorkflowBreakpoint> = new Map();
+  private listeners: Set<DebugEventListener> = new Set();
+  private mode: RunMode;
+  private depth = 0;
+  private pauseRequested = false;
+  private entryPending: boolean;
+  private stopped = false;
+  private pausedState: DebugPauseState | null = null;
+  private pendingInput: any;
+  private pendingVariables: Record<string, any> | null = null;
+  private resumeWaiter: ((command: DebugCommand) => void) | null = null;
+  private conditionTimeoutMs: number;
+  private sandbox: CodeSandbox | null;
+
+  constructor(options: WorkflowDebugSessionOptions = {}) {
+    (options.breakpoints || []).forEach(breakpoint => this.setBreakpoint(breakpoint));
+    this.mode = { type: 'run' };
+    this.entryPending = Boolean(options.stopOnEntry);
+    this.conditionTimeoutMs = options.conditionTimeoutMs ?? 1000;
+    this.sandbox = options.sandbox || null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Breakpoints
+  // ---------------------------------------------------------------------------
+
+  setBreakpoint(breakpoint: string | WorkflowBreakpoint): void {
+    const value = typeof breakpoint === 'string' ? { nodeId: breakpoint } : breakpoint;
+    this.breakpoints.set(value.nodeId, { enabled: true, ...value });
+  }
+
+  removeBreakpoint(nodeId: string): void {
+    this.breakpoints.delete(nodeId);
+  }
+
+  getBreakpoints(): WorkflowBreakpoint[] {
+    return Array.from(this.breakpoints.values());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events
+  // ---------------------------------------------------------------------------
+
+  subscribe(listener: DebugEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: DebugEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Workflow debugger listener failed:', error);
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Commands
+  // ---------------------------------------------------------------------------
+
+  isPaused(): boolean {
+    return this.pausedState !== null;
+  }
+
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  getPausedState(): DebugPauseState | null {
+    return this.pausedState;
+  }
+
+  /**
+   * Pause before the next node that is about to run
+   */
+  pause(): void {
+    this.pauseRequested = true;
+  }
+
+  continue(): void {
+    this.resume('continue');
+  }
+
+  stepOver(): void {
+    this.resume('step-over');
+  }
+
+  stepInto(): void {
+    this.resume('step-into');
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.resume('stop');
+  }
+
+  /**
+   * Replace the pending node input while paused
+   */
+  updatePendingInput(input: any): void {
+    this.assertPaused();
+    this.pendingInput = input;
+    this.pausedState = { ...this.pausedState!, input };
+  }
+
+  /**
+   * Replace workflow variables while paused; applied to the execution context on resume
+   */
+  updateVariables(variables: Record<string, any>): void {
+    this.assertPaused();
+    this.pendingVariables = variables;
+    this.pausedState = { ...this.pausedState!, variables };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Executor hooks
+  // ---------------------------------------------------------------------------
+
+  enterWorkflow(executionId: string, workflowId: string): void {
+    this.depth += 1;
+    this.emit({ type: 'workflow-entered', executionId, workflowId, depth: this.depth });
+  }
+
+  exitWorkflow(executionId: string, workflowId: string, status: string): void {
+    this.emit({ type: 'workflow-exited', executionId, workflowId, depth: this.depth, status });
+    this.depth = Math.max(0, this.depth - 1);
+  }
+
+  getDepth(): number {
+    return this.depth;
+  }
+
+  /**
+   * Called before a node runs. Resolves immediately unless the session should
+   * pause here, in which case it waits for the next command. Variable edits are
+   * written into checkpoint.variables in place.
+   */
+  async checkpoint(checkpoint: DebugCheckpoint): Promise<DebugCheckpointResult> {
+    if (this.stopped) {
+      return { command: 'stop', input: checkpoint.input };
+    }
+
+    const { reason, conditionError } = await this.pauseReason(checkpoint);
+    if (!reason) {
+      return { command: 'continue', input: checkpoint.input };
+    }
+
+    this.pauseRequested = false;
+    this.pendingInput = checkpoint.input;
+    this.pendingVariables = null;
+    this.pausedState = {
+      executionId: checkpoint.executionId,
+      workflowId: checkpoint.workflowId,
+      nodeId: checkpoint.nodeId,
+      nodeName: checkpoint.nodeName,
+      nodeType: checkpoint.nodeType,
+      depth: this.depth,
+      reason,
+      input: checkpoint.input,
+      variables: { ...checkpoint.variables },
+      conditionError,
+    };
+
+    const command = await new Promise<DebugCommand>(resolve => {
+      this.resumeWaiter = resolve;
+      this.emit({ type: 'paused', state: this.pausedState! });
+    });
+
+    if (this.pendingVariables) {
+      Object.keys(checkpoint.variables).forEach(key => delete checkpoint.variables[key]);
+      Object.assign(checkpoint.variables, this.pendingVariables);
+    }
+
+    const input = this.pendingInput;
+    this.pausedState = null;
+    this.pendingInput = undefined;
+    this.pendingVariables = null;
+
+    return { command, input };
+  }
+
+  private resume(command: DebugCommand): void {
+    if (command === 'step-over') {
+      this.mode = { type: 'step-over', depth: this.pausedState?.depth ?? this.depth };
+    } else if (command === 'step-into') {
+      this.mode = { type: 'step-into' };
+    } else {
+      this.mode = { type: 'run' };
+    }
+
+    const waiter = this.resumeWaiter;
+    this.resumeWaiter = null;
+    if (waiter) {
+      this.emit({ type: 'resumed', command });
+      waiter(command);
+    }
+  }
+
+  private async pauseReason(
+    checkpoint: DebugCheckpoint
+  ): Promise<{ reason: DebugPauseReason | null; conditionError?: string }> {
+    if (this.entryPending) {
+      this.entryPending = false;
+      return { reason: 'entry' };
+    }
+
+    if (this.pauseRequested) {
+      return { reason: 'pause-request' };
+    }
+
+    if (this.mode.type === 'step-into') {
+      return { reason: 'step' };
+    }
+
+    if (this.mode.type === 'step-over' && this.depth <= this.mode.depth) {
+      return { reason: 'step' };
+    }
+
+    const breakpoint = this.breakpoints.get(checkpoint.nodeId);
+    if (!breakpoint || breakpoint.enabled === false) {
+      return { reason: null };
+    }
+
+    if (!breakpoint.condition?.trim()) {
+      return { reason: 'breakpoint' };
+    }
+
+    // A broken condition pauses so the author sees the error instead of silently skipping it
+    const result = await this.evaluateCondition(breakpoint.condition, checkpoint);
+    if (result.error) {
+      return { reason: 'breakpoint', conditionError: result.error };
+    }
+
+    return { reason: result.value ? 'breakpoint' : null };
+  }
+
+  private async evaluateCondition(
+    condition: string,
+    checkpoint: DebugCheckpoint
+  ): Promise<{ value?: boolean; error?: string }> {
+    if (!this.sandbox) {
+      this.sandbox = createCodeSandbox();
+    }
+
+    const result = await this.sandbox.run(
+      `return Boolean(${condition});`,
+      { data: checkpoint.input, variables: checkpoint.variables },
+      { timeoutMs: this.conditionTimeoutMs, memoryLimitMb: 16 }
+    );
+
+    if (!result.success) {
+      return { error: `Breakpoint condition failed: ${result.error?.message}` };
+    }
+
+    return { value: result.value === true };
+  }
+
+  private assertPaused(): void {
+    if (!this.pausedState) {
+      throw new Error('Workflow debugger is not paused');
+    }
+  }
+}
@@ -52,6 +52,28 @@ export interface ErrorHandler {
   priority: number;
 }
 
+// What a node does with an error once its retries are used up
+export type NodeErrorAction = 'fail' | 'continue' | 'fallback' | 'route';
+
+/**
+ * Per-node error policy, set as `configuration.errorPolicy`. Nodes without one
+ * are handled by the registered error handlers.
+ */
+export interface NodeErrorPolicy {
+  maxRetries: number;
+  // Delay before the first retry; each further retry waits backoffMultiplier times longer
+  retryDelay: number;
+  backoffMultiplier: number;
+  action: NodeErrorAction;
+  fallbackValue?: any;
+  // Node run in place of the failed one; its result becomes the failed node's output
+  fallbackNodeId?: string;
+  // Output port that receives the error with the `route` action
+  errorPort: string;
+}
+
+export const DEFAULT_ERROR_PORT = 'error';
+
 export interface ErrorReport {
   id: string;
   workflowId: string;
@@ -104,13 +126,18 @@ export class WorkflowErrorHandler {
       nodeId?: string;
       executionId?: string;
       workflowId?: string;
+      // Retries already made for this error
+      retryCount?: number;
       additionalContext?: Record<string, any>;
-    }
+    },
+    // Used instead of the registered handlers, e.g. for a node's own error policy
+    strategy?: ErrorRecoveryStrategy
   ): Promise<{
     handled: boolean;
     strategy: ErrorRecoveryStrategy | null;
     shouldContinue: boolean;
     result?: any;
+    error: WorkflowError;
   }> {
     // Convert Error to WorkflowError if needed
     const workflowError = this.normalizeError(error, context);
@@ -119,25 +146,27 @@ export class WorkflowErrorHandler {
     this.addToHistory(workflowError);
 
     // Find appropriate handler
-    const handler = this.findHandler(workflowError);
+    const recoveryStrategy = strategy || this.findHandler(workflowError)?.strategy;
     
-    if (!handler) {
+    if (!recoveryStrategy) {
       // No handler found, use default strategy
       return {
         handled: false,
         strategy: null,
-        shouldContinue: false
+        shouldContinue: false,
+        error: workflowError
       };
     }
 
     // Apply recovery strategy
-    const result = await this.applyRecoveryStrategy(workflowError, handler.strategy);
+    const result = await this.applyRecoveryStrategy(workflowError, recoveryStrategy);
     
     return {
       handled: true,
-      strategy: handler.strategy,
+      strategy: recoveryStrategy,
       shouldContinue: result.shouldContinue,
-      result: result.data
+      result: result.data,
+      error: workflowError
     };
   }
 
@@ -299,6 +328,7 @@ export class WorkflowErrorHandler {
       nodeId?: string;
       executionId?: string;
       workflowId?: string;
+      retryCount?: number;
       additionalContext?: Record<string, any>;
     }
   ): WorkflowError {
@@ -321,7 +351,7 @@ export class WorkflowErrorHandler {
       stack: error.stack,
       context: context.additionalContext,
       recoverable: this.isRecoverable(error),
-      retryCount: 0,
+      retryCount: context.retryCount || 0,
       maxRetries: 3
     };
 
@@ -411,9 +441,9 @@ export class WorkflowErrorHandler {
     error: WorkflowError,
     config: Record<string, any>
   ): Promise<{ shouldContinue: boolean; data?: any }> {
-    const maxRetries = config.maxRetries || error.maxRetries || 3;
-    const retryDelay = config.delay || 1000;
-    const backoffMultiplier = config.backoffMultiplier || 2;
+    const maxRetries = config.maxRetries ?? error.maxRetries ?? 3;
+    const retryDelay = config.delay ?? 1000;
+    const backoffMultiplier = config.backoffMultiplier ?? 2;
 
     if ((error.retryCount || 0) >= maxRetries) {
       return { shouldContinue: false };
@@ -676,5 +706,93 @@ export class WorkflowErrorHandler {
   }
 }
 
+/**
+ * Error policy of a node, or null when it has none. The older
+ * `metadata.continueOnError` flag reads as the `continue` action.
+ */
+export function getNodeErrorPolicy(node: {
+  id: string;
+  configuration?: Record<string, any>;
+  metadata?: Record<string, any>;
+  data?: { config?: Record<string, any> };
+}): NodeErrorPolicy | null {
+  // Builder nodes keep their configuration under `data.config`
+  const configured = (node.configuration ?? node.data?.config)?.errorPolicy;
+  if (!configured && !node.metadata?.continueOnError) {
+    return null;
+  }
+
+  return {
+    maxRetries: Math.max(0, Number(configured?.maxRetries) || 0),
+    retryDelay: Math.max(0, Number(configured?.retryDelay ?? 1000)),
+    backoffMultiplier: Math.max(1, Number(configured?.backoffMultiplier) || 2),
+    action: configured?.action || (node.metadata?.continueOnError ? 'continue' : 'fail'),
+    fallbackValue: configured?.fallbackValue,
+    fallbackNodeId: configured?.fallbackNodeId || undefined,
+    errorPort: configured?.errorPort || DEFAULT_ERROR_PORT
+  };
+}
+
+/**
+ * Whether an output port only carries errors routed by the node's error policy
+ */
+export function isErrorOutputPort(
+  node: Parameters<typeof getNodeErrorPolicy>[0] | undefined,
+  portId?: string,
+  portName?: string
+): boolean {
+  const policy = node ? getNodeErrorPolicy(node) : null;
+  return policy?.action === 'route' && [portId, portName].includes(policy.errorPort);
+}
+
+/**
+ * Recovery strategy for a node's error policy after `failedAttempts` failed runs:
+ * retry while retries are left, then the policy's action
+ */
+export function getNodeRecoveryStrategy(
+  policy: NodeErrorPolicy,
+  failedAttempts: number,
+  runFallbackNode?: () => Promise<any>
+): ErrorRecoveryStrategy {
+  if (failedAttempts <= policy.maxRetries) {
+    return {
+      type: 'retry',
+      config: {
+        maxRetries: policy.maxRetries,
+        delay: policy.retryDelay,
+        backoffMultiplier: policy.backoffMultiplier
+      }
+    };
+  }
+
+  switch (policy.action) {
+    case 'continue':
+      return { type: 'skip', config: { reason: 'Node error policy: continue' } };
+
+    case 'fallback':
+      return {
+        type: 'fallback',
+        config: policy.fallbackNodeId && runFallbackNode
+          ? { fallbackFunction: runFallbackNode }
+          : { fallbackValue: policy.fallbackValue ?? null }
+      };
+
+    case 'route':
+      return {
+        type: 'fallback',
+        config: {
+          // The error becomes the node's output, sent only along the error port
+          fallbackFunction: (error: WorkflowError) => ({
+            error: { message: error.message, type: error.type, nodeId: error.nodeId },
+            nextNodes: [policy.errorPort]
+          })
+        }
+      };
+
+    default:
+      return { type: 'terminate', config: { reason: 'Node error policy: fail' } };
+  }
+}
+
 // Export singleton instance
 export const workflowErrorHandler = WorkflowErrorHandler.getInstance();
\ No newline at end of file
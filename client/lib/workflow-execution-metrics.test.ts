@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import {
+  buildExecutionTimeline,
+  computeNodeMetrics,
+  diffExecutionSteps,
+  percentile
+} from './workflow-execution-metrics';
+import type { ExecutionStep, WorkflowExecution } from './workflow-executor';
+
+const START = Date.parse('2024-05-01T10:00:00.000Z');
+
+const step = (
+  nodeId: string,
+  offset: number,
+  duration: number,
+  overrides: Partial<ExecutionStep> = {}
+): ExecutionStep => ({
+  nodeId,
+  nodeName: nodeId.toUpperCase(),
+  nodeType: 'action',
+  startTime: new Date(START + offset).toISOString(),
+  endTime: new Date(START + offset + duration).toISOString(),
+  duration,
+  status: 'completed',
+  logs: [],
+  ...overrides
+});
+
+const execution = (id: string, steps: ExecutionStep[]): WorkflowExecution => ({
+  id,
+  workflowId: 'wf-1',
+  status: 'completed',
+  startTime: new Date(START).toISOString(),
+  steps,
+  variables: {},
+  logs: [],
+  metadata: {}
+});
+
+describe('buildExecutionTimeline', () => {
+  it('places steps on the execution time axis in start order', () => {
+    const timeline = buildExecutionTimeline(execution('e1', [
+      step('format', 120, 30),
+      step('fetch', 0, 100, {
+        recovery: [{ attempt: 1, timestamp: '', error: 'timeout', errorType: 'timeout' as any, strategy: 'retry', outcome: 'retried' }]
+      }),
+      step('later', 0, 0, { startTime: '', status: 'pending' })
+    ]));
+
+    expect(timeline.entries.map(entry => [entry.nodeId, entry.offset, entry.duration, entry.attempts])).toEqual([
+      ['fetch', 0, 100, 2],
+      ['format', 120, 30, 1]
+    ]);
+    expect(timeline.totalDuration).toBe(150);
+  });
+});
+
+describe('diffExecutionSteps', () => {
+  it('compares each node with its step in the previous run', () => {
+    const previous = execution('e1', [
+      step('fetch', 0, 10, { input: { q: 'tea' }, output: { price: 10 } })
+    ]);
+    const current = execution('e2', [
+      step('fetch', 0, 10, { input: { q: 'tea' }, output: { price: 12, currency: 'EUR' } }),
+      step('format', 10, 5, { output: 'ok' })
+    ]);
+
+    const diffs = diffExecutionSteps(current, previous);
+
+    expect(diffs.get('fetch')).toEqual({
+      nodeId: 'fetch',
+      inPrevious: true,
+      input: [],
+      output: [
+        { path: 'currency', kind: 'added', after: 'EUR' },
+        { path: 'price', kind: 'changed', before: 10, after: 12 }
+      ]
+    });
+    expect(diffs.get('format')?.inPrevious).toBe(false);
+  });
+});
+
+describe('computeNodeMetrics', () => {
+  it('computes latency percentiles, failure rate and the most common error per node', () => {
+    const runs = Array.from({ length: 10 }, (_, index) =>
+      execution(`e${index}`, [
+        step('fetch', 0, (index + 1) * 100, index < 3
+          ? { status: 'failed', error: `Request 50${index % 2} failed for order 1234${index}` }
+          : {}),
+        step('format', 0, 5),
+        step('skipped', 0, 0, { status: 'skipped' })
+      ])
+    );
+
+    const [fetch, format] = computeNodeMetrics(runs);
+
+    expect(fetch).toMatchObject({ nodeId: 'fetch', runs: 10, failures: 3, failureRate: 0.3, p50: 500, p95: 1000 });
+    expect(fetch.mostCommonError).toEqual({ message: 'Request 500 failed for order <n>', count: 2 });
+    expect(format).toMatchObject({ nodeId: 'format', failureRate: 0, p95: 5, mostCommonError: null });
+    expect(computeNodeMetrics(runs).map(metric => metric.nodeId)).not.toContain('skipped');
+  });
+
+  it('uses nearest-rank percentiles', () => {
+    expect(percentile([], 95)).toBe(0);
+    expect(percentile([3, 1, 2], 50)).toBe(2);
+    expect(percentile([1, 2, 3, 4], 95)).toBe(4);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Workflow execution timeline, run-to-run diffs and per-node metrics
+ * computed from the steps recorded on workflow_executions
+ */
+
+import type { ExecutionStep, WorkflowExecution } from './workflow-executor';
+import { diffValues, type FieldChange } from './workflow-revisions';
+
+export interface TimelineEntry {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  status: ExecutionStep['status'];
+  // Milliseconds from the start of the execution
+  offset: number;
+  duration: number;
+  attempts: number;
+  error?: string;
+  recoveryFor?: string;
+  input?: any;
+  output?: any;
+}
+
+export interface ExecutionTimeline {
+  startTime: string;
+  // Span from the execution start to the last step end
+  totalDuration: number;
+  entries: TimelineEntry[];
+}
+
+export interface StepDiff {
+  nodeId: string;
+  // False when the node did not run in the previous execution
+  inPrevious: boolean;
+  input: FieldChange[];
+  output: FieldChange[];
+}
+
+export interface NodeMetrics {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  runs: number;
+  failures: number;
+  failureRate: number;
+  retries: number;
+  p50: number;
+  p95: number;
+  mostCommonError: { message: string; count: number } | null;
+}
+
+/**
+ * Lay out the steps of an execution on one time axis
+ */
+export function buildExecutionTimeline(execution: WorkflowExecution): ExecutionTimeline {
+  const executionStart = new Date(execution.startTime).getTime();
+  const steps = execution.steps.filter(step => step.startTime);
+
+  const entries = steps
+    .map(step => {
+      const start = new Date(step.startTime).getTime();
+      return {
+        nodeId: step.nodeId,
+        nodeName: step.nodeName || step.nodeId,
+        nodeType: step.nodeType,
+        status: step.status,
+        offset: Math.max(0, start - executionStart),
+        duration: getStepDuration(step),
+        attempts: (step.recovery?.length || 0) + 1,
+        error: step.error,
+        recoveryFor: step.recoveryFor,
+        input: step.input,
+        output: step.output
+      };
+    })
+    .sort((a, b) => a.offset - b.offset);
+
+  const lastEnd = entries.reduce((end, entry) => Math.max(end, entry.offset + entry.duration), 0);
+
+  return {
+    startTime: execution.startTime,
+    totalDuration: Math.max(lastEnd, execution.duration || 0),
+    entries
+  };
+}
+
+/**
+ * Input and output changes of each step of an execution against the same
+ * node's step in the previous execution
+ */
+export function diffExecutionSteps(
+  current: WorkflowExecution,
+  previous: WorkflowExecution | null
+): Map<string, StepDiff> {
+  const previousSteps = new Map<string, ExecutionStep>();
+  for (const step of previous?.steps || []) {
+    // Keep the last run of a node, e.g. the final loop iteration
+    previousSteps.set(step.nodeId, step);
+  }
+
+  const diffs = new Map<string, StepDiff>();
+  for (const step of current.steps) {
+    const previousStep = previousSteps.get(step.nodeId);
+    diffs.set(step.nodeId, {
+      nodeId: step.nodeId,
+      inPrevious: Boolean(previousStep),
+      input: previousStep ? diffValues(previousStep.input, step.input) : [],
+      output: previousStep ? diffValues(previousStep.output, step.output) : []
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Nearest-rank percentile of a list of numbers
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Latency and failure statistics per node across executions, slowest first
+ */
+export function computeNodeMetrics(executions: WorkflowExecution[]): NodeMetrics[] {
+  const byNode = new Map<string, {
+    nodeName: string;
+    nodeType: string;
+    durations: number[];
+    failures: number;
+    retries: number;
+    errors: Map<string, number>;
+  }>();
+
+  for (const execution of executions) {
+    for (const step of execution.steps || []) {
+      if (step.status !== 'completed' && step.status !== 'failed') continue;
+
+      let entry = byNode.get(step.nodeId);
+      if (!entry) {
+        entry = {
+          nodeName: step.nodeName || step.nodeId,
+          nodeType: step.nodeType,
+          durations: [],
+          failures: 0,
+          retries: 0,
+          errors: new Map()
+        };
+        byNode.set(step.nodeId, entry);
+      }
+
+      entry.durations.push(getStepDuration(step));
+
+      // Errors of attempts that were later retried count too: that is what makes a node flaky
+      const errors = (step.recovery || []).map(attempt => attempt.error);
+      entry.retries += (step.recovery || []).filter(attempt => attempt.outcome === 'retried').length;
+
+      if (step.status === 'failed') {
+        entry.failures++;
+        if (step.error && !errors.includes(step.error)) {
+          errors.push(step.error);
+        }
+      }
+
+      for (const error of errors) {
+        const message = normalizeError(error);
+        entry.errors.set(message, (entry.errors.get(message) || 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(byNode.entries())
+    .map(([nodeId, entry]) => {
+      const runs = entry.durations.length;
+      const [mostCommon] = Array.from(entry.errors.entries()).sort((a, b) => b[1] - a[1]);
+
+      return {
+        nodeId,
+        nodeName: entry.nodeName,
+        nodeType: entry.nodeType,
+        runs,
+        failures: entry.failures,
+        failureRate: runs > 0 ? entry.failures / runs : 0,
+        retries: entry.retries,
+        p50: percentile(entry.durations, 50),
+        p95: percentile(entry.durations, 95),
+        mostCommonError: mostCommon ? { message: mostCommon[0], count: mostCommon[1] } : null
+      };
+    })
+    .sort((a, b) => b.p95 - a.p95);
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+}
+
+function getStepDuration(step: ExecutionStep): number {
+  if (typeof step.duration === 'number') {
+    return step.duration;
+  }
+  if (step.startTime && step.endTime) {
+    return Math.max(0, new Date(step.endTime).getTime() - new Date(step.startTime).getTime());
+  }
+  return 0;
+}
+
+// Group errors that differ only in ids or long numbers such as timestamps;
+// short numbers like status codes are kept
+function normalizeError(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\d{4,}/g, '<n>')
+    .trim();
+}
@@ -0,0 +1,420 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Every query resolves empty; checkpoint writes are not under test here
+vi.mock('./supabase', () => {
+  const query: any = new Proxy({}, {
+    get: (_target, prop) =>
+      prop === 'then'
+        ? (resolve: (value: any) => void) => resolve({ data: null, error: null })
+        : () => query,
+  });
+  return { supabase: { from: () => query } };
+});
+
+vi.mock('./n8n-workflow-integration', () => ({
+  n8nWorkflowIntegration: { processWorkflowExecution: vi.fn() },
+}));
+
+const activity = { running: 0, maxRunning: 0, order: [] as string[], attempts: {} as Record<string, number> };
+
+vi.mock('./workflow-nodes/node-registry', async () => {
+  const { JoinNode } = await import('./workflow-nodes/join-node');
+
+  class DelayNode {
+    constructor(private node: any) {}
+
+    async execute(input: any) {
+      activity.running++;
+      activity.maxRunning = Math.max(activity.maxRunning, activity.running);
+      await new Promise(resolve => setTimeout(resolve, this.node.configuration.ms || 0));
+      activity.running--;
+      activity.order.push(this.node.id);
+
+      activity.attempts[this.node.id] = (activity.attempts[this.node.id] || 0) + 1;
+      if (this.node.configuration.suspend) {
+        // Imported here: workflow-waits imports the executor this mock is loaded for
+        const { WorkflowSuspendedError } = await import('./workflow-waits');
+        throw new WorkflowSuspendedError({ id: `wait-${this.node.id}`, condition: 'approval' } as any);
+      }
+      if (this.node.configuration.fail || activity.attempts[this.node.id] <= (this.node.configuration.failTimes || 0)) {
+        throw new Error(`${this.node.id} failed`);
+      }
+      return { ...this.node.configuration.output, input };
+    }
+  }
+
+  return {
+    nodeRegistry: {
+      createNodeInstance: (node: any) => (node.type === 'join' ? new JoinNode(node) : new DelayNode(node)),
+    },
+  };
+});
+
+import { WorkflowExecutor } from './workflow-executor';
+
+const node = (id: string, configuration: Record<string, any> = {}, extra: Record<string, any> = {}) => ({
+  id,
+  type: 'delay',
+  name: id,
+  category: 'actions',
+  configuration,
+  inputs: [],
+  outputs: [],
+  ...extra,
+});
+
+const edge = (sourceNodeId: string, targetNodeId: string, ports: Record<string, string> = {}) => ({
+  id: `${sourceNodeId}-${targetNodeId}`,
+  sourceNodeId,
+  targetNodeId,
+  ...ports,
+});
+
+const workflow = (nodes: any[], connections: any[]): any => ({
+  id: 'wf-1',
+  name: 'Test',
+  nodes: [node('trigger', { output: { message: 'hi' } }, { category: 'triggers' }), ...nodes],
+  connections,
+  variables: [],
+  triggers: [],
+  metadata: { created_by: 'user-1' },
+});
+
+describe('WorkflowExecutor parallel branches', () => {
+  const executor = new WorkflowExecutor();
+
+  beforeEach(() => {
+    activity.running = 0;
+    activity.maxRunning = 0;
+    activity.order = [];
+  });
+
+  it('should run independent branches concurrently', async () => {
+    const fanOut = workflow(
+      [node('a', { ms: 30 }), node('b', { ms: 30 }), node('c', { ms: 30 })],
+      [edge('trigger', 'a'), edge('trigger', 'b'), edge('trigger', 'c')]
+    );
+
+    const execution = await executor.executeWorkflow(fanOut);
+
+    expect(execution.status).toBe('completed');
+    expect(activity.maxRunning).toBe(3);
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const fanOut = workflow(
+      [node('a', { ms: 10 }), node('b', { ms: 10 }), node('c', { ms: 10 })],
+      [edge('trigger', 'a'), edge('trigger', 'b'), edge('trigger', 'c')]
+    );
+
+    await executor.executeWorkflow(fanOut, {}, { maxConcurrency: 2 });
+
+    expect(activity.maxRunning).toBe(2);
+  });
+
+  it('should wait for every upstream node before running a node', async () => {
+    const diamond = workflow(
+      [node('slow', { ms: 40, output: { slow: true } }), node('fast', { ms: 5, output: { fast: true } }), node('end')],
+      [edge('trigger', 'slow'), edge('trigger', 'fast'), edge('slow', 'end'), edge('fast', 'end')]
+    );
+
+    const execution = await executor.executeWorkflow(diamond);
+
+    expect(activity.order).toEqual(['trigger', 'fast', 'slow', 'end']);
+    expect(execution.result.input).toMatchObject({ slow: true, fast: true });
+  });
+
+  it('should fire a wait_any join with the first branch to finish', async () => {
+    const race = workflow(
+      [
+        node('slow', { ms: 40, output: { answer: 'slow' } }),
+        node('fast', { ms: 5, output: { answer: 'fast' } }),
+        node('join', { policy: 'wait_any' }, { type: 'join', category: 'utilities' }),
+        node('after', {}),
+      ],
+      [edge('trigger', 'slow'), edge('trigger', 'fast'), edge('slow', 'join'), edge('fast', 'join'), edge('join', 'after')]
+    );
+
+    const execution = await executor.executeWorkflow(race);
+    const joinStep = execution.steps.find(step => step.nodeId === 'join')!;
+
+    expect(Object.keys(joinStep.output.branches)).toEqual(['fast']);
+    expect(activity.order.indexOf('after')).toBeLessThan(activity.order.indexOf('slow'));
+    // The slower branch still finishes before the execution completes
+    expect(execution.steps.find(step => step.nodeId === 'slow')?.status).toBe('completed');
+  });
+
+  it('should pass each edge to its own port', async () => {
+    const ports = workflow(
+      [
+        node('left', { output: { result: 'L' } }, { outputs: [{ id: 'output_result', name: 'result' }] }),
+        node('right', { output: { result: 'R' } }, { outputs: [{ id: 'output_result', name: 'result' }] }),
+        node('compare', {}, { inputs: [{ id: 'input_a', name: 'a' }, { id: 'input_b', name: 'b' }] }),
+      ],
+      [
+        edge('trigger', 'left'),
+        edge('trigger', 'right'),
+        edge('left', 'compare', { sourcePortId: 'output_result', targetPortId: 'input_a' }),
+        edge('right', 'compare', { sourcePortId: 'output_result', targetPortId: 'input_b' }),
+      ]
+    );
+
+    const execution = await executor.executeWorkflow(ports);
+
+    expect(execution.result.input).toMatchObject({ a: 'L', b: 'R' });
+  });
+
+  it('should fail the execution when a branch fails', async () => {
+    const failing = workflow(
+      [node('ok', { ms: 5 }), node('broken', { fail: true }), node('after')],
+      [edge('trigger', 'ok'), edge('trigger', 'broken'), edge('broken', 'after')]
+    );
+
+    const execution = await executor.executeWorkflow(failing);
+
+    expect(execution.status).toBe('failed');
+    expect(execution.error).toBe('broken failed');
+    expect(execution.steps.map(step => step.nodeId)).not.toContain('after');
+  });
+});
+
+describe('WorkflowExecutor branch routing', () => {
+  const executor = new WorkflowExecutor();
+  const branchPorts = { outputs: [{ id: 'output_true', name: 'true' }, { id: 'output_false', name: 'false' }] };
+
+  const ifElse = (result: boolean) => workflow(
+    [
+      node('check', { output: { result } }, branchPorts),
+      node('yes', { output: { path: 'yes' } }),
+      node('no', { output: { path: 'no' } }),
+      node('no-followup', { output: { path: 'no-followup' } }),
+      node('merge', {}),
+    ],
+    [
+      edge('trigger', 'check'),
+      edge('check', 'yes', { sourcePortId: 'output_true' }),
+      edge('check', 'no', { sourcePortId: 'output_false' }),
+      edge('no', 'no-followup'),
+      edge('yes', 'merge'),
+      edge('no-followup', 'merge'),
+    ]
+  );
+
+  const statusOf = (execution: any, nodeId: string) =>
+    execution.steps.find((step: any) => step.nodeId === nodeId)?.status;
+
+  it('should only follow the branch selected by a boolean outcome', async () => {
+    const execution = await executor.executeWorkflow(ifElse(true));
+
+    expect(statusOf(execution, 'yes')).toBe('completed');
+    expect(statusOf(execution, 'no')).toBe('skipped');
+    expect(statusOf(execution, 'no-followup')).toBe('skipped');
+    expect(activity.order).not.toContain('no');
+  });
+
+  it('should run a node where a skipped branch meets a selected one', async () => {
+    const execution = await executor.executeWorkflow(ifElse(false));
+
+    expect(statusOf(execution, 'yes')).toBe('skipped');
+    expect(statusOf(execution, 'merge')).toBe('completed');
+    expect(execution.result.input).toMatchObject({ path: 'no-followup' });
+  });
+
+  it('should route on nextNodes', async () => {
+    const routed = workflow(
+      [
+        node('router', { output: { nextNodes: ['vip'] } }, {
+          outputs: [{ id: 'p-vip', name: 'vip' }, { id: 'p-default', name: 'default' }],
+        }),
+        node('vip'),
+        node('standard'),
+      ],
+      [
+        edge('trigger', 'router'),
+        edge('router', 'vip', { sourcePortId: 'p-vip' }),
+        edge('router', 'standard', { sourcePortId: 'p-default' }),
+      ]
+    );
+
+    const execution = await executor.executeWorkflow(routed);
+
+    expect(statusOf(execution, 'vip')).toBe('completed');
+    expect(statusOf(execution, 'standard')).toBe('skipped');
+  });
+});
+
+describe('WorkflowExecutor error policies', () => {
+  const executor = new WorkflowExecutor();
+  const errorPort = { outputs: [{ id: 'out', name: 'output' }, { id: 'error', name: 'error' }] };
+
+  beforeEach(() => {
+    activity.order = [];
+    activity.attempts = {};
+  });
+
+  const stepOf = (execution: any, nodeId: string) =>
+    execution.steps.find((step: any) => step.nodeId === nodeId);
+
+  it('should retry a node until it succeeds and record each attempt', async () => {
+    const flaky = workflow(
+      [node('flaky', { failTimes: 2, output: { ok: true }, errorPolicy: { maxRetries: 3, retryDelay: 0 } })],
+      [edge('trigger', 'flaky')]
+    );
+
+    const execution = await executor.executeWorkflow(flaky);
+
+    expect(execution.status).toBe('completed');
+    expect(activity.attempts.flaky).toBe(3);
+    expect(stepOf(execution, 'flaky').recovery.map((attempt: any) => attempt.outcome)).toEqual(['retried', 'retried']);
+  });
+
+  it('should fail once retries are used up', async () => {
+    const broken = workflow(
+      [node('broken', { fail: true, errorPolicy: { maxRetries: 1, retryDelay: 0 } })],
+      [edge('trigger', 'broken')]
+    );
+
+    const execution = await executor.executeWorkflow(broken);
+
+    expect(execution.status).toBe('failed');
+    expect(activity.attempts.broken).toBe(2);
+    expect(stepOf(execution, 'broken').recovery.map((attempt: any) => attempt.outcome)).toEqual(['retried', 'failed']);
+  });
+
+  it('should use the fallback value of a failed node', async () => {
+    const fallback = workflow(
+      [
+        node('broken', { fail: true, errorPolicy: { action: 'fallback', fallbackValue: { cached: true } } }),
+        node('after'),
+      ],
+      [edge('trigger', 'broken'), edge('broken', 'after')]
+    );
+
+    const execution = await executor.executeWorkflow(fallback);
+
+    expect(execution.status).toBe('completed');
+    expect(execution.result.input).toMatchObject({ cached: true });
+  });
+
+  it('should run the fallback node in place of a failed node', async () => {
+    const fallback = workflow(
+      [
+        node('broken', { fail: true, errorPolicy: { action: 'fallback', fallbackNodeId: 'backup' } }),
+        node('backup', { output: { source: 'backup' } }),
+        node('after'),
+      ],
+      [edge('trigger', 'broken'), edge('broken', 'after')]
+    );
+
+    const execution = await executor.executeWorkflow(fallback);
+
+    expect(execution.result.input).toMatchObject({ source: 'backup' });
+    expect(stepOf(execution, 'backup').recoveryFor).toBe('broken');
+  });
+
+  it('should only follow the error port when the node fails', async () => {
+    const routed = (fail: boolean) => workflow(
+      [
+        node('risky', { fail, errorPolicy: { action: 'route' } }, errorPort),
+        node('happy'),
+        node('handler'),
+      ],
+      [
+        edge('trigger', 'risky'),
+        edge('risky', 'happy', { sourcePortId: 'out' }),
+        edge('risky', 'handler', { sourcePortId: 'error' }),
+      ]
+    );
+
+    const failed = await executor.executeWorkflow(routed(true));
+    expect(stepOf(failed, 'happy').status).toBe('skipped');
+    expect(stepOf(failed, 'handler').status).toBe('completed');
+    expect(stepOf(failed, 'handler').input.error).toMatchObject({ message: 'risky failed', nodeId: 'risky' });
+
+    const succeeded = await executor.executeWorkflow(routed(false));
+    expect(stepOf(succeeded, 'happy').status).toBe('completed');
+    expect(stepOf(succeeded, 'handler').status).toBe('skipped');
+  });
+
+  it('should continue past a failed node that allows it', async () => {
+    const tolerant = workflow(
+      [node('broken', { fail: true, errorPolicy: { action: 'continue' } }), node('other')],
+      [edge('trigger', 'broken'), edge('trigger', 'other')]
+    );
+
+    const execution = await executor.executeWorkflow(tolerant);
+
+    expect(execution.status).toBe('completed');
+    expect(stepOf(execution, 'broken').status).toBe('failed');
+    expect(stepOf(execution, 'other').status).toBe('completed');
+  });
+
+  it('should start the error workflow when the workflow fails', async () => {
+    const handler = { ...workflow([node('notify')], [edge('trigger', 'notify')]), id: 'wf-errors' };
+    const loadWorkflow = vi.spyOn(executor, 'loadWorkflow').mockResolvedValue(handler);
+    const failing = {
+      ...workflow([node('broken', { fail: true })], [edge('trigger', 'broken')]),
+      settings: { errorWorkflowId: 'wf-errors' },
+    };
+
+    const execution = await executor.executeWorkflow(failing);
+
+    expect(loadWorkflow).toHaveBeenCalledWith('wf-errors');
+    expect(execution.status).toBe('failed');
+    expect(execution.metadata.errorWorkflowExecutionId).toBeDefined();
+    expect(execution.metadata.errorHandled).toBe(true);
+    loadWorkflow.mockRestore();
+  });
+
+  it('should link the error run to the failed execution without making it a subworkflow child', async () => {
+    const handler = { ...workflow([node('notify')], [edge('trigger', 'notify')]), id: 'wf-errors' };
+    const loadWorkflow = vi.spyOn(executor, 'loadWorkflow').mockResolvedValue(handler);
+    const executeWorkflow = vi.spyOn(executor, 'executeWorkflow');
+    const failing = {
+      ...workflow([node('broken', { fail: true })], [edge('trigger', 'broken')]),
+      settings: { errorWorkflowId: 'wf-errors' },
+    };
+
+    const execution = await executor.executeWorkflow(failing);
+    const errorRun = await executeWorkflow.mock.results[1].value;
+
+    expect(errorRun).toMatchObject({ triggeredByExecutionId: execution.id, parentExecutionId: undefined });
+    loadWorkflow.mockRestore();
+    executeWorkflow.mockRestore();
+  });
+
+  it('should not count the error as handled when the error workflow cannot start', async () => {
+    const loadWorkflow = vi.spyOn(executor, 'loadWorkflow').mockRejectedValue(new Error('Workflow wf-errors not found'));
+    const failing = {
+      ...workflow([node('broken', { fail: true })], [edge('trigger', 'broken')]),
+      settings: { errorWorkflowId: 'wf-errors' },
+    };
+
+    const execution = await executor.executeWorkflow(failing);
+
+    expect(execution.metadata.errorHandled).toBe(false);
+    expect(execution.logs.some(log => log.message.includes('Failed to run error workflow'))).toBe(true);
+    loadWorkflow.mockRestore();
+  });
+});
+
+describe('WorkflowExecutor waits', () => {
+  const executor = new WorkflowExecutor();
+
+  it('should suspend at a waiting node and finish independent branches', async () => {
+    const branching = workflow(
+      [node('approval', { suspend: true, retryCount: 3 }), node('after'), node('other')],
+      [edge('trigger', 'approval'), edge('approval', 'after'), edge('trigger', 'other')]
+    );
+
+    const execution = await executor.executeWorkflow(branching);
+    const stepOf = (id: string) => execution.steps.find(step => step.nodeId === id);
+
+    expect(execution.status).toBe('waiting');
+    expect(execution.endTime).toBeUndefined();
+    expect(stepOf('approval')).toMatchObject({ status: 'waiting', output: { waitId: 'wait-approval' } });
+    expect(stepOf('approval')?.recovery).toBeUndefined();
+    expect(stepOf('other')?.status).toBe('completed');
+    expect(stepOf('after')).toBeUndefined();
+  });
+});
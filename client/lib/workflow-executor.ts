@@ -13,21 +13,63 @@ import {
 import { 
   BaseWorkflowNode, 
   ExecutionContext, 
-  WorkflowExecutionContext 
+  WorkflowExecutionContext,
+  executeNodeLifecycle
 } from './workflow-nodes/base-node';
 import { nodeRegistry } from './workflow-nodes/node-registry';
 import { n8nWorkflowIntegration } from './n8n-workflow-integration';
+import { WorkflowSuspendedError, describeWaitCondition } from './workflow-waits';
+import { WorkflowDebugSession, type WorkflowBreakpoint } from './workflow-debugger';
+import {
+  CheckpointState,
+  ExecutionCheckpoint,
+  checkpointFromRow,
+  checkpointToRow,
+  createCheckpoint,
+  getLatestCheckpoint,
+  getReplayCheckpoint,
+  restoreCheckpoint,
+  toCheckpointValue
+} from './workflow-checkpoints';
+import {
+  getJoinBranchLimit,
+  getJoinConfig,
+  isEdgeSelected,
+  isJoinNode,
+  isJoinReady,
+  mapPortInputs,
+  resolvePortName
+} from './workflow-graph';
+import {
+  ErrorRecoveryStrategy,
+  WorkflowErrorType,
+  getNodeErrorPolicy,
+  getNodeRecoveryStrategy,
+  isErrorOutputPort,
+  workflowErrorHandler
+} from './workflow-error-handler';
+import { buildNodeOutputs, resolveExpressions, type VariableScopeIds } from './workflow-expressions';
+import { executionContextManager } from './execution-context-manager';
 import { supabase } from './supabase';
 
 export interface WorkflowExecutionOptions {
   timeout?: number; // milliseconds
   maxIterations?: number;
+  // Nodes on independent branches that may run at the same time
+  maxConcurrency?: number;
   debugMode?: boolean;
-  breakpoints?: string[];
+  breakpoints?: Array<string | WorkflowBreakpoint>;
+  // Shared with nested subworkflow executions so step-into can follow them
+  debugSession?: WorkflowDebugSession;
   variables?: Record<string, any>;
   context?: Record<string, any>;
 }
 
+export interface ResumeExecutionOptions extends WorkflowExecutionOptions {
+  // Defaults to the stored definition of the execution's workflow
+  workflow?: AgentWorkflow;
+}
+
 export interface ExecutionStep {
   nodeId: string;
   nodeName: string;
@@ -35,11 +77,25 @@ export interface ExecutionStep {
   startTime: string;
   endTime?: string;
   duration?: number;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  // Waiting steps are suspended at a wait node until the wait is resolved
+  status: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'skipped';
   input?: any;
   output?: any;
   error?: string;
   logs: ExecutionLog[];
+  // Failed runs of the node and what the error handling did about each
+  recovery?: RecoveryAttempt[];
+  // Set on fallback node steps: the node whose failure they stood in for
+  recoveryFor?: string;
+}
+
+export interface RecoveryAttempt {
+  attempt: number;
+  timestamp: string;
+  error: string;
+  errorType: WorkflowErrorType;
+  strategy: ErrorRecoveryStrategy['type'] | 'none';
+  outcome: 'retried' | 'continued' | 'fallback' | 'routed' | 'escalated' | 'failed';
 }
 
 export interface ExecutionLog {
@@ -55,18 +111,26 @@ export interface WorkflowExecution {
   workflowId: string;
   deploymentId?: string;
   conversationId?: string;
-  status: 'running' | 'completed' | 'failed' | 'timeout' | 'cancelled';
+  // Set on subworkflow executions started by a node of another execution
+  parentExecutionId?: string;
+  parentNodeId?: string;
+  // Set on error workflow executions: the failed execution that started them
+  triggeredByExecutionId?: string;
+  status: 'running' | 'waiting' | 'completed' | 'failed' | 'timeout' | 'cancelled' | 'interrupted';
   startTime: string;
   endTime?: string;
   duration?: number;
   steps: ExecutionStep[];
   variables: Record<string, any>;
+  inputData?: any;
   result?: any;
   error?: string;
   logs: ExecutionLog[];
   metadata: Record<string, any>;
 }
 
+const DEFAULT_MAX_CONCURRENCY = 4;
+
 export interface ExecutionQueue {
   nodeId: string;
   priority: number;
@@ -78,6 +142,7 @@ export class WorkflowExecutor {
   private static instance: WorkflowExecutor;
   private activeExecutions: Map<string, WorkflowExecution> = new Map();
   private executionQueue: Map<string, ExecutionQueue[]> = new Map();
+  private debugSessions: Map<string, WorkflowDebugSession> = new Map();
 
   static getInstance(): WorkflowExecutor {
     if (!WorkflowExecutor.instance) {
@@ -94,34 +159,205 @@ export class WorkflowExecutor {
     inputData: any = {},
     options: WorkflowExecutionOptions = {}
   ): Promise<WorkflowExecution> {
-    const executionId = crypto.randomUUID();
-    const startTime = new Date().toISOString();
-
-    // Create execution context
-    const context = new WorkflowExecutionContext({
-      workflowId: workflow.id,
-      executionId,
-      userId: workflow.metadata.created_by,
-      variables: { ...options.variables, ...inputData },
-      metadata: options.context || {}
-    });
-
-    // Initialize execution record
     const execution: WorkflowExecution = {
-      id: executionId,
+      id: crypto.randomUUID(),
       workflowId: workflow.id,
       deploymentId: options.context?.deploymentId,
       conversationId: options.context?.conversationId,
+      parentExecutionId: options.context?.parentExecutionId,
+      parentNodeId: options.context?.parentNodeId,
+      triggeredByExecutionId: options.context?.triggeredByExecutionId,
       status: 'running',
-      startTime,
+      startTime: new Date().toISOString(),
       steps: [],
-      variables: context.variables,
+      variables: {},
+      inputData,
       logs: [],
       metadata: options.context || {}
     };
 
+    return this.runExecution(workflow, execution, { ...options.variables, ...inputData }, options);
+  }
+
+  /**
+   * Resume an interrupted or failed execution from its last completed node.
+   * Completed nodes are not run again; their results come from the checkpoint.
+   */
+  async resumeExecution(executionId: string, options: ResumeExecutionOptions = {}): Promise<WorkflowExecution> {
+    if (this.activeExecutions.has(executionId)) {
+      throw new Error(`Execution ${executionId} is already running`);
+    }
+
+    const stored = await this.loadExecution(executionId);
+    if (!stored) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+    if (stored.status === 'completed') {
+      throw new Error(`Execution ${executionId} already completed`);
+    }
+
+    const checkpoint = getLatestCheckpoint(await this.loadCheckpoints(executionId));
+    if (!checkpoint) {
+      throw new Error(`Execution ${executionId} has no checkpoint to resume from`);
+    }
+
+    const workflow = options.workflow || await this.loadWorkflow(stored.workflowId);
+    const execution: WorkflowExecution = {
+      ...stored,
+      status: 'running',
+      endTime: undefined,
+      duration: undefined,
+      result: undefined,
+      error: undefined,
+      steps: stored.steps.filter(step => checkpoint.completedNodeIds.includes(step.nodeId)),
+      metadata: {
+        ...stored.metadata,
+        resumedAt: [...(stored.metadata.resumedAt || []), new Date().toISOString()]
+      }
+    };
+
+    this.log(execution, 'info', `Resuming workflow execution after ${checkpoint.sequence} completed nodes`);
+
+    return this.runExecution(workflow, execution, {}, options, checkpoint);
+  }
+
+  /**
+   * Re-run a finished execution from the given step, as a new execution. Nodes
+   * that had finished before that step keep their recorded results;
+   * options.variables override the variables captured at that point.
+   */
+  async replayExecution(
+    executionId: string,
+    fromStep: number,
+    options: ResumeExecutionOptions = {}
+  ): Promise<WorkflowExecution> {
+    const stored = await this.loadExecution(executionId);
+    if (!stored) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+
+    const step = stored.steps[fromStep];
+    if (!step) {
+      throw new Error(`Execution ${executionId} has no step ${fromStep}`);
+    }
+
+    const checkpoints = await this.loadCheckpoints(executionId);
+    const checkpoint = getReplayCheckpoint(checkpoints, step.nodeId);
+    if (!checkpoint) {
+      throw new Error(`Execution ${executionId} has no checkpoint before step ${fromStep}`);
+    }
+
+    const workflow = options.workflow || await this.loadWorkflow(stored.workflowId);
+    const execution: WorkflowExecution = {
+      id: crypto.randomUUID(),
+      workflowId: stored.workflowId,
+      deploymentId: stored.deploymentId,
+      conversationId: stored.conversationId,
+      parentExecutionId: stored.parentExecutionId,
+      parentNodeId: stored.parentNodeId,
+      triggeredByExecutionId: stored.triggeredByExecutionId,
+      status: 'running',
+      startTime: new Date().toISOString(),
+      steps: stored.steps.filter(previous => checkpoint.completedNodeIds.includes(previous.nodeId)),
+      variables: {},
+      inputData: stored.inputData,
+      logs: [],
+      metadata: {
+        ...stored.metadata,
+        replayOf: executionId,
+        replayFromStep: fromStep
+      }
+    };
+
+    // Carry the earlier checkpoints over so the replay can itself be resumed or replayed
+    await this.saveExecution(execution);
+    await this.saveCheckpoints(
+      checkpoints
+        .filter(previous => previous.sequence <= checkpoint.sequence)
+        .map(previous => ({ ...previous, executionId: execution.id }))
+    );
+
+    this.log(execution, 'info', `Replaying execution ${executionId} from step ${fromStep}`);
+
+    return this.runExecution(workflow, execution, {}, options, { ...checkpoint, executionId: execution.id });
+  }
+
+  /**
+   * Running executions whose last checkpoint is older than staleAfterMs belong to a
+   * tab or function instance that died. They are marked interrupted so they can be resumed.
+   */
+  async findInterruptedExecutions(
+    workflowId?: string,
+    staleAfterMs: number = 15 * 60 * 1000
+  ): Promise<WorkflowExecution[]> {
+    try {
+      const cutoff = new Date(Date.now() - staleAfterMs).toISOString();
+      let query = supabase
+        .from('workflow_executions')
+        .select('*')
+        .eq('status', 'running')
+        .lt('last_checkpoint_at', cutoff);
+
+      if (workflowId) {
+        query = query.eq('workflow_id', workflowId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const stale = (data || [])
+        .map(row => this.transformExecutionData(row))
+        .filter(execution => !this.activeExecutions.has(execution.id));
+
+      if (stale.length > 0) {
+        const { error: updateError } = await supabase
+          .from('workflow_executions')
+          .update({ status: 'interrupted' })
+          .in('id', stale.map(execution => execution.id))
+          .eq('status', 'running');
+
+        if (updateError) throw updateError;
+      }
+
+      return stale.map(execution => ({ ...execution, status: 'interrupted' as const }));
+    } catch (error) {
+      console.error('Failed to find interrupted executions:', error);
+      return [];
+    }
+  }
+
+  private async runExecution(
+    workflow: AgentWorkflow,
+    execution: WorkflowExecution,
+    variables: Record<string, any>,
+    options: WorkflowExecutionOptions,
+    checkpoint: ExecutionCheckpoint | null = null
+  ): Promise<WorkflowExecution> {
+    const executionId = execution.id;
+
+    const debugSession = options.debugSession ||
+      (options.debugMode ? new WorkflowDebugSession({ breakpoints: options.breakpoints }) : undefined);
+
+    // Create execution context
+    const context = new WorkflowExecutionContext({
+      workflowId: workflow.id,
+      executionId,
+      userId: workflow.metadata.created_by,
+      variables,
+      conversationId: execution.conversationId,
+      metadata: execution.metadata,
+      debugSession
+    });
+    context.scopeIds = this.createVariableScopes(workflow, execution, context);
+    execution.variables = context.variables;
+
     this.activeExecutions.set(executionId, execution);
 
+    if (debugSession) {
+      this.debugSessions.set(executionId, debugSession);
+      debugSession.enterWorkflow(executionId, workflow.id);
+    }
+
     try {
       // Validate workflow before execution
       const validation = this.validateWorkflow(workflow);
@@ -137,20 +373,52 @@ export class WorkflowExecutor {
 
       // Build execution plan
       const executionPlan = this.buildExecutionPlan(workflow, triggerNodes[0].id);
-      
+
+      // Restore state from the checkpoint, or record the initial state of a fresh run
+      let state: CheckpointState;
+      if (checkpoint) {
+        state = restoreCheckpoint(checkpoint, workflow.nodes.map(node => node.id));
+        Object.assign(context.variables, state.variables, options.variables);
+      } else {
+        state = {
+          completedNodeIds: [],
+          skippedNodeIds: [],
+          nodeResults: new Map(),
+          variables: context.variables,
+          lastResult: null
+        };
+        await this.persistCheckpoint(execution, createCheckpoint({
+          executionId,
+          sequence: 0,
+          nodeId: null,
+          completedNodeIds: [],
+          nodeResults: state.nodeResults,
+          variables: context.variables,
+          lastResult: null
+        }));
+      }
+
       // Execute workflow
       const result = await this.executeNodes(
         workflow, 
         executionPlan, 
         context, 
         execution, 
-        options
+        options,
+        state
       );
 
-      // Complete execution
-      execution.status = 'completed';
+      // A suspended execution is saved as waiting and resumed when its waits resolve
+      if (execution.status === 'waiting') {
+        this.log(execution, 'info', 'Workflow execution suspended until its waits resolve');
+        await this.saveExecution(execution);
+        return execution;
+      }
+
+      // Complete execution, unless it was cancelled or stopped from the debugger
+      execution.status = execution.status === 'cancelled' ? 'cancelled' : 'completed';
       execution.endTime = new Date().toISOString();
-      execution.duration = Date.now() - new Date(startTime).getTime();
+      execution.duration = Date.now() - new Date(execution.startTime).getTime();
       execution.result = result;
 
       // Save execution to database
@@ -170,7 +438,7 @@ export class WorkflowExecutor {
       // Handle execution error
       execution.status = 'failed';
       execution.endTime = new Date().toISOString();
-      execution.duration = Date.now() - new Date(startTime).getTime();
+      execution.duration = Date.now() - new Date(execution.startTime).getTime();
       execution.error = error.message;
 
       this.log(execution, 'error', `Workflow execution failed: ${error.message}`, { error });
@@ -178,13 +446,85 @@ export class WorkflowExecutor {
       // Save failed execution
       await this.saveExecution(execution);
 
+      if (workflow.settings?.errorWorkflowId) {
+        execution.metadata.errorHandled = await this.runErrorWorkflow(workflow, execution, error);
+        // Keeps the link to the error run, or the reason it did not run
+        await this.saveExecution(execution);
+      }
+
       return execution;
 
     } finally {
       this.activeExecutions.delete(executionId);
+      executionContextManager.releaseScope(context.scopeIds.workflow);
+
+      if (debugSession) {
+        debugSession.exitWorkflow(executionId, workflow.id, execution.status);
+        this.debugSessions.delete(executionId);
+      }
+    }
+  }
+
+  /**
+   * Start the workflow's error workflow (`settings.errorWorkflowId`) for a failed
+   * execution. Error workflows that fail do not start another error workflow.
+   * Returns whether the error workflow ran without failing, i.e. handled the error.
+   */
+  private async runErrorWorkflow(
+    workflow: AgentWorkflow,
+    execution: WorkflowExecution,
+    error: Error
+  ): Promise<boolean> {
+    const errorWorkflowId = workflow.settings?.errorWorkflowId;
+    if (!errorWorkflowId || errorWorkflowId === workflow.id || execution.metadata.trigger === 'error') {
+      return false;
+    }
+
+    try {
+      const errorWorkflow = await this.loadWorkflow(errorWorkflowId);
+      const failedStep = [...execution.steps].reverse().find(step => step.status === 'failed');
+
+      const errorExecution = await this.executeWorkflow(errorWorkflow, {
+        error: {
+          message: error.message,
+          nodeId: failedStep?.nodeId,
+          nodeName: failedStep?.nodeName
+        },
+        execution: {
+          id: execution.id,
+          workflowId: workflow.id,
+          workflowName: workflow.name,
+          startTime: execution.startTime
+        }
+      }, {
+        context: {
+          trigger: 'error',
+          // Not parentExecutionId: error runs are not subworkflow children
+          triggeredByExecutionId: execution.id,
+          conversationId: execution.conversationId
+        }
+      });
+
+      execution.metadata.errorWorkflowExecutionId = errorExecution.id;
+      const handled = errorExecution.status !== 'failed';
+      this.log(execution, handled ? 'info' : 'error', `Error workflow ${errorWorkflow.name} ${errorExecution.status}`, {
+        executionId: errorExecution.id
+      });
+
+      return handled;
+    } catch (handlerError) {
+      this.log(execution, 'error', `Failed to run error workflow: ${handlerError.message}`);
+      return false;
     }
   }
 
+  /**
+   * Debug session attached to a running execution, if it was started in debug mode
+   */
+  getDebugSession(executionId: string): WorkflowDebugSession | null {
+    return this.debugSessions.get(executionId) || null;
+  }
+
   /**
    * Cancel running workflow execution
    */
@@ -198,6 +538,9 @@ export class WorkflowExecutor {
     execution.endTime = new Date().toISOString();
     execution.duration = Date.now() - new Date(execution.startTime).getTime();
 
+    // Release an execution that is waiting at a breakpoint
+    this.debugSessions.get(executionId)?.stop();
+
     this.log(execution, 'info', 'Workflow execution cancelled by user');
 
     await this.saveExecution(execution);
@@ -347,38 +690,144 @@ export class WorkflowExecutor {
     return plan;
   }
 
+  /**
+   * Run every node reachable from the trigger. A node starts once all of its
+   * upstream nodes have finished (join nodes follow their own policy), so
+   * independent branches run side by side up to the concurrency limit. Nodes
+   * that no selected branch leads to are marked skipped instead of run.
+   */
   private async executeNodes(
     workflow: AgentWorkflow,
     executionPlan: string[],
     context: WorkflowExecutionContext,
     execution: WorkflowExecution,
-    options: WorkflowExecutionOptions
+    options: WorkflowExecutionOptions,
+    state: CheckpointState
   ): Promise<any> {
-    let lastResult: any = null;
-    const nodeResults: Map<string, any> = new Map();
+    let lastResult: any = state.lastResult;
+    const nodeResults = state.nodeResults;
+    const completedNodeIds = [...state.completedNodeIds];
+    const skippedNodeIds = [...state.skippedNodeIds];
+    const settled = new Set(completedNodeIds);
+    const skipped = new Set(skippedNodeIds);
+    const started = new Set(completedNodeIds);
+    const running: Map<string, Promise<void>> = new Map();
+    const debugSession = context.debugSession;
+    // The debugger pauses one node at a time, so branches run one after another while debugging
+    const concurrency = debugSession ? 1 : Math.max(1, options.maxConcurrency || DEFAULT_MAX_CONCURRENCY);
+    let failure: Error | null = null;
+    // Set when a node suspended the execution at a wait
+    let suspended = false;
+    // Time spent paused in the debugger does not count towards the timeout
+    let pausedMs = 0;
+    // A resumed execution gets the full timeout for the nodes it still has to run
+    const runStartedAt = Date.now();
+    // Checkpoints are written in order so a slow write cannot overwrite a newer one
+    let checkpointWrites: Promise<void> = Promise.resolve();
+
+    const planned = new Set(executionPlan);
+    const upstreamOf = (nodeId: string): string[] => Array.from(new Set(
+      workflow.connections
+        .filter(conn => conn.targetNodeId === nodeId && planned.has(conn.sourceNodeId))
+        .map(conn => conn.sourceNodeId)
+    ));
+
+    // Incoming edges whose source ran and routed to them
+    const activeEdgesInto = (nodeId: string) => workflow.connections.filter(conn => {
+      if (conn.targetNodeId !== nodeId || !settled.has(conn.sourceNodeId) || skipped.has(conn.sourceNodeId)) {
+        return false;
+      }
 
-    for (const nodeId of executionPlan) {
-      // Check for cancellation
-      if (execution.status === 'cancelled') {
-        break;
+      const source = workflow.nodes.find(n => n.id === conn.sourceNodeId);
+      const result = nodeResults.get(conn.sourceNodeId);
+      const portName = resolvePortName(source?.outputs, conn.sourcePortId);
+
+      // Error ports only fire when the node's error policy routed an error to them
+      if (isErrorOutputPort(source, conn.sourcePortId, portName) && !Array.isArray(result?.nextNodes)) {
+        return false;
       }
 
-      // Check for timeout
-      if (options.timeout && Date.now() - new Date(execution.startTime).getTime() > options.timeout) {
-        execution.status = 'timeout';
-        throw new Error('Workflow execution timeout');
+      return isEdgeSelected(result, conn.sourcePortId, portName);
+    });
+
+    const isReady = (nodeId: string): boolean => {
+      const upstream = upstreamOf(nodeId);
+      const settledCount = upstream.filter(id => settled.has(id)).length;
+      const node = workflow.nodes.find(n => n.id === nodeId);
+
+      if (isJoinNode(node)) {
+        const arrived = new Set(
+          activeEdgesInto(nodeId)
+            .filter(conn => nodeResults.has(conn.sourceNodeId))
+            .map(conn => conn.sourceNodeId)
+        ).size;
+        return isJoinReady(getJoinConfig(node), arrived, settledCount, upstream.length);
       }
 
-      // Check for breakpoints in debug mode
-      if (options.debugMode && options.breakpoints?.includes(nodeId)) {
-        this.log(execution, 'debug', `Breakpoint hit at node ${nodeId}`);
-        // In a real implementation, this would pause execution
+      return settledCount === upstream.length;
+    };
+
+    const settle = (nodeId: string, wasSkipped: boolean = false) => {
+      settled.add(nodeId);
+      completedNodeIds.push(nodeId);
+      if (wasSkipped) {
+        skipped.add(nodeId);
+        skippedNodeIds.push(nodeId);
       }
 
+      const checkpoint = createCheckpoint({
+        executionId: execution.id,
+        sequence: completedNodeIds.length,
+        nodeId,
+        completedNodeIds,
+        skippedNodeIds,
+        nodeResults,
+        variables: execution.variables,
+        lastResult
+      });
+      checkpointWrites = checkpointWrites.then(() => this.persistCheckpoint(execution, checkpoint));
+    };
+
+    const runNode = async (nodeId: string): Promise<void> => {
       const node = workflow.nodes.find(n => n.id === nodeId);
       if (!node) {
         this.log(execution, 'warn', `Node ${nodeId} not found in workflow`);
-        continue;
+        settle(nodeId);
+        return;
+      }
+
+      // Skip nodes that only unselected branches lead to
+      const incoming = activeEdgesInto(nodeId);
+      if (upstreamOf(nodeId).length > 0 && incoming.length === 0) {
+        this.skipNode(node, execution, debugSession);
+        settle(nodeId, true);
+        return;
+      }
+
+      // Prepare input data
+      let inputData = this.prepareNodeInput(node, workflow, nodeResults, context, completedNodeIds, incoming);
+
+      // Pause here if the debugger asks to; variables and input may be edited while paused
+      if (debugSession) {
+        const pausedAt = Date.now();
+        const checkpoint = await debugSession.checkpoint({
+          executionId: execution.id,
+          workflowId: workflow.id,
+          nodeId: node.id,
+          nodeName: node.name,
+          nodeType: node.type,
+          input: inputData,
+          variables: context.variables
+        });
+        pausedMs += Date.now() - pausedAt;
+
+        if (checkpoint.command === 'stop') {
+          execution.status = 'cancelled';
+          this.log(execution, 'info', `Workflow execution stopped from the debugger before ${node.name}`);
+          return;
+        }
+
+        inputData = checkpoint.input;
       }
 
       // Create execution step
@@ -388,78 +837,384 @@ export class WorkflowExecutor {
         nodeType: node.type,
         startTime: new Date().toISOString(),
         status: 'running',
+        input: inputData,
         logs: []
       };
 
       execution.steps.push(step);
+      debugSession?.emit({
+        type: 'node-started',
+        executionId: execution.id,
+        nodeId: node.id,
+        nodeName: node.name,
+        nodeType: node.type,
+        input: inputData,
+        depth: debugSession.getDepth()
+      });
+
+      let continueAfterError = false;
 
       try {
-        // Get node instance
-        const nodeInstance = nodeRegistry.createNodeInstance(node);
+        // Get node instance, with the expressions in its configuration resolved
+        const nodeInstance = nodeRegistry.createNodeInstance(
+          this.resolveNodeExpressions(node, workflow, nodeResults, inputData, context)
+        );
         if (!nodeInstance) {
           throw new Error(`Unknown node type: ${node.type}`);
         }
 
-        // Prepare input data
-        const inputData = this.prepareNodeInput(node, workflow, nodeResults, context);
-        step.input = inputData;
-
         this.log(execution, 'info', `Executing node: ${node.name} (${node.type})`);
 
-        // Execute node
-        const result = await nodeInstance.execute(inputData, context);
-        
-        // Store result
-        nodeResults.set(nodeId, result);
-        lastResult = result;
-        step.output = result;
-        step.status = 'completed';
+        // Execute node, recovering from errors as the node's error policy says
+        const outcome = await this.executeWithRecovery(
+          node,
+          () => executeNodeLifecycle(nodeInstance, inputData, context),
+          workflow,
+          inputData,
+          context,
+          execution,
+          step
+        );
+
+        if (outcome.continued) {
+          continueAfterError = true;
+        } else {
+          // Store result
+          nodeResults.set(nodeId, outcome.result);
+          lastResult = outcome.result;
+          step.output = outcome.result;
+          step.status = 'completed';
 
-        this.log(execution, 'info', `Node ${node.name} completed successfully`);
+          this.log(execution, 'info', `Node ${node.name} completed successfully`);
+        }
 
       } catch (error) {
+        if (error instanceof WorkflowSuspendedError) {
+          // Not settled: the node runs again when the execution resumes and reads the outcome
+          step.status = 'waiting';
+          step.output = { waitId: error.wait.id, condition: error.wait.condition, timeoutAt: error.wait.timeoutAt };
+          suspended = true;
+          this.log(execution, 'info', `Node ${node.name} is waiting for ${describeWaitCondition(error.wait)}`, { waitId: error.wait.id });
+          return;
+        }
+
         step.status = 'failed';
         step.error = error.message;
         
         this.log(execution, 'error', `Node ${node.name} failed: ${error.message}`, { error });
-
-        // Handle error based on node configuration
-        if (node.metadata?.continueOnError) {
-          this.log(execution, 'info', `Continuing execution despite error in ${node.name}`);
-          continue;
-        } else {
-          throw error;
-        }
+        failure = failure || error;
 
       } finally {
         step.endTime = new Date().toISOString();
         step.duration = Date.now() - new Date(step.startTime).getTime();
+
+        if (step.status === 'waiting') {
+          // Reported when the node runs again after the wait
+        } else if (step.status === 'failed') {
+          debugSession?.emit({
+            type: 'node-failed',
+            executionId: execution.id,
+            nodeId: node.id,
+            error: step.error,
+            depth: debugSession.getDepth()
+          });
+        } else {
+          debugSession?.emit({
+            type: 'node-completed',
+            executionId: execution.id,
+            nodeId: node.id,
+            output: step.output,
+            duration: step.duration,
+            depth: debugSession.getDepth()
+          });
+        }
       }
+
+      if (step.status === 'completed' || continueAfterError) {
+        settle(nodeId);
+      }
+    };
+
+    while (!failure && execution.status !== 'cancelled') {
+      // Check for timeout
+      const elapsed = Date.now() - runStartedAt - pausedMs;
+      if (options.timeout && elapsed > options.timeout) {
+        execution.status = 'timeout';
+        failure = new Error('Workflow execution timeout');
+        break;
+      }
+
+      // Start ready nodes in plan order until the concurrency limit is reached
+      for (const nodeId of executionPlan) {
+        if (running.size >= concurrency) break;
+        if (started.has(nodeId) || !isReady(nodeId)) continue;
+
+        started.add(nodeId);
+        running.set(nodeId, runNode(nodeId).finally(() => running.delete(nodeId)));
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+
+      await Promise.race(running.values());
+    }
+
+    // Let branches that are already running finish before reporting the outcome
+    await Promise.all(running.values());
+    await checkpointWrites;
+
+    if (failure) {
+      throw failure;
+    }
+
+    // Branches that did not depend on the waiting node have finished; the rest resume later
+    if (suspended && execution.status === 'running') {
+      execution.status = 'waiting';
     }
 
     return lastResult;
   }
 
-  private prepareNodeInput(
+  /**
+   * Run a node and recover from its failures. Nodes with an error policy retry
+   * with backoff and then fail, continue, fall back or route the error to their
+   * error port; other nodes go to the registered error handlers. Every failed
+   * attempt is recorded on the step.
+   */
+  private async executeWithRecovery(
     node: WorkflowNode,
+    run: () => Promise<any>,
     workflow: AgentWorkflow,
-    nodeResults: Map<string, any>,
+    inputData: any,
+    context: WorkflowExecutionContext,
+    execution: WorkflowExecution,
+    step: ExecutionStep
+  ): Promise<{ result?: any; continued?: boolean }> {
+    const policy = getNodeErrorPolicy(node);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { result: await run() };
+      } catch (error) {
+        // Suspending at a wait is not a failure to recover from
+        if (error instanceof WorkflowSuspendedError) {
+          throw error;
+        }
+
+        const strategy = policy
+          ? getNodeRecoveryStrategy(policy, attempt, () =>
+              this.runFallbackNode(policy.fallbackNodeId, node, workflow, inputData, context, execution))
+          : undefined;
+
+        const recovery = await workflowErrorHandler.handleError(error, {
+          nodeId: node.id,
+          executionId: execution.id,
+          workflowId: workflow.id,
+          retryCount: attempt - 1,
+          additionalContext: { nodeName: node.name, nodeType: node.type }
+        }, strategy);
+
+        const outcome: RecoveryAttempt['outcome'] = !recovery.shouldContinue
+          ? 'failed'
+          : recovery.strategy.type === 'retry'
+            ? 'retried'
+            : recovery.strategy.type === 'fallback'
+              ? (policy?.action === 'route' ? 'routed' : 'fallback')
+              : recovery.strategy.type === 'escalate' ? 'escalated' : 'continued';
+
+        (step.recovery ||= []).push({
+          attempt,
+          timestamp: new Date().toISOString(),
+          error: error.message,
+          errorType: recovery.error.type,
+          strategy: recovery.strategy?.type || 'none',
+          outcome
+        });
+
+        if (outcome === 'failed') {
+          throw error;
+        }
+
+        this.log(execution, 'warn', `Node ${node.name} failed (attempt ${attempt}): ${error.message}; ${outcome}`, {
+          nodeId: node.id,
+          strategy: recovery.strategy.type
+        });
+
+        if (outcome === 'fallback' || outcome === 'routed') {
+          return { result: recovery.result?.value };
+        }
+        if (outcome !== 'retried') {
+          step.status = 'failed';
+          step.error = error.message;
+          return { continued: true };
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a node's fallback node with the failed node's input, as its own step
+   */
+  private async runFallbackNode(
+    fallbackNodeId: string,
+    failedNode: WorkflowNode,
+    workflow: AgentWorkflow,
+    inputData: any,
+    context: WorkflowExecutionContext,
+    execution: WorkflowExecution
+  ): Promise<any> {
+    const fallbackNode = workflow.nodes.find(n => n.id === fallbackNodeId);
+    const completedResults = new Map(
+      execution.steps.filter(step => step.status === 'completed').map(step => [step.nodeId, step.output])
+    );
+    const nodeInstance = fallbackNode && nodeRegistry.createNodeInstance(
+      this.resolveNodeExpressions(fallbackNode, workflow, completedResults, inputData, context)
+    );
+    if (!nodeInstance) {
+      throw new Error(`Fallback node ${fallbackNodeId} not found`);
+    }
+
+    const step: ExecutionStep = {
+      nodeId: fallbackNode.id,
+      nodeName: fallbackNode.name,
+      nodeType: fallbackNode.type,
+      startTime: new Date().toISOString(),
+      status: 'running',
+      input: inputData,
+      logs: [],
+      recoveryFor: failedNode.id
+    };
+    execution.steps.push(step);
+
+    try {
+      step.output = await executeNodeLifecycle(nodeInstance, inputData, context);
+      step.status = 'completed';
+      return step.output;
+    } catch (error) {
+      step.status = 'failed';
+      step.error = error.message;
+      throw error;
+    } finally {
+      step.endTime = new Date().toISOString();
+      step.duration = Date.now() - new Date(step.startTime).getTime();
+    }
+  }
+
+  private skipNode(
+    node: WorkflowNode,
+    execution: WorkflowExecution,
+    debugSession?: WorkflowDebugSession
+  ): void {
+    const now = new Date().toISOString();
+
+    execution.steps.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      startTime: now,
+      endTime: now,
+      duration: 0,
+      status: 'skipped',
+      logs: []
+    });
+
+    this.log(execution, 'debug', `Skipping node ${node.name}: no selected branch leads to it`);
+    debugSession?.emit({
+      type: 'node-skipped',
+      executionId: execution.id,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      depth: debugSession.getDepth()
+    });
+  }
+
+  /**
+   * Create the context manager scopes the execution's variables resolve
+   * through, and seed the workflow scope from the workflow's variable
+   * definitions. Encrypted variables live only in the scope.
+   */
+  private createVariableScopes(
+    workflow: AgentWorkflow,
+    execution: WorkflowExecution,
     context: WorkflowExecutionContext
-  ): any {
-    const input: any = {};
+  ): VariableScopeIds {
+    const workflowScope = executionContextManager.getWorkflowScope(workflow.id, execution.id);
+    const scopeIds: VariableScopeIds = { global: 'global', workflow: workflowScope.id };
 
-    // Get incoming connections
-    const incomingConnections = workflow.connections.filter(conn => conn.targetNodeId === node.id);
+    if (execution.conversationId) {
+      scopeIds.conversation = executionContextManager.getConversationScope(execution.conversationId).id;
+    }
+    if (execution.metadata.sessionId) {
+      scopeIds.session = executionContextManager.getSessionScope(
+        execution.metadata.sessionId,
+        scopeIds.conversation
+      ).id;
+    }
+
+    for (const variable of workflow.variables || []) {
+      const value = context.variables[variable.name] ?? variable.value;
+
+      executionContextManager.setVariable(workflowScope.id, variable.name, value, {
+        readonly: variable.readonly,
+        encrypted: variable.encrypted,
+        description: variable.description,
+        executionId: execution.id
+      });
 
-    // Collect data from connected nodes
-    incomingConnections.forEach(conn => {
-      const sourceResult = nodeResults.get(conn.sourceNodeId);
-      if (sourceResult) {
-        // Map source output to target input based on port connections
-        Object.assign(input, sourceResult);
+      if (variable.encrypted) {
+        delete context.variables[variable.name];
+      } else if (value !== undefined && !(variable.name in context.variables)) {
+        context.variables[variable.name] = value;
       }
+    }
+
+    return scopeIds;
+  }
+
+  /**
+   * Copy of a node with the `{{ ... }}` expressions in its configuration
+   * resolved. The copy is only handed to the node instance, so values read
+   * from encrypted variables never reach execution records.
+   */
+  private resolveNodeExpressions(
+    node: WorkflowNode,
+    workflow: AgentWorkflow,
+    nodeResults: Map<string, any>,
+    inputData: any,
+    context: WorkflowExecutionContext
+  ): WorkflowNode {
+    if (!node.configuration) {
+      return node;
+    }
+
+    const configuration = resolveExpressions(node.configuration, {
+      input: inputData,
+      variables: context.variables,
+      nodeOutputs: buildNodeOutputs(workflow.nodes, nodeResults),
+      scopeIds: context.scopeIds,
+      nodeId: node.id,
+      executionId: context.executionId,
+      workflowId: workflow.id
     });
 
+    return { ...node, configuration };
+  }
+
+  private prepareNodeInput(
+    node: WorkflowNode,
+    workflow: AgentWorkflow,
+    nodeResults: Map<string, any>,
+    context: WorkflowExecutionContext,
+    completedNodeIds: string[],
+    incoming: WorkflowConnection[]
+  ): any {
+    // Each input port gets the output of its own edge; joins get the branches they consume
+    const input: any = isJoinNode(node)
+      ? { branches: this.collectJoinBranches(node, incoming, nodeResults, completedNodeIds) }
+      : mapPortInputs(node, workflow.nodes, incoming, nodeResults);
+
     // Add workflow variables
     Object.assign(input, context.variables);
 
@@ -471,6 +1226,26 @@ export class WorkflowExecutor {
     return input;
   }
 
+  /**
+   * Upstream results a join consumes, in the order the branches finished
+   */
+  private collectJoinBranches(
+    node: WorkflowNode,
+    incoming: WorkflowConnection[],
+    nodeResults: Map<string, any>,
+    completedNodeIds: string[]
+  ): Record<string, any> {
+    const upstream = new Set(incoming.map(conn => conn.sourceNodeId));
+    const limit = getJoinBranchLimit(getJoinConfig(node));
+
+    return Object.fromEntries(
+      completedNodeIds
+        .filter(nodeId => upstream.has(nodeId) && nodeResults.has(nodeId))
+        .slice(0, limit)
+        .map(nodeId => [nodeId, nodeResults.get(nodeId)])
+    );
+  }
+
   private log(
     execution: WorkflowExecution,
     level: 'info' | 'warn' | 'error' | 'debug',
@@ -485,6 +1260,7 @@ export class WorkflowExecutor {
     };
 
     execution.logs.push(logEntry);
+    this.debugSessions.get(execution.id)?.emit({ type: 'log', level, message, data });
 
     // Also log to console in development
     if (process.env.NODE_ENV === 'development') {
@@ -492,7 +1268,7 @@ export class WorkflowExecutor {
     }
   }
 
-  private async saveExecution(execution: WorkflowExecution): Promise<void> {
+  private async saveExecution(execution: WorkflowExecution, lastCheckpoint?: ExecutionCheckpoint): Promise<void> {
     try {
       const { error } = await supabase
         .from('workflow_executions')
@@ -501,19 +1277,26 @@ export class WorkflowExecutor {
           workflow_id: execution.workflowId,
           deployment_id: execution.deploymentId,
           conversation_id: execution.conversationId,
-          execution_data: {
+          parent_execution_id: execution.parentExecutionId,
+          parent_node_id: execution.parentNodeId,
+          triggered_by_execution_id: execution.triggeredByExecutionId,
+          execution_data: toCheckpointValue({
             steps: execution.steps,
             variables: execution.variables,
             logs: execution.logs,
             metadata: execution.metadata
-          },
-          input_data: execution.metadata.inputData,
-          output_data: execution.result,
+          }),
+          input_data: toCheckpointValue(execution.inputData),
+          output_data: toCheckpointValue(execution.result),
           status: execution.status,
           error_message: execution.error,
           started_at: execution.startTime,
           completed_at: execution.endTime,
-          execution_time_ms: execution.duration
+          execution_time_ms: execution.duration,
+          ...(lastCheckpoint && {
+            last_completed_node_id: lastCheckpoint.nodeId,
+            last_checkpoint_at: lastCheckpoint.createdAt
+          })
         });
 
       if (error) {
@@ -524,18 +1307,112 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Persist the state after the latest finished node so the execution survives the
+   * process that runs it. Failures are logged; a missed checkpoint only means more work on resume.
+   */
+  private async persistCheckpoint(execution: WorkflowExecution, checkpoint: ExecutionCheckpoint): Promise<void> {
+    // The execution row must exist before checkpoints can reference it
+    await this.saveExecution(execution, checkpoint);
+    await this.saveCheckpoints([checkpoint]);
+  }
+
+  private async saveCheckpoints(checkpoints: ExecutionCheckpoint[]): Promise<void> {
+    if (checkpoints.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('workflow_execution_checkpoints')
+        .upsert(checkpoints.map(checkpointToRow), { onConflict: 'execution_id,sequence' });
+
+      if (error) {
+        console.error('Failed to save execution checkpoint:', error);
+      }
+    } catch (error) {
+      console.error('Failed to save execution checkpoint:', error);
+    }
+  }
+
+  private async loadCheckpoints(executionId: string): Promise<ExecutionCheckpoint[]> {
+    const { data, error } = await supabase
+      .from('workflow_execution_checkpoints')
+      .select('*')
+      .eq('execution_id', executionId)
+      .order('sequence', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load checkpoints for execution ${executionId}: ${error.message}`);
+    }
+
+    return (data || []).map(checkpointFromRow);
+  }
+
+  private async loadExecution(executionId: string): Promise<WorkflowExecution | null> {
+    const { data, error } = await supabase
+      .from('workflow_executions')
+      .select('*')
+      .eq('id', executionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load execution ${executionId}: ${error.message}`);
+    }
+
+    return data ? this.transformExecutionData(data) : null;
+  }
+
+  /**
+   * Load a saved workflow definition
+   */
+  async loadWorkflow(workflowId: string): Promise<AgentWorkflow> {
+    const { data, error } = await supabase
+      .from('agent_workflows')
+      .select('*')
+      .eq('id', workflowId)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const definition = (data.workflow_data || {}) as Record<string, any>;
+
+    return {
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      version: data.version,
+      nodes: definition.nodes || [],
+      connections: definition.connections || [],
+      variables: definition.variables || [],
+      triggers: definition.triggers || [],
+      settings: definition.settings || {},
+      metadata: {
+        created_at: data.created_at,
+        updated_at: data.updated_at,
+        created_by: data.user_id,
+        is_template: data.is_template,
+        tags: data.tags || []
+      }
+    } as AgentWorkflow;
+  }
+
   private transformExecutionData(data: any): WorkflowExecution {
     return {
       id: data.id,
       workflowId: data.workflow_id,
       deploymentId: data.deployment_id,
       conversationId: data.conversation_id,
+      parentExecutionId: data.parent_execution_id ?? undefined,
+      parentNodeId: data.parent_node_id ?? undefined,
+      triggeredByExecutionId: data.triggered_by_execution_id ?? undefined,
       status: data.status,
       startTime: data.started_at,
       endTime: data.completed_at,
       duration: data.execution_time_ms,
       steps: data.execution_data?.steps || [],
       variables: data.execution_data?.variables || {},
+      inputData: data.input_data,
       result: data.output_data,
       error: data.error_message,
       logs: data.execution_data?.logs || [],
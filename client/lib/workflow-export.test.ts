@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WORKFLOW_EXPORT_VERSION,
+  exportWorkflowDocument,
+  parseWorkflowDocument,
+  remapWorkflowIds,
+} from './workflow-export';
+
+const workflow: any = {
+  id: 'wf-1',
+  name: 'Support triage',
+  description: 'Routes tickets',
+  version: '1.0.0',
+  nodes: [
+    {
+      id: 'trigger',
+      type: 'webhook_trigger',
+      name: 'Webhook',
+      category: 'triggers',
+      position: { x: 0, y: 0 },
+      inputs: [],
+      outputs: [{ id: 'output_data', name: 'data' }],
+      configuration: { path: '/tickets', secret: 'hunter2', auth: { apiKey: 'sk-123', header: 'X-Key' } },
+    },
+    {
+      id: 'llm',
+      type: 'llm',
+      name: 'Classify',
+      category: 'ai',
+      position: { x: 200, y: 0 },
+      inputs: [{ id: 'input_data', name: 'data' }],
+      outputs: [],
+      configuration: { model: 'gpt-4', credential_id: 'cred-openai' },
+    },
+  ],
+  connections: [
+    { id: 'conn-1', sourceNodeId: 'trigger', sourcePortId: 'output_data', targetNodeId: 'llm', targetPortId: 'input_data' },
+  ],
+  variables: [{ id: 'var-1', name: 'ticket', type: 'object', scope: 'global' }],
+  triggers: [{ id: 'trg-1', type: 'webhook', nodeId: 'trigger', configuration: {} }],
+  metadata: { tags: ['support'], created_at: '', updated_at: '', created_by: 'user-1' },
+};
+
+describe('exportWorkflowDocument', () => {
+  const document = exportWorkflowDocument(workflow, new Date('2024-03-01T00:00:00Z'));
+
+  it('should leave secrets out and list where they were', () => {
+    const trigger = document.workflow.nodes[0];
+
+    expect(trigger.configuration).toEqual({ path: '/tickets', auth: { header: 'X-Key' } });
+    expect(document.redactedFields).toEqual([
+      { nodeId: 'trigger', path: 'secret' },
+      { nodeId: 'trigger', path: 'auth.apiKey' },
+    ]);
+    expect(workflow.nodes[0].configuration.secret).toBe('hunter2');
+  });
+
+  it('should keep credential references', () => {
+    expect(document.credentials).toEqual([{ nodeId: 'llm', field: 'credential_id', credentialId: 'cred-openai' }]);
+    expect(document.workflow.nodes[1].configuration.credential_id).toBe('cred-openai');
+  });
+
+  it('should round-trip through JSON', () => {
+    const parsed = parseWorkflowDocument(JSON.stringify(document));
+
+    expect(parsed).toEqual(document);
+    expect(parsed.workflow.tags).toEqual(['support']);
+    expect(parsed.workflow.triggers).toEqual(workflow.triggers);
+  });
+});
+
+describe('parseWorkflowDocument', () => {
+  it('should migrate unversioned exports', () => {
+    const { metadata, ...legacy } = workflow;
+    const parsed = parseWorkflowDocument({ ...legacy, connections: undefined, edges: workflow.connections });
+
+    expect(parsed.version).toBe(WORKFLOW_EXPORT_VERSION);
+    expect(parsed.workflow.connections).toHaveLength(1);
+    expect(parsed.credentials).toHaveLength(1);
+  });
+
+  it('should reject newer versions and broken documents', () => {
+    const document = exportWorkflowDocument(workflow);
+
+    expect(() => parseWorkflowDocument({ ...document, version: 99 })).toThrow('newer than the supported version');
+    expect(() => parseWorkflowDocument('{')).toThrow('Invalid JSON');
+    expect(() =>
+      parseWorkflowDocument({ ...document, workflow: { ...document.workflow, name: '' } })
+    ).toThrow('workflow.name');
+    expect(() =>
+      parseWorkflowDocument({
+        ...document,
+        workflow: { ...document.workflow, connections: [{ id: 'c', sourceNodeId: 'trigger', targetNodeId: 'gone' }] },
+      })
+    ).toThrow('Connection c references missing node gone');
+  });
+});
+
+describe('remapWorkflowIds', () => {
+  it('should give everything new ids and keep references intact', () => {
+    let counter = 0;
+    const remapped = remapWorkflowIds(exportWorkflowDocument(workflow).workflow, kind => `${kind}-${++counter}`);
+
+    expect(remapped.nodes.map(node => node.id)).toEqual(['node-1', 'node-2']);
+    expect(remapped.connections[0]).toMatchObject({ id: 'conn-3', sourceNodeId: 'node-1', targetNodeId: 'node-2' });
+    expect(remapped.variables[0].id).toBe('var-4');
+    expect(remapped.triggers[0]).toMatchObject({ id: 'trigger-5', nodeId: 'node-1' });
+    expect(remapped.nodeIdMap).toEqual({ trigger: 'node-1', llm: 'node-2' });
+  });
+});
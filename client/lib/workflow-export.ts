@@ -0,0 +1,295 @@
+/**
+ * Workflow Export Format
+ * Versioned, schema-validated documents for moving workflows between accounts
+ */
+
+import { z } from 'zod';
+import { AgentWorkflow } from './workflow-types';
+
+export const WORKFLOW_EXPORT_FORMAT = 'agent-workflow';
+export const WORKFLOW_EXPORT_VERSION = 2;
+
+// Configuration fields holding secrets; they are left out of exports
+const SECRET_FIELD_PATTERN = /(password|passphrase|secret|token|api[_-]?key|access[_-]?key|private[_-]?key)$/i;
+// Configuration fields that point at stored credentials; the reference is exported, the secret is not
+const CREDENTIAL_FIELD_PATTERN = /^credentials?(_id|Id)?$/;
+
+const nodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  icon: z.string().optional(),
+  category: z.string().optional(),
+  position: z.object({ x: z.number(), y: z.number() }).optional(),
+  inputs: z.array(z.any()).default([]),
+  outputs: z.array(z.any()).default([]),
+  configuration: z.record(z.any()).default({}),
+  metadata: z.record(z.any()).optional()
+}).passthrough();
+
+const connectionSchema = z.object({
+  id: z.string().min(1),
+  sourceNodeId: z.string().min(1),
+  sourcePortId: z.string().optional(),
+  targetNodeId: z.string().min(1),
+  targetPortId: z.string().optional(),
+  metadata: z.record(z.any()).optional()
+}).passthrough();
+
+const credentialReferenceSchema = z.object({
+  nodeId: z.string(),
+  field: z.string(),
+  credentialId: z.string()
+});
+
+export const workflowExportSchema = z.object({
+  format: z.literal(WORKFLOW_EXPORT_FORMAT),
+  version: z.literal(WORKFLOW_EXPORT_VERSION),
+  exportedAt: z.string(),
+  workflow: z.object({
+    name: z.string().min(1),
+    description: z.string().default(''),
+    version: z.union([z.string(), z.number()]).optional(),
+    tags: z.array(z.string()).default([]),
+    nodes: z.array(nodeSchema),
+    connections: z.array(connectionSchema),
+    variables: z.array(z.record(z.any())).default([]),
+    triggers: z.array(z.record(z.any())).default([]),
+    // Workflow-level options such as the error workflow
+    settings: z.record(z.any()).default({})
+  }),
+  credentials: z.array(credentialReferenceSchema).default([]),
+  // Paths of secret configuration values that were left out and must be filled in after import
+  redactedFields: z.array(z.object({ nodeId: z.string(), path: z.string() })).default([])
+});
+
+export type WorkflowExportDocument = z.infer<typeof workflowExportSchema>;
+export type CredentialReference = z.infer<typeof credentialReferenceSchema>;
+
+export class WorkflowImportError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'WorkflowImportError';
+  }
+}
+
+/**
+ * Upgrades from each version to the next. Exports written before the format was
+ * versioned are the raw workflow object and count as version 1.
+ */
+const MIGRATIONS: Record<number, (document: any) => any> = {
+  1: (workflow: any) => ({
+    format: WORKFLOW_EXPORT_FORMAT,
+    version: 2,
+    exportedAt: workflow.metadata?.updated_at || workflow.metadata?.updatedAt || new Date().toISOString(),
+    workflow: {
+      name: workflow.name,
+      description: workflow.description || '',
+      version: workflow.version,
+      tags: workflow.metadata?.tags || workflow.tags || [],
+      nodes: workflow.nodes || [],
+      // Workflows from the simple builder call their connections edges
+      connections: workflow.connections || workflow.edges || [],
+      variables: workflow.variables || [],
+      triggers: workflow.triggers || [],
+      settings: workflow.settings || {}
+    },
+    credentials: collectCredentialReferences(workflow.nodes || []),
+    redactedFields: []
+  })
+};
+
+function getDocumentVersion(document: any): number {
+  if (document?.format === WORKFLOW_EXPORT_FORMAT) {
+    return Number(document.version);
+  }
+  // No envelope: a raw workflow from before versioning
+  return 1;
+}
+
+function collectCredentialReferences(nodes: any[]): CredentialReference[] {
+  const references: CredentialReference[] = [];
+
+  for (const node of nodes) {
+    for (const [field, value] of Object.entries<any>(node.configuration || {})) {
+      if (!CREDENTIAL_FIELD_PATTERN.test(field)) continue;
+
+      // n8n style `credentials: { type: id }` as well as a single id
+      const ids = value && typeof value === 'object' ? Object.values(value) : [value];
+      for (const credentialId of ids) {
+        if (typeof credentialId === 'string' && credentialId) {
+          references.push({ nodeId: node.id, field, credentialId });
+        }
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Deep copy of a configuration without its secret values, and the paths that were removed
+ */
+export function redactSecrets(configuration: Record<string, any>, path: string = ''): {
+  configuration: Record<string, any>;
+  redacted: string[];
+} {
+  const copy: Record<string, any> = {};
+  const redacted: string[] = [];
+
+  for (const [key, value] of Object.entries(configuration || {})) {
+    const fieldPath = path ? `${path}.${key}` : key;
+
+    if (SECRET_FIELD_PATTERN.test(key) && value !== undefined && value !== null && value !== '') {
+      redacted.push(fieldPath);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = redactSecrets(value, fieldPath);
+      copy[key] = nested.configuration;
+      redacted.push(...nested.redacted);
+    } else {
+      copy[key] = value === undefined ? value : JSON.parse(JSON.stringify(value));
+    }
+  }
+
+  return { configuration: copy, redacted };
+}
+
+/**
+ * Build the export document for a workflow. Secrets are left out; credential
+ * ids stay so the importing account can point them at its own credentials.
+ */
+export function exportWorkflowDocument(workflow: AgentWorkflow, exportedAt: Date = new Date()): WorkflowExportDocument {
+  const redactedFields: WorkflowExportDocument['redactedFields'] = [];
+
+  const nodes = workflow.nodes.map(node => {
+    const { configuration, redacted } = redactSecrets(node.configuration || {});
+    redactedFields.push(...redacted.map(path => ({ nodeId: node.id, path })));
+    return { ...JSON.parse(JSON.stringify(node)), configuration };
+  });
+
+  return {
+    format: WORKFLOW_EXPORT_FORMAT,
+    version: WORKFLOW_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    workflow: {
+      name: workflow.name,
+      description: workflow.description || '',
+      version: workflow.version,
+      tags: workflow.metadata?.tags || [],
+      nodes,
+      connections: JSON.parse(JSON.stringify(workflow.connections || [])),
+      variables: JSON.parse(JSON.stringify(workflow.variables || [])),
+      triggers: JSON.parse(JSON.stringify(workflow.triggers || [])),
+      settings: JSON.parse(JSON.stringify(workflow.settings || {}))
+    },
+    credentials: collectCredentialReferences(workflow.nodes),
+    redactedFields
+  };
+}
+
+/**
+ * Parse, migrate and validate an export document
+ */
+export function parseWorkflowDocument(data: string | Record<string, any>): WorkflowExportDocument {
+  let document: any;
+  try {
+    document = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch (error) {
+    throw new WorkflowImportError(`Invalid JSON: ${error.message}`);
+  }
+
+  if (!document || typeof document !== 'object') {
+    throw new WorkflowImportError('Workflow export must be a JSON object');
+  }
+
+  let version = getDocumentVersion(document);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new WorkflowImportError(`Unknown workflow export version: ${document.version}`);
+  }
+  if (version > WORKFLOW_EXPORT_VERSION) {
+    throw new WorkflowImportError(
+      `Workflow export version ${version} is newer than the supported version ${WORKFLOW_EXPORT_VERSION}`
+    );
+  }
+
+  while (version < WORKFLOW_EXPORT_VERSION) {
+    document = MIGRATIONS[version](document);
+    version = document.version;
+  }
+
+  const parsed = workflowExportSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new WorkflowImportError(
+      'Invalid workflow export',
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'document'}: ${issue.message}`)
+    );
+  }
+
+  const issues = validateReferences(parsed.data.workflow);
+  if (issues.length > 0) {
+    throw new WorkflowImportError('Invalid workflow export', issues);
+  }
+
+  return parsed.data;
+}
+
+function validateReferences(workflow: WorkflowExportDocument['workflow']): string[] {
+  const issues: string[] = [];
+  const nodeIds = new Set<string>();
+
+  for (const node of workflow.nodes) {
+    if (nodeIds.has(node.id)) {
+      issues.push(`Duplicate node id ${node.id}`);
+    }
+    nodeIds.add(node.id);
+  }
+
+  for (const connection of workflow.connections) {
+    for (const nodeId of [connection.sourceNodeId, connection.targetNodeId]) {
+      if (!nodeIds.has(nodeId)) {
+        issues.push(`Connection ${connection.id} references missing node ${nodeId}`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Give every node, connection, variable and trigger a fresh id so an import never
+ * collides with the workflow it came from. Triggers that point at a node follow
+ * it to its new id.
+ */
+export function remapWorkflowIds(
+  workflow: WorkflowExportDocument['workflow'],
+  createId: (kind: 'node' | 'conn' | 'var' | 'trigger') => string = kind =>
+    `${kind}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+): WorkflowExportDocument['workflow'] & { nodeIdMap: Record<string, string> } {
+  const nodeIdMap: Record<string, string> = {};
+  for (const node of workflow.nodes) {
+    nodeIdMap[node.id] = createId('node');
+  }
+
+  const withId = <T extends Record<string, any>>(item: T, kind: 'var' | 'trigger'): T =>
+    item.id ? { ...item, id: createId(kind) } : item;
+
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map(node => ({ ...node, id: nodeIdMap[node.id] })),
+    connections: workflow.connections.map(connection => ({
+      ...connection,
+      id: createId('conn'),
+      sourceNodeId: nodeIdMap[connection.sourceNodeId],
+      targetNodeId: nodeIdMap[connection.targetNodeId]
+    })),
+    variables: workflow.variables.map(variable => withId(variable, 'var')),
+    triggers: workflow.triggers.map(trigger => {
+      const remapped = withId(trigger, 'trigger');
+      return remapped.nodeId && nodeIdMap[remapped.nodeId]
+        ? { ...remapped, nodeId: nodeIdMap[remapped.nodeId] }
+        : remapped;
+    }),
+    nodeIdMap
+  };
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExpressionError,
+  buildNodeOutputs,
+  evaluateExpression,
+  getExpressionSuggestions,
+  resolveExpressions,
+  resolveTemplate
+} from './workflow-expressions';
+import { executionContextManager } from './execution-context-manager';
+
+const nodeOutputs = buildNodeOutputs(
+  [{ id: 'node-1', name: 'Fetch' }, { id: 'node-2', name: 'Pending' }],
+  new Map([['node-1', { items: [{ price: 10, name: 'Tea' }, { price: 4, name: 'Cake' }] }]])
+);
+
+describe('evaluateExpression', () => {
+  it('reads earlier node outputs by name and by id', () => {
+    expect(evaluateExpression('$node["Fetch"].output.items[0].price * 1.2', { nodeOutputs })).toBeCloseTo(12);
+    expect(evaluateExpression("$node['node-1'].output.items[-1].name", { nodeOutputs })).toBe('Cake');
+    expect(evaluateExpression('$node["Pending"].output.items', { nodeOutputs })).toBeUndefined();
+  });
+
+  it('supports operators, helpers and allowlisted methods', () => {
+    const scope = { input: { tags: ['a', 'b'], name: ' Ada ' }, variables: { limit: 3 } };
+
+    expect(evaluateExpression('length($json.tags) < $vars.limit && !isEmpty(tags)', scope)).toBe(true);
+    expect(evaluateExpression('upper(trim(name)) + "!"', scope)).toBe('ADA!');
+    expect(evaluateExpression('$json.tags.map ? 1 : $json.tags.join("-")', scope)).toBe('a-b');
+    expect(evaluateExpression('round(sum([1.25, 2]) , 1) ?? 0', scope)).toBe(3.3);
+    expect(evaluateExpression('$limit', scope)).toBe(3);
+  });
+
+  it('refuses to reach outside the data it is given', () => {
+    expect(() => evaluateExpression('$json.constructor', { input: {} })).toThrow(ExpressionError);
+    expect(() => evaluateExpression('name["__proto__"]', { input: { name: 'x' } })).toThrow(/not accessible/);
+    expect(() => evaluateExpression('name.constructor("return 1")()', { input: { name: 'x' } })).toThrow(ExpressionError);
+    expect(() => evaluateExpression('$json.tags.push(1)', { input: { tags: [] } })).toThrow(/not available/);
+    expect(evaluateExpression('toString', { input: {} })).toBeUndefined();
+  });
+
+  it('refuses to build oversized strings', () => {
+    const scope = { input: { name: 'Ada', tags: ['a', 'b'] }, variables: { huge: 1e9 } };
+
+    expect(evaluateExpression('name.padStart(5, "*") + name.repeat(2)', scope)).toBe('**AdaAdaAda');
+    expect(() => evaluateExpression('name.padStart($vars.huge)', scope)).toThrow(/longer than/);
+    expect(() => evaluateExpression('name.padEnd(1e9, "x")', scope)).toThrow(/longer than/);
+    expect(() => evaluateExpression('name.repeat(1e8)', scope)).toThrow(/longer than/);
+    expect(() => evaluateExpression('name.repeat(20000).replaceAll("", name.repeat(10))', scope)).toThrow(/longer than/);
+    expect(() => evaluateExpression('tags.join(name.repeat(60000))', scope)).toThrow(/longer than/);
+  });
+
+  it('counts the joined elements towards the length limit', () => {
+    const scope = { variables: { r: 'x'.repeat(99999) } };
+
+    expect(evaluateExpression('[$vars.r].join("")', scope)).toHaveLength(99999);
+    expect(() => evaluateExpression('[$vars.r, $vars.r, $vars.r].join("")', scope)).toThrow(/longer than/);
+  });
+
+  it('refuses to concatenate oversized strings', () => {
+    const scope = { variables: { r: 'x'.repeat(99999), short: 'x' } };
+
+    expect(evaluateExpression('$vars.r + $vars.short', scope)).toHaveLength(100000);
+    expect(evaluateExpression('1 + 2', scope)).toBe(3);
+    expect(() => evaluateExpression('$vars.r + $vars.r + $vars.r', scope)).toThrow(/longer than/);
+    expect(() => evaluateExpression('[$vars.r] + [$vars.r]', scope)).toThrow(/longer than/);
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(() => evaluateExpression('1 +', {})).toThrow(ExpressionError);
+    expect(() => evaluateExpression('a b', {})).toThrow(ExpressionError);
+  });
+});
+
+describe('templates', () => {
+  it('keeps the type of a single expression and renders mixed text', () => {
+    const scope = { nodeOutputs, input: { qty: 2 } };
+
+    expect(resolveTemplate('{{ $node["Fetch"].output.items }}', scope)).toHaveLength(2);
+    expect(resolveTemplate('{{ qty }}', scope)).toBe(2);
+    expect(resolveTemplate('Total: {{ $node["Fetch"].output.items[0].price * qty }} EUR', scope)).toBe('Total: 20 EUR');
+    expect(resolveTemplate('no expressions here', scope)).toBe('no expressions here');
+  });
+
+  it('resolves every string in a configuration', () => {
+    const config = { url: 'https://api/{{ $json.id }}', retries: 3, headers: [{ value: '{{ $vars.token }}' }] };
+
+    expect(resolveExpressions(config, { input: { id: 7 }, variables: { token: 'abc' } })).toEqual({
+      url: 'https://api/7',
+      retries: 3,
+      headers: [{ value: 'abc' }]
+    });
+  });
+});
+
+describe('scoped variables', () => {
+  it('reads manager scopes, decrypting by name and masking whole scopes', () => {
+    const workflowScope = executionContextManager.getWorkflowScope('wf-expr', 'exec-expr');
+    const conversationScope = executionContextManager.getConversationScope('conv-expr', workflowScope.id);
+    executionContextManager.setVariable(workflowScope.id, 'apiKey', 'secret', { encrypted: true });
+    executionContextManager.setVariable(conversationScope.id, 'customer', 'Ada');
+
+    const scope = { scopeIds: { workflow: workflowScope.id, conversation: conversationScope.id } };
+
+    expect(evaluateExpression('$workflow.apiKey', scope)).toBe('secret');
+    expect(evaluateExpression('$conversation.customer', scope)).toBe('Ada');
+    expect(evaluateExpression('$workflow', scope).apiKey).toBe('••••••');
+    expect(evaluateExpression('$session.anything', scope)).toBeUndefined();
+
+    executionContextManager.releaseScope(workflowScope.id);
+  });
+});
+
+describe('getExpressionSuggestions', () => {
+  const catalog = {
+    nodeNames: ['Fetch', 'Format'],
+    variables: { global: [{ name: 'companyName', type: 'string', readonly: true }] }
+  };
+
+  it('suggests nothing outside an expression', () => {
+    expect(getExpressionSuggestions('Hello $no', 9, catalog).suggestions).toEqual([]);
+    expect(getExpressionSuggestions('{{ a }} $no', 11, catalog).suggestions).toEqual([]);
+  });
+
+  it('suggests node names inside $node[...]', () => {
+    const text = '{{ $node["F';
+    const result = getExpressionSuggestions(text, text.length, catalog);
+
+    expect(result.suggestions.map(suggestion => suggestion.label)).toEqual(['Fetch', 'Format']);
+    expect(result.replaceFrom).toBe(text.length - 1);
+    expect(result.suggestions[0].insertText).toBe('Fetch"].output');
+  });
+
+  it('suggests scope variables, roots and helpers', () => {
+    const member = getExpressionSuggestions('{{ $global.co', 13, catalog);
+    expect(member.suggestions).toEqual([
+      { label: 'companyName', insertText: 'companyName', detail: 'string, readonly', kind: 'variable' }
+    ]);
+
+    const roots = getExpressionSuggestions('{{ $w', 5, catalog);
+    expect(roots.suggestions.map(suggestion => suggestion.label)).toEqual(['$workflow']);
+
+    const helpers = getExpressionSuggestions('{{ up', 5, catalog);
+    expect(helpers.suggestions.map(suggestion => suggestion.label)).toEqual(['upper()']);
+  });
+});
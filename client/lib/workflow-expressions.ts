@@ -0,0 +1,823 @@
+/**
+ * Workflow Expression Language
+ * Safe `{{ ... }}` expressions for node configuration fields, e.g.
+ * `{{ $node["Fetch"].output.items[0].price * 1.2 }}`. Expressions are parsed
+ * and interpreted here; nothing is passed to eval or Function.
+ */
+
+import { executionContextManager, type ScopeVariableInfo } from './execution-context-manager';
+
+export type ExpressionScopeName = 'global' | 'workflow' | 'conversation' | 'session';
+
+// Context manager scope ids an execution resolves `$global`, `$workflow`, ... through
+export type VariableScopeIds = Partial<Record<ExpressionScopeName, string>>;
+
+export interface ExpressionScope {
+  // Input of the node being configured, as `$json` / `$input`
+  input?: any;
+  // Workflow variables, as `$vars` and the legacy `$name` form
+  variables?: Record<string, any>;
+  // Outputs of finished nodes keyed by node name and id, as `$node`
+  nodeOutputs?: Record<string, any>;
+  scopeIds?: VariableScopeIds;
+  // Extra names callers make available, e.g. `data` or `index`
+  locals?: Record<string, any>;
+  nodeId?: string;
+  executionId?: string;
+  workflowId?: string;
+}
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly expression: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} at position ${position}` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_RESULT_LENGTH = 100_000;
+const MASKED_VALUE = '••••••';
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor', '__defineGetter__', '__defineSetter__']);
+
+const STRING_METHODS = new Set([
+  'toUpperCase', 'toLowerCase', 'trim', 'trimStart', 'trimEnd', 'includes', 'startsWith', 'endsWith',
+  'slice', 'substring', 'split', 'replace', 'replaceAll', 'indexOf', 'lastIndexOf', 'padStart', 'padEnd', 'charAt',
+  'repeat'
+]);
+const ARRAY_METHODS = new Set(['includes', 'indexOf', 'lastIndexOf', 'join', 'slice', 'concat']);
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision']);
+
+const HELPERS: Record<string, (...args: any[]) => any> = {
+  length: (value: any) => (value == null ? 0 : typeof value === 'object' && !Array.isArray(value) ? Object.keys(value).length : value.length ?? 0),
+  upper: (value: any) => String(value ?? '').toUpperCase(),
+  lower: (value: any) => String(value ?? '').toLowerCase(),
+  trim: (value: any) => String(value ?? '').trim(),
+  round: (value: any, digits: number = 0) => {
+    const factor = 10 ** digits;
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value: any) => Math.floor(Number(value)),
+  ceil: (value: any) => Math.ceil(Number(value)),
+  abs: (value: any) => Math.abs(Number(value)),
+  min: (...values: any[]) => Math.min(...values.flat().map(Number)),
+  max: (...values: any[]) => Math.max(...values.flat().map(Number)),
+  sum: (values: any[]) => (values || []).reduce((total, value) => total + Number(value || 0), 0),
+  number: (value: any) => Number(value),
+  string: (value: any) => (typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '')),
+  boolean: (value: any) => Boolean(value),
+  json: (value: any) => JSON.stringify(value),
+  parseJson: (value: any) => JSON.parse(String(value)),
+  keys: (value: any) => (value && typeof value === 'object' ? Object.keys(value) : []),
+  values: (value: any) => (value && typeof value === 'object' ? Object.values(value) : []),
+  first: (value: any) => (Array.isArray(value) ? value[0] : undefined),
+  last: (value: any) => (Array.isArray(value) ? value[value.length - 1] : undefined),
+  isEmpty: (value: any) =>
+    value == null || value === '' || (Array.isArray(value) ? value.length === 0 : typeof value === 'object' && Object.keys(value).length === 0),
+  now: () => new Date().toISOString()
+};
+
+export const EXPRESSION_HELPERS = Object.keys(HELPERS);
+
+export const EXPRESSION_ROOTS = [
+  { name: '$node', description: 'Outputs of earlier nodes, e.g. $node["Fetch"].output' },
+  { name: '$json', description: 'Input of this node' },
+  { name: '$vars', description: 'Workflow variables of this execution' },
+  { name: '$global', description: 'Global variables' },
+  { name: '$workflow', description: 'Variables of the workflow scope' },
+  { name: '$conversation', description: 'Variables of the conversation' },
+  { name: '$session', description: 'Variables of the session' },
+  { name: '$execution', description: 'Execution id and workflow id' }
+];
+
+/**
+ * Variables of one context manager scope. Reading a variable by name goes
+ * through the manager, so it is access-logged and decrypted; reading the
+ * whole scope masks encrypted values.
+ */
+class ScopeReader {
+  constructor(
+    private scopeId: string,
+    private options: { nodeId?: string; executionId?: string }
+  ) {}
+
+  get(name: string): any {
+    return executionContextManager.getVariable(this.scopeId, name, this.options);
+  }
+
+  toJSON(): Record<string, any> {
+    return Object.fromEntries(
+      executionContextManager
+        .describeVariables(this.scopeId)
+        .map(variable => [variable.name, variable.encrypted ? MASKED_VALUE : variable.value])
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punctuation' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (source[index] !== char) {
+        throw new ExpressionError('Unterminated string', source, start);
+      }
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if ('()[]{},.'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, source, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean }
+  | { type: 'call'; callee: ExpressionNode; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'object'; properties: Array<{ key: string; value: ExpressionNode }> };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+
+/**
+ * Parse an expression (without the surrounding braces) into a syntax tree
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`, source);
+  }
+
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+  const isToken = (value: string) => {
+    const token = peek();
+    return (token.type === 'punctuation' || token.type === 'operator') && token.value === value;
+  };
+  const expect = (value: string) => {
+    const token = next();
+    if (token.value !== value || token.type === 'string') {
+      throw new ExpressionError(`Expected "${value}" but found "${token.value || 'end of expression'}"`, source, token.position);
+    }
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(0);
+    if (isToken('?')) {
+      next();
+      const consequent = parseConditional();
+      expect(':');
+      const alternate = parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  };
+
+  const parseBinary = (minPrecedence: number): ExpressionNode => {
+    let left = parseUnary();
+
+    for (;;) {
+      const token = peek();
+      const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+      next();
+      const right = parseBinary(precedence);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isToken('!') || isToken('-') || isToken('+')) {
+      const operator = next().value;
+      return { type: 'unary', operator, argument: parseUnary() };
+    }
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (expression: ExpressionNode): ExpressionNode => {
+    for (;;) {
+      if (isToken('.')) {
+        next();
+        const token = next();
+        if (token.type !== 'identifier') {
+          throw new ExpressionError('Expected a property name', source, token.position);
+        }
+        expression = { type: 'member', object: expression, property: { type: 'literal', value: token.value }, computed: false };
+      } else if (isToken('[')) {
+        next();
+        const property = parseConditional();
+        expect(']');
+        expression = { type: 'member', object: expression, property, computed: true };
+      } else if (isToken('(')) {
+        next();
+        const args: ExpressionNode[] = [];
+        while (!isToken(')')) {
+          args.push(parseConditional());
+          if (!isToken(')')) expect(',');
+        }
+        expect(')');
+        expression = { type: 'call', callee: expression, args };
+      } else {
+        return expression;
+      }
+    }
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (token.value === 'undefined') return { type: 'literal', value: undefined };
+        return { type: 'identifier', name: token.value };
+      case 'punctuation':
+        if (token.value === '(') {
+          const expression = parseConditional();
+          expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          const elements: ExpressionNode[] = [];
+          while (!isToken(']')) {
+            elements.push(parseConditional());
+            if (!isToken(']')) expect(',');
+          }
+          expect(']');
+          return { type: 'array', elements };
+        }
+        if (token.value === '{') {
+          const properties: Array<{ key: string; value: ExpressionNode }> = [];
+          while (!isToken('}')) {
+            const key = next();
+            if (key.type !== 'identifier' && key.type !== 'string') {
+              throw new ExpressionError('Expected a property name', source, key.position);
+            }
+            expect(':');
+            properties.push({ key: key.value, value: parseConditional() });
+            if (!isToken('}')) expect(',');
+          }
+          expect('}');
+          return { type: 'object', properties };
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value || 'end of expression'}"`, source, token.position);
+  };
+
+  const expression = parseConditional();
+  if (peek().type !== 'eof') {
+    throw new ExpressionError(`Unexpected "${peek().value}"`, source, peek().position);
+  }
+  return expression;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+
+/**
+ * Evaluate an expression (without the surrounding braces)
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope = {}): any {
+  const tree = parseExpression(source);
+  return toPlainValue(evaluateNode(tree, scope, source));
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope, source: string): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return resolveIdentifier(node.name, scope);
+
+    case 'member': {
+      const object = evaluateNode(node.object, scope, source);
+      const property = evaluateNode(node.property, scope, source);
+      return readProperty(object, property, source);
+    }
+
+    case 'call':
+      return evaluateCall(node, scope, source);
+
+    case 'unary': {
+      const value = toPlainValue(evaluateNode(node.argument, scope, source));
+      if (node.operator === '!') return !value;
+      if (node.operator === '-') return -value;
+      return +value;
+    }
+
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, scope, source);
+
+    case 'conditional':
+      return evaluateNode(node.test, scope, source)
+        ? evaluateNode(node.consequent, scope, source)
+        : evaluateNode(node.alternate, scope, source);
+
+    case 'array':
+      return node.elements.map(element => toPlainValue(evaluateNode(element, scope, source)));
+
+    case 'object':
+      return Object.fromEntries(
+        node.properties
+          .filter(property => !BLOCKED_PROPERTIES.has(property.key))
+          .map(property => [property.key, toPlainValue(evaluateNode(property.value, scope, source))])
+      );
+  }
+}
+
+function evaluateBinary(
+  operator: string,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  scope: ExpressionScope,
+  source: string
+): any {
+  const left = toPlainValue(evaluateNode(leftNode, scope, source));
+
+  // Short-circuit operators only evaluate the right side when needed
+  if (operator === '&&') return left ? toPlainValue(evaluateNode(rightNode, scope, source)) : left;
+  if (operator === '||') return left ? left : toPlainValue(evaluateNode(rightNode, scope, source));
+  if (operator === '??') return left ?? toPlainValue(evaluateNode(rightNode, scope, source));
+
+  const right = toPlainValue(evaluateNode(rightNode, scope, source));
+
+  switch (operator) {
+    case '+':
+      if (concatenates(left, right) && String(left).length + String(right).length > MAX_RESULT_LENGTH) {
+        throw new ExpressionError(`"+" would build a value longer than ${MAX_RESULT_LENGTH} characters`, source);
+      }
+      return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return left / right;
+    case '%': return left % right;
+    // Loose equality follows the usual expectations of workflow authors ("5" == 5)
+    case '==': return left == right;
+    case '!=': return left != right;
+    case '===': return left === right;
+    case '!==': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+
+  throw new ExpressionError(`Unknown operator "${operator}"`, source);
+}
+
+// `+` joins strings as soon as one side is a string, array or object
+function concatenates(left: any, right: any): boolean {
+  return [left, right].some(value => typeof value === 'string' || (typeof value === 'object' && value !== null));
+}
+
+function evaluateCall(node: Extract<ExpressionNode, { type: 'call' }>, scope: ExpressionScope, source: string): any {
+  const args = () => node.args.map(arg => toPlainValue(evaluateNode(arg, scope, source)));
+
+  if (node.callee.type === 'identifier') {
+    const helper = Object.prototype.hasOwnProperty.call(HELPERS, node.callee.name) ? HELPERS[node.callee.name] : undefined;
+    if (!helper) {
+      throw new ExpressionError(`Unknown function "${node.callee.name}"`, source);
+    }
+    return helper(...args());
+  }
+
+  if (node.callee.type === 'member') {
+    const target = toPlainValue(evaluateNode(node.callee.object, scope, source));
+    const method = String(evaluateNode(node.callee.property, scope, source));
+    const allowed = typeof target === 'string'
+      ? STRING_METHODS
+      : Array.isArray(target)
+        ? ARRAY_METHODS
+        : typeof target === 'number'
+          ? NUMBER_METHODS
+          : undefined;
+
+    if (!allowed?.has(method)) {
+      throw new ExpressionError(`Method "${method}" is not available`, source);
+    }
+    const values = args();
+    if (resultLengthBound(target, method, values) > MAX_RESULT_LENGTH) {
+      throw new ExpressionError(`"${method}" would build a value longer than ${MAX_RESULT_LENGTH} characters`, source);
+    }
+    return (target as any)[method](...values);
+  }
+
+  throw new ExpressionError('Only functions and methods can be called', source);
+}
+
+/**
+ * Upper bound on the length of what a method builds, checked before calling it
+ * so an expression like `"x".padStart(1e9)` fails instead of allocating.
+ * Methods that only read or shrink their target return 0.
+ */
+function resultLengthBound(target: any, method: string, args: any[]): number {
+  switch (method) {
+    case 'padStart':
+    case 'padEnd':
+      return Number(args[0]) || 0;
+    case 'repeat':
+      return target.length * (Number(args[0]) || 0);
+    case 'replace':
+    case 'replaceAll': {
+      const pattern = String(args[0] ?? '');
+      const replacement = String(args[1] ?? '');
+      const matches = method === 'replace'
+        ? 1
+        : pattern ? Math.floor(target.length / pattern.length) : target.length + 1;
+      // Patterns like `$&` insert parts of the target into every replacement
+      const perMatch = replacement.includes('$') ? replacement.length * Math.max(1, target.length) : replacement.length;
+      return target.length + matches * perMatch;
+    }
+    case 'join': {
+      const separator = args[0] === undefined ? ',' : String(args[0]);
+      // null and undefined elements join as empty strings
+      const elements = target.reduce((total: number, item: any) => total + (item == null ? 0 : String(item).length), 0);
+      return elements + Math.max(0, target.length - 1) * separator.length;
+    }
+  }
+
+  return 0;
+}
+
+function resolveIdentifier(name: string, scope: ExpressionScope): any {
+  const scopeIds = scope.scopeIds || {};
+  const readerOptions = { nodeId: scope.nodeId, executionId: scope.executionId };
+
+  switch (name) {
+    case '$node':
+      return scope.nodeOutputs || {};
+    case '$json':
+    case '$input':
+      return scope.input;
+    case '$vars':
+      return scope.variables || {};
+    case '$execution':
+      return { id: scope.executionId, workflowId: scope.workflowId };
+    case '$global':
+      return new ScopeReader(scopeIds.global || 'global', readerOptions);
+    case '$workflow':
+    case '$conversation':
+    case '$session': {
+      const scopeId = scopeIds[name.slice(1) as ExpressionScopeName];
+      return scopeId ? new ScopeReader(scopeId, readerOptions) : {};
+    }
+  }
+
+  if (scope.locals && Object.prototype.hasOwnProperty.call(scope.locals, name)) {
+    return scope.locals[name];
+  }
+
+  // `$price` is the older way of writing a variable reference
+  const variableName = name.startsWith('$') ? name.slice(1) : name;
+  if (scope.variables && Object.prototype.hasOwnProperty.call(scope.variables, variableName)) {
+    return scope.variables[variableName];
+  }
+
+  if (!name.startsWith('$') && scope.input && typeof scope.input === 'object' &&
+      Object.prototype.hasOwnProperty.call(scope.input, name)) {
+    return scope.input[name];
+  }
+
+  return undefined;
+}
+
+function readProperty(object: any, property: any, source: string): any {
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Property "${key}" is not accessible`, source);
+  }
+
+  if (object instanceof ScopeReader) {
+    return object.get(key);
+  }
+
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  if (typeof object === 'string' || Array.isArray(object)) {
+    if (key === 'length') return object.length;
+    const index = Number(key);
+    return Number.isInteger(index) ? object[index < 0 ? object.length + index : index] : undefined;
+  }
+
+  if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)) {
+    return object[key];
+  }
+
+  return undefined;
+}
+
+function toPlainValue(value: any): any {
+  return value instanceof ScopeReader ? value.toJSON() : value;
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+
+export interface TemplateSegment {
+  type: 'text' | 'expression';
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a configuration value into literal text and `{{ ... }}` expressions.
+ * Braces inside quoted strings do not end an expression.
+ */
+export function splitTemplate(template: string): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let index = 0;
+
+  while (index < template.length) {
+    const open = template.indexOf('{{', index);
+    if (open === -1) break;
+
+    const close = findExpressionEnd(template, open + 2);
+    if (close === -1) break;
+
+    if (open > index) {
+      segments.push({ type: 'text', value: template.slice(index, open), start: index, end: open });
+    }
+    segments.push({ type: 'expression', value: template.slice(open + 2, close).trim(), start: open, end: close + 2 });
+    index = close + 2;
+  }
+
+  if (index < template.length) {
+    segments.push({ type: 'text', value: template.slice(index), start: index, end: template.length });
+  }
+
+  return segments;
+}
+
+function findExpressionEnd(template: string, from: number): number {
+  let quote: string | null = null;
+
+  for (let index = from; index < template.length; index++) {
+    const char = template[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '}' && template[index + 1] === '}') {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Whether a value contains at least one `{{ ... }}` expression
+ */
+export function hasExpression(value: any): boolean {
+  return typeof value === 'string' && splitTemplate(value).some(segment => segment.type === 'expression');
+}
+
+/**
+ * Resolve the expressions in a string. A value that is a single expression
+ * keeps the type of its result; anything else is rendered as text.
+ */
+export function resolveTemplate(template: string, scope: ExpressionScope = {}): any {
+  const segments = splitTemplate(template);
+  if (!segments.some(segment => segment.type === 'expression')) {
+    return template;
+  }
+
+  if (segments.length === 1) {
+    return evaluateExpression(segments[0].value, scope);
+  }
+
+  return segments
+    .map(segment => (segment.type === 'text' ? segment.value : renderValue(evaluateExpression(segment.value, scope))))
+    .join('');
+}
+
+/**
+ * Resolve the expressions in every string of a configuration object
+ */
+export function resolveExpressions<T>(value: T, scope: ExpressionScope = {}): T {
+  if (typeof value === 'string') {
+    return resolveTemplate(value, scope);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveExpressions(item, scope)) as any;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveExpressions(item, scope)])
+    ) as any;
+  }
+
+  return value;
+}
+
+function renderValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Outputs of finished nodes, reachable by node name and by id
+ */
+export function buildNodeOutputs(
+  nodes: Array<{ id: string; name?: string }>,
+  results: Map<string, any>
+): Record<string, { output: any }> {
+  const outputs: Record<string, { output: any }> = {};
+
+  for (const node of nodes) {
+    if (!results.has(node.id)) continue;
+    const entry = { output: results.get(node.id) };
+    outputs[node.id] = entry;
+    if (node.name) outputs[node.name] = entry;
+  }
+
+  return outputs;
+}
+
+// ---------------------------------------------------------------------------
+// Autocomplete
+
+export interface ExpressionSuggestion {
+  label: string;
+  // Text that replaces the partial word before the cursor
+  insertText: string;
+  detail?: string;
+  kind: 'root' | 'node' | 'variable' | 'function' | 'property';
+}
+
+export interface ExpressionCatalog {
+  nodeNames: string[];
+  variables: Partial<Record<'vars' | ExpressionScopeName, ScopeVariableInfo[] | Array<{ name: string; type?: string }>>>;
+}
+
+/**
+ * Suggestions for the expression the cursor is in, or none when the cursor is
+ * outside `{{ ... }}`
+ */
+export function getExpressionSuggestions(text: string, cursor: number, catalog: ExpressionCatalog): {
+  suggestions: ExpressionSuggestion[];
+  replaceFrom: number;
+} {
+  const before = text.slice(0, cursor);
+  const open = before.lastIndexOf('{{');
+  if (open === -1 || before.lastIndexOf('}}') > open) {
+    return { suggestions: [], replaceFrom: cursor };
+  }
+
+  const expression = before.slice(open + 2);
+
+  // $node["Par|  ->  node names
+  const nodeMatch = /\$node\[\s*["']([^"']*)$/.exec(expression);
+  if (nodeMatch) {
+    return {
+      replaceFrom: cursor - nodeMatch[1].length,
+      suggestions: catalog.nodeNames
+        .filter(name => name.toLowerCase().startsWith(nodeMatch[1].toLowerCase()))
+        .map(name => ({ label: name, insertText: `${name}"].output`, kind: 'node' as const }))
+    };
+  }
+
+  // $global.ab|  ->  variables of that scope
+  const memberMatch = /\$(vars|global|workflow|conversation|session)\.([A-Za-z0-9_]*)$/.exec(expression);
+  if (memberMatch) {
+    const [, scopeName, partial] = memberMatch;
+    const variables = catalog.variables[scopeName as keyof ExpressionCatalog['variables']] || [];
+    return {
+      replaceFrom: cursor - partial.length,
+      suggestions: variables
+        .filter(variable => variable.name.startsWith(partial))
+        .map(variable => ({
+          label: variable.name,
+          insertText: variable.name,
+          detail: describeVariable(variable),
+          kind: 'variable' as const
+        }))
+    };
+  }
+
+  // Start of a name  ->  roots and helper functions
+  const wordMatch = /(\$?[A-Za-z_][A-Za-z0-9_]*|\$)$/.exec(expression);
+  const partial = wordMatch ? wordMatch[1] : '';
+  if (wordMatch && /\.\s*$/.test(expression.slice(0, expression.length - partial.length))) {
+    return { suggestions: [], replaceFrom: cursor };
+  }
+
+  const suggestions: ExpressionSuggestion[] = [
+    ...EXPRESSION_ROOTS.map(root => ({
+      label: root.name,
+      insertText: root.name === '$node' ? '$node["' : root.name,
+      detail: root.description,
+      kind: 'root' as const
+    })),
+    ...EXPRESSION_HELPERS.map(helper => ({ label: `${helper}()`, insertText: `${helper}(`, kind: 'function' as const }))
+  ];
+
+  return {
+    replaceFrom: cursor - partial.length,
+    suggestions: suggestions.filter(suggestion => suggestion.label.startsWith(partial))
+  };
+}
+
+function describeVariable(variable: { type?: string; readonly?: boolean; encrypted?: boolean }): string {
+  return [variable.type, variable.readonly && 'readonly', variable.encrypted && 'encrypted']
+    .filter(Boolean)
+    .join(', ');
+}
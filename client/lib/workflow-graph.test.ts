@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getJoinBranchLimit,
+  getJoinConfig,
+  isEdgeSelected,
+  isJoinReady,
+  mapPortInputs,
+  resolvePortName,
+  selectPortOutput,
+} from './workflow-graph';
+
+const node = (id: string, inputs: string[] = [], outputs: string[] = []) => ({
+  id,
+  type: 'action',
+  inputs: inputs.map(name => ({ id: `input_${name}`, name })),
+  outputs: outputs.map(name => ({ id: `output_${name}`, name })),
+});
+
+describe('mapPortInputs', () => {
+  it('should give each input port the output of its own edge', () => {
+    const lookup = node('lookup', [], ['customer', 'order']);
+    const target = node('reply', ['customer', 'order']);
+    const results = new Map([['lookup', { customer: { name: 'Ada' }, order: { id: 7 } }]]);
+
+    const input = mapPortInputs(target, [lookup, target], [
+      { sourceNodeId: 'lookup', sourcePortId: 'output_customer', targetNodeId: 'reply', targetPortId: 'input_customer' },
+      { sourceNodeId: 'lookup', sourcePortId: 'output_order', targetNodeId: 'reply', targetPortId: 'input_order' },
+    ], results);
+
+    expect(input).toEqual({ customer: { name: 'Ada' }, order: { id: 7 } });
+  });
+
+  it('should keep fan-in branches apart instead of overwriting fields', () => {
+    const a = node('a', [], ['result']);
+    const b = node('b', [], ['result']);
+    const target = node('compare', ['left', 'right']);
+    const results = new Map([
+      ['a', { result: 'from a' }],
+      ['b', { result: 'from b' }],
+    ]);
+
+    const input = mapPortInputs(target, [a, b, target], [
+      { sourceNodeId: 'a', sourcePortId: 'output_result', targetNodeId: 'compare', targetPortId: 'input_left' },
+      { sourceNodeId: 'b', sourcePortId: 'output_result', targetNodeId: 'compare', targetPortId: 'input_right' },
+    ], results);
+
+    expect(input).toEqual({ left: 'from a', right: 'from b' });
+  });
+
+  it('should collect several edges into one port as an array', () => {
+    const target = node('collect', ['items']);
+    const results = new Map([
+      ['a', 1],
+      ['b', 2],
+      ['c', 3],
+    ]);
+
+    const input = mapPortInputs(target, [target], ['a', 'b', 'c'].map(sourceNodeId => ({
+      sourceNodeId,
+      sourcePortId: 'output',
+      targetNodeId: 'collect',
+      targetPortId: 'input_items',
+    })), results);
+
+    expect(input).toEqual({ items: [1, 2, 3] });
+  });
+
+  it('should merge whole results for edges without a declared port', () => {
+    const target = node('legacy');
+    const results = new Map([['a', { message: 'hi' }], ['b', { sender: 'ada' }]]);
+
+    const input = mapPortInputs(target, [target], [
+      { sourceNodeId: 'a', targetNodeId: 'legacy' },
+      { sourceNodeId: 'b', sourcePortId: 'out_1', targetNodeId: 'legacy', targetPortId: 'in_1' },
+      { sourceNodeId: 'missing', targetNodeId: 'legacy' },
+    ], results);
+
+    expect(input).toEqual({ message: 'hi', sender: 'ada' });
+  });
+});
+
+describe('ports', () => {
+  it('should resolve port names from ids', () => {
+    expect(resolvePortName([{ id: 'p-1', name: 'message' }], 'p-1')).toBe('message');
+    expect(resolvePortName(undefined, 'output_message')).toBe('message');
+    expect(resolvePortName(undefined, undefined)).toBeUndefined();
+  });
+
+  it('should fall back to the whole result for unknown output ports', () => {
+    expect(selectPortOutput({ message: 'hi' }, 'message')).toBe('hi');
+    expect(selectPortOutput({ message: 'hi' }, 'output')).toEqual({ message: 'hi' });
+    expect(selectPortOutput('text', 'message')).toBe('text');
+  });
+});
+
+describe('isEdgeSelected', () => {
+  it('should follow the port matching a boolean outcome', () => {
+    expect(isEdgeSelected({ result: true }, 'output_true', 'true')).toBe(true);
+    expect(isEdgeSelected({ result: true }, 'output_false', 'false')).toBe(false);
+    expect(isEdgeSelected(false, 'false')).toBe(true);
+    // Ports that are not branch ports always fire
+    expect(isEdgeSelected({ result: true }, 'output_next', 'next')).toBe(true);
+  });
+
+  it('should follow ports listed in nextNodes', () => {
+    expect(isEdgeSelected({ nextNodes: ['error'] }, 'error')).toBe(true);
+    expect(isEdgeSelected({ nextNodes: ['error'] }, 'p-1', 'output')).toBe(false);
+  });
+
+  it('should fire edges without a source port', () => {
+    expect(isEdgeSelected({ nextNodes: ['a'] })).toBe(true);
+  });
+});
+
+describe('join policies', () => {
+  it('should wait for every branch by default', () => {
+    const config = getJoinConfig({});
+
+    expect(config.policy).toBe('wait_all');
+    expect(isJoinReady(config, 2, 2, 3)).toBe(false);
+    expect(isJoinReady(config, 3, 3, 3)).toBe(true);
+  });
+
+  it('should fire on the first branch with wait_any', () => {
+    const config = getJoinConfig({ configuration: { policy: 'wait_any' } });
+
+    expect(isJoinReady(config, 0, 0, 3)).toBe(false);
+    expect(isJoinReady(config, 1, 1, 3)).toBe(true);
+    expect(getJoinBranchLimit(config)).toBe(1);
+  });
+
+  it('should fire after N branches with first_n', () => {
+    const config = getJoinConfig({ configuration: { policy: 'first_n', count: 2 } });
+
+    expect(isJoinReady(config, 1, 1, 3)).toBe(false);
+    expect(isJoinReady(config, 2, 2, 3)).toBe(true);
+    expect(getJoinBranchLimit(config)).toBe(2);
+  });
+
+  it('should fire once every branch settled even if too few produced results', () => {
+    const config = getJoinConfig({ configuration: { policy: 'first_n', count: 3 } });
+
+    expect(isJoinReady(config, 1, 3, 3)).toBe(true);
+  });
+});
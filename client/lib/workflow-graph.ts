@@ -0,0 +1,195 @@
+/**
+ * Workflow Graph Helpers
+ * Port-level data mapping and join readiness for the workflow executor
+ */
+
+export type JoinPolicy = 'wait_all' | 'wait_any' | 'first_n';
+
+export interface JoinConfig {
+  policy: JoinPolicy;
+  // Number of branches first_n waits for
+  count: number;
+}
+
+export const JOIN_NODE_TYPE = 'join';
+
+interface GraphPort {
+  id: string;
+  name?: string;
+}
+
+interface GraphNode {
+  id: string;
+  type: string;
+  inputs?: GraphPort[];
+  outputs?: GraphPort[];
+  configuration?: Record<string, any>;
+}
+
+interface GraphConnection {
+  sourceNodeId: string;
+  sourcePortId?: string;
+  targetNodeId: string;
+  targetPortId?: string;
+}
+
+export function isJoinNode(node?: { type: string }): boolean {
+  return node?.type === JOIN_NODE_TYPE;
+}
+
+export function getJoinConfig(node: { id?: string; configuration?: Record<string, any> }): JoinConfig {
+  const configuration = node.configuration || {};
+  const policy: JoinPolicy = ['wait_all', 'wait_any', 'first_n'].includes(configuration.policy)
+    ? configuration.policy
+    : 'wait_all';
+
+  return {
+    policy,
+    count: Math.max(1, Number(configuration.count) || 1),
+  };
+}
+
+/**
+ * Whether a join can fire. `arrived` counts upstream branches that produced a
+ * result, `settled` those that finished in any way; once every branch has
+ * settled the join fires with whatever arrived.
+ */
+export function isJoinReady(config: JoinConfig, arrived: number, settled: number, total: number): boolean {
+  if (settled >= total) {
+    return true;
+  }
+
+  switch (config.policy) {
+    case 'wait_any':
+      return arrived >= 1;
+    case 'first_n':
+      return arrived >= Math.min(config.count, total);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Number of branches a join consumes once it fires
+ */
+export function getJoinBranchLimit(config: JoinConfig): number {
+  switch (config.policy) {
+    case 'wait_any':
+      return 1;
+    case 'first_n':
+      return config.count;
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Port name for a port id. Builder ports carry a name; older workflows use
+ * ids like `output_message` or plain names.
+ */
+export function resolvePortName(ports: GraphPort[] | undefined, portId?: string): string | undefined {
+  if (!portId) {
+    return undefined;
+  }
+
+  const port = ports?.find(candidate => candidate.id === portId || candidate.name === portId);
+  if (port?.name) {
+    return port.name;
+  }
+
+  return portId.replace(/^(input|output)_/, '');
+}
+
+/**
+ * Value a source node sends through one of its output ports: the field named
+ * after the port when the result has one, otherwise the whole result
+ */
+export function selectPortOutput(result: any, portName?: string): any {
+  if (
+    portName &&
+    result &&
+    typeof result === 'object' &&
+    !Array.isArray(result) &&
+    Object.prototype.hasOwnProperty.call(result, portName)
+  ) {
+    return result[portName];
+  }
+
+  return result;
+}
+
+/**
+ * Whether an outgoing edge fires for a finished node's result. Nodes pick
+ * branches with `nextNodes` (output port ids or names) or with a boolean
+ * outcome that selects their `true` or `false` port. Edges leaving any other
+ * port, or without a port, always fire.
+ */
+export function isEdgeSelected(result: any, sourcePortId?: string, sourcePortName?: string): boolean {
+  const names = [sourcePortId, sourcePortName].filter(Boolean) as string[];
+  if (names.length === 0) {
+    return true;
+  }
+
+  if (result && typeof result === 'object' && Array.isArray(result.nextNodes)) {
+    return names.some(name => result.nextNodes.includes(name));
+  }
+
+  const outcome = typeof result === 'boolean'
+    ? result
+    : result && typeof result === 'object' && typeof result.result === 'boolean'
+      ? result.result
+      : undefined;
+
+  if (outcome !== undefined && names.some(name => name === 'true' || name === 'false')) {
+    return names.includes(String(outcome));
+  }
+
+  return true;
+}
+
+/**
+ * Build a node's input from its incoming edges. Each edge into a declared input
+ * port fills that port; several edges into one port collect into an array.
+ * Edges without a declared target port fall back to merging object results.
+ */
+export function mapPortInputs(
+  node: GraphNode,
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  nodeResults: Map<string, any>
+): Record<string, any> {
+  const input: Record<string, any> = {};
+  const edgesPerPort = new Map<string, number>();
+
+  connections
+    .filter(conn => conn.targetNodeId === node.id && nodeResults.has(conn.sourceNodeId))
+    .forEach(conn => {
+      const result = nodeResults.get(conn.sourceNodeId);
+      const targetPort = conn.targetPortId
+        ? node.inputs?.find(port => port.id === conn.targetPortId || port.name === conn.targetPortId)
+        : undefined;
+
+      if (!targetPort) {
+        if (result && typeof result === 'object' && !Array.isArray(result)) {
+          Object.assign(input, result);
+        }
+        return;
+      }
+
+      const sourceNode = nodes.find(candidate => candidate.id === conn.sourceNodeId);
+      const value = selectPortOutput(result, resolvePortName(sourceNode?.outputs, conn.sourcePortId));
+
+      const portName = targetPort.name || resolvePortName(node.inputs, targetPort.id)!;
+      const edges = edgesPerPort.get(portName) || 0;
+      if (edges === 0) {
+        input[portName] = value;
+      } else if (edges === 1) {
+        input[portName] = [input[portName], value];
+      } else {
+        input[portName].push(value);
+      }
+      edgesPerPort.set(portName, edges + 1);
+    });
+
+  return input;
+}
@@ -1,9 +1,16 @@
 /**
  * Base Node Classes for Workflow System
- * Provides foundation for all workflow node types
+ * Provides foundation for all workflow node types. Every node, built-in or from
+ * a custom node package, extends BaseWorkflowNode: declared ports, a JSON-schema
+ * configuration, validation, `execute(input, context)` and optional lifecycle
+ * hooks. BaseNode adapts nodes written against the step-style
+ * `run(NodeExecutionContext)` contract onto the same SDK.
  */
 
 import { WorkflowNode, NodePort, ValidationResult } from '@/lib/workflow-types';
+import type { WorkflowDebugSession } from '@/lib/workflow-debugger';
+import type { VariableScopeIds } from '@/lib/workflow-expressions';
+import { executionContextManager } from '@/lib/execution-context-manager';
 
 export abstract class BaseWorkflowNode {
   protected node: WorkflowNode;
@@ -42,6 +49,24 @@ export abstract class BaseWorkflowNode {
    */
   abstract getOutputPorts(): NodePort[];
 
+  /**
+   * Lifecycle hook called before every execution attempt
+   */
+  async beforeExecute(input: any, context: ExecutionContext): Promise<void> {}
+
+  /**
+   * Lifecycle hook called with the result of a successful execution; the
+   * returned value replaces the node output
+   */
+  async afterExecute(output: any, context: ExecutionContext): Promise<any> {
+    return output;
+  }
+
+  /**
+   * Lifecycle hook called once the node has finished, successfully or not
+   */
+  async dispose(context: ExecutionContext): Promise<void> {}
+
   /**
    * Get node metadata
    */
@@ -95,6 +120,205 @@ export abstract class BaseWorkflowNode {
   }
 }
 
+/**
+ * Run a node instance through its lifecycle hooks. Hooks are optional so
+ * plain objects with an `execute` method can still be run.
+ */
+export async function executeNodeLifecycle(
+  instance: Pick<BaseWorkflowNode, 'execute'> & Partial<Pick<BaseWorkflowNode, 'beforeExecute' | 'afterExecute' | 'dispose'>>,
+  input: any,
+  context: ExecutionContext
+): Promise<any> {
+  try {
+    await instance.beforeExecute?.(input, context);
+    const output = await instance.execute(input, context);
+    return instance.afterExecute ? await instance.afterExecute(output, context) : output;
+  } finally {
+    await instance.dispose?.(context);
+  }
+}
+
+export interface NodePortDefinition {
+  id: string;
+  name: string;
+  type: 'data' | 'flow';
+  required?: boolean;
+  dataType?: string;
+  description?: string;
+}
+
+export interface NodeExecutionContext {
+  data: any;
+  variables: Record<string, any>;
+  metadata: Record<string, any>;
+  // The workflow-level context the node runs in, when run by the executor
+  execution?: ExecutionContext;
+}
+
+export interface NodeExecutionResult {
+  success: boolean;
+  data?: any;
+  error?: string;
+  errorDetails?: any;
+  // Variables after the step; changed values are written back to the workflow
+  variables?: Record<string, any>;
+  // Output port ids the workflow continues through
+  nextNodes?: string[];
+  logs?: Array<{ level: string; message: string; timestamp: string }>;
+}
+
+export class NodeExecutionError extends Error {
+  constructor(message: string, public readonly details?: any, public readonly nextNodes: string[] = []) {
+    super(message);
+    this.name = 'NodeExecutionError';
+  }
+}
+
+/**
+ * Base class for step-style nodes: they keep their settings in `config`,
+ * declare ports as `inputs`/`outputs` and implement `run`, returning a
+ * NodeExecutionResult. The SDK methods are derived from those members.
+ */
+export abstract class BaseNode extends BaseWorkflowNode {
+  abstract type: string;
+  abstract name: string;
+  abstract description: string;
+  abstract category: string;
+
+  id: string;
+  position: { x: number; y: number };
+  config: Record<string, any> = {};
+  inputs: NodePortDefinition[] = [];
+  outputs: NodePortDefinition[] = [];
+
+  constructor(nodeOrId: WorkflowNode | string, position: { x: number; y: number } = { x: 0, y: 0 }) {
+    const node: WorkflowNode = typeof nodeOrId === 'string'
+      ? { id: nodeOrId, type: '', name: '', category: '', position, configuration: {} } as any
+      : nodeOrId;
+    super(node);
+    this.id = node.id;
+    this.position = node.position || position;
+  }
+
+  /**
+   * Execute one step of the node
+   */
+  abstract run(context: NodeExecutionContext): Promise<NodeExecutionResult>;
+
+  /**
+   * Check the node settings, returning readable error messages
+   */
+  abstract checkConfiguration(): { isValid: boolean; errors: string[] };
+
+  async execute(input: any, context: ExecutionContext): Promise<any> {
+    this.applyConfiguration();
+
+    const result = await this.run({
+      data: input,
+      variables: context.variables,
+      metadata: context.metadata,
+      execution: context
+    });
+
+    for (const [name, value] of Object.entries(result.variables || {})) {
+      if (context.getVariable(name) !== value) {
+        context.setVariable(name, value);
+      }
+    }
+
+    for (const entry of result.logs || []) {
+      const level = entry.level === 'error' || entry.level === 'warn' ? entry.level : 'info';
+      context.log(level, entry.message);
+    }
+
+    if (!result.success) {
+      throw new NodeExecutionError(result.error || `${this.name} failed`, result.errorDetails, result.nextNodes);
+    }
+
+    const output = result.data && typeof result.data === 'object' && !Array.isArray(result.data)
+      ? { ...result.data }
+      : { output: result.data };
+
+    return result.nextNodes ? { ...output, nextNodes: result.nextNodes } : output;
+  }
+
+  validate(): ValidationResult {
+    this.applyConfiguration();
+    const { errors } = this.checkConfiguration();
+
+    return {
+      isValid: errors.length === 0,
+      errors: errors.map(message => ({
+        nodeId: this.id,
+        type: 'invalid_configuration',
+        message,
+        severity: 'error'
+      })),
+      warnings: []
+    } as ValidationResult;
+  }
+
+  getConfigurationSchema(): any {
+    const properties: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(this.getDefaultConfiguration())) {
+      properties[key] = {
+        type: Array.isArray(value) ? 'array' : value === null ? 'object' : typeof value,
+        title: key,
+        default: value
+      };
+    }
+
+    return { type: 'object', properties };
+  }
+
+  getDefaultConfiguration(): Record<string, any> {
+    return JSON.parse(JSON.stringify(this.config));
+  }
+
+  getInputPorts(): NodePort[] {
+    return this.inputs.map(port => this.toNodePort(port));
+  }
+
+  getOutputPorts(): NodePort[] {
+    return this.outputs.map(port => this.toNodePort(port));
+  }
+
+  getMetadata() {
+    return {
+      id: this.id,
+      type: this.type as WorkflowNode['type'],
+      name: this.name,
+      category: this.category,
+      version: this.node.metadata?.version || '1.0.0'
+    };
+  }
+
+  updateConfiguration(config: Record<string, any>) {
+    this.config = { ...this.config, ...config };
+    super.updateConfiguration(config);
+  }
+
+  /**
+   * Overlay the saved workflow node configuration on the node defaults
+   */
+  protected applyConfiguration(): void {
+    this.config = { ...this.config, ...(this.node.configuration || {}) };
+  }
+
+  private toNodePort(port: NodePortDefinition): NodePort {
+    return {
+      id: port.id,
+      name: port.name,
+      type: port.type === 'flow' ? 'control' : 'data',
+      dataType: port.dataType || 'any',
+      required: port.required || false,
+      description: port.description || '',
+      connected: false
+    };
+  }
+}
+
 export interface ExecutionContext {
   workflowId: string;
   executionId: string;
@@ -119,6 +343,10 @@ export class WorkflowExecutionContext implements ExecutionContext {
   agentId?: string;
   conversationId?: string;
   metadata: Record<string, any>;
+  // Set when running under the workflow debugger; subworkflow executions reuse it
+  debugSession?: WorkflowDebugSession;
+  // Context manager scopes the execution's variables live in
+  scopeIds?: VariableScopeIds;
   
   private logs: Array<{ level: string; message: string; data?: any; timestamp: string }> = [];
   private events: Array<{ event: string; data: any; timestamp: string }> = [];
@@ -131,6 +359,8 @@ export class WorkflowExecutionContext implements ExecutionContext {
     agentId?: string;
     conversationId?: string;
     metadata?: Record<string, any>;
+    debugSession?: WorkflowDebugSession;
+    scopeIds?: VariableScopeIds;
   }) {
     this.workflowId = params.workflowId;
     this.executionId = params.executionId;
@@ -139,14 +369,38 @@ export class WorkflowExecutionContext implements ExecutionContext {
     this.agentId = params.agentId;
     this.conversationId = params.conversationId;
     this.metadata = params.metadata || {};
+    this.debugSession = params.debugSession;
+    this.scopeIds = params.scopeIds;
   }
 
   setVariable(name: string, value: any): void {
+    const scopeId = this.scopeIds?.workflow;
+    if (scopeId) {
+      const existing = executionContextManager.getVariableInfo(scopeId, name);
+      if (existing?.readonly) {
+        throw new Error(`Variable ${name} is readonly`);
+      }
+
+      executionContextManager.setVariable(scopeId, name, value, {
+        encrypted: existing?.encrypted,
+        executionId: this.executionId
+      });
+
+      // Encrypted values stay in the scope only, out of checkpoints and execution records
+      if (existing?.encrypted) {
+        return;
+      }
+    }
+
     this.variables[name] = value;
   }
 
   getVariable(name: string): any {
-    return this.variables[name];
+    if (name in this.variables || !this.scopeIds?.workflow) {
+      return this.variables[name];
+    }
+
+    return executionContextManager.getVariable(this.scopeIds.workflow, name, { executionId: this.executionId });
   }
 
   log(level: 'info' | 'warn' | 'error', message: string, data?: any): void {
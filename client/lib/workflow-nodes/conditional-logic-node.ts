@@ -4,6 +4,7 @@
  */
 
 import { BaseNode, NodeExecutionContext, NodeExecutionResult } from './base-node';
+import { WorkflowNode } from '@/lib/workflow-types';
 
 export interface Condition {
   id: string;
@@ -68,8 +69,8 @@ export class ConditionalLogicNode extends BaseNode {
     }
   };
 
-  constructor(id: string, position: { x: number; y: number }) {
-    super(id, position);
+  constructor(nodeOrId: WorkflowNode | string, position?: { x: number; y: number }) {
+    super(nodeOrId, position);
     this.outputs = [
       {
         id: 'default',
@@ -79,7 +80,7 @@ export class ConditionalLogicNode extends BaseNode {
     ];
   }
 
-  async execute(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  async run(context: NodeExecutionContext): Promise<NodeExecutionResult> {
     try {
       const { data, variables } = context;
       
@@ -296,7 +297,7 @@ export class ConditionalLogicNode extends BaseNode {
     this.outputs = this.outputs.filter(output => output.id !== pathId);
   }
 
-  validate(): { isValid: boolean; errors: string[] } {
+  checkConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Check if there are condition groups
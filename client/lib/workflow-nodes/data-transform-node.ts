@@ -4,6 +4,12 @@
  */
 
 import { BaseNode, NodeExecutionContext, NodeExecutionResult } from './base-node';
+import { WorkflowNode } from '@/lib/workflow-types';
+import {
+  evaluateExpression as evaluateSharedExpression,
+  hasExpression,
+  resolveTemplate
+} from '@/lib/workflow-expressions';
 
 export type TransformOperation = 
   | 'map'
@@ -63,8 +69,8 @@ export class DataTransformNode extends BaseNode {
     batchProcessing: false
   };
 
-  constructor(id: string, position: { x: number; y: number }) {
-    super(id, position);
+  constructor(nodeOrId: WorkflowNode | string, position?: { x: number; y: number }) {
+    super(nodeOrId, position);
     
     this.inputs = [
       {
@@ -89,7 +95,7 @@ export class DataTransformNode extends BaseNode {
     ];
   }
 
-  async execute(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  async run(context: NodeExecutionContext): Promise<NodeExecutionResult> {
     try {
       const { data, variables } = context;
       let transformedData = this.config.preserveOriginal ? { ...data } : {};
@@ -561,23 +567,12 @@ export class DataTransformNode extends BaseNode {
   }
 
   private evaluateExpression(expression: string, data: any, variables: Record<string, any>): any {
-    // Simple expression evaluator - in a real implementation, you'd use a proper parser
     try {
-      // Replace field references with actual values
-      let processedExpression = expression;
-      
-      // Replace data field references (e.g., data.field)
-      processedExpression = processedExpression.replace(/data\.(\w+)/g, (match, field) => {
-        return JSON.stringify(data[field]);
-      });
-      
-      // Replace variable references (e.g., $var)
-      processedExpression = processedExpression.replace(/\$(\w+)/g, (match, varName) => {
-        return JSON.stringify(variables[varName]);
-      });
-      
-      // Basic math operations
-      return Function(`"use strict"; return (${processedExpression})`)();
+      // Accepts a bare expression or one wrapped in {{ }}; `data` is the item being transformed
+      const scope = { input: data, variables, locals: { data } };
+      return hasExpression(expression)
+        ? resolveTemplate(expression, scope)
+        : evaluateSharedExpression(expression, scope);
     } catch (error) {
       throw new Error(`Expression evaluation failed: ${error.message}`);
     }
@@ -675,7 +670,7 @@ export class DataTransformNode extends BaseNode {
     this.config.transformRules = this.config.transformRules.filter(rule => rule.id !== ruleId);
   }
 
-  validate(): { isValid: boolean; errors: string[] } {
+  checkConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     if (this.config.transformRules.length === 0) {
@@ -4,7 +4,23 @@
  */
 
 // Base classes
-export { BaseWorkflowNode, ExecutionContext, WorkflowExecutionContext } from './base-node';
+export {
+  BaseWorkflowNode,
+  BaseNode,
+  WorkflowExecutionContext,
+  NodeExecutionError,
+  executeNodeLifecycle
+} from './base-node';
+export type {
+  ExecutionContext,
+  NodeExecutionContext,
+  NodeExecutionResult,
+  NodePortDefinition
+} from './base-node';
+
+// Node SDK
+export { NodeRegistrationError, validateAgainstSchema, schemaToConfigFields } from './node-sdk';
+export type { NodeCategory, NodeClass, NodeDefinition, NodePackage } from './node-sdk';
 
 // Trigger nodes
 export { MessageTriggerNode, WebhookTriggerNode, ScheduleTriggerNode } from './trigger-node';
@@ -18,6 +34,9 @@ export { ConditionNode, SentimentAnalysisNode } from './condition-node';
 // Integration nodes
 export { WhatsAppIntegrationNode, KnowledgeBaseNode } from './integration-node';
 
+// Wait nodes
+export { WaitNode, HumanHandoffNode } from './wait-node';
+
 // Response nodes
 export { ResponseNode, ErrorResponseNode, RedirectResponseNode } from './response-node';
 
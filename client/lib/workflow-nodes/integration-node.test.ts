@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { searchKnowledgeBase, generateChatCompletion } = vi.hoisted(() => ({
+  searchKnowledgeBase: vi.fn(),
+  generateChatCompletion: vi.fn()
+}));
+
+vi.mock('@/lib/knowledge-base-service', () => ({ searchKnowledgeBase }));
+vi.mock('@/lib/ai-service', () => ({ aiService: { generateChatCompletion } }));
+
+import { KnowledgeBaseNode } from './integration-node';
+import { WorkflowExecutionContext } from './base-node';
+
+const chunk = (id: string, scores: Record<string, number>, metadata: Record<string, any> = {}) => ({
+  chunkId: id,
+  documentId: `doc-${id}`,
+  documentName: `Guide ${id}`,
+  knowledgeBaseId: 'kb-1',
+  content: `Content of chunk ${id}`,
+  metadata,
+  score: scores.fused ?? scores.vector ?? scores.keyword,
+  scores
+});
+
+const createNode = (configuration: Record<string, any>) =>
+  new KnowledgeBaseNode({
+    id: 'kb-node',
+    type: 'knowledge_base',
+    name: 'Lookup',
+    category: 'integrations',
+    configuration
+  } as any);
+
+const context = () =>
+  new WorkflowExecutionContext({ workflowId: 'wf-1', executionId: 'exec-1', userId: 'user-1' });
+
+describe('KnowledgeBaseNode', () => {
+  beforeEach(() => {
+    searchKnowledgeBase.mockReset();
+    generateChatCompletion.mockReset();
+  });
+
+  it('searches the configured knowledge bases with top-k, confidence and metadata filters', async () => {
+    searchKnowledgeBase.mockResolvedValue({
+      chunks: [chunk('1', { vector: 0.91 }, { page: 2 }), chunk('2', { vector: 0.75 })]
+    });
+    const node = createNode({
+      knowledge_base_id: 'kb-1',
+      knowledge_base_ids: ['kb-2', 'kb-1'],
+      max_results: 3,
+      min_confidence: 0.7,
+      metadata_filters: { language: 'en' }
+    });
+
+    const output = await node.execute({ query: 'How do I reset?', filters: { product: 'pro' } }, context());
+
+    expect(searchKnowledgeBase).toHaveBeenCalledWith(
+      ['kb-2', 'kb-1'],
+      'How do I reset?',
+      3,
+      { minSimilarity: 0.7, metadata: { language: 'en', product: 'pro' } },
+      { mode: 'vector' }
+    );
+    expect(output.results).toHaveLength(2);
+    expect(output.results[0]).toMatchObject({ id: '1', title: 'Guide 1', confidence: 0.91, metadata: { page: 2 } });
+    expect(output.confidence).toBeCloseTo(0.83);
+    expect(output.hasResults).toBe(true);
+    expect(output.answer).toBeNull();
+    expect(generateChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('drops hybrid matches without enough similarity', async () => {
+    searchKnowledgeBase.mockResolvedValue({
+      chunks: [
+        chunk('1', { vector: 0.8, keyword: 0.3, fused: 0.03 }),
+        chunk('2', { keyword: 0.5, fused: 0.02 }),
+        chunk('3', { vector: 0.4, fused: 0.01 })
+      ]
+    });
+    const node = createNode({ knowledge_base_id: 'kb-1', search_type: 'hybrid', min_confidence: 0.6 });
+
+    const output = await node.execute({ message: 'refunds' }, context());
+
+    expect(output.results.map((result: any) => result.id)).toEqual(['1']);
+  });
+
+  it('synthesizes an answer citing the sources it used', async () => {
+    searchKnowledgeBase.mockResolvedValue({
+      chunks: [chunk('1', { vector: 0.9 }), chunk('2', { vector: 0.85 })]
+    });
+    generateChatCompletion.mockResolvedValue({ content: 'Hold the button for 5 seconds [2].' });
+    const node = createNode({ knowledge_base_id: 'kb-1', synthesize_answer: true, answer_model: 'gpt-4' });
+    const executionContext = context();
+
+    const output = await node.execute({ query: 'How do I reset?' }, executionContext);
+
+    const [messages, options] = generateChatCompletion.mock.calls[0];
+    expect(messages[0].content).toContain('[2] (Guide 2)');
+    expect(messages[1]).toEqual({ role: 'user', content: 'How do I reset?' });
+    expect(options.model).toBe('gpt-4');
+    expect(output.answer).toBe('Hold the button for 5 seconds [2].');
+    expect(output.citations).toEqual([
+      expect.objectContaining({ marker: 2, documentId: 'doc-2', chunkId: '2' })
+    ]);
+    expect(executionContext.getVariable('kb_answer')).toBe(output.answer);
+  });
+
+  it('reports retrieval failures', async () => {
+    searchKnowledgeBase.mockRejectedValue(new Error('permission denied'));
+    const node = createNode({ knowledge_base_id: 'kb-1' });
+
+    await expect(node.execute({ query: 'anything' }, context())).rejects.toThrow(
+      'Knowledge base search failed: permission denied'
+    );
+  });
+});
@@ -5,6 +5,22 @@
 
 import { BaseWorkflowNode, ExecutionContext } from './base-node';
 import { NodePort, ValidationResult } from '@/lib/workflow-types';
+import { searchKnowledgeBase } from '@/lib/knowledge-base-service';
+import type { RetrievalMode, RetrievedChunk } from '@/lib/knowledge-base-retrieval';
+import { aiService } from '@/lib/ai-service';
+import { buildGroundedContext, resolveCitations, type Citation } from '@/lib/citations';
+
+type KnowledgeBaseSearchType = 'semantic' | 'keyword' | 'hybrid';
+
+const SEARCH_MODES: Record<KnowledgeBaseSearchType, RetrievalMode> = {
+  semantic: 'vector',
+  keyword: 'keyword',
+  hybrid: 'hybrid'
+};
+
+function getChunkConfidence(chunk: RetrievedChunk): number | null {
+  return chunk.scores.rerank ?? chunk.scores.vector ?? null;
+}
 
 export class WhatsAppIntegrationNode extends BaseWorkflowNode {
   async execute(input: any, context: ExecutionContext): Promise<any> {
@@ -168,41 +184,59 @@ export class KnowledgeBaseNode extends BaseWorkflowNode {
     context.log('info', 'Knowledge Base node executing', { input });
 
     const query = input.query || input.message || '';
-    const knowledgeBaseId = this.node.configuration.knowledge_base_id;
+    const knowledgeBaseIds = this.getKnowledgeBaseIds();
     const maxResults = this.node.configuration.max_results || 5;
-    const minConfidence = this.node.configuration.min_confidence || 0.7;
+    const minConfidence = this.node.configuration.min_confidence ?? 0.7;
+    const searchType: KnowledgeBaseSearchType = this.node.configuration.search_type || 'semantic';
+    const metadataFilters = {
+      ...(this.node.configuration.metadata_filters || {}),
+      ...(input.filters || {})
+    };
 
     if (!query) {
       throw new Error('Query is required for knowledge base search');
     }
 
-    if (!knowledgeBaseId) {
+    if (knowledgeBaseIds.length === 0) {
       throw new Error('Knowledge base ID is required');
     }
 
     try {
       const results = await this.searchKnowledgeBase({
         query,
-        knowledgeBaseId,
+        knowledgeBaseIds,
         maxResults,
-        minConfidence
+        minConfidence,
+        searchType,
+        metadataFilters
       });
 
+      const synthesized = this.node.configuration.synthesize_answer && results.chunks.length > 0
+        ? await this.synthesizeAnswer(query, results.chunks)
+        : { answer: null, citations: [] as Citation[] };
+
       context.setVariable('kb_results', results.results);
       context.setVariable('kb_confidence', results.confidence);
       context.setVariable('kb_query', query);
+      if (synthesized.answer !== null) {
+        context.setVariable('kb_answer', synthesized.answer);
+      }
 
       context.emit('knowledge_base_searched', {
         query,
+        knowledgeBaseIds,
         resultsCount: results.results.length,
-        confidence: results.confidence
+        confidence: results.confidence,
+        answered: synthesized.answer !== null
       });
 
       return {
         results: results.results,
         confidence: results.confidence,
         query,
-        hasResults: results.results.length > 0
+        hasResults: results.results.length > 0,
+        answer: synthesized.answer,
+        citations: synthesized.citations
       };
     } catch (error) {
       context.log('error', 'Knowledge base search failed', { error: error.message });
@@ -210,61 +244,113 @@ export class KnowledgeBaseNode extends BaseWorkflowNode {
     }
   }
 
+  /**
+   * Knowledge bases to search, from the multi-select list or the single id
+   */
+  private getKnowledgeBaseIds(): string[] {
+    const { knowledge_base_id, knowledge_base_ids } = this.node.configuration;
+    const ids = [...(Array.isArray(knowledge_base_ids) ? knowledge_base_ids : [])];
+    if (knowledge_base_id) {
+      ids.push(knowledge_base_id);
+    }
+    return Array.from(new Set(ids.filter(Boolean)));
+  }
+
+  /**
+   * Search the user's document chunks. Confidence is the reranker score when a
+   * reranker is configured, otherwise vector similarity; keyword search has no
+   * similarity, so the minimum confidence only applies to semantic and hybrid
+   * searches, where keyword-only matches are dropped.
+   */
   private async searchKnowledgeBase(params: {
     query: string;
-    knowledgeBaseId: string;
+    knowledgeBaseIds: string[];
     maxResults: number;
     minConfidence: number;
-  }): Promise<{ results: any[]; confidence: number }> {
-    // Simulate knowledge base search
-    await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 700));
-
-    // Mock search results
-    const mockResults = [
+    searchType: KnowledgeBaseSearchType;
+    metadataFilters: Record<string, any>;
+  }): Promise<{ results: any[]; chunks: RetrievedChunk[]; confidence: number }> {
+    const mode = SEARCH_MODES[params.searchType] || 'vector';
+
+    const retrieval = await searchKnowledgeBase(
+      params.knowledgeBaseIds,
+      params.query,
+      params.maxResults,
       {
-        id: '1',
-        title: 'Getting Started Guide',
-        content: 'This is a comprehensive guide to getting started with our platform...',
-        confidence: 0.95,
-        source: 'documentation'
+        minSimilarity: mode === 'keyword' ? undefined : params.minConfidence,
+        metadata: Object.keys(params.metadataFilters).length > 0 ? params.metadataFilters : undefined
       },
-      {
-        id: '2',
-        title: 'FAQ - Common Issues',
-        content: 'Here are answers to frequently asked questions...',
-        confidence: 0.87,
-        source: 'faq'
-      },
-      {
-        id: '3',
-        title: 'API Reference',
-        content: 'Complete API documentation and examples...',
-        confidence: 0.82,
-        source: 'api_docs'
-      }
-    ];
-
-    // Filter by confidence and limit results
-    const filteredResults = mockResults
-      .filter(result => result.confidence >= params.minConfidence)
-      .slice(0, params.maxResults);
-
-    const avgConfidence = filteredResults.length > 0
-      ? filteredResults.reduce((sum, r) => sum + r.confidence, 0) / filteredResults.length
+      { mode }
+    );
+
+    const chunks = retrieval.chunks.filter(chunk => {
+      if (mode === 'keyword') return true;
+      const confidence = getChunkConfidence(chunk);
+      return confidence !== null && confidence >= params.minConfidence;
+    });
+
+    const includeMetadata = this.node.configuration.include_metadata !== false;
+    const results = chunks.map(chunk => ({
+      id: chunk.chunkId,
+      documentId: chunk.documentId,
+      title: chunk.documentName,
+      content: chunk.content,
+      confidence: getChunkConfidence(chunk),
+      score: chunk.score,
+      source: chunk.knowledgeBaseId,
+      ...(includeMetadata ? { metadata: chunk.metadata } : {})
+    }));
+
+    const confidences = results
+      .map(result => result.confidence)
+      .filter((confidence): confidence is number => confidence !== null);
+    const avgConfidence = confidences.length > 0
+      ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
       : 0;
 
     return {
-      results: filteredResults,
+      results,
+      chunks,
       confidence: avgConfidence
     };
   }
 
+  /**
+   * Answer the query from the retrieved chunks, keeping the sources the model cited
+   */
+  private async synthesizeAnswer(
+    query: string,
+    chunks: RetrievedChunk[]
+  ): Promise<{ answer: string; citations: Citation[] }> {
+    const grounding = buildGroundedContext(chunks);
+    const instructions = this.node.configuration.answer_instructions;
+
+    const response = await aiService.generateChatCompletion(
+      [
+        {
+          role: 'system',
+          content: instructions ? `${instructions}\n\n${grounding.prompt}` : grounding.prompt
+        },
+        { role: 'user', content: query }
+      ],
+      {
+        model: this.node.configuration.answer_model || 'gpt-3.5-turbo',
+        temperature: this.node.configuration.answer_temperature ?? 0.2,
+        max_tokens: this.node.configuration.answer_max_tokens || 500
+      }
+    );
+
+    return {
+      answer: response.content,
+      citations: resolveCitations(response.content, grounding.citations)
+    };
+  }
+
   validate(): ValidationResult {
     const errors: any[] = [];
     const warnings: any[] = [];
 
-    const knowledgeBaseId = this.node.configuration.knowledge_base_id;
-    if (!knowledgeBaseId) {
+    if (this.getKnowledgeBaseIds().length === 0) {
       errors.push({
         nodeId: this.node.id,
         type: 'missing_configuration',
@@ -317,6 +403,12 @@ export class KnowledgeBaseNode extends BaseWorkflowNode {
           default: 5,
           description: 'Maximum number of results to return'
         },
+        knowledge_base_ids: {
+          type: 'array',
+          title: 'Additional Knowledge Bases',
+          items: { type: 'string' },
+          description: 'Other knowledge bases to search at the same time'
+        },
         min_confidence: {
           type: 'number',
           title: 'Min Confidence',
@@ -337,9 +429,31 @@ export class KnowledgeBaseNode extends BaseWorkflowNode {
           title: 'Include Metadata',
           default: true,
           description: 'Include document metadata in results'
+        },
+        metadata_filters: {
+          type: 'object',
+          title: 'Metadata Filters',
+          description: 'Only return chunks whose metadata contains these values, e.g. {"language": "en"}'
+        },
+        synthesize_answer: {
+          type: 'boolean',
+          title: 'Synthesize Answer',
+          default: false,
+          description: 'Answer the query from the results, with citations to the sources used'
+        },
+        answer_model: {
+          type: 'string',
+          title: 'Answer Model',
+          default: 'gpt-3.5-turbo',
+          description: 'Model used to synthesize the answer'
+        },
+        answer_instructions: {
+          type: 'string',
+          title: 'Answer Instructions',
+          format: 'textarea',
+          description: 'Extra instructions for the synthesized answer'
         }
-      },
-      required: ['knowledge_base_id']
+      }
     };
   }
 
@@ -348,13 +462,17 @@ export class KnowledgeBaseNode extends BaseWorkflowNode {
       max_results: 5,
       min_confidence: 0.7,
       search_type: 'semantic',
-      include_metadata: true
+      include_metadata: true,
+      metadata_filters: {},
+      synthesize_answer: false,
+      answer_model: 'gpt-3.5-turbo'
     };
   }
 
   getInputPorts(): NodePort[] {
     return [
       this.createPort('query', 'data', 'string', true, 'The search query'),
+      this.createPort('filters', 'data', 'object', false, 'Metadata filters added to the configured ones'),
       this.createPort('trigger', 'control', 'any', true, 'Control flow input')
     ];
   }
@@ -364,6 +482,8 @@ export class KnowledgeBaseNode extends BaseWorkflowNode {
       this.createPort('results', 'data', 'array', true, 'Search results from knowledge base'),
       this.createPort('confidence', 'data', 'number', false, 'Average confidence of results'),
       this.createPort('hasResults', 'data', 'boolean', false, 'Whether any results were found'),
+      this.createPort('answer', 'data', 'string', false, 'Answer synthesized from the results'),
+      this.createPort('citations', 'data', 'array', false, 'Sources cited by the answer'),
       this.createPort('next', 'control', 'any', true, 'Control flow output')
     ];
   }
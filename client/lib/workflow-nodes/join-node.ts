@@ -0,0 +1,113 @@
+/**
+ * Join Node for Workflow System
+ * Waits for parallel branches and combines their results
+ */
+
+import { BaseWorkflowNode, ExecutionContext } from './base-node';
+import { NodePort, ValidationResult } from '@/lib/workflow-types';
+import { getJoinConfig } from '@/lib/workflow-graph';
+
+export class JoinNode extends BaseWorkflowNode {
+  /**
+   * The executor decides when the join fires and passes the branches it
+   * consumes as `branches`, keyed by source node id in arrival order
+   */
+  async execute(input: any, context: ExecutionContext): Promise<any> {
+    const branches: Record<string, any> = input.branches || {};
+    const results = Object.values(branches);
+    const { policy } = getJoinConfig(this.node);
+
+    context.log('info', 'Join node combining branches', {
+      policy,
+      branches: Object.keys(branches)
+    });
+
+    const merged = results.reduce<Record<string, any>>((acc, result) => {
+      if (result && typeof result === 'object' && !Array.isArray(result)) {
+        Object.assign(acc, result);
+      }
+      return acc;
+    }, {});
+
+    return {
+      branches,
+      results,
+      merged,
+      count: results.length
+    };
+  }
+
+  validate(): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    const { policy, count } = this.node.configuration;
+    if (policy && !['wait_all', 'wait_any', 'first_n'].includes(policy)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: `Unknown join policy: ${policy}`,
+        severity: 'error'
+      });
+    }
+
+    if (policy === 'first_n' && !(Number(count) >= 1)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: 'Branch count must be at least 1 for the first_n policy',
+        severity: 'error'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  getConfigurationSchema(): any {
+    return {
+      type: 'object',
+      properties: {
+        policy: {
+          type: 'string',
+          title: 'Join Policy',
+          enum: ['wait_all', 'wait_any', 'first_n'],
+          default: 'wait_all',
+          description: 'Wait for every branch, the first branch, or the first N branches'
+        },
+        count: {
+          type: 'number',
+          title: 'Branch Count',
+          minimum: 1,
+          default: 2,
+          description: 'Branches to wait for with the first_n policy'
+        }
+      },
+      required: ['policy']
+    };
+  }
+
+  getDefaultConfiguration(): Record<string, any> {
+    return {
+      policy: 'wait_all',
+      count: 2
+    };
+  }
+
+  getInputPorts(): NodePort[] {
+    return [
+      this.createPort('branches', 'data', 'object', true, 'Results of the incoming branches')
+    ];
+  }
+
+  getOutputPorts(): NodePort[] {
+    return [
+      this.createPort('merged', 'data', 'object', true, 'Branch results merged into one object'),
+      this.createPort('results', 'data', 'array', false, 'Branch results in arrival order'),
+      this.createPort('branches', 'data', 'object', false, 'Branch results keyed by source node')
+    ];
+  }
+}
@@ -4,15 +4,22 @@
  */
 
 import { BaseNode, NodeExecutionContext, NodeExecutionResult } from './base-node';
+import { WorkflowNode } from '@/lib/workflow-types';
+import { createCodeSandbox, getSandboxPolicy, type CodeSandbox, type SandboxPermissions } from '../code-sandbox';
 
 export interface JSNodeConfig {
   code: string;
   timeout: number;
+  memoryLimitMb: number;
+  // Requested only; the sandbox policy decides what is granted
+  permissions: Pick<SandboxPermissions, 'network' | 'fs'>;
   allowedModules: string[];
-  sandboxed: boolean;
   returnVariable: string;
 }
 
+// Code nodes can be written by non-admin members, so they always run isolated
+const sandbox: CodeSandbox = createCodeSandbox();
+
 export class JSNode extends BaseNode {
   type = 'javascript';
   name = 'JavaScript';
@@ -22,13 +29,17 @@ export class JSNode extends BaseNode {
   config: JSNodeConfig = {
     code: '// Your JavaScript code here\nreturn data;',
     timeout: 5000,
+    memoryLimitMb: 64,
+    permissions: {
+      network: false,
+      fs: false
+    },
     allowedModules: [],
-    sandboxed: true,
     returnVariable: 'result'
   };
 
-  constructor(id: string, position: { x: number; y: number }) {
-    super(id, position);
+  constructor(nodeOrId: WorkflowNode | string, position?: { x: number; y: number }) {
+    super(nodeOrId, position);
     
     this.inputs = [
       {
@@ -53,92 +64,62 @@ export class JSNode extends BaseNode {
     ];
   }
 
-  async execute(context: NodeExecutionContext): Promise<NodeExecutionResult> {
-    try {
-      const { data, variables } = context;
-      
-      // Create execution context
-      const executionContext = {
-        data,
-        variables,
-        console: {
-          log: (...args: any[]) => console.log('[JS Node]', ...args),
-          error: (...args: any[]) => console.error('[JS Node]', ...args),
-          warn: (...args: any[]) => console.warn('[JS Node]', ...args)
-        },
-        Math,
-        Date,
-        JSON,
-        String,
-        Number,
-        Boolean,
-        Array,
-        Object
-      };
+  async run(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+    const { data, variables } = context;
+
+    const result = await sandbox.run(
+      this.config.code,
+      { data, variables },
+      {
+        timeoutMs: this.config.timeout,
+        memoryLimitMb: this.config.memoryLimitMb,
+        permissions: this.config.permissions
+      }
+    );
 
-      // Execute code with timeout
-      const result = await this.executeWithTimeout(
-        this.config.code,
-        executionContext,
-        this.config.timeout
-      );
+    // Console output from the user code becomes part of the execution logs
+    const consoleLogs = result.logs.map(entry => ({
+      level: entry.level === 'error' || entry.level === 'warn' ? entry.level : 'info',
+      message: `[console.${entry.level}] ${entry.message}`,
+      timestamp: entry.timestamp
+    }));
 
+    if (result.success) {
       return {
         success: true,
-        data: result,
+        data: result.value,
         nextNodes: ['output'],
-        logs: [{
-          level: 'info',
-          message: 'JavaScript code executed successfully',
-          timestamp: new Date().toISOString()
-        }]
+        logs: [
+          ...consoleLogs,
+          {
+            level: 'info',
+            message: `JavaScript code executed successfully in ${result.durationMs}ms`,
+            timestamp: new Date().toISOString()
+          }
+        ]
       };
+    }
 
-    } catch (error) {
-      return {
-        success: false,
-        error: error.message,
-        data: context.data,
-        nextNodes: ['error'],
-        logs: [{
+    const location = result.error.line ? ` (line ${result.error.line})` : '';
+
+    return {
+      success: false,
+      error: result.error.message,
+      errorDetails: result.error,
+      data: context.data,
+      nextNodes: ['error'],
+      logs: [
+        ...consoleLogs,
+        {
           level: 'error',
-          message: `JavaScript execution failed: ${error.message}`,
+          message: `JavaScript ${result.error.type} error${location}: ${result.error.message}`,
           timestamp: new Date().toISOString()
-        }]
-      };
-    }
-  }
-
-  private async executeWithTimeout(
-    code: string,
-    context: any,
-    timeout: number
-  ): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error(`Code execution timed out after ${timeout}ms`));
-      }, timeout);
-
-      try {
-        // Create function with context
-        const func = new Function(
-          ...Object.keys(context),
-          code
-        );
-
-        // Execute function
-        const result = func(...Object.values(context));
-        
-        clearTimeout(timer);
-        resolve(result);
-      } catch (error) {
-        clearTimeout(timer);
-        reject(error);
-      }
-    });
+        }
+      ]
+    };
   }
 
-  validate(): { isValid: boolean; errors: string[] } {
+  checkConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     if (!this.config.code.trim()) {
@@ -149,9 +130,19 @@ export class JSNode extends BaseNode {
       errors.push('Timeout must be positive');
     }
 
-    // Basic syntax check
+    if (this.config.memoryLimitMb < 8) {
+      errors.push('Memory limit must be at least 8MB');
+    }
+
+    const { maxMemoryLimitMb } = getSandboxPolicy();
+    if (this.config.memoryLimitMb > maxMemoryLimitMb) {
+      errors.push(`Memory limit must be at most ${maxMemoryLimitMb}MB`);
+    }
+
+    // Syntax check only; the code is compiled the same way the sandbox wraps it, never run
     try {
-      new Function(this.config.code);
+      const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+      new AsyncFunction('data', 'variables', 'console', this.config.code);
     } catch (error) {
       errors.push(`Syntax error: ${error.message}`);
     }
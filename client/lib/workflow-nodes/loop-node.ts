@@ -4,6 +4,7 @@
  */
 
 import { BaseNode, NodeExecutionContext, NodeExecutionResult } from './base-node';
+import { WorkflowNode } from '@/lib/workflow-types';
 
 export type LoopType = 'for' | 'while' | 'for_each' | 'until';
 
@@ -70,8 +71,8 @@ export class LoopNode extends BaseNode {
 
   private executionState: LoopExecutionState | null = null;
 
-  constructor(id: string, position: { x: number; y: number }) {
-    super(id, position);
+  constructor(nodeOrId: WorkflowNode | string, position?: { x: number; y: number }) {
+    super(nodeOrId, position);
     
     this.inputs = [
       {
@@ -101,7 +102,7 @@ export class LoopNode extends BaseNode {
     ];
   }
 
-  async execute(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  async run(context: NodeExecutionContext): Promise<NodeExecutionResult> {
     try {
       const { data, variables } = context;
       
@@ -439,7 +440,7 @@ export class LoopNode extends BaseNode {
     }
   }
 
-  validate(): { isValid: boolean; errors: string[] } {
+  checkConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Validate based on loop type
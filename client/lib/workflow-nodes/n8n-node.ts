@@ -4,6 +4,7 @@
  */
 
 import { BaseNode, NodeExecutionContext, NodeExecutionResult } from './base-node';
+import { WorkflowNode } from '@/lib/workflow-types';
 import { n8nService, type N8NWorkflow, type N8NExecution } from '../n8n-service';
 
 export interface N8NNodeConfig {
@@ -66,8 +67,8 @@ export class N8NNode extends BaseNode {
     templateVariables: {}
   };
 
-  constructor(id: string, position: { x: number; y: number }) {
-    super(id, position);
+  constructor(nodeOrId: WorkflowNode | string, position?: { x: number; y: number }) {
+    super(nodeOrId, position);
     
     this.inputs = [
       {
@@ -108,7 +109,7 @@ export class N8NNode extends BaseNode {
     ];
   }
 
-  async execute(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  async run(context: NodeExecutionContext): Promise<NodeExecutionResult> {
     try {
       const { data, variables } = context;
 
@@ -499,7 +500,7 @@ export class N8NNode extends BaseNode {
     }
   }
 
-  validate(): { isValid: boolean; errors: string[] } {
+  checkConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Check if N8N service is available
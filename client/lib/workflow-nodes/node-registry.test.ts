@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: { from: vi.fn() } }));
+vi.mock('../workflow-builder-service', () => ({ workflowBuilderService: { loadWorkflow: vi.fn() } }));
+vi.mock('../workflow-executor', () => ({ workflowExecutor: { executeWorkflow: vi.fn() } }));
+vi.mock('../n8n-service', () => ({ n8nService: {} }));
+vi.mock('../whatsapp-enhanced', () => ({ enhancedWhatsAppService: {} }));
+
+import { BaseWorkflowNode, WorkflowExecutionContext, executeNodeLifecycle } from './base-node';
+import { NodeRegistry } from './node-registry';
+import { NodeRegistrationError, validateAgainstSchema } from './node-sdk';
+
+const hooks: string[] = [];
+
+class GreetingNode extends BaseWorkflowNode {
+  async beforeExecute() {
+    hooks.push('before');
+  }
+
+  async execute(input: any) {
+    hooks.push('execute');
+    return { greeting: `${this.node.configuration.prefix} ${input.name}` };
+  }
+
+  async afterExecute(output: any) {
+    hooks.push('after');
+    return { ...output, decorated: true };
+  }
+
+  async dispose() {
+    hooks.push('dispose');
+  }
+
+  validate() {
+    return { isValid: true, errors: [], warnings: [] } as any;
+  }
+
+  getConfigurationSchema() {
+    return {
+      type: 'object',
+      properties: {
+        prefix: { type: 'string', title: 'Prefix', minLength: 1 },
+        tone: { type: 'string', title: 'Tone', enum: ['formal', 'casual'] }
+      },
+      required: ['prefix']
+    };
+  }
+
+  getDefaultConfiguration() {
+    return { prefix: 'Hello', tone: 'casual' };
+  }
+
+  getInputPorts() {
+    return [this.createPort('name', 'data', 'string', true)];
+  }
+
+  getOutputPorts() {
+    return [this.createPort('greeting', 'data', 'string')];
+  }
+}
+
+const greetingPackage = (name = 'acme-nodes', type = 'acme_greeting') => ({
+  name,
+  version: '1.0.0',
+  nodes: [{ type, name: 'Greeting', description: 'Greets people', category: 'actions' as const, nodeClass: GreetingNode }]
+});
+
+const workflowNode = (type: string, configuration: Record<string, any> = {}) =>
+  ({ id: `${type}-1`, type, name: type, category: 'actions', configuration } as any);
+
+const context = () =>
+  new WorkflowExecutionContext({ workflowId: 'wf-1', executionId: 'exec-1', userId: 'user-1' });
+
+describe('NodeRegistry', () => {
+  let registry: NodeRegistry;
+
+  beforeEach(() => {
+    registry = new NodeRegistry();
+    hooks.length = 0;
+  });
+
+  it('registers step-style nodes alongside the other built-in nodes', () => {
+    expect(registry.isRegistered('message_trigger')).toBe(true);
+    expect(registry.isRegistered('conditional_logic')).toBe(true);
+
+    const loop = registry.createNodeInstance(workflowNode('loop', { maxIterations: 5 }));
+    expect(loop).toBeInstanceOf(BaseWorkflowNode);
+    expect(loop!.getOutputPorts().map(port => port.id)).toEqual(['loop_body', 'completed', 'error']);
+  });
+
+  it('runs step-style nodes through the execute contract and routes by their next ports', async () => {
+    const node = registry.createNodeInstance(workflowNode('conditional_logic'))!;
+
+    const output = await node.execute({ message: 'hi' }, context());
+
+    expect(output).toMatchObject({ message: 'hi', nextNodes: ['default'] });
+    expect(output.conditionResult.matched).toBe(false);
+  });
+
+  it('registers custom node packages and describes them for the palette', () => {
+    const listener = vi.fn();
+    registry.subscribe(listener);
+
+    registry.registerPackage(greetingPackage());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(registry.getDefinition('acme_greeting')?.package).toBe('acme-nodes');
+
+    const template = registry.getNodeTemplates().find(t => t.id === 'acme_greeting');
+    expect(template).toMatchObject({ category: 'Actions', provider: 'acme-nodes', defaultConfig: { prefix: 'Hello' } });
+    expect(template!.configSchema.map(field => [field.name, field.type, field.required])).toEqual([
+      ['prefix', 'text', true],
+      ['tone', 'select', false]
+    ]);
+  });
+
+  it('rejects packages that take over another owner\'s node types', () => {
+    expect(() => registry.registerPackage(greetingPackage('acme-nodes', 'loop'))).toThrow(NodeRegistrationError);
+
+    registry.registerPackage(greetingPackage());
+    expect(() => registry.registerPackage(greetingPackage('other-nodes'))).toThrow(/already registered by acme-nodes/);
+  });
+
+  it('rejects node classes that do not implement the SDK contract', () => {
+    class Incomplete {}
+
+    expect(() => registry.registerPackage({
+      name: 'broken',
+      version: '1.0.0',
+      nodes: [{ type: 'broken_node', name: 'Broken', description: '', category: 'actions', nodeClass: Incomplete as any }]
+    })).toThrow(/does not implement execute/);
+    expect(registry.isRegistered('broken_node')).toBe(false);
+  });
+
+  it('removes a package\'s node types when it is unregistered', () => {
+    registry.registerPackage(greetingPackage());
+
+    expect(registry.unregisterPackage('acme-nodes')).toBe(true);
+    expect(registry.isRegistered('acme_greeting')).toBe(false);
+    expect(registry.getPackages()).toEqual([]);
+  });
+
+  it('validates node configuration against the node schema', () => {
+    registry.registerPackage(greetingPackage());
+
+    const result = registry.validateNode(workflowNode('acme_greeting', { prefix: '', tone: 'angry' }));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(error => error.message)).toEqual([
+      'Prefix is required',
+      'prefix must be at least 1 characters',
+      'tone must be one of formal, casual'
+    ]);
+  });
+
+  it('runs lifecycle hooks around execution', async () => {
+    registry.registerPackage(greetingPackage());
+    const node = registry.createNodeInstance(workflowNode('acme_greeting', { prefix: 'Hi' }))!;
+
+    const output = await executeNodeLifecycle(node, { name: 'Ada' }, context());
+
+    expect(output).toEqual({ greeting: 'Hi Ada', decorated: true });
+    expect(hooks).toEqual(['before', 'execute', 'after', 'dispose']);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('checks types of nested values', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        retries: { type: 'integer', minimum: 0 },
+        headers: { type: 'object', properties: { auth: { type: 'string' } } },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    };
+
+    expect(validateAgainstSchema(schema, { retries: 1.5, headers: { auth: 1 }, tags: ['a', 2] })).toEqual([
+      'retries must be of type integer',
+      'headers.auth must be of type string',
+      'tags[1] must be of type string'
+    ]);
+  });
+});
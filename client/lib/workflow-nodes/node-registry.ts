@@ -4,6 +4,17 @@
  */
 
 import { BaseWorkflowNode } from './base-node';
+import {
+  NodeCategory,
+  NodeClass,
+  NodeDefinition,
+  NodePackage,
+  NodeRegistrationError,
+  assertValidDefinition,
+  createProbeNode,
+  definitionToTemplate,
+  validateAgainstSchema
+} from './node-sdk';
 import { MessageTriggerNode, WebhookTriggerNode, ScheduleTriggerNode } from './trigger-node';
 import { AIResponseNode, SendMessageNode } from './action-node';
 import { ConditionNode, SentimentAnalysisNode } from './condition-node';
@@ -14,13 +25,19 @@ import { LoopNode } from './loop-node';
 import { DataTransformNode } from './data-transform-node';
 import { JSNode } from './js-node';
 import { SubworkflowNode } from './subworkflow-node';
+import { JoinNode } from './join-node';
+import { WaitNode, HumanHandoffNode } from './wait-node';
 import { WhatsAppNode } from './whatsapp-node';
 import { N8NNode } from './n8n-node';
-import { WorkflowNode } from '@/lib/workflow-types';
+import { NodeTemplate, ValidationResult, WorkflowNode } from '@/lib/workflow-types';
+
+type BuiltInNode = Omit<NodeDefinition, 'type' | 'nodeClass'>;
 
 export class NodeRegistry {
   private static instance: NodeRegistry;
-  private nodeClasses: Map<string, typeof BaseWorkflowNode> = new Map();
+  private definitions: Map<string, NodeDefinition> = new Map();
+  private packages: Map<string, NodePackage> = new Map();
+  private listeners: Set<() => void> = new Set();
 
   static getInstance(): NodeRegistry {
     if (!NodeRegistry.instance) {
@@ -37,133 +54,432 @@ export class NodeRegistry {
    * Register default node types
    */
   private registerDefaultNodes(): void {
+    const builtIn = (nodeType: string, nodeClass: NodeClass, definition: BuiltInNode) =>
+      this.registerDefinition({ ...definition, type: nodeType, nodeClass });
+
     // Trigger nodes
-    this.register('message_trigger', MessageTriggerNode);
-    this.register('webhook_trigger', WebhookTriggerNode);
-    this.register('schedule_trigger', ScheduleTriggerNode);
+    builtIn('message_trigger', MessageTriggerNode, {
+      name: 'Message Trigger',
+      description: 'Starts the workflow when a user sends a message',
+      category: 'triggers',
+      icon: '💬',
+      tags: ['messaging', 'trigger']
+    });
+    builtIn('webhook_trigger', WebhookTriggerNode, {
+      name: 'Webhook Trigger',
+      description: 'Starts the workflow when an HTTP request arrives',
+      category: 'triggers',
+      icon: '🪝',
+      tags: ['webhook', 'http', 'trigger'],
+      setupComplexity: 'medium'
+    });
+    builtIn('schedule_trigger', ScheduleTriggerNode, {
+      name: 'Schedule Trigger',
+      description: 'Starts the workflow on a cron schedule or interval',
+      category: 'triggers',
+      icon: '⏰',
+      tags: ['schedule', 'cron', 'trigger']
+    });
 
     // Action nodes
-    this.register('ai_response', AIResponseNode);
-    this.register('send_message', SendMessageNode);
+    builtIn('ai_response', AIResponseNode, {
+      name: 'AI Response',
+      description: 'Generate an AI-powered response',
+      category: 'actions',
+      icon: '🤖',
+      tags: ['ai', 'response'],
+      setupComplexity: 'medium',
+      requirements: ['AI provider API key']
+    });
+    builtIn('send_message', SendMessageNode, {
+      name: 'Send Message',
+      description: 'Send a message to the user',
+      category: 'actions',
+      icon: '📤',
+      tags: ['message', 'send']
+    });
 
     // Condition nodes
-    this.register('condition', ConditionNode);
-    this.register('sentiment_analysis', SentimentAnalysisNode);
-    this.register('conditional_logic', ConditionalLogicNode);
+    builtIn('condition', ConditionNode, {
+      name: 'Condition',
+      description: 'Route the workflow on a true/false condition',
+      category: 'logic',
+      icon: '🔀',
+      tags: ['logic', 'condition']
+    });
+    builtIn('sentiment_analysis', SentimentAnalysisNode, {
+      name: 'Sentiment Analysis',
+      description: 'Route the workflow on the sentiment of a message',
+      category: 'logic',
+      icon: '😊',
+      tags: ['sentiment', 'ai']
+    });
+    builtIn('conditional_logic', ConditionalLogicNode, {
+      name: 'Conditional Logic',
+      description: 'Route the workflow through condition groups',
+      category: 'logic',
+      icon: '🧩',
+      tags: ['logic', 'branching'],
+      setupComplexity: 'medium'
+    });
 
     // Integration nodes
-    this.register('whatsapp_integration', WhatsAppIntegrationNode);
-    this.register('knowledge_base', KnowledgeBaseNode);
+    builtIn('whatsapp_integration', WhatsAppIntegrationNode, {
+      name: 'WhatsApp Integration',
+      description: 'Exchange messages with a WhatsApp Business account',
+      category: 'integrations',
+      icon: '📱',
+      tags: ['whatsapp', 'messaging'],
+      setupComplexity: 'medium'
+    });
+    builtIn('knowledge_base', KnowledgeBaseNode, {
+      name: 'Knowledge Base',
+      description: 'Search knowledge bases for relevant content',
+      category: 'integrations',
+      icon: '📚',
+      tags: ['knowledge', 'search', 'rag']
+    });
 
     // Response nodes
-    this.register('response', ResponseNode);
-    this.register('error_response', ErrorResponseNode);
-    this.register('redirect_response', RedirectResponseNode);
+    builtIn('response', ResponseNode, {
+      name: 'Response',
+      description: 'Send the workflow response',
+      category: 'utilities',
+      icon: '💭',
+      tags: ['response']
+    });
+    builtIn('error_response', ErrorResponseNode, {
+      name: 'Error Response',
+      description: 'Respond with an error message',
+      category: 'utilities',
+      icon: '⚠️',
+      tags: ['response', 'error']
+    });
+    builtIn('redirect_response', RedirectResponseNode, {
+      name: 'Redirect Response',
+      description: 'Redirect the conversation to another destination',
+      category: 'utilities',
+      icon: '↪️',
+      tags: ['response', 'redirect']
+    });
 
     // Advanced workflow nodes
-    this.register('loop', LoopNode);
-    this.register('data_transform', DataTransformNode);
-    this.register('javascript', JSNode);
-    this.register('subworkflow', SubworkflowNode);
+    builtIn('loop', LoopNode, {
+      name: 'Loop',
+      description: 'Iterate over items or repeat until a condition is met',
+      category: 'logic',
+      icon: '🔁',
+      tags: ['loop', 'iteration'],
+      setupComplexity: 'medium'
+    });
+    builtIn('data_transform', DataTransformNode, {
+      name: 'Data Transform',
+      description: 'Map, filter and reshape data',
+      category: 'utilities',
+      icon: '🔧',
+      tags: ['data', 'transform'],
+      setupComplexity: 'medium'
+    });
+    builtIn('javascript', JSNode, {
+      name: 'JavaScript',
+      description: 'Run custom JavaScript in a sandbox',
+      category: 'utilities',
+      icon: '📜',
+      tags: ['code', 'javascript'],
+      setupComplexity: 'advanced'
+    });
+    builtIn('subworkflow', SubworkflowNode, {
+      name: 'Subworkflow',
+      description: 'Run another workflow with declared inputs and outputs',
+      category: 'utilities',
+      icon: '🧱',
+      tags: ['subworkflow', 'reuse'],
+      setupComplexity: 'medium'
+    });
+    builtIn('join', JoinNode, {
+      name: 'Join',
+      description: 'Wait for parallel branches and combine their results',
+      category: 'logic',
+      icon: '🔗',
+      tags: ['parallel', 'merge']
+    });
+    builtIn('wait', WaitNode, {
+      name: 'Wait',
+      description: 'Pause until a webhook, a customer reply or a timeout',
+      category: 'logic',
+      icon: '⏸️',
+      tags: ['wait', 'delay', 'webhook']
+    });
+    builtIn('human_handoff', HumanHandoffNode, {
+      name: 'Human Approval',
+      description: 'Pause until a team member approves or rejects',
+      category: 'logic',
+      icon: '🙋',
+      tags: ['approval', 'handoff', 'human']
+    });
     
     // Communication nodes
-    this.register('whatsapp', WhatsAppNode);
+    builtIn('whatsapp', WhatsAppNode, {
+      name: 'WhatsApp Message',
+      description: 'Send WhatsApp messages and handle responses',
+      category: 'integrations',
+      icon: '💬',
+      tags: ['whatsapp', 'messaging'],
+      setupComplexity: 'medium'
+    });
     
     // Automation nodes
-    this.register('n8n_workflow', N8NNode);
+    builtIn('n8n_workflow', N8NNode, {
+      name: 'N8N Workflow',
+      description: 'Execute N8N workflows with data mapping',
+      category: 'integrations',
+      icon: '⚙️',
+      tags: ['n8n', 'automation'],
+      setupComplexity: 'advanced',
+      requirements: ['N8N instance']
+    });
   }
 
   /**
    * Register a new node type
    */
-  register(nodeType: string, nodeClass: typeof BaseWorkflowNode): void {
-    this.nodeClasses.set(nodeType, nodeClass);
+  register(nodeType: string, nodeClass: NodeClass, definition: Partial<Omit<NodeDefinition, 'type' | 'nodeClass'>> = {}): void {
+    this.registerDefinition({
+      name: nodeType,
+      description: '',
+      category: 'utilities',
+      ...definition,
+      type: nodeType,
+      nodeClass
+    });
+  }
+
+  /**
+   * Register a node type from its full definition, replacing any earlier one
+   */
+  registerDefinition(definition: NodeDefinition): void {
+    assertValidDefinition(definition);
+    this.definitions.set(definition.type, definition);
+    this.notify();
+  }
+
+  /**
+   * Register every node of a custom node package. Nothing is registered when
+   * one of its nodes is invalid or takes a type owned by built-in nodes or
+   * another package.
+   */
+  registerPackage(nodePackage: NodePackage): void {
+    if (!nodePackage.name) {
+      throw new NodeRegistrationError('Node packages need a name');
+    }
+
+    const previous = this.packages.get(nodePackage.name);
+    const definitions = nodePackage.nodes.map(node => ({ ...node, package: nodePackage.name }));
+
+    for (const definition of definitions) {
+      assertValidDefinition(definition);
+
+      const existing = this.definitions.get(definition.type);
+      if (existing && existing.package !== nodePackage.name) {
+        throw new NodeRegistrationError(
+          `Node type ${definition.type} is already registered by ${existing.package || 'the built-in nodes'}`,
+          definition.type
+        );
+      }
+    }
+
+    if (previous) {
+      this.removePackageNodes(nodePackage.name);
+    }
+
+    definitions.forEach(definition => this.definitions.set(definition.type, definition));
+    this.packages.set(nodePackage.name, nodePackage);
+    this.notify();
+  }
+
+  /**
+   * Remove a custom node package and its node types
+   */
+  unregisterPackage(packageName: string): boolean {
+    if (!this.packages.delete(packageName)) {
+      return false;
+    }
+
+    this.removePackageNodes(packageName);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Get the registered custom node packages
+   */
+  getPackages(): NodePackage[] {
+    return Array.from(this.packages.values());
   }
 
   /**
    * Create a node instance from workflow node data
    */
   createNodeInstance(workflowNode: WorkflowNode): BaseWorkflowNode | null {
-    const NodeClass = this.nodeClasses.get(workflowNode.type);
-    if (!NodeClass) {
+    const definition = this.definitions.get(workflowNode.type);
+    if (!definition) {
       console.error(`Unknown node type: ${workflowNode.type}`);
       return null;
     }
 
-    return new NodeClass(workflowNode);
+    return new definition.nodeClass(workflowNode);
+  }
+
+  /**
+   * Validate a workflow node: its configuration against the node's JSON
+   * schema, then the node's own checks
+   */
+  validateNode(workflowNode: WorkflowNode): ValidationResult {
+    const instance = this.createNodeInstance(workflowNode);
+    if (!instance) {
+      return {
+        isValid: false,
+        errors: [{
+          nodeId: workflowNode.id,
+          type: 'invalid_configuration',
+          message: `Unknown node type: ${workflowNode.type}`,
+          severity: 'error'
+        }],
+        warnings: []
+      } as ValidationResult;
+    }
+
+    const configuration = { ...instance.getDefaultConfiguration(), ...(workflowNode.configuration || {}) };
+    const schemaErrors = validateAgainstSchema(instance.getConfigurationSchema(), configuration).map(message => ({
+      nodeId: workflowNode.id,
+      type: 'invalid_configuration',
+      message,
+      severity: 'error'
+    }));
+    const result = instance.validate();
+
+    return {
+      ...result,
+      isValid: result.isValid && schemaErrors.length === 0,
+      errors: [...schemaErrors, ...result.errors]
+    };
   }
 
   /**
    * Get all registered node types
    */
   getRegisteredTypes(): string[] {
-    return Array.from(this.nodeClasses.keys());
+    return Array.from(this.definitions.keys());
   }
 
   /**
    * Check if a node type is registered
    */
   isRegistered(nodeType: string): boolean {
-    return this.nodeClasses.has(nodeType);
+    return this.definitions.has(nodeType);
   }
 
   /**
    * Get node class for a type
    */
-  getNodeClass(nodeType: string): typeof BaseWorkflowNode | null {
-    return this.nodeClasses.get(nodeType) || null;
+  getNodeClass(nodeType: string): NodeClass | null {
+    return this.definitions.get(nodeType)?.nodeClass || null;
+  }
+
+  /**
+   * Get the definition of a node type
+   */
+  getDefinition(nodeType: string): NodeDefinition | null {
+    return this.definitions.get(nodeType) || null;
+  }
+
+  /**
+   * Get all node definitions
+   */
+  getDefinitions(): NodeDefinition[] {
+    return Array.from(this.definitions.values());
   }
 
   /**
    * Unregister a node type
    */
   unregister(nodeType: string): boolean {
-    return this.nodeClasses.delete(nodeType);
+    const removed = this.definitions.delete(nodeType);
+    if (removed) {
+      this.notify();
+    }
+    return removed;
   }
 
   /**
    * Get node types by category
    */
-  getNodeTypesByCategory(): Record<string, string[]> {
-    const categories: Record<string, string[]> = {
+  getNodeTypesByCategory(): Record<NodeCategory, string[]> {
+    const categories: Record<NodeCategory, string[]> = {
       triggers: [],
+      logic: [],
       actions: [],
-      conditions: [],
       integrations: [],
       utilities: []
     };
 
-    // This would ideally come from node definitions, but for now we'll categorize manually
-    const categoryMap: Record<string, string> = {
-      message_trigger: 'triggers',
-      webhook_trigger: 'triggers',
-      schedule_trigger: 'triggers',
-      ai_response: 'actions',
-      send_message: 'actions',
-      condition: 'conditions',
-      sentiment_analysis: 'conditions',
-      conditional_logic: 'conditions',
-      whatsapp_integration: 'integrations',
-      knowledge_base: 'integrations',
-      response: 'utilities',
-      error_response: 'utilities',
-      redirect_response: 'utilities',
-      loop: 'utilities',
-      data_transform: 'utilities',
-      javascript: 'utilities',
-      subworkflow: 'utilities',
-      whatsapp: 'integrations',
-      n8n_workflow: 'integrations'
-    };
-
-    this.nodeClasses.forEach((nodeClass, nodeType) => {
-      const category = categoryMap[nodeType] || 'utilities';
-      categories[category].push(nodeType);
+    this.definitions.forEach((definition, nodeType) => {
+      categories[definition.category].push(nodeType);
     });
 
     return categories;
   }
+
+  /**
+   * Palette templates for every registered node. Ports, default configuration
+   * and form fields are read from the node classes themselves.
+   */
+  getNodeTemplates(): NodeTemplate[] {
+    return this.getDefinitions()
+      .map(definition => this.getNodeTemplate(definition.type))
+      .filter((template): template is NodeTemplate => template !== null);
+  }
+
+  /**
+   * Palette template for one node type
+   */
+  getNodeTemplate(nodeType: string): NodeTemplate | null {
+    const definition = this.definitions.get(nodeType);
+    if (!definition) {
+      return null;
+    }
+
+    try {
+      const instance = new definition.nodeClass(createProbeNode(definition));
+      return definitionToTemplate(definition, instance);
+    } catch (error) {
+      console.error(`Failed to describe node type ${nodeType}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Listen for registrations; returns a function that stops listening
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private removePackageNodes(packageName: string): void {
+    for (const [nodeType, definition] of this.definitions) {
+      if (definition.package === packageName) {
+        this.definitions.delete(nodeType);
+      }
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
 }
 
 // Export singleton instance
-export const nodeRegistry = NodeRegistry.getInstance();
\ No newline at end of file
+export const nodeRegistry = NodeRegistry.getInstance();
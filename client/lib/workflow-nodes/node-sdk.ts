@@ -0,0 +1,301 @@
+/**
+ * Workflow Node SDK
+ * Node definitions, custom node packages and JSON-schema configuration helpers
+ */
+
+import type { BaseWorkflowNode } from './base-node';
+import { ConfigField, NodeTemplate, WorkflowNode } from '@/lib/workflow-types';
+
+// Palette categories, matching the ids of WORKFLOW_CATEGORIES
+export type NodeCategory = 'triggers' | 'logic' | 'actions' | 'integrations' | 'utilities';
+
+export type NodeClass = new (node: WorkflowNode) => BaseWorkflowNode;
+
+export interface NodeDefinition {
+  type: string;
+  name: string;
+  description: string;
+  category: NodeCategory;
+  nodeClass: NodeClass;
+  icon?: string;
+  color?: string;
+  version?: string;
+  tags?: string[];
+  setupComplexity?: 'easy' | 'medium' | 'advanced';
+  provider?: string;
+  requirements?: string[];
+  // Name of the package that registered the node; built-in nodes have none
+  package?: string;
+}
+
+export interface NodePackage {
+  name: string;
+  version: string;
+  description?: string;
+  nodes: Array<Omit<NodeDefinition, 'package'>>;
+}
+
+export class NodeRegistrationError extends Error {
+  constructor(message: string, public readonly nodeType?: string) {
+    super(message);
+    this.name = 'NodeRegistrationError';
+  }
+}
+
+const NODE_TYPE_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+const SDK_METHODS = [
+  'execute',
+  'validate',
+  'getConfigurationSchema',
+  'getDefaultConfiguration',
+  'getInputPorts',
+  'getOutputPorts'
+] as const;
+
+const CATEGORY_DEFAULTS: Record<NodeCategory, { label: string; color: string }> = {
+  triggers: { label: 'Triggers', color: '#10b981' },
+  logic: { label: 'Logic', color: '#f59e0b' },
+  actions: { label: 'Actions', color: '#3b82f6' },
+  integrations: { label: 'Integrations', color: '#ec4899' },
+  utilities: { label: 'Utilities', color: '#6b7280' }
+};
+
+/**
+ * Throw unless a definition can be registered: a well-formed type, a known
+ * category and a class implementing the SDK contract
+ */
+export function assertValidDefinition(definition: NodeDefinition): void {
+  if (!NODE_TYPE_PATTERN.test(definition.type || '')) {
+    throw new NodeRegistrationError(
+      `Invalid node type "${definition.type}": use lowercase letters, digits, "_" and "-"`,
+      definition.type
+    );
+  }
+
+  if (!CATEGORY_DEFAULTS[definition.category]) {
+    throw new NodeRegistrationError(`Unknown category "${definition.category}"`, definition.type);
+  }
+
+  const prototype = definition.nodeClass?.prototype;
+  const missing = SDK_METHODS.filter(method => typeof prototype?.[method] !== 'function');
+  if (missing.length > 0) {
+    throw new NodeRegistrationError(
+      `Node class for ${definition.type} does not implement ${missing.join(', ')}`,
+      definition.type
+    );
+  }
+}
+
+/**
+ * Workflow node used to instantiate a node class outside a workflow, e.g. to
+ * read its ports and schema for the palette
+ */
+export function createProbeNode(definition: NodeDefinition): WorkflowNode {
+  return {
+    id: `${definition.type}_probe`,
+    type: definition.type,
+    name: definition.name,
+    category: definition.category,
+    position: { x: 0, y: 0 },
+    configuration: {},
+    inputs: [],
+    outputs: [],
+    metadata: { version: definition.version || '1.0.0' }
+  } as any;
+}
+
+/**
+ * Check a configuration against a node's JSON schema. Supports the subset the
+ * built-in nodes use: type, required, enum, minimum/maximum, minLength,
+ * pattern, items and nested object properties.
+ */
+export function validateAgainstSchema(schema: any, value: any, path: string = ''): string[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+
+  const label = path || 'configuration';
+  const errors: string[] = [];
+
+  if (value === undefined || value === null) {
+    return errors;
+  }
+
+  if (schema.type && !matchesSchemaType(schema.type, value)) {
+    return [`${label} must be of type ${[].concat(schema.type).join(' or ')}`];
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${label} must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${label} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${label} has an invalid format`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(schema.items, item, `${label}[${index}]`));
+    });
+  }
+
+  if (isPlainObject(value) && schema.properties) {
+    for (const key of schema.required || []) {
+      const field = value[key];
+      if (field === undefined || field === null || field === '') {
+        errors.push(`${schema.properties[key]?.title || joinPath(path, key)} is required`);
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries<any>(schema.properties)) {
+      errors.push(...validateAgainstSchema(propertySchema, value[key], joinPath(path, key)));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Form fields for the configuration panel from a node's JSON schema
+ */
+export function schemaToConfigFields(schema: any): ConfigField[] {
+  const required: string[] = schema?.required || [];
+
+  return Object.entries<any>(schema?.properties || {}).map(([name, property]) => {
+    const field: ConfigField = {
+      name,
+      type: getConfigFieldType(property),
+      label: property.title || name,
+      description: property.description,
+      required: required.includes(name),
+      default: property.default
+    };
+
+    if (Array.isArray(property.enum)) {
+      field.options = property.enum.map((value: any) => ({ value, label: String(value) }));
+    } else if (Array.isArray(property.items?.enum)) {
+      field.options = property.items.enum.map((value: any) => ({ value, label: String(value) }));
+    }
+
+    if (property.minimum !== undefined || property.maximum !== undefined || property.pattern) {
+      field.validation = {
+        min: property.minimum,
+        max: property.maximum,
+        pattern: property.pattern
+      };
+    }
+
+    return field;
+  });
+}
+
+/**
+ * Palette template for a registered node, read from an instance of its class
+ */
+export function definitionToTemplate(definition: NodeDefinition, instance: BaseWorkflowNode): NodeTemplate {
+  const category = CATEGORY_DEFAULTS[definition.category];
+
+  return {
+    id: definition.type,
+    type: definition.type as NodeTemplate['type'],
+    name: definition.name,
+    description: definition.description,
+    category: category.label,
+    icon: definition.icon || '⚙️',
+    color: definition.color || category.color,
+    inputs: instance.getInputPorts().map(port => ({
+      type: 'input',
+      dataType: toTemplateDataType(port.dataType),
+      label: port.name,
+      required: port.required
+    })),
+    outputs: instance.getOutputPorts().map(port => ({
+      type: 'output',
+      dataType: toTemplateDataType(port.dataType),
+      label: port.name,
+      required: port.required
+    })),
+    defaultConfig: instance.getDefaultConfiguration(),
+    configSchema: schemaToConfigFields(instance.getConfigurationSchema()),
+    tags: definition.tags || [],
+    setupComplexity: definition.setupComplexity || 'easy',
+    provider: definition.package || definition.provider || 'Built-in',
+    requirements: definition.requirements || [],
+    features: []
+  };
+}
+
+function getConfigFieldType(property: any): ConfigField['type'] {
+  if (property.format === 'password') return 'password';
+  if (property.format === 'textarea' || property.format === 'code') return 'textarea';
+  if (Array.isArray(property.enum)) return 'select';
+
+  switch (property.type) {
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return Array.isArray(property.items?.enum) ? 'multiselect' : 'json';
+    case 'object':
+      return 'json';
+    default:
+      return 'text';
+  }
+}
+
+function toTemplateDataType(dataType: string): NodeTemplate['inputs'][number]['dataType'] {
+  switch (dataType) {
+    case 'string':
+    case 'text':
+      return 'text';
+    case 'number':
+    case 'boolean':
+    case 'object':
+    case 'array':
+      return dataType;
+    default:
+      return 'any';
+  }
+}
+
+function matchesSchemaType(type: string | string[], value: any): boolean {
+  return ([] as string[]).concat(type).some(expected => {
+    switch (expected) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return isPlainObject(value);
+      default:
+        return typeof value === expected;
+    }
+  });
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
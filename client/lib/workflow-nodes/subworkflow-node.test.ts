@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const workflows: Record<string, any> = {};
+const executeWorkflow = vi.fn();
+
+vi.mock('../workflow-builder-service', () => ({
+  workflowBuilderService: { loadWorkflow: async (id: string) => workflows[id] ?? null },
+}));
+vi.mock('../workflow-executor', () => ({ workflowExecutor: { executeWorkflow } }));
+
+import { WorkflowExecutionContext } from './base-node';
+import {
+  SubworkflowNode,
+  collectSubworkflowOutputs,
+  getSubworkflowContract,
+  mapSubworkflowInputs,
+} from './subworkflow-node';
+
+const child = {
+  id: 'child',
+  name: 'Lookup customer',
+  variables: [
+    { name: 'email', type: 'string', direction: 'input', required: true },
+    { name: 'limit', type: 'number', direction: 'input', value: 10 },
+    { name: 'customer', type: 'object', direction: 'output', required: true },
+    { name: 'scratch', type: 'string', scope: 'local' },
+  ],
+};
+
+const subworkflowNode = (configuration: Record<string, any>) =>
+  new SubworkflowNode({
+    id: 'call-child',
+    type: 'subworkflow',
+    name: 'Call child',
+    configuration: { subworkflowId: 'child', ...configuration },
+  } as any);
+
+const contextFor = (workflowId: string, metadata: Record<string, any> = {}, variables: Record<string, any> = {}) =>
+  new WorkflowExecutionContext({ workflowId, executionId: 'parent-exec', userId: 'user-1', variables, metadata });
+
+describe('subworkflow contract', () => {
+  const contract = getSubworkflowContract(child);
+
+  it('should read declared inputs and outputs from the workflow variables', () => {
+    expect(contract.inputs.map(input => input.name)).toEqual(['email', 'limit']);
+    expect(contract.outputs.map(output => output.name)).toEqual(['customer']);
+  });
+
+  it('should map parent variables onto declared inputs', () => {
+    expect(mapSubworkflowInputs(contract.inputs, { email: 'user.email' }, { user: { email: 'a@b.c' } }, {})).toEqual({
+      email: 'a@b.c',
+      limit: 10,
+    });
+    expect(mapSubworkflowInputs(contract.inputs, { email: 'input.from' }, {}, { from: 'x@y.z' }).email).toBe('x@y.z');
+    // Unmapped inputs fall back to the same-named variable
+    expect(mapSubworkflowInputs(contract.inputs, {}, { email: 'a@b.c', limit: 3 }, {})).toEqual({
+      email: 'a@b.c',
+      limit: 3,
+    });
+  });
+
+  it('should reject missing or mistyped inputs and outputs', () => {
+    expect(() => mapSubworkflowInputs(contract.inputs, {}, { limit: '3' }, {})).toThrow(
+      'Missing required input "email"; Input "limit" must be of type number'
+    );
+    expect(() => collectSubworkflowOutputs(contract.outputs, { customer: 'nope' })).toThrow(
+      'Output "customer" must be of type object'
+    );
+  });
+});
+
+describe('SubworkflowNode', () => {
+  beforeEach(() => {
+    workflows.child = child;
+    executeWorkflow.mockReset();
+  });
+
+  it('should run the child as a linked execution and return its outputs', async () => {
+    executeWorkflow.mockResolvedValue({
+      id: 'child-exec',
+      status: 'completed',
+      variables: { email: 'a@b.c', customer: { id: 7 }, scratch: 'internal' },
+    });
+    const context = contextFor('parent', {}, { email: 'a@b.c', secret: 'parent only' });
+
+    const result = await subworkflowNode({ outputMapping: { customer: 'customer' } }).execute({}, context);
+
+    expect(result).toEqual({ customer: { id: 7 } });
+    expect(context.getVariable('customer')).toEqual({ id: 7 });
+    expect(executeWorkflow).toHaveBeenCalledWith(child, { email: 'a@b.c', limit: 10 }, expect.objectContaining({
+      context: expect.objectContaining({
+        parentExecutionId: 'parent-exec',
+        parentNodeId: 'call-child',
+        callStack: ['parent', 'child'],
+      }),
+    }));
+  });
+
+  it('should block a workflow that calls itself through its subworkflows', async () => {
+    const context = contextFor('child-of-child', { callStack: ['child', 'child-of-child'] });
+
+    await expect(subworkflowNode({}).execute({}, context)).rejects.toThrow(
+      'Subworkflow cycle detected: child -> child-of-child -> child'
+    );
+    expect(executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should stop runaway nesting', async () => {
+    const context = contextFor('c', { callStack: ['a', 'b', 'c'] });
+
+    await expect(subworkflowNode({ maxDepth: 2 }).execute({}, context)).rejects.toThrow('maximum depth of 2');
+  });
+
+  it('should retry a failed child and then fail the node', async () => {
+    executeWorkflow.mockResolvedValue({ id: 'child-exec', status: 'failed', error: 'boom', variables: {} });
+
+    await expect(
+      subworkflowNode({ retryCount: 1, retryDelay: 0 }).execute({}, contextFor('parent', {}, { email: 'a@b.c' }))
+    ).rejects.toThrow('Subworkflow "Lookup customer" failed: boom');
+    expect(executeWorkflow).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Subworkflow Node for Workflow System
+ * Runs another workflow as a child execution and returns its declared outputs
+ */
+
+import { BaseWorkflowNode, ExecutionContext, WorkflowExecutionContext } from './base-node';
+import { NodePort, ValidationResult, WorkflowVariable } from '@/lib/workflow-types';
+
+export type SubworkflowParameterType = WorkflowVariable['type'] | 'array' | 'any';
+
+export interface SubworkflowParameter {
+  name: string;
+  type: SubworkflowParameterType;
+  required: boolean;
+  defaultValue?: any;
+  description?: string;
+}
+
+export interface SubworkflowContract {
+  inputs: SubworkflowParameter[];
+  outputs: SubworkflowParameter[];
+}
+
+// Nested executions allowed below the top-level workflow unless the node sets maxDepth
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+/**
+ * Inputs and outputs a workflow declares through its variables
+ * (`direction: 'input'` or `'output'`)
+ */
+export function getSubworkflowContract(workflow: { variables?: any[] }): SubworkflowContract {
+  const toParameter = (variable: any): SubworkflowParameter => ({
+    name: variable.name,
+    type: variable.type || 'any',
+    required: variable.required === true,
+    defaultValue: variable.value,
+    description: variable.description
+  });
+
+  const variables = Array.isArray(workflow.variables) ? workflow.variables : [];
+  return {
+    inputs: variables.filter(variable => variable.direction === 'input').map(toParameter),
+    outputs: variables.filter(variable => variable.direction === 'output').map(toParameter)
+  };
+}
+
+export function matchesParameterType(value: any, type: SubworkflowParameterType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object';
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function readPath(source: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+/**
+ * Resolve the value of every declared child input. A mapping names a parent
+ * variable (dotted paths allowed) or `input.<field>` for the node input; unmapped
+ * inputs fall back to the same-named variable, then the node input, then the default.
+ */
+export function mapSubworkflowInputs(
+  parameters: SubworkflowParameter[],
+  mapping: Record<string, string>,
+  variables: Record<string, any>,
+  input: any
+): Record<string, any> {
+  const scope = { ...variables, input };
+  const values: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const parameter of parameters) {
+    let value = mapping[parameter.name]
+      ? readPath(scope, mapping[parameter.name])
+      : variables[parameter.name] ?? input?.[parameter.name];
+    value = value ?? parameter.defaultValue;
+
+    if (value === undefined) {
+      if (parameter.required) {
+        errors.push(`Missing required input "${parameter.name}"`);
+      }
+      continue;
+    }
+
+    if (!matchesParameterType(value, parameter.type)) {
+      errors.push(`Input "${parameter.name}" must be of type ${parameter.type}`);
+      continue;
+    }
+
+    values[parameter.name] = value;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid subworkflow inputs: ${errors.join('; ')}`);
+  }
+
+  return values;
+}
+
+/**
+ * Pick the declared outputs from the variables the child execution ended with
+ */
+export function collectSubworkflowOutputs(
+  parameters: SubworkflowParameter[],
+  variables: Record<string, any>
+): Record<string, any> {
+  const values: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const parameter of parameters) {
+    const value = variables[parameter.name] ?? parameter.defaultValue;
+
+    if (value === undefined) {
+      if (parameter.required) {
+        errors.push(`Missing required output "${parameter.name}"`);
+      }
+      continue;
+    }
+
+    if (!matchesParameterType(value, parameter.type)) {
+      errors.push(`Output "${parameter.name}" must be of type ${parameter.type}`);
+      continue;
+    }
+
+    values[parameter.name] = value;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid subworkflow outputs: ${errors.join('; ')}`);
+  }
+
+  return values;
+}
+
+/**
+ * Workflow ids from the top-level workflow down to the current one
+ */
+export function getWorkflowCallStack(context: ExecutionContext): string[] {
+  const callStack = context.metadata?.callStack;
+  return Array.isArray(callStack) && callStack.length > 0 ? callStack : [context.workflowId];
+}
+
+export class SubworkflowNode extends BaseWorkflowNode {
+  async execute(input: any, context: ExecutionContext): Promise<any> {
+    const {
+      subworkflowId,
+      inputMapping = {},
+      outputMapping = {},
+      isolateVariables = true,
+      retryCount = 0,
+      retryDelay = 1000
+    } = this.node.configuration;
+    const maxDepth = Number(this.node.configuration.maxDepth) || MAX_SUBWORKFLOW_DEPTH;
+
+    const callStack = getWorkflowCallStack(context);
+    if (callStack.includes(subworkflowId)) {
+      throw new Error(`Subworkflow cycle detected: ${[...callStack, subworkflowId].join(' -> ')}`);
+    }
+    if (callStack.length > maxDepth) {
+      throw new Error(`Subworkflow nesting exceeds the maximum depth of ${maxDepth}`);
+    }
+
+    // Loaded lazily: the executor and builder service import the node registry
+    const { workflowBuilderService } = await import('../workflow-builder-service');
+    const { workflowExecutor } = await import('../workflow-executor');
+
+    const workflow = await workflowBuilderService.loadWorkflow(subworkflowId);
+    if (!workflow) {
+      throw new Error(`Subworkflow ${subworkflowId} not found`);
+    }
+
+    const contract = getSubworkflowContract(workflow);
+    const inputs = mapSubworkflowInputs(contract.inputs, inputMapping, context.variables, input);
+    const childInput = isolateVariables ? inputs : { ...context.variables, ...inputs };
+
+    context.log('info', 'Starting subworkflow', {
+      subworkflowId,
+      name: workflow.name,
+      depth: callStack.length
+    });
+
+    let attempt = 0;
+    while (true) {
+      const execution = await workflowExecutor.executeWorkflow(workflow, childInput, {
+        debugSession: (context as WorkflowExecutionContext).debugSession,
+        context: {
+          parentExecutionId: context.executionId,
+          parentNodeId: this.node.id,
+          conversationId: context.conversationId,
+          callStack: [...callStack, subworkflowId]
+        }
+      });
+
+      if (execution.status === 'completed') {
+        const outputs = collectSubworkflowOutputs(contract.outputs, execution.variables);
+
+        for (const [variable, output] of Object.entries<string>(outputMapping)) {
+          context.setVariable(variable, outputs[output]);
+        }
+
+        context.log('info', 'Subworkflow completed', {
+          subworkflowId,
+          executionId: execution.id,
+          outputs: Object.keys(outputs)
+        });
+        return outputs;
+      }
+
+      // A child suspended at a wait node is not retried; it resumes on its own
+      if (execution.status === 'cancelled' || execution.status === 'waiting' || attempt >= retryCount) {
+        throw new Error(`Subworkflow "${workflow.name}" ${execution.status}: ${execution.error || 'no result'}`);
+      }
+
+      attempt++;
+      context.log('warn', `Subworkflow failed, retrying (${attempt}/${retryCount})`, {
+        executionId: execution.id,
+        error: execution.error
+      });
+      await new Promise(resolve => setTimeout(resolve, retryDelay));
+    }
+  }
+
+  validate(): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    const { subworkflowId, maxDepth, retryCount } = this.node.configuration;
+    if (!subworkflowId) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'missing_configuration',
+        message: 'Subworkflow is required',
+        severity: 'error'
+      });
+    }
+
+    if (maxDepth !== undefined && !(Number(maxDepth) >= 1)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: 'Maximum depth must be at least 1',
+        severity: 'error'
+      });
+    }
+
+    if (retryCount !== undefined && !(Number(retryCount) >= 0)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: 'Retry count cannot be negative',
+        severity: 'error'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  getConfigurationSchema(): any {
+    return {
+      type: 'object',
+      properties: {
+        subworkflowId: {
+          type: 'string',
+          title: 'Subworkflow',
+          description: 'Workflow to run as a child execution'
+        },
+        inputMapping: {
+          type: 'object',
+          title: 'Input Mapping',
+          description: 'Parent variable (or input.<field>) for each declared subworkflow input'
+        },
+        outputMapping: {
+          type: 'object',
+          title: 'Output Mapping',
+          description: 'Parent variable to set from each declared subworkflow output'
+        },
+        isolateVariables: {
+          type: 'boolean',
+          title: 'Isolate Variables',
+          default: true,
+          description: 'Only pass declared inputs instead of every parent variable'
+        },
+        maxDepth: {
+          type: 'number',
+          title: 'Maximum Depth',
+          minimum: 1,
+          default: MAX_SUBWORKFLOW_DEPTH,
+          description: 'How deeply subworkflows may nest below the top-level workflow'
+        },
+        retryCount: {
+          type: 'number',
+          title: 'Retry Count',
+          minimum: 0,
+          default: 0
+        },
+        retryDelay: {
+          type: 'number',
+          title: 'Retry Delay (ms)',
+          minimum: 0,
+          default: 1000
+        }
+      },
+      required: ['subworkflowId']
+    };
+  }
+
+  getDefaultConfiguration(): Record<string, any> {
+    return {
+      subworkflowId: '',
+      inputMapping: {},
+      outputMapping: {},
+      isolateVariables: true,
+      maxDepth: MAX_SUBWORKFLOW_DEPTH,
+      retryCount: 0,
+      retryDelay: 1000
+    };
+  }
+
+  getInputPorts(): NodePort[] {
+    return [
+      this.createPort('input', 'data', 'object', false, 'Data available to the input mapping as input.<field>')
+    ];
+  }
+
+  getOutputPorts(): NodePort[] {
+    return [
+      this.createPort('output', 'data', 'object', true, 'Declared outputs of the subworkflow')
+    ];
+  }
+}
@@ -5,6 +5,7 @@
 
 import { BaseWorkflowNode, ExecutionContext } from './base-node';
 import { NodePort, ValidationResult } from '@/lib/workflow-types';
+import { isValidTimeZone, validateCronExpression } from '@/lib/cron';
 
 export class MessageTriggerNode extends BaseWorkflowNode {
   async execute(input: any, context: ExecutionContext): Promise<any> {
@@ -130,8 +131,11 @@ export class WebhookTriggerNode extends BaseWorkflowNode {
     const webhookData = {
       payload: input.body || input.payload || {},
       headers: input.headers || {},
+      query: input.query || {},
       method: input.method || 'POST',
       url: input.url || '',
+      // Stored delivery the run came from; replays reference the same payload
+      eventId: input.eventId,
       timestamp: new Date().toISOString()
     };
 
@@ -149,22 +153,26 @@ export class WebhookTriggerNode extends BaseWorkflowNode {
     const errors: any[] = [];
     const warnings: any[] = [];
 
-    const webhookUrl = this.node.configuration.webhook_url;
-    if (!webhookUrl) {
+    const method = this.node.configuration.method;
+    if (method && !['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].includes(method)) {
       errors.push({
         nodeId: this.node.id,
-        type: 'missing_configuration',
-        message: 'Webhook URL is required',
+        type: 'invalid_configuration',
+        message: 'Invalid HTTP method specified',
         severity: 'error'
       });
     }
 
-    const method = this.node.configuration.method;
-    if (method && !['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].includes(method)) {
+    const authentication = this.node.configuration.authentication || {};
+    const missingSecret =
+      (['api_key', 'bearer'].includes(authentication.type) && !authentication.token) ||
+      (authentication.type === 'basic' && (!authentication.username || !authentication.password)) ||
+      (authentication.type === 'hmac' && !authentication.secret);
+    if (missingSecret) {
       errors.push({
         nodeId: this.node.id,
-        type: 'invalid_configuration',
-        message: 'Invalid HTTP method specified',
+        type: 'missing_configuration',
+        message: `Credentials are required for ${authentication.type} authentication`,
         severity: 'error'
       });
     }
@@ -180,12 +188,6 @@ export class WebhookTriggerNode extends BaseWorkflowNode {
     return {
       type: 'object',
       properties: {
-        webhook_url: {
-          type: 'string',
-          title: 'Webhook URL',
-          description: 'The URL endpoint for this webhook',
-          format: 'uri'
-        },
         method: {
           type: 'string',
           title: 'HTTP Method',
@@ -199,30 +201,72 @@ export class WebhookTriggerNode extends BaseWorkflowNode {
           properties: {
             type: {
               type: 'string',
-              enum: ['none', 'bearer', 'basic', 'api_key'],
+              enum: ['none', 'api_key', 'bearer', 'basic', 'hmac'],
               default: 'none'
             },
             token: {
               type: 'string',
               title: 'Token/Key',
-              description: 'Authentication token or API key'
+              description: 'API key or bearer token callers must send',
+              format: 'password'
             },
             header: {
               type: 'string',
               title: 'Header Name',
               description: 'Header name for API key authentication',
               default: 'X-API-Key'
+            },
+            username: {
+              type: 'string',
+              title: 'Username',
+              description: 'Username for basic authentication'
+            },
+            password: {
+              type: 'string',
+              title: 'Password',
+              description: 'Password for basic authentication',
+              format: 'password'
+            },
+            secret: {
+              type: 'string',
+              title: 'Signing Secret',
+              description: 'Secret of the HMAC-SHA256 signature over "<timestamp>.<request body>"',
+              format: 'password'
+            },
+            signature_header: {
+              type: 'string',
+              title: 'Signature Header',
+              description: 'Header carrying the hex signature, optionally prefixed with sha256=',
+              default: 'X-Signature-256'
+            },
+            timestamp_header: {
+              type: 'string',
+              title: 'Timestamp Header',
+              description: 'Header carrying the Unix time in seconds the delivery was signed at',
+              default: 'X-Signature-Timestamp'
+            },
+            tolerance_seconds: {
+              type: 'number',
+              title: 'Signature Tolerance (seconds)',
+              description: 'Deliveries signed longer ago than this are refused',
+              default: 300
             }
           }
         },
+        response_mode: {
+          type: 'string',
+          title: 'Response',
+          enum: ['async', 'sync'],
+          default: 'async',
+          description: 'Answer 202 right away, or wait for the workflow and answer with its result'
+        },
         responseFormat: {
           type: 'string',
           title: 'Response Format',
           enum: ['json', 'text', 'xml'],
           default: 'json'
         }
-      },
-      required: ['webhook_url']
+      }
     };
   }
 
@@ -232,6 +276,7 @@ export class WebhookTriggerNode extends BaseWorkflowNode {
       authentication: {
         type: 'none'
       },
+      response_mode: 'async',
       responseFormat: 'json'
     };
   }
@@ -293,9 +338,38 @@ export class ScheduleTriggerNode extends BaseWorkflowNode {
           message: 'Cron expression is required for cron schedule type',
           severity: 'error'
         });
+      } else {
+        const { isValid, error } = validateCronExpression(cronExpression);
+        if (!isValid) {
+          errors.push({
+            nodeId: this.node.id,
+            type: 'invalid_configuration',
+            message: `Invalid cron expression: ${error}`,
+            severity: 'error'
+          });
+        }
       }
     }
 
+    if (scheduleType === 'recurring' && !(Number(this.node.configuration.intervalMinutes) > 0)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'missing_configuration',
+        message: 'Interval in minutes is required for recurring schedule',
+        severity: 'error'
+      });
+    }
+
+    const timezone = this.node.configuration.timezone;
+    if (timezone && !isValidTimeZone(timezone)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: `Unknown timezone: ${timezone}`,
+        severity: 'error'
+      });
+    }
+
     if (scheduleType === 'once') {
       const scheduledTime = this.node.configuration.scheduledTime;
       if (!scheduledTime) {
@@ -334,14 +408,32 @@ export class ScheduleTriggerNode extends BaseWorkflowNode {
         cronExpression: {
           type: 'string',
           title: 'Cron Expression',
-          description: 'Cron expression for recurring schedules',
-          pattern: '^[0-9*,/-]+ [0-9*,/-]+ [0-9*,/-]+ [0-9*,/-]+ [0-9*,/-]+$'
+          description: 'Five-field cron expression (minute hour day month weekday) or a macro such as @daily'
+        },
+        intervalMinutes: {
+          type: 'number',
+          title: 'Interval (minutes)',
+          minimum: 1,
+          description: 'Minutes between runs for recurring schedules, counted from the scheduled time'
         },
         timezone: {
           type: 'string',
           title: 'Timezone',
           default: 'UTC',
-          description: 'Timezone for schedule execution'
+          description: 'IANA timezone the cron expression is evaluated in, e.g. Europe/Berlin'
+        },
+        misfirePolicy: {
+          type: 'string',
+          title: 'Missed Runs',
+          enum: ['skip', 'catch_up', 'run_once'],
+          default: 'skip',
+          description: 'Skip missed runs, run each of them, or run once for all of them'
+        },
+        allowOverlap: {
+          type: 'boolean',
+          title: 'Allow Overlapping Runs',
+          default: false,
+          description: 'Start a run even if the previous one is still in progress'
         },
         enabled: {
           type: 'boolean',
@@ -358,6 +450,8 @@ export class ScheduleTriggerNode extends BaseWorkflowNode {
     return {
       scheduleType: 'once',
       timezone: 'UTC',
+      misfirePolicy: 'skip',
+      allowOverlap: false,
       enabled: true
     };
   }
@@ -0,0 +1,199 @@
+/**
+ * Wait Node for Workflow System
+ * Suspends the execution until an approval, a webhook, a customer reply or a timeout
+ */
+
+import { BaseWorkflowNode, ExecutionContext } from './base-node';
+import { NodePort, ValidationResult } from '@/lib/workflow-types';
+import {
+  WAIT_OUTCOME_PORTS,
+  WaitCondition,
+  WorkflowSuspendedError,
+  isWaitExpired,
+  workflowWaitService
+} from '@/lib/workflow-waits';
+
+const WAIT_CONDITIONS: WaitCondition[] = ['approval', 'webhook', 'customer_reply', 'timeout'];
+
+/**
+ * The first run creates the wait and suspends the execution. When the wait is
+ * resolved the execution resumes, the node runs again and routes to the port of
+ * the outcome: approved, rejected, received or timeout.
+ */
+export class WaitNode extends BaseWorkflowNode {
+  async execute(input: any, context: ExecutionContext): Promise<any> {
+    const config = { ...this.getDefaultConfiguration(), ...this.node.configuration };
+    let wait = await workflowWaitService.getWaitForNode(context.executionId, this.node.id);
+
+    if (!wait) {
+      const timeoutMinutes = Number(config.timeout_minutes);
+      wait = await workflowWaitService.createWait({
+        executionId: context.executionId,
+        workflowId: context.workflowId,
+        nodeId: this.node.id,
+        nodeName: this.node.name,
+        condition: config.condition,
+        title: config.title || this.node.name,
+        instructions: config.instructions || undefined,
+        assignee: config.condition === 'approval' ? config.approver || undefined : undefined,
+        correlationKey: config.condition === 'webhook' ? String(config.correlation_key) : undefined,
+        conversationId: config.condition === 'customer_reply' ? context.conversationId : undefined,
+        context: input && typeof input === 'object' ? input : { input },
+        timeoutAt: timeoutMinutes > 0
+          ? new Date(Date.now() + timeoutMinutes * 60 * 1000).toISOString()
+          : undefined
+      });
+
+      context.log('info', 'Execution suspended', { waitId: wait.id, condition: wait.condition });
+      throw new WorkflowSuspendedError(wait);
+    }
+
+    if (isWaitExpired(wait)) {
+      wait = await workflowWaitService.expireWait(wait);
+    }
+
+    if (wait.status === 'pending') {
+      throw new WorkflowSuspendedError(wait);
+    }
+
+    const port = WAIT_OUTCOME_PORTS[wait.status];
+    context.setVariable('wait_status', wait.status);
+    context.setVariable('wait_decision', wait.decision);
+    context.log('info', `Wait resolved: ${wait.status}`, { waitId: wait.id, decidedBy: wait.decidedBy });
+
+    return {
+      status: wait.status,
+      approved: wait.status === 'approved',
+      decision: wait.decision ?? null,
+      decidedBy: wait.decidedBy ?? null,
+      comment: wait.comment ?? null,
+      waitId: wait.id,
+      nextNodes: [port]
+    };
+  }
+
+  validate(): ValidationResult {
+    const errors: any[] = [];
+    const warnings: any[] = [];
+
+    const config = { ...this.getDefaultConfiguration(), ...this.node.configuration };
+
+    if (!WAIT_CONDITIONS.includes(config.condition)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: `Unknown wait condition: ${config.condition}`,
+        severity: 'error'
+      });
+    }
+
+    if (config.condition === 'webhook' && !config.correlation_key) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'missing_configuration',
+        message: 'A correlation key is required to match the incoming webhook',
+        severity: 'error'
+      });
+    }
+
+    if (config.condition === 'timeout' && !(Number(config.timeout_minutes) > 0)) {
+      errors.push({
+        nodeId: this.node.id,
+        type: 'invalid_configuration',
+        message: 'Timeout must be a positive number of minutes',
+        severity: 'error'
+      });
+    }
+
+    if (config.condition === 'approval' && !config.approver) {
+      warnings.push({
+        nodeId: this.node.id,
+        type: 'missing_configuration',
+        message: 'Without an approver any team member can decide this approval'
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  getConfigurationSchema(): any {
+    return {
+      type: 'object',
+      properties: {
+        condition: {
+          type: 'string',
+          title: 'Wait For',
+          enum: WAIT_CONDITIONS,
+          default: this.getDefaultConfiguration().condition,
+          description: 'What resumes the execution'
+        },
+        title: {
+          type: 'string',
+          title: 'Title',
+          description: 'Shown in the approvals inbox'
+        },
+        instructions: {
+          type: 'string',
+          title: 'Instructions',
+          format: 'textarea',
+          description: 'What the approver should check before deciding'
+        },
+        approver: {
+          type: 'string',
+          title: 'Approver Email',
+          description: 'Team member who decides the approval'
+        },
+        correlation_key: {
+          type: 'string',
+          title: 'Correlation Key',
+          description: 'Key the resuming webhook sends, e.g. {{ $vars.order_id }}'
+        },
+        timeout_minutes: {
+          type: 'number',
+          title: 'Timeout (minutes)',
+          minimum: 0,
+          description: 'Continue through the timeout port after this long; 0 waits indefinitely'
+        }
+      },
+      required: ['condition']
+    };
+  }
+
+  getDefaultConfiguration(): Record<string, any> {
+    return {
+      condition: 'timeout',
+      timeout_minutes: 60
+    };
+  }
+
+  getInputPorts(): NodePort[] {
+    return [
+      this.createPort('input', 'data', 'object', true, 'Data shown to the approver and passed on')
+    ];
+  }
+
+  getOutputPorts(): NodePort[] {
+    return [
+      this.createPort('approved', 'control', 'object', false, 'The approver approved'),
+      this.createPort('rejected', 'control', 'object', false, 'The approver rejected'),
+      this.createPort('received', 'control', 'object', false, 'The webhook or customer reply arrived'),
+      this.createPort('timeout', 'control', 'object', false, 'Nothing arrived before the timeout')
+    ];
+  }
+}
+
+/**
+ * Hands the conversation to a team member and waits for their decision
+ */
+export class HumanHandoffNode extends WaitNode {
+  getDefaultConfiguration(): Record<string, any> {
+    return {
+      condition: 'approval',
+      timeout_minutes: 24 * 60
+    };
+  }
+}
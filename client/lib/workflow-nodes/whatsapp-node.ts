@@ -4,6 +4,7 @@
  */
 
 import { BaseNode, NodeExecutionContext, NodeExecutionResult } from './base-node';
+import { WorkflowNode } from '@/lib/workflow-types';
 import { enhancedWhatsAppService } from '../whatsapp-enhanced';
 
 export interface WhatsAppNodeConfig {
@@ -120,8 +121,8 @@ export class WhatsAppNode extends BaseNode {
     retryDelay: 1000
   };
 
-  constructor(id: string, position: { x: number; y: number }) {
-    super(id, position);
+  constructor(nodeOrId: WorkflowNode | string, position?: { x: number; y: number }) {
+    super(nodeOrId, position);
     
     this.inputs = [
       {
@@ -162,7 +163,7 @@ export class WhatsAppNode extends BaseNode {
     ];
   }
 
-  async execute(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  async run(context: NodeExecutionContext): Promise<NodeExecutionResult> {
     try {
       const { data, variables } = context;
       
@@ -496,7 +497,7 @@ export class WhatsAppNode extends BaseNode {
     }, obj);
   }
 
-  validate(): { isValid: boolean; errors: string[] } {
+  checkConfiguration(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Validate message type configuration
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./supabase', () => ({ supabase: { from: vi.fn() } }));
+
+import { diffValues, diffWorkflows, isEmptyDiff, revisionToWorkflow } from './workflow-revisions';
+
+const base = {
+  name: 'Support triage',
+  description: '',
+  nodes: [
+    { id: 'trigger', type: 'webhook_trigger', name: 'Webhook', position: { x: 0, y: 0 }, configuration: { path: '/in' } },
+    { id: 'llm', type: 'llm', name: 'Classify', position: { x: 200, y: 0 }, configuration: { model: 'gpt-4', temperature: 0.2 } },
+  ],
+  connections: [{ id: 'c1', sourceNodeId: 'trigger', sourcePortId: 'output_data', targetNodeId: 'llm', targetPortId: 'input_data' }],
+  variables: [{ id: 'v1', name: 'ticket', type: 'object', scope: 'global' }],
+  triggers: [],
+};
+
+describe('diffValues', () => {
+  it('should report added, removed and changed fields by path', () => {
+    expect(diffValues({ a: 1, nested: { b: 'x', c: true } }, { a: 2, nested: { b: 'x' }, d: [1] }, 'config')).toEqual([
+      { path: 'config.a', kind: 'changed', before: 1, after: 2 },
+      { path: 'config.d', kind: 'added', after: [1] },
+      { path: 'config.nested.c', kind: 'removed', before: true },
+    ]);
+  });
+});
+
+describe('diffWorkflows', () => {
+  it('should find no changes when only node positions moved', () => {
+    const moved = { ...base, nodes: base.nodes.map(node => ({ ...node, position: { x: 500, y: 500 } })) };
+
+    expect(isEmptyDiff(diffWorkflows(base, moved))).toBe(true);
+  });
+
+  it('should report added, removed and changed nodes and connections', () => {
+    const after = {
+      ...base,
+      nodes: [
+        base.nodes[0],
+        { ...base.nodes[1], name: 'Classify ticket', configuration: { model: 'gpt-4o', temperature: 0.2, maxTokens: 500 } },
+        { id: 'reply', type: 'response', name: 'Reply', configuration: {} },
+      ],
+      connections: [
+        ...base.connections,
+        { id: 'c2', sourceNodeId: 'llm', sourcePortId: 'output_data', targetNodeId: 'reply', targetPortId: 'input_data' },
+      ],
+    };
+
+    const diff = diffWorkflows(base, after);
+
+    expect(diff.nodesAdded).toEqual([{ id: 'reply', name: 'Reply', type: 'response' }]);
+    expect(diff.nodesRemoved).toEqual([]);
+    expect(diff.nodesChanged).toEqual([
+      {
+        id: 'llm',
+        name: 'Classify ticket',
+        type: 'llm',
+        changes: [
+          { path: 'name', kind: 'changed', before: 'Classify', after: 'Classify ticket' },
+          { path: 'configuration.maxTokens', kind: 'added', after: 500 },
+          { path: 'configuration.model', kind: 'changed', before: 'gpt-4', after: 'gpt-4o' },
+        ],
+      },
+    ]);
+    expect(diff.connectionsAdded).toEqual([
+      { sourceNodeId: 'llm', sourcePortId: 'output_data', targetNodeId: 'reply', targetPortId: 'input_data' },
+    ]);
+
+    const reverse = diffWorkflows(after, base);
+    expect(reverse.nodesRemoved.map(node => node.id)).toEqual(['reply']);
+    expect(reverse.connectionsRemoved).toHaveLength(1);
+  });
+
+  it('should compare builder-shaped workflows and workflow settings', () => {
+    const before = {
+      name: 'Builder flow',
+      nodes: [{ id: 'n1', type: 'action', data: { label: 'Send', config: { channel: 'email' } } }],
+      edges: [],
+      variables: [{ name: 'limit', type: 'number', value: 3 }],
+    };
+    const after = {
+      ...before,
+      name: 'Builder flow v2',
+      nodes: [{ id: 'n1', type: 'action', data: { label: 'Send', config: { channel: 'sms' } } }],
+      variables: [{ name: 'limit', type: 'number', value: 5 }],
+    };
+
+    const diff = diffWorkflows(before, after);
+
+    expect(diff.nodesChanged[0].changes).toEqual([
+      { path: 'configuration.channel', kind: 'changed', before: 'email', after: 'sms' },
+    ]);
+    expect(diff.settingsChanged).toEqual([
+      { path: 'name', kind: 'changed', before: 'Builder flow', after: 'Builder flow v2' },
+      { path: 'variables.limit.value', kind: 'changed', before: 3, after: 5 },
+    ]);
+  });
+});
+
+describe('revisionToWorkflow', () => {
+  it('should rebuild the workflow without sharing state with the revision', () => {
+    const revision = {
+      id: 'rev-3',
+      workflowId: 'wf-1',
+      revisionNumber: 3,
+      ...base,
+      settings: { errorWorkflowId: 'wf-errors' },
+      tags: ['support'],
+      createdAt: '2024-03-01T00:00:00.000Z',
+    };
+
+    const workflow = revisionToWorkflow(revision, { metadata: { created_by: 'user-1', is_template: false } } as any);
+    workflow.nodes[1].configuration.model = 'changed';
+
+    expect(workflow).toMatchObject({ id: 'wf-1', name: 'Support triage', settings: { errorWorkflowId: 'wf-errors' } });
+    expect(workflow.metadata).toMatchObject({ created_by: 'user-1', is_template: false, tags: ['support'], revision: 3 });
+    expect(revision.nodes[1].configuration.model).toBe('gpt-4');
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Workflow Revisions
+ * Immutable revision history, structural diffs and the published revision deployments run
+ */
+
+import { supabase } from './supabase';
+import { AgentWorkflow } from './workflow-types';
+
+export interface WorkflowRevision {
+  id: string;
+  workflowId: string;
+  revisionNumber: number;
+  name: string;
+  description: string;
+  version?: string;
+  nodes: any[];
+  connections: any[];
+  variables: any[];
+  triggers: any[];
+  settings: Record<string, any>;
+  tags: string[];
+  message?: string;
+  restoredFrom?: number;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CreateRevisionOptions {
+  message?: string;
+  userId?: string;
+  restoredFrom?: number;
+}
+
+export interface FieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+export interface NodeSummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface NodeChange extends NodeSummary {
+  changes: FieldChange[];
+}
+
+export interface ConnectionSummary {
+  sourceNodeId: string;
+  sourcePortId?: string;
+  targetNodeId: string;
+  targetPortId?: string;
+}
+
+export interface WorkflowDiff {
+  nodesAdded: NodeSummary[];
+  nodesRemoved: NodeSummary[];
+  nodesChanged: NodeChange[];
+  connectionsAdded: ConnectionSummary[];
+  connectionsRemoved: ConnectionSummary[];
+  // Name, description, variables, triggers and settings
+  settingsChanged: FieldChange[];
+}
+
+// Postgres unique_violation: another save took the same revision number first
+const UNIQUE_VIOLATION = '23505';
+const MAX_REVISION_ATTEMPTS = 3;
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level differences between two values. Objects are compared key by key;
+ * arrays and scalars are compared as a whole.
+ */
+export function diffValues(before: any, after: any, path: string = ''): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap(key => diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+  return isEqual(before, after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+// Both the visual builder (`data.config`, `edges`) and the executor (`configuration`,
+// `connections`) shapes are stored, so the diff reads either
+function getNodeConfiguration(node: any): Record<string, any> {
+  return node.configuration ?? node.data?.config ?? {};
+}
+
+function summarizeNode(node: any): NodeSummary {
+  return { id: node.id, name: node.name ?? node.data?.label ?? node.id, type: node.type };
+}
+
+function getConnections(workflow: any): ConnectionSummary[] {
+  return (workflow.connections ?? workflow.edges ?? []).map((connection: any) => ({
+    sourceNodeId: connection.sourceNodeId,
+    sourcePortId: connection.sourcePortId,
+    targetNodeId: connection.targetNodeId,
+    targetPortId: connection.targetPortId
+  }));
+}
+
+function connectionKey(connection: ConnectionSummary): string {
+  return `${connection.sourceNodeId}:${connection.sourcePortId ?? ''}->${connection.targetNodeId}:${connection.targetPortId ?? ''}`;
+}
+
+function keyBy(items: any[], key: string): Record<string, any> {
+  return Object.fromEntries((items || []).map((item, index) => [item?.[key] ?? String(index), item]));
+}
+
+/**
+ * Structural diff between two versions of a workflow. Node positions are layout
+ * only and are not reported.
+ */
+export function diffWorkflows(before: any, after: any): WorkflowDiff {
+  const beforeNodes = keyBy(before.nodes, 'id');
+  const afterNodes = keyBy(after.nodes, 'id');
+
+  const nodesChanged: NodeChange[] = [];
+  for (const [id, node] of Object.entries<any>(afterNodes)) {
+    const previous = beforeNodes[id];
+    if (!previous) continue;
+
+    const changes = [
+      ...diffValues(summarizeNode(previous).name, summarizeNode(node).name, 'name'),
+      ...diffValues(previous.type, node.type, 'type'),
+      ...diffValues(previous.description ?? previous.data?.description, node.description ?? node.data?.description, 'description'),
+      ...diffValues(getNodeConfiguration(previous), getNodeConfiguration(node), 'configuration')
+    ];
+    if (changes.length > 0) {
+      nodesChanged.push({ ...summarizeNode(node), changes });
+    }
+  }
+
+  const beforeConnections = getConnections(before);
+  const afterConnections = getConnections(after);
+  const beforeKeys = new Set(beforeConnections.map(connectionKey));
+  const afterKeys = new Set(afterConnections.map(connectionKey));
+
+  return {
+    nodesAdded: Object.values<any>(afterNodes).filter(node => !beforeNodes[node.id]).map(summarizeNode),
+    nodesRemoved: Object.values<any>(beforeNodes).filter(node => !afterNodes[node.id]).map(summarizeNode),
+    nodesChanged,
+    connectionsAdded: afterConnections.filter(connection => !beforeKeys.has(connectionKey(connection))),
+    connectionsRemoved: beforeConnections.filter(connection => !afterKeys.has(connectionKey(connection))),
+    settingsChanged: [
+      ...diffValues(before.name, after.name, 'name'),
+      ...diffValues(before.description || '', after.description || '', 'description'),
+      ...diffValues(keyBy(before.variables, 'name'), keyBy(after.variables, 'name'), 'variables'),
+      ...diffValues(keyBy(before.triggers, 'id'), keyBy(after.triggers, 'id'), 'triggers'),
+      ...diffValues(before.settings || {}, after.settings || {}, 'settings')
+    ]
+  };
+}
+
+export function isEmptyDiff(diff: WorkflowDiff): boolean {
+  return Object.values(diff).every(entries => entries.length === 0);
+}
+
+/**
+ * Workflow as it was saved in a revision
+ */
+export function revisionToWorkflow(revision: WorkflowRevision, workflow?: AgentWorkflow): AgentWorkflow {
+  return {
+    ...workflow,
+    id: revision.workflowId,
+    name: revision.name,
+    description: revision.description,
+    version: revision.version,
+    nodes: JSON.parse(JSON.stringify(revision.nodes)),
+    connections: JSON.parse(JSON.stringify(revision.connections)),
+    variables: JSON.parse(JSON.stringify(revision.variables)),
+    triggers: JSON.parse(JSON.stringify(revision.triggers)),
+    settings: JSON.parse(JSON.stringify(revision.settings || {})),
+    metadata: {
+      ...workflow?.metadata,
+      created_by: workflow?.metadata?.created_by ?? revision.createdBy,
+      tags: [...revision.tags],
+      revision: revision.revisionNumber
+    }
+  } as AgentWorkflow;
+}
+
+export class WorkflowRevisionService {
+  private static instance: WorkflowRevisionService;
+
+  static getInstance(): WorkflowRevisionService {
+    if (!WorkflowRevisionService.instance) {
+      WorkflowRevisionService.instance = new WorkflowRevisionService();
+    }
+    return WorkflowRevisionService.instance;
+  }
+
+  /**
+   * Store the workflow as its next revision
+   */
+  async createRevision(workflow: AgentWorkflow, options: CreateRevisionOptions = {}): Promise<WorkflowRevision> {
+    for (let attempt = 1; ; attempt++) {
+      const revisionNumber = (await this.getLatestRevisionNumber(workflow.id)) + 1;
+
+      const { data, error } = await supabase
+        .from('workflow_revisions')
+        .insert({
+          workflow_id: workflow.id,
+          revision_number: revisionNumber,
+          name: workflow.name,
+          description: workflow.description,
+          version: workflow.version,
+          workflow_data: {
+            nodes: workflow.nodes,
+            connections: workflow.connections,
+            variables: workflow.variables,
+            triggers: workflow.triggers,
+            settings: workflow.settings || {}
+          },
+          tags: workflow.metadata?.tags || [],
+          message: options.message,
+          restored_from: options.restoredFrom,
+          created_by: options.userId ?? workflow.metadata?.created_by
+        })
+        .select()
+        .single();
+
+      if (!error) {
+        return this.transformRevisionData(data);
+      }
+      if (error.code !== UNIQUE_VIOLATION || attempt >= MAX_REVISION_ATTEMPTS) {
+        throw new Error(`Failed to create workflow revision: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Revisions of a workflow, newest first
+   */
+  async listRevisions(workflowId: string, limit: number = 50): Promise<WorkflowRevision[]> {
+    const { data, error } = await supabase
+      .from('workflow_revisions')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .order('revision_number', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load workflow revisions: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.transformRevisionData(row));
+  }
+
+  async getRevision(workflowId: string, revisionNumber: number): Promise<WorkflowRevision | null> {
+    const { data, error } = await supabase
+      .from('workflow_revisions')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .eq('revision_number', revisionNumber)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load workflow revision: ${error.message}`);
+    }
+
+    return data ? this.transformRevisionData(data) : null;
+  }
+
+  /**
+   * Workflow as saved in a revision, for running a pinned version
+   */
+  async loadRevisionWorkflow(workflowId: string, revisionNumber: number): Promise<AgentWorkflow> {
+    const revision = await this.getRevision(workflowId, revisionNumber);
+    if (!revision) {
+      throw new Error(`Revision ${revisionNumber} of workflow ${workflowId} not found`);
+    }
+    return revisionToWorkflow(revision);
+  }
+
+  async diffRevisions(workflowId: string, fromRevision: number, toRevision: number): Promise<WorkflowDiff> {
+    const [from, to] = await Promise.all([
+      this.getRevision(workflowId, fromRevision),
+      this.getRevision(workflowId, toRevision)
+    ]);
+    if (!from || !to) {
+      throw new Error(`Revision ${!from ? fromRevision : toRevision} of workflow ${workflowId} not found`);
+    }
+    return diffWorkflows(from, to);
+  }
+
+  /**
+   * Mark a revision as the one new deployments run. Editing the draft afterwards
+   * does not change it.
+   */
+  async publishRevision(workflowId: string, revisionNumber: number): Promise<void> {
+    const revision = await this.getRevision(workflowId, revisionNumber);
+    if (!revision) {
+      throw new Error(`Revision ${revisionNumber} of workflow ${workflowId} not found`);
+    }
+
+    const { error } = await supabase
+      .from('agent_workflows')
+      .update({ published_revision: revisionNumber })
+      .eq('id', workflowId);
+
+    if (error) {
+      throw new Error(`Failed to publish workflow revision: ${error.message}`);
+    }
+  }
+
+  async getPublishedRevisionNumber(workflowId: string): Promise<number | null> {
+    const { data, error } = await supabase
+      .from('agent_workflows')
+      .select('published_revision')
+      .eq('id', workflowId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load workflow: ${error.message}`);
+    }
+
+    return data?.published_revision ?? null;
+  }
+
+  private async getLatestRevisionNumber(workflowId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('workflow_revisions')
+      .select('revision_number')
+      .eq('workflow_id', workflowId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load workflow revisions: ${error.message}`);
+    }
+
+    return data?.revision_number ?? 0;
+  }
+
+  private transformRevisionData(data: any): WorkflowRevision {
+    const definition = data.workflow_data || {};
+
+    return {
+      id: data.id,
+      workflowId: data.workflow_id,
+      revisionNumber: data.revision_number,
+      name: data.name,
+      description: data.description || '',
+      version: data.version ?? undefined,
+      nodes: definition.nodes || [],
+      connections: definition.connections || definition.edges || [],
+      variables: definition.variables || [],
+      triggers: definition.triggers || [],
+      settings: definition.settings || {},
+      tags: data.tags || [],
+      message: data.message ?? undefined,
+      restoredFrom: data.restored_from ?? undefined,
+      createdBy: data.created_by ?? undefined,
+      createdAt: data.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const workflowRevisionService = WorkflowRevisionService.getInstance();
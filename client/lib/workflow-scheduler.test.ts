@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./supabase', () => ({ supabase: { from: vi.fn() } }));
+vi.mock('./workflow-executor', () => ({ workflowExecutor: { executeWorkflow: vi.fn(), loadWorkflow: vi.fn() } }));
+
+import {
+  MAX_CATCH_UP_RUNS,
+  WorkflowSchedule,
+  getNextRunTime,
+  getScheduleFromNode,
+  planDueRuns,
+  validateSchedule,
+} from './workflow-scheduler';
+
+const schedule = (overrides: Partial<WorkflowSchedule> = {}): WorkflowSchedule => ({
+  workflowId: 'wf-1',
+  nodeId: 'schedule',
+  scheduleType: 'cron',
+  cronExpression: '0 * * * *',
+  timezone: 'UTC',
+  misfirePolicy: 'skip',
+  allowOverlap: false,
+  enabled: true,
+  nextRunAt: '2024-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('getNextRunTime', () => {
+  it('should count intervals from the scheduled time', () => {
+    const interval = schedule({
+      scheduleType: 'recurring',
+      intervalMinutes: 90,
+      scheduledTime: '2024-03-01T08:00:00.000Z',
+    });
+
+    expect(getNextRunTime(interval, new Date('2024-03-01T07:00:00Z'))?.toISOString()).toBe('2024-03-01T08:00:00.000Z');
+    expect(getNextRunTime(interval, new Date('2024-03-01T09:30:00Z'))?.toISOString()).toBe('2024-03-01T11:00:00.000Z');
+  });
+
+  it('should fire one-time schedules once', () => {
+    const once = schedule({ scheduleType: 'once', scheduledTime: '2024-03-01T08:00:00.000Z' });
+
+    expect(getNextRunTime(once, new Date('2024-03-01T07:00:00Z'))?.toISOString()).toBe('2024-03-01T08:00:00.000Z');
+    expect(getNextRunTime(once, new Date('2024-03-01T08:00:00Z'))).toBeNull();
+  });
+});
+
+describe('planDueRuns', () => {
+  it('should run an on-time slot and move to the next one', () => {
+    const plan = planDueRuns(schedule(), new Date('2024-03-01T10:00:20Z'));
+
+    expect(iso(plan.due)).toEqual(['2024-03-01T10:00:00.000Z']);
+    expect(plan.missed).toEqual([]);
+    expect(plan.nextRunAt?.toISOString()).toBe('2024-03-01T11:00:00.000Z');
+  });
+
+  it('should do nothing before the next run', () => {
+    const plan = planDueRuns(schedule(), new Date('2024-03-01T09:59:00Z'));
+
+    expect(plan.due).toEqual([]);
+    expect(plan.nextRunAt?.toISOString()).toBe('2024-03-01T10:00:00.000Z');
+  });
+
+  it('should drop misfired runs with the skip policy', () => {
+    const plan = planDueRuns(schedule(), new Date('2024-03-01T12:30:00Z'));
+
+    expect(plan.due).toEqual([]);
+    expect(plan.missed).toHaveLength(3);
+    expect(plan.nextRunAt?.toISOString()).toBe('2024-03-01T13:00:00.000Z');
+  });
+
+  it('should run every missed slot with the catch_up policy', () => {
+    const plan = planDueRuns(schedule({ misfirePolicy: 'catch_up' }), new Date('2024-03-01T12:30:00Z'));
+
+    expect(iso(plan.due)).toEqual([
+      '2024-03-01T10:00:00.000Z',
+      '2024-03-01T11:00:00.000Z',
+      '2024-03-01T12:00:00.000Z',
+    ]);
+  });
+
+  it('should cap catch-up runs', () => {
+    const plan = planDueRuns(schedule({ misfirePolicy: 'catch_up' }), new Date('2024-03-05T00:00:00Z'));
+
+    expect(plan.due).toHaveLength(MAX_CATCH_UP_RUNS);
+    expect(plan.missed.length).toBeGreaterThan(0);
+    expect(plan.nextRunAt?.toISOString()).toBe('2024-03-05T01:00:00.000Z');
+  });
+
+  it('should run once for all missed slots with the run_once policy', () => {
+    const plan = planDueRuns(schedule({ misfirePolicy: 'run_once' }), new Date('2024-03-01T12:30:00Z'));
+
+    expect(iso(plan.due)).toEqual(['2024-03-01T12:00:00.000Z']);
+    expect(plan.missed).toHaveLength(2);
+  });
+});
+
+describe('schedule configuration', () => {
+  it('should read the schedule from a trigger node', () => {
+    const parsed = getScheduleFromNode('wf-1', {
+      id: 'node-1',
+      configuration: { scheduleType: 'recurring', intervalMinutes: '15', timezone: 'Europe/Berlin' },
+    });
+
+    expect(parsed).toMatchObject({ intervalMinutes: 15, misfirePolicy: 'skip', allowOverlap: false, enabled: true });
+    expect(validateSchedule(parsed)).toEqual([]);
+  });
+
+  it('should report invalid schedules', () => {
+    expect(validateSchedule(schedule({ cronExpression: 'every hour', timezone: 'Nowhere' }))).toHaveLength(2);
+    expect(validateSchedule(schedule({ scheduleType: 'recurring' }))).toEqual([
+      'Interval in minutes is required for recurring schedule',
+    ]);
+  });
+});
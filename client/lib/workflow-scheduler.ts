@@ -0,0 +1,561 @@
+/**
+ * Workflow Scheduler
+ * Fires schedule trigger nodes of active workflows on their cron or interval.
+ * Ticks run server-side from a Netlify scheduled function, so schedules fire
+ * whether or not anyone has the app open.
+ */
+
+import { AgentWorkflow } from './workflow-types';
+import { getNextCronTime, isValidTimeZone, validateCronExpression } from './cron';
+import { workflowExecutor } from './workflow-executor';
+import { supabase } from './supabase';
+
+export type ScheduleType = 'once' | 'recurring' | 'cron';
+
+/**
+ * What to do with runs that were due while the scheduler was not running:
+ * - skip: drop them and wait for the next slot
+ * - catch_up: run every missed slot (up to MAX_CATCH_UP_RUNS)
+ * - run_once: run a single time for all missed slots
+ */
+export type MisfirePolicy = 'skip' | 'catch_up' | 'run_once';
+
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface WorkflowSchedule {
+  id?: string;
+  workflowId: string;
+  nodeId: string;
+  scheduleType: ScheduleType;
+  cronExpression?: string;
+  intervalMinutes?: number;
+  scheduledTime?: string;
+  timezone: string;
+  misfirePolicy: MisfirePolicy;
+  allowOverlap: boolean;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt?: string | null;
+  lockedUntil?: string | null;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  workflowId: string;
+  scheduledFor: string;
+  startedAt?: string;
+  completedAt?: string;
+  status: ScheduleRunStatus;
+  executionId?: string;
+  reason?: string;
+  error?: string;
+}
+
+export interface UpcomingRun {
+  scheduleId?: string;
+  nodeId: string;
+  runAt: string;
+}
+
+export interface ScheduleRunPlan {
+  // Slots to execute now, oldest first
+  due: Date[];
+  // Slots that were due but are dropped by the misfire policy
+  missed: Date[];
+  nextRunAt: Date | null;
+}
+
+export const SCHEDULE_TRIGGER_NODE_TYPE = 'schedule_trigger';
+
+// A run this late is a misfire rather than an on-time run that the tick picked up
+export const MISFIRE_GRACE_MS = 2 * 60 * 1000;
+export const MAX_CATCH_UP_RUNS = 25;
+
+// How long a run blocks overlapping runs if it never reports back
+const RUN_LEASE_MS = 60 * 60 * 1000;
+
+/**
+ * Read the schedule configured on a schedule trigger node
+ */
+export function getScheduleFromNode(workflowId: string, node: { id: string; configuration?: Record<string, any> }): WorkflowSchedule {
+  const configuration = node.configuration || {};
+  const intervalMinutes = Number(configuration.intervalMinutes);
+
+  return {
+    workflowId,
+    nodeId: node.id,
+    scheduleType: configuration.scheduleType || 'once',
+    cronExpression: configuration.cronExpression || undefined,
+    intervalMinutes: intervalMinutes > 0 ? intervalMinutes : undefined,
+    scheduledTime: configuration.scheduledTime || undefined,
+    timezone: configuration.timezone || 'UTC',
+    misfirePolicy: configuration.misfirePolicy || 'skip',
+    allowOverlap: configuration.allowOverlap === true,
+    enabled: configuration.enabled !== false,
+    nextRunAt: null
+  };
+}
+
+/**
+ * Configuration problems that stop a schedule from firing
+ */
+export function validateSchedule(schedule: WorkflowSchedule): string[] {
+  const errors: string[] = [];
+
+  if (!isValidTimeZone(schedule.timezone)) {
+    errors.push(`Unknown timezone: ${schedule.timezone}`);
+  }
+
+  switch (schedule.scheduleType) {
+    case 'once':
+      if (!schedule.scheduledTime || isNaN(Date.parse(schedule.scheduledTime))) {
+        errors.push('Scheduled time is required for one-time schedule');
+      }
+      break;
+    case 'recurring':
+      if (!schedule.intervalMinutes) {
+        errors.push('Interval in minutes is required for recurring schedule');
+      }
+      break;
+    case 'cron': {
+      const { isValid, error } = validateCronExpression(schedule.cronExpression || '');
+      if (!isValid) {
+        errors.push(`Invalid cron expression: ${error}`);
+      }
+      break;
+    }
+    default:
+      errors.push(`Unknown schedule type: ${schedule.scheduleType}`);
+  }
+
+  if (!['skip', 'catch_up', 'run_once'].includes(schedule.misfirePolicy)) {
+    errors.push(`Unknown misfire policy: ${schedule.misfirePolicy}`);
+  }
+
+  return errors;
+}
+
+/**
+ * The first slot strictly after `after`, or null when the schedule never fires again.
+ * Intervals are counted from the scheduled time, or from the Unix epoch without one.
+ */
+export function getNextRunTime(schedule: WorkflowSchedule, after: Date): Date | null {
+  const afterMs = after.getTime();
+
+  switch (schedule.scheduleType) {
+    case 'once': {
+      const runAt = Date.parse(schedule.scheduledTime || '');
+      return runAt > afterMs ? new Date(runAt) : null;
+    }
+    case 'recurring': {
+      const intervalMs = (schedule.intervalMinutes || 0) * 60 * 1000;
+      if (!intervalMs) return null;
+
+      const anchor = schedule.scheduledTime ? Date.parse(schedule.scheduledTime) : 0;
+      if (anchor > afterMs) return new Date(anchor);
+
+      const intervals = Math.floor((afterMs - anchor) / intervalMs) + 1;
+      return new Date(anchor + intervals * intervalMs);
+    }
+    case 'cron':
+      return getNextCronTime(schedule.cronExpression || '', after, schedule.timezone);
+    default:
+      return null;
+  }
+}
+
+export function getUpcomingRunTimes(schedule: WorkflowSchedule, after: Date, count: number): Date[] {
+  const times: Date[] = [];
+  let cursor: Date | null = schedule.nextRunAt ? new Date(schedule.nextRunAt) : getNextRunTime(schedule, after);
+
+  while (cursor && times.length < count) {
+    if (cursor > after) {
+      times.push(cursor);
+    }
+    cursor = getNextRunTime(schedule, cursor);
+  }
+
+  return times;
+}
+
+/**
+ * Decide which due slots to run at `now` according to the misfire policy
+ */
+export function planDueRuns(schedule: WorkflowSchedule, now: Date): ScheduleRunPlan {
+  const slots: Date[] = [];
+  let cursor: Date | null = schedule.nextRunAt ? new Date(schedule.nextRunAt) : null;
+
+  // Walk one slot past the cap so the policy knows more runs were missed
+  while (cursor && cursor <= now && slots.length <= MAX_CATCH_UP_RUNS) {
+    slots.push(cursor);
+    cursor = getNextRunTime(schedule, cursor);
+  }
+
+  if (slots.length === 0) {
+    return { due: [], missed: [], nextRunAt: cursor };
+  }
+
+  const nextRunAt = cursor && cursor > now ? cursor : getNextRunTime(schedule, now);
+  const latest = slots[slots.length - 1];
+
+  switch (schedule.misfirePolicy) {
+    case 'catch_up':
+      return {
+        due: slots.slice(-MAX_CATCH_UP_RUNS),
+        missed: slots.slice(0, -MAX_CATCH_UP_RUNS),
+        nextRunAt
+      };
+    case 'run_once':
+      return { due: [latest], missed: slots.slice(0, -1), nextRunAt };
+    case 'skip':
+    default:
+      return now.getTime() - latest.getTime() <= MISFIRE_GRACE_MS
+        ? { due: [latest], missed: slots.slice(0, -1), nextRunAt }
+        : { due: [], missed: slots, nextRunAt };
+  }
+}
+
+export class WorkflowScheduler {
+  private static instance: WorkflowScheduler;
+  private ticking = false;
+  private runs = new Set<Promise<void>>();
+
+  static getInstance(): WorkflowScheduler {
+    if (!WorkflowScheduler.instance) {
+      WorkflowScheduler.instance = new WorkflowScheduler();
+    }
+    return WorkflowScheduler.instance;
+  }
+
+  /**
+   * Wait until the runs dispatched by earlier ticks have finished
+   */
+  async waitForRuns(): Promise<void> {
+    while (this.runs.size > 0) {
+      await Promise.allSettled([...this.runs]);
+    }
+  }
+
+  /**
+   * Mirror the schedule trigger nodes of a workflow into workflow_schedules.
+   * Called whenever the workflow is saved; next runs are computed from now.
+   */
+  async syncWorkflowSchedules(workflow: AgentWorkflow): Promise<WorkflowSchedule[]> {
+    const now = new Date();
+    const schedules = workflow.nodes
+      .filter(node => node.type === SCHEDULE_TRIGGER_NODE_TYPE)
+      .map(node => getScheduleFromNode(workflow.id, node))
+      .map(schedule => {
+        const valid = validateSchedule(schedule).length === 0;
+        return {
+          ...schedule,
+          enabled: schedule.enabled && valid,
+          nextRunAt: valid ? getNextRunTime(schedule, now)?.toISOString() ?? null : null
+        };
+      });
+
+    const nodeIds = schedules.map(schedule => schedule.nodeId);
+    let staleQuery = supabase.from('workflow_schedules').delete().eq('workflow_id', workflow.id);
+    if (nodeIds.length > 0) {
+      staleQuery = staleQuery.not('node_id', 'in', `(${nodeIds.map(id => `"${id}"`).join(',')})`);
+    }
+
+    const { error: deleteError } = await staleQuery;
+    if (deleteError) {
+      throw new Error(`Failed to sync workflow schedules: ${deleteError.message}`);
+    }
+
+    if (schedules.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('workflow_schedules')
+      .upsert(schedules.map(schedule => this.scheduleToRow(schedule)), { onConflict: 'workflow_id,node_id' })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to sync workflow schedules: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.scheduleFromRow(row));
+  }
+
+  async getSchedules(workflowId: string): Promise<WorkflowSchedule[]> {
+    const { data, error } = await supabase
+      .from('workflow_schedules')
+      .select('*')
+      .eq('workflow_id', workflowId);
+
+    if (error) {
+      throw new Error(`Failed to load workflow schedules: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.scheduleFromRow(row));
+  }
+
+  async getUpcomingRuns(workflowId: string, count: number = 5): Promise<UpcomingRun[]> {
+    const now = new Date();
+    const schedules = await this.getSchedules(workflowId);
+
+    return schedules
+      .filter(schedule => schedule.enabled)
+      .flatMap(schedule =>
+        getUpcomingRunTimes(schedule, now, count).map(runAt => ({
+          scheduleId: schedule.id,
+          nodeId: schedule.nodeId,
+          runAt: runAt.toISOString()
+        }))
+      )
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))
+      .slice(0, count);
+  }
+
+  async getRunHistory(workflowId: string, limit: number = 20): Promise<ScheduleRun[]> {
+    const { data, error } = await supabase
+      .from('workflow_schedule_runs')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .order('scheduled_for', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load schedule runs: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      scheduleId: row.schedule_id,
+      workflowId: row.workflow_id,
+      scheduledFor: row.scheduled_for,
+      startedAt: row.started_at ?? undefined,
+      completedAt: row.completed_at ?? undefined,
+      status: row.status as ScheduleRunStatus,
+      executionId: row.execution_id ?? undefined,
+      reason: row.reason ?? undefined,
+      error: row.error_message ?? undefined
+    }));
+  }
+
+  /**
+   * Fire every schedule that is due. Runs are dispatched in the background so a
+   * slow workflow does not hold up the other schedules.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const schedules = await this.getDueSchedules(now);
+      const activeWorkflowIds = await this.getActiveWorkflowIds(schedules.map(schedule => schedule.workflowId));
+
+      for (const schedule of schedules) {
+        await this.fireSchedule(schedule, now, activeWorkflowIds.has(schedule.workflowId));
+      }
+    } catch (error) {
+      console.error('Workflow scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async getDueSchedules(now: Date = new Date()): Promise<WorkflowSchedule[]> {
+    const { data, error } = await supabase
+      .from('workflow_schedules')
+      .select('*')
+      .eq('enabled', true)
+      .lte('next_run_at', now.toISOString());
+
+    if (error) throw error;
+
+    return (data || []).map(row => this.scheduleFromRow(row));
+  }
+
+  private async fireSchedule(schedule: WorkflowSchedule, now: Date, workflowActive: boolean): Promise<void> {
+    const plan = planDueRuns(schedule, now);
+    const overlapping = !schedule.allowOverlap &&
+      !!schedule.lockedUntil && new Date(schedule.lockedUntil) > now;
+    const willRun = workflowActive && !overlapping && plan.due.length > 0;
+
+    // Only the instance whose update still sees the old next_run_at owns this tick
+    const { data: claimed, error } = await supabase
+      .from('workflow_schedules')
+      .update({
+        next_run_at: plan.nextRunAt?.toISOString() ?? null,
+        enabled: plan.nextRunAt !== null,
+        ...(willRun && {
+          last_run_at: now.toISOString(),
+          locked_until: new Date(now.getTime() + RUN_LEASE_MS).toISOString()
+        })
+      })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.nextRunAt)
+      .select('id');
+
+    if (error) {
+      console.error(`Failed to claim schedule ${schedule.id}:`, error);
+      return;
+    }
+    if (!claimed || claimed.length === 0) {
+      return;
+    }
+
+    // Inactive workflows keep their schedule but do not run or build up history
+    if (!workflowActive) {
+      return;
+    }
+
+    if (plan.missed.length > 0) {
+      await this.recordSkippedRun(
+        schedule,
+        plan.missed[plan.missed.length - 1],
+        `Missed ${plan.missed.length} run(s) while the scheduler was not running`
+      );
+    }
+
+    if (overlapping) {
+      for (const scheduledFor of plan.due) {
+        await this.recordSkippedRun(schedule, scheduledFor, 'Previous run is still in progress');
+      }
+      return;
+    }
+
+    if (willRun) {
+      const run = this.runSchedule(schedule, plan.due).catch(runError => {
+        console.error(`Scheduled run of workflow ${schedule.workflowId} failed:`, runError);
+      });
+      this.runs.add(run);
+      run.finally(() => this.runs.delete(run));
+    }
+  }
+
+  private async runSchedule(schedule: WorkflowSchedule, slots: Date[]): Promise<void> {
+    try {
+      const workflow = await workflowExecutor.loadWorkflow(schedule.workflowId);
+
+      // Catch-up runs go one after another so they never overlap each other
+      for (const scheduledFor of slots) {
+        await this.runSlot(workflow, schedule, scheduledFor);
+      }
+    } finally {
+      await supabase
+        .from('workflow_schedules')
+        .update({ locked_until: null })
+        .eq('id', schedule.id);
+    }
+  }
+
+  private async runSlot(workflow: AgentWorkflow, schedule: WorkflowSchedule, scheduledFor: Date): Promise<void> {
+    const { data: run } = await supabase
+      .from('workflow_schedule_runs')
+      .insert({
+        schedule_id: schedule.id,
+        workflow_id: schedule.workflowId,
+        scheduled_for: scheduledFor.toISOString(),
+        started_at: new Date().toISOString(),
+        status: 'running'
+      })
+      .select('id')
+      .single();
+
+    let update: Record<string, any>;
+    try {
+      const execution = await workflowExecutor.executeWorkflow(
+        workflow,
+        { scheduledTime: scheduledFor.toISOString() },
+        {
+          context: {
+            trigger: 'schedule',
+            scheduleId: schedule.id,
+            triggerNodeId: schedule.nodeId,
+            scheduledFor: scheduledFor.toISOString()
+          }
+        }
+      );
+
+      update = {
+        status: execution.status === 'completed' ? 'completed' : 'failed',
+        execution_id: execution.id,
+        error_message: execution.error ?? null
+      };
+    } catch (error) {
+      update = { status: 'failed', error_message: error.message };
+    }
+
+    if (run) {
+      await supabase
+        .from('workflow_schedule_runs')
+        .update({ ...update, completed_at: new Date().toISOString() })
+        .eq('id', run.id);
+    }
+  }
+
+  private async recordSkippedRun(schedule: WorkflowSchedule, scheduledFor: Date, reason: string): Promise<void> {
+    const { error } = await supabase.from('workflow_schedule_runs').insert({
+      schedule_id: schedule.id,
+      workflow_id: schedule.workflowId,
+      scheduled_for: scheduledFor.toISOString(),
+      status: 'skipped',
+      reason
+    });
+
+    if (error) {
+      console.error(`Failed to record skipped run for schedule ${schedule.id}:`, error);
+    }
+  }
+
+  private async getActiveWorkflowIds(workflowIds: string[]): Promise<Set<string>> {
+    if (workflowIds.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await supabase
+      .from('agent_workflows')
+      .select('id')
+      .in('id', [...new Set(workflowIds)])
+      .eq('status', 'active');
+
+    if (error) throw error;
+
+    return new Set((data || []).map(row => row.id));
+  }
+
+  private scheduleToRow(schedule: WorkflowSchedule) {
+    return {
+      workflow_id: schedule.workflowId,
+      node_id: schedule.nodeId,
+      schedule_type: schedule.scheduleType,
+      cron_expression: schedule.cronExpression ?? null,
+      interval_minutes: schedule.intervalMinutes ?? null,
+      scheduled_time: schedule.scheduledTime ?? null,
+      timezone: schedule.timezone,
+      misfire_policy: schedule.misfirePolicy,
+      allow_overlap: schedule.allowOverlap,
+      enabled: schedule.enabled,
+      next_run_at: schedule.nextRunAt
+    };
+  }
+
+  private scheduleFromRow(row: any): WorkflowSchedule {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      nodeId: row.node_id,
+      scheduleType: row.schedule_type,
+      cronExpression: row.cron_expression ?? undefined,
+      intervalMinutes: row.interval_minutes ?? undefined,
+      scheduledTime: row.scheduled_time ?? undefined,
+      timezone: row.timezone,
+      misfirePolicy: row.misfire_policy,
+      allowOverlap: row.allow_overlap,
+      enabled: row.enabled,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+      lockedUntil: row.locked_until
+    };
+  }
+}
+
+// Export singleton instance
+export const workflowScheduler = WorkflowScheduler.getInstance();
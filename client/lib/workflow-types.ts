@@ -59,6 +59,11 @@ export interface WorkflowCondition {
   logicalOperator?: 'AND' | 'OR';
 }
 
+export interface WorkflowSettings {
+  // Workflow started with the error and failed execution when this one fails
+  errorWorkflowId?: string;
+}
+
 export interface Workflow {
   id: string;
   name: string;
@@ -69,6 +74,7 @@ export interface Workflow {
   edges: WorkflowEdge[];
   variables: WorkflowVariable[];
   triggers: WorkflowTrigger[];
+  settings?: WorkflowSettings;
   metadata: {
     createdAt: string;
     updatedAt: string;
@@ -85,6 +91,12 @@ export interface WorkflowVariable {
   value?: any;
   description?: string;
   scope: 'global' | 'local';
+  // Declares the variable as an input or output when the workflow runs as a subworkflow
+  direction?: 'input' | 'output';
+  required?: boolean;
+  // Readonly variables cannot be changed by nodes; encrypted ones are kept out of execution records
+  readonly?: boolean;
+  encrypted?: boolean;
 }
 
 export interface WorkflowTrigger {
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FakeDatabaseError, type RpcHandler, type SupabaseFake } from './testing/supabase-fake';
+
+const resumeExecution = vi.hoisted(() => vi.fn());
+
+vi.mock('./supabase', async () => {
+  const { SupabaseFake } = await import('./testing/supabase-fake');
+  return {
+    supabase: new SupabaseFake({
+      defaults: { workflow_waits: () => ({ status: 'pending', created_at: new Date().toISOString() }) },
+    }),
+  };
+});
+vi.mock('./workflow-executor', () => ({ workflowExecutor: { resumeExecution } }));
+
+import { supabase } from './supabase';
+import { WorkflowSuspendedError, WorkflowWaitError, workflowWaitService } from './workflow-waits';
+import { WaitNode } from './workflow-nodes/wait-node';
+import { WorkflowExecutionContext } from './workflow-nodes/base-node';
+
+const db = supabase as unknown as SupabaseFake;
+
+const row = (overrides: Record<string, any> = {}) => ({
+  id: 'wait-1',
+  execution_id: 'exec-1',
+  workflow_id: 'wf-1',
+  node_id: 'approve',
+  node_name: 'Approve refund',
+  condition: 'approval',
+  status: 'pending',
+  title: 'Approve refund',
+  assignee: 'Lead@Example.com',
+  context: { amount: 40 },
+  created_at: '2024-05-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const waitNode = (configuration: Record<string, any>) => new WaitNode({
+  id: 'approve',
+  type: 'human_handoff',
+  name: 'Approve refund',
+  category: 'logic',
+  configuration,
+  inputs: [],
+  outputs: [],
+} as any);
+
+const context = () => new WorkflowExecutionContext({
+  workflowId: 'wf-1',
+  executionId: 'exec-1',
+  userId: 'user-1',
+  variables: {},
+});
+
+// decide_workflow_wait as the given user: only the assignee decides a pending approval
+const decideAs = (caller: string): RpcHandler => (args, fake) => {
+  const wait = fake.table('workflow_waits').find(w => w.id === args.wait_id && w.condition === 'approval');
+  if (!wait) {
+    throw new FakeDatabaseError('WW002', `Approval ${args.wait_id} not found`);
+  }
+  if (wait.assignee.toLowerCase() !== caller) {
+    throw new FakeDatabaseError('WW003', `Only ${wait.assignee} can decide this approval`);
+  }
+  if (wait.status !== 'pending') {
+    return [];
+  }
+  Object.assign(wait, {
+    status: args.decision_status,
+    decision: args.decision_payload ?? null,
+    comment: args.decision_comment ?? null,
+    decided_by: caller,
+    resolved_at: new Date().toISOString(),
+  });
+  return [wait];
+};
+
+const stored = (id: string) => db.table('workflow_waits').find(wait => wait.id === id);
+
+beforeEach(() => {
+  db.reset();
+  db.functions.decide_workflow_wait = decideAs('lead@example.com');
+  resumeExecution.mockReset();
+});
+
+describe('WorkflowWaitService', () => {
+  it('should record an approval through the database and leave the resume to the sweep', async () => {
+    db.seed('workflow_waits', [row()]);
+
+    const wait = await workflowWaitService.approve('wait-1', { payload: { note: 'ok' } });
+
+    expect(wait).toMatchObject({ status: 'approved', decidedBy: 'lead@example.com', decision: { note: 'ok' } });
+    expect(stored('wait-1')).toMatchObject({ status: 'approved', decided_by: 'lead@example.com', decision: { note: 'ok' } });
+    expect(stored('wait-1').resumed_at).toBeUndefined();
+    expect(resumeExecution).not.toHaveBeenCalled();
+  });
+
+  it('should only let the assignee decide', async () => {
+    db.seed('workflow_waits', [row()]);
+    db.functions.decide_workflow_wait = decideAs('someone@example.com');
+
+    await expect(workflowWaitService.reject('wait-1'))
+      .rejects.toThrow(new WorkflowWaitError('Only Lead@Example.com can decide this approval', 'wait-1'));
+    expect(stored('wait-1').status).toBe('pending');
+    expect(resumeExecution).not.toHaveBeenCalled();
+  });
+
+  it('should report an approval that was already decided', async () => {
+    db.seed('workflow_waits', [row({ status: 'rejected', decided_by: 'lead@example.com' })]);
+
+    await expect(workflowWaitService.approve('wait-1')).rejects.toThrow('already decided');
+    expect(stored('wait-1').status).toBe('rejected');
+    expect(resumeExecution).not.toHaveBeenCalled();
+  });
+
+  it('should resume decided approvals once from the sweep', async () => {
+    const decided = { status: 'approved', decided_by: 'lead@example.com', resumed_at: null };
+    db.seed('workflow_waits', [
+      row({ ...decided, resolved_at: '2024-05-01T10:01:00.000Z' }),
+      row({ ...decided, id: 'wait-2', execution_id: 'exec-2', resolved_at: '2024-05-01T10:02:00.000Z' }),
+      row({ id: 'wait-3', execution_id: 'exec-3' }),
+    ]);
+    // Another sweep claims wait-1 first
+    db.beforeNext('workflow_waits', 'update', () => {
+      stored('wait-1').resumed_at = '2024-05-01T10:05:00.000Z';
+    });
+
+    const resumed = await workflowWaitService.resumeResolvedWaits();
+    const again = await workflowWaitService.resumeResolvedWaits();
+
+    expect(resumed.map(wait => wait.id)).toEqual(['wait-2']);
+    expect(again).toEqual([]);
+    expect(stored('wait-2').resumed_at).toEqual(expect.any(String));
+    expect(stored('wait-3').resumed_at).toBeUndefined();
+    expect(resumeExecution).toHaveBeenCalledTimes(1);
+    expect(resumeExecution).toHaveBeenCalledWith('exec-2');
+  });
+
+  it('should resume a wait again from the next sweep when resuming failed', async () => {
+    db.seed('workflow_waits', [row({ status: 'approved', decided_by: 'lead@example.com', resumed_at: null })]);
+    resumeExecution.mockRejectedValueOnce(new Error('Execution store unavailable'));
+
+    expect(await workflowWaitService.resumeResolvedWaits()).toEqual([]);
+    expect(stored('wait-1').resumed_at).toBeNull();
+
+    const retried = await workflowWaitService.resumeResolvedWaits();
+
+    expect(retried.map(wait => wait.id)).toEqual(['wait-1']);
+    expect(stored('wait-1').resumed_at).toEqual(expect.any(String));
+    expect(resumeExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count pending waits past their timeout and resolved waits not resumed yet', async () => {
+    db.seed('workflow_waits', [
+      row({ id: 'expired', timeout_at: '2024-05-01T09:00:00.000Z' }),
+      row({ id: 'running', timeout_at: '2024-05-01T11:00:00.000Z' }),
+      row({ id: 'decided', status: 'approved', resumed_at: null }),
+      row({ id: 'resumed', status: 'approved', resumed_at: '2024-05-01T09:30:00.000Z' }),
+    ]);
+
+    expect(await workflowWaitService.countDueWaits(new Date('2024-05-01T10:00:00.000Z'))).toBe(2);
+  });
+
+  it('should resume every webhook wait with the correlation key', async () => {
+    db.seed('workflow_waits', [
+      row({ condition: 'webhook', assignee: null, correlation_key: 'order-7' }),
+      row({ id: 'wait-2', execution_id: 'exec-2', condition: 'webhook', assignee: null, correlation_key: 'order-8' }),
+    ]);
+
+    const resolved = await workflowWaitService.resolveByCorrelationKey('order-7', { paid: true });
+
+    expect(resolved.map(wait => wait.status)).toEqual(['received']);
+    expect(stored('wait-1')).toMatchObject({ status: 'received', decided_by: 'webhook', decision: { paid: true } });
+    expect(stored('wait-1').resumed_at).toEqual(expect.any(String));
+    expect(stored('wait-2').status).toBe('pending');
+    expect(resumeExecution).toHaveBeenCalledTimes(1);
+    expect(resumeExecution).toHaveBeenCalledWith('exec-1');
+  });
+});
+
+describe('WaitNode', () => {
+  it('should create a wait and suspend on its first run', async () => {
+    await expect(waitNode({ condition: 'approval', approver: 'Lead@Example.com', timeout_minutes: 30 })
+      .execute({ amount: 40 }, context()))
+      .rejects.toBeInstanceOf(WorkflowSuspendedError);
+
+    expect(db.table('workflow_waits')).toEqual([expect.objectContaining({
+      execution_id: 'exec-1',
+      node_id: 'approve',
+      condition: 'approval',
+      status: 'pending',
+      assignee: 'Lead@Example.com',
+      context: { amount: 40 },
+      timeout_at: expect.any(String),
+    })]);
+  });
+
+  it('should stay suspended while the wait is pending', async () => {
+    db.seed('workflow_waits', [row()]);
+
+    await expect(waitNode({ condition: 'approval' }).execute({}, context()))
+      .rejects.toBeInstanceOf(WorkflowSuspendedError);
+    expect(db.table('workflow_waits')).toHaveLength(1);
+  });
+
+  it('should route to the port of the outcome once resolved', async () => {
+    db.seed('workflow_waits', [row({ status: 'rejected', decided_by: 'lead@example.com', comment: 'Too much' })]);
+    const ctx = context();
+
+    const result = await waitNode({ condition: 'approval' }).execute({}, ctx);
+
+    expect(result).toMatchObject({ status: 'rejected', approved: false, comment: 'Too much', nextNodes: ['rejected'] });
+    expect(ctx.getVariable('wait_status')).toBe('rejected');
+  });
+
+  it('should time out a wait whose timeout passed', async () => {
+    db.seed('workflow_waits', [row({ condition: 'timeout', assignee: null, timeout_at: '2024-05-01T10:00:00.000Z' })]);
+
+    const result = await waitNode({ condition: 'timeout' }).execute({}, context());
+
+    expect(result.nextNodes).toEqual(['timeout']);
+    expect(stored('wait-1')).toMatchObject({ status: 'timed_out', decided_by: 'timeout' });
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Workflow Waits
+ * Suspends durable executions at wait / human approval nodes and resumes them
+ * when an approval, an inbound webhook, a customer reply or a timeout arrives
+ */
+
+import { workflowExecutor } from './workflow-executor';
+import { supabase } from './supabase';
+
+export type WaitCondition = 'approval' | 'webhook' | 'customer_reply' | 'timeout';
+
+export type WaitStatus = 'pending' | 'approved' | 'rejected' | 'received' | 'timed_out' | 'cancelled';
+
+export interface WorkflowWait {
+  id: string;
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  nodeName?: string;
+  condition: WaitCondition;
+  status: WaitStatus;
+  title: string;
+  instructions?: string;
+  // Email of the team member who has to decide an approval
+  assignee?: string;
+  correlationKey?: string;
+  conversationId?: string;
+  context: Record<string, any>;
+  timeoutAt?: string;
+  // Payload the execution resumes with: the approver's form, the webhook body or the reply
+  decision?: any;
+  decidedBy?: string;
+  comment?: string;
+  createdAt: string;
+  resolvedAt?: string;
+  // When the execution was resumed after the wait resolved
+  resumedAt?: string;
+}
+
+export interface CreateWaitParams {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  nodeName?: string;
+  condition: WaitCondition;
+  title: string;
+  instructions?: string;
+  assignee?: string;
+  correlationKey?: string;
+  conversationId?: string;
+  context?: Record<string, any>;
+  timeoutAt?: string;
+}
+
+export interface WaitDecision {
+  decidedBy: string;
+  comment?: string;
+  payload?: any;
+}
+
+// The database records the signed-in user as the decider of an approval
+export type ApprovalDecision = Omit<WaitDecision, 'decidedBy'>;
+
+export interface WaitInboxFilters {
+  assignee?: string;
+  workflowId?: string;
+  condition?: WaitCondition;
+  status?: WaitStatus;
+  limit?: number;
+}
+
+// Output port a resolved wait routes to
+export const WAIT_OUTCOME_PORTS: Record<Exclude<WaitStatus, 'pending'>, string> = {
+  approved: 'approved',
+  rejected: 'rejected',
+  received: 'received',
+  timed_out: 'timeout',
+  cancelled: 'cancelled'
+};
+
+// Raised by decide_workflow_wait
+const WAIT_NOT_FOUND = 'WW002';
+const NOT_THE_APPROVER = 'WW003';
+
+/**
+ * Thrown by a node to suspend its execution until the wait is resolved. The
+ * executor records the step as waiting instead of failed.
+ */
+export class WorkflowSuspendedError extends Error {
+  constructor(public readonly wait: WorkflowWait) {
+    super(`Waiting for ${describeWaitCondition(wait)}`);
+    this.name = 'WorkflowSuspendedError';
+  }
+}
+
+export class WorkflowWaitError extends Error {
+  constructor(message: string, public readonly waitId?: string) {
+    super(message);
+    this.name = 'WorkflowWaitError';
+  }
+}
+
+export function describeWaitCondition(wait: Pick<WorkflowWait, 'condition' | 'assignee' | 'correlationKey' | 'timeoutAt'>): string {
+  switch (wait.condition) {
+    case 'approval':
+      return wait.assignee ? `approval by ${wait.assignee}` : 'approval';
+    case 'webhook':
+      return `a webhook with correlation key ${wait.correlationKey}`;
+    case 'customer_reply':
+      return 'a reply from the customer';
+    case 'timeout':
+      return wait.timeoutAt ? `the timer to end at ${wait.timeoutAt}` : 'the timer to end';
+  }
+}
+
+export function isWaitExpired(wait: Pick<WorkflowWait, 'status' | 'timeoutAt'>, now: Date = new Date()): boolean {
+  return wait.status === 'pending' && !!wait.timeoutAt && new Date(wait.timeoutAt).getTime() <= now.getTime();
+}
+
+export class WorkflowWaitService {
+  private static instance: WorkflowWaitService;
+  private checkingTimeouts = false;
+
+  static getInstance(): WorkflowWaitService {
+    if (!WorkflowWaitService.instance) {
+      WorkflowWaitService.instance = new WorkflowWaitService();
+    }
+    return WorkflowWaitService.instance;
+  }
+
+  async createWait(params: CreateWaitParams): Promise<WorkflowWait> {
+    const { data, error } = await supabase
+      .from('workflow_waits')
+      .insert({
+        execution_id: params.executionId,
+        workflow_id: params.workflowId,
+        node_id: params.nodeId,
+        node_name: params.nodeName ?? null,
+        condition: params.condition,
+        title: params.title,
+        instructions: params.instructions ?? null,
+        assignee: params.assignee ?? null,
+        correlation_key: params.correlationKey ?? null,
+        conversation_id: params.conversationId ?? null,
+        context: params.context || {},
+        timeout_at: params.timeoutAt ?? null
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WorkflowWaitError(`Failed to create wait for node ${params.nodeId}: ${error?.message || 'no row returned'}`);
+    }
+
+    return this.waitFromRow(data);
+  }
+
+  async getWait(waitId: string): Promise<WorkflowWait | null> {
+    const { data, error } = await supabase
+      .from('workflow_waits')
+      .select('*')
+      .eq('id', waitId)
+      .maybeSingle();
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to load wait ${waitId}: ${error.message}`, waitId);
+    }
+
+    return data ? this.waitFromRow(data) : null;
+  }
+
+  /**
+   * Latest wait a node of an execution created, if any
+   */
+  async getWaitForNode(executionId: string, nodeId: string): Promise<WorkflowWait | null> {
+    const { data, error } = await supabase
+      .from('workflow_waits')
+      .select('*')
+      .eq('execution_id', executionId)
+      .eq('node_id', nodeId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to load wait of node ${nodeId}: ${error.message}`);
+    }
+
+    return data ? this.waitFromRow(data) : null;
+  }
+
+  /**
+   * Waits for the approvals inbox, newest first. Defaults to pending approvals.
+   */
+  async getInbox(filters: WaitInboxFilters = {}): Promise<WorkflowWait[]> {
+    let query = supabase
+      .from('workflow_waits')
+      .select('*')
+      .eq('status', filters.status || 'pending')
+      .eq('condition', filters.condition || 'approval');
+
+    if (filters.assignee) {
+      query = query.ilike('assignee', filters.assignee);
+    }
+    if (filters.workflowId) {
+      query = query.eq('workflow_id', filters.workflowId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50);
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to load approvals: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.waitFromRow(row));
+  }
+
+  /**
+   * Approve as the signed-in user. The execution resumes with the next wait
+   * sweep, which runs with access to it.
+   */
+  async approve(waitId: string, decision: ApprovalDecision = {}): Promise<WorkflowWait> {
+    return this.decide(waitId, 'approved', decision);
+  }
+
+  async reject(waitId: string, decision: ApprovalDecision = {}): Promise<WorkflowWait> {
+    return this.decide(waitId, 'rejected', decision);
+  }
+
+  /**
+   * Resolve the pending webhook waits with this correlation key, optionally
+   * only those of one workflow
+   */
+  async resolveByCorrelationKey(correlationKey: string, payload: any, workflowId?: string): Promise<WorkflowWait[]> {
+    return this.resolveMatching(
+      { condition: 'webhook', column: 'correlation_key', value: correlationKey, workflowId },
+      { decidedBy: 'webhook', payload }
+    );
+  }
+
+  /**
+   * Resolve the pending customer reply waits of a conversation
+   */
+  async resolveCustomerReply(conversationId: string, message: any): Promise<WorkflowWait[]> {
+    return this.resolveMatching(
+      { condition: 'customer_reply', column: 'conversation_id', value: conversationId },
+      { decidedBy: 'customer', payload: message }
+    );
+  }
+
+  /**
+   * Time out every pending wait whose timeout has passed
+   */
+  async processTimeouts(now: Date = new Date()): Promise<WorkflowWait[]> {
+    if (this.checkingTimeouts) return [];
+    this.checkingTimeouts = true;
+
+    try {
+      const { data, error } = await supabase
+        .from('workflow_waits')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('timeout_at', now.toISOString());
+
+      if (error) throw error;
+
+      const resolved: WorkflowWait[] = [];
+      for (const row of data || []) {
+        const wait = await this.resolve(this.waitFromRow(row), 'timed_out', { decidedBy: 'timeout' });
+        if (wait) resolved.push(wait);
+      }
+      return resolved;
+    } catch (error) {
+      console.error('Failed to process workflow wait timeouts:', error);
+      return [];
+    } finally {
+      this.checkingTimeouts = false;
+    }
+  }
+
+  /**
+   * Resume the executions of resolved waits nobody has resumed yet, such as
+   * decided approvals
+   */
+  async resumeResolvedWaits(): Promise<WorkflowWait[]> {
+    const { data, error } = await supabase
+      .from('workflow_waits')
+      .select('*')
+      .neq('status', 'pending')
+      .is('resumed_at', null)
+      .order('resolved_at', { ascending: true });
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to load resolved waits: ${error.message}`);
+    }
+
+    const resumed: WorkflowWait[] = [];
+    for (const row of data || []) {
+      const wait = await this.resumeResolved(this.waitFromRow(row));
+      if (wait) resumed.push(wait);
+    }
+    return resumed;
+  }
+
+  /**
+   * Number of waits the sweep has work for: pending ones past their timeout
+   * and resolved ones not resumed yet
+   */
+  async countDueWaits(now: Date = new Date()): Promise<number> {
+    const { count, error } = await supabase
+      .from('workflow_waits')
+      .select('id', { count: 'exact', head: true })
+      .or(`and(status.eq.pending,timeout_at.lte.${now.toISOString()}),and(status.neq.pending,resumed_at.is.null)`);
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to count due waits: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Mark a wait whose timeout passed while the node was checking it. Returns the
+   * wait as stored afterwards, whoever resolved it.
+   */
+  async expireWait(wait: WorkflowWait): Promise<WorkflowWait> {
+    const expired = await this.updatePending(wait.id, 'timed_out', { decidedBy: 'timeout' });
+    return expired || (await this.getWait(wait.id)) || wait;
+  }
+
+  // The database checks the approver, so the rule holds for every client
+  private async decide(waitId: string, status: 'approved' | 'rejected', decision: ApprovalDecision): Promise<WorkflowWait> {
+    const { data, error } = await supabase.rpc('decide_workflow_wait', {
+      wait_id: waitId,
+      decision_status: status,
+      decision_payload: decision.payload,
+      decision_comment: decision.comment
+    });
+
+    if (error) {
+      if (error.code === WAIT_NOT_FOUND || error.code === NOT_THE_APPROVER) {
+        throw new WorkflowWaitError(error.message, waitId);
+      }
+      throw new WorkflowWaitError(`Failed to decide approval ${waitId}: ${error.message}`, waitId);
+    }
+
+    const rows = (data || []) as any[];
+    if (rows.length === 0) {
+      throw new WorkflowWaitError(`Approval ${waitId} was already decided`, waitId);
+    }
+    return this.waitFromRow(rows[0]);
+  }
+
+  private async resolveMatching(
+    match: { condition: WaitCondition; column: 'correlation_key' | 'conversation_id'; value: string; workflowId?: string },
+    decision: WaitDecision
+  ): Promise<WorkflowWait[]> {
+    let query = supabase
+      .from('workflow_waits')
+      .select('*')
+      .eq('status', 'pending')
+      .eq('condition', match.condition)
+      .eq(match.column, match.value);
+
+    if (match.workflowId) {
+      query = query.eq('workflow_id', match.workflowId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to find waits for ${match.column} ${match.value}: ${error.message}`);
+    }
+
+    const resolved: WorkflowWait[] = [];
+    for (const row of data || []) {
+      const wait = await this.resolve(this.waitFromRow(row), 'received', decision);
+      if (wait) resolved.push(wait);
+    }
+    return resolved;
+  }
+
+  /**
+   * Store the outcome and resume the execution. Returns null when another
+   * decision got there first.
+   */
+  private async resolve(wait: WorkflowWait, status: Exclude<WaitStatus, 'pending'>, decision: WaitDecision): Promise<WorkflowWait | null> {
+    const resolved = await this.updatePending(wait.id, status, decision);
+    if (!resolved) {
+      return null;
+    }
+
+    return (await this.resumeResolved(resolved)) || resolved;
+  }
+
+  /**
+   * Resume the execution of a resolved wait, once. Returns null when the wait
+   * was resumed already, this session cannot mark it or the resume failed; the
+   * wait sweep resumes it then, as a failed resume releases its claim.
+   */
+  private async resumeResolved(wait: WorkflowWait): Promise<WorkflowWait | null> {
+    const resumedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('workflow_waits')
+      .update({ resumed_at: resumedAt })
+      .eq('id', wait.id)
+      .is('resumed_at', null)
+      .select('*');
+
+    if (error || !data || data.length === 0) {
+      return null;
+    }
+
+    const claimed = this.waitFromRow(data[0]);
+    try {
+      await workflowExecutor.resumeExecution(claimed.executionId);
+    } catch (error) {
+      console.error(`Failed to resume execution ${claimed.executionId} after wait ${claimed.id}:`, error);
+
+      const { error: releaseError } = await supabase
+        .from('workflow_waits')
+        .update({ resumed_at: null })
+        .eq('id', claimed.id)
+        .eq('resumed_at', resumedAt);
+
+      if (releaseError) {
+        console.error(`Failed to release wait ${claimed.id} for the next sweep:`, releaseError);
+      }
+      return null;
+    }
+
+    return claimed;
+  }
+
+  // Only the caller whose update still sees the wait pending resolves it
+  private async updatePending(
+    waitId: string,
+    status: Exclude<WaitStatus, 'pending'>,
+    decision: WaitDecision
+  ): Promise<WorkflowWait | null> {
+    const { data, error } = await supabase
+      .from('workflow_waits')
+      .update({
+        status,
+        decision: decision.payload ?? null,
+        decided_by: decision.decidedBy,
+        comment: decision.comment ?? null,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', waitId)
+      .eq('status', 'pending')
+      .select('*');
+
+    if (error) {
+      throw new WorkflowWaitError(`Failed to resolve wait ${waitId}: ${error.message}`, waitId);
+    }
+
+    return data && data.length > 0 ? this.waitFromRow(data[0]) : null;
+  }
+
+  private waitFromRow(row: any): WorkflowWait {
+    return {
+      id: row.id,
+      executionId: row.execution_id,
+      workflowId: row.workflow_id,
+      nodeId: row.node_id,
+      nodeName: row.node_name ?? undefined,
+      condition: row.condition,
+      status: row.status,
+      title: row.title,
+      instructions: row.instructions ?? undefined,
+      assignee: row.assignee ?? undefined,
+      correlationKey: row.correlation_key ?? undefined,
+      conversationId: row.conversation_id ?? undefined,
+      context: row.context || {},
+      timeoutAt: row.timeout_at ?? undefined,
+      decision: row.decision ?? undefined,
+      decidedBy: row.decided_by ?? undefined,
+      comment: row.comment ?? undefined,
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at ?? undefined,
+      resumedAt: row.resumed_at ?? undefined
+    };
+  }
+}
+
+export const workflowWaitService = WorkflowWaitService.getInstance();
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseFake } from './testing/supabase-fake';
+
+const executor = vi.hoisted(() => ({ executeWorkflow: vi.fn(), loadWorkflow: vi.fn() }));
+const resolveByCorrelationKey = vi.hoisted(() => vi.fn());
+
+vi.mock('./supabase', async () => {
+  const { SupabaseFake } = await import('./testing/supabase-fake');
+  return { supabase: new SupabaseFake() };
+});
+vi.mock('./workflow-executor', () => ({ workflowExecutor: executor }));
+vi.mock('./workflow-waits', () => ({ workflowWaitService: { resolveByCorrelationKey } }));
+
+import { supabase } from './supabase';
+import {
+  WebhookDeliveryError,
+  getWebhookFromNode,
+  getWebhookResponse,
+  workflowWebhookService,
+} from './workflow-webhooks';
+
+const delivery = (overrides: Record<string, any> = {}) => ({
+  id: 'event-1',
+  webhook_id: 'hook-1',
+  workflow_id: 'wf-1',
+  channel_type: 'workflow',
+  event_type: 'workflow_trigger',
+  method: 'POST',
+  headers: { 'content-type': 'application/json' },
+  query: {},
+  payload: { order: 7 },
+  status: 'received',
+  created_at: '2024-05-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const db = supabase as unknown as SupabaseFake;
+
+const stored = (id: string) => db.table('webhook_events').find(event => event.id === id);
+
+beforeEach(() => {
+  db.reset();
+  db.seed('workflow_webhooks', [{ id: 'hook-1', workflow_id: 'wf-1', node_id: 'trigger' }]);
+  executor.executeWorkflow.mockReset();
+  executor.loadWorkflow.mockReset().mockResolvedValue({ id: 'wf-1' });
+  resolveByCorrelationKey.mockReset().mockResolvedValue([]);
+});
+
+describe('getWebhookFromNode', () => {
+  it('should read the method, authentication and response mode of the trigger', () => {
+    const webhook = getWebhookFromNode('wf-1', {
+      id: 'hook',
+      configuration: {
+        method: 'PUT',
+        authentication: { type: 'hmac', secret: 's3cret', signature_header: 'X-Hub-Signature-256' },
+        response_mode: 'sync',
+      },
+    });
+
+    expect(webhook).toEqual({
+      workflowId: 'wf-1',
+      nodeId: 'hook',
+      method: 'PUT',
+      authType: 'hmac',
+      authConfig: { secret: 's3cret', signature_header: 'X-Hub-Signature-256' },
+      responseMode: 'sync',
+      enabled: true,
+    });
+    expect(getWebhookFromNode('wf-1', { id: 'plain' })).toMatchObject({ method: 'POST', authType: 'none', responseMode: 'async' });
+  });
+});
+
+describe('getWebhookResponse', () => {
+  it('should answer with the result of the execution', () => {
+    expect(getWebhookResponse({ id: 'x', status: 'completed', result: { ok: true } } as any)).toEqual({ status: 200, body: { ok: true } });
+    expect(getWebhookResponse({ id: 'x', status: 'waiting' } as any).status).toBe(202);
+    expect(getWebhookResponse({ id: 'x', status: 'failed', error: 'boom' } as any)).toEqual({
+      status: 500,
+      body: { executionId: 'x', error: 'boom' },
+    });
+  });
+});
+
+describe('WorkflowWebhookService.syncWorkflowWebhooks', () => {
+  it('should keep the URL of existing triggers and drop the webhooks of removed ones', async () => {
+    db.seed('workflow_webhooks', [{ id: 'hook-2', workflow_id: 'wf-1', node_id: 'removed' }]);
+
+    await workflowWebhookService.syncWorkflowWebhooks({
+      id: 'wf-1',
+      nodes: [
+        { id: 'trigger', type: 'webhook_trigger', configuration: { method: 'PUT' } },
+        { id: 'reply', type: 'send_message', configuration: {} },
+      ],
+    } as any);
+
+    expect(db.table('workflow_webhooks')).toEqual([
+      expect.objectContaining({ id: 'hook-1', node_id: 'trigger', method: 'PUT' }),
+    ]);
+  });
+});
+
+describe('WorkflowWebhookService.dispatch', () => {
+  it('should claim a received delivery, run the workflow and store the response', async () => {
+    executor.executeWorkflow.mockResolvedValue({ id: 'exec-1', status: 'completed', result: { reply: 'thanks' } });
+    db.seed('webhook_events', [delivery(), delivery({ id: 'event-0', status: 'processed' })]);
+
+    expect(await workflowWebhookService.dispatch()).toBe(1);
+
+    expect(executor.executeWorkflow).toHaveBeenCalledTimes(1);
+    expect(executor.executeWorkflow).toHaveBeenCalledWith(
+      { id: 'wf-1' },
+      expect.objectContaining({ body: { order: 7 }, method: 'POST', eventId: 'event-1' }),
+      { context: expect.objectContaining({ trigger: 'webhook', triggerNodeId: 'trigger', webhookEventId: 'event-1' }) }
+    );
+    expect(stored('event-1')).toMatchObject({
+      status: 'processed',
+      response_status: 200,
+      response_body: { reply: 'thanks' },
+      execution_id: 'exec-1',
+    });
+    expect(await workflowWebhookService.countReceivedDeliveries()).toBe(0);
+  });
+
+  it('should skip deliveries another instance claimed', async () => {
+    db.seed('webhook_events', [delivery()]);
+    db.beforeNext('webhook_events', 'update', () => {
+      stored('event-1').status = 'processing';
+    });
+
+    expect(await workflowWebhookService.dispatch()).toBe(0);
+
+    expect(executor.executeWorkflow).not.toHaveBeenCalled();
+    expect(stored('event-1').status).toBe('processing');
+  });
+
+  it('should resume waits of the workflow instead of starting a run when a correlation key is sent', async () => {
+    resolveByCorrelationKey.mockResolvedValue([{ id: 'wait-1', executionId: 'exec-9' }]);
+    db.seed('webhook_events', [delivery({ query: { correlation_key: 'order-7' } })]);
+
+    await workflowWebhookService.dispatch();
+
+    expect(resolveByCorrelationKey).toHaveBeenCalledWith('order-7', { order: 7 }, 'wf-1');
+    expect(executor.executeWorkflow).not.toHaveBeenCalled();
+    expect(stored('event-1')).toMatchObject({ status: 'processed', response_body: { resumed: ['exec-9'] } });
+  });
+});
+
+describe('WorkflowWebhookService.replayDelivery', () => {
+  it('should run a stored delivery again as a new delivery', async () => {
+    executor.executeWorkflow.mockResolvedValue({ id: 'exec-2', status: 'failed', error: 'boom' });
+    db.seed('webhook_events', [delivery({ status: 'processed' })]);
+
+    const replayed = await workflowWebhookService.replayDelivery('event-1');
+
+    expect(replayed).toMatchObject({ replayOf: 'event-1', status: 'failed', error: 'boom', responseStatus: 500 });
+    expect(stored(replayed.id)).toMatchObject({
+      replay_of: 'event-1',
+      payload: { order: 7 },
+      status: 'failed',
+      processing_error: 'boom',
+      execution_id: 'exec-2',
+    });
+    expect(stored('event-1').status).toBe('processed');
+  });
+
+  it('should not replay a refused delivery', async () => {
+    db.seed('webhook_events', [delivery({ status: 'rejected' })]);
+
+    await expect(workflowWebhookService.replayDelivery('event-1')).rejects.toThrow(WebhookDeliveryError);
+    expect(db.table('webhook_events')).toHaveLength(1);
+  });
+});
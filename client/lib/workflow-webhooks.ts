@@ -0,0 +1,433 @@
+/**
+ * Workflow Webhooks
+ * Gives webhook trigger nodes their own URL and runs the deliveries the server
+ * stores for them, recording the response each delivery gets
+ */
+
+import { AgentWorkflow } from './workflow-types';
+import { getWebhookPath } from '@shared/api';
+import { workflowExecutor, type WorkflowExecution } from './workflow-executor';
+import { workflowWaitService } from './workflow-waits';
+import { supabase } from './supabase';
+
+export type WebhookAuthType = 'none' | 'api_key' | 'bearer' | 'basic' | 'hmac';
+
+/**
+ * - sync: the caller gets the workflow result as the HTTP response
+ * - async: the caller gets 202 with the delivery id while the workflow runs
+ */
+export type WebhookResponseMode = 'sync' | 'async';
+
+export type WebhookDeliveryStatus = 'received' | 'rejected' | 'processing' | 'processed' | 'failed';
+
+export interface WorkflowWebhook {
+  id?: string;
+  workflowId: string;
+  nodeId: string;
+  method: string;
+  authType: WebhookAuthType;
+  authConfig: Record<string, any>;
+  responseMode: WebhookResponseMode;
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  workflowId: string;
+  method: string;
+  headers: Record<string, any>;
+  query: Record<string, any>;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  responseStatus?: number;
+  responseBody?: any;
+  executionId?: string;
+  error?: string;
+  replayOf?: string;
+  receivedAt: string;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: any;
+}
+
+export const WEBHOOK_TRIGGER_NODE_TYPE = 'webhook_trigger';
+
+// Deliveries carrying this key resume the workflow's webhook waits instead of starting a run
+export const CORRELATION_KEY_PARAM = 'correlation_key';
+export const CORRELATION_KEY_HEADER = 'x-correlation-key';
+
+const DISPATCH_BATCH_SIZE = 10;
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string, public readonly deliveryId?: string) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Read the webhook configured on a webhook trigger node
+ */
+export function getWebhookFromNode(workflowId: string, node: { id: string; configuration?: Record<string, any> }): WorkflowWebhook {
+  const config = node.configuration || {};
+  const { type, ...authConfig } = config.authentication || {};
+
+  return {
+    workflowId,
+    nodeId: node.id,
+    method: config.method || 'POST',
+    authType: type || 'none',
+    authConfig,
+    responseMode: config.response_mode === 'sync' ? 'sync' : 'async',
+    enabled: config.enabled !== false
+  };
+}
+
+export function getWebhookUrl(webhookId: string, origin: string = window.location.origin): string {
+  return `${origin}${getWebhookPath(webhookId)}`;
+}
+
+export function getCorrelationKey(delivery: Pick<WebhookDelivery, 'headers' | 'query'>): string | null {
+  const key = delivery.query?.[CORRELATION_KEY_PARAM] ?? delivery.headers?.[CORRELATION_KEY_HEADER];
+  return typeof key === 'string' && key.trim() ? key.trim() : null;
+}
+
+/**
+ * Input the webhook trigger node receives for a delivery
+ */
+export function buildTriggerInput(delivery: WebhookDelivery) {
+  return {
+    body: delivery.payload,
+    headers: delivery.headers,
+    query: delivery.query,
+    method: delivery.method,
+    url: getWebhookPath(delivery.webhookId),
+    eventId: delivery.id
+  };
+}
+
+/**
+ * HTTP response a sync webhook caller gets for the execution
+ */
+export function getWebhookResponse(execution: WorkflowExecution): WebhookResponse {
+  switch (execution.status) {
+    case 'completed':
+      return { status: 200, body: execution.result ?? { executionId: execution.id } };
+    case 'waiting':
+      return { status: 202, body: { executionId: execution.id, status: 'waiting' } };
+    case 'timeout':
+      return { status: 504, body: { executionId: execution.id, error: execution.error || 'Workflow timed out' } };
+    default:
+      return { status: 500, body: { executionId: execution.id, error: execution.error || `Workflow ${execution.status}` } };
+  }
+}
+
+export class WorkflowWebhookService {
+  private static instance: WorkflowWebhookService;
+  private dispatching = false;
+
+  static getInstance(): WorkflowWebhookService {
+    if (!WorkflowWebhookService.instance) {
+      WorkflowWebhookService.instance = new WorkflowWebhookService();
+    }
+    return WorkflowWebhookService.instance;
+  }
+
+  /**
+   * Mirror the webhook trigger nodes of a workflow into workflow_webhooks.
+   * Called whenever the workflow is saved; a node keeps its URL across saves.
+   */
+  async syncWorkflowWebhooks(workflow: AgentWorkflow): Promise<WorkflowWebhook[]> {
+    const webhooks = workflow.nodes
+      .filter(node => node.type === WEBHOOK_TRIGGER_NODE_TYPE)
+      .map(node => getWebhookFromNode(workflow.id, node));
+
+    const nodeIds = webhooks.map(webhook => webhook.nodeId);
+    let staleQuery = supabase.from('workflow_webhooks').delete().eq('workflow_id', workflow.id);
+    if (nodeIds.length > 0) {
+      staleQuery = staleQuery.not('node_id', 'in', `(${nodeIds.map(id => `"${id}"`).join(',')})`);
+    }
+
+    const { error: deleteError } = await staleQuery;
+    if (deleteError) {
+      throw new Error(`Failed to sync workflow webhooks: ${deleteError.message}`);
+    }
+
+    if (webhooks.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('workflow_webhooks')
+      .upsert(webhooks.map(webhook => this.webhookToRow(webhook)), { onConflict: 'workflow_id,node_id' })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to sync workflow webhooks: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.webhookFromRow(row));
+  }
+
+  async getWebhooks(workflowId: string): Promise<WorkflowWebhook[]> {
+    const { data, error } = await supabase
+      .from('workflow_webhooks')
+      .select('*')
+      .eq('workflow_id', workflowId);
+
+    if (error) {
+      throw new Error(`Failed to load workflow webhooks: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.webhookFromRow(row));
+  }
+
+  /**
+   * Deliveries of the workflow's webhooks, newest first
+   */
+  async getDeliveries(workflowId: string, limit: number = 20): Promise<WebhookDelivery[]> {
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .not('webhook_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load webhook deliveries: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.deliveryFromRow(row));
+  }
+
+  /**
+   * Run a stored delivery again as a new delivery. Refused deliveries cannot be
+   * replayed: their sender was never authenticated.
+   */
+  async replayDelivery(deliveryId: string): Promise<WebhookDelivery> {
+    const { data: original, error: loadError } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', deliveryId)
+      .maybeSingle();
+
+    if (loadError || !original || !original.webhook_id) {
+      throw new WebhookDeliveryError(`Webhook delivery ${deliveryId} not found`, deliveryId);
+    }
+    if (original.status === 'rejected') {
+      throw new WebhookDeliveryError('Refused deliveries cannot be replayed', deliveryId);
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .insert({
+        webhook_id: original.webhook_id,
+        workflow_id: original.workflow_id,
+        channel_type: original.channel_type,
+        event_type: original.event_type,
+        method: original.method,
+        headers: original.headers,
+        query: original.query,
+        payload: original.payload,
+        timestamp: new Date().toISOString(),
+        status: 'processing',
+        replay_of: original.id
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WebhookDeliveryError(`Failed to replay delivery ${deliveryId}: ${error?.message || 'no row returned'}`, deliveryId);
+    }
+
+    // Claimed on insert, so the dispatcher leaves it to us
+    return this.runDelivery(this.deliveryFromRow(data));
+  }
+
+  /**
+   * Number of received deliveries waiting for the dispatcher
+   */
+  async countReceivedDeliveries(): Promise<number> {
+    const { count, error } = await supabase
+      .from('webhook_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'received')
+      .not('webhook_id', 'is', null);
+
+    if (error) {
+      throw new WebhookDeliveryError(`Failed to count received deliveries: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Run a batch of the deliveries the server has received, oldest first.
+   * Returns how many of them this dispatcher ran.
+   */
+  async dispatch(): Promise<number> {
+    if (this.dispatching) return 0;
+    this.dispatching = true;
+    let ran = 0;
+
+    try {
+      const { data, error } = await supabase
+        .from('webhook_events')
+        .select('*')
+        .eq('status', 'received')
+        .not('webhook_id', 'is', null)
+        .order('created_at', { ascending: true })
+        .limit(DISPATCH_BATCH_SIZE);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        // Only the instance whose update still sees the delivery received runs it
+        const { data: claimed, error: claimError } = await supabase
+          .from('webhook_events')
+          .update({ status: 'processing' })
+          .eq('id', row.id)
+          .eq('status', 'received')
+          .select('id');
+
+        if (claimError || !claimed || claimed.length === 0) {
+          continue;
+        }
+
+        await this.runDelivery(this.deliveryFromRow({ ...row, status: 'processing' }));
+        ran++;
+      }
+    } catch (error) {
+      console.error('Webhook dispatch failed:', error);
+    } finally {
+      this.dispatching = false;
+    }
+
+    return ran;
+  }
+
+  private async runDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    let response: WebhookResponse;
+    let executionId: string | null = null;
+    let failure: string | null = null;
+
+    try {
+      const correlationKey = getCorrelationKey(delivery);
+      const resumed = correlationKey
+        ? await workflowWaitService.resolveByCorrelationKey(correlationKey, delivery.payload, delivery.workflowId)
+        : [];
+
+      if (resumed.length > 0) {
+        response = { status: 200, body: { resumed: resumed.map(wait => wait.executionId) } };
+      } else {
+        const webhook = await this.getWebhook(delivery.webhookId);
+        const workflow = await workflowExecutor.loadWorkflow(delivery.workflowId);
+        const execution = await workflowExecutor.executeWorkflow(workflow, buildTriggerInput(delivery), {
+          context: {
+            trigger: 'webhook',
+            webhookId: delivery.webhookId,
+            triggerNodeId: webhook?.nodeId,
+            webhookEventId: delivery.id,
+            replayOf: delivery.replayOf
+          }
+        });
+
+        executionId = execution.id;
+        response = getWebhookResponse(execution);
+        if (execution.status === 'failed' || execution.status === 'timeout') {
+          failure = execution.error || `Workflow ${execution.status}`;
+        }
+      }
+    } catch (error) {
+      failure = error.message;
+      response = { status: 500, body: { error: error.message } };
+    }
+
+    const update = {
+      status: failure ? 'failed' : 'processed',
+      processed: true,
+      processing_error: failure,
+      response_status: response.status,
+      response_body: response.body,
+      execution_id: executionId
+    };
+
+    const { error } = await supabase
+      .from('webhook_events')
+      .update(update)
+      .eq('id', delivery.id);
+
+    if (error) {
+      console.error(`Failed to record the response to webhook delivery ${delivery.id}:`, error);
+    }
+
+    return {
+      ...delivery,
+      status: update.status as WebhookDeliveryStatus,
+      responseStatus: response.status,
+      responseBody: response.body,
+      executionId: executionId ?? undefined,
+      error: failure ?? undefined
+    };
+  }
+
+  private async getWebhook(webhookId: string): Promise<WorkflowWebhook | null> {
+    const { data } = await supabase
+      .from('workflow_webhooks')
+      .select('*')
+      .eq('id', webhookId)
+      .maybeSingle();
+
+    return data ? this.webhookFromRow(data) : null;
+  }
+
+  private webhookToRow(webhook: WorkflowWebhook) {
+    return {
+      workflow_id: webhook.workflowId,
+      node_id: webhook.nodeId,
+      method: webhook.method,
+      auth_type: webhook.authType,
+      auth_config: webhook.authConfig,
+      response_mode: webhook.responseMode,
+      enabled: webhook.enabled
+    };
+  }
+
+  private webhookFromRow(row: any): WorkflowWebhook {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      nodeId: row.node_id,
+      method: row.method,
+      authType: row.auth_type,
+      authConfig: row.auth_config || {},
+      responseMode: row.response_mode,
+      enabled: row.enabled
+    };
+  }
+
+  private deliveryFromRow(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      workflowId: row.workflow_id,
+      method: row.method,
+      headers: row.headers || {},
+      query: row.query || {},
+      payload: row.payload,
+      status: row.status,
+      responseStatus: row.response_status ?? undefined,
+      responseBody: row.response_body ?? undefined,
+      executionId: row.execution_id ?? undefined,
+      error: row.processing_error ?? undefined,
+      replayOf: row.replay_of ?? undefined,
+      receivedAt: row.created_at
+    };
+  }
+}
+
+export const workflowWebhookService = WorkflowWebhookService.getInstance();
@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { EmptyState, LoadingState } from '@/components/ui/empty-state';
+import { CheckCircle, Clock, Inbox, RefreshCw, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/lib/auth-context';
+import { workflowWaitService, WorkflowWaitError, type WorkflowWait } from '@/lib/workflow-waits';
+
+type InboxScope = 'mine' | 'all';
+
+interface DecisionDraft {
+  comment: string;
+  // JSON the execution resumes with, e.g. corrected values
+  payload: string;
+}
+
+const EMPTY_DRAFT: DecisionDraft = { comment: '', payload: '' };
+
+/**
+ * Pending human approvals of suspended workflow executions. Deciding one
+ * resumes its execution through the approved or rejected port.
+ */
+export default function ApprovalsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [scope, setScope] = useState<InboxScope>('mine');
+  const [approvals, setApprovals] = useState<WorkflowWait[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, DecisionDraft>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    setLoading(true);
+    try {
+      setApprovals(await workflowWaitService.getInbox({
+        assignee: scope === 'mine' ? user?.email : undefined
+      }));
+    } catch (error) {
+      toast({
+        title: 'Failed to load approvals',
+        description: error.message,
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, user?.email, toast]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const updateDraft = (waitId: string, changes: Partial<DecisionDraft>) => {
+    setDrafts(prev => ({ ...prev, [waitId]: { ...(prev[waitId] || EMPTY_DRAFT), ...changes } }));
+  };
+
+  const handleDecision = async (wait: WorkflowWait, approved: boolean) => {
+    if (!user?.email) return;
+
+    const draft = drafts[wait.id] || EMPTY_DRAFT;
+    let payload: any;
+    if (draft.payload.trim()) {
+      try {
+        payload = JSON.parse(draft.payload);
+      } catch {
+        toast({ title: 'Invalid form data', description: 'Form data must be valid JSON', variant: 'destructive' });
+        return;
+      }
+    }
+
+    setDecidingId(wait.id);
+    try {
+      const decision = { comment: draft.comment || undefined, payload };
+      if (approved) {
+        await workflowWaitService.approve(wait.id, decision);
+      } else {
+        await workflowWaitService.reject(wait.id, decision);
+      }
+
+      setApprovals(prev => prev.filter(item => item.id !== wait.id));
+      toast({
+        title: approved ? 'Approved' : 'Rejected',
+        description: `${wait.title} will resume its workflow shortly`
+      });
+    } catch (error) {
+      toast({
+        title: 'Decision failed',
+        description: error instanceof WorkflowWaitError ? error.message : 'Failed to record the decision',
+        variant: 'destructive'
+      });
+      // Someone else may have decided it in the meantime
+      loadApprovals();
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Approvals</h1>
+          <p className="text-muted-foreground">Workflow executions waiting for a decision</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Tabs value={scope} onValueChange={value => setScope(value as InboxScope)}>
+            <TabsList>
+              <TabsTrigger value="mine">Assigned to me</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={loadApprovals} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingState />
+      ) : approvals.length === 0 ? (
+        <EmptyState
+          icon={Inbox}
+          title="No pending approvals"
+          description="Approvals appear here when a workflow reaches a human approval node"
+        />
+      ) : (
+        <div className="space-y-4">
+          {approvals.map(wait => {
+            const draft = drafts[wait.id] || EMPTY_DRAFT;
+            const canDecide = !wait.assignee || wait.assignee.toLowerCase() === user?.email?.toLowerCase();
+
+            return (
+              <Card key={wait.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle className="text-lg">{wait.title}</CardTitle>
+                      <CardDescription>
+                        {wait.nodeName || wait.nodeId} · requested {new Date(wait.createdAt).toLocaleString()}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {wait.assignee && <Badge variant="outline">{wait.assignee}</Badge>}
+                      {wait.timeoutAt && (
+                        <Badge variant="secondary">
+                          <Clock className="h-3 w-3 mr-1" />
+                          Expires {new Date(wait.timeoutAt).toLocaleString()}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {wait.instructions && <p className="text-sm">{wait.instructions}</p>}
+
+                  {Object.keys(wait.context).length > 0 && (
+                    <details>
+                      <summary className="cursor-pointer text-sm text-muted-foreground hover:text-foreground">
+                        View workflow data
+                      </summary>
+                      <pre className="mt-2 p-2 bg-gray-50 rounded text-xs font-mono overflow-x-auto">
+                        {JSON.stringify(wait.context, null, 2)}
+                      </pre>
+                    </details>
+                  )}
+
+                  {canDecide ? (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <Textarea
+                          placeholder="Comment (optional)"
+                          value={draft.comment}
+                          onChange={e => updateDraft(wait.id, { comment: e.target.value })}
+                          rows={3}
+                        />
+                        <Textarea
+                          placeholder='Form data as JSON (optional), e.g. {"discount": 10}'
+                          value={draft.payload}
+                          onChange={e => updateDraft(wait.id, { payload: e.target.value })}
+                          rows={3}
+                          className="font-mono text-xs"
+                        />
+                      </div>
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => handleDecision(wait, false)}
+                          disabled={decidingId === wait.id}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                        <Button onClick={() => handleDecision(wait, true)} disabled={decidingId === wait.id}>
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Approve
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Only {wait.assignee} can decide this approval</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,11 +20,15 @@ import {
   Grid,
   List,
   Filter,
-  SortAsc
+  SortAsc,
+  Calendar,
+  Webhook
 } from 'lucide-react';
 import { Workflow } from '@/lib/workflow-types';
 import { workflowService } from '@/lib/workflow-service';
 import WorkflowBuilder from '@/components/workflow-builder/WorkflowBuilder';
+import WorkflowSchedulePanel from '@/components/workflow-builder/WorkflowSchedulePanel';
+import WorkflowWebhookPanel from '@/components/workflow-builder/WorkflowWebhookPanel';
 
 export default function WorkflowsPage() {
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
@@ -35,6 +39,8 @@ export default function WorkflowsPage() {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'name' | 'updated' | 'status'>('updated');
+  const [scheduleWorkflowId, setScheduleWorkflowId] = useState<string | null>(null);
+  const [webhookWorkflowId, setWebhookWorkflowId] = useState<string | null>(null);
 
   useEffect(() => {
     loadWorkflows();
@@ -350,6 +356,24 @@ export default function WorkflowsPage() {
                       Edit
                     </Button>
                     
+                    <Button
+                      variant={scheduleWorkflowId === workflow.id ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setScheduleWorkflowId(scheduleWorkflowId === workflow.id ? null : workflow.id)}
+                      title="Schedule"
+                    >
+                      <Calendar className="h-3 w-3" />
+                    </Button>
+
+                    <Button
+                      variant={webhookWorkflowId === workflow.id ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setWebhookWorkflowId(webhookWorkflowId === workflow.id ? null : workflow.id)}
+                      title="Webhooks"
+                    >
+                      <Webhook className="h-3 w-3" />
+                    </Button>
+
                     <Button
                       variant="ghost"
                       size="sm"
@@ -368,6 +392,18 @@ export default function WorkflowsPage() {
                     </Button>
                   </div>
                 </div>
+
+                {scheduleWorkflowId === workflow.id && (
+                  <div className="mt-4 pt-4 border-t">
+                    <WorkflowSchedulePanel workflowId={workflow.id} />
+                  </div>
+                )}
+
+                {webhookWorkflowId === workflow.id && (
+                  <div className="mt-4 pt-4 border-t">
+                    <WorkflowWebhookPanel workflowId={workflow.id} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
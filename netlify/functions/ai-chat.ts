@@ -1,5 +1,13 @@
 import { Handler } from "@netlify/functions";
 import { createClient } from "@supabase/supabase-js";
+import { createEmbeddingProvider, type EmbeddingProviderConfig } from "../../client/lib/embedding-service";
+import { KnowledgeBaseRetriever } from "../../client/lib/knowledge-base-retrieval";
+import {
+  buildGroundedContext,
+  getAgentKnowledgeBaseIds,
+  resolveCitations,
+  type Citation,
+} from "../../client/lib/citations";
 
 const supabaseUrl = process.env.VITE_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -9,6 +17,17 @@ const openaiApiKey = process.env.OPENAI_API_KEY!;
 // Initialize Supabase client with service role key for edge function
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const retriever = new KnowledgeBaseRetriever(
+  supabase,
+  createEmbeddingProvider({
+    provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderConfig["provider"],
+    openaiApiKey,
+  }),
+);
+
+// Number of knowledge base chunks injected into the prompt
+const CONTEXT_CHUNK_COUNT = 5;
+
 interface ChatRequest {
   message: string;
   conversationId?: string;
@@ -22,6 +41,7 @@ interface ChatResponse {
   response: string;
   conversationId: string;
   audioUrl?: string;
+  citations: Citation[];
   error?: string;
 }
 
@@ -53,8 +73,14 @@ const handler: Handler = async (event, context) => {
 
   try {
     const body: ChatRequest = JSON.parse(event.body || "{}");
-    const { message, conversationId, userId, agentId, isVoice, agentPrompt } =
-      body;
+    const {
+      message,
+      conversationId,
+      userId,
+      agentId,
+      isVoice,
+      agentPrompt,
+    } = body;
 
     if (!message) {
       return {
@@ -64,6 +90,29 @@ const handler: Handler = async (event, context) => {
       };
     }
 
+    // Only the signed-in owner of an agent chats with its knowledge bases
+    let knowledgeBaseIds: string[] = [];
+    if (agentId) {
+      const user = await authenticateCaller(event.headers.authorization);
+      if (!user) {
+        return {
+          statusCode: 401,
+          headers,
+          body: JSON.stringify({ error: "Unauthorized" }),
+        };
+      }
+
+      const agentKnowledgeBaseIds = await loadAgentKnowledgeBaseIds(agentId, user.id);
+      if (!agentKnowledgeBaseIds) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: "Agent not found" }),
+        };
+      }
+      knowledgeBaseIds = agentKnowledgeBaseIds;
+    }
+
     // Default agent prompt for Ojastack AI assistant
     const systemPrompt =
       agentPrompt ||
@@ -89,8 +138,15 @@ When responding:
 
 Respond naturally to the user's message.`;
 
+    // Ground the answer in the agent's knowledge bases when it has any
+    const grounding = await retrieveGroundedContext(message, knowledgeBaseIds);
+    const groundedPrompt = grounding.prompt
+      ? `${systemPrompt}\n\n${grounding.prompt}`
+      : systemPrompt;
+
     // Generate AI response using OpenAI
-    const aiResponse = await generateAIResponse(message, systemPrompt);
+    const aiResponse = await generateAIResponse(message, groundedPrompt);
+    const citations = resolveCitations(aiResponse, grounding.citations);
 
     let audioUrl: string | undefined;
 
@@ -107,12 +163,14 @@ Respond naturally to the user's message.`;
       userMessage: message,
       aiResponse,
       audioUrl,
+      citations,
     });
 
     const response: ChatResponse = {
       response: aiResponse,
       conversationId: conversationData.conversationId,
       audioUrl,
+      citations,
     };
 
     return {
@@ -133,6 +191,57 @@ Respond naturally to the user's message.`;
   }
 };
 
+async function authenticateCaller(authHeader?: string) {
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.split(" ")[1];
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
+
+/**
+ * Knowledge bases of an agent owned by the user; null when the user has no such agent
+ */
+async function loadAgentKnowledgeBaseIds(agentId: string, userId: string): Promise<string[] | null> {
+  const { data: agent, error } = await supabase
+    .from("agents")
+    .select("knowledge_base_id, knowledge_base_ids")
+    .eq("id", agentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading agent knowledge bases:", error);
+    return [];
+  }
+
+  return agent ? getAgentKnowledgeBaseIds(agent) : null;
+}
+
+async function retrieveGroundedContext(
+  message: string,
+  knowledgeBaseIds: string[],
+) {
+  if (knowledgeBaseIds.length === 0) {
+    return buildGroundedContext([]);
+  }
+
+  try {
+    const result = await retriever.search(
+      knowledgeBaseIds,
+      message,
+      CONTEXT_CHUNK_COUNT,
+    );
+    return buildGroundedContext(result.chunks);
+  } catch (error) {
+    // Answer without sources rather than failing the whole chat
+    console.error("Error retrieving knowledge base context:", error);
+    return buildGroundedContext([]);
+  }
+}
+
 async function generateAIResponse(
   message: string,
   systemPrompt: string,
@@ -282,11 +391,19 @@ interface ConversationData {
   userMessage: string;
   aiResponse: string;
   audioUrl?: string;
+  citations: Citation[];
 }
 
 async function storeConversation(data: ConversationData) {
-  const { conversationId, userId, agentId, userMessage, aiResponse, audioUrl } =
-    data;
+  const {
+    conversationId,
+    userId,
+    agentId,
+    userMessage,
+    aiResponse,
+    audioUrl,
+    citations,
+  } = data;
 
   try {
     let currentConversationId = conversationId;
@@ -334,6 +451,7 @@ async function storeConversation(data: ConversationData) {
           content: aiResponse,
           timestamp: new Date().toISOString(),
           audioUrl,
+          citations,
         },
       ];
 
@@ -1,6 +1,9 @@
 import { Handler } from "@netlify/functions";
 import { createClient } from "@supabase/supabase-js";
 import { ConversationalAI, ConversationContext } from "../../client/lib/conversational-ai";
+import { createEmbeddingProvider, type EmbeddingProviderConfig } from "../../client/lib/embedding-service";
+import { KnowledgeBaseRetriever } from "../../client/lib/knowledge-base-retrieval";
+import { buildGroundedContext, getAgentKnowledgeBaseIds, resolveCitations } from "../../client/lib/citations";
 
 const supabaseUrl = process.env.VITE_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -13,6 +16,12 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey);
 // Initialize Conversational AI
 const conversationalAI = new ConversationalAI(openaiApiKey, elevenLabsApiKey);
 
+// Knowledge base retrieval for grounded answers
+const retriever = new KnowledgeBaseRetriever(supabase, createEmbeddingProvider({
+  provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderConfig["provider"],
+  openaiApiKey,
+}));
+
 interface ProcessMessageRequest {
   agentId: string;
   message: string;
@@ -146,13 +155,21 @@ async function processMessage(request: ProcessMessageRequest, headers: any) {
       }
     };
 
+    // Number the most relevant knowledge base chunks so the answer can cite them
+    const grounding = await retrieveGroundedContext(message, [
+      ...getAgentKnowledgeBaseIds(agent),
+      ...(agent.knowledge_bases || []).map((kb: { id: string }) => kb.id),
+    ]);
+
     // Process message with AI
     let aiResponse;
     if (messageType === 'text') {
       aiResponse = await conversationalAI.processTextMessage(message, context, {
         name: agent.name,
         personality: agent.personality,
-        instructions: agent.instructions,
+        instructions: grounding.prompt
+          ? `${agent.instructions || ''}\n\n${grounding.prompt}`
+          : agent.instructions,
         model: agent.settings?.model || 'gpt-4',
         temperature: agent.settings?.temperature || 0.7,
         max_tokens: agent.settings?.max_tokens || 500,
@@ -168,6 +185,8 @@ async function processMessage(request: ProcessMessageRequest, headers: any) {
       };
     }
 
+    const citations = resolveCitations(aiResponse.response, grounding.citations);
+
     // Save user message
     const { data: userMessage } = await supabase
       .from('messages')
@@ -192,7 +211,8 @@ async function processMessage(request: ProcessMessageRequest, headers: any) {
         metadata: {
           toolCalls: aiResponse.toolCalls,
           confidence: aiResponse.confidence,
-          needsEscalation: aiResponse.needsEscalation
+          needsEscalation: aiResponse.needsEscalation,
+          citations
         }
       })
       .select()
@@ -244,6 +264,7 @@ async function processMessage(request: ProcessMessageRequest, headers: any) {
         needsEscalation: aiResponse.needsEscalation,
         confidence: aiResponse.confidence,
         toolCalls: aiResponse.toolCalls,
+        citations,
         userMessage,
         agentMessage
       }),
@@ -258,6 +279,22 @@ async function processMessage(request: ProcessMessageRequest, headers: any) {
   }
 }
 
+// Retrieve knowledge base context; a retrieval failure falls back to an ungrounded answer
+async function retrieveGroundedContext(message: string, knowledgeBaseIds: string[]) {
+  const ids = Array.from(new Set(knowledgeBaseIds));
+  if (ids.length === 0) {
+    return buildGroundedContext([]);
+  }
+
+  try {
+    const result = await retriever.search(ids, message, 5);
+    return buildGroundedContext(result.chunks);
+  } catch (error) {
+    console.error('Error retrieving knowledge base context:', error);
+    return buildGroundedContext([]);
+  }
+}
+
 // Get or create conversation
 async function getOrCreateConversation(agentId: string, customerId: string, channel: string, customerInfo?: any) {
   // Try to find existing active conversation
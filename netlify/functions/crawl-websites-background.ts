@@ -0,0 +1,97 @@
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { isSweepRequest } from '../lib/background-functions';
+import { triggerProcessingWorker } from '../lib/document-pipeline';
+import { createCrawler, websiteSources } from '../lib/website-crawl';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Background functions run for up to 15 minutes; do not start a crawl after this
+const CRAWL_BUDGET_MS = 10 * 60 * 1000;
+
+interface CrawlRequest {
+  sourceId?: string;
+}
+
+/**
+ * Crawl worker. With a sourceId (from the knowledge base UI) it crawls that
+ * source for its owner; without one it crawls every source that is due, which
+ * only the scheduled sweep may ask for. Pages that changed are queued for processing.
+ */
+export const handler: Handler = async (event) => {
+  const deadline = Date.now() + CRAWL_BUDGET_MS;
+
+  try {
+    const { sourceId }: CrawlRequest = JSON.parse(event.body || '{}');
+    let sourceIds: string[];
+
+    if (sourceId) {
+      const token = (event.headers.authorization || '').replace('Bearer ', '');
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      const source = await websiteSources.getSource(sourceId);
+
+      if (authError || !user || !source || source.userId !== user.id) {
+        return {
+          statusCode: 401,
+          body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+        };
+      }
+      sourceIds = [sourceId];
+    } else {
+      if (!isSweepRequest(event.headers)) {
+        return {
+          statusCode: 401,
+          body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+        };
+      }
+      sourceIds = (await websiteSources.getDueSources()).map(source => source.id);
+    }
+
+    const results = [];
+    let enqueued = 0;
+
+    for (const id of sourceIds) {
+      if (Date.now() > deadline) break;
+
+      try {
+        const result = await websiteSources.syncSource(id, createCrawler());
+        if (result) {
+          enqueued += result.enqueued.length;
+          results.push({ sourceId: id, stats: result.stats });
+        }
+      } catch (error) {
+        console.error(`Crawl of website source ${id} failed:`, error);
+        results.push({ sourceId: id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (enqueued > 0) {
+      try {
+        await triggerProcessingWorker();
+      } catch (error) {
+        // The processing sweep picks the jobs up
+        console.error('Failed to start processing worker:', error);
+      }
+    }
+
+    console.log('Crawl worker finished:', results);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, results }),
+    };
+  } catch (error) {
+    console.error('Crawl worker error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+};
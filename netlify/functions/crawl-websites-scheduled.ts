@@ -0,0 +1,32 @@
+import { schedule } from '@netlify/functions';
+import { triggerCrawlWorker, websiteSources } from '../lib/website-crawl';
+
+/**
+ * Starts a crawl worker every 15 minutes when website sources are due for
+ * their scheduled re-crawl. The worker only re-embeds pages whose content hash
+ * changed.
+ */
+export const handler = schedule('*/15 * * * *', async () => {
+  try {
+    const due = await websiteSources.getDueSources();
+
+    if (due.length > 0) {
+      await triggerCrawlWorker();
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, due: due.length }),
+    };
+  } catch (error) {
+    console.error('Website crawl sweep error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+});
@@ -1,6 +1,8 @@
 import { Handler } from '@netlify/functions';
 import { createClient } from '@supabase/supabase-js';
 import { Readable } from 'stream';
+import { documentVersions, processingQueue, triggerProcessingWorker, updateKnowledgeBaseStats } from '../lib/document-pipeline';
+import { hashFileContent } from '../../client/lib/document-versions';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -10,6 +12,8 @@ const supabase = createClient(
 interface FinalizeUploadRequest {
   sessionId: string;
   knowledgeBaseId: string;
+  // Document the upload is a new version of; defaults to the document with the same name
+  documentId?: string;
 }
 
 /**
@@ -82,19 +86,15 @@ async function storeFinalFile(
  * Create document record in database
  */
 async function createDocumentRecord(
-  sessionId: string,
   fileName: string,
   fileSize: number,
   storagePath: string,
   knowledgeBaseId: string,
   userId: string
 ): Promise<string> {
-  const documentId = `doc-${sessionId}`;
-
   const { data, error } = await supabase
     .from('documents')
     .insert({
-      id: documentId,
       knowledge_base_id: knowledgeBaseId,
       name: fileName,
       size_bytes: fileSize,
@@ -113,6 +113,54 @@ async function createDocumentRecord(
   return data.id;
 }
 
+/**
+ * Point an existing document at its new version's file. Its chunks stay
+ * searchable until the new version is processed.
+ */
+async function updateDocumentRecord(documentId: string, fileSize: number, storagePath: string): Promise<void> {
+  const { error } = await supabase
+    .from('documents')
+    .update({
+      size_bytes: fileSize,
+      storage_path: storagePath,
+      status: 'processing',
+    })
+    .eq('id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to update document record: ${error.message}`);
+  }
+}
+
+/**
+ * The document a re-upload replaces: the one named in the request, or the
+ * document with the same file name in the knowledge base
+ */
+async function findExistingDocument(
+  documentId: string | undefined,
+  fileName: string,
+  knowledgeBaseId: string,
+  userId: string
+): Promise<string | null> {
+  if (!documentId) {
+    return documentVersions.findDocumentByName(knowledgeBaseId, fileName);
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', documentId)
+    .eq('knowledge_base_id', knowledgeBaseId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Document ${documentId} not found in knowledge base ${knowledgeBaseId}`);
+  }
+
+  return data.id;
+}
+
 /**
  * Clean up chunks after successful finalization
  */
@@ -152,393 +200,37 @@ async function cleanupChunks(sessionId: string): Promise<void> {
 }
 
 /**
- * Update knowledge base statistics
+ * Queue the document for processing and start a worker. A worker that fails to
+ * start is not fatal: the scheduled sweep picks the job up.
  */
-async function updateKnowledgeBaseStats(knowledgeBaseId: string): Promise<void> {
-  // Get document count and total size for the knowledge base
-  const { data: stats, error } = await supabase
-    .from('documents')
-    .select('size_bytes')
-    .eq('knowledge_base_id', knowledgeBaseId)
-    .eq('status', 'processed');
-
-  if (error) {
-    console.error('Failed to get knowledge base stats:', error);
-    return;
-  }
-
-  const documentCount = stats?.length || 0;
-  const totalSize = stats?.reduce((sum, doc) => sum + (doc.size_bytes || 0), 0) || 0;
-
-  // Update knowledge base record
-  const { error: updateError } = await supabase
-    .from('knowledge_bases')
-    .update({
-      documents_count: documentCount,
-      total_size_bytes: totalSize,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', knowledgeBaseId);
-
-  if (updateError) {
-    console.error('Failed to update knowledge base stats:', updateError);
-  }
-}
-
-/**
- * Trigger document processing using the file processing service
- */
-async function triggerDocumentProcessing(
-  documentId: string, 
-  fileName: string, 
-  fileBuffer: Buffer
+async function enqueueDocumentProcessing(
+  documentId: string,
+  versionNumber: number,
+  fileName: string,
+  storagePath: string,
+  knowledgeBaseId: string,
+  userId: string
 ): Promise<void> {
-  try {
-    // Initialize processing status
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'pending',
-      new_progress: 0,
-      new_step: 'Initializing processing',
-    });
-
-    // Start processing in background
-    processFileInBackground(documentId, fileName, fileBuffer);
-    
-  } catch (error) {
-    console.error('Failed to trigger document processing:', error);
-    
-    // Update status to error
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'error',
-      new_progress: 0,
-      error_info: {
-        code: 'PROCESSING_INIT_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to initialize processing',
-        retryable: true,
-      },
-    });
-  }
-}
+  await processingQueue.enqueue({
+    documentId,
+    knowledgeBaseId,
+    userId,
+    fileName,
+    storagePath,
+    versionNumber,
+  });
+
+  await supabase.rpc('update_document_processing_status', {
+    doc_id: documentId,
+    new_status: 'pending',
+    new_progress: 0,
+    new_step: 'Queued for processing',
+  });
 
-/**
- * Process file in background
- */
-async function processFileInBackground(
-  documentId: string, 
-  fileName: string, 
-  fileBuffer: Buffer
-): Promise<void> {
   try {
-    // Step 1: Extract content
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'extracting',
-      new_progress: 20,
-      new_step: 'Extracting content from file',
-    });
-
-    const extractedContent = await extractFileContent(fileName, fileBuffer);
-
-    // Step 2: Create chunks
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'chunking',
-      new_progress: 40,
-      new_step: 'Creating content chunks',
-      chunks_total: extractedContent.chunks.length,
-    });
-
-    const chunks = await createContentChunks(extractedContent);
-
-    // Step 3: Generate embeddings
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'embedding',
-      new_progress: 60,
-      new_step: 'Generating embeddings',
-    });
-
-    const chunksWithEmbeddings = await generateEmbeddings(chunks);
-
-    // Step 4: Index content
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'indexing',
-      new_progress: 80,
-      new_step: 'Indexing content',
-    });
-
-    await indexContent(documentId, chunksWithEmbeddings, extractedContent.metadata);
-
-    // Step 5: Complete
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'completed',
-      new_progress: 100,
-      new_step: 'Processing completed',
-      chunks_processed: chunksWithEmbeddings.length,
-    });
-
-    // Update document status
-    await supabase
-      .from('documents')
-      .update({
-        status: 'processed',
-        processed_at: new Date().toISOString(),
-      })
-      .eq('id', documentId);
-
+    await triggerProcessingWorker();
   } catch (error) {
-    console.error('File processing failed:', error);
-    
-    await supabase.rpc('update_document_processing_status', {
-      doc_id: documentId,
-      new_status: 'error',
-      error_info: {
-        code: 'PROCESSING_FAILED',
-        message: error instanceof Error ? error.message : 'Processing failed',
-        retryable: true,
-      },
-    });
-
-    // Update document status to error
-    await supabase
-      .from('documents')
-      .update({
-        status: 'error',
-        processed_at: new Date().toISOString(),
-      })
-      .eq('id', documentId);
-  }
-}
-
-/**
- * Extract content from file based on type
- */
-async function extractFileContent(fileName: string, fileBuffer: Buffer): Promise<{
-  text: string;
-  chunks: any[];
-  metadata: any;
-}> {
-  const extension = fileName.toLowerCase().split('.').pop();
-  
-  switch (extension) {
-    case 'pdf':
-      return await extractPDFContent(fileBuffer);
-    case 'docx':
-      return await extractDOCXContent(fileBuffer);
-    case 'xlsx':
-    case 'xls':
-      return await extractExcelContent(fileBuffer);
-    case 'txt':
-    case 'md':
-      return await extractTextContent(fileBuffer, fileName);
-    case 'jpg':
-    case 'jpeg':
-    case 'png':
-    case 'gif':
-    case 'webp':
-      return await extractImageContent(fileBuffer, fileName);
-    default:
-      throw new Error(`Unsupported file type: ${extension}`);
-  }
-}
-
-/**
- * Extract content from PDF (simplified implementation)
- */
-async function extractPDFContent(fileBuffer: Buffer): Promise<{
-  text: string;
-  chunks: any[];
-  metadata: any;
-}> {
-  // This would use a PDF parsing library like pdf-parse
-  // For now, return placeholder content
-  const text = `PDF content extracted from ${fileBuffer.length} bytes`;
-  
-  return {
-    text,
-    chunks: [],
-    metadata: {
-      type: 'pdf',
-      size: fileBuffer.length,
-      pages: 1, // Would be extracted from actual PDF
-    },
-  };
-}
-
-/**
- * Extract content from DOCX (simplified implementation)
- */
-async function extractDOCXContent(fileBuffer: Buffer): Promise<{
-  text: string;
-  chunks: any[];
-  metadata: any;
-}> {
-  // This would use a library like mammoth
-  const text = `DOCX content extracted from ${fileBuffer.length} bytes`;
-  
-  return {
-    text,
-    chunks: [],
-    metadata: {
-      type: 'docx',
-      size: fileBuffer.length,
-    },
-  };
-}
-
-/**
- * Extract content from Excel (simplified implementation)
- */
-async function extractExcelContent(fileBuffer: Buffer): Promise<{
-  text: string;
-  chunks: any[];
-  metadata: any;
-}> {
-  // This would use a library like xlsx
-  const text = `Excel content extracted from ${fileBuffer.length} bytes`;
-  
-  return {
-    text,
-    chunks: [],
-    metadata: {
-      type: 'xlsx',
-      size: fileBuffer.length,
-      sheets: 1, // Would be extracted from actual Excel file
-    },
-  };
-}
-
-/**
- * Extract content from text files
- */
-async function extractTextContent(fileBuffer: Buffer, fileName: string): Promise<{
-  text: string;
-  chunks: any[];
-  metadata: any;
-}> {
-  const text = fileBuffer.toString('utf-8');
-  
-  return {
-    text,
-    chunks: [],
-    metadata: {
-      type: 'text',
-      size: fileBuffer.length,
-      fileName,
-    },
-  };
-}
-
-/**
- * Extract content from images (OCR placeholder)
- */
-async function extractImageContent(fileBuffer: Buffer, fileName: string): Promise<{
-  text: string;
-  chunks: any[];
-  metadata: any;
-}> {
-  // This would use OCR like Tesseract.js
-  const text = `Image content from ${fileName} (${fileBuffer.length} bytes)`;
-  
-  return {
-    text,
-    chunks: [],
-    metadata: {
-      type: 'image',
-      size: fileBuffer.length,
-      fileName,
-    },
-  };
-}
-
-/**
- * Create content chunks from extracted text
- */
-async function createContentChunks(extractedContent: any): Promise<any[]> {
-  const { text } = extractedContent;
-  const chunkSize = 1000; // tokens
-  const overlap = 200;
-  const chunks = [];
-  
-  // Simple text splitting (in production, use proper tokenization)
-  const words = text.split(/\s+/);
-  const wordsPerChunk = Math.floor(chunkSize * 0.75); // Rough token estimation
-  
-  for (let i = 0; i < words.length; i += wordsPerChunk - overlap) {
-    const chunkWords = words.slice(i, i + wordsPerChunk);
-    const chunkText = chunkWords.join(' ');
-    
-    if (chunkText.trim()) {
-      chunks.push({
-        id: `chunk-${chunks.length}`,
-        content: chunkText,
-        startIndex: i,
-        endIndex: i + chunkWords.length,
-        tokens: chunkWords.length,
-        metadata: {
-          type: 'text',
-          confidence: 1.0,
-        },
-      });
-    }
-  }
-  
-  return chunks;
-}
-
-/**
- * Generate embeddings for chunks (placeholder)
- */
-async function generateEmbeddings(chunks: any[]): Promise<any[]> {
-  // In production, this would call OpenAI embeddings API
-  return chunks.map(chunk => ({
-    ...chunk,
-    embedding: new Array(1536).fill(0).map(() => Math.random()), // Placeholder embedding
-  }));
-}
-
-/**
- * Index content in database
- */
-async function indexContent(documentId: string, chunks: any[], metadata: any): Promise<void> {
-  // Store chunks
-  const { error: chunksError } = await supabase
-    .from('document_chunks')
-    .insert(
-      chunks.map(chunk => ({
-        id: `${documentId}-${chunk.id}`,
-        document_id: documentId,
-        content: chunk.content,
-        start_index: chunk.startIndex,
-        end_index: chunk.endIndex,
-        tokens: chunk.tokens,
-        embedding: chunk.embedding,
-        metadata: chunk.metadata,
-      }))
-    );
-
-  if (chunksError) {
-    throw new Error(`Failed to store chunks: ${chunksError.message}`);
-  }
-
-  // Store metadata
-  const { error: metadataError } = await supabase
-    .from('document_metadata')
-    .upsert({
-      document_id: documentId,
-      metadata,
-      processing_stats: {
-        chunks_created: chunks.length,
-        processing_time: Date.now(),
-      },
-    });
-
-  if (metadataError) {
-    throw new Error(`Failed to store metadata: ${metadataError.message}`);
+    console.error('Failed to start processing worker:', error);
   }
 }
 
@@ -567,7 +259,7 @@ export const handler: Handler = async (event, context) => {
   }
 
   try {
-    const { sessionId, knowledgeBaseId }: FinalizeUploadRequest = JSON.parse(event.body || '{}');
+    const { sessionId, knowledgeBaseId, documentId: requestedDocumentId }: FinalizeUploadRequest = JSON.parse(event.body || '{}');
 
     if (!sessionId || !knowledgeBaseId) {
       return {
@@ -617,7 +309,40 @@ export const handler: Handler = async (event, context) => {
       throw new Error(`File size mismatch: expected ${session.file_size}, got ${fileBuffer.length}`);
     }
 
-    // Store final file
+    // A re-upload of identical bytes adds no version
+    const contentHash = await hashFileContent(new Uint8Array(fileBuffer));
+    const existingDocumentId = await findExistingDocument(
+      requestedDocumentId,
+      session.file_name,
+      knowledgeBaseId,
+      session.user_id
+    );
+    const latestVersion = existingDocumentId ? await documentVersions.getLatestVersion(existingDocumentId) : null;
+
+    if (existingDocumentId && latestVersion?.contentHash === contentHash && latestVersion.status !== 'failed') {
+      await supabase
+        .from('upload_sessions')
+        .update({ status: 'processing', completed_at: new Date().toISOString() })
+        .eq('id', sessionId);
+
+      cleanupChunks(sessionId).catch(error => {
+        console.error('Chunk cleanup failed:', error);
+      });
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          documentId: existingDocumentId,
+          version: latestVersion.versionNumber,
+          unchanged: true,
+          message: 'Document is unchanged',
+        }),
+      };
+    }
+
+    // Store final file; earlier versions keep theirs so they can be restored
     const storagePath = await storeFinalFile(
       sessionId, 
       session.file_name, 
@@ -625,15 +350,29 @@ export const handler: Handler = async (event, context) => {
       knowledgeBaseId
     );
 
-    // Create document record
-    const documentId = await createDocumentRecord(
-      sessionId,
-      session.file_name,
-      session.file_size,
+    // Create the document, or add a version to the one being replaced
+    let documentId: string;
+    if (existingDocumentId) {
+      documentId = existingDocumentId;
+      await updateDocumentRecord(documentId, session.file_size, storagePath);
+    } else {
+      documentId = await createDocumentRecord(
+        session.file_name,
+        session.file_size,
+        storagePath,
+        knowledgeBaseId,
+        session.user_id
+      );
+    }
+
+    const version = await documentVersions.createVersion({
+      documentId,
+      fileName: session.file_name,
       storagePath,
-      knowledgeBaseId,
-      session.user_id
-    );
+      sizeBytes: session.file_size,
+      contentHash,
+      userId: session.user_id,
+    });
 
     // Update session status
     const { error: updateError } = await supabase
@@ -658,10 +397,15 @@ export const handler: Handler = async (event, context) => {
       console.error('Knowledge base stats update failed:', error);
     });
 
-    // Trigger document processing (async, don't wait)
-    triggerDocumentProcessing(documentId, session.file_name, fileBuffer).catch(error => {
-      console.error('Document processing trigger failed:', error);
-    });
+    // Processing runs in a worker; the job is stored before we respond
+    await enqueueDocumentProcessing(
+      documentId,
+      version.versionNumber,
+      session.file_name,
+      storagePath,
+      knowledgeBaseId,
+      session.user_id
+    );
 
     return {
       statusCode: 200,
@@ -669,6 +413,7 @@ export const handler: Handler = async (event, context) => {
       body: JSON.stringify({
         success: true,
         documentId,
+        version: version.versionNumber,
         storagePath,
         message: 'Upload finalized successfully',
       }),
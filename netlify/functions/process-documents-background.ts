@@ -0,0 +1,47 @@
+import { Handler } from '@netlify/functions';
+import { randomUUID } from 'crypto';
+import { isSweepRequest } from '../lib/background-functions';
+import { processDocumentJob, processingQueue } from '../lib/document-pipeline';
+
+// Background functions run for up to 15 minutes; stop claiming well before that
+// so running jobs can finish inside the invocation
+const CLAIM_BUDGET_MS = 10 * 60 * 1000;
+
+/**
+ * Processing worker. Netlify runs functions ending in -background
+ * asynchronously, so callers get a 202 and the worker drains the queue. Only
+ * the functions that queue jobs start it, signed like the scheduled sweeps.
+ */
+export const handler: Handler = async event => {
+  if (!isSweepRequest(event.headers)) {
+    return {
+      statusCode: 401,
+      body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+    };
+  }
+
+  const workerId = `worker-${randomUUID()}`;
+
+  try {
+    const summary = await processingQueue.drain(workerId, processDocumentJob, {
+      deadline: Date.now() + CLAIM_BUDGET_MS,
+    });
+
+    console.log(`Processing worker ${workerId} finished:`, summary);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, workerId, summary }),
+    };
+  } catch (error) {
+    console.error('Processing worker error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+};
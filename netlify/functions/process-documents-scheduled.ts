@@ -0,0 +1,36 @@
+import { schedule } from '@netlify/functions';
+import { processingQueue, triggerProcessingWorker } from '../lib/document-pipeline';
+
+/**
+ * Sweeps the processing queue every minute: recovers jobs whose worker died,
+ * and starts a worker when retries have come due or an upload's worker never
+ * started.
+ */
+export const handler = schedule('* * * * *', async () => {
+  try {
+    await processingQueue.recoverExpiredLeases();
+
+    const pending = await processingQueue.getJobs({ statuses: ['queued', 'failed'], limit: 100 });
+    const now = Date.now();
+    const due = pending.filter(job => new Date(job.availableAt).getTime() <= now);
+
+    if (due.length > 0) {
+      await triggerProcessingWorker();
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, due: due.length }),
+    };
+  } catch (error) {
+    console.error('Processing sweep error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+});
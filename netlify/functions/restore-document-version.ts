@@ -0,0 +1,92 @@
+import { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { documentVersions, triggerProcessingWorker } from '../lib/document-pipeline';
+import { DocumentVersionError } from '../../client/lib/document-versions';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+interface RestoreVersionRequest {
+  documentId: string;
+  versionNumber: number;
+}
+
+/**
+ * Restore an earlier version of a document for its owner. The restore adds a
+ * new version with the earlier file and queues it for processing.
+ */
+export const handler: Handler = async (event) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { documentId, versionNumber }: RestoreVersionRequest = JSON.parse(event.body || '{}');
+
+    if (!documentId || !versionNumber) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ success: false, error: 'Missing required fields: documentId, versionNumber' }),
+      };
+    }
+
+    const token = (event.headers.authorization || '').replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    const { data: document } = await supabase
+      .from('documents')
+      .select('id, user_id')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (authError || !user || !document || document.user_id !== user.id) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+      };
+    }
+
+    const version = await documentVersions.restoreVersion(documentId, versionNumber, user.id);
+
+    try {
+      await triggerProcessingWorker();
+    } catch (error) {
+      // The processing sweep picks the job up
+      console.error('Failed to start processing worker:', error);
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true, version }),
+    };
+  } catch (error) {
+    console.error('Restore document version error:', error);
+
+    return {
+      statusCode: error instanceof DocumentVersionError ? 400 : 500,
+      headers,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+};
@@ -129,6 +129,41 @@ const handler: Handler = async (event, context) => {
       \${theme === 'dark' ? 'background-color: #374151; color: #f9fafb;' : ''}
     }
     
+    .ojastack-citation {
+      font-size: 10px;
+      margin-left: 1px;
+      color: \${primaryColor};
+      cursor: pointer;
+      text-decoration: none;
+    }
+    
+    .ojastack-sources {
+      margin: 8px 0 0;
+      padding: 6px 0 0 18px;
+      border-top: 1px solid rgba(100, 116, 139, 0.25);
+      font-size: 12px;
+    }
+    
+    .ojastack-source {
+      margin-bottom: 4px;
+      cursor: pointer;
+    }
+    
+    .ojastack-source-active {
+      font-weight: 600;
+    }
+    
+    .ojastack-source-snippet {
+      display: none;
+      font-weight: normal;
+      opacity: 0.8;
+      margin-top: 2px;
+    }
+    
+    .ojastack-source-active .ojastack-source-snippet {
+      display: block;
+    }
+    
     .ojastack-chat-input {
       padding: 16px;
       border-top: 1px solid #e2e8f0;
@@ -251,7 +286,7 @@ const handler: Handler = async (event, context) => {
     .then(response => response.json())
     .then(data => {
       if (data.response) {
-        addMessageToUI('agent', data.response);
+        addMessageToUI('agent', data.response, data.citations);
       }
     })
     .catch(error => {
@@ -261,15 +296,83 @@ const handler: Handler = async (event, context) => {
   };
   
   // Add message to UI
-  function addMessageToUI(role, content) {
+  function addMessageToUI(role, content, citations) {
     var messagesContainer = document.getElementById('ojastack-messages');
     var messageDiv = document.createElement('div');
     messageDiv.className = 'ojastack-message ojastack-message-' + role;
-    messageDiv.textContent = content;
+    
+    if (citations && citations.length > 0) {
+      renderCitedContent(messageDiv, content, citations);
+    } else {
+      messageDiv.textContent = content;
+    }
+    
     messagesContainer.appendChild(messageDiv);
     messagesContainer.scrollTop = messagesContainer.scrollHeight;
   }
   
+  // Render [n] markers as footnote links with a source list below the answer
+  function renderCitedContent(messageDiv, content, citations) {
+    var byMarker = {};
+    citations.forEach(function(citation) {
+      byMarker[citation.marker] = citation;
+    });
+    
+    var sourcesList = document.createElement('ol');
+    sourcesList.className = 'ojastack-sources';
+    var sourceItems = {};
+    
+    citations.forEach(function(citation) {
+      var item = document.createElement('li');
+      item.className = 'ojastack-source';
+      item.value = citation.marker;
+      item.textContent = citation.documentName + (citation.page ? ' (page ' + citation.page + ')' : '');
+      
+      var snippet = document.createElement('div');
+      snippet.className = 'ojastack-source-snippet';
+      snippet.textContent = citation.snippet;
+      item.appendChild(snippet);
+      
+      item.onclick = function() {
+        item.classList.toggle('ojastack-source-active');
+      };
+      sourceItems[citation.marker] = item;
+      sourcesList.appendChild(item);
+    });
+    
+    var pattern = /\\[(\\d{1,3})\\]/g;
+    var lastIndex = 0;
+    var match;
+    var body = document.createElement('div');
+    
+    while ((match = pattern.exec(content)) !== null) {
+      var citation = byMarker[Number(match[1])];
+      if (!citation) continue;
+      
+      body.appendChild(document.createTextNode(content.slice(lastIndex, match.index)));
+      
+      var link = document.createElement('a');
+      link.className = 'ojastack-citation';
+      link.href = '#';
+      link.textContent = '[' + citation.marker + ']';
+      link.title = citation.documentName;
+      link.onclick = (function(item) {
+        return function(event) {
+          event.preventDefault();
+          item.classList.add('ojastack-source-active');
+          item.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        };
+      })(sourceItems[citation.marker]);
+      body.appendChild(link);
+      
+      lastIndex = match.index + match[0].length;
+    }
+    
+    body.appendChild(document.createTextNode(content.slice(lastIndex)));
+    messageDiv.appendChild(body);
+    messageDiv.appendChild(sourcesList);
+  }
+  
   // Initialize conversation
   function initializeConversation() {
     fetch('/.netlify/functions/conversations', {
@@ -0,0 +1,37 @@
+import { Handler } from '@netlify/functions';
+import { workflowScheduler } from '../../client/lib/workflow-scheduler';
+import { isSweepRequest } from '../lib/background-functions';
+
+/**
+ * Schedule worker started by the schedule sweep. Fires every due schedule and
+ * stays alive until the workflow runs it started have finished; background
+ * functions run for up to 15 minutes.
+ */
+export const handler: Handler = async (event) => {
+  if (!isSweepRequest(event.headers)) {
+    return {
+      statusCode: 401,
+      body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+    };
+  }
+
+  try {
+    await workflowScheduler.tick();
+    await workflowScheduler.waitForRuns();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true }),
+    };
+  } catch (error) {
+    console.error('Workflow schedule worker error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,35 @@
+import { schedule } from '@netlify/functions';
+import { workflowScheduler } from '../../client/lib/workflow-scheduler';
+import { triggerBackgroundFunction } from '../lib/background-functions';
+
+const WORKER_FUNCTION_PATH = '/.netlify/functions/workflow-schedules-background';
+
+/**
+ * Checks every minute for workflow schedules that are due and starts a worker
+ * to fire them. Running the tick here rather than in a dashboard tab means
+ * schedules fire with nobody signed in, and only one scheduler claims each run.
+ */
+export const handler = schedule('* * * * *', async () => {
+  try {
+    const due = await workflowScheduler.getDueSchedules();
+
+    if (due.length > 0) {
+      await triggerBackgroundFunction(WORKER_FUNCTION_PATH);
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, due: due.length }),
+    };
+  } catch (error) {
+    console.error('Workflow schedule sweep error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+});
@@ -0,0 +1,37 @@
+import { Handler } from '@netlify/functions';
+import { workflowWaitService } from '../../client/lib/workflow-waits';
+import { isSweepRequest } from '../lib/background-functions';
+
+/**
+ * Wait worker started by the wait sweep. Times out pending waits whose
+ * timeout passed, then resumes the executions of every resolved wait that has
+ * not been resumed yet.
+ */
+export const handler: Handler = async (event) => {
+  if (!isSweepRequest(event.headers)) {
+    return {
+      statusCode: 401,
+      body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+    };
+  }
+
+  try {
+    const timedOut = await workflowWaitService.processTimeouts();
+    const resumed = await workflowWaitService.resumeResolvedWaits();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, timedOut: timedOut.length, resumed: resumed.length }),
+    };
+  } catch (error) {
+    console.error('Workflow wait worker error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,35 @@
+import { schedule } from '@netlify/functions';
+import { workflowWaitService } from '../../client/lib/workflow-waits';
+import { triggerBackgroundFunction } from '../lib/background-functions';
+
+const WORKER_FUNCTION_PATH = '/.netlify/functions/workflow-waits-background';
+
+/**
+ * Checks every minute for waits that timed out or were resolved without
+ * resuming their execution, such as approvals decided from the inbox, and
+ * starts a worker to resume them.
+ */
+export const handler = schedule('* * * * *', async () => {
+  try {
+    const due = await workflowWaitService.countDueWaits();
+
+    if (due > 0) {
+      await triggerBackgroundFunction(WORKER_FUNCTION_PATH);
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, due }),
+    };
+  } catch (error) {
+    console.error('Workflow wait sweep error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+});
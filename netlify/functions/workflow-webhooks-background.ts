@@ -0,0 +1,41 @@
+import { Handler } from '@netlify/functions';
+import { workflowWebhookService } from '../../client/lib/workflow-webhooks';
+import { isSweepRequest } from '../lib/background-functions';
+
+/**
+ * Webhook worker started by the webhook route and the delivery sweep. Runs
+ * received deliveries batch by batch until none are left; deliveries another
+ * worker claimed first are skipped.
+ */
+export const handler: Handler = async (event) => {
+  if (!isSweepRequest(event.headers)) {
+    return {
+      statusCode: 401,
+      body: JSON.stringify({ success: false, error: 'Invalid authentication' }),
+    };
+  }
+
+  try {
+    let ran = 0;
+    let batch: number;
+    do {
+      batch = await workflowWebhookService.dispatch();
+      ran += batch;
+    } while (batch > 0);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, ran }),
+    };
+  } catch (error) {
+    console.error('Webhook worker error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,35 @@
+import { schedule } from '@netlify/functions';
+import { workflowWebhookService } from '../../client/lib/workflow-webhooks';
+import { triggerBackgroundFunction } from '../lib/background-functions';
+
+const WORKER_FUNCTION_PATH = '/.netlify/functions/workflow-webhooks-background';
+
+/**
+ * Checks every minute for webhook deliveries nobody has run yet and starts a
+ * worker for them. The webhook route starts the worker as soon as it stores a
+ * delivery; this sweep catches deliveries whose worker failed to start.
+ */
+export const handler = schedule('* * * * *', async () => {
+  try {
+    const received = await workflowWebhookService.countReceivedDeliveries();
+
+    if (received > 0) {
+      await triggerBackgroundFunction(WORKER_FUNCTION_PATH);
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, received }),
+    };
+  } catch (error) {
+    console.error('Webhook delivery sweep error:', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+    };
+  }
+});
@@ -0,0 +1,45 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Background functions are public URLs like every other function. Work that
+ * spans all tenants is only started by the scheduled sweeps, which sign their
+ * requests with a secret shared through the site environment.
+ */
+
+const SECRET_HEADER = 'x-background-secret';
+
+/**
+ * Whether the request was sent by a scheduled sweep. False when no secret is
+ * configured, so a missing secret never opens the sweep path.
+ */
+export function isSweepRequest(headers: Record<string, string | undefined>): boolean {
+  const secret = process.env.BACKGROUND_FUNCTION_SECRET;
+  const provided = headers[SECRET_HEADER];
+
+  if (!secret || !provided) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Start a background function as a scheduled sweep. Background functions
+ * answer 202 straight away, so this only waits for the invocation to be accepted.
+ */
+export async function triggerBackgroundFunction(path: string, body?: unknown): Promise<void> {
+  const response = await fetch(`${process.env.SITE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [SECRET_HEADER]: process.env.BACKGROUND_FUNCTION_SECRET || '',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to start ${path} (${response.status})`);
+  }
+}
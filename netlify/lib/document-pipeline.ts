@@ -0,0 +1,558 @@
+import { createClient } from '@supabase/supabase-js';
+import { triggerBackgroundFunction } from './background-functions';
+import { createEmbeddingProvider, toPgVector, type EmbeddingProviderConfig } from '../../client/lib/embedding-service';
+import { chunkContent, type ChunkingOptions } from '../../client/lib/chunking-engine';
+import { getOcrEngine, layoutOcrText, resolveOcrSettings } from '../../client/lib/ocr-service';
+import {
+  CSVProcessor,
+  EmailProcessor,
+  EPUBProcessor,
+  HTMLProcessor,
+  JSONProcessor,
+  MarkdownProcessor,
+  PPTXProcessor,
+} from '../../client/lib/document-format-processors';
+import type { FileProcessor } from '../../client/lib/file-processing-service';
+import {
+  DocumentProcessingError,
+  DocumentProcessingQueue,
+  JobLeaseLostError,
+  toProcessingJobError,
+  type DocumentProcessingJob,
+  type JobLease,
+} from '../../client/lib/document-processing-queue';
+import {
+  DocumentVersionService,
+  hashChunkContent,
+  planChunkChanges,
+  type ChunkChangePlan,
+} from '../../client/lib/document-versions';
+
+/**
+ * Document processing pipeline run by the processing workers: extract, chunk,
+ * embed and index a stored upload. Shared by the Netlify functions, so it lives
+ * outside netlify/functions where every file is deployed as a function.
+ */
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const embeddingProvider = createEmbeddingProvider({
+  provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderConfig['provider'],
+  openaiApiKey: process.env.OPENAI_API_KEY,
+});
+
+export const processingQueue = new DocumentProcessingQueue(supabase, {
+  maxConcurrency: Number(process.env.DOCUMENT_PROCESSING_CONCURRENCY) || undefined,
+  perTenantConcurrency: Number(process.env.DOCUMENT_PROCESSING_TENANT_CONCURRENCY) || undefined,
+});
+
+export const documentVersions = new DocumentVersionService(supabase, processingQueue);
+
+const WORKER_FUNCTION_PATH = '/.netlify/functions/process-documents-background';
+
+/**
+ * Start a background worker to drain the queue. The request is signed, since
+ * the worker drains jobs for every tenant.
+ */
+export async function triggerProcessingWorker(): Promise<void> {
+  await triggerBackgroundFunction(WORKER_FUNCTION_PATH);
+}
+
+/**
+ * Run one attempt of a processing job. Throws when the attempt failed so the
+ * queue can schedule a retry; the lease is renewed between steps.
+ */
+export async function processDocumentJob(job: DocumentProcessingJob, lease: JobLease): Promise<void> {
+  const documentId = job.documentId;
+
+  try {
+    // Step 1: Extract content
+    await lease.heartbeat();
+    await supabase.rpc('update_document_processing_status', {
+      doc_id: documentId,
+      new_status: 'extracting',
+      new_progress: 20,
+      new_step: `Extracting content from file (attempt ${job.attempts} of ${job.maxAttempts})`,
+    });
+
+    const fileBuffer = await downloadStoredFile(job.storagePath);
+    const chunkingConfig = await getChunkingConfig(job.knowledgeBaseId);
+    const extractedContent = await extractFileContent(job.fileName, fileBuffer, chunkingConfig);
+
+    // Step 2: Create chunks
+    await lease.heartbeat();
+    await supabase.rpc('update_document_processing_status', {
+      doc_id: documentId,
+      new_status: 'chunking',
+      new_progress: 40,
+      new_step: 'Creating content chunks',
+      chunks_total: extractedContent.chunks.length,
+    });
+
+    const chunks = createContentChunks(job.fileName, extractedContent, chunkingConfig);
+
+    // Step 3: Generate embeddings for the chunks that changed
+    await lease.heartbeat();
+    await supabase.rpc('update_document_processing_status', {
+      doc_id: documentId,
+      new_status: 'embedding',
+      new_progress: 60,
+      new_step: 'Generating embeddings for changed content',
+    });
+
+    const plan = await planChunkUpdate(documentId, chunks);
+    const reusedEmbeddings = await documentVersions.getEmbeddings(
+      plan.added.flatMap(({ reuseEmbeddingFrom }) => reuseEmbeddingFrom ? [reuseEmbeddingFrom] : [])
+    );
+    const chunksToEmbed = plan.added
+      .filter(({ reuseEmbeddingFrom }) => !reuseEmbeddingFrom || !reusedEmbeddings.has(reuseEmbeddingFrom))
+      .map(({ chunk }) => chunk);
+    const chunksWithEmbeddings = await generateEmbeddings(chunksToEmbed);
+
+    // Step 4: Index content
+    await lease.heartbeat();
+    await supabase.rpc('update_document_processing_status', {
+      doc_id: documentId,
+      new_status: 'indexing',
+      new_progress: 80,
+      new_step: 'Indexing content',
+    });
+
+    const embedded = new Map(chunksToEmbed.map((chunk, index) => [chunk, chunksWithEmbeddings[index]]));
+    const applied = await indexContent(job, plan, embedded, reusedEmbeddings, extractedContent.metadata);
+    if (!applied) {
+      console.log(`Version ${job.versionNumber} of document ${documentId} was superseded by a newer version`);
+    }
+
+    // Step 5: Complete
+    await lease.heartbeat();
+    await supabase.rpc('update_document_processing_status', {
+      doc_id: documentId,
+      new_status: 'completed',
+      new_progress: 100,
+      new_step: 'Processing completed',
+      chunks_processed: chunks.length,
+    });
+
+    // Update document status
+    await supabase
+      .from('documents')
+      .update({
+        status: 'processed',
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', documentId);
+
+    await updateKnowledgeBaseStats(job.knowledgeBaseId);
+
+  } catch (error) {
+    // Cancelled or taken over by another worker: whoever owns the job reports on it
+    if (error instanceof JobLeaseLostError) {
+      throw error;
+    }
+
+    console.error(`Processing attempt ${job.attempts} of document ${documentId} failed:`, error);
+
+    const jobError = toProcessingJobError(error);
+    const willRetry = jobError.retryable && job.attempts < job.maxAttempts;
+
+    await supabase.rpc('update_document_processing_status', {
+      doc_id: documentId,
+      new_status: 'error',
+      new_step: willRetry ? 'Waiting to retry' : 'Processing failed',
+      error_info: { ...jobError, retryable: willRetry },
+    });
+
+    // The document only counts as failed once no attempts are left. Its
+    // current version stays searchable.
+    if (!willRetry) {
+      if (job.versionNumber) {
+        await documentVersions.markVersionFailed(documentId, job.versionNumber, jobError.message);
+      }
+
+      await supabase
+        .from('documents')
+        .update({
+          status: 'error',
+          processed_at: new Date().toISOString(),
+        })
+        .eq('id', documentId);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Update knowledge base statistics
+ */
+export async function updateKnowledgeBaseStats(knowledgeBaseId: string): Promise<void> {
+  // Get document count and total size for the knowledge base
+  const { data: stats, error } = await supabase
+    .from('documents')
+    .select('size_bytes')
+    .eq('knowledge_base_id', knowledgeBaseId)
+    .eq('status', 'processed');
+
+  if (error) {
+    console.error('Failed to get knowledge base stats:', error);
+    return;
+  }
+
+  const documentCount = stats?.length || 0;
+  const totalSize = stats?.reduce((sum, doc) => sum + (doc.size_bytes || 0), 0) || 0;
+
+  // Update knowledge base record
+  const { error: updateError } = await supabase
+    .from('knowledge_bases')
+    .update({
+      documents_count: documentCount,
+      total_size_bytes: totalSize,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', knowledgeBaseId);
+
+  if (updateError) {
+    console.error('Failed to update knowledge base stats:', updateError);
+  }
+}
+
+/**
+ * Get the chunking settings configured for the knowledge base
+ */
+async function getChunkingConfig(knowledgeBaseId: string): Promise<ChunkingOptions> {
+  const { data, error } = await supabase
+    .from('knowledge_bases')
+    .select('chunking_config')
+    .eq('id', knowledgeBaseId)
+    .single();
+
+  if (error) {
+    console.error('Failed to get chunking config, using defaults:', error);
+    return {};
+  }
+
+  // Unset options fall back to the chunking defaults, or to the strategy the
+  // file's processor prefers
+  return data?.chunking_config || {};
+}
+
+/**
+ * Download an upload finalize-upload stored in the documents bucket
+ */
+async function downloadStoredFile(storagePath: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage
+    .from('documents')
+    .download(storagePath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download stored file: ${error?.message || 'file not found'}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Extract content from file based on type
+ */
+async function extractFileContent(fileName: string, fileBuffer: Buffer, options: ChunkingOptions): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  const extension = fileName.toLowerCase().split('.').pop();
+  
+  switch (extension) {
+    case 'pdf':
+      return await extractPDFContent(fileBuffer);
+    case 'docx':
+      return await extractDOCXContent(fileBuffer);
+    case 'xlsx':
+    case 'xls':
+      return await extractExcelContent(fileBuffer);
+    case 'txt':
+      return await extractTextContent(fileBuffer, fileName);
+    case 'md':
+    case 'markdown':
+    case 'mdx':
+      return await extractStructuredContent(new MarkdownProcessor(), fileBuffer, fileName, options);
+    case 'html':
+    case 'htm':
+      return await extractStructuredContent(new HTMLProcessor(), fileBuffer, fileName, options);
+    case 'pptx':
+      return await extractStructuredContent(new PPTXProcessor(), fileBuffer, fileName, options);
+    case 'epub':
+      return await extractStructuredContent(new EPUBProcessor(), fileBuffer, fileName, options);
+    case 'csv':
+    case 'tsv':
+      return await extractStructuredContent(new CSVProcessor(), fileBuffer, fileName, options);
+    case 'json':
+      return await extractStructuredContent(new JSONProcessor(), fileBuffer, fileName, options);
+    case 'eml':
+    case 'mbox':
+      return await extractStructuredContent(new EmailProcessor(), fileBuffer, fileName, options);
+    case 'jpg':
+    case 'jpeg':
+    case 'png':
+    case 'gif':
+    case 'webp':
+      return await extractImageContent(fileBuffer, fileName);
+    default:
+      throw new DocumentProcessingError(`Unsupported file type: ${extension}`, 'UNSUPPORTED_FILE_TYPE', false);
+  }
+}
+
+/**
+ * Extract content from PDF (simplified implementation)
+ */
+async function extractPDFContent(fileBuffer: Buffer): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  // This would use a PDF parsing library like pdf-parse
+  // For now, return placeholder content
+  const text = `PDF content extracted from ${fileBuffer.length} bytes`;
+  
+  return {
+    text,
+    chunks: [],
+    metadata: {
+      type: 'pdf',
+      size: fileBuffer.length,
+      pages: 1, // Would be extracted from actual PDF
+    },
+  };
+}
+
+/**
+ * Extract content from DOCX (simplified implementation)
+ */
+async function extractDOCXContent(fileBuffer: Buffer): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  // This would use a library like mammoth
+  const text = `DOCX content extracted from ${fileBuffer.length} bytes`;
+  
+  return {
+    text,
+    chunks: [],
+    metadata: {
+      type: 'docx',
+      size: fileBuffer.length,
+    },
+  };
+}
+
+/**
+ * Extract content from Excel (simplified implementation)
+ */
+async function extractExcelContent(fileBuffer: Buffer): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  // This would use a library like xlsx
+  const text = `Excel content extracted from ${fileBuffer.length} bytes`;
+  
+  return {
+    text,
+    chunks: [],
+    metadata: {
+      type: 'xlsx',
+      size: fileBuffer.length,
+      sheets: 1, // Would be extracted from actual Excel file
+    },
+  };
+}
+
+/**
+ * Extract content from text files
+ */
+async function extractTextContent(fileBuffer: Buffer, fileName: string): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  const text = fileBuffer.toString('utf-8');
+  
+  return {
+    text,
+    chunks: [],
+    metadata: {
+      type: 'text',
+      size: fileBuffer.length,
+      fileName,
+    },
+  };
+}
+
+/**
+ * Extract and chunk structured formats with their client processor, which
+ * keeps headings, slides, emails and Q/A pairs apart
+ */
+async function extractStructuredContent(
+  processor: FileProcessor,
+  fileBuffer: Buffer,
+  fileName: string,
+  options: ChunkingOptions
+): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  const { text, chunks, metadata, tables } = await processor.processor(fileBuffer, fileName, options);
+
+  return {
+    text,
+    chunks,
+    metadata: {
+      ...metadata,
+      type: processor.type,
+      size: fileBuffer.length,
+      tables: tables?.length || 0,
+    },
+  };
+}
+
+/**
+ * Extract text from images with OCR
+ */
+async function extractImageContent(fileBuffer: Buffer, fileName: string): Promise<{
+  text: string;
+  chunks: any[];
+  metadata: any;
+}> {
+  const settings = resolveOcrSettings();
+  const result = await getOcrEngine().recognize(fileBuffer, settings);
+  const text = layoutOcrText(result).text || `Image: ${fileName}`;
+
+  return {
+    text,
+    chunks: [],
+    metadata: {
+      type: 'image',
+      size: fileBuffer.length,
+      fileName,
+      language: settings.languages.join('+'),
+      ocrConfidence: result.confidence,
+    },
+  };
+}
+
+/**
+ * Create content chunks from extracted text with the shared chunking engine
+ */
+function createContentChunks(fileName: string, extractedContent: any, options: ChunkingOptions): any[] {
+  if (extractedContent.chunks.length > 0) {
+    return extractedContent.chunks;
+  }
+
+  return chunkContent(
+    { fileName, segments: [{ text: extractedContent.text }] },
+    options
+  );
+}
+
+/**
+ * Generate embeddings for chunks
+ */
+async function generateEmbeddings(chunks: any[]): Promise<any[]> {
+  if (chunks.length === 0) return [];
+
+  const embeddings = await embeddingProvider.embed(chunks.map(chunk => chunk.content));
+
+  return chunks.map((chunk, index) => ({
+    ...chunk,
+    embedding: embeddings[index],
+    metadata: {
+      ...chunk.metadata,
+      embeddingModel: embeddingProvider.model,
+    },
+  }));
+}
+
+/**
+ * Match the new chunks to the stored ones by content hash, so only changed
+ * chunks are embedded
+ */
+async function planChunkUpdate(documentId: string, chunks: any[]): Promise<ChunkChangePlan<any>> {
+  const hashed = await Promise.all(
+    chunks.map(async chunk => ({ ...chunk, contentHash: await hashChunkContent(chunk.content) }))
+  );
+
+  return planChunkChanges(await documentVersions.getChunks(documentId), hashed, embeddingProvider.model);
+}
+
+/**
+ * Index content in database: insert the added chunks, keep the unchanged ones
+ * and retire the rest in one transaction. Returns false when a newer version of
+ * the document went live first.
+ */
+async function indexContent(
+  job: DocumentProcessingJob,
+  plan: ChunkChangePlan<any>,
+  embedded: Map<any, any>,
+  reusedEmbeddings: Map<string, string>,
+  metadata: any
+): Promise<boolean> {
+  const documentId = job.documentId;
+
+  const newChunks = plan.added.map(({ chunk, reuseEmbeddingFrom }) => {
+    const reused = reuseEmbeddingFrom ? reusedEmbeddings.get(reuseEmbeddingFrom) : undefined;
+    const embeddedChunk = embedded.get(chunk);
+
+    return {
+      // Unique per run, so chunks retired by earlier versions never collide
+      id: `${documentId}-${job.id}-${chunk.id}`,
+      content: chunk.content,
+      start_index: chunk.startIndex,
+      end_index: chunk.endIndex,
+      tokens: chunk.tokens,
+      embedding: reused ?? toPgVector(embeddedChunk.embedding),
+      metadata: reused ? { ...chunk.metadata, embeddingModel: embeddingProvider.model } : embeddedChunk.metadata,
+      content_hash: chunk.contentHash,
+    };
+  });
+
+  const keptChunks = plan.kept.map(({ chunk, id }) => ({
+    id,
+    start_index: chunk.startIndex,
+    end_index: chunk.endIndex,
+    metadata: { ...chunk.metadata, embeddingModel: embeddingProvider.model },
+    content_hash: chunk.contentHash,
+  }));
+
+  const applied = await documentVersions.applyChunkChanges(documentId, job.versionNumber, {
+    newChunks,
+    keptChunks,
+    retiredChunkIds: plan.retired,
+    stats: plan.stats,
+  });
+
+  if (!applied) return false;
+
+  // Store metadata
+  const { error: metadataError } = await supabase
+    .from('document_metadata')
+    .upsert({
+      document_id: documentId,
+      metadata,
+      processing_stats: {
+        chunks_created: plan.added.length + plan.kept.length,
+        ...plan.stats,
+        processing_time: Date.now(),
+      },
+    });
+
+  if (metadataError) {
+    throw new Error(`Failed to store metadata: ${metadataError.message}`);
+  }
+
+  return true;
+}
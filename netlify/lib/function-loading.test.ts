@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { build } from 'esbuild';
+import { execFileSync } from 'child_process';
+import { fileURLToPath, pathToFileURL } from 'url';
+import path from 'path';
+
+/**
+ * The functions run in plain Node, where Vite's import.meta.env does not
+ * exist. Each one is bundled the way Netlify bundles it and imported in a
+ * separate Node process, so a module that only loads under Vite fails here.
+ */
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+const OUT_DIR = path.join(ROOT, 'node_modules/.cache/function-loading');
+
+const FUNCTION_ENV = {
+  PATH: process.env.PATH,
+  VITE_SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key',
+  EMBEDDING_PROVIDER: 'local',
+};
+
+async function loadHandler(name: string): Promise<string> {
+  const outfile = path.join(OUT_DIR, `${name}.mjs`);
+  await build({
+    entryPoints: [path.join(ROOT, 'netlify/functions', `${name}.ts`)],
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    packages: 'external',
+    logLevel: 'silent',
+  });
+
+  // Some modules start timers on load, so the process is ended once the import settled
+  const script = `const { handler } = await import(${JSON.stringify(pathToFileURL(outfile).href)});
+console.log('handler: ' + typeof handler);
+process.exit(0);`;
+  return execFileSync(process.execPath, ['--input-type=module', '-e', script], {
+    cwd: ROOT,
+    env: FUNCTION_ENV,
+    encoding: 'utf8',
+    timeout: 30_000,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+}
+
+describe('Netlify functions', () => {
+  it.each([
+    'workflow-waits-background',
+    'workflow-schedules-background',
+    'workflow-webhooks-scheduled',
+    'workflow-webhooks-background',
+    'process-documents-scheduled',
+    'process-documents-background',
+    'crawl-websites-scheduled',
+    'crawl-websites-background',
+  ])('should load %s in Node', async name => {
+    expect(await loadHandler(name)).toContain('handler: function');
+  }, 60_000);
+});
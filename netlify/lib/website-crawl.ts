@@ -0,0 +1,40 @@
+import { lookup } from 'dns/promises';
+import { createClient } from '@supabase/supabase-js';
+import { WebsiteCrawler, type HostResolver } from '../../client/lib/website-crawler';
+import { WebsiteSourceService } from '../../client/lib/website-source-service';
+import { triggerBackgroundFunction } from './background-functions';
+import { processingQueue } from './document-pipeline';
+
+/**
+ * Website source crawling shared by the crawl worker and the scheduled sweep.
+ * Crawled pages are queued on the same processing queue as uploads.
+ */
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const websiteSources = new WebsiteSourceService(supabase, processingQueue);
+
+// Every address of the host, so the crawler can refuse hosts with any private one
+const resolveHost: HostResolver = async hostname => {
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true, verbatim: true });
+  return addresses.map(({ address }) => address);
+};
+
+/**
+ * Crawler that resolves hosts through DNS before every request
+ */
+export function createCrawler(): WebsiteCrawler {
+  return new WebsiteCrawler(undefined, {}, resolveHost);
+}
+
+const CRAWL_WORKER_FUNCTION_PATH = '/.netlify/functions/crawl-websites-background';
+
+/**
+ * Start a background worker that crawls the sources that are due
+ */
+export async function triggerCrawlWorker(): Promise<void> {
+  await triggerBackgroundFunction(CRAWL_WORKER_FUNCTION_PATH);
+}
@@ -2,12 +2,22 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import { handleWorkflowWebhook, WEBHOOK_BODY_LIMIT } from "./routes/webhooks";
 
 export function createServer() {
   const app = express();
 
   // Middleware
   app.use(cors());
+
+  // Inbound webhooks of webhook trigger nodes. Mounted ahead of the body parsers:
+  // signatures are checked over the exact bytes sent, whatever their content type.
+  app.all(
+    "/api/webhooks/:webhookId",
+    express.raw({ type: "*/*", limit: WEBHOOK_BODY_LIMIT }),
+    handleWorkflowWebhook,
+  );
+
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+
+vi.mock("@supabase/supabase-js", () => ({ createClient: () => ({ from: vi.fn() }) }));
+
+import { parseWebhookBody, redactHeaders, verifyWebhookAuth, WebhookBodyError } from "./webhooks";
+
+const body = JSON.stringify({ order: 7 });
+
+describe("verifyWebhookAuth", () => {
+  it("should check the API key header", () => {
+    const settings = { authType: "api_key" as const, authConfig: { token: "key-1", header: "X-Token" } };
+
+    expect(verifyWebhookAuth(settings, { headers: { "x-token": "key-1" }, rawBody: body })).toBeNull();
+    expect(verifyWebhookAuth(settings, { headers: { "x-token": "key-2" }, rawBody: body })).toBe("Invalid API key");
+    expect(verifyWebhookAuth(settings, { headers: {}, rawBody: body })).toBe("Invalid API key");
+  });
+
+  it("should check basic credentials", () => {
+    const settings = { authType: "basic" as const, authConfig: { username: "hook", password: "pass" } };
+    const authorization = `Basic ${Buffer.from("hook:pass").toString("base64")}`;
+
+    expect(verifyWebhookAuth(settings, { headers: { authorization }, rawBody: body })).toBeNull();
+    expect(verifyWebhookAuth(settings, { headers: { authorization: "Basic Zm9vOmJhcg==" }, rawBody: body }))
+      .toBe("Invalid credentials");
+  });
+
+  it("should check the HMAC signature of the timestamp and raw body", () => {
+    const settings = { authType: "hmac" as const, authConfig: { secret: "s3cret" } };
+    const now = new Date("2024-05-01T10:00:00.000Z");
+    const timestamp = String(now.getTime() / 1000);
+    const signature = createHmac("sha256", "s3cret").update(`${timestamp}.${body}`).digest("hex");
+    const headers = { "x-signature-256": `sha256=${signature}`, "x-signature-timestamp": timestamp };
+
+    expect(verifyWebhookAuth(settings, { headers, rawBody: Buffer.from(body) }, now)).toBeNull();
+    expect(verifyWebhookAuth(settings, { headers, rawBody: `${body} ` }, now)).toBe("Invalid signature");
+    expect(verifyWebhookAuth(settings, { headers: { "x-signature-256": signature }, rawBody: body }, now))
+      .toBe("Missing signature");
+  });
+
+  it("should refuse HMAC signatures outside the tolerance", () => {
+    const settings = { authType: "hmac" as const, authConfig: { secret: "s3cret", tolerance_seconds: 60 } };
+    const signedAt = new Date("2024-05-01T10:00:00.000Z");
+    const timestamp = String(signedAt.getTime() / 1000);
+    const signature = createHmac("sha256", "s3cret").update(`${timestamp}.${body}`).digest("hex");
+    const request = { headers: { "x-signature-256": signature, "x-signature-timestamp": timestamp }, rawBody: body };
+
+    expect(verifyWebhookAuth(settings, request, new Date("2024-05-01T10:00:59.000Z"))).toBeNull();
+    expect(verifyWebhookAuth(settings, request, new Date("2024-05-01T10:01:01.000Z")))
+      .toBe("Signature timestamp is outside the allowed window");
+  });
+});
+
+describe("parseWebhookBody", () => {
+  it("should parse the raw body by content type", () => {
+    expect(parseWebhookBody(Buffer.from(body), "application/json; charset=utf-8")).toEqual({ order: 7 });
+    expect(parseWebhookBody(Buffer.from("order=7&paid=true"), "application/x-www-form-urlencoded"))
+      .toEqual({ order: "7", paid: "true" });
+    expect(parseWebhookBody(Buffer.from("paid"), "text/plain")).toBe("paid");
+    expect(parseWebhookBody(Buffer.from([0xff, 0x00]), "application/octet-stream")).toEqual({});
+    expect(parseWebhookBody(Buffer.alloc(0), "application/json")).toEqual({});
+  });
+
+  it("should refuse malformed JSON", () => {
+    expect(() => parseWebhookBody(Buffer.from("{"), "application/json")).toThrow(WebhookBodyError);
+  });
+});
+
+describe("redactHeaders", () => {
+  it("should not store the credentials a delivery was sent with", () => {
+    const headers = redactHeaders(
+      { authorization: "Bearer x", "x-api-key": "key-1", "content-type": "application/json" },
+      { authType: "api_key", authConfig: {} },
+    );
+
+    expect(headers).toEqual({
+      authorization: "[redacted]",
+      "x-api-key": "[redacted]",
+      "content-type": "application/json",
+    });
+  });
+});
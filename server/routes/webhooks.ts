@@ -0,0 +1,319 @@
+import { RequestHandler, Response } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { WebhookAcceptedResponse, WebhookErrorResponse } from "@shared/api";
+import { triggerBackgroundFunction } from "../../netlify/lib/background-functions";
+
+let serviceClient: SupabaseClient | null = null;
+
+// Deliveries are stored before the caller is authenticated, so this needs the
+// service role. Created on first use: the dev server loads routes without the key.
+function getSupabase(): SupabaseClient {
+  if (!serviceClient) {
+    serviceClient = createClient(process.env.VITE_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+  }
+  return serviceClient;
+}
+
+// Longest a sync webhook waits for the workflow before answering 202. The api
+// function is synchronous and Netlify ends those after 10 seconds.
+const SYNC_RESPONSE_TIMEOUT_MS = 8 * 1000;
+const SYNC_POLL_INTERVAL_MS = 500;
+
+// Largest delivery body accepted. Bigger ones are answered 413 before anything is stored.
+export const WEBHOOK_BODY_LIMIT = "1mb";
+
+// HMAC signatures cover a timestamp; deliveries signed longer ago than this are refused
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Refused deliveries stored per webhook and minute. Past that they are answered
+// 429 without a record, so nobody can fill the table with bad credentials.
+const REJECTED_DELIVERY_LIMIT = 20;
+const REJECTED_DELIVERY_WINDOW_MS = 60 * 1000;
+const rejectedDeliveries = new Map<string, { windowStart: number; count: number }>();
+
+const WORKER_FUNCTION_PATH = "/.netlify/functions/workflow-webhooks-background";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface WebhookAuthSettings {
+  authType: "none" | "api_key" | "bearer" | "basic" | "hmac";
+  authConfig: Record<string, any>;
+}
+
+export interface WebhookRequestParts {
+  // Header names in lower case, as Node delivers them
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: Buffer | string;
+}
+
+export class WebhookBodyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookBodyError";
+  }
+}
+
+function header(request: WebhookRequestParts, name: string): string {
+  const value = request.headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value) || "";
+}
+
+function safeEqual(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  return actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+/**
+ * HMAC signature a delivery was sent with, without its sha256= prefix
+ */
+export function getDeliverySignature(settings: WebhookAuthSettings, request: WebhookRequestParts): string {
+  const signatureHeader = settings.authConfig?.signature_header || "X-Signature-256";
+  return header(request, signatureHeader).replace(/^sha256=/, "").toLowerCase();
+}
+
+/**
+ * Check a delivery against the authentication of its webhook trigger. Returns
+ * the reason it was refused, or null when it may run the workflow.
+ *
+ * HMAC signatures are computed over `<timestamp>.<raw body>`, with the Unix
+ * timestamp in seconds sent alongside, so a captured delivery cannot be
+ * replayed once it falls outside the tolerance.
+ */
+export function verifyWebhookAuth(
+  settings: WebhookAuthSettings,
+  request: WebhookRequestParts,
+  now: Date = new Date(),
+): string | null {
+  const config = settings.authConfig || {};
+
+  switch (settings.authType) {
+    case "none":
+      return null;
+
+    case "api_key": {
+      const key = header(request, config.header || "X-API-Key");
+      return config.token && safeEqual(key, config.token) ? null : "Invalid API key";
+    }
+
+    case "bearer": {
+      const authorization = header(request, "Authorization");
+      return config.token && safeEqual(authorization, `Bearer ${config.token}`) ? null : "Invalid bearer token";
+    }
+
+    case "basic": {
+      const credentials = Buffer.from(`${config.username || ""}:${config.password || ""}`).toString("base64");
+      return config.username && safeEqual(header(request, "Authorization"), `Basic ${credentials}`)
+        ? null
+        : "Invalid credentials";
+    }
+
+    case "hmac": {
+      const signature = getDeliverySignature(settings, request);
+      const timestamp = header(request, config.timestamp_header || "X-Signature-Timestamp");
+      if (!config.secret || !signature || !timestamp) {
+        return "Missing signature";
+      }
+
+      const tolerance = Number(config.tolerance_seconds) || DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+      const signedAt = Number(timestamp);
+      if (!Number.isFinite(signedAt) || Math.abs(now.getTime() / 1000 - signedAt) > tolerance) {
+        return "Signature timestamp is outside the allowed window";
+      }
+
+      const expected = createHmac("sha256", config.secret)
+        .update(`${timestamp}.`)
+        .update(request.rawBody)
+        .digest("hex");
+      return safeEqual(signature, expected) ? null : "Invalid signature";
+    }
+
+    default:
+      return `Unsupported authentication: ${settings.authType}`;
+  }
+}
+
+/**
+ * Headers stored with a delivery, without the credentials it was sent with
+ */
+export function redactHeaders(
+  headers: Record<string, string | string[] | undefined>,
+  settings: WebhookAuthSettings,
+): Record<string, string | string[]> {
+  const secret = new Set(["authorization", "cookie", "proxy-authorization"]);
+  if (settings.authType === "api_key") {
+    secret.add((settings.authConfig?.header || "X-API-Key").toLowerCase());
+  }
+
+  const redacted: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      redacted[name] = secret.has(name.toLowerCase()) ? "[redacted]" : value;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Payload stored with a delivery, parsed from the raw body by content type.
+ * Bodies of other types are not stored.
+ */
+export function parseWebhookBody(rawBody: Buffer, contentType: string = ""): any {
+  if (rawBody.length === 0) {
+    return {};
+  }
+
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  const text = rawBody.toString("utf8");
+
+  if (type === "application/json" || type.endsWith("+json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new WebhookBodyError("Body is not valid JSON");
+    }
+  }
+  if (type === "application/x-www-form-urlencoded") {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  if (type.startsWith("text/")) {
+    return text;
+  }
+  return {};
+}
+
+// Whether another refused delivery of this webhook may be stored right now
+function mayStoreRejectedDelivery(webhookId: string, now: number = Date.now()): boolean {
+  const window = rejectedDeliveries.get(webhookId);
+  if (!window || now - window.windowStart >= REJECTED_DELIVERY_WINDOW_MS) {
+    rejectedDeliveries.set(webhookId, { windowStart: now, count: 1 });
+    return true;
+  }
+
+  window.count += 1;
+  return window.count <= REJECTED_DELIVERY_LIMIT;
+}
+
+function sendError(res: Response, status: number, error: string, eventId?: string) {
+  const response: WebhookErrorResponse = { error, eventId };
+  return res.status(status).json(response);
+}
+
+async function waitForResponse(eventId: string): Promise<{ status: number; body: any } | null> {
+  const deadline = Date.now() + SYNC_RESPONSE_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const { data } = await getSupabase()
+      .from("webhook_events")
+      .select("status, response_status, response_body")
+      .eq("id", eventId)
+      .single();
+
+    if (data && (data.status === "processed" || data.status === "failed")) {
+      return { status: data.response_status || 200, body: data.response_body };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, SYNC_POLL_INTERVAL_MS));
+  }
+
+  return null;
+}
+
+/**
+ * Receives a delivery for a webhook trigger. Expects the body as raw bytes, so
+ * signatures are checked over exactly what was sent. Accepted deliveries are
+ * stored and run by the workflow webhook dispatcher; refused ones are stored
+ * without their body, up to a limit per minute. Sync webhooks answer with the
+ * workflow's response, async ones with 202.
+ */
+export const handleWorkflowWebhook: RequestHandler = async (req, res) => {
+  const { webhookId } = req.params;
+  if (!UUID_PATTERN.test(webhookId)) {
+    return sendError(res, 404, "Webhook not found");
+  }
+
+  const { data: webhook, error } = await getSupabase()
+    .from("workflow_webhooks")
+    .select("*")
+    .eq("id", webhookId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load webhook:", error);
+    return sendError(res, 500, "Failed to load webhook");
+  }
+  if (!webhook || !webhook.enabled) {
+    return sendError(res, 404, "Webhook not found");
+  }
+  if (webhook.method !== req.method) {
+    return sendError(res, 405, `Use ${webhook.method} for this webhook`);
+  }
+
+  const settings: WebhookAuthSettings = { authType: webhook.auth_type, authConfig: webhook.auth_config };
+  const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const request: WebhookRequestParts = { headers: req.headers, rawBody };
+  const authError = verifyWebhookAuth(settings, request);
+
+  if (authError && !mayStoreRejectedDelivery(webhook.id)) {
+    return sendError(res, 429, "Too many refused deliveries");
+  }
+
+  let payload: any = {};
+  if (!authError && req.method !== "GET") {
+    try {
+      payload = parseWebhookBody(rawBody, req.headers["content-type"]);
+    } catch (parseError) {
+      return sendError(res, 400, parseError instanceof WebhookBodyError ? parseError.message : "Invalid body");
+    }
+  }
+
+  const { data: event, error: insertError } = await getSupabase()
+    .from("webhook_events")
+    .insert({
+      webhook_id: webhook.id,
+      workflow_id: webhook.workflow_id,
+      channel_type: "workflow",
+      event_type: "workflow_trigger",
+      method: req.method,
+      headers: redactHeaders(req.headers, settings),
+      query: req.query,
+      payload,
+      timestamp: new Date().toISOString(),
+      status: authError ? "rejected" : "received",
+      processing_error: authError,
+      // Unique per webhook, so a signed delivery is only accepted once
+      delivery_signature: settings.authType === "hmac" && !authError ? getDeliverySignature(settings, request) : null,
+    })
+    .select("id")
+    .single();
+
+  if (insertError?.code === "23505") {
+    return sendError(res, 409, "Delivery was already received");
+  }
+  if (insertError || !event) {
+    console.error("Failed to store webhook delivery:", insertError);
+    return sendError(res, 500, "Failed to store delivery");
+  }
+
+  if (authError) {
+    return sendError(res, 401, authError, event.id);
+  }
+
+  // The delivery sweep runs it within a minute if the worker does not start
+  try {
+    await triggerBackgroundFunction(WORKER_FUNCTION_PATH);
+  } catch (triggerError) {
+    console.error("Failed to start the webhook worker:", triggerError);
+  }
+
+  if (webhook.response_mode === "sync") {
+    const response = await waitForResponse(event.id);
+    if (response) {
+      return res.status(response.status).json(response.body);
+    }
+  }
+
+  const accepted: WebhookAcceptedResponse = { eventId: event.id, status: "accepted" };
+  res.status(202).json(accepted);
+};
@@ -10,3 +10,25 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Path of the inbound webhook of a webhook trigger node
+ */
+export const WEBHOOK_PATH_PREFIX = "/api/webhooks";
+
+export function getWebhookPath(webhookId: string): string {
+  return `${WEBHOOK_PATH_PREFIX}/${webhookId}`;
+}
+
+/**
+ * Response of a webhook delivery that was stored and runs in the background
+ */
+export interface WebhookAcceptedResponse {
+  eventId: string;
+  status: "accepted";
+}
+
+export interface WebhookErrorResponse {
+  error: string;
+  eventId?: string;
+}
@@ -0,0 +1,48 @@
+-- Enable pgvector for similarity search over document chunks
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Vector similarity search index
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding ON document_chunks
+USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_metadata ON document_chunks USING gin (metadata);
+
+-- Function to find the chunks most similar to a query embedding within a set of knowledge bases
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding VECTOR(1536),
+  knowledge_base_ids TEXT[],
+  match_count INTEGER DEFAULT 5,
+  min_similarity FLOAT DEFAULT 0,
+  metadata_filter JSONB DEFAULT '{}',
+  document_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_id TEXT,
+  document_name TEXT,
+  knowledge_base_id TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id::TEXT AS chunk_id,
+    d.id::TEXT AS document_id,
+    d.name AS document_name,
+    d.knowledge_base_id::TEXT AS knowledge_base_id,
+    dc.content,
+    dc.metadata,
+    (1 - (dc.embedding <=> query_embedding))::FLOAT AS similarity
+  FROM document_chunks dc
+  JOIN documents d ON d.id::TEXT = dc.document_id::TEXT
+  WHERE d.knowledge_base_id::TEXT = ANY(knowledge_base_ids)
+    AND dc.embedding IS NOT NULL
+    AND (document_ids IS NULL OR d.id::TEXT = ANY(document_ids))
+    AND dc.metadata @> COALESCE(metadata_filter, '{}'::JSONB)
+    AND 1 - (dc.embedding <=> query_embedding) >= min_similarity
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$ language 'plpgsql' STABLE;
@@ -0,0 +1,49 @@
+-- Full-text search column for keyword retrieval over document chunks.
+-- The 'simple' configuration skips stemming and stop words so SKUs, error codes
+-- and product names match verbatim.
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_tsv ON document_chunks USING gin (content_tsv);
+
+-- Function to rank chunks by full-text relevance within a set of knowledge bases
+CREATE OR REPLACE FUNCTION keyword_search_document_chunks(
+  query_text TEXT,
+  knowledge_base_ids TEXT[],
+  match_count INTEGER DEFAULT 5,
+  metadata_filter JSONB DEFAULT '{}',
+  document_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_id TEXT,
+  document_name TEXT,
+  knowledge_base_id TEXT,
+  content TEXT,
+  metadata JSONB,
+  rank FLOAT
+) AS $$
+DECLARE
+  ts_query TSQUERY := websearch_to_tsquery('simple', query_text);
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id::TEXT AS chunk_id,
+    d.id::TEXT AS document_id,
+    d.name AS document_name,
+    d.knowledge_base_id::TEXT AS knowledge_base_id,
+    dc.content,
+    dc.metadata,
+    -- Normalisation 32 maps the rank into [0, 1)
+    ts_rank_cd(dc.content_tsv, ts_query, 32)::FLOAT AS rank
+  FROM document_chunks dc
+  JOIN documents d ON d.id::TEXT = dc.document_id::TEXT
+  WHERE d.knowledge_base_id::TEXT = ANY(knowledge_base_ids)
+    AND dc.content_tsv @@ ts_query
+    AND (document_ids IS NULL OR d.id::TEXT = ANY(document_ids))
+    AND dc.metadata @> COALESCE(metadata_filter, '{}'::JSONB)
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$ language 'plpgsql' STABLE;
@@ -0,0 +1,9 @@
+-- Per knowledge base chunking settings: { strategy, chunkSize, chunkOverlap }
+ALTER TABLE knowledge_bases
+  ADD COLUMN IF NOT EXISTS chunking_config JSONB DEFAULT '{}';
+
+ALTER TABLE knowledge_bases
+  ADD CONSTRAINT knowledge_bases_chunking_strategy_check CHECK (
+    chunking_config->>'strategy' IS NULL
+    OR chunking_config->>'strategy' IN ('fixed', 'sentence', 'markdown', 'table')
+  );
@@ -0,0 +1,74 @@
+-- Durable workflow executions: per-step checkpoints for resume and replay
+
+ALTER TABLE workflow_executions
+  ADD COLUMN IF NOT EXISTS conversation_id TEXT,
+  ADD COLUMN IF NOT EXISTS input_data JSONB,
+  ADD COLUMN IF NOT EXISTS output_data JSONB,
+  ADD COLUMN IF NOT EXISTS last_completed_node_id TEXT,
+  ADD COLUMN IF NOT EXISTS last_checkpoint_at TIMESTAMPTZ;
+
+ALTER TABLE workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE workflow_executions
+  ADD CONSTRAINT workflow_executions_status_check CHECK (
+    status IN ('running', 'completed', 'failed', 'timeout', 'cancelled', 'interrupted')
+  );
+
+CREATE TABLE IF NOT EXISTS workflow_execution_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  execution_id UUID NOT NULL REFERENCES workflow_executions(id) ON DELETE CASCADE,
+  -- Number of completed steps; 0 is the state before the first node
+  sequence INTEGER NOT NULL,
+  node_id TEXT,
+  plan_index INTEGER NOT NULL DEFAULT -1,
+  execution_plan JSONB NOT NULL DEFAULT '[]',
+  node_results JSONB NOT NULL DEFAULT '{}',
+  variables JSONB NOT NULL DEFAULT '{}',
+  last_result JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(execution_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_execution_checkpoints_execution_id
+  ON workflow_execution_checkpoints(execution_id, sequence DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_running_checkpoint
+  ON workflow_executions(last_checkpoint_at) WHERE status = 'running';
+
+ALTER TABLE workflow_execution_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- Workflow owners run, checkpoint and resume their own executions
+CREATE POLICY "Users can view executions of their workflows" ON workflow_executions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_executions.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert executions of their workflows" ON workflow_executions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_executions.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update executions of their workflows" ON workflow_executions
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_executions.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage checkpoints of their executions" ON workflow_execution_checkpoints
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM workflow_executions
+      JOIN agent_workflows ON agent_workflows.id = workflow_executions.workflow_id
+      WHERE workflow_executions.id = workflow_execution_checkpoints.execution_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,16 @@
+-- Parallel branch execution: checkpoints track the set of finished nodes
+-- instead of a position in a sequential plan
+
+ALTER TABLE workflow_execution_checkpoints
+  ADD COLUMN IF NOT EXISTS completed_node_ids JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE workflow_execution_checkpoints
+  DROP COLUMN IF EXISTS plan_index,
+  DROP COLUMN IF EXISTS execution_plan;
+
+INSERT INTO workflow_node_definitions (type, name, description, category, icon, input_schema, output_schema, configuration_schema) VALUES
+('join', 'Join', 'Waits for parallel branches and combines their results', 'utilities', 'Merge',
+ '{"branches": {"type": "object"}}',
+ '{"merged": {"type": "object"}, "results": {"type": "array"}, "branches": {"type": "object"}}',
+ '{"policy": {"type": "string", "enum": ["wait_all", "wait_any", "first_n"]}, "count": {"type": "number"}}'
+);
@@ -0,0 +1,3 @@
+-- Branch-aware routing: nodes on branches that were not selected finish as skipped
+ALTER TABLE workflow_execution_checkpoints
+  ADD COLUMN IF NOT EXISTS skipped_node_ids JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,65 @@
+-- Scheduled workflow runs: one schedule per schedule trigger node, plus run history
+
+CREATE TABLE IF NOT EXISTS workflow_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id UUID NOT NULL REFERENCES agent_workflows(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  schedule_type TEXT NOT NULL CHECK (schedule_type IN ('once', 'recurring', 'cron')),
+  cron_expression TEXT,
+  interval_minutes INTEGER CHECK (interval_minutes IS NULL OR interval_minutes > 0),
+  scheduled_time TIMESTAMPTZ,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  misfire_policy TEXT NOT NULL DEFAULT 'skip' CHECK (misfire_policy IN ('skip', 'catch_up', 'run_once')),
+  allow_overlap BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  -- Set while a run is in progress; a lapsed lease no longer blocks the next run
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(workflow_id, node_id)
+);
+
+CREATE TABLE IF NOT EXISTS workflow_schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES workflow_schedules(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES agent_workflows(id) ON DELETE CASCADE,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'skipped')),
+  execution_id UUID,
+  reason TEXT,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_due
+  ON workflow_schedules(next_run_at) WHERE enabled = TRUE;
+CREATE INDEX IF NOT EXISTS idx_workflow_schedule_runs_workflow_id
+  ON workflow_schedule_runs(workflow_id, scheduled_for DESC);
+
+ALTER TABLE workflow_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage schedules of their workflows" ON workflow_schedules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_schedules.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage schedule runs of their workflows" ON workflow_schedule_runs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_schedule_runs.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_workflow_schedules_updated_at BEFORE UPDATE ON workflow_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
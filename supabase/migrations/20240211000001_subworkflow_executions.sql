@@ -0,0 +1,14 @@
+-- Subworkflows: link child executions to the execution and node that started them
+ALTER TABLE workflow_executions
+  ADD COLUMN IF NOT EXISTS parent_execution_id UUID REFERENCES workflow_executions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS parent_node_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_parent_execution_id
+  ON workflow_executions(parent_execution_id) WHERE parent_execution_id IS NOT NULL;
+
+INSERT INTO workflow_node_definitions (type, name, description, category, icon, input_schema, output_schema, configuration_schema) VALUES
+('subworkflow', 'Subworkflow', 'Runs another workflow and returns its declared outputs', 'utilities', 'Workflow',
+ '{"input": {"type": "object"}}',
+ '{"output": {"type": "object"}}',
+ '{"subworkflowId": {"type": "string"}, "inputMapping": {"type": "object"}, "outputMapping": {"type": "object"}, "isolateVariables": {"type": "boolean"}, "maxDepth": {"type": "number"}, "retryCount": {"type": "number"}, "retryDelay": {"type": "number"}}'
+);
@@ -0,0 +1,68 @@
+-- Workflow version history: every save is an immutable revision, and deployments
+-- run a pinned published revision instead of the editable draft
+
+CREATE TABLE IF NOT EXISTS workflow_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id UUID NOT NULL REFERENCES agent_workflows(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  name TEXT NOT NULL,
+  description TEXT,
+  version TEXT,
+  workflow_data JSONB NOT NULL,
+  tags TEXT[] DEFAULT '{}',
+  message TEXT,
+  -- Set when the revision was created by rolling back to an earlier one
+  restored_from INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(workflow_id, revision_number)
+);
+
+ALTER TABLE agent_workflows
+  ADD COLUMN IF NOT EXISTS current_revision INTEGER,
+  ADD COLUMN IF NOT EXISTS published_revision INTEGER;
+
+ALTER TABLE agent_deployments
+  ADD COLUMN IF NOT EXISTS workflow_revision INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_revisions_workflow_id
+  ON workflow_revisions(workflow_id, revision_number DESC);
+
+-- Existing workflows start their history with what they currently contain
+INSERT INTO workflow_revisions (workflow_id, revision_number, name, description, version, workflow_data, tags, message, created_by, created_at)
+SELECT id, 1, name, description, version, workflow_data, tags, 'Initial revision', user_id, COALESCE(updated_at, NOW())
+FROM agent_workflows
+ON CONFLICT (workflow_id, revision_number) DO NOTHING;
+
+UPDATE agent_workflows SET current_revision = 1 WHERE current_revision IS NULL;
+
+CREATE OR REPLACE FUNCTION prevent_workflow_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Workflow revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER workflow_revisions_immutable BEFORE UPDATE ON workflow_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_workflow_revision_update();
+
+ALTER TABLE workflow_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions can be read and added but never changed or removed on their own
+CREATE POLICY "Users can view revisions of their workflows" ON workflow_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_revisions.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add revisions to their workflows" ON workflow_revisions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_revisions.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,63 @@
+-- Suspended workflow executions: wait / human approval nodes park the execution
+-- here until an approval, a webhook, a customer reply or a timeout resumes it
+
+ALTER TABLE workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE workflow_executions
+  ADD CONSTRAINT workflow_executions_status_check CHECK (
+    status IN ('running', 'waiting', 'completed', 'failed', 'timeout', 'cancelled', 'interrupted')
+  );
+
+CREATE TABLE IF NOT EXISTS workflow_waits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  execution_id UUID NOT NULL REFERENCES workflow_executions(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES agent_workflows(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  node_name TEXT,
+  condition TEXT NOT NULL CHECK (condition IN ('approval', 'webhook', 'customer_reply', 'timeout')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'approved', 'rejected', 'received', 'timed_out', 'cancelled')
+  ),
+  title TEXT NOT NULL,
+  instructions TEXT,
+  -- Email of the team member who has to decide an approval
+  assignee TEXT,
+  correlation_key TEXT,
+  conversation_id TEXT,
+  -- Node input shown to the approver
+  context JSONB NOT NULL DEFAULT '{}',
+  timeout_at TIMESTAMPTZ,
+  decision JSONB,
+  decided_by TEXT,
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_execution
+  ON workflow_waits(execution_id, node_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_pending_assignee
+  ON workflow_waits(assignee, created_at DESC) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_pending_correlation
+  ON workflow_waits(correlation_key) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_pending_conversation
+  ON workflow_waits(conversation_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_pending_timeout
+  ON workflow_waits(timeout_at) WHERE status = 'pending';
+
+ALTER TABLE workflow_waits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage waits of their workflows" ON workflow_waits
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_waits.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+-- Approvers do not need to own the workflow to see and decide what is assigned to them
+CREATE POLICY "Assignees can view their approvals" ON workflow_waits
+  FOR SELECT USING (lower(assignee) = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Assignees can decide their approvals" ON workflow_waits
+  FOR UPDATE USING (status = 'pending' AND lower(assignee) = lower(auth.jwt() ->> 'email'));
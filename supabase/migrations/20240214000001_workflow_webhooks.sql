@@ -0,0 +1,63 @@
+-- Inbound webhooks: one URL per webhook trigger node; every delivery is stored in
+-- webhook_events so it can be inspected and replayed
+
+CREATE TABLE IF NOT EXISTS workflow_webhooks (
+  -- Also the secret part of the webhook URL: /api/webhooks/<id>
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id UUID NOT NULL REFERENCES agent_workflows(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  method TEXT NOT NULL DEFAULT 'POST' CHECK (method IN ('GET', 'POST', 'PUT', 'DELETE', 'PATCH')),
+  auth_type TEXT NOT NULL DEFAULT 'none' CHECK (auth_type IN ('none', 'api_key', 'bearer', 'basic', 'hmac')),
+  -- Header name, username, key or secret, depending on auth_type
+  auth_config JSONB NOT NULL DEFAULT '{}',
+  response_mode TEXT NOT NULL DEFAULT 'async' CHECK (response_mode IN ('sync', 'async')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(workflow_id, node_id)
+);
+
+-- Workflow deliveries are not tied to a channel
+ALTER TABLE webhook_events ALTER COLUMN channel_id DROP NOT NULL;
+
+ALTER TABLE webhook_events
+  ADD COLUMN IF NOT EXISTS webhook_id UUID REFERENCES workflow_webhooks(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS workflow_id UUID REFERENCES agent_workflows(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS method TEXT,
+  ADD COLUMN IF NOT EXISTS headers JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS query JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'received' CHECK (
+    status IN ('received', 'rejected', 'processing', 'processed', 'failed')
+  ),
+  ADD COLUMN IF NOT EXISTS response_status INTEGER,
+  ADD COLUMN IF NOT EXISTS response_body JSONB,
+  ADD COLUMN IF NOT EXISTS execution_id UUID,
+  ADD COLUMN IF NOT EXISTS replay_of UUID REFERENCES webhook_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_webhooks_workflow_id ON workflow_webhooks(workflow_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_webhook_id ON webhook_events(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received
+  ON webhook_events(created_at) WHERE status = 'received';
+
+ALTER TABLE workflow_webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage webhooks of their workflows" ON workflow_webhooks
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_webhooks.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage webhook deliveries of their workflows" ON webhook_events
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = webhook_events.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_workflow_webhooks_updated_at BEFORE UPDATE ON workflow_webhooks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
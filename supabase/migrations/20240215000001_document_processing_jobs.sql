@@ -0,0 +1,43 @@
+-- Durable queue for document processing. finalize-upload enqueues a job per
+-- document; workers lease jobs, retry failed attempts with exponential backoff
+-- and move jobs that keep failing to the dead letter state.
+
+CREATE TABLE IF NOT EXISTS document_processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id TEXT NOT NULL,
+  knowledge_base_id UUID NOT NULL REFERENCES knowledge_bases(id) ON DELETE CASCADE,
+  -- Tenant the job is scheduled fairly for
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (
+    status IN ('queued', 'leased', 'running', 'succeeded', 'failed', 'dead_letter', 'cancelled')
+  ),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  -- Failed jobs are retried once this has passed
+  available_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  leased_by TEXT,
+  -- A leased or running job whose lease expires is treated as a failed attempt
+  lease_expires_at TIMESTAMPTZ,
+  last_error JSONB,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_document_id ON document_processing_jobs(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_user_id ON document_processing_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_available
+  ON document_processing_jobs(available_at) WHERE status IN ('queued', 'failed');
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_leases
+  ON document_processing_jobs(lease_expires_at) WHERE status IN ('leased', 'running');
+
+ALTER TABLE document_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their document processing jobs" ON document_processing_jobs
+  FOR ALL USING (user_id = auth.uid());
+
+CREATE TRIGGER update_document_processing_jobs_updated_at BEFORE UPDATE ON document_processing_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
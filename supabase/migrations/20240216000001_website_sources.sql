@@ -0,0 +1,77 @@
+-- Website sources of knowledge bases: a root URL and/or sitemap that is crawled
+-- into documents, plus one row per crawled page with the content hash that
+-- decides whether a re-crawl has to re-embed it.
+
+CREATE TABLE IF NOT EXISTS website_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  knowledge_base_id UUID NOT NULL REFERENCES knowledge_bases(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  root_url TEXT,
+  sitemap_url TEXT,
+  max_depth INTEGER NOT NULL DEFAULT 2 CHECK (max_depth >= 0),
+  max_pages INTEGER NOT NULL DEFAULT 200 CHECK (max_pages > 0),
+  include_patterns TEXT[] NOT NULL DEFAULT '{}',
+  exclude_patterns TEXT[] NOT NULL DEFAULT '{}',
+  respect_robots_txt BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Re-crawl schedule; no expression means the source is only crawled on demand
+  recrawl_cron TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  status TEXT NOT NULL DEFAULT 'idle' CHECK (status IN ('idle', 'crawling', 'error')),
+  next_crawl_at TIMESTAMPTZ,
+  last_crawled_at TIMESTAMPTZ,
+  -- Set while a crawl is in progress; a lapsed lock lets the next crawl start
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  last_crawl_stats JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (root_url IS NOT NULL OR sitemap_url IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS website_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id UUID NOT NULL REFERENCES website_sources(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  title TEXT,
+  status TEXT NOT NULL CHECK (status IN ('indexed', 'duplicate', 'removed', 'error')),
+  -- SHA-256 of the main-content text; unchanged pages are not re-embedded
+  content_hash TEXT,
+  -- 64-bit simhash (hex) used to spot near-duplicate pages
+  simhash TEXT,
+  duplicate_of TEXT,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  http_status INTEGER,
+  error TEXT,
+  last_crawled_at TIMESTAMPTZ,
+  last_changed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(source_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_sources_knowledge_base_id ON website_sources(knowledge_base_id);
+CREATE INDEX IF NOT EXISTS idx_website_sources_due
+  ON website_sources(next_crawl_at) WHERE recrawl_cron IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_website_pages_source_id ON website_pages(source_id, status);
+
+ALTER TABLE website_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE website_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their website sources" ON website_sources
+  FOR ALL USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view pages of their website sources" ON website_pages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM website_sources
+      WHERE website_sources.id = website_pages.source_id
+      AND website_sources.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_website_sources_updated_at BEFORE UPDATE ON website_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_website_pages_updated_at BEFORE UPDATE ON website_pages
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
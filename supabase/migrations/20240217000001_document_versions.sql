@@ -0,0 +1,239 @@
+-- Document versions: a re-upload adds a version to the existing document instead
+-- of creating a new one. Chunks are matched to the new version by content hash,
+-- so only changed chunks are embedded; superseded chunks are retired, not
+-- deleted, and stay available to restore an earlier version without re-embedding.
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  size_bytes BIGINT,
+  -- SHA-256 of the uploaded file; re-uploading identical bytes adds no version
+  content_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'superseded', 'failed')),
+  -- Set when the version was created by restoring an earlier one
+  restored_from INTEGER,
+  -- Chunks added, kept, retired and embeddings reused when the version went live
+  stats JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  activated_at TIMESTAMPTZ,
+  UNIQUE(document_id, version_number)
+);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS current_version INTEGER;
+
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS version_number INTEGER,
+  -- Retired chunks are no longer searchable
+  ADD COLUMN IF NOT EXISTS retired_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS retired_in_version INTEGER;
+
+ALTER TABLE document_processing_jobs
+  ADD COLUMN IF NOT EXISTS version_number INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id
+  ON document_versions(document_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_live
+  ON document_chunks(document_id) WHERE retired_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_hash
+  ON document_chunks(document_id, content_hash);
+
+-- Existing documents start their history with what they currently contain
+INSERT INTO document_versions (document_id, version_number, file_name, storage_path, size_bytes, status, created_by, created_at, activated_at)
+SELECT id, 1, name, storage_path, size_bytes, 'active', user_id, created_at, COALESCE(processed_at, created_at)
+FROM documents
+WHERE storage_path IS NOT NULL
+ON CONFLICT (document_id, version_number) DO NOTHING;
+
+UPDATE documents SET current_version = 1
+WHERE current_version IS NULL AND storage_path IS NOT NULL;
+
+UPDATE document_chunks SET version_number = 1
+WHERE version_number IS NULL;
+
+-- Swap the searchable chunks of a document in one transaction: insert the new
+-- chunks, move the kept ones, retire the rest and make the version current.
+-- Fails when another run changed the live chunks since they were diffed, so the
+-- attempt is retried against the new state. Returns false when a newer version
+-- went live first; this version is then superseded without touching the chunks.
+CREATE OR REPLACE FUNCTION apply_document_chunk_changes(
+  doc_id TEXT,
+  version INTEGER,
+  new_chunks JSONB,
+  kept_chunks JSONB,
+  retired_chunk_ids TEXT[],
+  change_stats JSONB DEFAULT '{}'
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  kept_ids TEXT[] := ARRAY(SELECT jsonb_array_elements(kept_chunks) ->> 'id');
+BEGIN
+  -- Serialise runs for the same document
+  PERFORM 1 FROM documents WHERE id::TEXT = doc_id FOR UPDATE;
+
+  IF version IS NOT NULL AND EXISTS (
+    SELECT 1 FROM document_versions
+    WHERE document_id = doc_id AND status = 'active' AND version_number > version
+  ) THEN
+    UPDATE document_versions SET status = 'superseded'
+    WHERE document_id = doc_id AND version_number = version;
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM document_chunks
+    WHERE document_id = doc_id
+      AND retired_at IS NULL
+      AND NOT (id = ANY(kept_ids) OR id = ANY(retired_chunk_ids))
+  ) OR (
+    SELECT COUNT(*) FROM document_chunks
+    WHERE document_id = doc_id AND retired_at IS NULL AND id = ANY(kept_ids)
+  ) <> COALESCE(array_length(kept_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Chunks of document % changed while it was processed', doc_id;
+  END IF;
+
+  INSERT INTO document_chunks (
+    id, document_id, content, start_index, end_index, tokens, embedding, metadata, content_hash, version_number
+  )
+  SELECT c.id, doc_id, c.content, c.start_index, c.end_index, c.tokens, c.embedding::VECTOR,
+    COALESCE(c.metadata, '{}'), c.content_hash, version
+  FROM jsonb_to_recordset(new_chunks) AS c(
+    id TEXT, content TEXT, start_index INTEGER, end_index INTEGER, tokens INTEGER,
+    embedding TEXT, metadata JSONB, content_hash TEXT
+  );
+
+  UPDATE document_chunks dc SET
+    start_index = k.start_index,
+    end_index = k.end_index,
+    metadata = COALESCE(k.metadata, dc.metadata),
+    content_hash = k.content_hash
+  FROM jsonb_to_recordset(kept_chunks) AS k(
+    id TEXT, start_index INTEGER, end_index INTEGER, metadata JSONB, content_hash TEXT
+  )
+  WHERE dc.id = k.id AND dc.document_id = doc_id;
+
+  UPDATE document_chunks SET retired_at = NOW(), retired_in_version = version
+  WHERE document_id = doc_id AND id = ANY(retired_chunk_ids) AND retired_at IS NULL;
+
+  IF version IS NOT NULL THEN
+    UPDATE document_versions SET status = 'superseded'
+    WHERE document_id = doc_id AND status = 'active' AND version_number <> version;
+
+    UPDATE document_versions SET status = 'active', activated_at = NOW(), stats = change_stats, error = NULL
+    WHERE document_id = doc_id AND version_number = version;
+
+    UPDATE documents SET current_version = version WHERE id::TEXT = doc_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ language 'plpgsql';
+
+-- Search only the live chunks
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding VECTOR(1536),
+  knowledge_base_ids TEXT[],
+  match_count INTEGER DEFAULT 5,
+  min_similarity FLOAT DEFAULT 0,
+  metadata_filter JSONB DEFAULT '{}',
+  document_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_id TEXT,
+  document_name TEXT,
+  knowledge_base_id TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id::TEXT AS chunk_id,
+    d.id::TEXT AS document_id,
+    d.name AS document_name,
+    d.knowledge_base_id::TEXT AS knowledge_base_id,
+    dc.content,
+    dc.metadata,
+    (1 - (dc.embedding <=> query_embedding))::FLOAT AS similarity
+  FROM document_chunks dc
+  JOIN documents d ON d.id::TEXT = dc.document_id::TEXT
+  WHERE d.knowledge_base_id::TEXT = ANY(knowledge_base_ids)
+    AND dc.embedding IS NOT NULL
+    AND dc.retired_at IS NULL
+    AND (document_ids IS NULL OR d.id::TEXT = ANY(document_ids))
+    AND dc.metadata @> COALESCE(metadata_filter, '{}'::JSONB)
+    AND 1 - (dc.embedding <=> query_embedding) >= min_similarity
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$ language 'plpgsql' STABLE;
+
+CREATE OR REPLACE FUNCTION keyword_search_document_chunks(
+  query_text TEXT,
+  knowledge_base_ids TEXT[],
+  match_count INTEGER DEFAULT 5,
+  metadata_filter JSONB DEFAULT '{}',
+  document_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_id TEXT,
+  document_name TEXT,
+  knowledge_base_id TEXT,
+  content TEXT,
+  metadata JSONB,
+  rank FLOAT
+) AS $$
+DECLARE
+  ts_query TSQUERY := websearch_to_tsquery('simple', query_text);
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id::TEXT AS chunk_id,
+    d.id::TEXT AS document_id,
+    d.name AS document_name,
+    d.knowledge_base_id::TEXT AS knowledge_base_id,
+    dc.content,
+    dc.metadata,
+    -- Normalisation 32 maps the rank into [0, 1)
+    ts_rank_cd(dc.content_tsv, ts_query, 32)::FLOAT AS rank
+  FROM document_chunks dc
+  JOIN documents d ON d.id::TEXT = dc.document_id::TEXT
+  WHERE d.knowledge_base_id::TEXT = ANY(knowledge_base_ids)
+    AND dc.content_tsv @@ ts_query
+    AND dc.retired_at IS NULL
+    AND (document_ids IS NULL OR d.id::TEXT = ANY(document_ids))
+    AND dc.metadata @> COALESCE(metadata_filter, '{}'::JSONB)
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$ language 'plpgsql' STABLE;
+
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions can be read and added but are only changed by the processing pipeline
+CREATE POLICY "Users can view versions of their documents" ON document_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add versions to their documents" ON document_versions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,65 @@
+-- Refuse vector searches whose query was embedded with another model than the
+-- chunks. Every chunk records its model in metadata.embeddingModel; comparing
+-- vectors of two models returns meaningless similarities instead of an error.
+
+DROP FUNCTION IF EXISTS match_document_chunks(VECTOR(1536), TEXT[], INTEGER, FLOAT, JSONB, TEXT[]);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding VECTOR(1536),
+  knowledge_base_ids TEXT[],
+  query_model TEXT,
+  match_count INTEGER DEFAULT 5,
+  min_similarity FLOAT DEFAULT 0,
+  metadata_filter JSONB DEFAULT '{}',
+  document_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_id TEXT,
+  document_name TEXT,
+  knowledge_base_id TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+) AS $$
+DECLARE
+  stored_model TEXT;
+BEGIN
+  SELECT COALESCE(dc.metadata ->> 'embeddingModel', 'unknown') INTO stored_model
+  FROM document_chunks dc
+  JOIN documents d ON d.id::TEXT = dc.document_id::TEXT
+  WHERE d.knowledge_base_id::TEXT = ANY(knowledge_base_ids)
+    AND dc.embedding IS NOT NULL
+    AND dc.retired_at IS NULL
+    AND (document_ids IS NULL OR d.id::TEXT = ANY(document_ids))
+    AND (dc.metadata ->> 'embeddingModel') IS DISTINCT FROM query_model
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- EM001 is mapped to EmbeddingModelMismatchError by the retriever
+    RAISE EXCEPTION 'Chunks were embedded with %, but the query was embedded with %', stored_model, query_model
+      USING ERRCODE = 'EM001',
+            HINT = 'Re-process the documents with the configured embedding model';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id::TEXT AS chunk_id,
+    d.id::TEXT AS document_id,
+    d.name AS document_name,
+    d.knowledge_base_id::TEXT AS knowledge_base_id,
+    dc.content,
+    dc.metadata,
+    (1 - (dc.embedding <=> query_embedding))::FLOAT AS similarity
+  FROM document_chunks dc
+  JOIN documents d ON d.id::TEXT = dc.document_id::TEXT
+  WHERE d.knowledge_base_id::TEXT = ANY(knowledge_base_ids)
+    AND dc.embedding IS NOT NULL
+    AND dc.retired_at IS NULL
+    AND (document_ids IS NULL OR d.id::TEXT = ANY(document_ids))
+    AND dc.metadata @> COALESCE(metadata_filter, '{}'::JSONB)
+    AND 1 - (dc.embedding <=> query_embedding) >= min_similarity
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$ language 'plpgsql' STABLE;
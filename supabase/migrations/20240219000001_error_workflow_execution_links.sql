@@ -0,0 +1,14 @@
+-- Error workflows: link an error run to the failed execution that started it.
+-- Kept apart from parent_execution_id so error runs are not listed or counted
+-- as subworkflow children.
+ALTER TABLE workflow_executions
+  ADD COLUMN IF NOT EXISTS triggered_by_execution_id UUID REFERENCES workflow_executions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_triggered_by_execution_id
+  ON workflow_executions(triggered_by_execution_id) WHERE triggered_by_execution_id IS NOT NULL;
+
+-- Error runs recorded before this column existed
+UPDATE workflow_executions
+SET triggered_by_execution_id = parent_execution_id, parent_execution_id = NULL
+WHERE parent_execution_id IS NOT NULL
+  AND execution_data -> 'metadata' ->> 'trigger' = 'error';
@@ -0,0 +1,113 @@
+-- Approvals are decided through decide_workflow_wait only. The owner policy
+-- used to cover updates, so a workflow owner could approve a wait assigned to
+-- someone else, and the assignee policy had no WITH CHECK, so an assignee could
+-- rewrite any column of the row.
+
+-- Set when an execution was resumed after its wait resolved. Decisions are
+-- stored in the decider's session, which cannot see the execution; the wait
+-- sweep resumes every resolved wait that has not been resumed yet.
+ALTER TABLE workflow_waits ADD COLUMN IF NOT EXISTS resumed_at TIMESTAMPTZ;
+
+UPDATE workflow_waits SET resumed_at = resolved_at WHERE status <> 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_workflow_waits_unresumed
+  ON workflow_waits(resolved_at) WHERE status <> 'pending' AND resumed_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can manage waits of their workflows" ON workflow_waits;
+DROP POLICY IF EXISTS "Assignees can decide their approvals" ON workflow_waits;
+
+CREATE POLICY "Users can view waits of their workflows" ON workflow_waits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_waits.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create waits of their workflows" ON workflow_waits
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_waits.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+-- Owners can still let a wait time out, be cancelled or receive its webhook or
+-- reply, but every update has to resolve it, and never as an approval decision
+CREATE POLICY "Users can resolve waits of their workflows" ON workflow_waits
+  FOR UPDATE USING (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_waits.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  ) WITH CHECK (
+    status IN ('received', 'timed_out', 'cancelled')
+    AND (condition <> 'approval' OR status <> 'received')
+    AND EXISTS (
+      SELECT 1 FROM agent_workflows
+      WHERE agent_workflows.id = workflow_waits.workflow_id
+      AND agent_workflows.user_id = auth.uid()
+    )
+  );
+
+-- Decide a pending approval as the signed-in user. Only the assignee can
+-- decide an assigned approval; an unassigned one is decided by the workflow
+-- owner. Only the decision columns change, and decided_by is the caller's
+-- email rather than anything the client sends.
+CREATE OR REPLACE FUNCTION decide_workflow_wait(
+  wait_id UUID,
+  decision_status TEXT,
+  decision_payload JSONB DEFAULT NULL,
+  decision_comment TEXT DEFAULT NULL
+)
+RETURNS SETOF workflow_waits AS $$
+DECLARE
+  caller_email TEXT := auth.jwt() ->> 'email';
+  wait workflow_waits%ROWTYPE;
+BEGIN
+  IF decision_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'An approval is either approved or rejected, not %', decision_status
+      USING ERRCODE = 'WW001';
+  END IF;
+
+  SELECT * INTO wait FROM workflow_waits WHERE id = wait_id;
+
+  IF NOT FOUND OR wait.condition <> 'approval' THEN
+    RAISE EXCEPTION 'Approval % not found', wait_id
+      USING ERRCODE = 'WW002';
+  END IF;
+
+  IF wait.assignee IS NOT NULL THEN
+    IF caller_email IS NULL OR lower(wait.assignee) <> lower(caller_email) THEN
+      RAISE EXCEPTION 'Only % can decide this approval', wait.assignee
+        USING ERRCODE = 'WW003';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM agent_workflows
+    WHERE agent_workflows.id = wait.workflow_id
+    AND agent_workflows.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the workflow owner can decide this approval'
+      USING ERRCODE = 'WW003';
+  END IF;
+
+  -- No row when another decision or the timeout got there first
+  RETURN QUERY
+  UPDATE workflow_waits
+  SET status = decision_status,
+      decision = decision_payload,
+      decided_by = caller_email,
+      comment = decision_comment,
+      resolved_at = NOW()
+  WHERE id = wait_id
+    AND status = 'pending'
+  RETURNING *;
+END;
+$$ language plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION decide_workflow_wait(UUID, TEXT, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION decide_workflow_wait(UUID, TEXT, JSONB, TEXT) TO authenticated;
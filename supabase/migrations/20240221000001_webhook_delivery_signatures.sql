@@ -0,0 +1,7 @@
+-- Signature of each accepted HMAC-signed delivery. Signatures cover a timestamp
+-- and expire after a few minutes; the unique index refuses a captured delivery
+-- that is sent again within that window.
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS delivery_signature TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_delivery_signature
+  ON webhook_events(webhook_id, delivery_signature) WHERE delivery_signature IS NOT NULL;
@@ -0,0 +1,112 @@
+-- Users only read their processing jobs. The worker downloads a job's
+-- storage_path with the service role, so writing jobs directly would let a user
+-- queue another tenant's file. Jobs are queued, retried and cancelled through
+-- the functions below, which check the document and its storage path.
+
+DROP POLICY IF EXISTS "Users can manage their document processing jobs" ON document_processing_jobs;
+
+CREATE POLICY "Users can view their document processing jobs" ON document_processing_jobs
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Whether a job may process this file: the document belongs to the knowledge
+-- base and the user, and the path is the document's file in that knowledge base
+CREATE OR REPLACE FUNCTION document_processing_job_allowed(
+  job_document_id TEXT,
+  job_knowledge_base_id UUID,
+  job_user_id UUID,
+  job_storage_path TEXT
+)
+RETURNS BOOLEAN AS $$
+  SELECT job_storage_path LIKE 'knowledge-bases/' || job_knowledge_base_id::TEXT || '/%'
+    AND position('..' IN job_storage_path) = 0
+    AND EXISTS (
+      SELECT 1
+      FROM documents d
+      JOIN knowledge_bases kb ON kb.id = d.knowledge_base_id
+      WHERE d.id::TEXT = job_document_id
+        AND d.knowledge_base_id = job_knowledge_base_id
+        AND d.storage_path = job_storage_path
+        AND kb.user_id = job_user_id
+    );
+$$ language sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION enqueue_document_processing_job(
+  job_document_id TEXT,
+  job_knowledge_base_id UUID,
+  job_user_id UUID,
+  job_file_name TEXT,
+  job_storage_path TEXT,
+  job_version_number INTEGER DEFAULT NULL,
+  job_max_attempts INTEGER DEFAULT 5
+)
+RETURNS SETOF document_processing_jobs AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND auth.uid() IS DISTINCT FROM job_user_id THEN
+    RAISE EXCEPTION 'Processing jobs can only be queued for yourself'
+      USING ERRCODE = 'PJ001';
+  END IF;
+
+  IF NOT document_processing_job_allowed(job_document_id, job_knowledge_base_id, job_user_id, job_storage_path) THEN
+    RAISE EXCEPTION 'Document % has no file at %', job_document_id, job_storage_path
+      USING ERRCODE = 'PJ002';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO document_processing_jobs (
+    document_id, knowledge_base_id, user_id, file_name, storage_path, version_number, max_attempts, status
+  )
+  VALUES (
+    job_document_id, job_knowledge_base_id, job_user_id, job_file_name, job_storage_path,
+    job_version_number, job_max_attempts, 'queued'
+  )
+  RETURNING *;
+END;
+$$ language plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Queue a failed, dead-lettered or cancelled job again with a fresh set of
+-- attempts. No row when the job is not the caller's or is not in a retryable
+-- state; the file is checked again, as the document may have changed since.
+CREATE OR REPLACE FUNCTION retry_document_processing_job(job_id UUID)
+RETURNS SETOF document_processing_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE document_processing_jobs j
+  SET status = 'queued',
+      attempts = 0,
+      available_at = NOW(),
+      finished_at = NULL,
+      leased_by = NULL,
+      lease_expires_at = NULL
+  WHERE j.id = job_id
+    AND j.status IN ('failed', 'dead_letter', 'cancelled')
+    AND (auth.role() = 'service_role' OR j.user_id = auth.uid())
+    AND document_processing_job_allowed(j.document_id, j.knowledge_base_id, j.user_id, j.storage_path)
+  RETURNING j.*;
+END;
+$$ language plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel a job that has not finished. No row when the job is not the caller's
+-- or has finished already.
+CREATE OR REPLACE FUNCTION cancel_document_processing_job(job_id UUID)
+RETURNS SETOF document_processing_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE document_processing_jobs j
+  SET status = 'cancelled',
+      finished_at = NOW(),
+      leased_by = NULL,
+      lease_expires_at = NULL
+  WHERE j.id = job_id
+    AND j.status IN ('queued', 'leased', 'running', 'failed')
+    AND (auth.role() = 'service_role' OR j.user_id = auth.uid())
+  RETURNING j.*;
+END;
+$$ language plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION document_processing_job_allowed(TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION enqueue_document_processing_job(TEXT, UUID, UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION retry_document_processing_job(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION cancel_document_processing_job(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_document_processing_job(TEXT, UUID, UUID, TEXT, TEXT, INTEGER, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION retry_document_processing_job(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION cancel_document_processing_job(UUID) TO authenticated, service_role;